@@ -1,23 +1,48 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, useNavigate, useParams } from 'react-router-dom';
 import { Hero } from './components/Hero';
-import { Services } from './components/Services';
+import { Services, getServiceBySlug } from './components/Services';
+import { ProjectMap } from './components/ProjectMap';
 import { Contact } from './components/Contact';
 import { SideControls } from './components/SideControls';
 import { ContactModal } from './components/ContactModal';
 import { PageNavigation } from './components/PageNavigation';
 import { ErrorBoundary } from './components/ErrorBoundary';
+import { EstimatorPage } from './pages/EstimatorPage';
+import { CoordinateToolPage } from './pages/CoordinateToolPage';
+import { VolumeToolPage } from './pages/VolumeToolPage';
+import { NotFoundPage } from './pages/NotFoundPage';
+import { CaseStudiesPage } from './pages/CaseStudiesPage';
+import { CaseStudyPage } from './pages/CaseStudyPage';
+import { LoginPage } from './pages/LoginPage';
+import { PortalPage } from './pages/PortalPage';
+import { AdminPage } from './pages/AdminPage';
+import { QuotePage } from './pages/QuotePage';
+import { SurveyBookingPage } from './pages/SurveyBookingPage';
+import { SurveyManagePage } from './pages/SurveyManagePage';
+import { RequireSession } from './components/RequireSession';
+import { LocaleProvider, useI18n } from './components/LocaleProvider';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { LOCALES, localizePath } from './shared/i18n';
 
 const LandingPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { to } = useI18n();
+  const { slug } = useParams<{ slug?: string }>();
+  const activeService = getServiceBySlug(slug);
+  const isUnknownService = Boolean(slug) && !activeService;
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [activeSection, setActiveSection] = useState<string>('hero');
   
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const heroRef = useRef<HTMLDivElement>(null);
   const servicesRef = useRef<HTMLDivElement>(null);
+  const projectsRef = useRef<HTMLDivElement>(null);
   const contactRef = useRef<HTMLDivElement>(null);
   
   useEffect(() => {
+    if (isUnknownService) return;
+
     const observer = new IntersectionObserver(
       (entries) => {
         entries.forEach((entry) => {
@@ -34,24 +59,46 @@ const LandingPage: React.FC = () => {
 
     if (heroRef.current) observer.observe(heroRef.current);
     if (servicesRef.current) observer.observe(servicesRef.current);
+    if (projectsRef.current) observer.observe(projectsRef.current);
     if (contactRef.current) observer.observe(contactRef.current);
 
     return () => observer.disconnect();
-  }, []);
+  }, [isUnknownService]);
+
+  // /hizmetler/:slug ile açıldığında ya da sekme değiştiğinde hizmetler bölümüne kaydır
+  useEffect(() => {
+    if (activeService) {
+      servicesRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [activeService]);
 
   const handleNavigation = (sectionId: string) => {
     const refs: Record<string, React.RefObject<HTMLDivElement>> = {
       hero: heroRef,
       services: servicesRef,
+      'service-detail': servicesRef,
+      projects: projectsRef,
       contact: contactRef,
     };
-    
+
+    // Detay açıkken "Hizmetler" noktası kart görünümüne döner
+    if (sectionId === 'services' && activeService) {
+      navigate(to('/'));
+    }
     refs[sectionId]?.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  if (isUnknownService) {
+    return <NotFoundPage />;
+  }
+
+  // Detay rotasında hizmetler bölümü "Detay" noktasıyla gösterilir
+  const navigationSection = activeSection === 'services' && activeService ? 'service-detail' : activeSection;
+
   return (
     <main className="relative bg-black h-screen w-screen overflow-hidden">
-      <PageNavigation activeSection={activeSection} onNavigate={handleNavigation} showDetailDot={false} />
+      <PageNavigation activeSection={navigationSection} onNavigate={handleNavigation} showDetailDot={Boolean(activeService)} />
+      <LanguageSwitcher className="fixed top-6 right-6 z-50 bg-black/40 backdrop-blur rounded-full px-3 py-2" />
 
       <div ref={scrollContainerRef} className="h-full w-full overflow-y-scroll scroll-smooth snap-y snap-mandatory no-scrollbar">
         <div id="hero" ref={heroRef} className="snap-start h-screen w-full">
@@ -62,6 +109,10 @@ const LandingPage: React.FC = () => {
             <Services />
         </div>
 
+        <div id="projects" ref={projectsRef} className="snap-start h-screen w-full">
+          <ProjectMap />
+        </div>
+
         <div id="contact" ref={contactRef} className="snap-start h-screen w-full">
           <Contact onOpenModal={() => setIsModalOpen(true)} />
         </div>
@@ -77,10 +128,50 @@ const App: React.FC = () => {
   return (
     <ErrorBoundary>
       <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<LandingPage />} />
-          <Route path="*" element={<Navigate to="/" replace />} />
-        </Routes>
+        <LocaleProvider>
+          <Routes>
+            {/* Türkçe öneksiz, diğer diller /en/... altında aynı sayfaları sunar */}
+            {LOCALES.map((locale) => (
+              <React.Fragment key={locale}>
+                <Route path={localizePath('/', locale)} element={<LandingPage />} />
+                <Route path={localizePath('/hizmetler/:slug', locale)} element={<LandingPage />} />
+                <Route path={localizePath('/fiyat-tahmini', locale)} element={<EstimatorPage />} />
+                <Route path={localizePath('/araclar/koordinat', locale)} element={<CoordinateToolPage />} />
+                <Route path={localizePath('/araclar/hacim', locale)} element={<VolumeToolPage />} />
+                <Route path={localizePath('/kesif', locale)} element={<SurveyBookingPage />} />
+                <Route path={localizePath('/kesif/yonet', locale)} element={<SurveyManagePage />} />
+                <Route path={localizePath('/referanslar', locale)} element={<CaseStudiesPage />} />
+                <Route path={localizePath('/referanslar/:slug', locale)} element={<CaseStudyPage />} />
+                <Route path={localizePath('/giris', locale)} element={<LoginPage />} />
+                <Route
+                  path={localizePath('/portal', locale)}
+                  element={
+                    <RequireSession>
+                      <PortalPage />
+                    </RequireSession>
+                  }
+                />
+                <Route
+                  path={localizePath('/admin', locale)}
+                  element={
+                    <RequireSession role="staff">
+                      <AdminPage />
+                    </RequireSession>
+                  }
+                />
+                <Route
+                  path={localizePath('/admin/teklif', locale)}
+                  element={
+                    <RequireSession role="staff">
+                      <QuotePage />
+                    </RequireSession>
+                  }
+                />
+              </React.Fragment>
+            ))}
+            <Route path="*" element={<NotFoundPage />} />
+          </Routes>
+        </LocaleProvider>
       </BrowserRouter>
     </ErrorBoundary>
   );
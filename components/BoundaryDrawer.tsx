@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { Crosshair, Undo2, Trash2 } from 'lucide-react';
+import type { Position } from '../shared/geo/types';
+import { format, formatNumber } from '../shared/i18n';
+import { useI18n } from './LocaleProvider';
+
+interface BoundaryDrawerProps {
+  /** Açık halka (kapanış noktası olmadan), [boylam, enlem] */
+  vertices: Position[];
+  onChange: (vertices: Position[]) => void;
+}
+
+// Çizim alanı merkez etrafında yerel metrik düzlemdir; parsel ölçeğinde eşdikdörtgen yaklaşım yeterlidir.
+// Kesin alan hesabı sunucuda jeodezik olarak yapılır.
+const METERS_PER_DEGREE_LAT = 111_320;
+const VIEW_SIZE = 1000;
+const EXTENTS = [
+  { label: '200 m', meters: 200 },
+  { label: '1 km', meters: 1_000 },
+  { label: '5 km', meters: 5_000 },
+  { label: '20 km', meters: 20_000 },
+];
+
+const inputClass =
+  'w-full bg-stone-800 border border-stone-700 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-emerald-500';
+
+export const BoundaryDrawer: React.FC<BoundaryDrawerProps> = ({ vertices, onChange }) => {
+  const { locale, messages } = useI18n();
+  const m = messages.boundaryDrawer;
+  // Varsayılan merkez: Ankara
+  const [center, setCenter] = useState<Position>([32.8597, 39.9334]);
+  const [extent, setExtent] = useState(EXTENTS[1].meters);
+
+  const metersPerDegreeLon = METERS_PER_DEGREE_LAT * Math.cos((center[1] * Math.PI) / 180);
+  const metersPerUnit = extent / VIEW_SIZE;
+
+  const toView = ([lon, lat]: Position): [number, number] => [
+    VIEW_SIZE / 2 + ((lon - center[0]) * metersPerDegreeLon) / metersPerUnit,
+    VIEW_SIZE / 2 - ((lat - center[1]) * METERS_PER_DEGREE_LAT) / metersPerUnit,
+  ];
+
+  const fromView = (x: number, y: number): Position => [
+    center[0] + ((x - VIEW_SIZE / 2) * metersPerUnit) / metersPerDegreeLon,
+    center[1] - ((y - VIEW_SIZE / 2) * metersPerUnit) / METERS_PER_DEGREE_LAT,
+  ];
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * VIEW_SIZE;
+    const y = ((e.clientY - rect.top) / rect.height) * VIEW_SIZE;
+    onChange([...vertices, fromView(x, y)]);
+  };
+
+  const useMyLocation = () => {
+    navigator.geolocation?.getCurrentPosition((pos) => {
+      setCenter([pos.coords.longitude, pos.coords.latitude]);
+      onChange([]);
+    });
+  };
+
+  const gridLines = useMemo(() => Array.from({ length: 9 }, (_, i) => ((i + 1) * VIEW_SIZE) / 10), []);
+  const points = vertices.map(toView);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+        <label className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">
+          {m.latitude}
+          <input
+            type="number"
+            step="0.0001"
+            value={center[1]}
+            onChange={(e) => setCenter([center[0], Number(e.target.value)])}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">
+          {m.longitude}
+          <input
+            type="number"
+            step="0.0001"
+            value={center[0]}
+            onChange={(e) => setCenter([Number(e.target.value), center[1]])}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">
+          {m.extent}
+          <select value={extent} onChange={(e) => setExtent(Number(e.target.value))} className={inputClass}>
+            {EXTENTS.map((opt) => (
+              <option key={opt.meters} value={opt.meters}>
+                {opt.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <div className="flex items-end gap-2">
+          <button type="button" onClick={useMyLocation} title={m.locate} className="p-2 rounded-lg bg-stone-800 text-stone-300 hover:text-emerald-400">
+            <Crosshair size={18} />
+          </button>
+          <button type="button" onClick={() => onChange(vertices.slice(0, -1))} title={m.undo} className="p-2 rounded-lg bg-stone-800 text-stone-300 hover:text-emerald-400">
+            <Undo2 size={18} />
+          </button>
+          <button type="button" onClick={() => onChange([])} title={m.clear} className="p-2 rounded-lg bg-stone-800 text-stone-300 hover:text-red-400">
+            <Trash2 size={18} />
+          </button>
+        </div>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${VIEW_SIZE} ${VIEW_SIZE}`}
+        onClick={handleClick}
+        className="w-full aspect-square bg-stone-950 rounded-xl border border-stone-800 cursor-crosshair select-none"
+      >
+        {gridLines.map((pos) => (
+          <g key={pos} stroke="rgba(255,255,255,0.06)" strokeWidth={1}>
+            <line x1={pos} y1={0} x2={pos} y2={VIEW_SIZE} />
+            <line x1={0} y1={pos} x2={VIEW_SIZE} y2={pos} />
+          </g>
+        ))}
+        {points.length >= 3 && (
+          <polygon
+            points={points.map((p) => p.join(',')).join(' ')}
+            fill="rgba(16,185,129,0.2)"
+            stroke="#10b981"
+            strokeWidth={3}
+          />
+        )}
+        {points.length === 2 && (
+          <line x1={points[0][0]} y1={points[0][1]} x2={points[1][0]} y2={points[1][1]} stroke="#10b981" strokeWidth={3} />
+        )}
+        {points.map(([x, y], idx) => (
+          <circle key={idx} cx={x} cy={y} r={8} fill={idx === 0 ? '#f59e0b' : '#10b981'} stroke="#000" strokeWidth={2} />
+        ))}
+        <text x={16} y={VIEW_SIZE - 16} fill="rgba(255,255,255,0.4)" fontSize={22}>
+          {format(m.grid, { size: formatNumber(extent / 10, locale) })}
+        </text>
+      </svg>
+      <p className="text-xs text-stone-500">
+        {m.hint}
+      </p>
+    </div>
+  );
+};
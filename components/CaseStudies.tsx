@@ -0,0 +1,130 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRight, MapPin } from 'lucide-react';
+import { caseStudies as caseStudyContent } from 'virtual:case-studies';
+import type { CaseStudyContent, CaseStudyLocaleContent, CaseStudyMetrics } from '../shared/content/caseStudies';
+import type { ServiceId } from '../shared/services';
+import { format, formatNumber, LOCALE_TAGS, type Locale, type Messages } from '../shared/i18n';
+import { useI18n } from './LocaleProvider';
+
+export type LocalizedCaseStudy = Omit<CaseStudyContent, 'locales'> & CaseStudyLocaleContent;
+
+/** Derleme sırasında content/referanslar altından doğrulanarak üretilir (plugins/caseStudyContent.ts), en yeni önce */
+export const caseStudiesData: CaseStudyContent[] = caseStudyContent;
+
+export const getCaseStudyBySlug = (slug: string | undefined) => caseStudiesData.find(c => c.slug === slug);
+
+/** Dilsiz yol; aktif dilin önekiyle birleştirmek için useI18n().to kullanılır */
+export const caseStudyPath = (slug?: string) => (slug ? `/referanslar/${slug}` : '/referanslar');
+
+export const localizeCaseStudies = (locale: Locale): LocalizedCaseStudy[] =>
+  caseStudiesData.map(({ locales, ...study }) => ({ ...study, ...locales[locale] }));
+
+export const useCaseStudies = (): LocalizedCaseStudy[] => {
+  const { locale } = useI18n();
+  return useMemo(() => localizeCaseStudies(locale), [locale]);
+};
+
+const METRIC_ORDER: (keyof CaseStudyMetrics)[] = ['areaHectares', 'pointsCaptured', 'accuracyCm'];
+
+/** Ölçekleri etiket/değer çiftlerine çevirir; nokta sayıları "2,4 Mr" gibi kısaltılır */
+export const formatCaseMetrics = (metrics: CaseStudyMetrics, messages: Messages, locale: Locale) =>
+  METRIC_ORDER.filter((key) => metrics[key] !== undefined).map((key) => {
+    const raw = metrics[key] as number;
+    const value =
+      key === 'pointsCaptured'
+        ? new Intl.NumberFormat(LOCALE_TAGS[locale], { notation: 'compact', maximumFractionDigits: 1 }).format(raw)
+        : formatNumber(raw, locale, key === 'accuracyCm' ? 1 : 0);
+    return {
+      key,
+      label: messages.caseStudies.metrics[key],
+      value: format(messages.caseStudies.metricValues[key], { value }),
+    };
+  });
+
+export const formatCaseLocation = (study: Pick<CaseStudyContent, 'location'>) =>
+  study.location.district ? `${study.location.district}, ${study.location.province}` : study.location.province;
+
+export const CaseStudyCard: React.FC<{ study: LocalizedCaseStudy }> = ({ study }) => {
+  const { locale, messages, to } = useI18n();
+  const metrics = formatCaseMetrics(study.metrics, messages, locale);
+
+  return (
+    <Link
+      to={to(caseStudyPath(study.slug))}
+      className="group flex flex-col rounded-2xl overflow-hidden bg-stone-800/60 border border-stone-800 hover:border-emerald-500/60 transition-colors"
+    >
+      <div className="relative h-44 bg-black overflow-hidden">
+        <img
+          src={study.cover}
+          alt={study.title}
+          loading="lazy"
+          className="w-full h-full object-cover opacity-70 group-hover:opacity-90 group-hover:scale-105 transition-all duration-700"
+        />
+        <span className="absolute top-3 left-3 text-[10px] uppercase tracking-widest font-bold bg-black/60 backdrop-blur px-2 py-1 rounded">
+          {messages.caseStudies.clientTypes[study.clientType]} · {study.year}
+        </span>
+      </div>
+      <div className="flex-1 flex flex-col p-5">
+        <p className="flex items-center gap-1 text-xs text-stone-500">
+          <MapPin size={12} /> {formatCaseLocation(study)}
+        </p>
+        <h3 className="mt-2 text-xl font-oswald font-bold text-white group-hover:text-emerald-400 transition-colors">{study.title}</h3>
+        <p className="mt-2 text-sm text-stone-400 line-clamp-3">{study.summary}</p>
+        <dl className="mt-4 flex flex-wrap gap-x-5 gap-y-2 text-xs">
+          {metrics.map((metric) => (
+            <div key={metric.key}>
+              <dt className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{metric.label}</dt>
+              <dd className="font-oswald text-base text-stone-200">{metric.value}</dd>
+            </div>
+          ))}
+        </dl>
+        <span className="mt-auto pt-4 inline-flex items-center gap-2 text-xs uppercase tracking-widest font-bold text-emerald-400">
+          {messages.caseStudies.viewProject} <ArrowRight size={12} />
+        </span>
+      </div>
+    </Link>
+  );
+};
+
+/** Hizmet detayında, o hizmetin kullanıldığı projelerin kısa listesi */
+export const RelatedCaseStudies: React.FC<{ serviceId: ServiceId; limit?: number }> = ({ serviceId, limit = 3 }) => {
+  const { messages, to } = useI18n();
+  const related = useCaseStudies()
+    .filter((study) => study.services.includes(serviceId))
+    .slice(0, limit);
+
+  if (related.length === 0) return null;
+
+  return (
+    <div className="mt-8 md:mt-10">
+      <h3 className="text-[10px] md:text-xs uppercase tracking-widest text-stone-500 font-bold mb-3">
+        {messages.caseStudies.related}
+      </h3>
+      <ul className="divide-y divide-stone-800 border-y border-stone-800">
+        {related.map((study) => (
+          <li key={study.slug}>
+            <Link
+              to={to(caseStudyPath(study.slug))}
+              className="flex items-center justify-between gap-4 py-3 text-stone-300 hover:text-emerald-400 transition-colors"
+            >
+              <span className="text-sm md:text-base">
+                {study.title}
+                <span className="block text-xs text-stone-500">
+                  {formatCaseLocation(study)} · {study.year}
+                </span>
+              </span>
+              <ArrowRight size={14} className="shrink-0" />
+            </Link>
+          </li>
+        ))}
+      </ul>
+      <Link
+        to={`${to(caseStudyPath())}?hizmet=${serviceId}`}
+        className="mt-3 inline-block text-xs uppercase tracking-widest font-bold text-stone-400 hover:text-emerald-400 transition-colors"
+      >
+        {messages.caseStudies.viewAll}
+      </Link>
+    </div>
+  );
+};
@@ -0,0 +1,397 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ChevronsLeftRight, Maximize2, Minus, Plus } from 'lucide-react';
+import { useI18n } from './LocaleProvider';
+import type { ComparisonLayer, ImageComparison } from '../shared/content/comparison';
+import { parseTilePyramid, pyramidLevel, tileUrl, visibleTiles, type TilePyramid } from '../shared/imagery/pyramid';
+import { format } from '../shared/i18n';
+
+/** Özgün çözünürlüğün kaç katına kadar büyütülebileceği */
+const MAX_OVERZOOM = 4;
+const DRAG_THRESHOLD = 4;
+// Yüklenen karolar bellekte tutulur; sınır aşılınca en eski karolar bırakılır
+const TILE_CACHE_LIMIT = 256;
+
+interface ViewState {
+  /** Ekran (CSS) pikseli / görsel pikseli */
+  scale: number;
+  x: number;
+  y: number;
+}
+
+interface Layer {
+  base: string;
+  pyramid: TilePyramid;
+}
+
+async function loadPyramid(base: string): Promise<TilePyramid> {
+  const response = await fetch(`${base}/tiles.json`);
+  const pyramid = response.ok ? parseTilePyramid(await response.json()) : null;
+  if (!pyramid) throw new Error(`${base}/tiles.json okunamadı`);
+  return pyramid;
+}
+
+interface ComparisonViewerProps {
+  comparison: ImageComparison;
+  /** Kapsayıcının konumu ve boyutu (ör. "absolute inset-0" veya "relative h-[60vh] rounded-2xl") */
+  className?: string;
+}
+
+export const ComparisonViewer: React.FC<ComparisonViewerProps> = ({ comparison, className = 'relative h-96' }) => {
+  const { messages } = useI18n();
+  const m = messages.comparison;
+
+  const [layers, setLayers] = useState<[Layer, Layer] | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [divider, setDivider] = useState(0.5);
+  const [zoom, setZoom] = useState({ atMin: true, atMax: false });
+  const [showWheelHint, setShowWheelHint] = useState(false);
+
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const view = useRef<ViewState>({ scale: 1, x: 0, y: 0 });
+  const fitted = useRef(false);
+  const dividerRef = useRef(divider);
+  const tiles = useRef(new Map<string, HTMLImageElement>());
+  const frame = useRef(0);
+  const pointers = useRef(new Map<number, [number, number]>());
+  const drag = useRef({ moved: false, start: [0, 0] as [number, number], origin: view.current, pinch: 0 });
+
+  useEffect(() => {
+    let cancelled = false;
+    setLayers(null);
+    setLoadError(false);
+    fitted.current = false;
+    const { before, after } = comparison;
+    Promise.all([loadPyramid(before.tiles), loadPyramid(after.tiles)])
+      .then(([beforePyramid, afterPyramid]) => {
+        if (cancelled) return;
+        setLayers([
+          { base: before.tiles, pyramid: beforePyramid },
+          { base: after.tiles, pyramid: afterPyramid },
+        ]);
+      })
+      .catch(() => {
+        if (!cancelled) setLoadError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [comparison]);
+
+  // Görünüm ilk (önce) katmanın piksel uzayındadır; ikinci katman genişliğine göre ölçeklenir
+  const limits = useCallback(() => {
+    const container = containerRef.current;
+    if (!container || !layers) return null;
+    const { width, height } = layers[0].pyramid;
+    const fit = Math.min(container.clientWidth / width, container.clientHeight / height);
+    return { fit, max: Math.max(fit, MAX_OVERZOOM / (window.devicePixelRatio || 1)), width, height };
+  }, [layers]);
+
+  // Görsel görünümden küçükse ortalanır, büyükse kenarlarından boşluğa kaydırılamaz
+  const clampView = useCallback(
+    ({ scale, x, y }: ViewState): ViewState => {
+      const bounds = limits();
+      const container = containerRef.current;
+      if (!bounds || !container) return { scale, x, y };
+      const k = Math.min(bounds.max, Math.max(bounds.fit, scale));
+      const clampAxis = (offset: number, viewport: number, size: number) =>
+        size <= viewport ? (viewport - size) / 2 : Math.min(0, Math.max(viewport - size, offset));
+      return {
+        scale: k,
+        x: clampAxis(x, container.clientWidth, bounds.width * k),
+        y: clampAxis(y, container.clientHeight, bounds.height * k),
+      };
+    },
+    [limits]
+  );
+
+  const draw = useCallback(() => {
+    frame.current = 0;
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !layers) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    if (canvas.width !== Math.round(width * dpr) || canvas.height !== Math.round(height * dpr)) {
+      canvas.width = Math.round(width * dpr);
+      canvas.height = Math.round(height * dpr);
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, width, height);
+    ctx.imageSmoothingQuality = 'high';
+
+    const { scale, x, y } = view.current;
+    const drawLayer = ({ base, pyramid }: Layer) => {
+      const k = (layers[0].pyramid.width / pyramid.width) * scale;
+      const rect = { left: -x / k, top: -y / k, right: (width - x) / k, bottom: (height - y) / k };
+      const level = pyramidLevel(pyramid, k * dpr);
+      // Önce tek karoluk 0. seviye çizilir; ayrıntılı karolar yüklendikçe üstünü örter
+      for (const z of level > 0 ? [0, level] : [0]) {
+        for (const tile of visibleTiles(pyramid, z, rect)) {
+          const url = tileUrl(base, pyramid, tile);
+          let image = tiles.current.get(url);
+          if (!image) {
+            image = new Image();
+            image.onload = () => {
+              if (!frame.current) frame.current = requestAnimationFrame(draw);
+            };
+            image.src = url;
+            tiles.current.set(url, image);
+            if (tiles.current.size > TILE_CACHE_LIMIT) tiles.current.delete(tiles.current.keys().next().value as string);
+          }
+          if (!image.complete || image.naturalWidth === 0) continue;
+          // Kenarlar yuvarlanır; komşu karolar arasında kesirli konumdan kaynaklı ince boşluk kalmaz
+          const left = Math.floor(x + tile.left * k);
+          const top = Math.floor(y + tile.top * k);
+          ctx.drawImage(image, left, top, Math.ceil(x + (tile.left + tile.width) * k) - left, Math.ceil(y + (tile.top + tile.height) * k) - top);
+        }
+      }
+    };
+
+    drawLayer(layers[1]);
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(0, 0, width * dividerRef.current, height);
+    ctx.clip();
+    drawLayer(layers[0]);
+    ctx.restore();
+  }, [layers]);
+
+  const requestDraw = useCallback(() => {
+    if (!frame.current) frame.current = requestAnimationFrame(draw);
+  }, [draw]);
+
+  const setView = useCallback(
+    (next: ViewState) => {
+      view.current = clampView(next);
+      const bounds = limits();
+      if (bounds) setZoom({ atMin: view.current.scale <= bounds.fit * 1.001, atMax: view.current.scale >= bounds.max * 0.999 });
+      requestDraw();
+    },
+    [clampView, limits, requestDraw]
+  );
+
+  const resetView = useCallback(() => setView({ scale: 0, x: 0, y: 0 }), [setView]);
+
+  const zoomAt = useCallback(
+    ([cx, cy]: [number, number], factor: number) => {
+      const current = view.current;
+      const bounds = limits();
+      if (!bounds) return;
+      const scale = Math.min(bounds.max, Math.max(bounds.fit, current.scale * factor));
+      setView({ scale, x: cx - ((cx - current.x) * scale) / current.scale, y: cy - ((cy - current.y) * scale) / current.scale });
+    },
+    [limits, setView]
+  );
+
+  // Katmanlar gelince ve kapsayıcı boyutu değişince görünüm yeniden sınırlanır (ilk seferde sığdırılır)
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !layers) return;
+    const observer = new ResizeObserver(() => {
+      if (!fitted.current) {
+        fitted.current = true;
+        resetView();
+      } else {
+        setView(view.current);
+      }
+    });
+    observer.observe(container);
+    return () => {
+      observer.disconnect();
+      cancelAnimationFrame(frame.current);
+      frame.current = 0;
+    };
+  }, [layers, resetView, setView]);
+
+  useEffect(() => {
+    dividerRef.current = divider;
+    requestDraw();
+  }, [divider, requestDraw]);
+
+  const toLocalPoint = (clientX: number, clientY: number): [number, number] => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    return rect ? [clientX - rect.left, clientY - rect.top] : [0, 0];
+  };
+
+  // Diğer harita bileşenleriyle aynı: tekerlekle yakınlaştırma Ctrl/⌘ ile, yoksa ipucu gösterilir
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let hintTimer: ReturnType<typeof setTimeout> | undefined;
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) {
+        setShowWheelHint(true);
+        clearTimeout(hintTimer);
+        hintTimer = setTimeout(() => setShowWheelHint(false), 1500);
+        return;
+      }
+      e.preventDefault();
+      zoomAt(toLocalPoint(e.clientX, e.clientY), Math.exp(-e.deltaY * 0.002));
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => {
+      canvas.removeEventListener('wheel', onWheel);
+      clearTimeout(hintTimer);
+    };
+  }, [zoomAt]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const point = toLocalPoint(e.clientX, e.clientY);
+    pointers.current.set(e.pointerId, point);
+    drag.current = { moved: false, start: point, origin: view.current, pinch: 0 };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!pointers.current.has(e.pointerId)) return;
+    const point = toLocalPoint(e.clientX, e.clientY);
+    pointers.current.set(e.pointerId, point);
+
+    if (pointers.current.size === 2) {
+      const [a, b] = [...pointers.current.values()];
+      const distance = Math.hypot(a[0] - b[0], a[1] - b[1]);
+      const previous = drag.current.pinch;
+      drag.current.pinch = distance;
+      drag.current.moved = true;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      if (previous > 0) zoomAt([(a[0] + b[0]) / 2, (a[1] + b[1]) / 2], distance / previous);
+      return;
+    }
+
+    const dx = point[0] - drag.current.start[0];
+    const dy = point[1] - drag.current.start[1];
+    if (!drag.current.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    if (!drag.current.moved) e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current.moved = true;
+    const { origin } = drag.current;
+    setView({ scale: origin.scale, x: origin.x + dx, y: origin.y + dy });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size < 2) drag.current.pinch = 0;
+    const [remaining] = [...pointers.current.values()];
+    if (remaining) {
+      drag.current.start = remaining;
+      drag.current.origin = view.current;
+    }
+  };
+
+  // Ayırıcı kendi işaretçisini yakalar; tuval kaydırması başlamaz
+  const handleDividerPointer = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.type === 'pointerdown') e.currentTarget.setPointerCapture(e.pointerId);
+    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const width = containerRef.current?.clientWidth ?? 1;
+    setDivider(Math.min(1, Math.max(0, toLocalPoint(e.clientX, e.clientY)[0] / width)));
+  };
+
+  const handleDividerKey = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const steps: Record<string, (value: number) => number> = {
+      ArrowLeft: (value) => value - 0.02,
+      ArrowRight: (value) => value + 0.02,
+      Home: () => 0,
+      End: () => 1,
+    };
+    const step = steps[e.key];
+    if (!step) return;
+    e.preventDefault();
+    setDivider((value) => Math.min(1, Math.max(0, step(value))));
+  };
+
+  const layerLabel = (layer: ComparisonLayer) =>
+    layer.year ? format(m.layerWithYear, { layer: m.layers[layer.kind], year: layer.year }) : m.layers[layer.kind];
+  const beforeLabel = layerLabel(comparison.before);
+  const afterLabel = layerLabel(comparison.after);
+  const center = (): [number, number] => [(containerRef.current?.clientWidth ?? 0) / 2, (containerRef.current?.clientHeight ?? 0) / 2];
+
+  return (
+    <div ref={containerRef} className={`overflow-hidden bg-black select-none ${className}`}>
+      <canvas
+        ref={canvasRef}
+        role="img"
+        aria-label={format(m.label, { before: beforeLabel, after: afterLabel })}
+        className="absolute inset-0 w-full h-full touch-none cursor-grab active:cursor-grabbing"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onPointerLeave={handlePointerUp}
+        onDoubleClick={(e) => zoomAt(toLocalPoint(e.clientX, e.clientY), 2)}
+      />
+
+      {!layers && (
+        <p className="absolute inset-0 flex items-center justify-center text-sm text-stone-500 pointer-events-none">
+          {loadError ? m.loadFailed : m.loading}
+        </p>
+      )}
+
+      {layers && (
+        <>
+          {/* Katman adları ayırıcıyı izler; köşelerdeki kontrollerle çakışmaz */}
+          <div className="absolute top-4 inset-x-0 pointer-events-none text-[10px] md:text-xs font-bold uppercase tracking-widest">
+            <span
+              className="absolute px-3 py-1 rounded-full bg-black/60 backdrop-blur whitespace-nowrap -translate-x-full"
+              style={{ left: `calc(${divider * 100}% - 12px)` }}
+            >
+              {beforeLabel}
+            </span>
+            <span
+              className="absolute px-3 py-1 rounded-full bg-black/60 backdrop-blur whitespace-nowrap"
+              style={{ left: `calc(${divider * 100}% + 12px)` }}
+            >
+              {afterLabel}
+            </span>
+          </div>
+
+          <div
+            role="slider"
+            tabIndex={0}
+            aria-label={m.divider}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={Math.round(divider * 100)}
+            onPointerDown={handleDividerPointer}
+            onPointerMove={handleDividerPointer}
+            onKeyDown={handleDividerKey}
+            className="group absolute inset-y-0 w-10 -ml-5 flex items-center justify-center touch-none cursor-ew-resize focus:outline-none"
+            style={{ left: `${divider * 100}%` }}
+          >
+            <div className="absolute inset-y-0 left-1/2 w-0.5 -ml-px bg-white/90 shadow-[0_0_6px_rgba(0,0,0,0.6)]" />
+            <div className="relative w-10 h-10 rounded-full bg-white text-stone-900 flex items-center justify-center shadow-lg group-focus-visible:ring-4 group-focus-visible:ring-emerald-500">
+              <ChevronsLeftRight size={18} />
+            </div>
+          </div>
+
+          <div className="absolute bottom-4 right-4 flex flex-col gap-2">
+            {[
+              { label: m.zoomIn, icon: Plus, onClick: () => zoomAt(center(), 2), disabled: zoom.atMax },
+              { label: m.zoomOut, icon: Minus, onClick: () => zoomAt(center(), 0.5), disabled: zoom.atMin },
+              { label: m.reset, icon: Maximize2, onClick: resetView, disabled: zoom.atMin },
+            ].map((control) => (
+              <button
+                key={control.label}
+                type="button"
+                onClick={control.onClick}
+                disabled={control.disabled}
+                aria-label={control.label}
+                title={control.label}
+                className="p-2 rounded-full bg-black/60 backdrop-blur text-white hover:bg-emerald-600 transition-colors disabled:opacity-30 disabled:hover:bg-black/60"
+              >
+                <control.icon size={16} />
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+
+      {showWheelHint && (
+        <div className="absolute inset-x-0 top-1/2 flex justify-center pointer-events-none animate-[fadeIn_0.2s_ease-out]">
+          <span className="px-4 py-2 rounded-full bg-black/70 backdrop-blur text-xs text-stone-200">{m.wheelHint}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,57 +1,169 @@
-import React, { useState } from 'react';
-import { X } from 'lucide-react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { CalendarCheck, Paperclip, X } from 'lucide-react';
+import {
+  CONTACT_LIMITS,
+  CONTACT_SUBJECTS,
+  HONEYPOT_FIELD,
+  formatRetryAfter,
+  validateContactPayload,
+  type ContactField,
+  type ContactFieldErrors,
+  type ContactPayload,
+} from '../shared/contact';
+import { ATTACHMENT_ACCEPT, ATTACHMENT_LIMITS, formatFileSize, validateAttachments } from '../shared/attachments';
+import { format } from '../shared/i18n';
+import { useI18n } from './LocaleProvider';
 
 interface ContactModalProps {
   isOpen: boolean;
   onClose: () => void;
+  /** Form açılırken doldurulacak alanlar (ör. fiyat tahmini sayfasından gelen özet) */
+  prefill?: Partial<ContactPayload>;
+  /** Form açılırken eklenecek dosyalar (ör. hacim hesabının yükseklik haritası); kullanıcı kaldırabilir */
+  prefillAttachments?: File[];
 }
 
-export const ContactModal: React.FC<ContactModalProps> = ({ isOpen, onClose }) => {
-  const [formData, setFormData] = useState({
-    firstName: '',
-    lastName: '',
-    email: '',
-    phone: '',
-    subject: '',
-    message: '',
-  });
+const emptyForm: ContactPayload = {
+  firstName: '',
+  lastName: '',
+  email: '',
+  phone: '',
+  subject: '',
+  message: '',
+};
+
+const inputBase =
+  'w-full bg-stone-50 border rounded-xl px-4 py-3 focus:outline-none transition-colors';
+
+const FieldError: React.FC<{ message?: string }> = ({ message }) =>
+  message ? <p className="mt-1 text-xs text-red-600">{message}</p> : null;
+
+export const ContactModal: React.FC<ContactModalProps> = ({ isOpen, onClose, prefill, prefillAttachments }) => {
+  const { locale, messages, to } = useI18n();
+  const m = messages.contactForm;
+  const [formData, setFormData] = useState<ContactPayload>(emptyForm);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState<string | null>(null);
+  // Başarılı talepten sonra saha keşfi randevusu bu numarayla talebe bağlanır
+  const [leadId, setLeadId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<ContactFieldErrors>({});
+  const [honeypot, setHoneypot] = useState('');
+  const [attachments, setAttachments] = useState<File[]>([]);
+  // Time-trap: form açıldığı an; sunucu çok hızlı doldurulan formları bot sayar
+  const startedAtRef = useRef<number>(Date.now());
+  // Aynı formun tekrar gönderimi sunucuda mükerrer talep/e-posta üretmesin diye başarıya kadar sabit kalır
+  const submissionIdRef = useRef<string>(crypto.randomUUID());
+
+  useEffect(() => {
+    if (isOpen) {
+      startedAtRef.current = Date.now();
+      // Ön doldurma yalnızca açılışta uygulanır; kullanıcı düzenlemeleri sonraki render'larda ezilmez
+      if (prefill) {
+        setFormData((current) => ({ ...current, ...prefill }));
+      }
+      if (prefillAttachments) {
+        setAttachments(prefillAttachments);
+      }
+    }
+  }, [isOpen]);
+
+  const updateField = (field: ContactField, value: string) => {
+    setFormData({ ...formData, [field]: value });
+    if (fieldErrors[field]) {
+      setFieldErrors({ ...fieldErrors, [field]: undefined });
+    }
+  };
+
+  const handleFilesSelected = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files ?? []);
+    // Aynı input ile aynı dosya tekrar seçilebilsin
+    e.target.value = '';
+    if (selected.length === 0) return;
+
+    const next = [...attachments, ...selected];
+    const attachmentError = validateAttachments(next, locale);
+    if (attachmentError) {
+      setFieldErrors({ ...fieldErrors, attachments: attachmentError });
+      return;
+    }
+    setAttachments(next);
+    setFieldErrors({ ...fieldErrors, attachments: undefined });
+  };
+
+  const removeAttachment = (index: number) => {
+    setAttachments(attachments.filter((_, i) => i !== index));
+    setFieldErrors({ ...fieldErrors, attachments: undefined });
+  };
+
+  const borderFor = (field: ContactField) =>
+    fieldErrors[field] ? 'border-red-400 focus:border-red-500' : 'border-stone-200 focus:border-emerald-500';
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    setLoading(true);
     setError(null);
     setMessage(null);
+    setLeadId(null);
+
+    // Sunucu ile aynı şema: bariz hataları istek atmadan göster
+    const validation = validateContactPayload(formData, locale);
+    const attachmentError = validateAttachments(attachments, locale);
+    if (validation.ok === false || attachmentError) {
+      setFieldErrors({
+        ...(validation.ok === false ? validation.errors : {}),
+        ...(attachmentError ? { attachments: attachmentError } : {}),
+      });
+      return;
+    }
+    setFieldErrors({});
+    setLoading(true);
 
     try {
+      // Dosya eklenebildiği için gövde multipart gönderilir; Content-Type'ı tarayıcı (boundary ile) belirler
+      const body = new FormData();
+      Object.entries(validation.data).forEach(([key, value]) => body.append(key, value));
+      body.append(HONEYPOT_FIELD, honeypot);
+      body.append('startedAt', String(startedAtRef.current));
+      body.append('submissionId', submissionIdRef.current);
+      // Sunucu hata mesajlarını ve onay e-postasını bu dilde üretir
+      body.append('locale', locale);
+      attachments.forEach((file) => body.append('attachments', file, file.name));
+
       const res = await fetch('/api/contact-support', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(formData),
+        body,
       });
 
-      const data = await res.json();
+      // Proxy/edge hataları JSON olmayan gövde döndürebilir
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 429) {
+        const retryAfter = Number(res.headers.get('Retry-After') || data.retryAfter) || 60;
+        throw new Error(format(m.rateLimited, { wait: formatRetryAfter(retryAfter, locale) }));
+      }
       if (!res.ok) {
-        throw new Error(data.error || 'Gönderim başarısız');
+        if (data.fieldErrors) {
+          setFieldErrors(data.fieldErrors);
+        }
+        throw new Error(data.error || m.failed);
       }
 
-      setMessage('Mesajınız gönderildi. En kısa sürede size dönüş yapacağız.');
-      setFormData({
-        firstName: '',
-        lastName: '',
-        email: '',
-        phone: '',
-        subject: '',
-        message: '',
-      });
-      setTimeout(() => {
-        onClose();
-        setMessage(null);
-      }, 2000);
+      setFormData(emptyForm);
+      setAttachments([]);
+      submissionIdRef.current = crypto.randomUUID();
+      if (data.leadId) {
+        // Referans numarası not alınabilsin diye modal otomatik kapanmaz
+        setMessage(format(m.successWithReference, { leadId: data.leadId }));
+        setLeadId(data.leadId);
+      } else {
+        setMessage(m.success);
+        setTimeout(() => {
+          onClose();
+          setMessage(null);
+        }, 2000);
+      }
     } catch (err: any) {
-      setError(err.message || 'Bir hata oluştu');
+      setError(err.message || m.genericError);
     } finally {
       setLoading(false);
     }
@@ -76,74 +188,175 @@ export const ContactModal: React.FC<ContactModalProps> = ({ isOpen, onClose }) =
           <X size={24} />
         </button>
 
-        <h3 className="text-3xl font-oswald font-bold text-stone-900 mb-2">İletişime Geçin</h3>
-        <p className="text-stone-500 mb-6">Detayları bırakın, mühendislerimiz projenizi inceleyip size dönüş yapsın.</p>
+        <h3 className="text-3xl font-oswald font-bold text-stone-900 mb-2">{m.title}</h3>
+        <p className="text-stone-500 mb-6">{m.lead}</p>
 
         {message && (
-          <div className="mb-4 p-3 bg-emerald-50 text-emerald-700 rounded-lg text-sm">{message}</div>
+          <div className="mb-4 p-3 bg-emerald-50 text-emerald-700 rounded-lg text-sm">
+            {message}
+            {leadId && (
+              <Link
+                to={`${to('/kesif')}?talep=${encodeURIComponent(leadId)}`}
+                className="mt-2 flex items-center gap-2 font-bold text-emerald-800 hover:underline"
+              >
+                <CalendarCheck size={16} /> {m.surveyCta}
+              </Link>
+            )}
+          </div>
         )}
         {error && <div className="mb-4 p-3 bg-red-50 text-red-700 rounded-lg text-sm">{error}</div>}
 
-        <form className="space-y-4" onSubmit={handleSubmit}>
+        <form className="space-y-4" onSubmit={handleSubmit} noValidate>
+          {/* Honeypot: ekran dışında, gerçek kullanıcılar görmez ve doldurmaz */}
+          <div aria-hidden="true" className="absolute -left-[10000px] w-px h-px overflow-hidden">
+            <label>
+              {m.honeypot}
+              <input
+                type="text"
+                name={HONEYPOT_FIELD}
+                tabIndex={-1}
+                autoComplete="off"
+                value={honeypot}
+                onChange={(e) => setHoneypot(e.target.value)}
+              />
+            </label>
+          </div>
           <div className="grid grid-cols-2 gap-4">
+            <div>
+              <input
+                type="text"
+                placeholder={m.firstName}
+                maxLength={CONTACT_LIMITS.firstName}
+                value={formData.firstName}
+                onChange={(e) => updateField('firstName', e.target.value)}
+                aria-invalid={!!fieldErrors.firstName}
+                className={`${inputBase} ${borderFor('firstName')} text-stone-900 placeholder:text-stone-500`}
+              />
+              <FieldError message={fieldErrors.firstName} />
+            </div>
+            <div>
+              <input
+                type="text"
+                placeholder={m.lastName}
+                maxLength={CONTACT_LIMITS.lastName}
+                value={formData.lastName}
+                onChange={(e) => updateField('lastName', e.target.value)}
+                aria-invalid={!!fieldErrors.lastName}
+                className={`${inputBase} ${borderFor('lastName')} text-stone-900 placeholder:text-stone-500`}
+              />
+              <FieldError message={fieldErrors.lastName} />
+            </div>
+          </div>
+          <div>
             <input
-              type="text"
-              placeholder="Adınız"
-              value={formData.firstName}
-              onChange={(e) => setFormData({ ...formData, firstName: e.target.value })}
-              className="w-full bg-stone-50 border border-stone-200 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500 transition-colors text-stone-900 placeholder:text-stone-500"
+              type="email"
+              placeholder={m.email}
+              required
+              maxLength={CONTACT_LIMITS.email}
+              value={formData.email}
+              onChange={(e) => updateField('email', e.target.value)}
+              aria-invalid={!!fieldErrors.email}
+              className={`${inputBase} ${borderFor('email')} text-amber-900 placeholder:text-amber-700`}
             />
+            <FieldError message={fieldErrors.email} />
+          </div>
+          <div>
             <input
-              type="text"
-              placeholder="Soyadınız"
-              value={formData.lastName}
-              onChange={(e) => setFormData({ ...formData, lastName: e.target.value })}
-              className="w-full bg-stone-50 border border-stone-200 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500 transition-colors text-stone-900 placeholder:text-stone-500"
+              type="tel"
+              placeholder={m.phone}
+              maxLength={CONTACT_LIMITS.phone}
+              value={formData.phone}
+              onChange={(e) => updateField('phone', e.target.value)}
+              aria-invalid={!!fieldErrors.phone}
+              className={`${inputBase} ${borderFor('phone')} text-amber-900 placeholder:text-amber-700`}
             />
+            <FieldError message={fieldErrors.phone} />
+          </div>
+          <div>
+            <select
+              value={formData.subject}
+              onChange={(e) => updateField('subject', e.target.value)}
+              aria-invalid={!!fieldErrors.subject}
+              className={`${inputBase} ${borderFor('subject')} text-stone-900`}
+            >
+              <option value="">{m.subjectPlaceholder}</option>
+              {CONTACT_SUBJECTS.map((subject) => (
+                <option key={subject} value={subject}>
+                  {messages.contactSubjects[subject]}
+                </option>
+              ))}
+            </select>
+            <FieldError message={fieldErrors.subject} />
+          </div>
+          <div>
+            <textarea
+              rows={3}
+              placeholder={m.message}
+              required
+              maxLength={CONTACT_LIMITS.message}
+              value={formData.message}
+              onChange={(e) => updateField('message', e.target.value)}
+              aria-invalid={!!fieldErrors.message}
+              className={`${inputBase} ${borderFor('message')} text-amber-900 placeholder:text-amber-700`}
+            ></textarea>
+            <FieldError message={fieldErrors.message} />
+          </div>
+          <div>
+            <label
+              className={`flex items-center gap-3 cursor-pointer ${inputBase} ${
+                fieldErrors.attachments ? 'border-red-400' : 'border-dashed border-stone-300 hover:border-emerald-500'
+              } text-stone-500 text-sm`}
+            >
+              <Paperclip size={16} className="shrink-0" />
+              <span>
+                {format(m.attach, {
+                  maxFiles: ATTACHMENT_LIMITS.maxFiles,
+                  maxSize: formatFileSize(ATTACHMENT_LIMITS.maxFileBytes),
+                })}
+              </span>
+              <input
+                type="file"
+                multiple
+                accept={ATTACHMENT_ACCEPT}
+                onChange={handleFilesSelected}
+                disabled={attachments.length >= ATTACHMENT_LIMITS.maxFiles}
+                className="hidden"
+              />
+            </label>
+            {attachments.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {attachments.map((file, idx) => (
+                  <li
+                    key={`${file.name}-${idx}`}
+                    className="flex items-center justify-between bg-stone-50 rounded-lg px-3 py-2 text-xs text-stone-700"
+                  >
+                    <span className="truncate">
+                      {file.name} <span className="text-stone-400">({formatFileSize(file.size)})</span>
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => removeAttachment(idx)}
+                      className="ml-2 text-stone-400 hover:text-red-600 transition-colors"
+                      aria-label={format(m.removeFile, { name: file.name })}
+                    >
+                      <X size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <FieldError message={fieldErrors.attachments} />
           </div>
-          <input
-            type="email"
-            placeholder="E-Posta Adresi"
-            required
-            value={formData.email}
-            onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-            className="w-full bg-stone-50 border border-stone-200 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500 transition-colors text-amber-900 placeholder:text-amber-700"
-          />
-          <input
-            type="tel"
-            placeholder="Telefon No"
-            value={formData.phone}
-            onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
-            className="w-full bg-stone-50 border border-stone-200 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500 transition-colors text-amber-900 placeholder:text-amber-700"
-          />
-          <select
-            value={formData.subject}
-            onChange={(e) => setFormData({ ...formData, subject: e.target.value })}
-            className="w-full bg-stone-50 border border-stone-200 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500 transition-colors text-stone-900"
-          >
-            <option value="">Konu Seçiniz</option>
-            <option>Lidar Hizmeti</option>
-            <option>Drone Fotogrametri</option>
-            <option>Genel Danışmanlık</option>
-          </select>
-          <textarea
-            rows={3}
-            placeholder="Proje Detayları"
-            required
-            value={formData.message}
-            onChange={(e) => setFormData({ ...formData, message: e.target.value })}
-            className="w-full bg-stone-50 border border-stone-200 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500 transition-colors text-amber-900 placeholder:text-amber-700"
-          ></textarea>
 
           <button
             type="submit"
             disabled={loading}
             className="w-full bg-stone-900 text-white font-bold py-4 rounded-xl hover:bg-emerald-600 transition-colors shadow-lg disabled:opacity-50"
           >
-            {loading ? 'GÖNDERİLİYOR...' : 'GÖNDER'}
+            {loading ? m.submitting : m.submit}
           </button>
         </form>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
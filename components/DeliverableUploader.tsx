@@ -0,0 +1,220 @@
+import React, { useRef, useState } from 'react';
+import { Upload, X } from 'lucide-react';
+import { useI18n } from './LocaleProvider';
+import { isValidEmail } from '../shared/contact';
+import { formatFileSize } from '../shared/attachments';
+import { DELIVERABLE_MAX_BYTES } from '../shared/deliverables';
+import { format } from '../shared/i18n';
+
+// Ağ kesintisinde tek parça bu kadar tekrar denenir; çok GB'lık yükleme baştan başlamasın
+const PART_ATTEMPTS = 3;
+
+type Progress = { name: string; percent: number } | null;
+
+async function postJson(url: string, body: unknown, signal?: AbortSignal) {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    credentials: 'same-origin',
+    body: JSON.stringify(body),
+    signal,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+  return data;
+}
+
+async function uploadPart(url: string, blob: Blob, signal: AbortSignal): Promise<{ partNumber: number; etag: string }> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const res = await fetch(url, { method: 'PUT', body: blob, credentials: 'same-origin', signal });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || `HTTP ${res.status}`);
+      return data.part;
+    } catch (err) {
+      if (signal.aborted || attempt >= PART_ATTEMPTS) throw err;
+    }
+  }
+}
+
+/**
+ * Personel için teslimat yükleme formu (PortalPage'de yalnızca staff rolüne gösterilir)
+ * Dosyalar sırayla ve parça parça yüklenir; müşteri bildirimi yalnızca son dosyayla istenir, böylece
+ * bir seferde yüklenen tüm dosyalar tek e-postada listelenir.
+ */
+export const DeliverableUploader: React.FC<{ onUploaded?: () => void }> = ({ onUploaded }) => {
+  const { messages, locale } = useI18n();
+  const m = messages.deliverableUpload;
+
+  const [email, setEmail] = useState('');
+  const [projectName, setProjectName] = useState('');
+  const [projectNames, setProjectNames] = useState<string[]>([]);
+  const [files, setFiles] = useState<File[]>([]);
+  const [notify, setNotify] = useState(true);
+  const [progress, setProgress] = useState<Progress>(null);
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const loadProjectNames = async () => {
+    const normalized = email.trim().toLowerCase();
+    if (!isValidEmail(normalized)) return;
+    const res = await fetch(`/api/staff/projects?email=${encodeURIComponent(normalized)}`, { credentials: 'same-origin' });
+    const data = res.ok ? await res.json().catch(() => null) : null;
+    setProjectNames(data?.projects ?? []);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalized = email.trim().toLowerCase();
+    if (!isValidEmail(normalized)) {
+      setStatus({ type: 'error', text: messages.validation.emailInvalid });
+      return;
+    }
+    if (!projectName.trim()) {
+      setStatus({ type: 'error', text: m.projectNameRequired });
+      return;
+    }
+    const tooLarge = files.find((file) => file.size > DELIVERABLE_MAX_BYTES);
+    if (tooLarge) {
+      setStatus({ type: 'error', text: format(m.tooLarge, { name: tooLarge.name, max: formatFileSize(DELIVERABLE_MAX_BYTES) }) });
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setStatus(null);
+    let current: string | null = null;
+    let notified = false;
+    try {
+      for (const [index, file] of files.entries()) {
+        setProgress({ name: file.name, percent: 0 });
+        const started = await postJson(
+          `/api/staff/uploads?locale=${locale}`,
+          { email: normalized, projectName: projectName.trim(), fileName: file.name, size: file.size, contentType: file.type },
+          controller.signal
+        );
+        current = started.deliverableId;
+
+        const parts = [];
+        for (let part = 1; part <= started.partCount; part++) {
+          const blob = file.slice((part - 1) * started.partSize, part * started.partSize);
+          parts.push(await uploadPart(`/api/staff/uploads/${current}/parts/${part}?locale=${locale}`, blob, controller.signal));
+          setProgress({ name: file.name, percent: Math.round((part / started.partCount) * 100) });
+        }
+
+        const isLast = index === files.length - 1;
+        const completed = await postJson(`/api/staff/uploads/${current}/complete?locale=${locale}`, { parts, notify: notify && isLast }, controller.signal);
+        notified = completed.notified;
+        current = null;
+      }
+
+      const summary = [format(m.done, { count: files.length })];
+      if (notify) summary.push(notified ? m.notified : m.notifyFailed);
+      setStatus({ type: 'success', text: summary.join(' ') });
+      setFiles([]);
+      onUploaded?.();
+    } catch (err: any) {
+      if (current) {
+        // Yarım kalan çok parçalı yükleme R2'de yer kaplamasın
+        await postJson(`/api/staff/uploads/${current}/abort?locale=${locale}`, {}).catch(() => undefined);
+      }
+      setStatus({ type: 'error', text: controller.signal.aborted ? m.cancelled : format(m.failed, { error: err?.message || '' }) });
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const uploading = progress !== null;
+
+  return (
+    <form onSubmit={handleSubmit} noValidate className="rounded-2xl bg-black/40 border border-stone-800 p-6 space-y-4">
+      <div>
+        <h2 className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.title}</h2>
+        <p className="mt-1 text-sm text-stone-500">{m.lead}</p>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <input
+          type="email"
+          placeholder={m.clientEmail}
+          aria-label={m.clientEmail}
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          onBlur={loadProjectNames}
+          disabled={uploading}
+          className="w-full bg-stone-800 border border-stone-700 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500"
+        />
+        <input
+          type="text"
+          list="deliverable-projects"
+          placeholder={m.projectName}
+          aria-label={m.projectName}
+          maxLength={120}
+          value={projectName}
+          onChange={(e) => setProjectName(e.target.value)}
+          disabled={uploading}
+          className="w-full bg-stone-800 border border-stone-700 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500"
+        />
+        <datalist id="deliverable-projects">
+          {projectNames.map((name) => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+      </div>
+
+      <label className="flex flex-col items-center justify-center gap-2 h-28 rounded-xl border-2 border-dashed border-stone-700 hover:border-emerald-500 cursor-pointer text-stone-400 transition-colors">
+        <Upload size={20} />
+        <span className="text-sm text-center px-4">
+          {files.length ? files.map((file) => `${file.name} (${formatFileSize(file.size)})`).join(', ') : m.files}
+        </span>
+        <input
+          type="file"
+          multiple
+          disabled={uploading}
+          onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+          className="hidden"
+        />
+      </label>
+
+      <label className="flex items-center gap-2 text-sm text-stone-400">
+        <input type="checkbox" checked={notify} onChange={(e) => setNotify(e.target.checked)} disabled={uploading} />
+        {m.notify}
+      </label>
+
+      {progress && (
+        <div className="space-y-2">
+          <div className="h-1.5 rounded-full bg-stone-800 overflow-hidden">
+            <div className="h-full bg-emerald-500 transition-all" style={{ width: `${progress.percent}%` }} />
+          </div>
+          <p className="text-xs text-stone-400">{format(m.uploading, { name: progress.name, percent: progress.percent })}</p>
+        </div>
+      )}
+
+      {status && (
+        <div
+          className={`p-3 rounded-lg text-sm ${status.type === 'success' ? 'bg-emerald-900/40 text-emerald-300' : 'bg-red-900/40 text-red-300'}`}
+        >
+          {status.text}
+        </div>
+      )}
+
+      {uploading ? (
+        <button
+          type="button"
+          onClick={() => abortRef.current?.abort()}
+          className="w-full flex items-center justify-center gap-3 border border-stone-700 text-stone-300 font-bold py-4 rounded-xl hover:border-red-400 hover:text-red-300 transition-colors"
+        >
+          <X size={18} /> {m.cancel}
+        </button>
+      ) : (
+        <button
+          type="submit"
+          disabled={files.length === 0}
+          className="w-full flex items-center justify-center gap-3 bg-white text-stone-900 font-bold py-4 rounded-xl hover:bg-emerald-500 hover:text-white transition-colors disabled:opacity-40"
+        >
+          <Upload size={18} /> {m.submit}
+        </button>
+      )}
+    </form>
+  );
+};
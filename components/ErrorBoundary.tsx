@@ -1,4 +1,5 @@
 import React, { Component, ErrorInfo, ReactNode } from 'react';
+import { getMessages, splitLocalePath } from '../shared/i18n';
 
 type Props = {
   children: ReactNode;
@@ -26,12 +27,14 @@ export class ErrorBoundary extends Component<Props, State> {
 
   render() {
     if (this.state.hasError) {
+      // Router'ın dışında çalıştığı için dil doğrudan adresten okunur
+      const messages = getMessages(splitLocalePath(window.location.pathname).locale).errorBoundary;
       return (
         this.props.fallback || (
           <div className="flex min-h-screen items-center justify-center bg-black text-white p-8">
             <div className="max-w-md rounded-lg border border-red-500/50 bg-gray-900 p-6">
-              <h2 className="mb-4 text-xl font-bold text-red-400">Bir hata oluştu</h2>
-              <p className="mb-2 text-sm text-gray-300">{this.state.error?.message || 'Bilinmeyen hata'}</p>
+              <h2 className="mb-4 text-xl font-bold text-red-400">{messages.title}</h2>
+              <p className="mb-2 text-sm text-gray-300">{this.state.error?.message || messages.unknown}</p>
               <button
                 onClick={() => {
                   this.setState({ hasError: false, error: null });
@@ -39,7 +42,7 @@ export class ErrorBoundary extends Component<Props, State> {
                 }}
                 className="mt-4 rounded bg-emerald-500 px-4 py-2 text-sm font-medium text-black hover:bg-emerald-400"
               >
-                Sayfayı Yenile
+                {messages.reload}
               </button>
             </div>
           </div>
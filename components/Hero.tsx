@@ -1,6 +1,8 @@
 import React from 'react';
+import { useI18n } from './LocaleProvider';
 
 export const Hero: React.FC = () => {
+  const { messages } = useI18n();
   return (
     <section className="relative w-screen h-screen snap-start shrink-0 flex items-center justify-center overflow-hidden bg-black">
       
@@ -27,14 +29,14 @@ export const Hero: React.FC = () => {
         </div>
         
         <p className="mt-12 text-stone-400 text-[10px] md:text-xs max-w-xs font-light tracking-[0.3em] uppercase opacity-40 border-l border-white/20 pl-4">
-          Görünmeyeni görüyor, ölçülemeyeni ölçüyoruz.
+          {messages.hero.tagline}
         </p>
       </div>
 
       {/* Scroll Indicator - Bottom anchored with fixed margin */}
       <div className="absolute bottom-8 left-0 w-full flex flex-col items-center gap-4 z-20 pointer-events-none">
          <div className="w-[1px] h-12 bg-gradient-to-b from-emerald-500 to-transparent"></div>
-         <span className="text-[9px] text-emerald-500 uppercase tracking-[0.5em] font-bold animate-pulse">Kaydırın</span>
+         <span className="text-[9px] text-emerald-500 uppercase tracking-[0.5em] font-bold animate-pulse">{messages.hero.scroll}</span>
       </div>
     </section>
   );
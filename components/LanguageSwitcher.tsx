@@ -0,0 +1,34 @@
+import React from 'react';
+import { Link, useLocation } from 'react-router-dom';
+import { LOCALES, localizePath } from '../shared/i18n';
+import { useI18n } from './LocaleProvider';
+
+interface LanguageSwitcherProps {
+  className?: string;
+}
+
+/** TR | EN; aynı sayfanın diğer dildeki adresine gider (sorgu parametreleri korunur) */
+export const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ className = '' }) => {
+  const { locale, messages, path } = useI18n();
+  const { search } = useLocation();
+
+  return (
+    <nav aria-label={messages.nav.language} className={`flex items-center gap-1 text-[10px] font-bold tracking-widest ${className}`}>
+      {LOCALES.map((target, idx) => (
+        <React.Fragment key={target}>
+          {idx > 0 && <span className="text-stone-600">|</span>}
+          <Link
+            to={`${localizePath(path, target)}${search}`}
+            hrefLang={target}
+            aria-current={target === locale ? 'true' : undefined}
+            className={`px-1 uppercase transition-colors ${
+              target === locale ? 'text-emerald-400' : 'text-stone-400 hover:text-white'
+            }`}
+          >
+            {target}
+          </Link>
+        </React.Fragment>
+      ))}
+    </nav>
+  );
+};
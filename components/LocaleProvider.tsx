@@ -0,0 +1,66 @@
+import React, { createContext, useContext, useEffect, useMemo } from 'react';
+import { useLocation } from 'react-router-dom';
+import {
+  LOCALES,
+  DEFAULT_LOCALE,
+  getMessages,
+  localizePath,
+  splitLocalePath,
+  type Locale,
+  type Messages,
+} from '../shared/i18n';
+
+interface LocaleContextValue {
+  locale: Locale;
+  messages: Messages;
+  /** Dilsiz yol ('/fiyat-tahmini'), örn. dil değiştirirken kullanılır */
+  path: string;
+  /** Dilsiz yolu aktif dilin önekiyle döndürür */
+  to: (path: string) => string;
+}
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+/**
+ * Dil URL'den okunur (/en/... -> en); ayrı bir durum tutulmaz, böylece linkler ve geri tuşu dili korur.
+ * <html lang>, başlık ve hreflang alternatifleri de buradan güncellenir.
+ */
+export const LocaleProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const location = useLocation();
+  const { locale, path } = splitLocalePath(location.pathname);
+
+  const value = useMemo<LocaleContextValue>(
+    () => ({
+      locale,
+      messages: getMessages(locale),
+      path,
+      to: (target: string) => localizePath(target, locale),
+    }),
+    [locale, path]
+  );
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.title = value.messages.meta.title;
+
+    document.head.querySelectorAll('link[rel="alternate"][hreflang]').forEach((link) => link.remove());
+    const alternates: Array<[string, Locale]> = [...LOCALES.map((l): [string, Locale] => [l, l]), ['x-default', DEFAULT_LOCALE]];
+    for (const [hreflang, target] of alternates) {
+      const link = document.createElement('link');
+      link.rel = 'alternate';
+      link.hreflang = hreflang;
+      link.href = `${window.location.origin}${localizePath(path, target)}`;
+      document.head.appendChild(link);
+    }
+  }, [locale, path, value]);
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
+
+export function useI18n(): LocaleContextValue {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error('useI18n must be used inside <LocaleProvider>');
+  }
+  return context;
+}
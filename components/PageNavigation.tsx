@@ -1,4 +1,5 @@
 import React from 'react';
+import { useI18n } from './LocaleProvider';
 
 interface PageNavigationProps {
   activeSection: string;
@@ -7,11 +8,13 @@ interface PageNavigationProps {
 }
 
 export const PageNavigation: React.FC<PageNavigationProps> = ({ activeSection, onNavigate, showDetailDot }) => {
+  const { messages } = useI18n();
   const sections = [
-    { id: 'hero', label: 'Giriş' },
-    { id: 'services', label: 'Hizmetler' },
-    ...(showDetailDot ? [{ id: 'service-detail', label: 'Detay' }] : []),
-    { id: 'contact', label: 'İletişim' }
+    { id: 'hero', label: messages.nav.hero },
+    { id: 'services', label: messages.nav.services },
+    ...(showDetailDot ? [{ id: 'service-detail', label: messages.nav.detail }] : []),
+    { id: 'projects', label: messages.nav.projects },
+    { id: 'contact', label: messages.nav.contact }
   ];
 
   return (
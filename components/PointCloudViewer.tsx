@@ -0,0 +1,382 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { FolderOpen, Info, RotateCcw } from 'lucide-react';
+import { useI18n } from './LocaleProvider';
+import { createPointCloudRenderer, type PointCloudRenderer } from './pointCloud/renderer';
+import type { LasWorkerRequest, LasWorkerResponse } from './pointCloud/las.worker';
+import type { LasPointSample, Vec3 } from '../shared/pointcloud/las';
+import { CLASSIFICATION_COLORS, COLOR_MODES, colorizePoints, presentClasses, type ColorMode } from '../shared/pointcloud/colors';
+import { fitOrbit, orbitMatrix, panOrbit, rotateOrbit, zoomOrbit, type OrbitState } from '../shared/pointcloud/orbit';
+import { format, formatNumber } from '../shared/i18n';
+
+// Orta sınıf mobil GPU'lar 250 bin noktayı akıcı çizer; büyük dosyalar bu sayıya seyreltilir
+const BUDGETS = [100_000, 250_000, 500_000];
+const ROTATE_SPEED = 0.008;
+
+type LoadError = Extract<LasWorkerResponse, { ok: false }>['code'] | 'webgl';
+
+const boundsRadius = ({ header }: LasPointSample) =>
+  Math.hypot(header.max[0] - header.min[0], header.max[1] - header.min[1], header.max[2] - header.min[2]) / 2 || 1;
+
+interface PointCloudViewerProps {
+  /** public/ altındaki örnek LAS dosyası */
+  src: string;
+}
+
+export const PointCloudViewer: React.FC<PointCloudViewerProps> = ({ src }) => {
+  const { locale, messages } = useI18n();
+  const m = messages.pointCloud;
+
+  const [source, setSource] = useState<string | File>(src);
+  const [budget, setBudget] = useState(BUDGETS[1]);
+  const [sample, setSample] = useState<LasPointSample | null>(null);
+  const [error, setError] = useState<LoadError | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [mode, setMode] = useState<ColorMode>('elevation');
+  const [showInfo, setShowInfo] = useState(false);
+  const [showWheelHint, setShowWheelHint] = useState(false);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const rendererRef = useRef<PointCloudRenderer | null>(null);
+  // Kamera her işaretçi hareketinde değişir; React durumu yerine ref'te tutulur ve yalnızca kare çizilir
+  const orbit = useRef<OrbitState>(fitOrbit(1));
+  const radius = useRef(1);
+  const frame = useRef(0);
+  const pointers = useRef(new Map<number, [number, number]>());
+  const gesture = useRef({ pinch: 0, mid: [0, 0] as [number, number] });
+  const fittedSource = useRef<string | File | null>(null);
+  const refit = useRef(false);
+
+  const requestDraw = useCallback(() => {
+    if (frame.current) return;
+    frame.current = requestAnimationFrame(() => {
+      frame.current = 0;
+      const canvas = canvasRef.current;
+      if (!canvas || !rendererRef.current) return;
+      const aspect = canvas.clientWidth / Math.max(1, canvas.clientHeight);
+      rendererRef.current.draw(orbitMatrix(orbit.current, aspect, radius.current), orbit.current.distance);
+    });
+  }, []);
+
+  const updateOrbit = useCallback(
+    (next: (current: OrbitState) => OrbitState) => {
+      orbit.current = next(orbit.current);
+      requestDraw();
+    },
+    [requestDraw]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const renderer = createPointCloudRenderer(canvas);
+    if (!renderer) {
+      setError('webgl');
+      return;
+    }
+    rendererRef.current = renderer;
+    const observer = new ResizeObserver(requestDraw);
+    observer.observe(canvas);
+    return () => {
+      observer.disconnect();
+      cancelAnimationFrame(frame.current);
+      frame.current = 0;
+      renderer.dispose();
+      rendererRef.current = null;
+    };
+  }, [requestDraw]);
+
+  // Kaynak veya bütçe değişince yeni bir worker başlatılır; eskisi sonlandırılarak geç gelen yanıt yok sayılır
+  useEffect(() => {
+    setLoading(true);
+    setError((current) => (current === 'webgl' ? current : null));
+    const worker = new Worker(new URL('./pointCloud/las.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = ({ data }: MessageEvent<LasWorkerResponse>) => {
+      setLoading(false);
+      worker.terminate();
+      if (data.ok === false) {
+        const { code } = data;
+        setError((current) => (current === 'webgl' ? current : code));
+        setSample(null);
+        rendererRef.current?.setPositions(new Float32Array(0));
+        requestDraw();
+        return;
+      }
+      // Yalnızca bütçe değiştiyse kullanıcının kamera açısı korunur
+      refit.current = fittedSource.current !== source;
+      fittedSource.current = source;
+      setSample(data.sample);
+    };
+    worker.onerror = () => {
+      setLoading(false);
+      setError((current) => (current === 'webgl' ? current : 'unknown'));
+    };
+    worker.postMessage({ source, budget } satisfies LasWorkerRequest);
+    return () => worker.terminate();
+  }, [source, budget, requestDraw]);
+
+  useEffect(() => {
+    const renderer = rendererRef.current;
+    if (!sample || !renderer) return;
+    renderer.setPositions(sample.positions);
+    radius.current = boundsRadius(sample);
+    if (refit.current) orbit.current = fitOrbit(radius.current);
+    requestDraw();
+  }, [sample, requestDraw]);
+
+  useEffect(() => {
+    if (!sample || !rendererRef.current) return;
+    rendererRef.current.setColors(colorizePoints(sample, mode));
+    requestDraw();
+  }, [sample, mode, requestDraw]);
+
+  // Harita bölümündeki gibi: sayfa kaydırmasını engellememek için tekerlekle yakınlaştırma Ctrl/⌘ ile
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let hintTimer: ReturnType<typeof setTimeout> | undefined;
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) {
+        setShowWheelHint(true);
+        clearTimeout(hintTimer);
+        hintTimer = setTimeout(() => setShowWheelHint(false), 1500);
+        return;
+      }
+      e.preventDefault();
+      updateOrbit((current) => zoomOrbit(current, Math.exp(e.deltaY * 0.002), radius.current));
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => {
+      canvas.removeEventListener('wheel', onWheel);
+      clearTimeout(hintTimer);
+    };
+  }, [updateOrbit]);
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointers.current.set(e.pointerId, [e.clientX, e.clientY]);
+    gesture.current.pinch = 0;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const previous = pointers.current.get(e.pointerId);
+    if (!previous) return;
+    pointers.current.set(e.pointerId, [e.clientX, e.clientY]);
+    const height = e.currentTarget.clientHeight;
+
+    // İki parmak: kıstırarak yakınlaştırma ve orta noktayla kaydırma
+    if (pointers.current.size === 2) {
+      const [a, b] = [...pointers.current.values()];
+      const distance = Math.hypot(a[0] - b[0], a[1] - b[1]);
+      const mid: [number, number] = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+      const { pinch, mid: lastMid } = gesture.current;
+      gesture.current = { pinch: distance, mid };
+      if (pinch > 0) {
+        updateOrbit((current) =>
+          panOrbit(zoomOrbit(current, pinch / distance, radius.current), mid[0] - lastMid[0], mid[1] - lastMid[1], height)
+        );
+      }
+      return;
+    }
+
+    const dx = e.clientX - previous[0];
+    const dy = e.clientY - previous[1];
+    if (e.shiftKey || e.buttons === 2) {
+      updateOrbit((current) => panOrbit(current, dx, dy, height));
+    } else {
+      updateOrbit((current) => rotateOrbit(current, -dx * ROTATE_SPEED, dy * ROTATE_SPEED));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    pointers.current.delete(e.pointerId);
+    gesture.current.pinch = 0;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLCanvasElement>) => {
+    const actions: Record<string, (current: OrbitState) => OrbitState> = {
+      ArrowLeft: (current) => rotateOrbit(current, 0.1, 0),
+      ArrowRight: (current) => rotateOrbit(current, -0.1, 0),
+      ArrowUp: (current) => rotateOrbit(current, 0, 0.05),
+      ArrowDown: (current) => rotateOrbit(current, 0, -0.05),
+      '+': (current) => zoomOrbit(current, 0.8, radius.current),
+      '-': (current) => zoomOrbit(current, 1.25, radius.current),
+    };
+    const action = actions[e.key];
+    if (!action) return;
+    e.preventDefault();
+    updateOrbit(action);
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setSource(file);
+  };
+
+  const formatVec = (values: Vec3, digits: number) => values.map((v) => formatNumber(v, locale, digits)).join(', ');
+  const header = sample?.header;
+
+  return (
+    <div className="absolute inset-0 bg-black">
+      <canvas
+        ref={canvasRef}
+        tabIndex={0}
+        role="img"
+        aria-label={m.label}
+        className="w-full h-full touch-none select-none cursor-grab active:cursor-grabbing focus:outline-none"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onContextMenu={(e) => e.preventDefault()}
+        onKeyDown={handleKeyDown}
+      />
+
+      {(loading || error) && (
+        <p className="absolute inset-0 flex items-center justify-center p-8 text-center text-sm text-stone-400 pointer-events-none">
+          {error ? (error === 'webgl' ? m.noWebgl : m.errors[error]) : m.loading}
+        </p>
+      )}
+
+      <div className="absolute top-4 left-4 right-16 flex flex-wrap items-center gap-2">
+        <div role="radiogroup" aria-label={m.label} className="flex rounded-full bg-black/60 backdrop-blur p-1">
+          {COLOR_MODES.map((option) => (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={mode === option}
+              onClick={() => setMode(option)}
+              className={`px-3 py-1 rounded-full text-[10px] md:text-xs font-bold uppercase tracking-widest transition-colors ${
+                mode === option ? 'bg-emerald-600 text-white' : 'text-stone-400 hover:text-white'
+              }`}
+            >
+              {m.modes[option]}
+            </button>
+          ))}
+        </div>
+        <select
+          value={budget}
+          onChange={(e) => setBudget(Number(e.target.value))}
+          aria-label={m.budget}
+          title={m.budget}
+          className="rounded-full bg-black/60 backdrop-blur px-3 py-1.5 text-[10px] md:text-xs text-stone-300 border-none focus:ring-1 focus:ring-emerald-500"
+        >
+          {BUDGETS.map((value) => (
+            <option key={value} value={value}>
+              {format(m.budgetOption, { count: formatNumber(value, locale, 0) })}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {sample && !error && (
+        <div className="hidden md:block absolute top-16 left-4 max-w-[16rem] rounded-xl bg-black/60 backdrop-blur p-3 text-[10px] text-stone-300 pointer-events-none">
+          {mode === 'classification' ? (
+            <ul className="grid grid-cols-1 gap-1">
+              {presentClasses(sample).map((code) => (
+                <li key={code} className="flex items-center gap-2">
+                  <span
+                    className="w-2.5 h-2.5 rounded-full shrink-0"
+                    style={{ backgroundColor: `rgb(${(CLASSIFICATION_COLORS[code] ?? [120, 113, 108]).join(',')})` }}
+                  />
+                  {(m.classes as Record<string, string>)[code] ?? format(m.otherClass, { code })}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="w-40">
+              <div
+                className={`h-2 rounded-full ${
+                  mode === 'elevation'
+                    ? 'bg-gradient-to-r from-blue-800 via-green-500 to-red-600'
+                    : 'bg-gradient-to-r from-black to-white'
+                }`}
+              />
+              <div className="mt-1 flex justify-between">
+                {mode === 'elevation' ? (
+                  <>
+                    <span>{formatNumber(sample.zRange[0], locale, 1)} m</span>
+                    <span>{formatNumber(sample.zRange[1], locale, 1)} m</span>
+                  </>
+                ) : (
+                  <>
+                    <span>{m.lowHigh.low}</span>
+                    <span>{m.lowHigh.high}</span>
+                  </>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {showWheelHint && (
+        <div className="absolute inset-x-0 top-1/2 flex justify-center pointer-events-none animate-[fadeIn_0.2s_ease-out]">
+          <span className="px-4 py-2 rounded-full bg-black/70 backdrop-blur text-xs text-stone-200">{m.wheelHint}</span>
+        </div>
+      )}
+
+      {showInfo && header && (
+        <div className="absolute bottom-16 right-4 left-4 md:left-auto md:w-80 max-h-[60%] overflow-y-auto rounded-2xl bg-black/80 backdrop-blur border border-stone-800 p-4 text-xs">
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5">
+            <dt className="text-stone-500">{m.header.file}</dt>
+            <dd className="truncate">{typeof source === 'string' ? source.split('/').pop() : source.name}</dd>
+            <dt className="text-stone-500">{m.header.version}</dt>
+            <dd>{header.version}</dd>
+            <dt className="text-stone-500">{m.header.pointFormat}</dt>
+            <dd>{header.pointFormat}</dd>
+            <dt className="text-stone-500">{m.header.points}</dt>
+            <dd>{formatNumber(header.pointCount, locale, 0)}</dd>
+            <dt className="text-stone-500">{m.header.scale}</dt>
+            <dd>{formatVec(header.scale, 6)}</dd>
+            <dt className="text-stone-500">{m.header.offset}</dt>
+            <dd>{formatVec(header.offset, 3)}</dd>
+            <dt className="text-stone-500">{m.header.min}</dt>
+            <dd>{formatVec(header.min, 2)}</dd>
+            <dt className="text-stone-500">{m.header.max}</dt>
+            <dd>{formatVec(header.max, 2)}</dd>
+            {header.generatingSoftware && (
+              <>
+                <dt className="text-stone-500">{m.header.software}</dt>
+                <dd className="truncate">{header.generatingSoftware}</dd>
+              </>
+            )}
+          </dl>
+          <p className="mt-3 text-stone-500">{m.hint}</p>
+          <p className="mt-2 text-stone-500">{m.sampleNote}</p>
+        </div>
+      )}
+
+      <div className="absolute bottom-4 right-4 flex items-center gap-2">
+        {sample && !error && (
+          <span className="hidden sm:inline px-3 py-1 rounded-full bg-black/60 backdrop-blur text-[10px] text-stone-400">
+            {format(m.pointsShown, {
+              shown: formatNumber(sample.count, locale, 0),
+              total: formatNumber(sample.header.pointCount, locale, 0),
+            })}
+          </span>
+        )}
+        {[
+          { label: m.info, icon: Info, onClick: () => setShowInfo((open) => !open), disabled: !header },
+          { label: m.resetView, icon: RotateCcw, onClick: () => updateOrbit(() => fitOrbit(radius.current)), disabled: !sample },
+          { label: m.openFile, icon: FolderOpen, onClick: () => fileInputRef.current?.click(), disabled: error === 'webgl' },
+        ].map((control) => (
+          <button
+            key={control.label}
+            type="button"
+            onClick={control.onClick}
+            disabled={control.disabled}
+            aria-label={control.label}
+            title={control.label}
+            className="p-2 rounded-full bg-black/60 backdrop-blur text-white hover:bg-emerald-600 transition-colors disabled:opacity-30 disabled:hover:bg-black/60"
+          >
+            <control.icon size={16} />
+          </button>
+        ))}
+        <input ref={fileInputRef} type="file" accept=".las,.laz" className="hidden" onChange={handleFile} />
+      </div>
+    </div>
+  );
+};
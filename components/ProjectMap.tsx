@@ -0,0 +1,432 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Minus, Plus, Maximize2, ArrowRight } from 'lucide-react';
+import { caseStudyPath, formatCaseLocation, useCaseStudies, type LocalizedCaseStudy } from './CaseStudies';
+import { servicePath, useServices } from './Services';
+import { useI18n } from './LocaleProvider';
+import { clusterPoints, type Cluster } from '../shared/geo/cluster';
+import { pointInGeometry } from '../shared/geo/topology';
+import type { AreaGeometry, Position } from '../shared/geo/types';
+import { formatPlural } from '../shared/i18n';
+
+interface ProvinceFeature {
+  type: 'Feature';
+  properties: { code: string; name: string };
+  geometry: AreaGeometry;
+}
+
+// Eşdikdörtgen izdüşüm, boylamlar Türkiye'nin orta enleminde ölçeklenir; ülke ölçeğinde bozulma gözle fark edilmez.
+// Sınırlar shared/geo/data/turkey-provinces.json'dan çizilir, harici karo servisi kullanılmaz (CSP ve çevrimdışı geliştirme).
+const BOUNDS = { west: 25.5, east: 45, south: 35.6, north: 42.3 };
+const LON_FACTOR = Math.cos((39 * Math.PI) / 180);
+const VIEW_WIDTH = 1000;
+const SCALE = VIEW_WIDTH / ((BOUNDS.east - BOUNDS.west) * LON_FACTOR);
+const VIEW_HEIGHT = Math.round((BOUNDS.north - BOUNDS.south) * SCALE);
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+/** Ekran birimi cinsinden; bu mesafedeki işaretçiler tek kümede gösterilir */
+const CLUSTER_RADIUS = 28;
+const DRAG_THRESHOLD = 4;
+
+const project = ([lon, lat]: Position): [number, number] => [
+  (lon - BOUNDS.west) * LON_FACTOR * SCALE,
+  (BOUNDS.north - lat) * SCALE,
+];
+
+const geometryToPath = (geometry: AreaGeometry) =>
+  (geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates)
+    .flat()
+    .map((ring) => `M${ring.map((p) => project(p).map((v) => v.toFixed(1)).join(',')).join('L')}Z`)
+    .join('');
+
+interface ViewState {
+  k: number;
+  x: number;
+  y: number;
+}
+
+const INITIAL_VIEW: ViewState = { k: 1, x: 0, y: 0 };
+
+// Harita her yönde görünüm alanını doldurur; kenarlardan boşluğa kaydırılamaz
+const clampView = ({ k, x, y }: ViewState): ViewState => {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, k));
+  return {
+    k: zoom,
+    x: Math.min(0, Math.max(VIEW_WIDTH - VIEW_WIDTH * zoom, x)),
+    y: Math.min(0, Math.max(VIEW_HEIGHT - VIEW_HEIGHT * zoom, y)),
+  };
+};
+
+const zoomAt = (view: ViewState, [cx, cy]: [number, number], k: number): ViewState => {
+  const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, k));
+  return clampView({ k: next, x: cx - ((cx - view.x) * next) / view.k, y: cy - ((cy - view.y) * next) / view.k });
+};
+
+export const ProjectMap: React.FC = () => {
+  const navigate = useNavigate();
+  const { locale, messages, to } = useI18n();
+  const m = messages.projectMap;
+  const studies = useCaseStudies();
+  const services = useServices();
+
+  const [provinces, setProvinces] = useState<ProvinceFeature[] | null>(null);
+  const [loadError, setLoadError] = useState(false);
+  const [view, setView] = useState<ViewState>(INITIAL_VIEW);
+  const [hoverProvince, setHoverProvince] = useState<string | null>(null);
+  const [selection, setSelection] = useState<LocalizedCaseStudy[]>([]);
+  const [showWheelHint, setShowWheelHint] = useState(false);
+
+  const svgRef = useRef<SVGSVGElement>(null);
+  const pointers = useRef(new Map<number, [number, number]>());
+  const drag = useRef({ moved: false, start: [0, 0] as [number, number], origin: INITIAL_VIEW, pinch: 0 });
+
+  // ~85 KB'lık sınır verisi ayrı parça olarak, bölüm ilk render edildiğinde yüklenir
+  useEffect(() => {
+    let cancelled = false;
+    import('../shared/geo/data/turkey-provinces.json')
+      .then((mod) => {
+        // JSON'dan çıkarılan tip koordinatları number[] olarak görür; veri shared/geo/data/README.md'deki şemaya uyar
+        if (!cancelled) setProvinces((mod.default as unknown as { features: ProvinceFeature[] }).features);
+      })
+      .catch(() => {
+        if (!cancelled) setLoadError(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const serviceById = useMemo(() => new Map(services.map((s) => [s.id, s])), [services]);
+  // İşaretçi rengi projenin ilk (ana) hizmetinden gelir
+  const colorOf = useCallback(
+    (study: LocalizedCaseStudy) => serviceById.get(study.services[0])?.accentHex ?? '#ffffff',
+    [serviceById]
+  );
+  const legend = services.filter((s) => studies.some((study) => study.services[0] === s.id));
+
+  const provincePaths = useMemo(
+    () =>
+      (provinces ?? []).map((feature) => ({
+        code: feature.properties.code,
+        name: feature.properties.name,
+        d: geometryToPath(feature.geometry),
+        hasProjects: studies.some((study) => pointInGeometry(study.location.coordinates, feature.geometry)),
+      })),
+    [provinces, studies]
+  );
+
+  // Kümeleme yalnızca yakınlaştırmaya bağlıdır; kaydırma göreli mesafeleri değiştirmez
+  const clusters = useMemo(
+    () =>
+      clusterPoints(
+        studies.map((study) => {
+          const [x, y] = project(study.location.coordinates);
+          return { x: x * view.k, y: y * view.k, item: study };
+        }),
+        CLUSTER_RADIUS
+      ),
+    [studies, view.k]
+  );
+
+  const toViewPoint = (clientX: number, clientY: number): [number, number] => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return [0, 0];
+    const point = new DOMPoint(clientX, clientY).matrixTransform(ctm.inverse());
+    return [point.x, point.y];
+  };
+
+  // Sayfa kaydırmasını engellememek için tekerlekle yakınlaştırma yalnızca Ctrl/⌘ ile (dokunmatik yüzey kıstırması da ctrlKey gönderir)
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    let hintTimer: ReturnType<typeof setTimeout> | undefined;
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) {
+        setShowWheelHint(true);
+        clearTimeout(hintTimer);
+        hintTimer = setTimeout(() => setShowWheelHint(false), 1500);
+        return;
+      }
+      e.preventDefault();
+      const point = toViewPoint(e.clientX, e.clientY);
+      setView((current) => zoomAt(current, point, current.k * Math.exp(-e.deltaY * 0.002)));
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => {
+      svg.removeEventListener('wheel', onWheel);
+      clearTimeout(hintTimer);
+    };
+  }, []);
+
+  // İşaretçi yakalama sürükleme başlayınca yapılır; erken yakalama işaretçilere gelen tıklamayı SVG'ye yönlendirirdi
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    pointers.current.set(e.pointerId, toViewPoint(e.clientX, e.clientY));
+    drag.current = { moved: false, start: toViewPoint(e.clientX, e.clientY), origin: view, pinch: 0 };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!pointers.current.has(e.pointerId)) return;
+    const point = toViewPoint(e.clientX, e.clientY);
+    pointers.current.set(e.pointerId, point);
+
+    // İki parmak: kıstırarak yakınlaştırma
+    if (pointers.current.size === 2) {
+      const [a, b] = [...pointers.current.values()];
+      const distance = Math.hypot(a[0] - b[0], a[1] - b[1]);
+      const previous = drag.current.pinch;
+      drag.current.pinch = distance;
+      drag.current.moved = true;
+      e.currentTarget.setPointerCapture(e.pointerId);
+      if (previous > 0) {
+        const mid: [number, number] = [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2];
+        setView((current) => zoomAt(current, mid, (current.k * distance) / previous));
+      }
+      return;
+    }
+
+    const dx = point[0] - drag.current.start[0];
+    const dy = point[1] - drag.current.start[1];
+    if (!drag.current.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    if (!drag.current.moved) e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current.moved = true;
+    const { origin } = drag.current;
+    setView(clampView({ k: origin.k, x: origin.x + dx, y: origin.y + dy }));
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+    pointers.current.delete(e.pointerId);
+    if (pointers.current.size < 2) drag.current.pinch = 0;
+    // Kıstırmadan tek parmağa dönüldüğünde kaydırma kalan parmaktan devam eder
+    const [remaining] = [...pointers.current.values()];
+    if (remaining) {
+      drag.current.start = remaining;
+      drag.current.origin = view;
+    }
+  };
+
+  const zoomBy = (factor: number) => setView((current) => zoomAt(current, [VIEW_WIDTH / 2, VIEW_HEIGHT / 2], current.k * factor));
+
+  const handleClusterClick = (cluster: Cluster<LocalizedCaseStudy>) => {
+    if (drag.current.moved) return;
+    if (cluster.items.length === 1) {
+      navigate(to(caseStudyPath(cluster.items[0].slug)));
+      return;
+    }
+    setSelection(cluster.items);
+    // Kümeyi ayırmaya yetecek kadar yakınlaş (en yakın iki üye arası iki küme yarıçapı) ve kümeyi ortala
+    const points = cluster.items.map((study) => project(study.location.coordinates));
+    let closest = Infinity;
+    points.forEach((p, i) => points.slice(i + 1).forEach((q) => (closest = Math.min(closest, Math.hypot(p[0] - q[0], p[1] - q[1])))));
+    const target = closest > 0 ? (CLUSTER_RADIUS * 2) / closest : MAX_ZOOM;
+    // Küme koordinatları yakınlaştırılmış uzaydadır; izdüşüm uzayına geri çevrilir
+    const [bx, by] = [cluster.x / view.k, cluster.y / view.k];
+    setView((current) => {
+      const k = Math.min(MAX_ZOOM, Math.max(current.k * 2, target));
+      return clampView({ k, x: VIEW_WIDTH / 2 - bx * k, y: VIEW_HEIGHT / 2 - by * k });
+    });
+  };
+
+  const markerKeyDown = (cluster: Cluster<LocalizedCaseStudy>) => (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      drag.current.moved = false;
+      handleClusterClick(cluster);
+    }
+  };
+
+  const renderMarker = (cluster: Cluster<LocalizedCaseStudy>, idx: number) => {
+    const cx = cluster.x + view.x;
+    const cy = cluster.y + view.y;
+    if (cx < -20 || cy < -20 || cx > VIEW_WIDTH + 20 || cy > VIEW_HEIGHT + 20) return null;
+
+    if (cluster.items.length === 1) {
+      const [study] = cluster.items;
+      return (
+        <g
+          key={study.slug}
+          role="link"
+          tabIndex={0}
+          aria-label={`${study.title} - ${formatCaseLocation(study)}`}
+          onClick={() => handleClusterClick(cluster)}
+          onKeyDown={markerKeyDown(cluster)}
+          onMouseEnter={() => setSelection([study])}
+          className="cursor-pointer focus:outline-none group"
+        >
+          <circle cx={cx} cy={cy} r={14} fill={colorOf(study)} opacity={0.25} className="animate-pulse" />
+          <circle cx={cx} cy={cy} r={7} fill={colorOf(study)} stroke="#fff" strokeWidth={2} className="group-hover:stroke-[3px] group-focus:stroke-[3px]" />
+        </g>
+      );
+    }
+
+    // Çoklu küme: halka, üyelerin hizmet renklerine göre dilimlenir
+    const radius = 16;
+    const circumference = 2 * Math.PI * radius;
+    const counts = new Map<string, number>();
+    cluster.items.forEach((study) => counts.set(colorOf(study), (counts.get(colorOf(study)) ?? 0) + 1));
+    let offset = 0;
+    return (
+      <g
+        key={`cluster-${idx}`}
+        role="button"
+        tabIndex={0}
+        aria-label={formatPlural(m.cluster, cluster.items.length, locale)}
+        onClick={() => handleClusterClick(cluster)}
+        onKeyDown={markerKeyDown(cluster)}
+        onMouseEnter={() => setSelection(cluster.items)}
+        className="cursor-pointer focus:outline-none"
+      >
+        <circle cx={cx} cy={cy} r={radius + 6} fill="#0c0a09" opacity={0.85} />
+        {[...counts].map(([color, count]) => {
+          const length = (count / cluster.items.length) * circumference;
+          const segment = (
+            <circle
+              key={color}
+              cx={cx}
+              cy={cy}
+              r={radius}
+              fill="none"
+              stroke={color}
+              strokeWidth={5}
+              strokeDasharray={`${length} ${circumference - length}`}
+              strokeDashoffset={-offset}
+              transform={`rotate(-90 ${cx} ${cy})`}
+            />
+          );
+          offset += length;
+          return segment;
+        })}
+        <text x={cx} y={cy} dy="0.35em" textAnchor="middle" className="fill-white font-oswald font-bold text-[13px] pointer-events-none">
+          {cluster.items.length}
+        </text>
+      </g>
+    );
+  };
+
+  return (
+    <section className="relative w-screen h-screen snap-start shrink-0 bg-stone-950 text-white flex flex-col lg:flex-row overflow-hidden">
+      <div className="lg:w-[34%] shrink-0 p-8 pb-4 md:p-16 lg:p-20 lg:pr-8 flex flex-col justify-center">
+        <h2 className="text-emerald-500 font-bold tracking-widest uppercase text-[10px] mb-4 md:mb-6">{m.eyebrow}</h2>
+        <h3 className="text-4xl md:text-7xl font-oswald font-bold leading-[0.9] mb-4 md:mb-8">
+          {m.titleLine1} <br /> <span className="text-stone-600">{m.titleLine2}</span>
+        </h3>
+        <p className="hidden md:block text-stone-400 text-base font-light leading-relaxed mb-8 max-w-md">{m.lead}</p>
+
+        <p className="text-[9px] text-stone-500 uppercase font-bold tracking-widest mb-3">{m.legend}</p>
+        <ul className="flex flex-wrap lg:flex-col gap-x-5 gap-y-2">
+          {legend.map((service) => (
+            <li key={service.id}>
+              <Link
+                to={to(servicePath(service.slug))}
+                className="inline-flex items-center gap-2 text-sm text-stone-300 hover:text-white transition-colors"
+              >
+                <span className="w-3 h-3 rounded-full border-2 border-white" style={{ backgroundColor: service.accentHex }} />
+                {service.title} {service.subtitle}
+              </Link>
+            </li>
+          ))}
+        </ul>
+
+        <Link
+          to={to(caseStudyPath())}
+          className="hidden lg:inline-flex mt-8 items-center gap-2 text-xs uppercase tracking-widest font-bold text-emerald-400 border-b border-emerald-400/40 pb-1 self-start hover:border-emerald-400 transition-colors"
+        >
+          {messages.caseStudies.viewAll} <ArrowRight size={12} />
+        </Link>
+      </div>
+
+      <div className="relative flex-1 min-h-0 m-4 mt-0 lg:m-10 lg:ml-0 rounded-3xl bg-stone-900/60 border border-stone-800 overflow-hidden">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
+          role="img"
+          aria-label={m.mapLabel}
+          className="w-full h-full touch-none select-none cursor-grab active:cursor-grabbing"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+          onMouseLeave={() => setHoverProvince(null)}
+        >
+          <g transform={`translate(${view.x} ${view.y}) scale(${view.k})`}>
+            {provincePaths.map((province) => (
+              <path
+                key={province.code}
+                d={province.d}
+                vectorEffect="non-scaling-stroke"
+                onMouseEnter={() => setHoverProvince(province.name)}
+                className={`stroke-stone-600 transition-colors ${
+                  province.hasProjects ? 'fill-emerald-900/50 hover:fill-emerald-800/70' : 'fill-stone-800 hover:fill-stone-700'
+                }`}
+                strokeWidth={0.75}
+              />
+            ))}
+          </g>
+          <g>{clusters.map(renderMarker)}</g>
+        </svg>
+
+        {!provinces && (
+          <p className="absolute inset-0 flex items-center justify-center text-sm text-stone-500 pointer-events-none">
+            {loadError ? m.loadFailed : m.loading}
+          </p>
+        )}
+
+        {hoverProvince && (
+          <span className="absolute top-4 left-4 px-3 py-1 rounded-full bg-black/60 backdrop-blur text-xs font-bold uppercase tracking-widest pointer-events-none">
+            {hoverProvince}
+          </span>
+        )}
+
+        <div className="absolute top-4 right-4 flex flex-col gap-2">
+          {[
+            { label: m.zoomIn, icon: Plus, onClick: () => zoomBy(2), disabled: view.k >= MAX_ZOOM },
+            { label: m.zoomOut, icon: Minus, onClick: () => zoomBy(0.5), disabled: view.k <= MIN_ZOOM },
+            { label: m.reset, icon: Maximize2, onClick: () => setView(INITIAL_VIEW), disabled: view.k === MIN_ZOOM },
+          ].map((control) => (
+            <button
+              key={control.label}
+              type="button"
+              onClick={control.onClick}
+              disabled={control.disabled}
+              aria-label={control.label}
+              title={control.label}
+              className="p-2 rounded-full bg-black/60 backdrop-blur text-white hover:bg-emerald-600 transition-colors disabled:opacity-30 disabled:hover:bg-black/60"
+            >
+              <control.icon size={16} />
+            </button>
+          ))}
+        </div>
+
+        {showWheelHint && (
+          <div className="absolute inset-x-0 bottom-24 flex justify-center pointer-events-none animate-[fadeIn_0.2s_ease-out]">
+            <span className="px-4 py-2 rounded-full bg-black/70 backdrop-blur text-xs text-stone-200">{m.wheelHint}</span>
+          </div>
+        )}
+
+        <div className="absolute bottom-4 left-4 right-4 md:right-auto md:max-w-sm rounded-2xl bg-black/70 backdrop-blur border border-stone-800 p-4">
+          {selection.length === 0 ? (
+            <p className="text-xs text-stone-400">{m.selectHint}</p>
+          ) : (
+            <ul className="space-y-2 max-h-40 overflow-y-auto">
+              {selection.map((study) => (
+                <li key={study.slug}>
+                  <Link to={to(caseStudyPath(study.slug))} className="group flex items-start gap-3">
+                    <span className="mt-1.5 w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: colorOf(study) }} />
+                    <span>
+                      <span className="block text-sm font-bold group-hover:text-emerald-400 transition-colors">{study.title}</span>
+                      <span className="block text-xs text-stone-500">
+                        {formatCaseLocation(study)} · {study.year}
+                      </span>
+                    </span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { Link, Navigate, useLocation } from 'react-router-dom';
+import { Loader2, ShieldAlert } from 'lucide-react';
+import { useI18n } from './LocaleProvider';
+import type { AccountRole, PortalAccount } from '../shared/auth';
+
+interface SessionContextValue {
+  account: PortalAccount;
+  /** Oturumu sunucuda kapatır ve giriş sayfasına döner */
+  signOut: () => Promise<void>;
+}
+
+const SessionContext = createContext<SessionContextValue | null>(null);
+
+type SessionState = { status: 'loading' } | { status: 'anonymous' } | { status: 'authenticated'; account: PortalAccount };
+
+/**
+ * Rota koruması: oturum yoksa /giris'e, dönüş yolu ?next= ile yönlendirir.
+ * Çerez HttpOnly olduğundan oturum her girişte /api/auth/session ile sorulur.
+ * role verilirse başka roldeki hesaba yetki uyarısı gösterilir; asıl denetim API'dedir.
+ */
+export const RequireSession: React.FC<{ children: React.ReactNode; role?: AccountRole }> = ({ children, role }) => {
+  const { messages, to } = useI18n();
+  const location = useLocation();
+  const [state, setState] = useState<SessionState>({ status: 'loading' });
+
+  useEffect(() => {
+    let cancelled = false;
+    fetch('/api/auth/session', { credentials: 'same-origin' })
+      .then(async (res) => {
+        const data = res.ok ? await res.json() : null;
+        if (cancelled) return;
+        setState(data?.account ? { status: 'authenticated', account: data.account } : { status: 'anonymous' });
+      })
+      .catch(() => {
+        if (!cancelled) setState({ status: 'anonymous' });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const signOut = useCallback(async () => {
+    // Ağ hatasında da yerel durum temizlenir; çerez sunucuda bir sonraki istekte yine doğrulanır
+    await fetch('/api/auth/logout', { method: 'POST', credentials: 'same-origin' }).catch(() => undefined);
+    setState({ status: 'anonymous' });
+  }, []);
+
+  if (state.status === 'loading') {
+    return (
+      <main className="bg-stone-900 text-stone-400 h-screen w-screen flex items-center justify-center gap-2 text-sm">
+        <Loader2 size={16} className="animate-spin" /> {messages.portal.loading}
+      </main>
+    );
+  }
+
+  if (state.status === 'anonymous') {
+    return <Navigate to={`${to('/giris')}?next=${encodeURIComponent(location.pathname)}`} replace />;
+  }
+
+  if (role && state.account.role !== role) {
+    return (
+      <main className="bg-stone-900 text-white h-screen w-screen flex flex-col items-center justify-center gap-4 px-6 text-center">
+        <ShieldAlert size={32} className="text-stone-500" />
+        <p className="text-stone-300">{messages.auth.forbidden}</p>
+        <Link to={to('/')} className="text-xs uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors">
+          {messages.nav.home}
+        </Link>
+      </main>
+    );
+  }
+
+  return <SessionContext.Provider value={{ account: state.account, signOut }}>{children}</SessionContext.Provider>;
+};
+
+export function useSession(): SessionContextValue {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error('useSession must be used inside <RequireSession>');
+  }
+  return context;
+}
@@ -0,0 +1,57 @@
+import React from 'react';
+import type { RichText as RichTextContent, RichTextSpan } from '../shared/content/richText';
+
+const Spans: React.FC<{ spans: RichTextSpan[] }> = ({ spans }) => (
+  <>
+    {spans.map((span, idx) => {
+      let node: React.ReactNode = span.text;
+      if (span.italic) node = <em>{node}</em>;
+      if (span.bold) node = <strong className="font-semibold text-white">{node}</strong>;
+      if (span.href) {
+        const external = /^https?:\/\//.test(span.href);
+        node = (
+          <a
+            href={span.href}
+            className="text-emerald-400 underline underline-offset-2 hover:text-emerald-300"
+            {...(external ? { target: '_blank', rel: 'noopener noreferrer' } : {})}
+          >
+            {node}
+          </a>
+        );
+      }
+      return <React.Fragment key={idx}>{node}</React.Fragment>;
+    })}
+  </>
+);
+
+/** İçerik koleksiyonundan gelen ayrıştırılmış Markdown'ı render eder (bkz. shared/content/richText.ts) */
+export const RichText: React.FC<{ content: RichTextContent; className?: string }> = ({ content, className }) => (
+  <div className={className}>
+    {content.map((block, idx) => {
+      if (block.type === 'heading') {
+        const Heading = block.level === 2 ? 'h3' : 'h4';
+        return (
+          <Heading key={idx} className="font-oswald font-bold text-white tracking-wide">
+            <Spans spans={block.children} />
+          </Heading>
+        );
+      }
+      if (block.type === 'list') {
+        return (
+          <ul key={idx} className="list-disc pl-5 space-y-1">
+            {block.items.map((item, itemIdx) => (
+              <li key={itemIdx}>
+                <Spans spans={item} />
+              </li>
+            ))}
+          </ul>
+        );
+      }
+      return (
+        <p key={idx}>
+          <Spans spans={block.children} />
+        </p>
+      );
+    })}
+  </div>
+);
@@ -1,88 +1,97 @@
-import React, { useState } from 'react';
-import { Scan, Plane, Map as MapIcon, ArrowRight, X, ChevronRight, CheckCircle, Leaf, Pickaxe } from 'lucide-react';
-
-export const servicesData = [
-  {
-    id: 1,
-    title: "LIDAR",
-    subtitle: "3D Lazer Tarama",
-    desc: "Milyonlarca nokta ile dijital ikiz oluşturma.",
-    fullDesc: "Velodyne ve Riegl marka LiDAR sensörlerimiz ile saniyede 1 milyon nokta atımı gerçekleştirerek ormanlık alanlardan endüstriyel tesislere kadar her yeri milimetre hassasiyetinde modelliyoruz. Nokta bulutu verileri, analiz edilebilir dijital ikizlere dönüştürülür.",
-    features: ["Saniyede 1M Nokta", "Bitki Örtüsü Penetrasyonu", "Endüstriyel Tarama", "Tünel ve Maden Ölçümleri"],
-    image: "/assets/lidar360.png",
-    video: "https://assets.mixkit.co/videos/preview/mixkit-data-center-server-lights-25744-large.mp4",
-    color: "from-emerald-900/90 to-black",
-    icon: Scan
-  },
-  {
-    id: 2,
-    title: "DRONE",
-    subtitle: "Fotogrametri",
-    desc: "Geniş arazilerin havadan yüksek çözünürlüklü haritalanması.",
-    fullDesc: "RTK/PPK modüllü İnsansız Hava Araçlarımız (İHA) ile geniş tarım arazileri, şantiye sahaları ve şehir planlama alanlarını yüksek çözünürlüklü ortofotolara dönüştürüyoruz. Klasik yöntemlere göre %80 daha hızlı ve güvenli veri toplama.",
-    features: ["5cm Piksel Çözünürlüğü", "Günde 500+ Hektar", "Termal Haritalama", "Hacim Hesaplamaları"],
-    image: "/assets/drone.png",
-    video: "https://assets.mixkit.co/videos/preview/mixkit-drone-flying-over-a-factory-42866-large.mp4",
-    color: "from-sky-900/90 to-black",
-    icon: Plane
-  },
-  {
-    id: 3,
-    title: "HARİTA",
-    subtitle: "Mühendislik",
-    desc: "İmar, aplikasyon ve klasik haritacılık çözümleri.",
-    fullDesc: "Yasal mevzuata uygun imar uygulamaları, parselasyon, ifraz-tevhid işlemleri ve inşaat projelerinizin aplikasyon süreçlerini yönetiyoruz. Resmi kurumlarla olan tüm süreçlerde uzman kadromuzla yanınızdayız.",
-    features: ["İmar Uygulamaları", "Aplikasyon", "Sınır Tespiti", "Hukuki Danışmanlık"],
-    image: "/assets/harita-map.png",
-    video: "https://assets.mixkit.co/videos/preview/mixkit-topographic-map-lines-digital-animation-31744-large.mp4",
-    color: "from-amber-900/90 to-black",
-    icon: MapIcon
-  },
-  {
-    id: 4,
-    title: "ORMANCILIK",
-    subtitle: "Çalışmaları",
-    desc: "Orman kaynaklarının modern teknolojilerle analizi ve yönetimi.",
-    fullDesc: "LiDAR ve drone teknolojilerini kullanarak orman alanlarının 3D modellenmesi, ağaç sayımı, biyokütle hesaplamaları ve orman sağlığı analizleri gerçekleştiriyoruz. Sürdürülebilir orman yönetimi için detaylı veri sağlıyoruz.",
-    features: ["Ağaç Sayımı", "Biyokütle Hesaplama", "Orman Sağlığı Analizi", "3D Orman Modelleme"],
-    image: "/assets/orman-forrest.png",
-    video: "",
-    color: "from-green-900/90 to-black",
-    icon: Leaf
-  },
-  {
-    id: 5,
-    title: "MADENCİLİK",
-    subtitle: "Çalışmaları",
-    desc: "Maden sahalarının güvenli ve hassas ölçümü.",
-    fullDesc: "Açık ocak ve yeraltı madenlerinde hacim hesaplamaları, stok ölçümleri, döküm sahası yönetimi ve güvenlik analizleri yapıyoruz. Dron ve LiDAR teknolojileri ile maden operasyonlarınızı optimize ediyoruz.",
-    features: ["Hacim Hesaplamaları", "Stok Ölçümleri", "Döküm Sahası Yönetimi", "Güvenlik Analizleri"],
-    image: "/assets/maden-mine.png",
-    video: "",
-    color: "from-stone-900/90 to-black",
-    icon: Pickaxe
-  }
-];
+import React, { Suspense, lazy, useMemo, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Scan, Plane, Map as MapIcon, ArrowRight, X, ChevronRight, CheckCircle, Leaf, Pickaxe, Calculator, CalendarCheck, Crosshair, Box } from 'lucide-react';
+import { services as serviceContent } from 'virtual:service-content';
+import type { ServiceAccent, ServiceContent, ServiceIconName, ServiceLocaleContent } from '../shared/content/services';
+import type { Locale } from '../shared/i18n';
+import { useI18n } from './LocaleProvider';
+import { RichText } from './RichText';
+import { RelatedCaseStudies } from './CaseStudies';
+import { ComparisonViewer } from './ComparisonViewer';
+import { SITE_SURVEY_SERVICE_IDS } from '../shared/surveys';
+import { SERVICE_IDS } from '../shared/services';
+
+// WebGL görüntüleyici yalnızca örnek nokta bulutu olan hizmette, detay açıldığında yüklenir
+const PointCloudViewer = lazy(() => import('./PointCloudViewer').then((mod) => ({ default: mod.PointCloudViewer })));
+
+type IconComponent = React.ComponentType<{ size?: number; className?: string }>;
+
+// İçerik dosyaları yalnızca ikon/renk adını seçer; Tailwind sınıfları derlemede görünsün diye burada sabit
+const ICONS: Record<ServiceIconName, IconComponent> = {
+  scan: Scan,
+  plane: Plane,
+  map: MapIcon,
+  leaf: Leaf,
+  pickaxe: Pickaxe,
+};
+
+const ACCENT_GRADIENTS: Record<ServiceAccent, string> = {
+  emerald: 'from-emerald-900/90 to-black',
+  sky: 'from-sky-900/90 to-black',
+  amber: 'from-amber-900/90 to-black',
+  green: 'from-green-900/90 to-black',
+  stone: 'from-stone-900/90 to-black',
+};
+
+// SVG dolgusu gibi sınıf kullanılamayan yerler için aynı renklerin Tailwind 500 tonları
+const ACCENT_HEX: Record<ServiceAccent, string> = {
+  emerald: '#10b981',
+  sky: '#0ea5e9',
+  amber: '#f59e0b',
+  green: '#22c55e',
+  stone: '#a8a29e',
+};
+
+export type LocalizedService = Omit<ServiceContent, 'locales' | 'icon'> &
+  ServiceLocaleContent & {
+    icon: IconComponent;
+    color: string;
+    accentHex: string;
+  };
+
+/** Derleme sırasında content/services altından doğrulanarak üretilir (plugins/serviceContent.ts) */
+export const servicesData: ServiceContent[] = serviceContent;
+
+// Slug'lar paylaşılabilir linklerde kullanılır (/hizmetler/lidar); değiştirilirse eski linkler kırılır
+export const getServiceBySlug = (slug: string | undefined) => servicesData.find(s => s.slug === slug);
+
+/** Dilsiz yol; Link/navigate için aktif dilin önekiyle birleştirilir (useI18n().to) */
+export const servicePath = (slug: string) => `/hizmetler/${slug}`;
+
+export const localizeServices = (locale: Locale): LocalizedService[] =>
+  servicesData.map(({ locales, icon, ...service }) => ({
+    ...service,
+    ...locales[locale],
+    icon: ICONS[icon],
+    color: ACCENT_GRADIENTS[service.accent],
+    accentHex: ACCENT_HEX[service.accent],
+  }));
+
+export const useServices = (): LocalizedService[] => {
+  const { locale } = useI18n();
+  return useMemo(() => localizeServices(locale), [locale]);
+};
 
 export const Services: React.FC = () => {
-  const [activeServiceId, setActiveServiceId] = useState<number | null>(null);
+  const navigate = useNavigate();
+  const { messages, to } = useI18n();
+  const services = useServices();
+  const { slug } = useParams<{ slug?: string }>();
   const [hoverId, setHoverId] = useState<number | null>(null);
 
-  const activeData = servicesData.find(s => s.id === activeServiceId);
+  // Açık hizmet URL'den okunur; geri tuşu detaydan kart görünümüne döner
+  const activeData = services.find(s => s.slug === slug);
+  const activeServiceId = activeData?.id ?? null;
 
-  const handleToggle = (id: number) => {
-    if (activeServiceId === id) {
-      setActiveServiceId(null);
-    } else {
-      setActiveServiceId(id);
-    }
+  const handleToggle = (item: LocalizedService) => {
+    navigate(to(activeServiceId === item.id ? '/' : servicePath(item.slug)));
   };
 
   // --- VIEW 1: INITIAL CARDS VIEW ---
   if (!activeServiceId) {
     return (
       <section className="relative w-screen h-screen snap-start shrink-0 flex flex-col sm:flex-row bg-black overflow-hidden animate-[fadeIn_0.5s_ease-out]">
-        {servicesData.map((item) => (
+        {services.map((item) => (
           <div 
             key={item.id}
             onMouseEnter={() => setHoverId(item.id)}
@@ -90,12 +99,12 @@ export const Services: React.FC = () => {
             className={`relative flex-1 transition-all duration-700 ease-in-out border-b sm:border-b-0 sm:border-r border-stone-800 cursor-pointer overflow-hidden group h-full
               ${hoverId === item.id ? 'sm:flex-[1.5]' : 'sm:flex-1'}
             `}
-            onClick={() => handleToggle(item.id)}
+            onClick={() => handleToggle(item)}
           >
             {/* Background Image */}
             <div className="absolute inset-0 z-0">
               <img 
-                src={item.image} 
+                src={item.images.card} 
                 alt={item.title} 
                 className={`w-full h-full object-cover transition-transform duration-1000 ${hoverId === item.id ? 'scale-110' : 'scale-100 grayscale-[50%]'}`}
               />
@@ -116,7 +125,7 @@ export const Services: React.FC = () => {
                 <button 
                   className="mt-2 sm:mt-4 flex items-center gap-2 text-[8px] sm:text-sm uppercase tracking-widest font-bold text-white border-b border-white/30 pb-1 hover:border-white transition-colors hover:text-emerald-400 hover:border-emerald-400"
                 >
-                  İncele <ArrowRight size={12} className="sm:w-3.5 sm:h-3.5" />
+                  {messages.services.explore} <ArrowRight size={12} className="sm:w-3.5 sm:h-3.5" />
                 </button>
               </div>
             </div>
@@ -132,10 +141,10 @@ export const Services: React.FC = () => {
       
       {/* Navigation Tabs (Top) - Optimized for vertical space */}
       <div className="flex flex-row h-16 md:h-24 bg-black border-b border-stone-800 shrink-0 z-20">
-        {servicesData.map((item) => (
+        {services.map((item) => (
            <button
              key={item.id}
-             onClick={() => handleToggle(item.id)}
+             onClick={() => handleToggle(item)}
              className={`flex-1 flex items-center justify-center gap-1 sm:gap-3 p-2 md:p-0 transition-all duration-300
                 ${activeServiceId === item.id 
                   ? 'bg-stone-800 text-white border-b-2 md:border-b-4 border-emerald-500' 
@@ -153,7 +162,8 @@ export const Services: React.FC = () => {
           
           {/* Close Button (Absolute) */}
           <button 
-             onClick={() => setActiveServiceId(null)}
+             onClick={() => navigate(to('/'))}
+             aria-label={messages.services.close}
              className="absolute top-4 right-4 z-50 p-2 bg-black/50 hover:bg-red-900/80 rounded-full text-white backdrop-blur transition-colors"
           >
              <X size={18} />
@@ -164,10 +174,18 @@ export const Services: React.FC = () => {
                {/* Left: Visual Media */}
                <div className="w-full md:w-1/2 h-[30vh] md:h-full relative bg-black shrink-0">
                   <div className="absolute inset-0 z-0">
-                      <img src={activeData.image} alt={activeData.title} className="w-full h-full object-cover opacity-60" />
+                      <img src={activeData.images.detail} alt={activeData.title} className="w-full h-full object-cover opacity-60" />
                       <div className="absolute inset-0 bg-gradient-to-t from-stone-900 to-transparent"></div>
                   </div>
-                  <div className="absolute bottom-4 left-4 md:bottom-12 md:left-12 z-10">
+                  {activeData.pointCloud && (
+                    <Suspense fallback={null}>
+                      <PointCloudViewer key={activeData.pointCloud} src={activeData.pointCloud} />
+                    </Suspense>
+                  )}
+                  {activeData.comparison && (
+                    <ComparisonViewer key={activeData.slug} comparison={activeData.comparison} className="absolute inset-0" />
+                  )}
+                  <div className="absolute bottom-4 left-4 md:bottom-12 md:left-12 z-10 pointer-events-none">
                        <h2 className="text-2xl md:text-7xl font-oswald font-bold text-white opacity-90">{activeData.subtitle}</h2>
                   </div>
                </div>
@@ -178,11 +196,12 @@ export const Services: React.FC = () => {
                       <p className="text-lg md:text-2xl text-emerald-400 font-light mb-4 md:mb-6">
                         {activeData.desc}
                       </p>
-                      <p className="text-stone-300 text-sm md:text-lg leading-relaxed mb-6 md:mb-12">
-                         {activeData.fullDesc}
-                      </p>
+                      <RichText
+                        content={activeData.fullDesc}
+                        className="text-stone-300 text-sm md:text-lg leading-relaxed mb-6 md:mb-12 space-y-4"
+                      />
 
-                      <div className="grid grid-cols-1 gap-3 md:gap-4 pb-8 md:pb-0">
+                      <div className="grid grid-cols-1 gap-3 md:gap-4">
                           {activeData.features.map((feature, idx) => (
                               <div key={idx} className="flex items-center gap-3 bg-white/5 p-3 md:p-4 rounded-xl border border-white/5">
                                   <div className="bg-emerald-500/20 p-1.5 rounded-full">
@@ -192,6 +211,41 @@ export const Services: React.FC = () => {
                               </div>
                           ))}
                       </div>
+
+                      <div className="mt-6 mb-8 md:mb-0 flex flex-wrap gap-x-6 gap-y-4">
+                        <Link
+                          to={`${to('/fiyat-tahmini')}?hizmet=${activeData.id}`}
+                          className="inline-flex items-center gap-2 text-xs md:text-sm uppercase tracking-widest font-bold text-emerald-400 border-b border-emerald-400/40 pb-1 hover:border-emerald-400 transition-colors"
+                        >
+                          <Calculator size={14} /> {messages.services.estimateCta}
+                        </Link>
+                        {SITE_SURVEY_SERVICE_IDS.includes(activeData.id) && (
+                          <Link
+                            to={to('/kesif')}
+                            className="inline-flex items-center gap-2 text-xs md:text-sm uppercase tracking-widest font-bold text-emerald-400 border-b border-emerald-400/40 pb-1 hover:border-emerald-400 transition-colors"
+                          >
+                            <CalendarCheck size={14} /> {messages.services.surveyCta}
+                          </Link>
+                        )}
+                        {activeData.id === SERVICE_IDS.HARITA && (
+                          <Link
+                            to={to('/araclar/koordinat')}
+                            className="inline-flex items-center gap-2 text-xs md:text-sm uppercase tracking-widest font-bold text-emerald-400 border-b border-emerald-400/40 pb-1 hover:border-emerald-400 transition-colors"
+                          >
+                            <Crosshair size={14} /> {messages.services.coordinateCta}
+                          </Link>
+                        )}
+                        {(activeData.id === SERVICE_IDS.MADENCILIK || activeData.id === SERVICE_IDS.DRONE) && (
+                          <Link
+                            to={`${to('/araclar/hacim')}?hizmet=${activeData.id}`}
+                            className="inline-flex items-center gap-2 text-xs md:text-sm uppercase tracking-widest font-bold text-emerald-400 border-b border-emerald-400/40 pb-1 hover:border-emerald-400 transition-colors"
+                          >
+                            <Box size={14} /> {messages.services.volumeCta}
+                          </Link>
+                        )}
+                      </div>
+
+                      <RelatedCaseStudies serviceId={activeData.id} />
                   </div>
                </div>
             </>
@@ -1,11 +1,13 @@
 import React, { useState } from 'react';
 import { Instagram, Linkedin, Youtube, MessageCircle, X, Plus } from 'lucide-react';
+import { useI18n } from './LocaleProvider';
 
 interface SideControlsProps {
   onOpenContact: () => void;
 }
 
 export const SideControls: React.FC<SideControlsProps> = ({ onOpenContact }) => {
+  const { messages } = useI18n();
   const [isMobileMenuOpen, setIsMobileMenuOpen] = useState(false);
 
   return (
@@ -29,7 +31,7 @@ export const SideControls: React.FC<SideControlsProps> = ({ onOpenContact }) =>
               target="_blank" 
               rel="noreferrer" 
               className="p-4 rounded-full bg-[#25D366] text-white hover:bg-[#128C7E] transition-all transform hover:rotate-12 hover:scale-110 shadow-lg shadow-green-500/30"
-              title="WhatsApp İletişim"
+              title={messages.sideControls.whatsapp}
             >
               <MessageCircle size={24} fill="white" className="stroke-none" /> 
             </a>
@@ -0,0 +1,137 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { useI18n } from './LocaleProvider';
+import { format } from '../shared/i18n';
+import { SURVEY_SLOT_MINUTES, formatSurveyTime, type SurveyAvailabilityWindow } from '../shared/surveys';
+
+const inputClass = 'w-full bg-stone-800 border border-stone-700 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500';
+
+/**
+ * Personelin saha keşfi müsaitliği (PortalPage'de yalnızca staff rolüne gösterilir)
+ * Saatler Türkiye saatiyle girilir; aralıklar ziyaretçiye SURVEY_SLOT_MINUTES'lık dilimler olarak sunulur.
+ */
+export const SurveyAvailabilityEditor: React.FC = () => {
+  const { locale, messages } = useI18n();
+  const m = messages.surveys.availability;
+  const [windows, setWindows] = useState<SurveyAvailabilityWindow[] | null>(null);
+  const [date, setDate] = useState('');
+  const [from, setFrom] = useState('09:00');
+  const [to, setTo] = useState('17:00');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    const res = await fetch('/api/staff/availability', { credentials: 'same-origin' });
+    const data = res.ok ? await res.json().catch(() => null) : null;
+    setWindows(data?.windows ?? []);
+  };
+
+  useEffect(() => {
+    load().catch(() => setWindows([]));
+  }, []);
+
+  const errorFor = (status: number, reason?: string) => {
+    if (reason === 'overlap') return m.overlap;
+    if (reason === 'has-bookings') return m.hasBookings;
+    return status === 400 ? format(m.invalid, { minutes: SURVEY_SLOT_MINUTES }) : m.failed;
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/staff/availability', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify({ date, from, to }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(errorFor(res.status, data.reason));
+        return;
+      }
+      await load();
+    } catch {
+      setError(m.failed);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRemove = async (id: number) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/staff/availability?id=${id}`, { method: 'DELETE', credentials: 'same-origin' });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setError(errorFor(res.status, data.reason));
+        return;
+      }
+      setWindows((current) => current?.filter((window) => window.id !== id) ?? null);
+    } catch {
+      setError(m.failed);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const time = (iso: string) => formatSurveyTime(iso, locale, { timeStyle: 'short' });
+
+  return (
+    <div className="rounded-2xl bg-black/40 border border-stone-800 p-6 space-y-4">
+      <div>
+        <h2 className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.title}</h2>
+        <p className="mt-1 text-sm text-stone-500">{format(m.lead, { minutes: SURVEY_SLOT_MINUTES })}</p>
+      </div>
+
+      <form onSubmit={handleAdd} noValidate className="grid grid-cols-1 md:grid-cols-[1.4fr_1fr_1fr_auto] gap-3">
+        <input type="date" aria-label={m.date} value={date} onChange={(e) => setDate(e.target.value)} className={inputClass} />
+        <input type="time" aria-label={m.from} value={from} onChange={(e) => setFrom(e.target.value)} className={inputClass} />
+        <input type="time" aria-label={m.to} value={to} onChange={(e) => setTo(e.target.value)} className={inputClass} />
+        <button
+          type="submit"
+          disabled={busy || !date}
+          className="flex items-center justify-center gap-2 px-5 py-3 rounded-xl bg-emerald-600 text-white text-sm font-bold hover:bg-emerald-500 transition-colors disabled:opacity-40"
+        >
+          <Plus size={16} /> {m.add}
+        </button>
+      </form>
+
+      {error && <div className="p-3 bg-red-900/40 text-red-300 rounded-lg text-sm">{error}</div>}
+
+      {windows && windows.length === 0 && <p className="text-sm text-stone-500">{m.empty}</p>}
+      {windows && windows.length > 0 && (
+        <ul className="divide-y divide-stone-800">
+          {windows.map((window) => (
+            <li key={window.id} className="py-3 flex items-start justify-between gap-4">
+              <div className="text-sm">
+                <p className="text-stone-200">
+                  {formatSurveyTime(window.startsAt, locale, { dateStyle: 'full' })} · {time(window.startsAt)} – {time(window.endsAt)}
+                </p>
+                {window.bookings.map((booking) => (
+                  <p key={booking.id} className="mt-1 text-xs text-stone-400">
+                    {time(booking.startsAt)} · {booking.name || booking.id} · {messages.surveys.kinds[booking.kind]}
+                    {booking.status === 'held' && <span className="ml-2 text-amber-400">{m.held}</span>}
+                  </p>
+                ))}
+              </div>
+              <button
+                type="button"
+                onClick={() => handleRemove(window.id)}
+                disabled={busy || window.bookings.length > 0}
+                aria-label={m.remove}
+                title={window.bookings.length > 0 ? m.hasBookings : m.remove}
+                className="p-2 rounded-lg text-stone-500 hover:text-red-400 transition-colors disabled:opacity-30"
+              >
+                <Trash2 size={16} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
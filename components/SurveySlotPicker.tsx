@@ -0,0 +1,86 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useI18n } from './LocaleProvider';
+import { format } from '../shared/i18n';
+import { SURVEY_BOOKING_DAYS, formatSurveyTime, surveyDayKey, type SurveySlot } from '../shared/surveys';
+
+interface SurveySlotPickerProps {
+  selected: string | null;
+  onSelect: (startsAt: string) => void;
+  /** Değiştiğinde liste yeniden yüklenir (ör. seçilen dilim başkası tarafından alındığında) */
+  reloadKey?: number;
+  /** Listede gösterilmeyecek dilim; saat değiştirirken mevcut randevu saati */
+  exclude?: string;
+}
+
+/** Boş keşif dilimleri, Türkiye saatine göre günlere gruplanmış */
+export const SurveySlotPicker: React.FC<SurveySlotPickerProps> = ({ selected, onSelect, reloadKey = 0, exclude }) => {
+  const { locale, messages } = useI18n();
+  const m = messages.surveys;
+  const [slots, setSlots] = useState<SurveySlot[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSlots(null);
+    setError(null);
+    fetch('/api/surveys/slots')
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(String(res.status)))))
+      .then((data: { slots: SurveySlot[] }) => {
+        if (!cancelled) setSlots(data.slots);
+      })
+      .catch(() => {
+        if (!cancelled) setError(m.slotsFailed);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey, m]);
+
+  const days = useMemo(() => {
+    const grouped = new Map<string, SurveySlot[]>();
+    for (const slot of slots ?? []) {
+      if (slot.startsAt === exclude) continue;
+      const key = surveyDayKey(slot.startsAt);
+      grouped.set(key, [...(grouped.get(key) ?? []), slot]);
+    }
+    return [...grouped.values()];
+  }, [slots, exclude]);
+
+  if (error) {
+    return <div className="p-3 bg-red-900/40 text-red-300 rounded-lg text-sm">{error}</div>;
+  }
+  if (!slots) {
+    return <p className="text-sm text-stone-500">{m.loadingSlots}</p>;
+  }
+  if (days.length === 0) {
+    return <p className="text-sm text-stone-400">{format(m.noSlots, { days: SURVEY_BOOKING_DAYS })}</p>;
+  }
+
+  return (
+    <div className="space-y-5">
+      {days.map((daySlots) => (
+        <div key={daySlots[0].startsAt}>
+          <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">
+            {formatSurveyTime(daySlots[0].startsAt, locale, { weekday: 'long', day: 'numeric', month: 'long' })}
+          </p>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {daySlots.map((slot) => (
+              <button
+                key={slot.startsAt}
+                type="button"
+                onClick={() => onSelect(slot.startsAt)}
+                aria-pressed={selected === slot.startsAt}
+                className={`px-4 py-2 rounded-xl text-sm font-bold transition-colors ${
+                  selected === slot.startsAt ? 'bg-emerald-600 text-white' : 'bg-stone-800 text-stone-300 hover:text-white'
+                }`}
+              >
+                {formatSurveyTime(slot.startsAt, locale, { timeStyle: 'short' })} –{' '}
+                {formatSurveyTime(slot.endsAt, locale, { timeStyle: 'short' })}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
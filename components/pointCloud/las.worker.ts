@@ -0,0 +1,50 @@
+/**
+ * LAS ayrıştırma worker'ı
+ * Dosya indirme ve okuma ana iş parçacığını kilitlemesin diye burada yapılır; sonuç dizileri
+ * kopyalanmadan (transfer) geri gönderilir. Vite bu dosyayı ayrı bir parça olarak derler.
+ */
+import { LasError, readLasHeader, readLasPoints, type LasErrorCode, type LasPointSample } from '../../shared/pointcloud/las';
+
+export interface LasWorkerRequest {
+  /** Örnek dosya adresi ya da kullanıcının seçtiği dosya */
+  source: string | Blob;
+  budget: number;
+}
+
+export type LasWorkerResponse =
+  | { ok: true; sample: LasPointSample }
+  | { ok: false; code: LasErrorCode | 'fetch' | 'unknown' };
+
+// DOM ve WebWorker tip kütüphaneleri birlikte yüklenemediğinden yalnızca kullanılan yüzey tanımlanır
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<LasWorkerRequest>) => void) | null;
+  postMessage(message: LasWorkerResponse, transfer?: Transferable[]): void;
+};
+
+async function readSource(source: string | Blob): Promise<ArrayBuffer | null> {
+  if (typeof source !== 'string') return source.arrayBuffer();
+  try {
+    const response = await fetch(source);
+    return response.ok ? await response.arrayBuffer() : null;
+  } catch {
+    return null;
+  }
+}
+
+scope.onmessage = async ({ data }) => {
+  const buffer = await readSource(data.source);
+  if (!buffer) {
+    scope.postMessage({ ok: false, code: 'fetch' });
+    return;
+  }
+  try {
+    const sample = readLasPoints(buffer, readLasHeader(buffer), data.budget);
+    scope.postMessage({ ok: true, sample }, [
+      sample.positions.buffer,
+      sample.intensity.buffer,
+      sample.classification.buffer,
+    ]);
+  } catch (err) {
+    scope.postMessage({ ok: false, code: err instanceof LasError ? err.code : 'unknown' });
+  }
+};
@@ -0,0 +1,109 @@
+/**
+ * Nokta bulutu için minimal WebGL 1 çizici: tek program, konum + renk tamponu, gl.POINTS.
+ * Kamera matrisi dışarıdan verilir (shared/pointcloud/orbit.ts); çizim yalnızca istendiğinde yapılır.
+ */
+const VERTEX_SHADER = `
+attribute vec3 a_position;
+attribute vec3 a_color;
+uniform mat4 u_matrix;
+uniform float u_pointSize;
+uniform float u_distance;
+varying vec3 v_color;
+void main() {
+  gl_Position = u_matrix * vec4(a_position, 1.0);
+  // Hedef derinliğindeki noktalar u_pointSize piksel; yakındakiler büyür, uzaktakiler küçülür
+  gl_PointSize = clamp(u_pointSize * u_distance / gl_Position.w, 1.0, u_pointSize * 3.0);
+  v_color = a_color;
+}`;
+
+const FRAGMENT_SHADER = `
+precision mediump float;
+varying vec3 v_color;
+void main() {
+  gl_FragColor = vec4(v_color, 1.0);
+}`;
+
+export interface PointCloudRenderer {
+  setPositions(positions: Float32Array): void;
+  setColors(colors: Uint8Array): void;
+  draw(matrix: Float32Array, distance: number): void;
+  dispose(): void;
+}
+
+function compile(gl: WebGLRenderingContext, type: number, source: string): WebGLShader {
+  const shader = gl.createShader(type);
+  if (!shader) throw new Error('WebGL shader oluşturulamadı');
+  gl.shaderSource(shader, source);
+  gl.compileShader(shader);
+  if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+    throw new Error(gl.getShaderInfoLog(shader) ?? 'WebGL shader derlenemedi');
+  }
+  return shader;
+}
+
+/** WebGL desteklenmiyorsa null döner; çağıran bunu kullanıcıya gösterir */
+export function createPointCloudRenderer(canvas: HTMLCanvasElement): PointCloudRenderer | null {
+  const gl = canvas.getContext('webgl', { antialias: false, preserveDrawingBuffer: false });
+  if (!gl) return null;
+
+  const program = gl.createProgram();
+  const positionBuffer = gl.createBuffer();
+  const colorBuffer = gl.createBuffer();
+  if (!program || !positionBuffer || !colorBuffer) return null;
+  gl.attachShader(program, compile(gl, gl.VERTEX_SHADER, VERTEX_SHADER));
+  gl.attachShader(program, compile(gl, gl.FRAGMENT_SHADER, FRAGMENT_SHADER));
+  gl.linkProgram(program);
+  if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+    throw new Error(gl.getProgramInfoLog(program) ?? 'WebGL programı bağlanamadı');
+  }
+
+  const positionLocation = gl.getAttribLocation(program, 'a_position');
+  const colorLocation = gl.getAttribLocation(program, 'a_color');
+  const matrixLocation = gl.getUniformLocation(program, 'u_matrix');
+  const pointSizeLocation = gl.getUniformLocation(program, 'u_pointSize');
+  const distanceLocation = gl.getUniformLocation(program, 'u_distance');
+  let pointCount = 0;
+
+  return {
+    setPositions(positions) {
+      gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+      gl.bufferData(gl.ARRAY_BUFFER, positions, gl.STATIC_DRAW);
+      pointCount = positions.length / 3;
+    },
+    setColors(colors) {
+      gl.bindBuffer(gl.ARRAY_BUFFER, colorBuffer);
+      gl.bufferData(gl.ARRAY_BUFFER, colors, gl.STATIC_DRAW);
+    },
+    draw(matrix, distance) {
+      const dpr = window.devicePixelRatio || 1;
+      const width = Math.round(canvas.clientWidth * dpr);
+      const height = Math.round(canvas.clientHeight * dpr);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      gl.viewport(0, 0, width, height);
+      gl.clearColor(0, 0, 0, 1);
+      gl.enable(gl.DEPTH_TEST);
+      gl.clear(gl.COLOR_BUFFER_BIT | gl.DEPTH_BUFFER_BIT);
+      if (pointCount === 0) return;
+
+      gl.useProgram(program);
+      gl.bindBuffer(gl.ARRAY_BUFFER, positionBuffer);
+      gl.enableVertexAttribArray(positionLocation);
+      gl.vertexAttribPointer(positionLocation, 3, gl.FLOAT, false, 0, 0);
+      gl.bindBuffer(gl.ARRAY_BUFFER, colorBuffer);
+      gl.enableVertexAttribArray(colorLocation);
+      gl.vertexAttribPointer(colorLocation, 3, gl.UNSIGNED_BYTE, true, 0, 0);
+      gl.uniformMatrix4fv(matrixLocation, false, matrix);
+      gl.uniform1f(pointSizeLocation, 2 * dpr);
+      gl.uniform1f(distanceLocation, distance);
+      gl.drawArrays(gl.POINTS, 0, pointCount);
+    },
+    dispose() {
+      gl.deleteBuffer(positionBuffer);
+      gl.deleteBuffer(colorBuffer);
+      gl.deleteProgram(program);
+    },
+  };
+}
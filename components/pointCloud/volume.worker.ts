@@ -0,0 +1,145 @@
+/**
+ * Hacim hesabı worker'ı
+ * Dosya okuma, üçgenleme ve ızgara örnekleme birkaç yüz bin noktada saniyeler sürebildiğinden
+ * burada yapılır. Önizleme pikselleri kopyalanmadan (transfer) geri gönderilir.
+ */
+import { LasError, readLasHeader, readLasPoints, type LasErrorCode } from '../../shared/pointcloud/las';
+import { readXyzPoints } from '../../shared/pointcloud/xyz';
+import { buildTin, type PointSet, type Tin } from '../../shared/pointcloud/tin';
+import { computeVolume, planeSlopePercent, type VolumeBase, type VolumeBaseKind } from '../../shared/pointcloud/volume';
+import { heightMapPixels } from '../../shared/pointcloud/colors';
+
+/** Yüzey başına okunacak en fazla nokta; fazlası LAS görüntüleyicideki gibi eşit aralıklarla seyreltilir */
+const VOLUME_POINT_BUDGET = 300_000;
+
+export interface VolumeWorkerRequest {
+  surface: Blob;
+  base: { kind: 'elevation'; elevation: number | null } | { kind: 'plane' } | { kind: 'surface'; reference: Blob };
+}
+
+export interface VolumeReport {
+  base: VolumeBaseKind;
+  /** Okunan (seyreltilmiş) nokta sayısı ve dosyadaki toplam */
+  pointCount: number;
+  totalPoints: number;
+  triangleCount: number;
+  above: number;
+  below: number;
+  area: number;
+  /** Yatay tabanın kotu; boş bırakıldıysa en düşük nokta */
+  elevation: number | null;
+  /** En uygun düzlem tabanında ağırlık merkezindeki kot ve eğim (%) */
+  plane: { elevation: number; slopePercent: number } | null;
+  /** İki yüzey arasındaki hesabın ızgara aralığı (m) */
+  gridCellSize: number | null;
+  zRange: [number, number];
+  preview: { width: number; height: number; pixels: Uint8ClampedArray; range: [number, number] };
+}
+
+export type VolumeErrorCode = LasErrorCode | 'collinear' | 'no-overlap' | 'unknown';
+
+export type VolumeWorkerResponse =
+  | { ok: true; report: VolumeReport }
+  | { ok: false; code: VolumeErrorCode; surface: 'surface' | 'reference' };
+
+// DOM ve WebWorker tip kütüphaneleri birlikte yüklenemediğinden yalnızca kullanılan yüzey tanımlanır
+const scope = self as unknown as {
+  onmessage: ((event: MessageEvent<VolumeWorkerRequest>) => void) | null;
+  postMessage(message: VolumeWorkerResponse, transfer?: Transferable[]): void;
+};
+
+class SurfaceError extends Error {
+  constructor(
+    readonly code: VolumeErrorCode,
+    readonly surface: 'surface' | 'reference'
+  ) {
+    super(code);
+  }
+}
+
+/** LAS imzasıyla başlayan dosyalar LAS, diğerleri XYZ/CSV metni olarak okunur */
+async function readSurface(file: Blob, role: 'surface' | 'reference'): Promise<{ tin: Tin; totalPoints: number }> {
+  const buffer = await file.arrayBuffer();
+  const signature = new TextDecoder().decode(buffer.slice(0, 4));
+  let points: PointSet;
+  let totalPoints: number;
+  try {
+    if (signature === 'LASF') {
+      const header = readLasHeader(buffer);
+      const sample = readLasPoints(buffer, header, VOLUME_POINT_BUDGET);
+      const positions = new Float64Array(sample.count * 3);
+      for (let i = 0; i < sample.positions.length; i++) positions[i] = sample.positions[i] + sample.origin[i % 3];
+      points = { count: sample.count, positions };
+      totalPoints = header.pointCount;
+    } else {
+      const xyz = readXyzPoints(new TextDecoder().decode(buffer), VOLUME_POINT_BUDGET);
+      if (xyz === 'empty') throw new SurfaceError('empty', role);
+      points = xyz;
+      totalPoints = xyz.count + xyz.skipped;
+    }
+  } catch (err) {
+    if (err instanceof LasError) throw new SurfaceError(err.code, role);
+    throw err;
+  }
+  const tin = buildTin(points);
+  if (!tin) throw new SurfaceError('collinear', role);
+  return { tin, totalPoints };
+}
+
+function zRange(points: PointSet): [number, number] {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 2; i < points.positions.length; i += 3) {
+    min = Math.min(min, points.positions[i]);
+    max = Math.max(max, points.positions[i]);
+  }
+  return [min, max];
+}
+
+scope.onmessage = async ({ data }) => {
+  try {
+    const { tin, totalPoints } = await readSurface(data.surface, 'surface');
+    const range = zRange(tin.points);
+    const { base } = data;
+    let volumeBase: VolumeBase;
+    if (base.kind === 'surface') {
+      volumeBase = { kind: 'surface', reference: (await readSurface(base.reference, 'reference')).tin };
+    } else if (base.kind === 'plane') {
+      volumeBase = base;
+    } else {
+      volumeBase = { kind: 'elevation', elevation: base.elevation ?? range[0] };
+    }
+    const result = computeVolume(tin, volumeBase);
+    if (!result) {
+      throw base.kind === 'surface' ? new SurfaceError('no-overlap', 'reference') : new SurfaceError('collinear', 'surface');
+    }
+
+    const { pixels, range: previewRange } = heightMapPixels(result.preview.heights);
+    const report: VolumeReport = {
+      base: base.kind,
+      pointCount: tin.points.count,
+      totalPoints,
+      triangleCount: tin.triangles.length / 3,
+      above: result.above,
+      below: result.below,
+      area: result.area,
+      elevation: volumeBase.kind === 'elevation' ? volumeBase.elevation : null,
+      plane: result.plane && volumeBase.kind === 'plane' ? { elevation: result.plane.z0, slopePercent: planeSlopePercent(result.plane) } : null,
+      gridCellSize: result.gridCellSize,
+      zRange: range,
+      preview: {
+        width: result.preview.grid.width,
+        height: result.preview.grid.height,
+        pixels,
+        range: previewRange,
+      },
+    };
+    scope.postMessage({ ok: true, report }, [pixels.buffer]);
+  } catch (err) {
+    if (err instanceof SurfaceError) {
+      scope.postMessage({ ok: false, code: err.code, surface: err.surface });
+    } else {
+      scope.postMessage({ ok: false, code: 'unknown', surface: 'surface' });
+    }
+  }
+};
@@ -0,0 +1,4 @@
+/**
+ * /api/admin/* - talep yönetimi de yalnızca personele açıktır; oturum ve rol denetimi /api/staff/* ile aynıdır
+ */
+export { onRequest } from '../staff/_middleware';
@@ -0,0 +1,24 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import type { AuthEnv, SessionData } from '../../lib/auth';
+import { listAdminLeads, readAdminLeadFilters, readPage } from '../../lib/leadAdmin';
+
+/**
+ * Admin - talep listesi
+ * GET ?status=&subject=&from=&to=&assignee=&q=&page= -> { ok, items, total, page, pageSize }
+ * from/to Türkiye saatiyle YYYY-MM-DD (ikisi de dahil); assignee=none atanmamış talepleri getirir.
+ */
+export const onRequest: PagesFunction<AuthEnv, string, SessionData> = async (context) => {
+  if (context.request.method !== 'GET') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const params = new URL(context.request.url).searchParams;
+  try {
+    const leads = await listAdminLeads(context.env.DB, readAdminLeadFilters(params), readPage(params));
+    return jsonResponse({ ok: true, ...leads }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (err) {
+    console.error('[admin] Talepler listelenemedi', err);
+    return errorResponse(500, 'Talepler listelenemedi');
+  }
+};
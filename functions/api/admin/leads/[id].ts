@@ -0,0 +1,70 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../../lib/http';
+import { findAccountById, type AuthEnv, type SessionData } from '../../../lib/auth';
+import { findAdminLead, updateLead } from '../../../lib/leadAdmin';
+import { enqueueWebhookEvent, leadStatusChangedEvent, processWebhookQueue, type WebhookEnv } from '../../../lib/webhooks';
+import { isLeadStatus } from '../../../../shared/leads';
+
+/**
+ * Admin - tek talep
+ * GET -> { ok, lead }
+ * PATCH { status?, assigneeId? (null: atamayı kaldırır) } -> { ok, lead }; her değişiklik lead_events'e yazılır.
+ * İki alan birlikte uygulanır: talep bu arada başka bir personel tarafından değiştirildiyse hiçbiri yazılmaz,
+ * 409 döner ve panel talebi yeniden yükler.
+ * Durum değişikliği CRM webhook'larına lead.status_changed olarak da gönderilir.
+ */
+export const onRequest: PagesFunction<AuthEnv & WebhookEnv, 'id', SessionData> = async (context) => {
+  const { method } = context.request;
+  if (method !== 'GET' && method !== 'PATCH') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const { DB } = context.env;
+  const lead = await findAdminLead(DB, String(context.params.id));
+  if (!lead) {
+    return errorResponse(404, 'Talep bulunamadı');
+  }
+  if (method === 'GET') {
+    return jsonResponse({ ok: true, lead }, { headers: { 'Cache-Control': 'no-store' } });
+  }
+
+  let body: { status?: unknown; assigneeId?: unknown };
+  try {
+    body = await context.request.json();
+  } catch {
+    return errorResponse(400, 'Geçersiz istek gövdesi');
+  }
+
+  if (body?.status !== undefined && !isLeadStatus(body.status)) {
+    return errorResponse(400, 'Geçersiz durum');
+  }
+  if (body?.assigneeId !== undefined && body.assigneeId !== null) {
+    const assignee = typeof body.assigneeId === 'string' ? await findAccountById(DB, body.assigneeId) : null;
+    if (assignee?.role !== 'staff') {
+      return errorResponse(400, 'Talep yalnızca personele atanabilir');
+    }
+  }
+
+  const { account } = context.data.session;
+  const status = isLeadStatus(body?.status) ? body.status : undefined;
+  try {
+    // Durum ve atama tek batch'te yazılır; biri çakışırsa ikisi de uygulanmaz
+    const current = { status: lead.status, assigneeId: lead.assignee?.id ?? null };
+    const changes = { status, assigneeId: body?.assigneeId as string | null | undefined };
+    if (!(await updateLead(DB, lead.id, current, changes, account.id))) {
+      return errorResponse(409, 'Talep başka biri tarafından güncellendi');
+    }
+    if (status !== undefined && status !== lead.status) {
+      await enqueueWebhookEvent(
+        context.env,
+        leadStatusChangedEvent(lead, lead.status, status, { id: account.id, name: account.name, email: account.email })
+      ).catch((err) => console.error('[admin] Webhook kuyruğa alınamadı', lead.id, err));
+      context.waitUntil(processWebhookQueue(context.env).catch((err) => console.error('[admin] Webhook kuyruğu işlenemedi', err)));
+    }
+  } catch (err) {
+    console.error('[admin] Talep güncellenemedi', lead.id, err);
+    return errorResponse(500, 'Talep güncellenemedi');
+  }
+
+  return jsonResponse({ ok: true, lead: await findAdminLead(DB, lead.id) });
+};
@@ -0,0 +1,18 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../../../lib/http';
+import type { AuthEnv, SessionData } from '../../../../lib/auth';
+import { listLeadActivity, readPage } from '../../../../lib/leadAdmin';
+
+/**
+ * Admin - talep geçmişi
+ * GET ?page= -> { ok, items, total, page, pageSize }; notlar, durum değişiklikleri ve atamalar, en yeni önce
+ */
+export const onRequest: PagesFunction<AuthEnv, 'id', SessionData> = async (context) => {
+  if (context.request.method !== 'GET') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const page = readPage(new URL(context.request.url).searchParams);
+  const activity = await listLeadActivity(context.env.DB, String(context.params.id), page);
+  return jsonResponse({ ok: true, ...activity }, { headers: { 'Cache-Control': 'no-store' } });
+};
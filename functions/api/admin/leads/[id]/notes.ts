@@ -0,0 +1,35 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../../../lib/http';
+import type { AuthEnv, SessionData } from '../../../../lib/auth';
+import { addLeadNote, findAdminLead } from '../../../../lib/leadAdmin';
+import { LEAD_NOTE_MAX_LENGTH } from '../../../../../shared/leads';
+
+/**
+ * Admin - talebe iç not
+ * POST { body } -> { ok }; notlar yalnızca personele görünür, silinmez ve düzenlenmez
+ */
+export const onRequest: PagesFunction<AuthEnv, 'id', SessionData> = async (context) => {
+  if (context.request.method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  let payload: { body?: unknown };
+  try {
+    payload = await context.request.json();
+  } catch {
+    return errorResponse(400, 'Geçersiz istek gövdesi');
+  }
+  const body = typeof payload?.body === 'string' ? payload.body.trim() : '';
+  if (!body || body.length > LEAD_NOTE_MAX_LENGTH) {
+    return errorResponse(400, `Not boş olamaz ve en fazla ${LEAD_NOTE_MAX_LENGTH} karakter olabilir`);
+  }
+
+  const { DB } = context.env;
+  const lead = await findAdminLead(DB, String(context.params.id));
+  if (!lead) {
+    return errorResponse(404, 'Talep bulunamadı');
+  }
+
+  await addLeadNote(DB, lead.id, context.data.session.account.id, body);
+  return jsonResponse({ ok: true }, { status: 201 });
+};
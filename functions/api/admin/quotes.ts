@@ -0,0 +1,63 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import type { AuthEnv, SessionData } from '../../lib/auth';
+import { findAdminLead } from '../../lib/leadAdmin';
+import { createQuote, findQuote, listLeadQuotes } from '../../lib/quotes';
+import { quoteDayKey, validateQuoteInput } from '../../../shared/quotes';
+import { readLocale } from '../../../shared/i18n';
+
+/**
+ * Admin - fiyat teklifleri
+ * GET ?lead= -> { ok, quotes }; talebe bağlı teklifler, yeniden eskiye
+ * POST { leadId?, customer, items, vatRate, validUntil, terms, locale } -> 201 { ok, quote }
+ * Kaydedilen teklif değişmez; toplamlar sunucuda shared/quotes ile yeniden hesaplanır, istemcinin toplamına güvenilmez.
+ */
+export const onRequest: PagesFunction<AuthEnv, string, SessionData> = async (context) => {
+  const { method } = context.request;
+  if (method !== 'GET' && method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const { DB } = context.env;
+  if (method === 'GET') {
+    const leadId = new URL(context.request.url).searchParams.get('lead');
+    if (!leadId) {
+      return errorResponse(400, 'Talep numarası gerekli');
+    }
+    const quotes = await listLeadQuotes(DB, leadId);
+    return jsonResponse({ ok: true, quotes }, { headers: { 'Cache-Control': 'no-store' } });
+  }
+
+  let body: Record<string, unknown>;
+  try {
+    body = await context.request.json();
+  } catch {
+    return errorResponse(400, 'Geçersiz istek gövdesi');
+  }
+
+  const validation = validateQuoteInput(body, quoteDayKey(new Date()));
+  if (validation.ok === false) {
+    return errorResponse(400, validation.error);
+  }
+
+  let leadId: string | null = null;
+  if (body?.leadId !== undefined && body.leadId !== null) {
+    const lead = typeof body.leadId === 'string' ? await findAdminLead(DB, body.leadId) : null;
+    if (!lead) {
+      return errorResponse(404, 'Talep bulunamadı');
+    }
+    leadId = lead.id;
+  }
+
+  try {
+    const id = await createQuote(
+      DB,
+      { ...validation.data, leadId, locale: readLocale(body?.locale) },
+      context.data.session.account.id
+    );
+    return jsonResponse({ ok: true, quote: await findQuote(DB, id) }, { status: 201 });
+  } catch (err) {
+    console.error('[quotes] Teklif kaydedilemedi', leadId, err);
+    return errorResponse(500, 'Teklif kaydedilemedi');
+  }
+};
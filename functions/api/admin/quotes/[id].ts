@@ -0,0 +1,20 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../../lib/http';
+import type { AuthEnv, SessionData } from '../../../lib/auth';
+import { findQuote } from '../../../lib/quotes';
+
+/**
+ * Admin - tek teklif
+ * GET -> { ok, quote }
+ */
+export const onRequest: PagesFunction<AuthEnv, 'id', SessionData> = async (context) => {
+  if (context.request.method !== 'GET') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const quote = await findQuote(context.env.DB, String(context.params.id));
+  if (!quote) {
+    return errorResponse(404, 'Teklif bulunamadı');
+  }
+  return jsonResponse({ ok: true, quote }, { headers: { 'Cache-Control': 'no-store' } });
+};
@@ -0,0 +1,28 @@
+import type { PagesFunction, Response as CfResponse } from '@cloudflare/workers-types';
+import { errorResponse } from '../../../../lib/http';
+import type { AuthEnv, SessionData } from '../../../../lib/auth';
+import { findQuote } from '../../../../lib/quotes';
+import { quotePdfFileName, renderQuotePdf } from '../../../../lib/quotePdf';
+
+/**
+ * Admin - teklif PDF'i
+ * GET -> application/pdf; tarayıcıda açılır (inline), kayıttan her seferinde yeniden üretilir
+ */
+export const onRequest: PagesFunction<AuthEnv, 'id', SessionData> = async (context) => {
+  if (context.request.method !== 'GET') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const quote = await findQuote(context.env.DB, String(context.params.id));
+  if (!quote) {
+    return errorResponse(404, 'Teklif bulunamadı');
+  }
+
+  return new Response(renderQuotePdf(quote), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `inline; filename="${quotePdfFileName(quote)}"`,
+      'Cache-Control': 'no-store',
+    },
+  }) as unknown as CfResponse;
+};
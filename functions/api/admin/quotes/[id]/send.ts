@@ -0,0 +1,88 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { sendMailgunEmail } from '../../../mailgun';
+import { renderEmail } from '../../../../email';
+import { jsonResponse, errorResponse } from '../../../../lib/http';
+import type { AuthEnv, SessionData } from '../../../../lib/auth';
+import { findAdminLead, updateLeadStatus } from '../../../../lib/leadAdmin';
+import { findQuote, markQuoteSent } from '../../../../lib/quotes';
+import { quotePdfFileName, renderQuotePdf } from '../../../../lib/quotePdf';
+import { enqueueWebhookEvent, leadStatusChangedEvent, processWebhookQueue, type WebhookEnv } from '../../../../lib/webhooks';
+import { getMessages } from '../../../../../shared/i18n';
+import type { LeadStatus } from '../../../../../shared/leads';
+
+/**
+ * Admin - teklifi müşteriye e-postayla gönderir
+ * POST -> { ok, quote }; PDF ekte gider, yanıtlar teklifi gönderen personele düşer.
+ * Yeniden gönderilebilir. Bağlı talep henüz teklif aşamasına gelmediyse "Teklif verildi"ye taşınır.
+ */
+type Env = AuthEnv &
+  WebhookEnv & {
+    MAILGUN_API_KEY: string;
+    MAILGUN_DOMAIN: string;
+    MAIL_TRANSPORT?: 'mailgun' | 'console';
+  };
+
+// Bu durumlardaki talep teklif gönderilince ilerletilir; kazanılmış/kaybedilmiş talebin durumuna dokunulmaz
+const ADVANCE_FROM: LeadStatus[] = ['new', 'called'];
+
+export const onRequest: PagesFunction<Env, 'id', SessionData> = async (context) => {
+  if (context.request.method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const { DB } = context.env;
+  const quote = await findQuote(DB, String(context.params.id));
+  if (!quote) {
+    return errorResponse(404, 'Teklif bulunamadı');
+  }
+
+  const { account } = context.data.session;
+  const messages = getMessages(quote.locale);
+  const result = await sendMailgunEmail(context.env, {
+    to: quote.customer.email,
+    from: 'contact@notify.hekamap.com',
+    replyTo: account.email,
+    // Çift tıklama aynı gönderimi tekrarlamaz; gönderildikten sonra sent_at değiştiği için yeniden gönderim mümkündür
+    idempotencyKey: `quote:${quote.id}:${quote.sentAt ?? 'first'}`,
+    attachments: [
+      {
+        filename: quotePdfFileName(quote),
+        data: new Blob([renderQuotePdf(quote)], { type: 'application/pdf' }),
+        contentType: 'application/pdf',
+      },
+    ],
+    ...renderEmail(
+      'quoteDocument',
+      {
+        quoteId: quote.id,
+        name: quote.customer.name,
+        services: quote.items.map((item) => messages.quotes.services[String(item.serviceId) as keyof typeof messages.quotes.services]),
+        total: quote.total,
+        vatRate: quote.vatRate,
+        validUntil: quote.validUntil,
+        senderName: account.name || 'HEKAMAP',
+      },
+      quote.locale
+    ),
+  });
+  if (!result.ok) {
+    console.error('[quotes] Teklif gönderilemedi', quote.id, result.error);
+    return errorResponse(502, 'Teklif gönderilemedi');
+  }
+
+  await markQuoteSent(DB, quote.id, result.messageId);
+
+  const lead = quote.leadId ? await findAdminLead(DB, quote.leadId) : null;
+  if (lead && ADVANCE_FROM.includes(lead.status)) {
+    // Panelde aynı anda değiştirildiyse (409 durumu) personelin seçimi korunur
+    if (await updateLeadStatus(DB, lead.id, lead.status, 'quoted', account.id)) {
+      await enqueueWebhookEvent(
+        context.env,
+        leadStatusChangedEvent(lead, lead.status, 'quoted', { id: account.id, name: account.name, email: account.email })
+      ).catch((err) => console.error('[quotes] Webhook kuyruğa alınamadı', lead.id, err));
+      context.waitUntil(processWebhookQueue(context.env).catch((err) => console.error('[quotes] Webhook kuyruğu işlenemedi', err)));
+    }
+  }
+
+  return jsonResponse({ ok: true, quote: await findQuote(DB, quote.id) });
+};
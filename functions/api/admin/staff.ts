@@ -0,0 +1,16 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import { listStaffAccounts, type AuthEnv, type SessionData } from '../../lib/auth';
+
+/**
+ * Admin - personel listesi
+ * GET -> { ok, staff: StaffMember[] }; atama seçimi ve "sorumlu" süzgeci için
+ */
+export const onRequest: PagesFunction<AuthEnv, string, SessionData> = async (context) => {
+  if (context.request.method !== 'GET') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const staff = await listStaffAccounts(context.env.DB);
+  return jsonResponse({ ok: true, staff }, { headers: { 'Cache-Control': 'no-store' } });
+};
@@ -0,0 +1,23 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import type { AuthEnv, SessionData } from '../../lib/auth';
+import { readPage } from '../../lib/leadAdmin';
+import { listWebhookDeliveries, type WebhookDeliveryStatus } from '../../lib/webhooks';
+
+const STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivered', 'dead'];
+
+/**
+ * Admin - CRM webhook teslimatları
+ * GET ?status=pending|delivered|dead&page= -> { ok, items, total, page, pageSize }
+ * status=dead ölü mektup listesidir; satır POST /api/admin/webhooks/:id/retry ile yeniden kuyruğa alınır.
+ */
+export const onRequest: PagesFunction<AuthEnv, string, SessionData> = async (context) => {
+  if (context.request.method !== 'GET') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const params = new URL(context.request.url).searchParams;
+  const status = STATUSES.find((value) => value === params.get('status')) ?? null;
+  const deliveries = await listWebhookDeliveries(context.env.DB, status, readPage(params));
+  return jsonResponse({ ok: true, ...deliveries }, { headers: { 'Cache-Control': 'no-store' } });
+};
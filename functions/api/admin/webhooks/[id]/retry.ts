@@ -0,0 +1,22 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../../../lib/http';
+import type { AuthEnv, SessionData } from '../../../../lib/auth';
+import { processWebhookQueue, requeueDeadDelivery, type WebhookEnv } from '../../../../lib/webhooks';
+
+/**
+ * Admin - ölü mektubu yeniden kuyruğa alır
+ * POST -> { ok }; deneme sayacı sıfırlanır ve kuyruk hemen işlenir. Yalnızca dead teslimatlar alınabilir.
+ */
+export const onRequest: PagesFunction<AuthEnv & WebhookEnv, 'id', SessionData> = async (context) => {
+  if (context.request.method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const id = Number(context.params.id);
+  if (!Number.isInteger(id) || !(await requeueDeadDelivery(context.env.DB, id))) {
+    return errorResponse(404, 'Ölü mektup bulunamadı');
+  }
+
+  context.waitUntil(processWebhookQueue(context.env).catch((err) => console.error('[admin] Webhook kuyruğu işlenemedi', err)));
+  return jsonResponse({ ok: true });
+};
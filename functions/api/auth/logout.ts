@@ -0,0 +1,23 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import { clearedSessionCookie, getRequestSession, isSameOriginRequest, revokeSession, type AuthEnv } from '../../lib/auth';
+
+/**
+ * Client portal logout - çerez gerekli
+ * POST -> mevcut oturumu veritabanında kapatır ve çerezi siler.
+ * Oturum zaten geçersizse de çerez silinir ve başarı döner; çıkış her zaman tamamlanmalı.
+ */
+export const onRequest: PagesFunction<AuthEnv> = async (context) => {
+  if (context.request.method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+  if (!isSameOriginRequest(context.request)) {
+    return errorResponse(403, 'Forbidden');
+  }
+
+  const session = await getRequestSession(context.env, context.request);
+  if (session) {
+    await revokeSession(context.env.DB, session.account.id, session.sessionId);
+  }
+  return jsonResponse({ ok: true }, { headers: { 'Set-Cookie': clearedSessionCookie() } });
+};
@@ -0,0 +1,105 @@
+import type { D1Database, KVNamespace, PagesFunction } from '@cloudflare/workers-types';
+import { sendMailgunEmail } from '../mailgun';
+import { isValidEmail } from '../../../shared/contact';
+import { LOGIN_LINK_TTL_MINUTES, safeNextPath } from '../../../shared/auth';
+import { DEFAULT_LOCALE, getMessages, localizePath, readLocale, type Locale } from '../../../shared/i18n';
+import { renderEmail } from '../../email';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import { getKeyValueStore } from '../../lib/kv';
+import { checkRateLimits, getClientIp, type RateLimitRule } from '../../lib/rateLimit';
+import { createLoginToken, findOrProvisionAccount, isSameOriginRequest } from '../../lib/auth';
+
+/**
+ * Client portal login - public
+ * POST { email, locale?, next? } -> e-postaya tek kullanımlık giriş bağlantısı (auth@notify.hekamap.com)
+ * Adresin hesabı olup olmadığı yanıttan anlaşılmaz; bağlantı yalnızca talep bırakmış adreslere gider.
+ * Bu yüzden hesap araması ve gönderim yanıttan sonra (waitUntil) yapılır: yanıt da süresi de her adres için
+ * aynıdır, gönderim hataları yalnızca sunucu günlüğüne yazılır.
+ * Bağlantı doğrudan API'ye değil /giris sayfasına açılır: e-posta tarayıcılarının ön izleme istekleri
+ * (GET) belirteci tüketmesin diye doğrulama sayfadaki POST ile yapılır.
+ */
+type Env = {
+  MAILGUN_API_KEY: string;
+  MAILGUN_DOMAIN: string;
+  MAIL_TRANSPORT?: 'mailgun' | 'console';
+  KV?: KVNamespace;
+  DB: D1Database;
+  SESSION_SECRET?: string;
+};
+
+const IP_RATE_LIMIT: RateLimitRule = { name: 'auth:ip', limit: 10, windowSeconds: 15 * 60 };
+const EMAIL_RATE_LIMIT: RateLimitRule = { name: 'auth:email', limit: 3, windowSeconds: 15 * 60 };
+
+async function sendLoginLink(env: Env, requestUrl: string, email: string, locale: Locale, next: string | null): Promise<void> {
+  try {
+    const found = await findOrProvisionAccount(env.DB, email, locale);
+    if (!found) {
+      console.warn('[auth] Login link requested for unknown address');
+      return;
+    }
+
+    const token = await createLoginToken(env.DB, found.account.id);
+    const loginUrl = new URL(localizePath('/giris', locale), requestUrl);
+    loginUrl.searchParams.set('token', token);
+    if (next) loginUrl.searchParams.set('next', next);
+
+    // Varsayılan gönderici auth@notify.hekamap.com
+    const result = await sendMailgunEmail(env, {
+      to: found.account.email,
+      ...renderEmail(
+        'magicLink',
+        { name: found.account.name || undefined, loginUrl: loginUrl.toString(), expiresInMinutes: LOGIN_LINK_TTL_MINUTES },
+        locale
+      ),
+    });
+    if (!result.ok) {
+      console.error('[auth] Login link email failed:', result.error);
+    }
+  } catch (err) {
+    console.error('[auth] Login link exception:', err);
+  }
+}
+
+export const onRequest: PagesFunction<Env> = async (context) => {
+  if (context.request.method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+  if (!isSameOriginRequest(context.request)) {
+    return errorResponse(403, 'Forbidden');
+  }
+
+  let body: { email?: unknown; locale?: unknown; next?: unknown };
+  try {
+    body = await context.request.json();
+  } catch {
+    return errorResponse(400, getMessages(DEFAULT_LOCALE).validation.invalidBody);
+  }
+  const locale = readLocale(body?.locale);
+  const messages = getMessages(locale);
+
+  // Çerez imzalanamıyorsa bağlantı gönderilmez; kullanıcı tıklayıp hata almasın
+  if (!context.env.SESSION_SECRET) {
+    console.error('[auth] SESSION_SECRET is not configured');
+    return errorResponse(503, messages.auth.unavailable);
+  }
+
+  const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : '';
+  if (!isValidEmail(email)) {
+    return errorResponse(400, messages.validation.emailInvalid);
+  }
+
+  const rateLimit = await checkRateLimits(getKeyValueStore(context.env.KV), [
+    { rule: IP_RATE_LIMIT, identifier: getClientIp(context.request) },
+    { rule: EMAIL_RATE_LIMIT, identifier: email },
+  ]);
+  if (rateLimit.allowed === false) {
+    console.warn('[auth] Rate limited:', rateLimit.rule);
+    return jsonResponse(
+      { ok: false, error: messages.validation.rateLimited, retryAfter: rateLimit.retryAfter },
+      { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfter) } }
+    );
+  }
+
+  context.waitUntil(sendLoginLink(context.env, context.request.url, email, locale, safeNextPath(body.next)));
+  return jsonResponse({ ok: true });
+};
@@ -0,0 +1,20 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { getMessages, readLocale } from '../../../shared/i18n';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import { getRequestSession, type AuthEnv } from '../../lib/auth';
+
+/**
+ * Client portal session - çerez gerekli
+ * GET ?locale= -> { ok, account } ya da 401. Çerez HttpOnly olduğundan tarayıcı oturumu buradan öğrenir.
+ */
+export const onRequest: PagesFunction<AuthEnv> = async (context) => {
+  if (context.request.method !== 'GET') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const session = await getRequestSession(context.env, context.request);
+  if (!session) {
+    return errorResponse(401, getMessages(readLocale(new URL(context.request.url).searchParams.get('locale'))).auth.notSignedIn);
+  }
+  return jsonResponse({ ok: true, account: session.account }, { headers: { 'Cache-Control': 'no-store' } });
+};
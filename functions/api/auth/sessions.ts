@@ -0,0 +1,60 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { getMessages, readLocale } from '../../../shared/i18n';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import {
+  getRequestSession,
+  isSameOriginRequest,
+  listSessions,
+  revokeOtherSessions,
+  revokeSession,
+  type AuthEnv,
+} from '../../lib/auth';
+
+/**
+ * Client portal sessions - çerez gerekli
+ * GET -> hesabın açık oturumları
+ * POST { sessionId } -> o oturumu kapatır; POST { others: true } -> mevcut oturum dışındakileri kapatır
+ * Hata mesajlarının dili ?locale= sorgu parametresinden alınır.
+ * Mevcut oturumu kapatmak için /api/auth/logout kullanılır (çerezin de silinmesi gerekir).
+ */
+export const onRequest: PagesFunction<AuthEnv> = async (context) => {
+  const { method } = context.request;
+  if (method !== 'GET' && method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const messages = getMessages(readLocale(new URL(context.request.url).searchParams.get('locale')));
+
+  const session = await getRequestSession(context.env, context.request);
+  if (!session) {
+    return errorResponse(401, messages.auth.notSignedIn);
+  }
+  const { DB } = context.env;
+
+  if (method === 'GET') {
+    const sessions = await listSessions(DB, session.account.id, session.sessionId);
+    return jsonResponse({ ok: true, sessions }, { headers: { 'Cache-Control': 'no-store' } });
+  }
+
+  if (!isSameOriginRequest(context.request)) {
+    return errorResponse(403, 'Forbidden');
+  }
+  let body: { sessionId?: unknown; others?: unknown };
+  try {
+    body = await context.request.json();
+  } catch {
+    return errorResponse(400, messages.validation.invalidBody);
+  }
+
+  if (body?.others === true) {
+    const revoked = await revokeOtherSessions(DB, session.account.id, session.sessionId);
+    return jsonResponse({ ok: true, revoked });
+  }
+  if (typeof body?.sessionId !== 'string' || body.sessionId === session.sessionId) {
+    return errorResponse(400, messages.auth.sessionInvalid);
+  }
+  if (!(await revokeSession(DB, session.account.id, body.sessionId))) {
+    return errorResponse(404, messages.auth.sessionNotFound);
+  }
+  return jsonResponse({ ok: true, revoked: 1 });
+};
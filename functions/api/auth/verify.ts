@@ -0,0 +1,67 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { DEFAULT_LOCALE, getMessages, readLocale } from '../../../shared/i18n';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import { getClientIp } from '../../lib/rateLimit';
+import { hashClientIp } from '../../lib/leads';
+import {
+  consumeLoginToken,
+  createSession,
+  isSameOriginRequest,
+  sessionCookie,
+  signSessionToken,
+  type AuthEnv,
+} from '../../lib/auth';
+
+/**
+ * Client portal login - public
+ * POST { token, locale? } -> giriş bağlantısındaki belirteci tüketir, oturum açar ve imzalı HttpOnly çerezi yazar
+ * Geçersiz, süresi dolmuş ve kullanılmış bağlantılar aynı 401 yanıtını alır.
+ */
+type Env = AuthEnv & {
+  IP_HASH_SALT?: string;
+};
+
+export const onRequest: PagesFunction<Env> = async (context) => {
+  if (context.request.method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+  if (!isSameOriginRequest(context.request)) {
+    return errorResponse(403, 'Forbidden');
+  }
+
+  let body: { token?: unknown; locale?: unknown };
+  try {
+    body = await context.request.json();
+  } catch {
+    return errorResponse(400, getMessages(DEFAULT_LOCALE).validation.invalidBody);
+  }
+  const messages = getMessages(readLocale(body?.locale));
+
+  const secret = context.env.SESSION_SECRET;
+  if (!secret) {
+    console.error('[auth] SESSION_SECRET is not configured');
+    return errorResponse(503, messages.auth.unavailable);
+  }
+  if (typeof body?.token !== 'string' || !/^[A-Za-z0-9_-]{20,100}$/.test(body.token)) {
+    return errorResponse(401, messages.auth.linkInvalid);
+  }
+
+  try {
+    const account = await consumeLoginToken(context.env.DB, body.token);
+    if (!account) {
+      return errorResponse(401, messages.auth.linkInvalid);
+    }
+
+    const session = await createSession(context.env.DB, account.id, {
+      ipHash: await hashClientIp(getClientIp(context.request), context.env.IP_HASH_SALT),
+      userAgent: context.request.headers.get('User-Agent') || '',
+    });
+    return jsonResponse(
+      { ok: true, account },
+      { headers: { 'Set-Cookie': sessionCookie(await signSessionToken(secret, session.token), session.maxAge) } }
+    );
+  } catch (err) {
+    console.error('[auth] Verify exception:', err);
+    return errorResponse(500, messages.auth.failed);
+  }
+};
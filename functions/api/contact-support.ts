@@ -1,91 +1,208 @@
-import type { PagesFunction, Response as CfResponse } from '@cloudflare/workers-types';
-import { sendMailgunEmail } from './mailgun';
+import type { D1Database, KVNamespace, PagesFunction } from '@cloudflare/workers-types';
+import { sendMailgunEmail, type EmailAttachment } from './mailgun';
+import { detectSpam, readSpamSignals, readSubmissionId, validateContactPayload } from '../../shared/contact';
+import { validateAttachments } from '../../shared/attachments';
+import { isBoundaryFileName, parseBoundaryFile } from '../../shared/geo/boundary';
+import { DEFAULT_LOCALE, getMessages, readLocale } from '../../shared/i18n';
+import { renderEmail } from '../email';
+import type { LeadBoundary } from '../email/templates/leadNotification';
+import { jsonResponse, errorResponse } from '../lib/http';
+import { getKeyValueStore } from '../lib/kv';
+import { checkRateLimits, getClientIp, type RateLimitRule } from '../lib/rateLimit';
+import { createLead, hashClientIp, markLeadEmailFailed, markLeadEmailSent } from '../lib/leads';
+import { enqueueWebhookEvent, leadCreatedEvent, processWebhookQueue, type WebhookEnv } from '../lib/webhooks';
 
 /**
  * Contact support endpoint - public, no authentication required
  * Sends email directly to halit@hekamap.com via Mailgun
  * Uses contact@notify.hekamap.com as sender (different from auth@ for account/password emails)
+ * Every submission is stored in D1 (leads) before the email is attempted, so a Mailgun outage never loses an enquiry
+ * The submitter also receives an acknowledgment with their reference number (best effort)
+ * Accepts JSON or multipart/form-data; multipart "attachments" files are forwarded to Mailgun
+ * The optional "locale" field (tr/en) selects the language of validation errors and the acknowledgment
+ * New leads are also queued as a lead.created event for the CRM webhooks (functions/lib/webhooks.ts)
  */
-type Env = {
+type Env = WebhookEnv & {
   MAILGUN_API_KEY: string;
   MAILGUN_DOMAIN: string;
+  MAIL_TRANSPORT?: 'mailgun' | 'console';
   SUPPORT_EMAIL?: string;
+  KV?: KVNamespace; // Rate limit durumu; yoksa bellek içi depo kullanılır
+  DB: D1Database;
+  IP_HASH_SALT?: string;
 };
 
+// Tek bir IP'den kısa sürede çok sayıda gönderim ve aynı adrese tekrar tekrar yazılmasını engeller
+const IP_RATE_LIMIT: RateLimitRule = { name: 'contact:ip', limit: 5, windowSeconds: 10 * 60 };
+const EMAIL_RATE_LIMIT: RateLimitRule = { name: 'contact:email', limit: 3, windowSeconds: 60 * 60 };
+
+/**
+ * Gövdeyi içerik tipine göre okur. Multipart'ta metin alanları body'ye, dosyalar files'a ayrılır.
+ */
+async function readContactRequest(request: Request): Promise<{ body: Record<string, unknown>; files: File[] }> {
+  const contentType = request.headers.get('Content-Type') || '';
+  if (!contentType.includes('multipart/form-data')) {
+    const json = await request.json();
+    return { body: json && typeof json === 'object' ? (json as Record<string, unknown>) : {}, files: [] };
+  }
+
+  const formData = await request.formData();
+  const body: Record<string, unknown> = {};
+  const files: File[] = [];
+  formData.forEach((value, key) => {
+    if (typeof value === 'string') {
+      body[key] = value;
+    } else if (key === 'attachments' && value.size > 0) {
+      files.push(value);
+    }
+  });
+  return { body, files };
+}
+
+/**
+ * Sınır dosyası olabilecek ekleri okur; ekip bildirimde alanı ve olası sorunları dosyayı açmadan görür.
+ * Okunamayan dosya talebi reddettirmez, hata bildirime yazılır.
+ */
+async function summarizeBoundaries(files: File[]): Promise<LeadBoundary[]> {
+  const boundaries: LeadBoundary[] = [];
+  for (const file of files.filter((f) => isBoundaryFileName(f.name))) {
+    try {
+      const result = await parseBoundaryFile(file.name, await file.arrayBuffer());
+      boundaries.push(
+        result.ok === false ? { fileName: file.name, error: result.error } : { fileName: file.name, summary: result.summary }
+      );
+    } catch (err: any) {
+      console.error('[contact-support] Boundary parse failed:', file.name, err);
+      boundaries.push({ fileName: file.name, error: getMessages(DEFAULT_LOCALE).estimator.errors.fileUnreadable });
+    }
+  }
+  return boundaries;
+}
+
 export const onRequest: PagesFunction<Env> = async (context) => {
   if (context.request.method !== 'POST') {
-    return new Response('Method Not Allowed', { status: 405 }) as unknown as CfResponse;
+    return errorResponse(405, 'Method Not Allowed');
   }
 
-  let body: any;
+  let body: Record<string, unknown>;
+  let files: File[];
   try {
-    body = await context.request.json();
+    ({ body, files } = await readContactRequest(context.request as unknown as Request));
   } catch {
-    return new Response('Bad Request', { status: 400 }) as unknown as CfResponse;
+    return errorResponse(400, getMessages(DEFAULT_LOCALE).validation.invalidBody);
   }
+  const locale = readLocale(body.locale);
+  const m = getMessages(locale).validation;
 
-  const { firstName, lastName, email, phone, subject, message } = body || {};
-  if (!email || !message) {
-    return new Response('email and message required', { status: 400 }) as unknown as CfResponse;
+  // Ekler istemcide de kontrol edilir; burada kurallar sunucu tarafında tekrar uygulanır
+  const attachmentError = validateAttachments(files, locale);
+  if (attachmentError) {
+    return errorResponse(400, attachmentError, { fieldErrors: { attachments: attachmentError } });
   }
 
+  // Şema ContactModal ile paylaşılır; alan bazlı hatalar formda ilgili input'un altında gösterilir
+  const validation = validateContactPayload(body, locale);
+  if (validation.ok === false) {
+    return errorResponse(400, m.checkFields, { fieldErrors: validation.errors });
+  }
+  const { email } = validation.data;
+
+  // Bot'a reddedildiğini belli etmemek için sahte başarı döndürülür, e-posta gönderilmez
+  const spamReason = detectSpam(readSpamSignals(body));
+  if (spamReason) {
+    console.warn('[contact-support] Spam blocked:', spamReason);
+    return jsonResponse({ ok: true });
+  }
+
+  const clientIp = getClientIp(context.request);
+  const rateLimit = await checkRateLimits(getKeyValueStore(context.env.KV), [
+    { rule: IP_RATE_LIMIT, identifier: clientIp },
+    { rule: EMAIL_RATE_LIMIT, identifier: email },
+  ]);
+  if (rateLimit.allowed === false) {
+    console.warn('[contact-support] Rate limited:', rateLimit.rule);
+    return jsonResponse(
+      { ok: false, error: m.rateLimited, retryAfter: rateLimit.retryAfter },
+      { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfter) } }
+    );
+  }
+
+  let leadId: string;
+  try {
+    const { lead, created } = await createLead(
+      context.env.DB,
+      validation.data,
+      {
+        ipHash: await hashClientIp(clientIp, context.env.IP_HASH_SALT),
+        submissionId: readSubmissionId(body),
+        attachments: files,
+        locale,
+      }
+    );
+    leadId = lead.id;
+    // Tekrarlanan gönderim yeni talep açmadığı için CRM'e ikinci kez bildirilmez
+    if (created) {
+      await enqueueWebhookEvent(context.env, leadCreatedEvent(lead)).catch((err) =>
+        console.error('[contact-support] Webhook enqueue failed:', leadId, err)
+      );
+    }
+  } catch (err: any) {
+    console.error('[contact-support] Lead insert failed:', err);
+    return errorResponse(500, m.saveFailed);
+  }
+
+  // CRM'e gönderim yanıtı bekletmez; başarısız olursa kuyruk sonraki çalıştırmada yeniden dener
+  context.waitUntil(
+    processWebhookQueue(context.env).catch((err) => console.error('[contact-support] Webhook queue failed:', err))
+  );
+
   // Anasayfa formu direkt halit@hekamap.com'a gönderilir
   // destek@hekamap.com community yapısı kurulduğunda kullanılacak (şimdilik kullanılmıyor)
   const contactEmail = 'halit@hekamap.com';
 
-  // Sanitize input to prevent XSS
-  const sanitize = (str: string | undefined) => (str || '—').toString().replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const boundaries = await summarizeBoundaries(files);
 
   try {
     const emailResult = await sendMailgunEmail(context.env, {
       to: contactEmail,
       from: 'contact@notify.hekamap.com',
       replyTo: email,
-      subject: `İletişim Formu: ${subject || 'Genel'}`,
-      html: `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2 style="color: #10b981;">Yeni Proje Talebi</h2>
-          <div style="background: #f3f4f6; padding: 16px; border-radius: 8px; margin: 20px 0;">
-            <p style="margin: 0;"><strong>Ad:</strong> ${sanitize(firstName)}</p>
-            <p style="margin: 8px 0 0 0;"><strong>Soyad:</strong> ${sanitize(lastName)}</p>
-            <p style="margin: 8px 0 0 0;"><strong>E-posta:</strong> ${sanitize(email)}</p>
-            <p style="margin: 8px 0 0 0;"><strong>Telefon:</strong> ${sanitize(phone)}</p>
-            <p style="margin: 8px 0 0 0;"><strong>Konu:</strong> ${sanitize(subject || 'Genel')}</p>
-          </div>
-          <div style="background: white; padding: 16px; border: 1px solid #e5e7eb; border-radius: 8px; margin: 20px 0;">
-            <h3 style="margin-top: 0;">Mesaj:</h3>
-            <p style="white-space: pre-wrap;">${sanitize(message)}</p>
-          </div>
-          <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 24px 0;">
-          <p style="color: #6b7280; font-size: 12px;">Bu e-posta HekaMap web sitesinden gönderilmiştir.</p>
-        </div>
-      `,
-      text: `Yeni Proje Talebi\n\nAd: ${firstName || '—'}\nSoyad: ${lastName || '—'}\nE-posta: ${email}\nTelefon: ${phone || '—'}\nKonu: ${subject || 'Genel'}\n\nMesaj:\n${message}`,
+      idempotencyKey: `${leadId}:notification`,
+      attachments: files.map(
+        (file): EmailAttachment => ({ filename: file.name, data: file, contentType: file.type || undefined })
+      ),
+      ...renderEmail('leadNotification', { ...validation.data, leadId, locale, attachments: files, boundaries }),
     });
 
-    if (!emailResult.ok) {
+    if (emailResult.ok) {
+      await markLeadEmailSent(context.env.DB, leadId, emailResult.messageId);
+    } else {
       console.error('[contact-support] Mailgun error:', emailResult.error);
-      return new Response(
-        JSON.stringify({ ok: false, error: emailResult.error || 'Email gönderilemedi' }),
-        {
-          status: 500,
-          headers: { 'Content-Type': 'application/json' },
-        }
-      ) as unknown as CfResponse;
+      await markLeadEmailFailed(context.env.DB, leadId, emailResult.error || 'Email gönderilemedi');
     }
-
-    return new Response(
-      JSON.stringify({ ok: true, messageId: emailResult.messageId }),
-      { headers: { 'Content-Type': 'application/json' } }
-    ) as unknown as CfResponse;
   } catch (err: any) {
     console.error('[contact-support] Exception:', err);
-    return new Response(
-      JSON.stringify({ ok: false, error: err?.message || 'Email gönderilemedi' }),
-      {
-        status: 500,
-        headers: { 'Content-Type': 'application/json' },
-      }
-    ) as unknown as CfResponse;
+    await markLeadEmailFailed(context.env.DB, leadId, err?.message || 'Email gönderilemedi').catch((dbErr) =>
+      console.error('[contact-support] Lead status update failed:', dbErr)
+    );
   }
+
+  // Onay e-postası en iyi çaba ile gönderilir; başarısız olursa talep yine de başarılı sayılır
+  try {
+    const ackResult = await sendMailgunEmail(context.env, {
+      to: email,
+      from: 'contact@notify.hekamap.com',
+      replyTo: contactEmail,
+      idempotencyKey: `${leadId}:acknowledgment`,
+      ...renderEmail('customerAcknowledgment', { ...validation.data, leadId }, locale),
+    });
+    if (!ackResult.ok) {
+      console.error('[contact-support] Acknowledgment email failed:', leadId, ackResult.error);
+    }
+  } catch (err: any) {
+    console.error('[contact-support] Acknowledgment email exception:', leadId, err);
+  }
+
+  // Talep kaydedildiği için bildirim e-postası başarısız olsa da kullanıcıya referans numarası döner
+  return jsonResponse({ ok: true, leadId });
 };
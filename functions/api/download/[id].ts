@@ -0,0 +1,104 @@
+import type { Response as CfResponse, PagesFunction } from '@cloudflare/workers-types';
+import { getMessages, readLocale } from '../../../shared/i18n';
+import { errorResponse } from '../../lib/http';
+import { getClientIp } from '../../lib/rateLimit';
+import { hashClientIp } from '../../lib/leads';
+import {
+  contentDisposition,
+  findDeliverable,
+  logDownload,
+  parseRangeHeader,
+  verifyDownloadUrl,
+  type DeliverablesEnv,
+} from '../../lib/deliverables';
+
+/**
+ * Deliverable download - imzalı adres gerekli (çerez aranmaz)
+ * GET|HEAD ?account=&expires=&signature=&locale= -> dosya gövdesi R2'den akıtılır
+ * Range (tek aralık) desteklenir; çok GB'lık nokta bulutları indirme yöneticisiyle parça parça ya da
+ * kaldığı yerden indirilebilir. Her GET isteği (kısmi istekler dahil) download_log tablosuna yazılır.
+ */
+type Env = DeliverablesEnv & {
+  IP_HASH_SALT?: string;
+};
+
+export const onRequest: PagesFunction<Env, 'id'> = async (context) => {
+  const { request, env } = context;
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+  const { searchParams } = new URL(request.url);
+  const m = getMessages(readLocale(searchParams.get('locale'))).portal;
+  if (!env.SESSION_SECRET || !env.DELIVERABLES) {
+    return errorResponse(503, m.downloadUnavailable);
+  }
+
+  const id = String(context.params.id);
+  const verification = await verifyDownloadUrl(env.SESSION_SECRET, id, searchParams);
+  if (verification.ok === false) {
+    return verification.reason === 'expired' ? errorResponse(410, m.downloadExpired) : errorResponse(403, m.downloadInvalid);
+  }
+
+  const deliverable = await findDeliverable(env.DB, id);
+  if (!deliverable || deliverable.status !== 'ready') {
+    return errorResponse(404, m.fileNotFound);
+  }
+
+  const headers = new Headers({
+    'Content-Type': deliverable.contentType,
+    'Content-Disposition': contentDisposition(deliverable.fileName),
+    'Accept-Ranges': 'bytes',
+    'Cache-Control': 'private, no-store',
+  });
+
+  if (request.method === 'HEAD') {
+    const head = await env.DELIVERABLES.head(deliverable.r2Key);
+    if (!head) return errorResponse(404, m.fileNotFound);
+    headers.set('ETag', head.httpEtag);
+    headers.set('Content-Length', String(head.size));
+    return new Response(null, { headers }) as unknown as CfResponse;
+  }
+
+  // If-Range: dosya değişmişse kaldığı yerden devam yerine tamamı gönderilir
+  const ifRange = request.headers.get('If-Range');
+  const range = parseRangeHeader(request.headers.get('Range'), deliverable.size);
+  if (range === 'unsatisfiable') {
+    headers.set('Content-Range', `bytes */${deliverable.size}`);
+    return new Response(null, { status: 416, headers }) as unknown as CfResponse;
+  }
+
+  const head = ifRange && range ? await env.DELIVERABLES.head(deliverable.r2Key) : null;
+  const useRange = range && (!ifRange || head?.httpEtag === ifRange) ? range : null;
+  const object = await env.DELIVERABLES.get(deliverable.r2Key, useRange ? { range: useRange } : undefined);
+  if (!object) {
+    console.error('[download] R2 object missing:', deliverable.id, deliverable.r2Key);
+    return errorResponse(404, m.fileNotFound);
+  }
+
+  headers.set('ETag', object.httpEtag);
+  headers.set('Content-Length', String(useRange ? useRange.length : object.size));
+  if (useRange) {
+    headers.set('Content-Range', `bytes ${useRange.offset}-${useRange.offset + useRange.length - 1}/${object.size}`);
+  }
+
+  // Kayıt yanıtı geciktirmez; yazılamazsa indirme yine de sürer
+  context.waitUntil(
+    hashClientIp(getClientIp(request), env.IP_HASH_SALT)
+      .then((ipHash) =>
+        logDownload(env.DB, {
+          deliverableId: deliverable.id,
+          accountId: verification.accountId,
+          rangeStart: useRange ? useRange.offset : null,
+          bytes: useRange ? useRange.length : object.size,
+          ipHash,
+          userAgent: request.headers.get('User-Agent') || '',
+        })
+      )
+      .catch((err) => console.error('[download] Log failed:', deliverable.id, err))
+  );
+
+  return new Response(object.body as unknown as ReadableStream, {
+    status: useRange ? 206 : 200,
+    headers,
+  }) as unknown as CfResponse;
+};
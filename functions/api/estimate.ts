@@ -0,0 +1,60 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../lib/http';
+import { isServiceId } from '../../shared/services';
+import { computeEstimate, SERVICE_RATES, type EstimateResponse } from '../../shared/estimate';
+import { geodesicArea, geodesicPerimeter, SQUARE_METERS_PER_HECTARE } from '../../shared/geo/geodesy';
+import { parseAreaGeometry } from '../../shared/geo/validate';
+import { findSelfIntersection } from '../../shared/geo/topology';
+import { DEFAULT_LOCALE, LOCALE_TAGS, format, getMessages, readLocale } from '../../shared/i18n';
+
+/**
+ * Project area estimator - public, no authentication required
+ * POST { serviceId, geometry, locale? } -> jeodezik alan, çevre ve hizmetin fiyat/süre aralığı
+ * geometry: GeoJSON Polygon veya MultiPolygon (WGS84, [boylam, enlem]); locale (tr/en) hata mesajlarının dilidir
+ */
+export const onRequest: PagesFunction = async (context) => {
+  if (context.request.method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  let body: { serviceId?: unknown; geometry?: unknown; locale?: unknown };
+  try {
+    body = await context.request.json();
+  } catch {
+    return errorResponse(400, getMessages(DEFAULT_LOCALE).validation.invalidBody);
+  }
+  const locale = readLocale(body?.locale);
+  const m = getMessages(locale).estimator.errors;
+
+  if (!isServiceId(body?.serviceId)) {
+    return errorResponse(400, m.invalidService);
+  }
+  const serviceId = body.serviceId;
+
+  const parsed = parseAreaGeometry(body.geometry, locale);
+  if (parsed.ok === false) {
+    return errorResponse(400, parsed.error);
+  }
+  if (findSelfIntersection(parsed.geometry) !== -1) {
+    return errorResponse(400, m.selfIntersection);
+  }
+
+  const areaSquareMeters = geodesicArea(parsed.geometry);
+  const perimeterMeters = geodesicPerimeter(parsed.geometry);
+  const areaHectares = areaSquareMeters / SQUARE_METERS_PER_HECTARE;
+
+  if (areaSquareMeters <= 0) {
+    return errorResponse(400, m.noArea);
+  }
+  if (areaHectares > SERVICE_RATES[serviceId].maxHectares) {
+    return errorResponse(400, format(m.tooLarge, { area: Math.round(areaHectares).toLocaleString(LOCALE_TAGS[locale]) }));
+  }
+
+  const response: EstimateResponse = {
+    ok: true,
+    areaSquareMeters,
+    perimeterMeters,
+    estimate: computeEstimate(serviceId, areaHectares, perimeterMeters / 1000),
+  };
+  return jsonResponse(response);
+};
@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { D1Database } from '@cloudflare/workers-types';
+import { onRequest } from './mailgun-webhook';
+import delivered from '../lib/fixtures/mailgun/delivered.json';
+import wrongKey from '../lib/fixtures/mailgun/wrong-key.json';
+import malformed from '../lib/fixtures/mailgun/malformed.json';
+
+// Fixture imzaları bu anahtarla hesaplandı (bkz. functions/lib/mailgunSignature.test.ts)
+const SIGNING_KEY = 'test-signing-key-0f6b2d';
+
+type Statement = { sql: string; values: unknown[]; run: () => Promise<{ meta: { changes: number } }> };
+
+/**
+ * mailgun_webhook_tokens talebini (batch: eski satırları sil + INSERT ... RETURNING), email_events INSERT'ünü ve
+ * ardından gelen leads UPDATE'ini taklit eder. failures kadar ilk run() çağrısı, claimFails ise token talebi hata verir.
+ */
+function fakeDb({ failures = 0, claimFails = false } = {}) {
+  const inserts: unknown[][] = [];
+  const tokens = new Map<string, string>();
+  let remainingFailures = failures;
+  const db = {
+    prepare: (sql: string) => ({
+      bind: (...values: unknown[]): Statement => ({
+        sql,
+        values,
+        run: async () => {
+          if (remainingFailures > 0) {
+            remainingFailures--;
+            throw new Error('D1_ERROR: database is locked');
+          }
+          if (sql.startsWith('DELETE FROM mailgun_webhook_tokens WHERE token')) {
+            return { meta: { changes: Number(tokens.delete(String(values[0]))) } };
+          }
+          if (sql.includes('INSERT')) inserts.push(values);
+          return { meta: { changes: 1 } };
+        },
+      }),
+    }),
+    batch: async (statements: Statement[]) => {
+      // Gerçek D1'de batch tek işlemdir; await araya girmeden uygulanır
+      if (claimFails) throw new Error('D1_ERROR: database is locked');
+      return statements.map(({ sql, values }) => {
+        if (sql.startsWith('DELETE')) {
+          for (const [token, usedAt] of tokens) if (usedAt < String(values[0])) tokens.delete(token);
+          return { results: [] };
+        }
+        const [token, usedAt] = values.map(String);
+        if (tokens.has(token)) return { results: [] };
+        tokens.set(token, usedAt);
+        return { results: [{ token }] };
+      });
+    },
+  };
+  return { db: db as unknown as D1Database, inserts, tokens };
+}
+
+function call(body: unknown, env: { DB: D1Database }) {
+  const request = new Request('https://hekamap.com/api/mailgun-webhook', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: typeof body === 'string' ? body : JSON.stringify(body),
+  });
+  const context = { request, env: { ...env, MAILGUN_WEBHOOK_SIGNING_KEY: SIGNING_KEY } };
+  return onRequest(context as unknown as Parameters<typeof onRequest>[0]) as unknown as Promise<Response>;
+}
+
+describe('POST /api/mailgun-webhook', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Number(delivered.signature.timestamp) * 1000 + 2000);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('geçerli imzalı olay kaydedilir', async () => {
+    const { db, inserts, tokens } = fakeDb();
+    const response = await call(delivered, { DB: db });
+    expect(response.status).toBe(200);
+    await expect(response.json()).resolves.toEqual({ ok: true, duplicate: false });
+    expect([...tokens.keys()]).toEqual([delivered.signature.token]);
+    expect(inserts).toHaveLength(1);
+    expect(inserts[0].slice(0, 4)).toEqual([
+      delivered['event-data'].id,
+      delivered['event-data'].message.headers['message-id'],
+      'delivered',
+      'halit@hekamap.com',
+    ]);
+    expect(inserts[0][6]).toBe(new Date(delivered['event-data'].timestamp * 1000).toISOString());
+  });
+
+  it('aynı token ikinci kez kullanılırsa reddedilir', async () => {
+    const { db, inserts } = fakeDb();
+    expect((await call(delivered, { DB: db })).status).toBe(200);
+
+    const replay = await call(delivered, { DB: db });
+    expect(replay.status).toBe(406);
+    await expect(replay.json()).resolves.toEqual({ ok: false, error: 'Replayed request' });
+    expect(inserts).toHaveLength(1);
+  });
+
+  it('aynı token ile eşzamanlı iki istekten yalnızca biri kaydedilir', async () => {
+    const { db, inserts } = fakeDb();
+    const statuses = (await Promise.all([call(delivered, { DB: db }), call(delivered, { DB: db })])).map((r) => r.status);
+    expect(statuses.sort()).toEqual([200, 406]);
+    expect(inserts).toHaveLength(1);
+  });
+
+  it('kayıt başarısızsa token bırakılır; Mailgun yeniden denediğinde kabul edilir', async () => {
+    const { db, inserts, tokens } = fakeDb({ failures: 1 });
+    expect((await call(delivered, { DB: db })).status).toBe(500);
+    expect(tokens.size).toBe(0);
+    expect((await call(delivered, { DB: db })).status).toBe(200);
+    expect(inserts).toHaveLength(1);
+  });
+
+  it('token alınamazsa 500 döner ve olay kaydedilmez', async () => {
+    const { db, inserts } = fakeDb({ claimFails: true });
+    const response = await call(delivered, { DB: db });
+    expect(response.status).toBe(500);
+    expect(inserts).toHaveLength(0);
+  });
+
+  it('imza süresinin iki katından eski token satırları temizlenir', async () => {
+    const { db, tokens } = fakeDb();
+    tokens.set('eski-token', new Date(Date.now() - 11 * 60 * 1000).toISOString());
+    tokens.set('yeni-token', new Date(Date.now() - 60 * 1000).toISOString());
+    expect((await call(delivered, { DB: db })).status).toBe(200);
+    expect([...tokens.keys()].sort()).toEqual([delivered.signature.token, 'yeni-token'].sort());
+  });
+
+  it.each([
+    ['metin', 'dün'],
+    ['tarih aralığı dışında', 1e20],
+    ['eksik', undefined],
+  ])('olay zamanı geçersizse (%s) alınma anı kullanılır', async (_name, timestamp) => {
+    const { db, inserts } = fakeDb();
+    const response = await call({ ...delivered, 'event-data': { ...delivered['event-data'], timestamp } }, { DB: db });
+    expect(response.status).toBe(200);
+    expect(inserts[0][6]).toBe(new Date().toISOString());
+  });
+
+  it.each([
+    ['başka anahtarla imza', wrongKey, 'Invalid signature'],
+    ['bozuk imza alanları', malformed, 'Invalid signature'],
+    ['imzasız gövde', { 'event-data': delivered['event-data'] }, 'Missing signature'],
+  ])('%s 406 ile reddedilir, token harcanmaz', async (_name, body, error) => {
+    const { db, inserts, tokens } = fakeDb();
+    const response = await call(body, { DB: db });
+    expect(response.status).toBe(406);
+    await expect(response.json()).resolves.toEqual({ ok: false, error });
+    expect(tokens.size).toBe(0);
+    expect(inserts).toHaveLength(0);
+  });
+
+  it('süresi geçmiş imza 406 ile reddedilir', async () => {
+    vi.setSystemTime((Number(delivered.signature.timestamp) + 10 * 60) * 1000);
+    const response = await call(delivered, { DB: fakeDb().db });
+    expect(response.status).toBe(406);
+  });
+
+  it('JSON olmayan gövde 400 alır', async () => {
+    const response = await call('signature=abc', { DB: fakeDb().db });
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,126 @@
+import type { D1Database, PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../lib/http';
+import { isMailgunSignature, SIGNATURE_MAX_AGE_SECONDS, verifyMailgunSignature } from '../lib/mailgunSignature';
+import { isTrackedEmailEvent, recordEmailEvent } from '../lib/emailEvents';
+
+/**
+ * Mailgun event webhook - public, authenticated by HMAC signature
+ * Mailgun panelinde delivered, permanent/temporary fail, complained ve opened olayları için
+ * https://<site>/api/mailgun-webhook adresine yönlendirilir.
+ *
+ * Mailgun 406 yanıtını "tekrar deneme" olarak yorumlamaz; geçersiz imzalar bu yüzden 406 alır.
+ * Kullanılmış token'lar D1'de tutulur (migrations/0014_create_mailgun_webhook_tokens.sql).
+ */
+type Env = {
+  MAILGUN_WEBHOOK_SIGNING_KEY: string;
+  DB: D1Database; // email_events ve mailgun_webhook_tokens
+};
+
+type MailgunEventData = {
+  id?: string;
+  event?: string;
+  timestamp?: unknown; // Mailgun saniye cinsinden sayı gönderir; doğrulanmadan kullanılmaz
+  recipient?: string;
+  severity?: string;
+  reason?: string;
+  'delivery-status'?: { description?: string; message?: string };
+  message?: { headers?: { 'message-id'?: string } };
+};
+
+export const onRequest: PagesFunction<Env> = async (context) => {
+  if (context.request.method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  if (!context.env.MAILGUN_WEBHOOK_SIGNING_KEY) {
+    console.error('[mailgun-webhook] MAILGUN_WEBHOOK_SIGNING_KEY is not configured');
+    return errorResponse(500, 'Webhook not configured');
+  }
+
+  let body: { signature?: unknown; 'event-data'?: MailgunEventData };
+  try {
+    body = await context.request.json();
+  } catch {
+    return errorResponse(400, 'Invalid JSON');
+  }
+
+  if (!isMailgunSignature(body?.signature)) {
+    return errorResponse(406, 'Missing signature');
+  }
+  const signature = body.signature;
+
+  const verification = await verifyMailgunSignature(context.env.MAILGUN_WEBHOOK_SIGNING_KEY, signature);
+  if (verification.ok === false) {
+    console.warn('[mailgun-webhook] Signature rejected:', verification.reason);
+    return errorResponse(406, 'Invalid signature');
+  }
+
+  // Geçerli imzanın aynı token ile tekrar gönderilmesi (replay) reddedilir; token tek sorguda alınır,
+  // eşzamanlı iki istekten yalnızca biri satırı ekleyebilir
+  const { DB } = context.env;
+  try {
+    if (!(await claimToken(DB, signature.token))) {
+      console.warn('[mailgun-webhook] Replayed token rejected');
+      return errorResponse(406, 'Replayed request');
+    }
+  } catch (err) {
+    console.error('[mailgun-webhook] Token could not be claimed:', err);
+    return errorResponse(500, 'Event could not be recorded');
+  }
+
+  const eventData = body['event-data'];
+  const messageId = eventData?.message?.headers?.['message-id'];
+  if (!eventData || !isTrackedEmailEvent(eventData.event) || !messageId) {
+    // Takip edilmeyen olaylar (ör. clicked, unsubscribed) 200 ile kabul edilir ki Mailgun tekrar denemesin
+    return jsonResponse({ ok: true, ignored: true });
+  }
+
+  const occurredAt = eventTime(eventData.timestamp);
+
+  try {
+    const recorded = await recordEmailEvent(DB, {
+      eventId: eventData.id || `${signature.token}:${eventData.event}`,
+      messageId,
+      event: eventData.event,
+      recipient: eventData.recipient || '',
+      severity: eventData.severity ?? null,
+      reason:
+        eventData.reason ?? eventData['delivery-status']?.description ?? eventData['delivery-status']?.message ?? null,
+      occurredAt,
+      payload: eventData,
+    });
+    return jsonResponse({ ok: true, duplicate: !recorded });
+  } catch (err: any) {
+    // 5xx yanıtında Mailgun olayı daha sonra tekrar gönderir
+    console.error('[mailgun-webhook] Failed to record event:', err);
+    await DB.prepare('DELETE FROM mailgun_webhook_tokens WHERE token = ?')
+      .bind(signature.token)
+      .run()
+      .catch((releaseErr) => console.error('[mailgun-webhook] Token could not be released:', releaseErr));
+    return errorResponse(500, 'Event could not be recorded');
+  }
+};
+
+/** Token'ı kullanılmış olarak işaretler; daha önce kullanılmışsa false. Süresi geçmiş token'lar aynı batch'te silinir. */
+async function claimToken(db: D1Database, token: string): Promise<boolean> {
+  const now = new Date();
+  const [, claim] = await db.batch<{ token: string }>([
+    db
+      .prepare('DELETE FROM mailgun_webhook_tokens WHERE used_at < ?')
+      .bind(new Date(now.getTime() - SIGNATURE_MAX_AGE_SECONDS * 2 * 1000).toISOString()),
+    db
+      .prepare(
+        `INSERT INTO mailgun_webhook_tokens (token, used_at) VALUES (?, ?)
+         ON CONFLICT (token) DO NOTHING
+         RETURNING token`
+      )
+      .bind(token, now.toISOString()),
+  ]);
+  return claim.results.length > 0;
+}
+
+/** Olay zamanı; sayı olmayan ya da tarih aralığı dışındaki değerlerde alınma anı kullanılır */
+function eventTime(timestamp: unknown): string {
+  const date = typeof timestamp === 'number' && Number.isFinite(timestamp) ? new Date(timestamp * 1000) : new Date();
+  return Number.isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
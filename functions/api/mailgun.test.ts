@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { D1Database } from '@cloudflare/workers-types';
+import { sendMailgunEmail } from './mailgun';
+import { ConsoleTransport } from '../email/transports/console';
+
+type Row = { message_id: string | null; claimed_at: string; sent_at: string | null };
+
+/** email_idempotency tablosunu taklit eden D1; sorgular ilk kelimelerine göre ayrılır */
+function fakeDb() {
+  const rows = new Map<string, Row>();
+  const run = (sql: string, values: unknown[]) => {
+    const [first, second, third, fourth] = values as string[];
+    if (sql.startsWith('INSERT')) {
+      // key, claimed_at, süresi dolmuşların sınırı, kirası bitmişlerin sınırı
+      const row = rows.get(first);
+      if (row && !(row.claimed_at < third || (row.sent_at === null && row.claimed_at < fourth))) return null;
+      rows.set(first, { message_id: null, claimed_at: second, sent_at: null });
+      return { key: first };
+    }
+    if (sql.startsWith('SELECT')) return rows.get(first) ?? null;
+    if (sql.startsWith('UPDATE')) {
+      const row = rows.get(third);
+      if (row?.claimed_at === fourth) rows.set(third, { ...row, message_id: first, sent_at: second });
+      return null;
+    }
+    if (sql.startsWith('DELETE') && rows.get(first)?.claimed_at === second) rows.delete(first);
+    return null;
+  };
+  const db = {
+    prepare: (sql: string) => ({
+      bind: (...values: unknown[]) => ({
+        first: async () => run(sql.trim(), values),
+        run: async () => {
+          run(sql.trim(), values);
+          return { success: true };
+        },
+      }),
+    }),
+  };
+  return { db: db as unknown as D1Database, rows };
+}
+
+const email = { to: 'ayse@example.com', subject: 'Talebiniz alındı', html: '<p>Merhaba</p>', idempotencyKey: 'LD-1:acknowledgment' };
+
+function setup() {
+  const { db, rows } = fakeDb();
+  const send = vi.spyOn(ConsoleTransport.prototype, 'send');
+  const env = { MAILGUN_API_KEY: '', MAILGUN_DOMAIN: '', MAIL_TRANSPORT: 'console' as const, DB: db };
+  return { env, rows, send };
+}
+
+describe('sendMailgunEmail, idempotency', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('aynı anahtarla eşzamanlı iki istekten yalnızca biri gönderir', async () => {
+    const { env, rows, send } = setup();
+    send.mockResolvedValue({ ok: true, messageId: 'msg-1' });
+    const [a, b] = await Promise.all([sendMailgunEmail(env, email), sendMailgunEmail(env, email)]);
+    expect(send).toHaveBeenCalledTimes(1);
+    expect([a.duplicate, b.duplicate].sort()).toEqual([true, undefined]);
+    expect(rows.get('mail:LD-1:acknowledgment')?.message_id).toBe('msg-1');
+
+    await expect(sendMailgunEmail(env, email)).resolves.toEqual({ ok: true, messageId: 'msg-1', duplicate: true });
+    expect(send).toHaveBeenCalledTimes(1);
+  });
+
+  it('başarısız gönderimin talebi bırakılır, tekrar denenebilir', async () => {
+    const { env, rows, send } = setup();
+    send.mockResolvedValueOnce({ ok: false, error: 'Mailgun error: 500' }).mockRejectedValueOnce(new Error('fetch failed'));
+    send.mockResolvedValueOnce({ ok: true, messageId: 'msg-2' });
+
+    await expect(sendMailgunEmail(env, email)).resolves.toEqual({ ok: false, error: 'Mailgun error: 500' });
+    expect(rows.size).toBe(0);
+    await expect(sendMailgunEmail(env, email)).resolves.toEqual({ ok: false, error: 'fetch failed' });
+    expect(rows.size).toBe(0);
+    await expect(sendMailgunEmail(env, email)).resolves.toEqual({ ok: true, messageId: 'msg-2' });
+    expect(send).toHaveBeenCalledTimes(3);
+  });
+
+  it('yarıda kalan talep kira bitince, gönderilmiş kayıt bir gün sonra yeniden alınır', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const { env, rows, send } = setup();
+    send.mockResolvedValue({ ok: true, messageId: 'msg-3' });
+    vi.setSystemTime(new Date('2026-03-01T09:00:00Z'));
+    rows.set('mail:LD-1:acknowledgment', { message_id: null, claimed_at: '2026-03-01T08:57:00.000Z', sent_at: null });
+
+    // Kira (5 dk) henüz bitmedi: gönderim sürüyor sayılır
+    await expect(sendMailgunEmail(env, email)).resolves.toEqual({ ok: true, messageId: undefined, duplicate: true });
+    vi.setSystemTime(new Date('2026-03-01T09:03:00Z'));
+    await expect(sendMailgunEmail(env, email)).resolves.toEqual({ ok: true, messageId: 'msg-3' });
+
+    vi.setSystemTime(new Date('2026-03-02T09:02:00Z'));
+    await expect(sendMailgunEmail(env, email)).resolves.toMatchObject({ duplicate: true });
+    vi.setSystemTime(new Date('2026-03-02T09:04:00Z'));
+    await expect(sendMailgunEmail(env, email)).resolves.toEqual({ ok: true, messageId: 'msg-3' });
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+
+  it('anahtarsız gönderim veritabanına dokunmaz', async () => {
+    const { env, rows, send } = setup();
+    send.mockResolvedValue({ ok: true, messageId: 'msg-4' });
+    await sendMailgunEmail(env, { ...email, idempotencyKey: undefined });
+    await sendMailgunEmail(env, { ...email, idempotencyKey: undefined });
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(rows.size).toBe(0);
+  });
+});
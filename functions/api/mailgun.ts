@@ -1,11 +1,19 @@
+import type { D1Database } from '@cloudflare/workers-types';
+import { ConsoleTransport } from '../email/transports/console';
+import { MailgunTransport } from '../email/transports/mailgun';
+import type { EmailAttachment, MailTransport, SendResult } from '../email/transports/types';
+
 /**
  * Mailgun email sending utility
  * Only requires Mailgun credentials
+ * MAIL_TRANSPORT=console ile yerel geliştirmede e-postalar gönderilmez, konsola yazılır.
  */
 type MailgunEnv = {
   MAILGUN_API_KEY: string;
   MAILGUN_DOMAIN: string;
   MAILGUN_REGION?: 'us' | 'eu'; // Optional: 'eu' for EU region, default is 'us'
+  MAIL_TRANSPORT?: 'mailgun' | 'console'; // Optional: default is 'mailgun'
+  DB: D1Database; // Idempotency talepleri (email_idempotency)
 };
 
 export interface EmailOptions {
@@ -15,79 +23,94 @@ export interface EmailOptions {
   text?: string;
   from?: string;
   replyTo?: string;
+  /** Mailgun'a multipart "attachment" alanı olarak iletilir */
+  attachments?: EmailAttachment[];
+  /**
+   * Aynı anahtarla gönderilmiş ya da o anda gönderilmekte olan e-posta tekrar gönderilmez, önceki sonuç döner.
+   * Form yeniden gönderildiğinde ya da istek tekrarlandığında mükerrer e-postayı engeller.
+   */
+  idempotencyKey?: string;
+}
+
+export type { EmailAttachment };
+
+// Tekrarlanan form gönderimleri bu süre içinde yakalanır
+const IDEMPOTENCY_TTL_SECONDS = 24 * 60 * 60;
+// Gönderimi yarıda kalan (isolate sonlanan) talep bu süreden sonra yeniden alınabilir; transport zaman aşımından uzun olmalı
+const IDEMPOTENCY_LEASE_SECONDS = 5 * 60;
+
+export function createMailTransport(env: MailgunEnv): MailTransport {
+  if (env.MAIL_TRANSPORT === 'console') {
+    return new ConsoleTransport();
+  }
+  return new MailgunTransport({
+    apiKey: env.MAILGUN_API_KEY,
+    domain: env.MAILGUN_DOMAIN,
+    region: env.MAILGUN_REGION,
+  });
+}
+
+/**
+ * Anahtarı gönderimden önce tek bir INSERT ile talep eder; satır dönmezse anahtar başka bir istekte
+ * (gönderilmiş ya da gönderiliyor) demektir. Süresi dolmuş kayıt ve kirası bitmiş yarım talep devralınır.
+ */
+async function claimIdempotencyKey(db: D1Database, key: string, claimedAt: Date): Promise<boolean> {
+  const ago = (seconds: number) => new Date(claimedAt.getTime() - seconds * 1000).toISOString();
+  const claimed = await db
+    .prepare(
+      `INSERT INTO email_idempotency (key, claimed_at) VALUES (?, ?)
+       ON CONFLICT (key) DO UPDATE SET message_id = NULL, claimed_at = excluded.claimed_at, sent_at = NULL
+       WHERE email_idempotency.claimed_at < ? OR (email_idempotency.sent_at IS NULL AND email_idempotency.claimed_at < ?)
+       RETURNING key`
+    )
+    .bind(key, claimedAt.toISOString(), ago(IDEMPOTENCY_TTL_SECONDS), ago(IDEMPOTENCY_LEASE_SECONDS))
+    .first<{ key: string }>();
+  return claimed !== null;
 }
 
-export async function sendMailgunEmail(
-  env: MailgunEnv,
-  options: EmailOptions
-): Promise<{ ok: boolean; messageId?: string; error?: string }> {
-  const apiKey = env.MAILGUN_API_KEY;
-  const domain = env.MAILGUN_DOMAIN;
-  
+export async function sendMailgunEmail(env: MailgunEnv, options: EmailOptions): Promise<SendResult> {
   // Production domain: notify.hekamap.com
   // Default gönderici: auth@notify.hekamap.com (hesap oluşturma, şifre yenileme)
   // İletişim formu: contact@notify.hekamap.com (explicit olarak contact-support.ts'de belirtilir)
   const from = options.from || `auth@notify.hekamap.com`;
 
-  const formData = new FormData();
-  formData.append('from', from);
-  formData.append('to', options.to);
-  formData.append('subject', options.subject);
-  formData.append('html', options.html);
-  if (options.text) {
-    formData.append('text', options.text);
-  }
-  if (options.replyTo) {
-    formData.append('h:Reply-To', options.replyTo);
-  }
+  const idempotencyKey = options.idempotencyKey ? `mail:${options.idempotencyKey}` : null;
+  const claimedAt = new Date();
 
-  try {
-    // Mailgun API endpoint
-    // EU domains: https://api.eu.mailgun.net/v3/
-    // US domains: https://api.mailgun.net/v3/
-    const region = env.MAILGUN_REGION || 'us';
-    const apiBase = region === 'eu' ? 'https://api.eu.mailgun.net/v3' : 'https://api.mailgun.net/v3';
-    const apiUrl = `${apiBase}/${domain}/messages`;
-    
-    const response = await fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        Authorization: `Basic ${btoa(`api:${apiKey}`)}`,
-      },
-      body: formData,
-    });
-
-    // Read response body (can only be read once)
-    const responseText = await response.text();
-    
-    if (!response.ok) {
-      let errorMessage = 'Mailgun API error';
-      try {
-        const data = JSON.parse(responseText);
-        console.error('Mailgun API error:', {
-          status: response.status,
-          statusText: response.statusText,
-          data,
-        });
-        errorMessage = data.message || data.error?.message || `HTTP ${response.status}: ${response.statusText}`;
-      } catch (parseError) {
-        // JSON parse failed, use text directly
-        console.error('Mailgun API error (non-JSON):', {
-          status: response.status,
-          statusText: response.statusText,
-          text: responseText.substring(0, 200),
-        });
-        errorMessage = `HTTP ${response.status}: ${response.statusText}`;
+  if (idempotencyKey) {
+    try {
+      if (!(await claimIdempotencyKey(env.DB, idempotencyKey, claimedAt))) {
+        const previous = await env.DB
+          .prepare('SELECT message_id FROM email_idempotency WHERE key = ?')
+          .bind(idempotencyKey)
+          .first<{ message_id: string | null }>();
+        // Gönderim sürüyorsa kimlik henüz yoktur
+        return { ok: true, messageId: previous?.message_id || undefined, duplicate: true };
       }
-      return { ok: false, error: errorMessage };
+    } catch (err) {
+      console.error('Mail idempotency claim failed:', err);
+      return { ok: false, error: err instanceof Error ? err.message : 'Database error' };
     }
+  }
 
-    // Success: parse JSON response
-    const data = JSON.parse(responseText);
-    return { ok: true, messageId: data.id };
-  } catch (err: any) {
-    console.error('Mailgun network/exception error:', err);
-    return { ok: false, error: err?.message || 'Network error' };
+  let result: SendResult;
+  try {
+    result = await createMailTransport(env).send({ ...options, from });
+  } catch (err) {
+    console.error('Mail transport exception:', err);
+    result = { ok: false, error: err instanceof Error ? err.message : 'Network error' };
   }
-}
 
+  if (idempotencyKey) {
+    // Başarısız gönderimin talebi bırakılır ki tekrar denenebilsin; yalnızca bu isteğin talebi silinir
+    const statement = result.ok
+      ? env.DB
+          .prepare('UPDATE email_idempotency SET message_id = ?, sent_at = ? WHERE key = ? AND claimed_at = ?')
+          .bind(result.messageId ?? '', new Date().toISOString(), idempotencyKey, claimedAt.toISOString())
+      : env.DB
+          .prepare('DELETE FROM email_idempotency WHERE key = ? AND claimed_at = ?')
+          .bind(idempotencyKey, claimedAt.toISOString());
+    await statement.run().catch((err) => console.error('Mail idempotency update failed:', err));
+  }
+  return result;
+}
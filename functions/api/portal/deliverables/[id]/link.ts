@@ -0,0 +1,37 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { getMessages, readLocale } from '../../../../../shared/i18n';
+import { jsonResponse, errorResponse } from '../../../../lib/http';
+import { getRequestSession, isSameOriginRequest } from '../../../../lib/auth';
+import { findDeliverable, signDownloadUrl, type DeliverablesEnv } from '../../../../lib/deliverables';
+
+/**
+ * Client portal download link - çerez gerekli
+ * POST ?locale= -> { ok, url } süreli, imzalı indirme adresi (bkz. /api/download/[id])
+ * Dosya yalnızca projenin sahibine ve personele açılır.
+ */
+export const onRequest: PagesFunction<DeliverablesEnv, 'id'> = async (context) => {
+  if (context.request.method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+  if (!isSameOriginRequest(context.request)) {
+    return errorResponse(403, 'Forbidden');
+  }
+
+  const locale = readLocale(new URL(context.request.url).searchParams.get('locale'));
+  const messages = getMessages(locale);
+
+  const session = await getRequestSession(context.env, context.request);
+  if (!session || !context.env.SESSION_SECRET) {
+    return errorResponse(401, messages.auth.notSignedIn);
+  }
+
+  const deliverable = await findDeliverable(context.env.DB, String(context.params.id));
+  const allowed = deliverable && (deliverable.accountId === session.account.id || session.account.role === 'staff');
+  // Başka hesabın dosyası için de 404 döner; dosyanın varlığı belli edilmez
+  if (!deliverable || !allowed || deliverable.status !== 'ready') {
+    return errorResponse(404, messages.portal.fileNotFound);
+  }
+
+  const url = await signDownloadUrl(context.env.SESSION_SECRET, context.request.url, deliverable.id, session.account.id, locale);
+  return jsonResponse({ ok: true, url });
+};
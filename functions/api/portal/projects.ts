@@ -0,0 +1,21 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import { getRequestSession } from '../../lib/auth';
+import { listProjectsWithDeliverables, type DeliverablesEnv } from '../../lib/deliverables';
+
+/**
+ * Client portal projects - çerez gerekli
+ * GET -> hesabın projeleri ve indirilebilir teslimat dosyaları
+ */
+export const onRequest: PagesFunction<DeliverablesEnv> = async (context) => {
+  if (context.request.method !== 'GET') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const session = await getRequestSession(context.env, context.request);
+  if (!session) {
+    return errorResponse(401, 'Oturum açılmamış');
+  }
+  const projects = await listProjectsWithDeliverables(context.env.DB, session.account.id);
+  return jsonResponse({ ok: true, projects }, { headers: { 'Cache-Control': 'no-store' } });
+};
@@ -0,0 +1,21 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import { getRequestSession, type AuthEnv } from '../../lib/auth';
+import { listLeadSummariesByEmail } from '../../lib/leads';
+
+/**
+ * Client portal requests - çerez gerekli
+ * GET -> hesabın e-posta adresiyle bırakılmış talepler (referans numarası, konu, tarih)
+ */
+export const onRequest: PagesFunction<AuthEnv> = async (context) => {
+  if (context.request.method !== 'GET') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const session = await getRequestSession(context.env, context.request);
+  if (!session) {
+    return errorResponse(401, 'Oturum açılmamış');
+  }
+  const requests = await listLeadSummariesByEmail(context.env.DB, session.account.email);
+  return jsonResponse({ ok: true, requests }, { headers: { 'Cache-Control': 'no-store' } });
+};
@@ -0,0 +1,22 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { errorResponse } from '../../lib/http';
+import { getRequestSession, isSameOriginRequest, type AuthEnv, type SessionData } from '../../lib/auth';
+
+/**
+ * /api/staff/* - yalnızca personel (accounts.role = 'staff')
+ * Oturum burada bir kez doğrulanır ve context.data.session ile endpoint'lere aktarılır.
+ */
+export const onRequest: PagesFunction<AuthEnv, string, SessionData> = async (context) => {
+  const session = await getRequestSession(context.env, context.request);
+  if (!session) {
+    return errorResponse(401, 'Oturum açılmamış');
+  }
+  if (session.account.role !== 'staff') {
+    return errorResponse(403, 'Bu işlem için personel yetkisi gerekir');
+  }
+  if (context.request.method !== 'GET' && !isSameOriginRequest(context.request)) {
+    return errorResponse(403, 'Forbidden');
+  }
+  context.data.session = session;
+  return context.next();
+};
@@ -0,0 +1,75 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import type { AuthEnv, SessionData } from '../../lib/auth';
+import { addAvailability, deleteAvailability, listStaffAvailability } from '../../lib/surveys';
+import { SURVEY_SLOT_MINUTES } from '../../../shared/surveys';
+
+/**
+ * Staff - oturumdaki personelin saha keşfi müsaitliği
+ * GET -> { ok, windows: SurveyAvailabilityWindow[] }
+ * POST { date: 'YYYY-MM-DD', from: 'HH:MM', to: 'HH:MM' } (Türkiye saati) -> { ok, id } ; çakışan aralık 409
+ * DELETE ?id= -> { ok } ; içinde etkin randevu olan aralık 409
+ */
+
+// Türkiye saati yaz/kış uygulamasız UTC+3
+const TURKEY_UTC_OFFSET = '+03:00';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+function readWindow(body: { date?: unknown; from?: unknown; to?: unknown }): { startsAt: string; endsAt: string } | null {
+  const { date, from, to } = body ?? {};
+  if (typeof date !== 'string' || !DATE_PATTERN.test(date)) return null;
+  if (typeof from !== 'string' || !TIME_PATTERN.test(from) || typeof to !== 'string' || !TIME_PATTERN.test(to)) return null;
+  const start = new Date(`${date}T${from}:00${TURKEY_UTC_OFFSET}`);
+  const end = new Date(`${date}T${to}:00${TURKEY_UTC_OFFSET}`);
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) return null;
+  // En az bir dilim sığmalı ve aralık geçmişte kalmamalı
+  if (end.getTime() - start.getTime() < SURVEY_SLOT_MINUTES * 60 * 1000 || end.getTime() <= Date.now()) return null;
+  return { startsAt: start.toISOString(), endsAt: end.toISOString() };
+}
+
+export const onRequest: PagesFunction<AuthEnv, string, SessionData> = async (context) => {
+  const db = context.env.DB;
+  const staffId = context.data.session.account.id;
+
+  if (context.request.method === 'GET') {
+    const windows = await listStaffAvailability(db, staffId);
+    return jsonResponse({ ok: true, windows }, { headers: { 'Cache-Control': 'no-store' } });
+  }
+
+  if (context.request.method === 'POST') {
+    let body: { date?: unknown; from?: unknown; to?: unknown };
+    try {
+      body = await context.request.json();
+    } catch {
+      return errorResponse(400, 'Geçersiz istek gövdesi');
+    }
+    const window = readWindow(body);
+    if (!window) {
+      return errorResponse(400, `Geçerli bir gün ve en az ${SURVEY_SLOT_MINUTES} dakikalık saat aralığı girin`);
+    }
+    const result = await addAvailability(db, staffId, window.startsAt, window.endsAt);
+    if (result === 'overlap') {
+      return errorResponse(409, 'Bu aralık mevcut bir müsaitlikle çakışıyor', { reason: 'overlap' });
+    }
+    return jsonResponse({ ok: true, id: result.id }, { status: 201 });
+  }
+
+  if (context.request.method === 'DELETE') {
+    const id = Number(new URL(context.request.url).searchParams.get('id'));
+    if (!Number.isInteger(id)) {
+      return errorResponse(400, 'Geçersiz aralık');
+    }
+    const result = await deleteAvailability(db, staffId, id);
+    if (result === 'not-found') {
+      return errorResponse(404, 'Aralık bulunamadı');
+    }
+    if (result === 'has-bookings') {
+      return errorResponse(409, 'İçinde randevu olan aralık silinemez', { reason: 'has-bookings' });
+    }
+    return jsonResponse({ ok: true });
+  }
+
+  return errorResponse(405, 'Method Not Allowed');
+};
@@ -0,0 +1,19 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import { findAccountByEmail, type AuthEnv, type SessionData } from '../../lib/auth';
+import { listProjectNames } from '../../lib/deliverables';
+
+/**
+ * Staff - müşterinin proje adları
+ * GET ?email= -> { ok, projects: string[] } (hesap yoksa boş liste); yükleme formundaki öneriler için
+ */
+export const onRequest: PagesFunction<AuthEnv, string, SessionData> = async (context) => {
+  if (context.request.method !== 'GET') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const email = (new URL(context.request.url).searchParams.get('email') || '').trim().toLowerCase();
+  const account = await findAccountByEmail(context.env.DB, email);
+  const projects = account ? await listProjectNames(context.env.DB, account.id) : [];
+  return jsonResponse({ ok: true, projects }, { headers: { 'Cache-Control': 'no-store' } });
+};
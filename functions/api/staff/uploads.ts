@@ -0,0 +1,83 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import { ensureClientAccount, type SessionData } from '../../lib/auth';
+import {
+  createDeliverable,
+  deliverableKey,
+  findOrCreateProject,
+  generateDeliverableId,
+  type DeliverablesEnv,
+} from '../../lib/deliverables';
+import { isValidEmail } from '../../../shared/contact';
+import { DELIVERABLE_MAX_BYTES, DELIVERABLE_PART_SIZE, partCount, sanitizeFileName } from '../../../shared/deliverables';
+import { DEFAULT_LOCALE, format, getMessages, readLocale } from '../../../shared/i18n';
+
+/**
+ * Staff - teslimat yüklemesi başlatır
+ * POST ?locale= { email, projectName, fileName, size, contentType? } -> { ok, deliverableId, partSize, partCount }
+ * R2 çok parçalı yüklemesi açılır; parçalar uploads/<id>/parts/<n> adresine PUT edilir, sonra complete çağrılır.
+ * Müşteri hesabı ve proje yoksa açılır.
+ */
+const PROJECT_NAME_MAX = 120;
+
+export const onRequest: PagesFunction<DeliverablesEnv, string, SessionData> = async (context) => {
+  if (context.request.method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+  const messages = getMessages(readLocale(new URL(context.request.url).searchParams.get('locale')));
+  const m = messages.deliverableUpload.errors;
+  const bucket = context.env.DELIVERABLES;
+  if (!bucket) {
+    console.error('[deliverables] DELIVERABLES R2 binding is not configured');
+    return errorResponse(503, m.storageUnavailable);
+  }
+
+  let body: { email?: unknown; projectName?: unknown; fileName?: unknown; size?: unknown; contentType?: unknown };
+  try {
+    body = await context.request.json();
+  } catch {
+    return errorResponse(400, messages.validation.invalidBody);
+  }
+
+  const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : '';
+  const projectName = typeof body?.projectName === 'string' ? body.projectName.trim() : '';
+  const size = body?.size;
+  if (!isValidEmail(email)) {
+    return errorResponse(400, m.clientEmailInvalid);
+  }
+  if (!projectName || projectName.length > PROJECT_NAME_MAX) {
+    return errorResponse(400, format(m.projectNameLength, { max: PROJECT_NAME_MAX }));
+  }
+  if (typeof body.fileName !== 'string' || !Number.isInteger(size) || (size as number) <= 0) {
+    return errorResponse(400, m.fileRequired);
+  }
+  if ((size as number) > DELIVERABLE_MAX_BYTES) {
+    return errorResponse(413, m.fileTooLarge);
+  }
+  const fileName = sanitizeFileName(body.fileName);
+  const contentType =
+    typeof body.contentType === 'string' && /^[\w.+-]+\/[\w.+-]+$/.test(body.contentType)
+      ? body.contentType
+      : 'application/octet-stream';
+
+  try {
+    // Müşterinin dili bilinmiyorsa bildirimler varsayılan dilde gider; ilk girişte değişmez
+    const account = await ensureClientAccount(context.env.DB, email, DEFAULT_LOCALE);
+    const project = await findOrCreateProject(context.env.DB, account.id, projectName);
+    const id = generateDeliverableId();
+    const r2Key = deliverableKey(account.id, project.id, id, fileName);
+    const upload = await bucket.createMultipartUpload(r2Key, {
+      httpMetadata: { contentType },
+      customMetadata: { deliverableId: id, uploadedBy: context.data.session.account.email },
+    });
+    await createDeliverable(
+      context.env.DB,
+      { id, projectId: project.id, r2Key, fileName, size: size as number, contentType, uploadId: upload.uploadId },
+      context.data.session.account.id
+    );
+    return jsonResponse({ ok: true, deliverableId: id, partSize: DELIVERABLE_PART_SIZE, partCount: partCount(size as number) });
+  } catch (err) {
+    console.error('[deliverables] Upload start failed:', err);
+    return errorResponse(500, m.startFailed);
+  }
+};
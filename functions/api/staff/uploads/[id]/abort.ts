@@ -0,0 +1,29 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { getMessages, readLocale } from '../../../../../shared/i18n';
+import { jsonResponse, errorResponse } from '../../../../lib/http';
+import type { SessionData } from '../../../../lib/auth';
+import { deleteUploadingDeliverable, findDeliverable, type DeliverablesEnv } from '../../../../lib/deliverables';
+
+/**
+ * Staff - yarım kalan yüklemeden vazgeçer
+ * POST ?locale= -> R2'deki parçalar silinir, kayıt kaldırılır. Tamamlanmış teslimatlara dokunulmaz.
+ */
+export const onRequest: PagesFunction<DeliverablesEnv, 'id', SessionData> = async (context) => {
+  if (context.request.method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const deliverable = await findDeliverable(context.env.DB, String(context.params.id));
+  if (!deliverable || deliverable.status !== 'uploading') {
+    return errorResponse(404, getMessages(readLocale(new URL(context.request.url).searchParams.get('locale'))).deliverableUpload.errors.notInProgress);
+  }
+
+  if (context.env.DELIVERABLES && deliverable.uploadId) {
+    // Çok parçalı yükleme zaten kapanmışsa R2 hata verir; kayıt yine de silinmeli
+    await context.env.DELIVERABLES.resumeMultipartUpload(deliverable.r2Key, deliverable.uploadId)
+      .abort()
+      .catch((err) => console.warn('[deliverables] Abort failed:', deliverable.id, err));
+  }
+  await deleteUploadingDeliverable(context.env.DB, deliverable.id);
+  return jsonResponse({ ok: true });
+};
@@ -0,0 +1,114 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { sendMailgunEmail } from '../../../mailgun';
+import { renderEmail } from '../../../../email';
+import { jsonResponse, errorResponse } from '../../../../lib/http';
+import { findAccountById, type SessionData } from '../../../../lib/auth';
+import {
+  deleteUploadingDeliverable,
+  findDeliverable,
+  markDeliverableReady,
+  resetNotified,
+  takeUnnotifiedDeliverables,
+  type DeliverableRecord,
+  type DeliverablesEnv,
+} from '../../../../lib/deliverables';
+import { partCount } from '../../../../../shared/deliverables';
+import { format, getMessages, localizePath, readLocale } from '../../../../../shared/i18n';
+
+/**
+ * Staff - yüklemeyi tamamlar
+ * POST ?locale= { parts: [{ partNumber, etag }], notify? } -> { ok, notified }
+ * notify: true ise projede henüz bildirilmemiş tüm hazır dosyalar tek e-postayla müşteriye bildirilir;
+ * çoklu yüklemede yalnızca son dosya notify ile tamamlanır. Tamamlanmış yükleme için tekrar çağrılabilir.
+ */
+type Env = DeliverablesEnv & {
+  MAILGUN_API_KEY: string;
+  MAILGUN_DOMAIN: string;
+  MAIL_TRANSPORT?: 'mailgun' | 'console';
+};
+
+const isUploadedPart = (value: unknown): value is { partNumber: number; etag: string } =>
+  Boolean(value) &&
+  Number.isInteger((value as Record<string, unknown>).partNumber) &&
+  typeof (value as Record<string, unknown>).etag === 'string';
+
+async function notifyClient(env: Env, deliverable: DeliverableRecord, requestUrl: string, staffEmail: string): Promise<boolean> {
+  const files = await takeUnnotifiedDeliverables(env.DB, deliverable.projectId);
+  if (files.length === 0) return true;
+
+  const account = await findAccountById(env.DB, deliverable.accountId);
+  const result = account
+    ? await sendMailgunEmail(env, {
+        to: account.email,
+        from: 'contact@notify.hekamap.com',
+        replyTo: staffEmail,
+        ...renderEmail(
+          'deliverablesReady',
+          {
+            name: account.name || undefined,
+            projectName: deliverable.projectName,
+            files,
+            portalUrl: new URL(localizePath('/portal', account.locale), requestUrl).toString(),
+          },
+          account.locale
+        ),
+      })
+    : { ok: false, error: 'Hesap bulunamadı' };
+
+  if (!result.ok) {
+    console.error('[deliverables] Notification failed:', deliverable.projectId, result.error);
+    await resetNotified(env.DB, files.map((file) => file.id));
+  }
+  return result.ok;
+}
+
+export const onRequest: PagesFunction<Env, 'id', SessionData> = async (context) => {
+  if (context.request.method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+  const messages = getMessages(readLocale(new URL(context.request.url).searchParams.get('locale')));
+  const m = messages.deliverableUpload.errors;
+  const bucket = context.env.DELIVERABLES;
+  if (!bucket) {
+    return errorResponse(503, m.storageUnavailable);
+  }
+
+  let body: { parts?: unknown; notify?: unknown };
+  try {
+    body = await context.request.json();
+  } catch {
+    return errorResponse(400, messages.validation.invalidBody);
+  }
+
+  const deliverable = await findDeliverable(context.env.DB, String(context.params.id));
+  if (!deliverable) {
+    return errorResponse(404, m.notFound);
+  }
+
+  if (deliverable.status === 'uploading') {
+    const parts = Array.isArray(body?.parts) ? body.parts.filter(isUploadedPart) : [];
+    if (parts.length !== partCount(deliverable.size) || !deliverable.uploadId) {
+      return errorResponse(400, m.partsMissing);
+    }
+    try {
+      const upload = bucket.resumeMultipartUpload(deliverable.r2Key, deliverable.uploadId);
+      const object = await upload.complete([...parts].sort((a, b) => a.partNumber - b.partNumber));
+      if (object.size !== deliverable.size) {
+        // Bildirilen boyutla uyuşmayan dosya portalda yanlış görünürdü; dosya ve kayıt silinir, yükleme baştan yapılır
+        await bucket.delete(deliverable.r2Key);
+        await deleteUploadingDeliverable(context.env.DB, deliverable.id);
+        return errorResponse(400, format(m.sizeMismatch, { actual: object.size, expected: deliverable.size }));
+      }
+      await markDeliverableReady(context.env.DB, deliverable.id);
+    } catch (err) {
+      console.error('[deliverables] Complete failed:', deliverable.id, err);
+      return errorResponse(502, m.completeFailed);
+    }
+  }
+
+  const notified =
+    body?.notify === true
+      ? await notifyClient(context.env, deliverable, context.request.url, context.data.session.account.email)
+      : false;
+  return jsonResponse({ ok: true, notified });
+};
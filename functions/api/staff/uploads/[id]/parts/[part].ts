@@ -0,0 +1,47 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../../../../lib/http';
+import type { SessionData } from '../../../../../lib/auth';
+import { findDeliverable, type DeliverablesEnv } from '../../../../../lib/deliverables';
+import { DELIVERABLE_PART_SIZE, partCount } from '../../../../../../shared/deliverables';
+import { format, getMessages, readLocale } from '../../../../../../shared/i18n';
+
+/**
+ * Staff - yükleme parçası
+ * PUT ?locale= (gövde: dosyanın <part>. dilimi, 1'den başlar) -> { ok, part: { partNumber, etag } }
+ * R2 son parça dışındaki parçaların eşit boyutta olmasını istediğinden Content-Length beklenen dilimle aynı olmalı.
+ */
+export const onRequest: PagesFunction<DeliverablesEnv, 'id' | 'part', SessionData> = async (context) => {
+  if (context.request.method !== 'PUT') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+  const m = getMessages(readLocale(new URL(context.request.url).searchParams.get('locale'))).deliverableUpload.errors;
+  const bucket = context.env.DELIVERABLES;
+  if (!bucket) {
+    return errorResponse(503, m.storageUnavailable);
+  }
+
+  const deliverable = await findDeliverable(context.env.DB, String(context.params.id));
+  if (!deliverable || deliverable.status !== 'uploading' || !deliverable.uploadId) {
+    return errorResponse(404, m.notInProgress);
+  }
+
+  const partNumber = Number(context.params.part);
+  const parts = partCount(deliverable.size);
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > parts) {
+    return errorResponse(400, m.invalidPart);
+  }
+  const expectedLength =
+    partNumber < parts ? DELIVERABLE_PART_SIZE : deliverable.size - (parts - 1) * DELIVERABLE_PART_SIZE;
+  if (Number(context.request.headers.get('Content-Length')) !== expectedLength || !context.request.body) {
+    return errorResponse(400, format(m.partLength, { part: partNumber, bytes: expectedLength }));
+  }
+
+  try {
+    const upload = bucket.resumeMultipartUpload(deliverable.r2Key, deliverable.uploadId);
+    const part = await upload.uploadPart(partNumber, context.request.body);
+    return jsonResponse({ ok: true, part: { partNumber: part.partNumber, etag: part.etag } });
+  } catch (err) {
+    console.error('[deliverables] Part upload failed:', deliverable.id, partNumber, err);
+    return errorResponse(502, m.partFailed);
+  }
+};
@@ -0,0 +1,55 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import { isSameOriginRequest } from '../../lib/auth';
+import { cancelSurveyBooking, findSurveyBookingByToken, signSurveyToken, toBookingInfo } from '../../lib/surveys';
+import { sendSurveyInvites, type SurveyMailEnv } from './invites';
+import { DEFAULT_LOCALE, getMessages, readLocale } from '../../../shared/i18n';
+
+/**
+ * Saha keşfi - yönetim bağlantısı
+ * POST { token, locale? } -> { ok, booking, token } ; randevu saatinden sonra ya da zaten iptal edildiyse 409.
+ * Müşteriye ve personele METHOD:CANCEL davet gider; takvimlerden etkinlik kalkar.
+ * Yönetim anahtarı yenilenir: eski bağlantı geçersiz olur, sayfa yanıttaki belirteçle devam eder.
+ */
+export const onRequest: PagesFunction<SurveyMailEnv> = async (context) => {
+  if (context.request.method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+  if (!isSameOriginRequest(context.request)) {
+    return errorResponse(403, 'Forbidden');
+  }
+
+  let body: { token?: unknown; locale?: unknown };
+  try {
+    body = await context.request.json();
+  } catch {
+    return errorResponse(400, getMessages(DEFAULT_LOCALE).validation.invalidBody);
+  }
+  const messages = getMessages(readLocale(body?.locale));
+
+  const secret = context.env.SESSION_SECRET;
+  if (!secret) {
+    return errorResponse(400, messages.surveys.manage.invalidLink);
+  }
+
+  try {
+    const current = await findSurveyBookingByToken(context.env.DB, secret, body?.token);
+    if (!current) {
+      return errorResponse(400, messages.surveys.manage.invalidLink);
+    }
+    const booking = await cancelSurveyBooking(context.env.DB, current);
+    if (!booking) {
+      return errorResponse(409, messages.surveys.manage.locked);
+    }
+    const emailed = await sendSurveyInvites(context.env, booking, 'cancelled', { requestUrl: context.request.url }).catch(
+      (err) => {
+        console.error('[surveys] Invite exception:', booking.id, err);
+        return false;
+      }
+    );
+    return jsonResponse({ ok: true, booking: toBookingInfo(booking), token: await signSurveyToken(secret, booking), emailed });
+  } catch (err: any) {
+    console.error('[surveys] Cancel failed:', err);
+    return errorResponse(500, messages.surveys.manage.failed);
+  }
+};
@@ -0,0 +1,69 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import { isSameOriginRequest } from '../../lib/auth';
+import { confirmSurveyBooking, findSurveyBooking, findSurveyBookingByToken, toBookingInfo } from '../../lib/surveys';
+import { sendSurveyInvites, type SurveyMailEnv } from './invites';
+import { validateSurveyDetails } from '../../../shared/surveys';
+import { DEFAULT_LOCALE, getMessages, readLocale } from '../../../shared/i18n';
+
+/**
+ * Saha keşfi - public
+ * POST { token, details: { firstName, lastName, email, phone, address, notes }, leadId?, locale? } -> { ok, booking, emailed }
+ * Tutulan dilimi onaylar; müşteriye ve personele .ics davetli e-posta gider. Tutma süresi dolduysa 409.
+ * leadId: iletişim formundan gelindiyse talep numarası; randevu aynı e-postayla bırakılmış talebe bağlanır.
+ */
+export const onRequest: PagesFunction<SurveyMailEnv> = async (context) => {
+  if (context.request.method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+  if (!isSameOriginRequest(context.request)) {
+    return errorResponse(403, 'Forbidden');
+  }
+
+  let body: { token?: unknown; details?: unknown; leadId?: unknown; locale?: unknown };
+  try {
+    body = await context.request.json();
+  } catch {
+    return errorResponse(400, getMessages(DEFAULT_LOCALE).validation.invalidBody);
+  }
+  const locale = readLocale(body?.locale);
+  const messages = getMessages(locale);
+
+  const secret = context.env.SESSION_SECRET;
+  if (!secret) {
+    return errorResponse(400, messages.surveys.manage.invalidLink);
+  }
+
+  const validation = validateSurveyDetails(body.details, locale);
+  if (validation.ok === false) {
+    return errorResponse(400, messages.validation.checkFields, { fieldErrors: validation.errors });
+  }
+
+  try {
+    const held = await findSurveyBookingByToken(context.env.DB, secret, body.token);
+    if (!held) {
+      return errorResponse(400, messages.surveys.manage.invalidLink);
+    }
+    const leadId = typeof body.leadId === 'string' && body.leadId.trim() ? body.leadId.trim().slice(0, 40) : null;
+    const booking = await confirmSurveyBooking(context.env.DB, held.id, validation.data, { leadId, locale });
+    if (!booking) {
+      // Aynı belirteçle tekrar gönderilen onay (çift tıklama) başarılı sayılır
+      const existing = await findSurveyBooking(context.env.DB, held.id);
+      if (existing?.status === 'confirmed' && existing.email === validation.data.email) {
+        return jsonResponse({ ok: true, booking: toBookingInfo(existing), emailed: true });
+      }
+      return errorResponse(409, messages.surveys.holdExpired);
+    }
+
+    const emailed = await sendSurveyInvites(context.env, booking, 'confirmed', { requestUrl: context.request.url }).catch(
+      (err) => {
+        console.error('[surveys] Invite exception:', booking.id, err);
+        return false;
+      }
+    );
+    return jsonResponse({ ok: true, booking: toBookingInfo(booking), emailed });
+  } catch (err: any) {
+    console.error('[surveys] Confirm failed:', err);
+    return errorResponse(500, messages.surveys.failed);
+  }
+};
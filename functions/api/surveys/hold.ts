@@ -0,0 +1,82 @@
+import type { KVNamespace, PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import { getKeyValueStore } from '../../lib/kv';
+import { hashClientIp } from '../../lib/leads';
+import { checkRateLimits, getClientIp, type RateLimitRule } from '../../lib/rateLimit';
+import { isSameOriginRequest, type AuthEnv } from '../../lib/auth';
+import { holdSlot, signSurveyToken } from '../../lib/surveys';
+import { isSurveyKind } from '../../../shared/surveys';
+import { DEFAULT_LOCALE, getMessages, readLocale } from '../../../shared/i18n';
+
+/**
+ * Saha keşfi - public
+ * POST { startsAt, kind, locale? } -> { ok, token, bookingId, expiresAt }
+ * Dilim SURVEY_HOLD_MINUTES boyunca ziyaretçiye ayrılır; bilgiler confirm ile gönderilmezse kendiliğinden boşalır.
+ * Dönen belirteç onayda ve sonrasında yönetim bağlantısında kullanılır.
+ */
+type Env = AuthEnv & {
+  KV?: KVNamespace;
+  IP_HASH_SALT?: string;
+};
+
+// Dilimleri tutup bırakarak takvimi kilitlemeyi zorlaştırır
+const IP_RATE_LIMIT: RateLimitRule = { name: 'survey-hold:ip', limit: 10, windowSeconds: 60 * 60 };
+
+export const onRequest: PagesFunction<Env> = async (context) => {
+  if (context.request.method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+  if (!isSameOriginRequest(context.request)) {
+    return errorResponse(403, 'Forbidden');
+  }
+
+  let body: { startsAt?: unknown; kind?: unknown; locale?: unknown };
+  try {
+    body = await context.request.json();
+  } catch {
+    return errorResponse(400, getMessages(DEFAULT_LOCALE).validation.invalidBody);
+  }
+  const locale = readLocale(body?.locale);
+  const messages = getMessages(locale);
+
+  if (!context.env.SESSION_SECRET) {
+    console.error('[surveys] SESSION_SECRET is not configured');
+    return errorResponse(503, messages.surveys.failed);
+  }
+  if (typeof body?.startsAt !== 'string' || Number.isNaN(Date.parse(body.startsAt)) || !isSurveyKind(body.kind)) {
+    return errorResponse(400, messages.validation.invalidBody);
+  }
+
+  const clientIp = getClientIp(context.request);
+  const rateLimit = await checkRateLimits(getKeyValueStore(context.env.KV), [
+    { rule: IP_RATE_LIMIT, identifier: clientIp },
+  ]);
+  if (rateLimit.allowed === false) {
+    console.warn('[surveys] Rate limited:', rateLimit.rule);
+    return jsonResponse(
+      { ok: false, error: messages.validation.rateLimited, retryAfter: rateLimit.retryAfter },
+      { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfter) } }
+    );
+  }
+
+  try {
+    const booking = await holdSlot(context.env.DB, {
+      startsAt: body.startsAt,
+      kind: body.kind,
+      locale,
+      ipHash: await hashClientIp(clientIp, context.env.IP_HASH_SALT),
+    });
+    if (!booking) {
+      return errorResponse(409, messages.surveys.slotTaken);
+    }
+    return jsonResponse({
+      ok: true,
+      token: await signSurveyToken(context.env.SESSION_SECRET, booking),
+      bookingId: booking.id,
+      expiresAt: booking.holdExpiresAt,
+    });
+  } catch (err: any) {
+    console.error('[surveys] Hold failed:', err);
+    return errorResponse(500, messages.surveys.failed);
+  }
+};
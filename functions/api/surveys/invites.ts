@@ -0,0 +1,138 @@
+import { sendMailgunEmail } from '../mailgun';
+import { renderEmail } from '../../email';
+import type { SurveyAppointmentData } from '../../email/templates/surveyAppointment';
+import { findAccountById, type AuthEnv } from '../../lib/auth';
+import { buildCalendarInvite, type CalendarPerson } from '../../lib/ics';
+import { signSurveyToken, type SurveyBookingRecord } from '../../lib/surveys';
+import { getMessages, localizePath } from '../../../shared/i18n';
+
+/**
+ * Saha keşfi davetleri - onay, saat değişikliği ve iptal e-postaları
+ * Müşteriye ve randevuya giden personele aynı UID'li .ics eki gönderilir; takvim uygulaması
+ * SEQUENCE arttıkça etkinliği günceller. Personel değişirse eski personele iptal, yenisine davet gider.
+ */
+export type SurveyMailEnv = AuthEnv & {
+  MAILGUN_API_KEY: string;
+  MAILGUN_DOMAIN: string;
+  MAIL_TRANSPORT?: 'mailgun' | 'console';
+};
+
+const ORGANIZER: CalendarPerson = { name: 'HEKAMAP', email: 'contact@notify.hekamap.com' };
+// Personel hesabı bulunamazsa müşterinin yanıtı iletişim formunun adresine gider
+const FALLBACK_REPLY_TO = 'halit@hekamap.com';
+
+/** Yönetim bağlantısı e-postada ve onay yanıtında aynıdır: /kesif/yonet?token=... */
+export async function surveyManageUrl(env: SurveyMailEnv, booking: SurveyBookingRecord, requestUrl: string): Promise<string> {
+  const url = new URL(localizePath('/kesif/yonet', booking.locale), requestUrl);
+  url.searchParams.set('token', await signSurveyToken(env.SESSION_SECRET, booking));
+  return url.toString();
+}
+
+function inviteAttachment(booking: SurveyBookingRecord, method: 'REQUEST' | 'CANCEL', attendees: CalendarPerson[]) {
+  const messages = getMessages(booking.locale);
+  const kind = messages.surveys.kinds[booking.kind];
+  const ics = buildCalendarInvite({
+    uid: `${booking.id}@hekamap.com`,
+    sequence: booking.sequence,
+    method,
+    start: booking.startsAt,
+    end: booking.endsAt,
+    summary: `${messages.surveys.calendarSummary} - ${kind} [${booking.id}]`,
+    description: [booking.phone, booking.notes].filter(Boolean).join('\n'),
+    location: booking.address,
+    organizer: ORGANIZER,
+    attendees,
+  });
+  return {
+    filename: method === 'CANCEL' ? 'iptal.ics' : 'davet.ics',
+    data: new Blob([ics], { type: 'text/calendar' }),
+    contentType: `text/calendar; charset=utf-8; method=${method}`,
+  };
+}
+
+/**
+ * Müşteriye ve personele davet gönderir; gönderilemeyenler günlüğe yazılır.
+ * previous: saat değişikliğinden önceki kayıt; randevu başka personele geçtiyse eskisine eski saatle iptal gider
+ */
+export async function sendSurveyInvites(
+  env: SurveyMailEnv,
+  booking: SurveyBookingRecord,
+  change: SurveyAppointmentData['change'],
+  options: { requestUrl: string; previous?: SurveyBookingRecord }
+): Promise<boolean> {
+  const method = change === 'cancelled' ? 'CANCEL' : 'REQUEST';
+  const client: CalendarPerson = { name: `${booking.firstName} ${booking.lastName}`.trim(), email: booking.email };
+  const staff = await findAccountById(env.DB, booking.staffId);
+  const staffPerson: CalendarPerson | null = staff ? { name: staff.name, email: staff.email } : null;
+  const attendees = staffPerson ? [client, staffPerson] : [client];
+
+  const data: SurveyAppointmentData = {
+    change,
+    audience: 'client',
+    bookingId: booking.id,
+    kind: booking.kind,
+    startsAt: booking.startsAt,
+    endsAt: booking.endsAt,
+    address: booking.address,
+    client: { name: client.name, email: booking.email, phone: booking.phone, notes: booking.notes },
+    leadId: booking.leadId,
+  };
+  const key = `survey:${booking.id}:${booking.sequence}`;
+
+  const sends = [
+    sendMailgunEmail(env, {
+      to: booking.email,
+      from: 'contact@notify.hekamap.com',
+      replyTo: staff?.email || FALLBACK_REPLY_TO,
+      idempotencyKey: `${key}:client`,
+      attachments: [inviteAttachment(booking, method, attendees)],
+      ...renderEmail(
+        'surveyAppointment',
+        { ...data, manageUrl: await surveyManageUrl(env, booking, options.requestUrl) },
+        booking.locale
+      ),
+    }),
+  ];
+  if (staff) {
+    sends.push(
+      sendMailgunEmail(env, {
+        to: staff.email,
+        from: 'contact@notify.hekamap.com',
+        replyTo: booking.email,
+        idempotencyKey: `${key}:staff:${staff.id}`,
+        attachments: [inviteAttachment(booking, method, attendees)],
+        ...renderEmail('surveyAppointment', { ...data, audience: 'staff' }, staff.locale),
+      })
+    );
+  } else {
+    console.error('[surveys] Staff account not found:', booking.staffId);
+  }
+
+  const previous = options.previous;
+  if (previous && previous.staffId !== booking.staffId) {
+    const previousStaff = await findAccountById(env.DB, previous.staffId);
+    if (previousStaff) {
+      // Eski personelin takvimindeki etkinlik aynı UID ve yeni SEQUENCE ile silinir
+      const cancelled = { ...previous, sequence: booking.sequence };
+      sends.push(
+        sendMailgunEmail(env, {
+          to: previousStaff.email,
+          from: 'contact@notify.hekamap.com',
+          replyTo: booking.email,
+          idempotencyKey: `${key}:staff:${previousStaff.id}`,
+          attachments: [inviteAttachment(cancelled, 'CANCEL', [{ name: previousStaff.name, email: previousStaff.email }])],
+          ...renderEmail(
+            'surveyAppointment',
+            { ...data, change: 'cancelled', audience: 'staff', startsAt: previous.startsAt, endsAt: previous.endsAt },
+            previousStaff.locale
+          ),
+        })
+      );
+    }
+  }
+
+  const results = await Promise.all(sends);
+  const failed = results.filter((result) => !result.ok);
+  failed.forEach((result) => console.error('[surveys] Invite email failed:', booking.id, change, result.error));
+  return failed.length === 0;
+}
@@ -0,0 +1,23 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import type { AuthEnv } from '../../lib/auth';
+import { findSurveyBookingByToken, toBookingInfo } from '../../lib/surveys';
+
+/**
+ * Saha keşfi - yönetim bağlantısı
+ * GET ?token= -> { ok, booking: SurveyBookingInfo } ; tutma aşamasındaki randevular gösterilmez
+ */
+export const onRequest: PagesFunction<AuthEnv> = async (context) => {
+  if (context.request.method !== 'GET') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const token = new URL(context.request.url).searchParams.get('token');
+  const booking = context.env.SESSION_SECRET
+    ? await findSurveyBookingByToken(context.env.DB, context.env.SESSION_SECRET, token)
+    : null;
+  if (!booking || booking.status === 'held' || booking.status === 'expired') {
+    return errorResponse(404, 'Randevu bulunamadı');
+  }
+  return jsonResponse({ ok: true, booking: toBookingInfo(booking) }, { headers: { 'Cache-Control': 'no-store' } });
+};
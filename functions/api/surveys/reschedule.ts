@@ -0,0 +1,67 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import { isSameOriginRequest } from '../../lib/auth';
+import { findSurveyBookingByToken, rescheduleSurveyBooking, signSurveyToken, toBookingInfo } from '../../lib/surveys';
+import { sendSurveyInvites, type SurveyMailEnv } from './invites';
+import { DEFAULT_LOCALE, getMessages, readLocale } from '../../../shared/i18n';
+
+/**
+ * Saha keşfi - yönetim bağlantısı
+ * POST { token, startsAt, locale? } -> { ok, booking, token }
+ * Dilim doluysa 409 (slotTaken), randevu geçmiş ya da iptal edilmişse 409 (locked).
+ * Güncel davet aynı UID ve artan SEQUENCE ile gönderilir; personel değiştiyse eski personele iptal gider.
+ * Yönetim anahtarı yenilenir: eski bağlantı geçersiz olur, sayfa yanıttaki belirteçle devam eder.
+ */
+export const onRequest: PagesFunction<SurveyMailEnv> = async (context) => {
+  if (context.request.method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+  if (!isSameOriginRequest(context.request)) {
+    return errorResponse(403, 'Forbidden');
+  }
+
+  let body: { token?: unknown; startsAt?: unknown; locale?: unknown };
+  try {
+    body = await context.request.json();
+  } catch {
+    return errorResponse(400, getMessages(DEFAULT_LOCALE).validation.invalidBody);
+  }
+  const messages = getMessages(readLocale(body?.locale));
+
+  const secret = context.env.SESSION_SECRET;
+  if (!secret) {
+    return errorResponse(400, messages.surveys.manage.invalidLink);
+  }
+  if (typeof body.startsAt !== 'string' || Number.isNaN(Date.parse(body.startsAt))) {
+    return errorResponse(400, messages.validation.invalidBody);
+  }
+
+  try {
+    const previous = await findSurveyBookingByToken(context.env.DB, secret, body.token);
+    if (!previous) {
+      return errorResponse(400, messages.surveys.manage.invalidLink);
+    }
+    if (previous.status !== 'confirmed') {
+      return errorResponse(409, messages.surveys.manage.locked);
+    }
+    const booking = await rescheduleSurveyBooking(context.env.DB, previous, body.startsAt);
+    if (booking === 'unavailable') {
+      return errorResponse(409, messages.surveys.slotTaken);
+    }
+    if (!booking) {
+      return errorResponse(409, messages.surveys.manage.locked);
+    }
+
+    const emailed = await sendSurveyInvites(context.env, booking, 'rescheduled', {
+      requestUrl: context.request.url,
+      previous,
+    }).catch((err) => {
+      console.error('[surveys] Invite exception:', booking.id, err);
+      return false;
+    });
+    return jsonResponse({ ok: true, booking: toBookingInfo(booking), token: await signSurveyToken(secret, booking), emailed });
+  } catch (err: any) {
+    console.error('[surveys] Reschedule failed:', err);
+    return errorResponse(500, messages.surveys.manage.failed);
+  }
+};
@@ -0,0 +1,23 @@
+import type { D1Database, PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import { listAvailableSlots } from '../../lib/surveys';
+
+/**
+ * Saha keşfi - public
+ * GET -> { ok, slots: [{ startsAt, endsAt }] } ; tüm personelin boş dilimleri birleşik, başlangıca göre sıralı
+ */
+type Env = { DB: D1Database };
+
+export const onRequest: PagesFunction<Env> = async (context) => {
+  if (context.request.method !== 'GET') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  try {
+    const slots = await listAvailableSlots(context.env.DB);
+    return jsonResponse({ ok: true, slots }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (err: any) {
+    console.error('[surveys] Slot listing failed:', err);
+    return errorResponse(500, 'Uygun saatler yüklenemedi');
+  }
+};
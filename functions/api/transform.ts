@@ -0,0 +1,160 @@
+import type { KVNamespace, PagesFunction, Response as CfResponse } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../lib/http';
+import { getKeyValueStore } from '../lib/kv';
+import { checkRateLimits, getClientIp, type RateLimitRule } from '../lib/rateLimit';
+import {
+  COORDINATE_SYSTEMS,
+  coordinateDecimals,
+  findCoordinateSystem,
+  transformPoint,
+  type CoordinateSystem,
+} from '../../shared/geo/transform';
+import { POINT_CSV_MAX_ROWS, readPointCsv, writePointCsv } from '../../shared/geo/formats/pointCsv';
+import { DEFAULT_LOCALE, format, getMessages, readLocale, type Messages } from '../../shared/i18n';
+
+/**
+ * Koordinat dönüştürme - public, kimlik doğrulaması gerekmez
+ * GET -> { ok, systems }
+ * POST { from, to, points: [{ id?, x, y }], locale? } -> { ok, from, to, points: [{ id, x, y } | { id, error }] }
+ * POST text/csv ?from=&to=&locale= -> dönüştürülmüş CSV (dönüştürülemeyen satırlar son sütunda açıklanır)
+ * Koordinat sırası: coğrafi sistemlerde x = boylam, y = enlem; projeksiyonlu sistemlerde x = sağa (Y), y = yukarı (X).
+ */
+type Env = {
+  KV?: KVNamespace;
+};
+
+// Toplu dönüşüm sayfadan ve betiklerden çağrılır; hesap ucuz olduğundan sınır geniştir
+const IP_RATE_LIMIT: RateLimitRule = { name: 'transform:ip', limit: 120, windowSeconds: 60 * 60 };
+
+// POINT_CSV_MAX_ROWS satırlık bir dosya için yeterli
+const MAX_BODY_BYTES = 1024 * 1024;
+
+const round = (value: number, decimals: number) => Number(value.toFixed(decimals));
+
+/** Hedef sistemin CSV sütun başlıkları: nokta, x, y */
+function axisHeader(system: CoordinateSystem, messages: Messages): string[] {
+  const csv = messages.coordinates.csv;
+  return system.kind === 'geographic' ? [csv.id, csv.longitude, csv.latitude] : [csv.id, csv.easting, csv.northing];
+}
+
+export const onRequest: PagesFunction<Env> = async (context) => {
+  const { request } = context;
+  if (request.method === 'GET') {
+    return jsonResponse({ ok: true, systems: COORDINATE_SYSTEMS });
+  }
+  if (request.method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const url = new URL(request.url);
+  const isCsv = (request.headers.get('Content-Type') ?? '').startsWith('text/');
+  if (Number(request.headers.get('Content-Length') ?? 0) > MAX_BODY_BYTES) {
+    return errorResponse(413, getMessages(readLocale(url.searchParams.get('locale'))).coordinates.errors.tooLarge);
+  }
+
+  let body: { from?: unknown; to?: unknown; points?: unknown; locale?: unknown } = {};
+  let text = '';
+  try {
+    if (isCsv) {
+      text = await request.text();
+    } else {
+      body = await request.json();
+    }
+  } catch {
+    return errorResponse(400, getMessages(DEFAULT_LOCALE).validation.invalidBody);
+  }
+  const locale = readLocale(isCsv ? url.searchParams.get('locale') : body?.locale);
+  const messages = getMessages(locale);
+  const m = messages.coordinates;
+
+  if (text.length > MAX_BODY_BYTES) {
+    return errorResponse(413, m.errors.tooLarge);
+  }
+  const from = findCoordinateSystem(isCsv ? url.searchParams.get('from') : body?.from);
+  const to = findCoordinateSystem(isCsv ? url.searchParams.get('to') : body?.to);
+  if (!from || !to) {
+    return errorResponse(400, m.errors.invalidSystem);
+  }
+
+  const rateLimit = await checkRateLimits(getKeyValueStore(context.env.KV), [
+    { rule: IP_RATE_LIMIT, identifier: getClientIp(request) },
+  ]);
+  if (rateLimit.allowed === false) {
+    console.warn('[transform] Rate limited:', rateLimit.rule);
+    return jsonResponse(
+      { ok: false, error: messages.validation.rateLimited, retryAfter: rateLimit.retryAfter },
+      { status: 429, headers: { 'Retry-After': String(rateLimit.retryAfter) } }
+    );
+  }
+
+  const decimals = coordinateDecimals(to);
+
+  if (isCsv) {
+    const csv = readPointCsv(text);
+    if (csv === 'empty') {
+      return errorResponse(400, m.errors.empty);
+    }
+    if (csv === 'too-many-rows') {
+      return errorResponse(400, format(m.errors.tooManyRows, { max: POINT_CSV_MAX_ROWS }));
+    }
+
+    let failed = 0;
+    const rows = csv.rows.map((row) => {
+      if ('error' in row) {
+        failed++;
+        return { id: row.id, extra: row.extra, note: m.errors.invalidNumber };
+      }
+      const result = transformPoint({ x: row.x, y: row.y }, from, to);
+      if (result.ok === false) {
+        failed++;
+        return { id: row.id, extra: row.extra, note: m.errors.outOfRange };
+      }
+      return { id: row.id, x: result.point.x, y: result.point.y, extra: row.extra };
+    });
+
+    // Ek sütunların başlıkları kaynak dosyadan alınır
+    const extraCount = Math.max(0, ...rows.map((row) => row.extra.length));
+    const sourceExtra = csv.header ? csv.header.slice(csv.header.length - extraCount) : [];
+    const header = [...axisHeader(to, messages), ...Array.from({ length: extraCount }, (_, index) => sourceExtra[index] ?? '')];
+    const output = writePointCsv(rows, {
+      delimiter: csv.delimiter,
+      decimalComma: csv.decimalComma,
+      decimals,
+      header,
+      noteHeader: m.csv.note,
+    });
+
+    // BOM: Excel'in dosyayı UTF-8 olarak açması için
+    return new Response(`\uFEFF${output}`, {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="koordinat-${to.id}.csv"`,
+        'Cache-Control': 'no-store',
+        'X-Transform-Rows': String(rows.length),
+        'X-Transform-Errors': String(failed),
+      },
+    }) as unknown as CfResponse;
+  }
+
+  if (!Array.isArray(body?.points) || body.points.length === 0) {
+    return errorResponse(400, messages.validation.invalidBody);
+  }
+  if (body.points.length > POINT_CSV_MAX_ROWS) {
+    return errorResponse(400, format(m.errors.tooManyRows, { max: POINT_CSV_MAX_ROWS }));
+  }
+
+  const points = body.points.map((input: unknown, index: number) => {
+    const point = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+    const id = typeof point.id === 'string' || typeof point.id === 'number' ? String(point.id).slice(0, 100) : String(index + 1);
+    if (typeof point.x !== 'number' || typeof point.y !== 'number') {
+      return { id, error: m.errors.invalidNumber };
+    }
+    const result = transformPoint({ x: point.x, y: point.y }, from, to);
+    if (result.ok === false) {
+      return { id, error: m.errors.outOfRange };
+    }
+    return { id, x: round(result.point.x, decimals), y: round(result.point.y, decimals) };
+  });
+
+  return jsonResponse({ ok: true, from, to, points });
+};
@@ -0,0 +1,35 @@
+import type { PagesFunction } from '@cloudflare/workers-types';
+import { jsonResponse, errorResponse } from '../../lib/http';
+import { timingSafeEqual } from '../../lib/crypto';
+import { processWebhookQueue, type WebhookEnv } from '../../lib/webhooks';
+
+type Env = WebhookEnv & {
+  /** Zamanlanmış tetikleyicinin (ör. cron'lu bir Worker) Bearer anahtarı */
+  WEBHOOK_CRON_TOKEN?: string;
+};
+
+/**
+ * Webhook queue runner - Authorization: Bearer <WEBHOOK_CRON_TOKEN>
+ * POST -> { ok, delivered, failed, dead }
+ * Kuyruk yeni olaylarla da boşaltılır; bu uç trafik yokken yeniden denemelerin beklememesi için
+ * birkaç dakikada bir çağrılır. Anahtar tanımlı değilse uç kapalıdır.
+ */
+export const onRequest: PagesFunction<Env> = async (context) => {
+  if (context.request.method !== 'POST') {
+    return errorResponse(405, 'Method Not Allowed');
+  }
+
+  const token = context.env.WEBHOOK_CRON_TOKEN;
+  const provided = (context.request.headers.get('Authorization') || '').replace(/^Bearer\s+/i, '');
+  if (!token || !timingSafeEqual(token, provided)) {
+    return errorResponse(401, 'Unauthorized');
+  }
+
+  try {
+    const summary = await processWebhookQueue(context.env);
+    return jsonResponse({ ok: true, ...summary });
+  } catch (err) {
+    console.error('[webhooks] Kuyruk işlenemedi', err);
+    return errorResponse(500, 'Kuyruk işlenemedi');
+  }
+};
@@ -0,0 +1,80 @@
+import { escapeHtml } from './escape';
+import { LOCALE_TAGS, type Locale } from '../../shared/i18n';
+
+/**
+ * E-posta içerik blokları
+ * Şablonlar HTML yazmaz; blok listesi üretir. Aynı bloklardan hem HTML hem düz metin gövde türetilir,
+ * böylece iki sürüm birbirinden kopamaz.
+ */
+export type EmailBlock =
+  | { type: 'heading'; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'highlight'; label: string; value: string }
+  | { type: 'fields'; rows: Array<{ label: string; value: string }> }
+  | { type: 'message'; title: string; text: string }
+  | { type: 'list'; title?: string; items: Array<{ text: string; emphasis?: boolean }> }
+  | { type: 'button'; label: string; url: string }
+  | { type: 'note'; text: string };
+
+const EMPTY_VALUE = '—';
+
+const display = (value: string) => (value && value.trim() ? value : EMPTY_VALUE);
+
+function blockToHtml(block: EmailBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `<h2 style="color: #10b981; margin: 0 0 16px 0;">${escapeHtml(block.text)}</h2>`;
+    case 'paragraph':
+      return `<p style="margin: 0 0 12px 0; line-height: 1.5;">${escapeHtml(block.text)}</p>`;
+    case 'highlight':
+      return `<p style="background: #ecfdf5; padding: 12px 16px; border-radius: 8px; margin: 16px 0;"><strong>${escapeHtml(block.label)}:</strong> ${escapeHtml(display(block.value))}</p>`;
+    case 'fields':
+      return `<div style="background: #f3f4f6; padding: 16px; border-radius: 8px; margin: 20px 0;">${block.rows
+        .map(
+          (row, i) =>
+            `<p style="margin: ${i === 0 ? '0' : '8px 0 0 0'};"><strong>${escapeHtml(row.label)}:</strong> ${escapeHtml(display(row.value))}</p>`
+        )
+        .join('')}</div>`;
+    case 'message':
+      return `<div style="background: #ffffff; padding: 16px; border: 1px solid #e5e7eb; border-radius: 8px; margin: 20px 0;"><h3 style="margin-top: 0;">${escapeHtml(block.title)}</h3><p style="white-space: pre-wrap; margin: 0;">${escapeHtml(display(block.text))}</p></div>`;
+    case 'list':
+      return `${block.title ? `<h3 style="margin: 20px 0 8px 0;">${escapeHtml(block.title)}</h3>` : ''}<ul style="padding-left: 20px; margin: 0 0 12px 0;">${block.items
+        .map((item) => `<li${item.emphasis ? ' style="font-weight: bold;"' : ''}>${escapeHtml(item.text)}</li>`)
+        .join('')}</ul>`;
+    case 'button':
+      return `<p style="margin: 24px 0;"><a href="${escapeHtml(block.url)}" style="display: inline-block; background: #10b981; color: #ffffff; text-decoration: none; font-weight: bold; padding: 12px 24px; border-radius: 8px;">${escapeHtml(block.label)}</a></p>`;
+    case 'note':
+      return `<p style="color: #6b7280; font-size: 12px; margin: 16px 0 0 0;">${escapeHtml(block.text)}</p>`;
+  }
+}
+
+function blockToText(block: EmailBlock, locale: Locale): string {
+  switch (block.type) {
+    case 'heading':
+      // Büyük harf kuralı dile bağlıdır: Türkçede i → İ, İngilizcede i → I
+      return block.text.toLocaleUpperCase(LOCALE_TAGS[locale]);
+    case 'paragraph':
+    case 'note':
+      return block.text;
+    case 'highlight':
+      return `${block.label}: ${display(block.value)}`;
+    case 'fields':
+      return block.rows.map((row) => `${row.label}: ${display(row.value)}`).join('\n');
+    case 'message':
+      return `${block.title}:\n${display(block.text)}`;
+    case 'list':
+      return [block.title ? `${block.title}:` : '', ...block.items.map((item) => `- ${item.text}`)]
+        .filter(Boolean)
+        .join('\n');
+    case 'button':
+      return `${block.label}: ${block.url}`;
+  }
+}
+
+export function renderBlocksHtml(blocks: EmailBlock[]): string {
+  return blocks.map(blockToHtml).join('\n');
+}
+
+export function renderBlocksText(blocks: EmailBlock[], locale: Locale): string {
+  return blocks.map((block) => blockToText(block, locale)).join('\n\n');
+}
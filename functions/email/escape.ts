@@ -0,0 +1,15 @@
+/**
+ * HTML kaçış yardımcısı
+ * Metin içeriği ve attribute değerleri için güvenlidir (& < > " ').
+ */
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '').replace(/[&<>"']/g, (ch) => HTML_ESCAPES[ch]);
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { renderEmail, type EmailTemplateDataMap, type RenderedEmail } from './index';
+import { LOCALES, type Locale } from '../../shared/i18n';
+
+const contact = {
+  firstName: 'Ayşe',
+  lastName: 'Yılmaz',
+  email: 'ayse@example.com',
+  phone: '+90 532 000 00 00',
+  subject: 'Lidar Hizmeti' as const,
+  message: "Gölbaşı'ndaki 12 dönümlük arazi için <b>halihazır</b> harita & LiDAR taraması istiyoruz.\nSatır 2",
+};
+
+const survey: EmailTemplateDataMap['surveyAppointment'] = {
+  change: 'confirmed',
+  audience: 'client',
+  bookingId: 'SRV-0042',
+  kind: 'aplikasyon',
+  startsAt: '2026-05-12T07:00:00Z',
+  endsAt: '2026-05-12T09:00:00Z',
+  address: 'Ahi Mesut Blv. No:5, Etimesgut/Ankara',
+  client: { name: 'Ayşe Yılmaz', email: 'ayse@example.com', phone: '+90 532 000 00 00', notes: 'Site girişinde bekçiye haber verin.' },
+  leadId: 'LD-2026-0101',
+  manageUrl: 'https://hekamap.com/randevu/yonet?token=abc',
+};
+
+const lead: EmailTemplateDataMap['leadNotification'] = {
+  ...contact,
+  leadId: 'LD-2026-0101',
+  locale: 'en',
+  attachments: [
+    { name: 'parsel.kml', size: 18_432, type: 'application/vnd.google-earth.kml+xml' },
+    { name: 'bozuk.zip', size: 2_048_000, type: 'application/zip' },
+  ],
+  boundaries: [
+    {
+      fileName: 'parsel.kml',
+      summary: {
+        format: 'kml',
+        crs: { name: 'WGS 84', epsg: 4326, kind: 'geographic', wgs84Compatible: true },
+        polygonCount: 1,
+        vertexCount: 5,
+        bbox: [32.71234, 39.81234, 32.71897, 39.81702],
+        areaSquareMeters: 12_045.6,
+        perimeterMeters: 452.3,
+      },
+    },
+    { fileName: 'bozuk.zip', error: 'Shapefile içinde .shp bulunamadı' },
+  ],
+};
+
+const deliverables: EmailTemplateDataMap['deliverablesReady'] = {
+  name: 'Ayşe Yılmaz',
+  projectName: 'Gölbaşı halihazır harita',
+  files: [
+    { fileName: 'ortofoto.tif', size: 734_003_200 },
+    { fileName: 'nokta-bulutu.laz', size: 1_288_490_188 },
+  ],
+  portalUrl: 'https://hekamap.com/portal/projeler/42',
+};
+
+const quote: EmailTemplateDataMap['quoteDocument'] = {
+  quoteId: 'TKL-2026-0008',
+  name: 'Örnek Madencilik A.Ş.',
+  services: ['Halihazır harita', 'LiDAR nokta bulutu'],
+  total: 6_750_000,
+  vatRate: 20,
+  validUntil: '2026-03-31',
+  senderName: 'Halit Kaya',
+};
+
+/**
+ * Her şablon için sabit örnek veri; yerleşimde tarih olmadığından çıktı her çalıştırmada aynıdır.
+ * Randevu şablonunda değişiklik türü ve alıcı çıktıyı değiştirdiği için birden çok örnek vardır.
+ */
+const SAMPLES: Array<[string, (locale: Locale) => RenderedEmail]> = [
+  ['leadNotification', (locale) => renderEmail('leadNotification', lead, locale)],
+  ['customerAcknowledgment', (locale) => renderEmail('customerAcknowledgment', { ...contact, leadId: 'LD-2026-0101' }, locale)],
+  [
+    'accountCreated',
+    (locale) =>
+      renderEmail(
+        'accountCreated',
+        { name: 'Ayşe Yılmaz', activationUrl: 'https://hekamap.com/hesap/etkinlestir?token=abc', expiresInMinutes: 60 },
+        locale
+      ),
+  ],
+  [
+    'passwordReset',
+    (locale) => renderEmail('passwordReset', { resetUrl: 'https://hekamap.com/hesap/sifre?token=abc', expiresInMinutes: 30 }, locale),
+  ],
+  [
+    'magicLink',
+    (locale) =>
+      renderEmail(
+        'magicLink',
+        { name: 'Ayşe Yılmaz', loginUrl: 'https://hekamap.com/giris/baglanti?token=abc', expiresInMinutes: 15 },
+        locale
+      ),
+  ],
+  ['deliverablesReady', (locale) => renderEmail('deliverablesReady', deliverables, locale)],
+  ['surveyAppointment-confirmed-client', (locale) => renderEmail('surveyAppointment', survey, locale)],
+  [
+    'surveyAppointment-rescheduled-client',
+    (locale) => renderEmail('surveyAppointment', { ...survey, change: 'rescheduled', kind: 'topografik' }, locale),
+  ],
+  ['surveyAppointment-cancelled-client', (locale) => renderEmail('surveyAppointment', { ...survey, change: 'cancelled' }, locale)],
+  [
+    'surveyAppointment-confirmed-staff',
+    (locale) => renderEmail('surveyAppointment', { ...survey, audience: 'staff', kind: 'sinir-tespiti' }, locale),
+  ],
+  [
+    'surveyAppointment-cancelled-staff',
+    (locale) => renderEmail('surveyAppointment', { ...survey, change: 'cancelled', audience: 'staff', kind: 'diger' }, locale),
+  ],
+  ['quoteDocument', (locale) => renderEmail('quoteDocument', quote, locale)],
+];
+
+describe.each(LOCALES.map((locale) => [locale]))('renderEmail (%s)', (locale) => {
+  // HTML ve düz metin ayrı dosyalarda tutulur; metin değişiklikleri incelemede satır satır görünür
+  it.each(SAMPLES)('%s', async (sample, render) => {
+    const email = render(locale);
+    expect(email.subject).toMatchSnapshot();
+    await expect(email.html).toMatchFileSnapshot(`./__snapshots__/${sample}.${locale}.html`);
+    await expect(email.text).toMatchFileSnapshot(`./__snapshots__/${sample}.${locale}.txt`);
+  });
+
+  it('kullanıcı girdisi HTML çıktısında kaçışlanır', () => {
+    const { html } = renderEmail('customerAcknowledgment', { ...contact, leadId: 'LD-2026-0101' }, locale);
+    expect(html).not.toContain('<b>halihazır</b>');
+    expect(html).toContain('&lt;b&gt;halihazır&lt;/b&gt;');
+  });
+});
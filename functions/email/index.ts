@@ -0,0 +1,72 @@
+import { renderBlocksHtml, renderBlocksText } from './blocks';
+import { wrapHtmlLayout, wrapTextLayout } from './layout';
+import { leadNotification, type LeadNotificationData } from './templates/leadNotification';
+import { customerAcknowledgment, type CustomerAcknowledgmentData } from './templates/customerAcknowledgment';
+import { accountCreated, type AccountCreatedData } from './templates/accountCreated';
+import { passwordReset, type PasswordResetData } from './templates/passwordReset';
+import { magicLink, type MagicLinkData } from './templates/magicLink';
+import { deliverablesReady, type DeliverablesReadyData } from './templates/deliverablesReady';
+import { surveyAppointment, type SurveyAppointmentData } from './templates/surveyAppointment';
+import { quoteDocument, type QuoteDocumentData } from './templates/quoteDocument';
+import type { EmailTemplateContent } from './templates/types';
+import { DEFAULT_LOCALE, getMessages, type Locale, type Messages } from '../../shared/i18n';
+
+/**
+ * E-posta şablon kayıt defteri
+ * Kullanım: renderEmail('leadNotification', data, locale?) -> { subject, html, text }
+ * Dönen nesne doğrudan sendMailgunEmail seçeneklerine yayılabilir.
+ * Metinler shared/i18n kataloglarından gelir; locale verilmezse Türkçe render edilir.
+ */
+export interface EmailTemplateDataMap {
+  leadNotification: LeadNotificationData;
+  customerAcknowledgment: CustomerAcknowledgmentData;
+  accountCreated: AccountCreatedData;
+  passwordReset: PasswordResetData;
+  magicLink: MagicLinkData;
+  deliverablesReady: DeliverablesReadyData;
+  surveyAppointment: SurveyAppointmentData;
+  quoteDocument: QuoteDocumentData;
+}
+
+export type EmailTemplateName = keyof EmailTemplateDataMap;
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+type EmailTemplate<K extends EmailTemplateName> = (
+  data: EmailTemplateDataMap[K],
+  messages: Messages,
+  locale: Locale
+) => EmailTemplateContent;
+
+const templates: { [K in EmailTemplateName]: EmailTemplate<K> } = {
+  leadNotification,
+  customerAcknowledgment,
+  accountCreated,
+  passwordReset,
+  magicLink,
+  deliverablesReady,
+  surveyAppointment,
+  quoteDocument,
+};
+
+export function renderEmail<K extends EmailTemplateName>(
+  name: K,
+  data: EmailTemplateDataMap[K],
+  locale: Locale = DEFAULT_LOCALE
+): RenderedEmail {
+  const messages = getMessages(locale);
+  const content = templates[name](data, messages, locale);
+  const layout = { preheader: content.preheader, footer: messages.email.footer, locale };
+  return {
+    subject: content.subject,
+    html: wrapHtmlLayout(renderBlocksHtml(content.blocks), layout),
+    text: wrapTextLayout(renderBlocksText(content.blocks, locale), layout),
+  };
+}
+
+export { escapeHtml } from './escape';
+export type { EmailBlock } from './blocks';
@@ -0,0 +1,40 @@
+import { escapeHtml } from './escape';
+import type { Locale } from '../../shared/i18n';
+
+/**
+ * Tüm e-postaların ortak markalı çerçevesi
+ */
+export interface LayoutOptions {
+  /** Gelen kutusu önizlemesinde görünen gizli özet satırı */
+  preheader?: string;
+  footer: string;
+  locale: Locale;
+}
+
+export function wrapHtmlLayout(bodyHtml: string, options: LayoutOptions): string {
+  const preheader = options.preheader
+    ? `<div style="display: none; max-height: 0; overflow: hidden;">${escapeHtml(options.preheader)}</div>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="${options.locale}">
+<head><meta charset="UTF-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"></head>
+<body style="margin: 0; padding: 24px 12px; background: #f5f5f4;">
+${preheader}
+<div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; color: #1c1917;">
+  <div style="background: #0c0a09; padding: 20px 24px; border-radius: 8px 8px 0 0;">
+    <span style="color: #ffffff; font-size: 20px; font-weight: bold; letter-spacing: 2px;">HEKA<span style="color: #10b981;">MAP</span></span>
+  </div>
+  <div style="background: #ffffff; padding: 24px; border: 1px solid #e5e7eb; border-top: none; border-radius: 0 0 8px 8px;">
+${bodyHtml}
+    <hr style="border: none; border-top: 1px solid #e5e7eb; margin: 24px 0;">
+    <p style="color: #6b7280; font-size: 12px; margin: 0;">${escapeHtml(options.footer)}</p>
+  </div>
+</div>
+</body>
+</html>`;
+}
+
+export function wrapTextLayout(bodyText: string, options: LayoutOptions): string {
+  return `HEKAMAP\n\n${bodyText}\n\n--\n${options.footer}`;
+}
@@ -0,0 +1,24 @@
+import { format, type Messages } from '../../../shared/i18n';
+import type { EmailTemplateContent } from './types';
+
+/** auth@notify.hekamap.com: yeni hesap aktivasyonu */
+export interface AccountCreatedData {
+  name?: string;
+  activationUrl: string;
+  expiresInMinutes: number;
+}
+
+export function accountCreated(data: AccountCreatedData, messages: Messages): EmailTemplateContent {
+  const m = messages.email.accountCreated;
+  return {
+    subject: m.subject,
+    preheader: m.preheader,
+    blocks: [
+      { type: 'heading', text: m.heading },
+      { type: 'paragraph', text: data.name ? format(m.greeting, { name: data.name }) : m.greetingAnonymous },
+      { type: 'paragraph', text: m.intro },
+      { type: 'button', label: m.button, url: data.activationUrl },
+      { type: 'note', text: format(m.note, { minutes: data.expiresInMinutes }) },
+    ],
+  };
+}
@@ -0,0 +1,45 @@
+import { CONTACT_RESPONSE_DAYS, CONTACT_SUBJECTS, type ContactPayload } from '../../../shared/contact';
+import { format, formatPlural, type Locale, type Messages } from '../../../shared/i18n';
+import type { EmailTemplateContent } from './types';
+
+/** Formu gönderen kişiye giden onay e-postası; ziyaretçinin dilinde gönderilir */
+export interface CustomerAcknowledgmentData extends ContactPayload {
+  leadId: string;
+}
+
+export function customerAcknowledgment(
+  data: CustomerAcknowledgmentData,
+  messages: Messages,
+  locale: Locale
+): EmailTemplateContent {
+  const m = messages.email.customerAcknowledgment;
+  return {
+    subject: format(m.subject, { leadId: data.leadId }),
+    preheader: format(m.preheader, { leadId: data.leadId }),
+    blocks: [
+      { type: 'heading', text: m.heading },
+      { type: 'paragraph', text: format(m.greeting, { name: data.firstName || m.greetingFallback }) },
+      { type: 'paragraph', text: m.intro },
+      { type: 'highlight', label: m.reference, value: data.leadId },
+      {
+        type: 'fields',
+        rows: [
+          {
+            label: m.subjectLabel,
+            value: data.subject ? messages.contactSubjects[data.subject] : messages.email.fallbackSubject,
+          },
+        ],
+      },
+      { type: 'message', title: m.message, text: data.message },
+      {
+        type: 'list',
+        title: m.responseTimes,
+        items: CONTACT_SUBJECTS.map((s) => ({
+          text: `${messages.contactSubjects[s]}: ${formatPlural(m.responseTime, CONTACT_RESPONSE_DAYS[s], locale)}`,
+          emphasis: s === data.subject,
+        })),
+      },
+      { type: 'note', text: m.replyNote },
+    ],
+  };
+}
@@ -0,0 +1,32 @@
+import { format, type Messages } from '../../../shared/i18n';
+import { formatFileSize } from '../../../shared/attachments';
+import { DOWNLOAD_LINK_TTL_HOURS } from '../../../shared/deliverables';
+import type { EmailTemplateContent } from './types';
+
+/** Müşteriye: projesine yeni teslimat dosyaları yüklendi */
+export interface DeliverablesReadyData {
+  name?: string;
+  projectName: string;
+  files: Array<{ fileName: string; size: number }>;
+  portalUrl: string;
+}
+
+export function deliverablesReady(data: DeliverablesReadyData, messages: Messages): EmailTemplateContent {
+  const m = messages.email.deliverablesReady;
+  return {
+    subject: format(m.subject, { project: data.projectName }),
+    preheader: format(m.preheader, { project: data.projectName }),
+    blocks: [
+      { type: 'heading', text: m.heading },
+      { type: 'paragraph', text: data.name ? format(m.greeting, { name: data.name }) : m.greetingAnonymous },
+      { type: 'paragraph', text: format(m.intro, { project: data.projectName }) },
+      {
+        type: 'list',
+        title: m.files,
+        items: data.files.map((file) => ({ text: `${file.fileName} (${formatFileSize(file.size)})` })),
+      },
+      { type: 'button', label: m.button, url: data.portalUrl },
+      { type: 'note', text: format(m.note, { hours: DOWNLOAD_LINK_TTL_HOURS }) },
+    ],
+  };
+}
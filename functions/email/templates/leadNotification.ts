@@ -0,0 +1,91 @@
+import type { ContactPayload } from '../../../shared/contact';
+import { formatFileSize, type AttachmentInfo } from '../../../shared/attachments';
+import { describeCrs } from '../../../shared/geo/crs';
+import { SQUARE_METERS_PER_HECTARE } from '../../../shared/geo/geodesy';
+import type { BoundarySummary } from '../../../shared/geo/boundary';
+import { CATALOGS, format, formatNumber, type Locale, type Messages } from '../../../shared/i18n';
+import type { EmailBlock } from '../blocks';
+import type { EmailTemplateContent } from './types';
+
+/**
+ * İletişim formundan gelen talebin ekibe bildirimi (halit@hekamap.com)
+ * Ekip Türkçe çalıştığı için Türkçe render edilir; ziyaretçinin dili ayrı bir alan olarak gösterilir.
+ */
+export interface LeadNotificationData extends ContactPayload {
+  leadId: string;
+  /** Formun gönderildiği dil; onay e-postası bu dilde gider */
+  locale: Locale;
+  attachments?: AttachmentInfo[];
+  /** Sınır dosyası olarak okunabilen eklerin özeti ya da okuma hatası */
+  boundaries?: LeadBoundary[];
+}
+
+export type LeadBoundary = { fileName: string } & ({ summary: BoundarySummary } | { error: string });
+
+function describeBoundary(boundary: LeadBoundary, messages: Messages, locale: Locale): string {
+  const m = messages.email.leadNotification;
+  if (!('summary' in boundary)) return format(m.boundaryError, { name: boundary.fileName, error: boundary.error });
+  const { summary } = boundary;
+  const [minLon, minLat, maxLon, maxLat] = summary.bbox.map((v) => v.toFixed(5));
+  return [
+    format(m.boundaryArea, {
+      name: boundary.fileName,
+      area: formatNumber(summary.areaSquareMeters / SQUARE_METERS_PER_HECTARE, locale),
+    }),
+    format(m.boundaryPerimeter, { perimeter: formatNumber(summary.perimeterMeters / 1000, locale) }),
+    format(m.boundaryShape, { polygons: summary.polygonCount, vertices: summary.vertexCount }),
+    format(m.boundaryBBox, { bbox: `${minLon},${minLat} / ${maxLon},${maxLat}` }),
+    describeCrs(summary.crs, locale),
+  ].join(' · ');
+}
+
+export function leadNotification(data: LeadNotificationData, messages: Messages, locale: Locale): EmailTemplateContent {
+  const m = messages.email.leadNotification;
+  const subject = data.subject ? messages.contactSubjects[data.subject] : messages.email.fallbackSubject;
+  const attachments = data.attachments ?? [];
+  const attachmentBlocks: EmailBlock[] = attachments.length
+    ? [
+        {
+          type: 'list',
+          title: format(m.attachments, { count: attachments.length }),
+          items: attachments.map((file) => ({ text: `${file.name} - ${formatFileSize(file.size)}` })),
+        },
+      ]
+    : [];
+  const boundaries = data.boundaries ?? [];
+  const boundaryBlocks: EmailBlock[] = boundaries.length
+    ? [
+        {
+          type: 'list',
+          title: m.boundaries,
+          items: boundaries.map((boundary) => ({
+            text: describeBoundary(boundary, messages, locale),
+            emphasis: !('summary' in boundary),
+          })),
+        },
+      ]
+    : [];
+
+  return {
+    subject: format(m.subject, { subject, leadId: data.leadId }),
+    preheader: `${data.firstName} ${data.lastName} - ${subject}`.trim(),
+    blocks: [
+      { type: 'heading', text: m.heading },
+      {
+        type: 'fields',
+        rows: [
+          { label: m.firstName, value: data.firstName },
+          { label: m.lastName, value: data.lastName },
+          { label: m.email, value: data.email },
+          { label: m.phone, value: data.phone },
+          { label: m.subjectLabel, value: subject },
+          { label: m.reference, value: data.leadId },
+          { label: m.language, value: CATALOGS[data.locale].meta.languageName },
+        ],
+      },
+      { type: 'message', title: m.message, text: data.message },
+      ...attachmentBlocks,
+      ...boundaryBlocks,
+    ],
+  };
+}
@@ -0,0 +1,22 @@
+import { format, type Messages } from '../../../shared/i18n';
+import type { EmailTemplateContent } from './types';
+
+/** auth@notify.hekamap.com: şifre yenileme */
+export interface PasswordResetData {
+  resetUrl: string;
+  expiresInMinutes: number;
+}
+
+export function passwordReset(data: PasswordResetData, messages: Messages): EmailTemplateContent {
+  const m = messages.email.passwordReset;
+  return {
+    subject: m.subject,
+    preheader: m.preheader,
+    blocks: [
+      { type: 'heading', text: m.heading },
+      { type: 'paragraph', text: m.intro },
+      { type: 'button', label: m.button, url: data.resetUrl },
+      { type: 'note', text: format(m.note, { minutes: data.expiresInMinutes }) },
+    ],
+  };
+}
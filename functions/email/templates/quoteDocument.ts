@@ -0,0 +1,39 @@
+import { format, type Locale, type Messages } from '../../../shared/i18n';
+import { formatKurus, formatQuoteDate, type VatRate } from '../../../shared/quotes';
+import type { EmailTemplateContent } from './types';
+
+/** Müşteriye: fiyat teklifi, PDF ekiyle */
+export interface QuoteDocumentData {
+  quoteId: string;
+  name: string;
+  services: string[];
+  total: number;
+  vatRate: VatRate;
+  validUntil: string;
+  senderName: string;
+}
+
+export function quoteDocument(data: QuoteDocumentData, messages: Messages, locale: Locale): EmailTemplateContent {
+  const m = messages.email.quoteDocument;
+  const validUntil = formatQuoteDate(data.validUntil, locale);
+  return {
+    subject: format(m.subject, { id: data.quoteId }),
+    preheader: format(m.preheader, { total: formatKurus(data.total, locale), date: validUntil }),
+    blocks: [
+      { type: 'heading', text: m.heading },
+      { type: 'paragraph', text: format(m.greeting, { name: data.name }) },
+      { type: 'paragraph', text: m.intro },
+      { type: 'highlight', label: format(m.total, { rate: data.vatRate }), value: formatKurus(data.total, locale) },
+      {
+        type: 'fields',
+        rows: [
+          { label: m.reference, value: data.quoteId },
+          { label: m.validUntil, value: validUntil },
+        ],
+      },
+      { type: 'list', title: m.services, items: data.services.map((text) => ({ text })) },
+      { type: 'paragraph', text: format(m.signature, { name: data.senderName }) },
+      { type: 'note', text: m.note },
+    ],
+  };
+}
@@ -0,0 +1,62 @@
+import { format, type Locale, type Messages } from '../../../shared/i18n';
+import { formatSurveyTime, SURVEY_TIME_ZONE, type SurveyKind } from '../../../shared/surveys';
+import type { EmailTemplateContent } from './types';
+
+/**
+ * Saha keşfi randevusu: onay, saat değişikliği ya da iptal
+ * Müşteriye ve randevuya giden personele aynı .ics davetiyle gönderilir; yönetim bağlantısı yalnızca müşteriye eklenir.
+ */
+export interface SurveyAppointmentData {
+  change: 'confirmed' | 'rescheduled' | 'cancelled';
+  audience: 'client' | 'staff';
+  bookingId: string;
+  kind: SurveyKind;
+  startsAt: string;
+  endsAt: string;
+  address: string;
+  client: { name: string; email: string; phone: string; notes: string };
+  leadId?: string | null;
+  manageUrl?: string;
+}
+
+export function surveyAppointment(data: SurveyAppointmentData, messages: Messages, locale: Locale): EmailTemplateContent {
+  const m = messages.email.surveyAppointment;
+  const copy = m[data.change];
+  const when = `${formatSurveyTime(data.startsAt, locale)} – ${formatSurveyTime(data.endsAt, locale, { timeStyle: 'short' })}`;
+  const params = { id: data.bookingId, when };
+
+  const details = [
+    { label: m.reference, value: data.bookingId },
+    { label: m.kind, value: messages.surveys.kinds[data.kind] },
+    { label: m.address, value: data.address },
+  ];
+  if (data.audience === 'staff') {
+    details.push(
+      { label: m.client, value: data.client.name },
+      { label: m.email, value: data.client.email },
+      { label: m.phone, value: data.client.phone }
+    );
+    if (data.leadId) details.push({ label: m.lead, value: data.leadId });
+  }
+
+  return {
+    subject: format(data.audience === 'staff' ? copy.staffSubject : copy.subject, params),
+    preheader: format(copy.preheader, params),
+    blocks: [
+      { type: 'heading', text: copy.heading },
+      ...(data.audience === 'client'
+        ? [{ type: 'paragraph' as const, text: format(m.greeting, { name: data.client.name }) }]
+        : []),
+      { type: 'paragraph', text: format(data.audience === 'staff' ? copy.staffIntro : copy.intro, params) },
+      { type: 'highlight', label: m.when, value: when },
+      { type: 'fields', rows: details },
+      ...(data.audience === 'staff' && data.client.notes
+        ? [{ type: 'message' as const, title: m.notes, text: data.client.notes }]
+        : []),
+      ...(data.manageUrl && data.change !== 'cancelled'
+        ? [{ type: 'button' as const, label: m.manage, url: data.manageUrl }]
+        : []),
+      { type: 'note', text: format(data.change === 'cancelled' ? m.cancelNote : m.calendarNote, { zone: SURVEY_TIME_ZONE }) },
+    ],
+  };
+}
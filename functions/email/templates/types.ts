@@ -0,0 +1,8 @@
+import type { EmailBlock } from '../blocks';
+
+/** Bir şablonun ürettiği yapı; HTML/metin dönüşümü renderEmail içinde yapılır */
+export interface EmailTemplateContent {
+  subject: string;
+  preheader?: string;
+  blocks: EmailBlock[];
+}
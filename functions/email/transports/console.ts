@@ -0,0 +1,32 @@
+import type { MailTransport, OutgoingEmail, SendResult } from './types';
+
+/**
+ * Yerel geliştirme transport'u: e-postayı göndermek yerine wrangler konsoluna yazar.
+ * Workers runtime'da dosya sistemi olmadığından "file" transport yerine bu kullanılır;
+ * çıktı `wrangler pages dev ... > mail.log` ile dosyaya yönlendirilebilir.
+ */
+export class ConsoleTransport implements MailTransport {
+  readonly name = 'console';
+
+  async send(email: OutgoingEmail): Promise<SendResult> {
+    const messageId = `console.${Date.now()}.${crypto.randomUUID()}@localhost`;
+    console.log(
+      [
+        '──────── [mail:console] ────────',
+        `Message-Id: ${messageId}`,
+        `From: ${email.from}`,
+        `To: ${email.to}`,
+        email.replyTo ? `Reply-To: ${email.replyTo}` : null,
+        email.idempotencyKey ? `Idempotency-Key: ${email.idempotencyKey}` : null,
+        `Subject: ${email.subject}`,
+        ...(email.attachments ?? []).map((a) => `Attachment: ${a.filename} (${a.data.size} bytes)`),
+        '',
+        email.text || email.html,
+        '────────────────────────────────',
+      ]
+        .filter((line) => line !== null)
+        .join('\n')
+    );
+    return { ok: true, messageId };
+  }
+}
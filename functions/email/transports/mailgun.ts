@@ -0,0 +1,138 @@
+import { normalizeMessageId } from '../../lib/emailEvents';
+import type { MailTransport, OutgoingEmail, SendResult } from './types';
+
+export interface MailgunTransportConfig {
+  apiKey: string;
+  domain: string;
+  region?: 'us' | 'eu';
+  /** İlk deneme dahil toplam deneme sayısı */
+  maxAttempts?: number;
+  /** Üstel geri çekilmenin başlangıç gecikmesi (ms) */
+  baseDelayMs?: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+// Retry-After çok büyük gelirse isteği Worker süre sınırında bekletmeyelim
+const MAX_DELAY_MS = 8000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const isRetryableStatus = (status: number) => status === 429 || status >= 500;
+
+/**
+ * Mailgun HTTP API transport'u
+ * 429 ve 5xx yanıtları ile ağ hataları üstel geri çekilme + jitter ile yeniden denenir.
+ */
+export class MailgunTransport implements MailTransport {
+  readonly name = 'mailgun';
+
+  constructor(private readonly config: MailgunTransportConfig) {}
+
+  private get apiUrl() {
+    // Mailgun API endpoint
+    // EU domains: https://api.eu.mailgun.net/v3/
+    // US domains: https://api.mailgun.net/v3/
+    const region = this.config.region || 'us';
+    const apiBase = region === 'eu' ? 'https://api.eu.mailgun.net/v3' : 'https://api.mailgun.net/v3';
+    return `${apiBase}/${this.config.domain}/messages`;
+  }
+
+  private buildForm(email: OutgoingEmail): FormData {
+    const formData = new FormData();
+    formData.append('from', email.from);
+    formData.append('to', email.to);
+    formData.append('subject', email.subject);
+    formData.append('html', email.html);
+    if (email.text) {
+      formData.append('text', email.text);
+    }
+    if (email.replyTo) {
+      formData.append('h:Reply-To', email.replyTo);
+    }
+    for (const attachment of email.attachments ?? []) {
+      const blob = attachment.contentType
+        ? new Blob([attachment.data], { type: attachment.contentType })
+        : attachment.data;
+      formData.append('attachment', blob, attachment.filename);
+    }
+    if (email.idempotencyKey) {
+      // Mailgun bu başlığı yorumlamaz; log ve webhook olaylarında izlenebilirlik için eklenir
+      formData.append('h:X-Idempotency-Key', email.idempotencyKey);
+    }
+    return formData;
+  }
+
+  private retryDelay(attempt: number, retryAfterHeader: string | null): number {
+    const retryAfterSeconds = retryAfterHeader ? Number(retryAfterHeader) : NaN;
+    if (Number.isFinite(retryAfterSeconds) && retryAfterSeconds >= 0) {
+      return Math.min(retryAfterSeconds * 1000, MAX_DELAY_MS);
+    }
+    const base = (this.config.baseDelayMs ?? DEFAULT_BASE_DELAY_MS) * 2 ** (attempt - 1);
+    return Math.min(base + Math.random() * base * 0.2, MAX_DELAY_MS);
+  }
+
+  async send(email: OutgoingEmail): Promise<SendResult> {
+    const maxAttempts = this.config.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    let lastError = 'Mailgun API error';
+
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      let response: Response;
+      try {
+        response = await fetch(this.apiUrl, {
+          method: 'POST',
+          headers: {
+            Authorization: `Basic ${btoa(`api:${this.config.apiKey}`)}`,
+          },
+          // FormData gövdesi tek kullanımlık; her denemede yeniden oluşturulur
+          body: this.buildForm(email),
+        });
+      } catch (err: any) {
+        console.error('Mailgun network/exception error:', { attempt, error: err?.message });
+        lastError = err?.message || 'Network error';
+        if (attempt < maxAttempts) {
+          await sleep(this.retryDelay(attempt, null));
+        }
+        continue;
+      }
+
+      // Read response body (can only be read once)
+      const responseText = await response.text();
+
+      if (response.ok) {
+        const data = JSON.parse(responseText);
+        // Webhook olaylarıyla eşleşsin diye köşeli parantezler atılır
+        return { ok: true, messageId: normalizeMessageId(data.id) };
+      }
+
+      try {
+        const data = JSON.parse(responseText);
+        console.error('Mailgun API error:', {
+          attempt,
+          status: response.status,
+          statusText: response.statusText,
+          data,
+        });
+        lastError = data.message || data.error?.message || `HTTP ${response.status}: ${response.statusText}`;
+      } catch {
+        // JSON parse failed, use text directly
+        console.error('Mailgun API error (non-JSON):', {
+          attempt,
+          status: response.status,
+          statusText: response.statusText,
+          text: responseText.substring(0, 200),
+        });
+        lastError = `HTTP ${response.status}: ${response.statusText}`;
+      }
+
+      if (!isRetryableStatus(response.status)) {
+        break;
+      }
+      if (attempt < maxAttempts) {
+        await sleep(this.retryDelay(attempt, response.headers.get('Retry-After')));
+      }
+    }
+
+    return { ok: false, error: lastError };
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * E-posta taşıma katmanı arayüzü
+ * sendMailgunEmail hangi transport'un kullanılacağını env'den seçer; çağıranlar farkı görmez.
+ */
+export interface EmailAttachment {
+  filename: string;
+  data: Blob;
+  contentType?: string;
+}
+
+export interface OutgoingEmail {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text?: string;
+  replyTo?: string;
+  attachments?: EmailAttachment[];
+  /** Aynı anahtarla yapılan ikinci gönderim yeniden iletilmez */
+  idempotencyKey?: string;
+}
+
+export interface SendResult {
+  ok: boolean;
+  messageId?: string;
+  error?: string;
+  /** Idempotency kaydından dönen, yeniden gönderilmemiş sonuç */
+  duplicate?: boolean;
+}
+
+export interface MailTransport {
+  readonly name: string;
+  send(email: OutgoingEmail): Promise<SendResult>;
+}
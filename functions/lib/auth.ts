@@ -0,0 +1,287 @@
+import type { D1Database } from '@cloudflare/workers-types';
+import { readLocale, type Locale } from '../../shared/i18n';
+import {
+  ACCOUNT_ROLES,
+  LOGIN_LINK_TTL_MINUTES,
+  SESSION_TTL_DAYS,
+  type AccountRole,
+  type PortalAccount,
+  type PortalSessionInfo,
+} from '../../shared/auth';
+import type { StaffMember } from '../../shared/leads';
+import { hmacSha256Hex, randomReadableCode, randomToken, sha256Hex, timingSafeEqual } from './crypto';
+
+/**
+ * Müşteri portalı hesapları, giriş bağlantıları ve oturumlar - D1 `accounts`, `login_tokens`, `sessions`
+ * Şema: migrations/0006_create_portal_auth.sql, rol sütunu 0007_create_deliverables.sql
+ * Belirteçler veritabanına özetlenerek yazılır; sızan bir yedek ile oturum açılamaz.
+ */
+export type AuthEnv = {
+  DB: D1Database;
+  /** Oturum çerezinin HMAC imza anahtarı (wrangler secret) */
+  SESSION_SECRET?: string;
+};
+
+export const SESSION_COOKIE = 'hekamap_session';
+
+const SESSION_TTL_SECONDS = SESSION_TTL_DAYS * 24 * 60 * 60;
+// Her istekte yazmamak için son görülme zamanı en fazla bu aralıkla güncellenir
+const LAST_SEEN_RESOLUTION_MS = 60 * 60 * 1000;
+
+export interface RequestSession {
+  sessionId: string;
+  account: PortalAccount;
+  locale: Locale;
+}
+
+/** Oturumu doğrulayan middleware'in sonraki fonksiyonlara context.data ile aktardığı veri */
+export type SessionData = { session: RequestSession };
+
+type AccountRow = {
+  id: string;
+  email: string;
+  name: string;
+  locale: string;
+  role: string;
+};
+
+const ACCOUNT_COLUMNS = 'id, email, name, locale, role';
+
+const readRole = (value: string): AccountRole =>
+  (ACCOUNT_ROLES as readonly string[]).includes(value) ? (value as AccountRole) : 'client';
+
+const rowToAccount = (row: AccountRow): PortalAccount => ({
+  id: row.id,
+  email: row.email,
+  name: row.name,
+  role: readRole(row.role),
+});
+
+const addSeconds = (date: Date, seconds: number) => new Date(date.getTime() + seconds * 1000).toISOString();
+
+/**
+ * E-posta adresinin hesabını döndürür. Hesap yoksa ve adres daha önce talep bırakmışsa son talepteki
+ * adla hesap açılır; hiç talep bırakmamış adresler için null döner (portal yalnızca müşterilere açıktır).
+ */
+export async function findOrProvisionAccount(
+  db: D1Database,
+  email: string,
+  locale: Locale
+): Promise<{ account: PortalAccount; locale: Locale } | null> {
+  const existing = await db.prepare(`SELECT ${ACCOUNT_COLUMNS} FROM accounts WHERE email = ?`).bind(email).first<AccountRow>();
+  if (existing) return { account: rowToAccount(existing), locale: readLocale(existing.locale) };
+
+  const lead = await db
+    .prepare(`SELECT first_name, last_name FROM leads WHERE email = ? ORDER BY created_at DESC LIMIT 1`)
+    .bind(email)
+    .first<{ first_name: string; last_name: string }>();
+  if (!lead) return null;
+
+  const account = await insertAccount(db, email, `${lead.first_name} ${lead.last_name}`.trim(), locale);
+  return { account, locale };
+}
+
+/**
+ * Personel bir adrese teslimat yüklediğinde müşterinin hesabı yoksa açılır; talep şartı aranmaz.
+ * Müşteri aynı adresle giriş bağlantısı isteyerek portala girer.
+ */
+export async function ensureClientAccount(db: D1Database, email: string, locale: Locale): Promise<PortalAccount> {
+  const existing = await db.prepare(`SELECT ${ACCOUNT_COLUMNS} FROM accounts WHERE email = ?`).bind(email).first<AccountRow>();
+  return existing ? rowToAccount(existing) : insertAccount(db, email, '', locale);
+}
+
+async function insertAccount(db: D1Database, email: string, name: string, locale: Locale): Promise<PortalAccount> {
+  // Aynı anda iki istek aynı adresi açarsa ikinci INSERT yok sayılır, mevcut satır okunur
+  await db
+    .prepare(`INSERT OR IGNORE INTO accounts (id, email, name, locale, created_at) VALUES (?, ?, ?, ?, ?)`)
+    .bind(`ACC-${randomReadableCode(10)}`, email, name, locale, new Date().toISOString())
+    .run();
+  const row = await db.prepare(`SELECT ${ACCOUNT_COLUMNS} FROM accounts WHERE email = ?`).bind(email).first<AccountRow>();
+  if (!row) throw new Error(`Hesap açılamadı: ${email}`);
+  return rowToAccount(row);
+}
+
+export async function findAccountByEmail(db: D1Database, email: string): Promise<PortalAccount | null> {
+  const row = await db.prepare(`SELECT ${ACCOUNT_COLUMNS} FROM accounts WHERE email = ?`).bind(email).first<AccountRow>();
+  return row ? rowToAccount(row) : null;
+}
+
+export async function findAccountById(db: D1Database, id: string): Promise<(PortalAccount & { locale: Locale }) | null> {
+  const row = await db.prepare(`SELECT ${ACCOUNT_COLUMNS} FROM accounts WHERE id = ?`).bind(id).first<AccountRow>();
+  return row ? { ...rowToAccount(row), locale: readLocale(row.locale) } : null;
+}
+
+/** Tek kullanımlık giriş belirteci üretir; ham belirteç yalnızca e-postadaki bağlantıda bulunur */
+export async function createLoginToken(db: D1Database, accountId: string, now = new Date()): Promise<string> {
+  const token = randomToken();
+  await db
+    .prepare(`INSERT INTO login_tokens (token_hash, account_id, created_at, expires_at) VALUES (?, ?, ?, ?)`)
+    .bind(await sha256Hex(token), accountId, now.toISOString(), addSeconds(now, LOGIN_LINK_TTL_MINUTES * 60))
+    .run();
+  return token;
+}
+
+/**
+ * Belirteci kullanılmış olarak işaretler ve hesabı döndürür.
+ * Koşullu UPDATE tek sorguda yapıldığından aynı bağlantıyla eşzamanlı iki istekten yalnızca biri oturum açar.
+ */
+export async function consumeLoginToken(db: D1Database, token: string, now = new Date()): Promise<PortalAccount | null> {
+  const nowIso = now.toISOString();
+  const used = await db
+    .prepare(
+      `UPDATE login_tokens SET used_at = ? WHERE token_hash = ? AND used_at IS NULL AND expires_at > ? RETURNING account_id`
+    )
+    .bind(nowIso, await sha256Hex(token), nowIso)
+    .first<{ account_id: string }>();
+  if (!used) return null;
+
+  await db.prepare(`UPDATE accounts SET last_login_at = ? WHERE id = ?`).bind(nowIso, used.account_id).run();
+  const row = await db.prepare(`SELECT ${ACCOUNT_COLUMNS} FROM accounts WHERE id = ?`).bind(used.account_id).first<AccountRow>();
+  return row ? rowToAccount(row) : null;
+}
+
+export async function createSession(
+  db: D1Database,
+  accountId: string,
+  meta: { ipHash: string; userAgent: string },
+  now = new Date()
+): Promise<{ sessionId: string; token: string; maxAge: number }> {
+  const sessionId = randomToken(12);
+  const token = randomToken();
+  const nowIso = now.toISOString();
+  await db
+    .prepare(
+      `INSERT INTO sessions (id, account_id, token_hash, created_at, expires_at, last_seen_at, ip_hash, user_agent)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      sessionId,
+      accountId,
+      await sha256Hex(token),
+      nowIso,
+      addSeconds(now, SESSION_TTL_SECONDS),
+      nowIso,
+      meta.ipHash,
+      meta.userAgent.slice(0, 300)
+    )
+    .run();
+  return { sessionId, token, maxAge: SESSION_TTL_SECONDS };
+}
+
+type SessionRow = AccountRow & {
+  session_id: string;
+  last_seen_at: string;
+};
+
+async function findSessionByToken(db: D1Database, token: string, now = new Date()): Promise<RequestSession | null> {
+  const nowIso = now.toISOString();
+  const row = await db
+    .prepare(
+      `SELECT s.id AS session_id, s.last_seen_at, a.id, a.email, a.name, a.locale, a.role
+       FROM sessions s JOIN accounts a ON a.id = s.account_id
+       WHERE s.token_hash = ? AND s.revoked_at IS NULL AND s.expires_at > ?`
+    )
+    .bind(await sha256Hex(token), nowIso)
+    .first<SessionRow>();
+  if (!row) return null;
+
+  if (now.getTime() - Date.parse(row.last_seen_at) > LAST_SEEN_RESOLUTION_MS) {
+    await db.prepare(`UPDATE sessions SET last_seen_at = ? WHERE id = ?`).bind(nowIso, row.session_id).run();
+  }
+  return { sessionId: row.session_id, account: rowToAccount(row), locale: readLocale(row.locale) };
+}
+
+export async function listSessions(db: D1Database, accountId: string, currentSessionId: string): Promise<PortalSessionInfo[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT id, created_at, last_seen_at, user_agent FROM sessions
+       WHERE account_id = ? AND revoked_at IS NULL AND expires_at > ?
+       ORDER BY last_seen_at DESC`
+    )
+    .bind(accountId, new Date().toISOString())
+    .all<{ id: string; created_at: string; last_seen_at: string; user_agent: string }>();
+  return results.map((row) => ({
+    id: row.id,
+    createdAt: row.created_at,
+    lastSeenAt: row.last_seen_at,
+    userAgent: row.user_agent,
+    current: row.id === currentSessionId,
+  }));
+}
+
+/** Hesaba ait tek bir oturumu kapatır; başka hesabın oturumu ya da zaten kapalı oturum için false döner */
+export async function revokeSession(db: D1Database, accountId: string, sessionId: string): Promise<boolean> {
+  const result = await db
+    .prepare(`UPDATE sessions SET revoked_at = ? WHERE id = ? AND account_id = ? AND revoked_at IS NULL`)
+    .bind(new Date().toISOString(), sessionId, accountId)
+    .run();
+  return result.meta.changes > 0;
+}
+
+/** "Diğer cihazlardan çıkış": mevcut oturum dışındaki tüm oturumları kapatır */
+export async function revokeOtherSessions(db: D1Database, accountId: string, keepSessionId: string): Promise<number> {
+  const result = await db
+    .prepare(`UPDATE sessions SET revoked_at = ? WHERE account_id = ? AND id != ? AND revoked_at IS NULL`)
+    .bind(new Date().toISOString(), accountId, keepSessionId)
+    .run();
+  return result.meta.changes;
+}
+
+/** Çerez değeri: <belirteç>.<HMAC-SHA256(SESSION_SECRET, belirteç)> */
+export async function signSessionToken(secret: string, token: string): Promise<string> {
+  return `${token}.${await hmacSha256Hex(secret, token)}`;
+}
+
+async function verifySessionCookie(secret: string, value: string): Promise<string | null> {
+  const separator = value.lastIndexOf('.');
+  if (separator <= 0) return null;
+  const token = value.slice(0, separator);
+  const expected = await hmacSha256Hex(secret, token);
+  return timingSafeEqual(expected, value.slice(separator + 1)) ? token : null;
+}
+
+export function readCookie(request: { headers: { get(name: string): string | null } }, name: string): string | null {
+  for (const part of (request.headers.get('Cookie') || '').split(';')) {
+    const [key, ...rest] = part.trim().split('=');
+    if (key === name) return rest.join('=');
+  }
+  return null;
+}
+
+/** HttpOnly: betikler okuyamaz. SameSite=Lax: başka siteden gelen POST isteklerinde gönderilmez. */
+export function sessionCookie(value: string, maxAge: number): string {
+  return `${SESSION_COOKIE}=${value}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=${maxAge}`;
+}
+
+export const clearedSessionCookie = () => sessionCookie('', 0);
+
+/**
+ * İsteğin çerezindeki oturumu çözer. İmza, iptal ve süre kontrollerinden geçemeyen çerez için null döner;
+ * imzası tutmayan çerez veritabanına hiç sorulmaz.
+ */
+export async function getRequestSession(
+  env: AuthEnv,
+  request: { headers: { get(name: string): string | null } }
+): Promise<RequestSession | null> {
+  const cookie = readCookie(request, SESSION_COOKIE);
+  if (!cookie || !env.SESSION_SECRET) return null;
+  const token = await verifySessionCookie(env.SESSION_SECRET, cookie);
+  return token ? findSessionByToken(env.DB, token) : null;
+}
+
+/**
+ * Durum değiştiren isteklerde Origin başlığı sitenin kendisi olmalı.
+ * SameSite=Lax çerezine ek olarak eski tarayıcılardaki siteler arası istekleri keser.
+ */
+export function isSameOriginRequest(request: { url: string; headers: { get(name: string): string | null } }): boolean {
+  const origin = request.headers.get('Origin');
+  return !origin || origin === new URL(request.url).origin;
+}
+
+/** Talep atanabilecek personel hesapları (/admin) */
+export async function listStaffAccounts(db: D1Database): Promise<StaffMember[]> {
+  const { results } = await db
+    .prepare(`SELECT id, name, email FROM accounts WHERE role = 'staff' ORDER BY name, email`)
+    .all<StaffMember>();
+  return results;
+}
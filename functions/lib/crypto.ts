@@ -0,0 +1,42 @@
+/**
+ * Web Crypto yardımcıları (Workers ve tarayıcıda aynı API)
+ */
+const encoder = new TextEncoder();
+
+export function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function sha256Hex(value: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(value)));
+}
+
+// Crockford base32: 0/O ve 1/I/L karışmasın diye harf seti daraltılmıştır
+const READABLE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/** Telefonda okunabilecek, büyük harf rastgele kod */
+export function randomReadableCode(length: number): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, (b) => READABLE_ALPHABET[b % READABLE_ALPHABET.length]).join('');
+}
+
+/** URL'de ve çerezde kaçışsız kullanılabilen rastgele anahtar (base64url) */
+export function randomToken(byteLength = 32): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(byteLength));
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export async function hmacSha256Hex(secret: string, value: string): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(value)));
+}
+
+/** Zamanlama saldırılarına karşı sabit süreli karşılaştırma */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { DOWNLOAD_LINK_TTL_HOURS } from '../../shared/deliverables';
+import { contentDisposition, parseRangeHeader, signDownloadUrl, verifyDownloadUrl } from './deliverables';
+import { signSurveyToken, verifySurveyToken } from './surveys';
+
+const SECRET = 'test-oturum-anahtari';
+const NOW = 1_780_000_000;
+const EXPIRES = NOW + DOWNLOAD_LINK_TTL_HOURS * 60 * 60;
+
+async function signedParams(deliverableId = 'DLV-1', accountId = 'acc_1') {
+  return new URL(await signDownloadUrl(SECRET, 'https://hekamap.com', deliverableId, accountId, 'tr', NOW)).searchParams;
+}
+
+function withParam(params: URLSearchParams, key: string, value: string | null): URLSearchParams {
+  const copy = new URLSearchParams(params);
+  if (value === null) copy.delete(key);
+  else copy.set(key, value);
+  return copy;
+}
+
+const flipLastDigit = (hex: string) => `${hex.slice(0, -1)}${hex.endsWith('0') ? '1' : '0'}`;
+
+describe('signDownloadUrl / verifyDownloadUrl', () => {
+  it('imzalı bağlantı süresi bitene kadar geçerlidir', async () => {
+    const url = new URL(await signDownloadUrl(SECRET, 'https://hekamap.com', 'DLV 1/ç', 'acc_1', 'en', NOW));
+    expect(url.pathname).toBe('/api/download/DLV%201%2F%C3%A7');
+    expect(url.searchParams.get('expires')).toBe(String(EXPIRES));
+    expect(url.searchParams.get('locale')).toBe('en');
+    await expect(verifyDownloadUrl(SECRET, 'DLV 1/ç', url.searchParams, NOW)).resolves.toEqual({ ok: true, accountId: 'acc_1' });
+    await expect(verifyDownloadUrl(SECRET, 'DLV 1/ç', url.searchParams, EXPIRES)).resolves.toEqual({ ok: true, accountId: 'acc_1' });
+  });
+
+  it('süresi dolmuş bağlantı reddedilir', async () => {
+    await expect(verifyDownloadUrl(SECRET, 'DLV-1', await signedParams(), EXPIRES + 1)).resolves.toEqual({
+      ok: false,
+      reason: 'expired',
+    });
+  });
+
+  it('locale imzaya girmez', async () => {
+    const params = withParam(await signedParams(), 'locale', 'en');
+    await expect(verifyDownloadUrl(SECRET, 'DLV-1', params, NOW)).resolves.toMatchObject({ ok: true });
+  });
+
+  it.each([
+    ['başka hesap', (p: URLSearchParams) => withParam(p, 'account', 'acc_2'), 'DLV-1'],
+    ['uzatılmış süre', (p: URLSearchParams) => withParam(p, 'expires', String(EXPIRES + 3600)), 'DLV-1'],
+    ['başka teslimat', (p: URLSearchParams) => p, 'DLV-2'],
+    ['değiştirilmiş imza', (p: URLSearchParams) => withParam(p, 'signature', flipLastDigit(p.get('signature') ?? '')), 'DLV-1'],
+  ])('kurcalanmış bağlantı reddedilir: %s', async (_name, tamper, deliverableId) => {
+    const params = tamper(await signedParams());
+    await expect(verifyDownloadUrl(SECRET, deliverableId, params, NOW)).resolves.toEqual({ ok: false, reason: 'mismatch' });
+  });
+
+  it('farklı anahtarla imzalanmış bağlantı reddedilir', async () => {
+    await expect(verifyDownloadUrl('baska-anahtar', 'DLV-1', await signedParams(), NOW)).resolves.toEqual({
+      ok: false,
+      reason: 'mismatch',
+    });
+  });
+
+  it.each([
+    ['hesap yok', 'account', null],
+    ['boş hesap', 'account', ''],
+    ['süre yok', 'expires', null],
+    ['tam sayı olmayan süre', 'expires', '1780021600.5'],
+    ['sayı olmayan süre', 'expires', 'yarın'],
+    ['imza yok', 'signature', null],
+    ['kısa imza', 'signature', 'abc123'],
+    ['büyük harfli imza', 'signature', 'A'.repeat(64)],
+    ['onaltılık olmayan imza', 'signature', 'g'.repeat(64)],
+  ])('bozuk bağlantı: %s', async (_name, key, value) => {
+    const params = withParam(await signedParams(), key, value);
+    await expect(verifyDownloadUrl(SECRET, 'DLV-1', params, NOW)).resolves.toEqual({ ok: false, reason: 'malformed' });
+  });
+
+  it('indirme imzası keşif bağlantısı olarak, keşif imzası indirme imzası olarak kabul edilmez', async () => {
+    const downloadSignature = (await signedParams()).get('signature') as string;
+    await expect(verifySurveyToken(SECRET, `DLV-1.${downloadSignature}`)).resolves.toBeNull();
+    await expect(verifySurveyToken(SECRET, `DLV-1.acc_1:${EXPIRES}.${downloadSignature}`)).resolves.toBeNull();
+    await expect(verifySurveyToken(SECRET, `DLV-1.acc_1.${downloadSignature}`)).resolves.toBeNull();
+
+    const surveyToken = await signSurveyToken(SECRET, { id: 'DLV-1', manageNonce: 'acc_1' });
+    const surveySignature = surveyToken.split('.')[2];
+    const params = withParam(await signedParams(), 'signature', surveySignature);
+    await expect(verifyDownloadUrl(SECRET, 'DLV-1', params, NOW)).resolves.toEqual({ ok: false, reason: 'mismatch' });
+  });
+});
+
+describe('parseRangeHeader', () => {
+  it.each([
+    ['bytes=0-99', { offset: 0, length: 100 }],
+    ['bytes=500-500', { offset: 500, length: 1 }],
+    ['bytes=900-', { offset: 900, length: 100 }],
+    ['bytes=999-', { offset: 999, length: 1 }],
+    ['bytes=900-5000', { offset: 900, length: 100 }],
+    ['bytes=-100', { offset: 900, length: 100 }],
+    ['bytes=-5000', { offset: 0, length: 1000 }],
+  ])('%s', (header, expected) => {
+    expect(parseRangeHeader(header, 1000)).toEqual(expected);
+  });
+
+  it.each([
+    ['bytes=-0', 1000],
+    ['bytes=1000-', 1000],
+    ['bytes=1000-1200', 1000],
+    ['bytes=-10', 0],
+    ['bytes=0-', 0],
+  ])('karşılanamaz: %s (boyut %i)', (header, size) => {
+    expect(parseRangeHeader(header, size)).toBe('unsatisfiable');
+  });
+
+  it.each([
+    ['başlık yok', null],
+    ['bitiş başlangıçtan önce', 'bytes=500-100'],
+    ['çoklu aralık', 'bytes=0-99,200-299'],
+    ['boş aralık', 'bytes=-'],
+    ['başka birim', 'items=0-99'],
+    ['negatif sayı', 'bytes=-5-10'],
+  ])('tüm dosya gönderilir: %s', (_name, header) => {
+    expect(parseRangeHeader(header, 1000)).toBeNull();
+  });
+});
+
+describe('contentDisposition', () => {
+  it('Türkçe adlar filename* ile UTF-8 olarak, filename ile ASCII yedeğiyle verilir', () => {
+    expect(contentDisposition('Çalışma Raporu İğdır ğüşöç.pdf')).toBe(
+      'attachment; filename="Cal_sma Raporu Igd_r gusoc.pdf"; ' +
+        "filename*=UTF-8''%C3%87al%C4%B1%C5%9Fma%20Raporu%20%C4%B0%C4%9Fd%C4%B1r%20%C4%9F%C3%BC%C5%9F%C3%B6%C3%A7.pdf"
+    );
+  });
+
+  it('tırnak, ters bölü ve RFC 5987 dışı karakterler kaçışlanır', () => {
+    const header = contentDisposition('Ankara\'daki "parsel" (1)*\\.dwg');
+    expect(header).toBe(
+      'attachment; filename="Ankara\'daki _parsel_ (1)*_.dwg"; ' + "filename*=UTF-8''Ankara%27daki%20%22parsel%22%20%281%29%2A%5C.dwg"
+    );
+    const encoded = header.split("filename*=UTF-8''")[1];
+    expect(encoded).toMatch(/^[A-Za-z0-9!#$&+.^_`|~%-]+$/);
+    expect(decodeURIComponent(encoded)).toBe('Ankara\'daki "parsel" (1)*\\.dwg');
+  });
+});
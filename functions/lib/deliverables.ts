@@ -0,0 +1,308 @@
+import type { D1Database, R2Bucket } from '@cloudflare/workers-types';
+import { DOWNLOAD_LINK_TTL_HOURS, type PortalProject } from '../../shared/deliverables';
+import type { Locale } from '../../shared/i18n';
+import type { AuthEnv } from './auth';
+import { hmacSha256Hex, randomReadableCode, timingSafeEqual } from './crypto';
+
+/**
+ * Proje teslimatları - D1 `projects`, `deliverables`, `download_log`; dosyalar R2'de
+ * Şema: migrations/0007_create_deliverables.sql
+ * R2 anahtarı: <hesap>/<proje>/<teslimat>/<dosya adı>; dosya adı anahtarda okunur kalır, çakışma olmaz.
+ */
+export type DeliverablesEnv = AuthEnv & {
+  /** Teslimat dosyaları; yerelde wrangler pages dev simüle eder */
+  DELIVERABLES?: R2Bucket;
+};
+
+export interface DeliverableRecord {
+  id: string;
+  projectId: string;
+  projectName: string;
+  /** Projenin sahibi olan müşteri hesabı */
+  accountId: string;
+  r2Key: string;
+  fileName: string;
+  size: number;
+  contentType: string;
+  status: 'uploading' | 'ready';
+  uploadId: string | null;
+}
+
+type DeliverableRow = {
+  id: string;
+  project_id: string;
+  project_name: string;
+  account_id: string;
+  r2_key: string;
+  file_name: string;
+  size: number;
+  content_type: string;
+  status: 'uploading' | 'ready';
+  upload_id: string | null;
+};
+
+const rowToDeliverable = (row: DeliverableRow): DeliverableRecord => ({
+  id: row.id,
+  projectId: row.project_id,
+  projectName: row.project_name,
+  accountId: row.account_id,
+  r2Key: row.r2_key,
+  fileName: row.file_name,
+  size: row.size,
+  contentType: row.content_type,
+  status: row.status,
+  uploadId: row.upload_id,
+});
+
+/** Müşterinin projeleri ve indirilebilir (yüklemesi tamamlanmış) dosyaları, en yeni proje önce */
+export async function listProjectsWithDeliverables(db: D1Database, accountId: string): Promise<PortalProject[]> {
+  const { results } = await db
+    .prepare(
+      `SELECT p.id AS project_id, p.name, p.created_at AS project_created_at,
+              d.id, d.file_name, d.size, d.completed_at
+       FROM projects p LEFT JOIN deliverables d ON d.project_id = p.id AND d.status = 'ready'
+       WHERE p.account_id = ?
+       ORDER BY p.created_at DESC, d.completed_at DESC`
+    )
+    .bind(accountId)
+    .all<{
+      project_id: string;
+      name: string;
+      project_created_at: string;
+      id: string | null;
+      file_name: string | null;
+      size: number | null;
+      completed_at: string | null;
+    }>();
+
+  const projects = new Map<string, PortalProject>();
+  for (const row of results) {
+    let project = projects.get(row.project_id);
+    if (!project) {
+      project = { id: row.project_id, name: row.name, createdAt: row.project_created_at, deliverables: [] };
+      projects.set(row.project_id, project);
+    }
+    if (row.id) {
+      project.deliverables.push({ id: row.id, fileName: row.file_name ?? '', size: row.size ?? 0, uploadedAt: row.completed_at ?? '' });
+    }
+  }
+  return [...projects.values()];
+}
+
+/** Hesabın proje adları; personelin yükleme formundaki öneri listesi */
+export async function listProjectNames(db: D1Database, accountId: string): Promise<string[]> {
+  const { results } = await db
+    .prepare(`SELECT name FROM projects WHERE account_id = ? ORDER BY created_at DESC`)
+    .bind(accountId)
+    .all<{ name: string }>();
+  return results.map((row) => row.name);
+}
+
+/** Proje adı hesap içinde tekildir; aynı adla yapılan yüklemeler aynı projeye eklenir */
+export async function findOrCreateProject(db: D1Database, accountId: string, name: string): Promise<{ id: string; name: string }> {
+  await db
+    .prepare(`INSERT OR IGNORE INTO projects (id, account_id, name, created_at) VALUES (?, ?, ?, ?)`)
+    .bind(`PRJ-${randomReadableCode(8)}`, accountId, name, new Date().toISOString())
+    .run();
+  const row = await db
+    .prepare(`SELECT id, name FROM projects WHERE account_id = ? AND name = ?`)
+    .bind(accountId, name)
+    .first<{ id: string; name: string }>();
+  if (!row) throw new Error(`Proje açılamadı: ${name}`);
+  return row;
+}
+
+export const generateDeliverableId = () => `DLV-${randomReadableCode(10)}`;
+
+export const deliverableKey = (accountId: string, projectId: string, deliverableId: string, fileName: string) =>
+  `${accountId}/${projectId}/${deliverableId}/${fileName}`;
+
+export async function createDeliverable(
+  db: D1Database,
+  record: Pick<DeliverableRecord, 'id' | 'projectId' | 'r2Key' | 'fileName' | 'size' | 'contentType' | 'uploadId'>,
+  uploadedBy: string
+) {
+  await db
+    .prepare(
+      `INSERT INTO deliverables (id, project_id, r2_key, file_name, size, content_type, upload_id, uploaded_by, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      record.id,
+      record.projectId,
+      record.r2Key,
+      record.fileName,
+      record.size,
+      record.contentType,
+      record.uploadId,
+      uploadedBy,
+      new Date().toISOString()
+    )
+    .run();
+}
+
+export async function findDeliverable(db: D1Database, id: string): Promise<DeliverableRecord | null> {
+  const row = await db
+    .prepare(
+      `SELECT d.id, d.project_id, p.name AS project_name, p.account_id, d.r2_key, d.file_name, d.size, d.content_type,
+              d.status, d.upload_id
+       FROM deliverables d JOIN projects p ON p.id = d.project_id
+       WHERE d.id = ?`
+    )
+    .bind(id)
+    .first<DeliverableRow>();
+  return row ? rowToDeliverable(row) : null;
+}
+
+export async function markDeliverableReady(db: D1Database, id: string) {
+  await db
+    .prepare(`UPDATE deliverables SET status = 'ready', upload_id = NULL, completed_at = ? WHERE id = ? AND status = 'uploading'`)
+    .bind(new Date().toISOString(), id)
+    .run();
+}
+
+/** Vazgeçilen yüklemenin kaydı silinir; tamamlanmış teslimatlar bu yolla silinemez */
+export async function deleteUploadingDeliverable(db: D1Database, id: string) {
+  await db.prepare(`DELETE FROM deliverables WHERE id = ? AND status = 'uploading'`).bind(id).run();
+}
+
+/**
+ * Projede henüz bildirilmemiş hazır dosyaları bildirildi olarak işaretler ve döndürür.
+ * Personel birkaç dosyayı art arda yüklediğinde müşteri tek e-posta alır.
+ */
+export async function takeUnnotifiedDeliverables(
+  db: D1Database,
+  projectId: string
+): Promise<Array<{ id: string; fileName: string; size: number }>> {
+  const { results } = await db
+    .prepare(
+      `UPDATE deliverables SET notified_at = ?
+       WHERE project_id = ? AND status = 'ready' AND notified_at IS NULL
+       RETURNING id, file_name, size`
+    )
+    .bind(new Date().toISOString(), projectId)
+    .all<{ id: string; file_name: string; size: number }>();
+  return results.map((row) => ({ id: row.id, fileName: row.file_name, size: row.size }));
+}
+
+/** Bildirim gönderilemezse dosyalar bir sonraki yüklemenin bildirimine kalsın diye işaret geri alınır */
+export async function resetNotified(db: D1Database, deliverableIds: string[]) {
+  if (deliverableIds.length === 0) return;
+  await db
+    .prepare(`UPDATE deliverables SET notified_at = NULL WHERE id IN (${deliverableIds.map(() => '?').join(', ')})`)
+    .bind(...deliverableIds)
+    .run();
+}
+
+export interface DownloadLogEntry {
+  deliverableId: string;
+  accountId: string;
+  rangeStart: number | null;
+  bytes: number;
+  ipHash: string;
+  userAgent: string;
+}
+
+export async function logDownload(db: D1Database, entry: DownloadLogEntry) {
+  await db
+    .prepare(
+      `INSERT INTO download_log (deliverable_id, account_id, downloaded_at, range_start, bytes, ip_hash, user_agent)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      entry.deliverableId,
+      entry.accountId,
+      new Date().toISOString(),
+      entry.rangeStart,
+      entry.bytes,
+      entry.ipHash,
+      entry.userAgent.slice(0, 300)
+    )
+    .run();
+}
+
+/**
+ * İmzalı indirme bağlantısı: /api/download/<id>?account=<hesap>&expires=<unix sn>&signature=<hex>
+ * Bağlantı çerez istemez; indirme yöneticisi ya da curl ile de kullanılabilir, süresi dolunca geçersizdir.
+ * İmza anahtarı oturum anahtarıdır; "download:" öneki iki imza türünün birbirinin yerine geçmesini önler.
+ * locale imzaya girmez; yalnızca hata yanıtlarının dilini seçer.
+ */
+export async function signDownloadUrl(
+  secret: string,
+  base: string,
+  deliverableId: string,
+  accountId: string,
+  locale: Locale,
+  nowSeconds = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  const expires = nowSeconds + DOWNLOAD_LINK_TTL_HOURS * 60 * 60;
+  const url = new URL(`/api/download/${encodeURIComponent(deliverableId)}`, base);
+  url.searchParams.set('account', accountId);
+  url.searchParams.set('expires', String(expires));
+  url.searchParams.set('signature', await hmacSha256Hex(secret, `download:${deliverableId}:${accountId}:${expires}`));
+  url.searchParams.set('locale', locale);
+  return url.toString();
+}
+
+export type DownloadSignatureVerification = { ok: true; accountId: string } | { ok: false; reason: 'malformed' | 'expired' | 'mismatch' };
+
+export async function verifyDownloadUrl(
+  secret: string,
+  deliverableId: string,
+  params: URLSearchParams,
+  nowSeconds = Math.floor(Date.now() / 1000)
+): Promise<DownloadSignatureVerification> {
+  const accountId = params.get('account');
+  const expiresParam = params.get('expires') || '';
+  const expires = Number(expiresParam);
+  const signature = params.get('signature') || '';
+  // Number(null) 0 olduğundan eksik süre "süresi dolmuş" değil, bozuk bağlantı sayılır
+  if (!accountId || !/^\d{1,12}$/.test(expiresParam) || !/^[0-9a-f]{64}$/.test(signature)) {
+    return { ok: false, reason: 'malformed' };
+  }
+  if (expires < nowSeconds) {
+    return { ok: false, reason: 'expired' };
+  }
+  const expected = await hmacSha256Hex(secret, `download:${deliverableId}:${accountId}:${expires}`);
+  return timingSafeEqual(expected, signature) ? { ok: true, accountId } : { ok: false, reason: 'mismatch' };
+}
+
+export type ByteRange = { offset: number; length: number };
+
+/**
+ * Tek aralıklı Range başlığını çözer: "bytes=a-b", "bytes=a-", "bytes=-n".
+ * Başlık yoksa, birden çok aralık istenmişse ya da biçim tanınmıyorsa null döner ve dosyanın tamamı
+ * gönderilir (RFC 9110 buna izin verir). Dosya dışında kalan aralık için 'unsatisfiable' döner.
+ */
+export function parseRangeHeader(header: string | null, size: number): ByteRange | null | 'unsatisfiable' {
+  const match = header ? /^bytes=(\d*)-(\d*)$/.exec(header.trim()) : null;
+  if (!match || (!match[1] && !match[2])) return null;
+
+  if (!match[1]) {
+    // Son n bayt
+    const suffix = Number(match[2]);
+    if (suffix === 0 || size === 0) return 'unsatisfiable';
+    const length = Math.min(suffix, size);
+    return { offset: size - length, length };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] ? Number(match[2]) : size - 1;
+  if (start >= size) return 'unsatisfiable';
+  if (end < start) return null;
+  return { offset: start, length: Math.min(end, size - 1) - start + 1 };
+}
+
+/**
+ * Content-Disposition: Türkçe karakterli adlar için RFC 5987 filename* ve ASCII yedeği
+ * encodeURIComponent ' ( ) * karakterlerini kaçışlamaz; RFC 5987 değerinde bunlara izin verilmediği için ayrıca kodlanır
+ * ("Ankara'daki parsel.pdf" gibi adlarda kesme işareti UTF-8'' önekiyle karışırdı).
+ */
+export function contentDisposition(fileName: string): string {
+  const fallback = fileName
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
@@ -0,0 +1,68 @@
+import type { D1Database } from '@cloudflare/workers-types';
+
+/**
+ * Mailgun teslim olayları - D1 `email_events` tablosu
+ * Şema: migrations/0003_create_email_events.sql
+ */
+export const TRACKED_EMAIL_EVENTS = ['delivered', 'failed', 'complained', 'opened'] as const;
+
+export type TrackedEmailEvent = (typeof TRACKED_EMAIL_EVENTS)[number];
+
+export interface EmailEventRecord {
+  eventId: string;
+  messageId: string;
+  event: TrackedEmailEvent;
+  recipient: string;
+  severity: string | null;
+  reason: string | null;
+  occurredAt: string;
+  payload: unknown;
+}
+
+/**
+ * Mailgun API yanıtı "<id@domain>" döndürür, webhook olayları ise köşeli parantezsiz "id@domain".
+ * Karşılaştırma için tek biçime indirilir.
+ */
+export function normalizeMessageId(messageId: string): string {
+  return messageId.trim().replace(/^<|>$/g, '');
+}
+
+export function isTrackedEmailEvent(event: unknown): event is TrackedEmailEvent {
+  return typeof event === 'string' && (TRACKED_EMAIL_EVENTS as readonly string[]).includes(event);
+}
+
+/** Olayı kaydeder; aynı event_id ikinci kez gelirse false döner */
+export async function recordEmailEvent(db: D1Database, record: EmailEventRecord): Promise<boolean> {
+  const result = await db
+    .prepare(
+      `INSERT OR IGNORE INTO email_events (event_id, message_id, event, recipient, severity, reason, occurred_at, received_at, payload)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      record.eventId,
+      normalizeMessageId(record.messageId),
+      record.event,
+      record.recipient,
+      record.severity,
+      record.reason,
+      record.occurredAt,
+      new Date().toISOString(),
+      JSON.stringify(record.payload)
+    )
+    .run();
+
+  if (!result.meta.changes) {
+    return false;
+  }
+
+  // Geç ulaşan eski olaylar lead'in son durumunu ezmesin diye zaman karşılaştırılır
+  await db
+    .prepare(
+      `UPDATE leads SET email_delivery_event = ?, email_delivery_updated_at = ?
+       WHERE email_message_id = ? AND (email_delivery_updated_at IS NULL OR email_delivery_updated_at <= ?)`
+    )
+    .bind(record.event, record.occurredAt, normalizeMessageId(record.messageId), record.occurredAt)
+    .run();
+
+  return true;
+}
@@ -0,0 +1,15 @@
+import type { Response as CfResponse } from '@cloudflare/workers-types';
+
+/**
+ * Pages Functions için JSON yanıt yardımcıları
+ * DOM Response ile workers-types Response tipleri çakıştığı için cast burada tek noktada yapılır.
+ */
+export function jsonResponse(data: unknown, init: ResponseInit = {}): CfResponse {
+  const headers = new Headers(init.headers);
+  headers.set('Content-Type', 'application/json');
+  return new Response(JSON.stringify(data), { ...init, headers }) as unknown as CfResponse;
+}
+
+export function errorResponse(status: number, error: string, extra: Record<string, unknown> = {}): CfResponse {
+  return jsonResponse({ ok: false, error, ...extra }, { status });
+}
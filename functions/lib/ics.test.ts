@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { buildCalendarInvite, foldLine, type CalendarEvent } from './ics';
+
+const octets = (value: string) => new TextEncoder().encode(value).length;
+const unfold = (value: string) => value.replace(/\r\n /g, '');
+
+const event: CalendarEvent = {
+  uid: 'SRV-0042@hekamap.com',
+  sequence: 0,
+  method: 'REQUEST',
+  start: '2026-05-12T07:00:00Z',
+  end: '2026-05-12T09:00:00Z',
+  summary: 'Saha keşfi: Aplikasyon',
+  description: 'Randevu numarası: SRV-0042',
+  location: 'Ahi Mesut Blv. No:5, Etimesgut/Ankara',
+  organizer: { name: 'HEKAMAP', email: 'contact@notify.hekamap.com' },
+  attendees: [{ name: 'Ayşe "Yılmaz"', email: 'ayse@example.com' }],
+  now: new Date('2026-05-01T10:15:30.123Z'),
+};
+
+describe('foldLine', () => {
+  it('75 oktete kadar satıra dokunmaz, fazlasını boşlukla başlayan satıra katlar', () => {
+    const exact = 'A'.repeat(75);
+    expect(foldLine(exact)).toBe(exact);
+
+    const long = 'B'.repeat(200);
+    const folded = foldLine(long);
+    const lines = folded.split('\r\n');
+    expect(lines.map(octets)).toEqual([75, 75, 52]);
+    expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+    expect(unfold(folded)).toBe(long);
+  });
+
+  it('çok baytlı UTF-8 karakterleri bölünmez', () => {
+    // 74 oktet + 2 oktetlik "ş": sınır karakterin ortasına düşer, karakter sonraki satıra geçer
+    const line = `${'a'.repeat(74)}ş${'ğ'.repeat(40)}–😀`;
+    const folded = foldLine(line);
+    for (const physical of folded.split('\r\n')) {
+      expect(octets(physical)).toBeLessThanOrEqual(75);
+      expect(physical).not.toContain('\uFFFD');
+    }
+    expect(folded.split('\r\n')[0]).toBe('a'.repeat(74));
+    expect(unfold(folded)).toBe(line);
+  });
+});
+
+describe('buildCalendarInvite', () => {
+  it('REQUEST daveti: sabit DTSTAMP, CRLF satır sonları, hatırlatma', () => {
+    const ics = buildCalendarInvite(event);
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toContain('\n');
+    expect(unfold(ics).split('\r\n')).toEqual([
+      'BEGIN:VCALENDAR',
+      'PRODID:-//HEKAMAP//Saha Kesfi//TR',
+      'VERSION:2.0',
+      'CALSCALE:GREGORIAN',
+      'METHOD:REQUEST',
+      'BEGIN:VEVENT',
+      'UID:SRV-0042@hekamap.com',
+      'SEQUENCE:0',
+      'DTSTAMP:20260501T101530Z',
+      'DTSTART:20260512T070000Z',
+      'DTEND:20260512T090000Z',
+      'SUMMARY:Saha keşfi: Aplikasyon',
+      'DESCRIPTION:Randevu numarası: SRV-0042',
+      'LOCATION:Ahi Mesut Blv. No:5\\, Etimesgut/Ankara',
+      'STATUS:CONFIRMED',
+      'TRANSP:OPAQUE',
+      'ORGANIZER;CN="HEKAMAP":mailto:contact@notify.hekamap.com',
+      `ATTENDEE;CN="Ayşe 'Yılmaz'";ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=FALSE:mailto:ayse@example.com`,
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'DESCRIPTION:Saha keşfi: Aplikasyon',
+      'TRIGGER:-P1D',
+      'END:VALARM',
+      'END:VEVENT',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+
+  it('TEXT değerlerinde ters bölü, noktalı virgül, virgül ve satır sonu kaçışlanır', () => {
+    const ics = unfold(
+      buildCalendarInvite({ ...event, description: 'Not: kapı kodu 12;34, C:\\harita\r\nİkinci satır\nÜçüncü' })
+    );
+    expect(ics).toContain('DESCRIPTION:Not: kapı kodu 12\\;34\\, C:\\\\harita\\nİkinci satır\\nÜçüncü\r\n');
+  });
+
+  it('uzun açıklama katlanır; her fiziksel satır 75 oktet içinde kalır', () => {
+    const description = 'Gölbaşı parseli için köşe noktaları işaretlenecek, sınır taşları kontrol edilecek. '.repeat(5);
+    const ics = buildCalendarInvite({ ...event, description });
+    for (const line of ics.split('\r\n')) expect(octets(line)).toBeLessThanOrEqual(75);
+    expect(unfold(ics)).toContain(`DESCRIPTION:${description.replace(/,/g, '\\,')}\r\n`);
+  });
+
+  it('CANCEL: aynı UID, artan SEQUENCE, CANCELLED durumu, hatırlatma yok', () => {
+    const ics = unfold(buildCalendarInvite({ ...event, method: 'CANCEL', sequence: 2 }));
+    const lines = ics.split('\r\n');
+    expect(lines).toContain('METHOD:CANCEL');
+    expect(lines).toContain('UID:SRV-0042@hekamap.com');
+    expect(lines).toContain('SEQUENCE:2');
+    expect(lines).toContain('STATUS:CANCELLED');
+    expect(ics).not.toContain('BEGIN:VALARM');
+  });
+});
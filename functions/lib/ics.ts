@@ -0,0 +1,92 @@
+/**
+ * iCalendar (RFC 5545) davetleri - e-postaya .ics eki olarak eklenir
+ * METHOD:REQUEST takvim uygulamasında "kabul et" düğmesi çıkarır; aynı UID ve daha büyük SEQUENCE ile
+ * gönderilen davet mevcut etkinliği günceller, METHOD:CANCEL siler.
+ */
+export interface CalendarPerson {
+  name: string;
+  email: string;
+}
+
+export interface CalendarEvent {
+  uid: string;
+  sequence: number;
+  method: 'REQUEST' | 'CANCEL';
+  start: string;
+  end: string;
+  summary: string;
+  description: string;
+  location: string;
+  organizer: CalendarPerson;
+  attendees: CalendarPerson[];
+  /** DTSTAMP; testlerde sabitlenebilsin diye parametre */
+  now?: Date;
+}
+
+const PRODUCT_ID = '-//HEKAMAP//Saha Kesfi//TR';
+
+/** 20261019T073000Z */
+const formatUtc = (iso: string | Date) =>
+  new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+/** TEXT değerlerinde ters bölü, noktalı virgül, virgül ve satır sonu kaçışlanır (3.3.11) */
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Parametre değerinde çift tırnak kullanılamaz (3.1); ad tırnak içine alınır
+const quoteParam = (value: string) => `"${value.replace(/"/g, "'")}"`;
+
+const encoder = new TextEncoder();
+
+/** Satırlar en fazla 75 oktet olur, devamı boşlukla başlayan satıra katlanır (3.1); UTF-8 karakterleri bölünmez */
+export function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+const person = (property: 'ORGANIZER' | 'ATTENDEE', who: CalendarPerson, extra = '') =>
+  `${property};CN=${quoteParam(who.name || who.email)}${extra}:mailto:${who.email}`;
+
+export function buildCalendarInvite(event: CalendarEvent): string {
+  const cancelled = event.method === 'CANCEL';
+  const lines = [
+    'BEGIN:VCALENDAR',
+    `PRODID:${PRODUCT_ID}`,
+    'VERSION:2.0',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${event.method}`,
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `SEQUENCE:${event.sequence}`,
+    `DTSTAMP:${formatUtc(event.now ?? new Date())}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    `LOCATION:${escapeText(event.location)}`,
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'TRANSP:OPAQUE',
+    person('ORGANIZER', event.organizer),
+    ...event.attendees.map((attendee) => person('ATTENDEE', attendee, ';ROLE=REQ-PARTICIPANT;PARTSTAT=ACCEPTED;RSVP=FALSE')),
+  ];
+  if (!cancelled) {
+    // Bir gün önce hatırlatma
+    lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${escapeText(event.summary)}`, 'TRIGGER:-P1D', 'END:VALARM');
+  }
+  lines.push('END:VEVENT', 'END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,63 @@
+import type { KVNamespace } from '@cloudflare/workers-types';
+
+/**
+ * Küçük anahtar-değer deposu soyutlaması
+ * Production'da KV binding'i kullanılır; binding yoksa (yerel geliştirme) süreç içi Map'e düşer.
+ * Bellek deposu isolate başına tutulur, yani yalnızca geliştirme için uygundur.
+ */
+export interface KeyValueStore {
+  get(key: string): Promise<string | null>;
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// KV'nin kabul ettiği en kısa TTL 60 saniyedir
+const KV_MIN_TTL_SECONDS = 60;
+
+class CloudflareKvStore implements KeyValueStore {
+  constructor(private readonly namespace: KVNamespace) {}
+
+  get(key: string) {
+    return this.namespace.get(key);
+  }
+
+  put(key: string, value: string, options?: { expirationTtl?: number }) {
+    const ttl = options?.expirationTtl;
+    return this.namespace.put(key, value, ttl ? { expirationTtl: Math.max(KV_MIN_TTL_SECONDS, Math.ceil(ttl)) } : undefined);
+  }
+
+  delete(key: string) {
+    return this.namespace.delete(key);
+  }
+}
+
+type MemoryEntry = { value: string; expiresAt: number | null };
+
+class MemoryStore implements KeyValueStore {
+  private readonly entries = new Map<string, MemoryEntry>();
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async put(key: string, value: string, options?: { expirationTtl?: number }) {
+    const ttl = options?.expirationTtl;
+    this.entries.set(key, { value, expiresAt: ttl ? Date.now() + ttl * 1000 : null });
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+const memoryStore = new MemoryStore();
+
+export function getKeyValueStore(namespace: KVNamespace | undefined): KeyValueStore {
+  return namespace ? new CloudflareKvStore(namespace) : memoryStore;
+}
@@ -0,0 +1,322 @@
+import type { D1Database } from '@cloudflare/workers-types';
+import {
+  ADMIN_PAGE_SIZE,
+  isLeadStatus,
+  type AdminLeadDetail,
+  type AdminLeadFilters,
+  type AdminLeadSummary,
+  type LeadActivity,
+  type LeadStatus,
+  type Paginated,
+  type StaffMember,
+} from '../../shared/leads';
+
+/**
+ * Talep yönetimi - leads.status/assigned_to, `lead_notes` ve `lead_events` (denetim kaydı)
+ * Şema: migrations/0008_lead_pipeline.sql
+ * Durum ve atama değişiklikleri kayıtla aynı D1 batch'inde (tek işlem) yazılır; kaydı olmayan değişiklik olmaz.
+ */
+
+// Türkiye saati yaz/kış uygulamasız UTC+3; panelde seçilen gün buna göre UTC aralığına çevrilir
+const TURKEY_UTC_OFFSET = '+03:00';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function dayStartUtc(day: string): string | null {
+  if (!DATE_PATTERN.test(day)) return null;
+  const date = new Date(`${day}T00:00:00${TURKEY_UTC_OFFSET}`);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+const nextDayStartUtc = (day: string): string | null => {
+  const start = dayStartUtc(day);
+  return start ? new Date(Date.parse(start) + 24 * 60 * 60 * 1000).toISOString() : null;
+};
+
+/** Sorgu parametrelerinden süzgeçleri okur; tanınmayan değerler yok sayılır */
+export function readAdminLeadFilters(params: URLSearchParams): AdminLeadFilters {
+  const filters: AdminLeadFilters = {};
+  const status = params.get('status');
+  if (isLeadStatus(status)) filters.status = status;
+  for (const key of ['subject', 'from', 'to', 'assignee', 'q'] as const) {
+    const value = params.get(key)?.trim();
+    if (value) filters[key] = value.slice(0, 100);
+  }
+  return filters;
+}
+
+/** ?page= (1'den başlar); geçersiz değer ilk sayfa sayılır */
+export function readPage(params: URLSearchParams): number {
+  const page = Number(params.get('page'));
+  return Number.isInteger(page) && page > 0 ? page : 1;
+}
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, (char) => `\\${char}`);
+
+function buildLeadWhere(filters: AdminLeadFilters): { sql: string; binds: unknown[] } {
+  const clauses: string[] = [];
+  const binds: unknown[] = [];
+
+  if (filters.status) {
+    clauses.push('l.status = ?');
+    binds.push(filters.status);
+  }
+  if (filters.subject) {
+    // "none": konu seçilmeden bırakılmış talepler
+    clauses.push('l.subject = ?');
+    binds.push(filters.subject === 'none' ? '' : filters.subject);
+  }
+  const from = filters.from ? dayStartUtc(filters.from) : null;
+  if (from) {
+    clauses.push('l.created_at >= ?');
+    binds.push(from);
+  }
+  const to = filters.to ? nextDayStartUtc(filters.to) : null;
+  if (to) {
+    clauses.push('l.created_at < ?');
+    binds.push(to);
+  }
+  if (filters.assignee === 'none') {
+    clauses.push('l.assigned_to IS NULL');
+  } else if (filters.assignee) {
+    clauses.push('l.assigned_to = ?');
+    binds.push(filters.assignee);
+  }
+  if (filters.q) {
+    // Referans no, e-posta, ad soyad ya da telefonla arama
+    const searched = ['lower(l.id)', 'lower(l.email)', `lower(l.first_name || ' ' || l.last_name)`, 'l.phone'];
+    clauses.push(`(${searched.map((column) => `${column} LIKE ? ESCAPE '\\'`).join(' OR ')})`);
+    binds.push(...searched.map(() => `%${escapeLike(filters.q.toLowerCase())}%`));
+  }
+
+  return { sql: clauses.length ? `WHERE ${clauses.join(' AND ')}` : '', binds };
+}
+
+type LeadSummaryRow = {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  subject: string;
+  status: string;
+  created_at: string;
+  assignee_id: string | null;
+  assignee_name: string | null;
+  assignee_email: string | null;
+};
+
+type LeadDetailRow = LeadSummaryRow & {
+  phone: string;
+  message: string;
+  attachments: string;
+  locale: string;
+  status_updated_at: string | null;
+};
+
+const SUMMARY_COLUMNS = `l.id, l.first_name, l.last_name, l.email, l.subject, l.status, l.created_at,
+  a.id AS assignee_id, a.name AS assignee_name, a.email AS assignee_email`;
+
+const rowToSummary = (row: LeadSummaryRow): AdminLeadSummary => ({
+  id: row.id,
+  name: `${row.first_name} ${row.last_name}`.trim(),
+  email: row.email,
+  subject: row.subject,
+  status: isLeadStatus(row.status) ? row.status : 'new',
+  assignee: row.assignee_id ? { id: row.assignee_id, name: row.assignee_name ?? '', email: row.assignee_email ?? '' } : null,
+  createdAt: row.created_at,
+});
+
+/** Süzgeçlere uyan talepler, en yeni önce */
+export async function listAdminLeads(db: D1Database, filters: AdminLeadFilters, page: number): Promise<Paginated<AdminLeadSummary>> {
+  const where = buildLeadWhere(filters);
+  const [count, rows] = await Promise.all([
+    db.prepare(`SELECT COUNT(*) AS total FROM leads l ${where.sql}`).bind(...where.binds).first<{ total: number }>(),
+    db
+      .prepare(
+        `SELECT ${SUMMARY_COLUMNS}
+         FROM leads l LEFT JOIN accounts a ON a.id = l.assigned_to
+         ${where.sql}
+         ORDER BY l.created_at DESC
+         LIMIT ? OFFSET ?`
+      )
+      .bind(...where.binds, ADMIN_PAGE_SIZE, (page - 1) * ADMIN_PAGE_SIZE)
+      .all<LeadSummaryRow>(),
+  ]);
+  return {
+    items: rows.results.map(rowToSummary),
+    total: count?.total ?? 0,
+    page,
+    pageSize: ADMIN_PAGE_SIZE,
+  };
+}
+
+export async function findAdminLead(db: D1Database, id: string): Promise<AdminLeadDetail | null> {
+  const row = await db
+    .prepare(
+      `SELECT ${SUMMARY_COLUMNS}, l.phone, l.message, l.attachments, l.locale, l.status_updated_at
+       FROM leads l LEFT JOIN accounts a ON a.id = l.assigned_to
+       WHERE l.id = ?`
+    )
+    .bind(id)
+    .first<LeadDetailRow>();
+  if (!row) return null;
+  return {
+    ...rowToSummary(row),
+    phone: row.phone,
+    message: row.message,
+    attachments: JSON.parse(row.attachments || '[]'),
+    locale: row.locale,
+    statusUpdatedAt: row.status_updated_at,
+  };
+}
+
+export type LeadChanges = { status?: LeadStatus; assigneeId?: string | null };
+
+/**
+ * Durum ve/veya atamayı tek UPDATE ile değiştirir, her değişiklik için denetim kaydını aynı batch'te yazar.
+ * UPDATE yalnızca değişen alanlar hâlâ `current` değerindeyse uygulanır; başka bir personel araya girdiyse
+ * false döner ve hiçbir alan ya da kayıt yazılmaz. Kayıtlar INSERT ... WHERE changes() = 1 ile zincirlenir:
+ * başarılı bir INSERT changes() değerini yine 1 bırakır, uygulanmayan UPDATE ise hepsini atlatır.
+ */
+export async function updateLead(
+  db: D1Database,
+  leadId: string,
+  current: { status: LeadStatus; assigneeId: string | null },
+  changes: LeadChanges,
+  actorId: string
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const sets: string[] = [];
+  const setValues: Array<string | null> = [];
+  const where = ['id = ?'];
+  const whereValues: Array<string | null> = [leadId];
+  const events: Array<[type: 'status' | 'assignment', from: string | null, to: string | null]> = [];
+
+  if (changes.status !== undefined && changes.status !== current.status) {
+    sets.push('status = ?', 'status_updated_at = ?');
+    setValues.push(changes.status, now);
+    where.push('status = ?');
+    whereValues.push(current.status);
+    events.push(['status', current.status, changes.status]);
+  }
+  if (changes.assigneeId !== undefined && changes.assigneeId !== current.assigneeId) {
+    sets.push('assigned_to = ?');
+    setValues.push(changes.assigneeId);
+    where.push('assigned_to IS ?');
+    whereValues.push(current.assigneeId);
+    events.push(['assignment', current.assigneeId, changes.assigneeId]);
+  }
+  if (!events.length) return true;
+
+  const [update] = await db.batch([
+    db.prepare(`UPDATE leads SET ${sets.join(', ')} WHERE ${where.join(' AND ')}`).bind(...setValues, ...whereValues),
+    ...events.map(([type, from, to]) =>
+      db
+        .prepare(
+          `INSERT INTO lead_events (lead_id, actor_id, type, from_value, to_value, created_at)
+           SELECT ?, ?, ?, ?, ?, ? WHERE changes() = 1`
+        )
+        .bind(leadId, actorId, type, from, to, now)
+    ),
+  ]);
+  return update.meta.changes > 0;
+}
+
+/** Yalnızca durumu değiştirir; eşzamanlılık ve denetim updateLead ile aynı */
+export async function updateLeadStatus(
+  db: D1Database,
+  leadId: string,
+  from: LeadStatus,
+  to: LeadStatus,
+  actorId: string
+): Promise<boolean> {
+  return updateLead(db, leadId, { status: from, assigneeId: null }, { status: to }, actorId);
+}
+
+export async function addLeadNote(db: D1Database, leadId: string, authorId: string, body: string) {
+  await db
+    .prepare(`INSERT INTO lead_notes (lead_id, author_id, body, created_at) VALUES (?, ?, ?, ?)`)
+    .bind(leadId, authorId, body, new Date().toISOString())
+    .run();
+}
+
+type ActivityRow = {
+  id: string;
+  kind: 'note' | 'status' | 'assignment';
+  body: string | null;
+  from_value: string | null;
+  to_value: string | null;
+  created_at: string;
+  actor_id: string;
+  actor_name: string;
+  actor_email: string;
+  from_name: string | null;
+  from_email: string | null;
+  to_name: string | null;
+  to_email: string | null;
+};
+
+const staffMember = (id: string | null, name: string | null, email: string | null): StaffMember | null =>
+  id ? { id, name: name ?? '', email: email ?? '' } : null;
+
+function rowToActivity(row: ActivityRow): LeadActivity {
+  const actor = { id: row.actor_id, name: row.actor_name, email: row.actor_email };
+  if (row.kind === 'note') {
+    return { id: row.id, kind: 'note', actor, body: row.body ?? '', createdAt: row.created_at };
+  }
+  if (row.kind === 'assignment') {
+    return {
+      id: row.id,
+      kind: 'assignment',
+      actor,
+      from: staffMember(row.from_value, row.from_name, row.from_email),
+      to: staffMember(row.to_value, row.to_name, row.to_email),
+      createdAt: row.created_at,
+    };
+  }
+  return {
+    id: row.id,
+    kind: 'status',
+    actor,
+    from: isLeadStatus(row.from_value) ? row.from_value : null,
+    to: isLeadStatus(row.to_value) ? row.to_value : 'new',
+    createdAt: row.created_at,
+  };
+}
+
+/** Notlar ve denetim kayıtları tek akışta, en yeni önce */
+export async function listLeadActivity(db: D1Database, leadId: string, page: number): Promise<Paginated<LeadActivity>> {
+  const [count, rows] = await Promise.all([
+    db
+      .prepare(
+        `SELECT (SELECT COUNT(*) FROM lead_notes WHERE lead_id = ?) + (SELECT COUNT(*) FROM lead_events WHERE lead_id = ?) AS total`
+      )
+      .bind(leadId, leadId)
+      .first<{ total: number }>(),
+    db
+      .prepare(
+        `SELECT 'note-' || n.id AS id, 'note' AS kind, n.body, NULL AS from_value, NULL AS to_value, n.created_at AS created_at,
+                actor.id AS actor_id, actor.name AS actor_name, actor.email AS actor_email,
+                NULL AS from_name, NULL AS from_email, NULL AS to_name, NULL AS to_email
+         FROM lead_notes n JOIN accounts actor ON actor.id = n.author_id
+         WHERE n.lead_id = ?
+         UNION ALL
+         SELECT 'event-' || e.id, e.type, NULL, e.from_value, e.to_value, e.created_at,
+                actor.id, actor.name, actor.email, fa.name, fa.email, ta.name, ta.email
+         FROM lead_events e JOIN accounts actor ON actor.id = e.actor_id
+         LEFT JOIN accounts fa ON e.type = 'assignment' AND fa.id = e.from_value
+         LEFT JOIN accounts ta ON e.type = 'assignment' AND ta.id = e.to_value
+         WHERE e.lead_id = ?
+         ORDER BY created_at DESC, id DESC
+         LIMIT ? OFFSET ?`
+      )
+      .bind(leadId, leadId, ADMIN_PAGE_SIZE, (page - 1) * ADMIN_PAGE_SIZE)
+      .all<ActivityRow>(),
+  ]);
+  return {
+    items: rows.results.map(rowToActivity),
+    total: count?.total ?? 0,
+    page,
+    pageSize: ADMIN_PAGE_SIZE,
+  };
+}
@@ -0,0 +1,153 @@
+import type { D1Database } from '@cloudflare/workers-types';
+import type { ContactPayload } from '../../shared/contact';
+import type { AttachmentInfo } from '../../shared/attachments';
+import type { PortalRequestSummary } from '../../shared/auth';
+import { readLocale, type Locale } from '../../shared/i18n';
+import { randomReadableCode, sha256Hex } from './crypto';
+
+/**
+ * Lead (talep) kayıtları - D1 `leads` tablosu
+ * Şema: migrations/0001_create_leads.sql
+ */
+export type LeadEmailStatus = 'pending' | 'sent' | 'failed';
+
+export interface LeadRecord extends ContactPayload {
+  id: string;
+  ipHash: string;
+  createdAt: string;
+  submissionId: string | null;
+  attachments: AttachmentInfo[];
+  locale: Locale;
+}
+
+export interface CreateLeadOptions {
+  ipHash: string;
+  submissionId?: string | null;
+  attachments?: AttachmentInfo[];
+  locale?: Locale;
+}
+
+/**
+ * Kullanıcıya referans numarası olarak gösterilen ID: HKM-YYMMDD-XXXXXX
+ * Tarih kısmı destek ekibinin talebi hızlıca bulmasını sağlar.
+ */
+export function generateLeadId(now = new Date()): string {
+  const date = now.toISOString().slice(2, 10).replace(/-/g, '');
+  return `HKM-${date}-${randomReadableCode(6)}`;
+}
+
+/** IP adresi ham halde saklanmaz; tuzlu SHA-256 özeti kötüye kullanım analizine yeter */
+export function hashClientIp(ip: string, salt = ''): Promise<string> {
+  return sha256Hex(`${salt}:${ip}`);
+}
+
+/**
+ * Yeni lead oluşturur. Aynı submissionId ile daha önce kayıt açılmışsa mevcut lead döner
+ * (created: false), böylece tekrarlanan form gönderimi ikinci bir talep üretmez.
+ */
+export async function createLead(
+  db: D1Database,
+  payload: ContactPayload,
+  options: CreateLeadOptions
+): Promise<{ lead: LeadRecord; created: boolean }> {
+  const submissionId = options.submissionId ?? null;
+  if (submissionId) {
+    const existing = await findLeadBySubmissionId(db, submissionId);
+    if (existing) {
+      return { lead: existing, created: false };
+    }
+  }
+
+  const lead: LeadRecord = {
+    ...payload,
+    id: generateLeadId(),
+    ipHash: options.ipHash,
+    createdAt: new Date().toISOString(),
+    submissionId,
+    attachments: (options.attachments ?? []).map(({ name, size, type }) => ({ name, size, type })),
+    locale: readLocale(options.locale),
+  };
+
+  await db
+    .prepare(
+      `INSERT INTO leads (id, first_name, last_name, email, phone, subject, message, ip_hash, created_at, submission_id, attachments, locale)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .bind(
+      lead.id,
+      lead.firstName,
+      lead.lastName,
+      lead.email,
+      lead.phone,
+      lead.subject,
+      lead.message,
+      lead.ipHash,
+      lead.createdAt,
+      lead.submissionId,
+      JSON.stringify(lead.attachments),
+      lead.locale
+    )
+    .run();
+
+  return { lead, created: true };
+}
+
+type LeadRow = {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string;
+  subject: string;
+  message: string;
+  ip_hash: string;
+  created_at: string;
+  submission_id: string | null;
+  attachments: string;
+  locale: string;
+};
+
+const rowToLead = (row: LeadRow): LeadRecord => ({
+  id: row.id,
+  firstName: row.first_name,
+  lastName: row.last_name,
+  email: row.email,
+  phone: row.phone,
+  subject: row.subject as LeadRecord['subject'],
+  message: row.message,
+  ipHash: row.ip_hash,
+  createdAt: row.created_at,
+  submissionId: row.submission_id,
+  attachments: JSON.parse(row.attachments || '[]'),
+  locale: readLocale(row.locale),
+});
+
+export async function findLeadBySubmissionId(db: D1Database, submissionId: string): Promise<LeadRecord | null> {
+  const row = await db.prepare(`SELECT * FROM leads WHERE submission_id = ?`).bind(submissionId).first<LeadRow>();
+  return row ? rowToLead(row) : null;
+}
+
+export async function markLeadEmailSent(db: D1Database, leadId: string, messageId: string | undefined) {
+  await db
+    .prepare(
+      `UPDATE leads SET email_status = 'sent', email_message_id = ?, email_error = NULL, email_updated_at = ? WHERE id = ?`
+    )
+    .bind(messageId ?? null, new Date().toISOString(), leadId)
+    .run();
+}
+
+export async function markLeadEmailFailed(db: D1Database, leadId: string, error: string) {
+  await db
+    .prepare(`UPDATE leads SET email_status = 'failed', email_error = ?, email_updated_at = ? WHERE id = ?`)
+    .bind(error.slice(0, 1000), new Date().toISOString(), leadId)
+    .run();
+}
+
+/** Portalda gösterilen, adrese ait talepler (en yeni önce) */
+export async function listLeadSummariesByEmail(db: D1Database, email: string, limit = 50): Promise<PortalRequestSummary[]> {
+  const { results } = await db
+    .prepare(`SELECT id, subject, created_at FROM leads WHERE email = ? ORDER BY created_at DESC LIMIT ?`)
+    .bind(email, limit)
+    .all<{ id: string; subject: string; created_at: string }>();
+  return results.map((row) => ({ id: row.id, subject: row.subject, createdAt: row.created_at }));
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { SIGNATURE_MAX_AGE_SECONDS, computeMailgunSignature, isMailgunSignature, verifyMailgunSignature } from './mailgunSignature';
+import delivered from './fixtures/mailgun/delivered.json';
+import wrongKey from './fixtures/mailgun/wrong-key.json';
+import malformed from './fixtures/mailgun/malformed.json';
+
+// Fixture imzaları bu anahtarla node:crypto createHmac('sha256') ile hesaplandı; wrong-key.json başka anahtarla imzalı
+const SIGNING_KEY = 'test-signing-key-0f6b2d';
+const SIGNED_AT = Number(delivered.signature.timestamp);
+
+describe('verifyMailgunSignature', () => {
+  it('geçerli imza: HMAC-SHA256(anahtar, timestamp + token)', async () => {
+    await expect(computeMailgunSignature(SIGNING_KEY, delivered.signature.timestamp, delivered.signature.token)).resolves.toBe(
+      delivered.signature.signature
+    );
+    await expect(verifyMailgunSignature(SIGNING_KEY, delivered.signature, SIGNED_AT)).resolves.toEqual({ ok: true });
+    // Büyük harfli hex de kabul edilir
+    const upper = { ...delivered.signature, signature: delivered.signature.signature.toUpperCase() };
+    await expect(verifyMailgunSignature(SIGNING_KEY, upper, SIGNED_AT)).resolves.toEqual({ ok: true });
+  });
+
+  it('stale: süre sınırında kabul, bir saniye sonra ve ileri tarihte red', async () => {
+    await expect(verifyMailgunSignature(SIGNING_KEY, delivered.signature, SIGNED_AT + SIGNATURE_MAX_AGE_SECONDS)).resolves.toEqual({
+      ok: true,
+    });
+    await expect(verifyMailgunSignature(SIGNING_KEY, delivered.signature, SIGNED_AT + SIGNATURE_MAX_AGE_SECONDS + 1)).resolves.toEqual({
+      ok: false,
+      reason: 'stale',
+    });
+    await expect(verifyMailgunSignature(SIGNING_KEY, delivered.signature, SIGNED_AT - SIGNATURE_MAX_AGE_SECONDS - 1)).resolves.toEqual({
+      ok: false,
+      reason: 'stale',
+    });
+  });
+
+  it('mismatch: başka anahtarla imza, değiştirilmiş token ya da zaman damgası', async () => {
+    await expect(verifyMailgunSignature(SIGNING_KEY, wrongKey.signature, SIGNED_AT)).resolves.toEqual({ ok: false, reason: 'mismatch' });
+    const otherToken = { ...delivered.signature, token: `${delivered.signature.token.slice(0, -1)}0` };
+    await expect(verifyMailgunSignature(SIGNING_KEY, otherToken, SIGNED_AT)).resolves.toEqual({ ok: false, reason: 'mismatch' });
+    const otherTimestamp = { ...delivered.signature, timestamp: String(SIGNED_AT + 1) };
+    await expect(verifyMailgunSignature(SIGNING_KEY, otherTimestamp, SIGNED_AT)).resolves.toEqual({ ok: false, reason: 'mismatch' });
+  });
+
+  it('malformed: sayı olmayan zaman damgası, kısa imza, boş token', async () => {
+    expect(isMailgunSignature(malformed.signature)).toBe(true);
+    await expect(verifyMailgunSignature(SIGNING_KEY, malformed.signature, SIGNED_AT)).resolves.toEqual({ ok: false, reason: 'malformed' });
+    await expect(verifyMailgunSignature(SIGNING_KEY, { ...delivered.signature, token: '' }, SIGNED_AT)).resolves.toEqual({
+      ok: false,
+      reason: 'malformed',
+    });
+    await expect(
+      verifyMailgunSignature(SIGNING_KEY, { ...delivered.signature, signature: 'z'.repeat(64) }, SIGNED_AT)
+    ).resolves.toEqual({ ok: false, reason: 'malformed' });
+  });
+
+  it('isMailgunSignature alan tiplerini denetler', () => {
+    expect(isMailgunSignature(delivered.signature)).toBe(true);
+    expect(isMailgunSignature(null)).toBe(false);
+    expect(isMailgunSignature('imza')).toBe(false);
+    expect(isMailgunSignature({ ...delivered.signature, timestamp: SIGNED_AT })).toBe(false);
+    expect(isMailgunSignature({ timestamp: delivered.signature.timestamp, token: delivered.signature.token })).toBe(false);
+  });
+});
@@ -0,0 +1,43 @@
+import { hmacSha256Hex, timingSafeEqual } from './crypto';
+
+/**
+ * Mailgun webhook imza doğrulaması
+ * İmza = HMAC-SHA256(signingKey, timestamp + token), hex.
+ * https://documentation.mailgun.com/docs/mailgun/user-manual/tracking-messages/#securing-webhooks
+ */
+export interface MailgunSignature {
+  timestamp: string;
+  token: string;
+  signature: string;
+}
+
+export type SignatureVerification = { ok: true } | { ok: false; reason: 'malformed' | 'stale' | 'mismatch' };
+
+/** Bu süreden eski (veya ileri tarihli) imzalar tekrar oynatma kabul edilir */
+export const SIGNATURE_MAX_AGE_SECONDS = 5 * 60;
+
+export function isMailgunSignature(value: unknown): value is MailgunSignature {
+  if (!value || typeof value !== 'object') return false;
+  const v = value as Record<string, unknown>;
+  return typeof v.timestamp === 'string' && typeof v.token === 'string' && typeof v.signature === 'string';
+}
+
+export function computeMailgunSignature(signingKey: string, timestamp: string, token: string): Promise<string> {
+  return hmacSha256Hex(signingKey, timestamp + token);
+}
+
+export async function verifyMailgunSignature(
+  signingKey: string,
+  signature: MailgunSignature,
+  nowSeconds = Math.floor(Date.now() / 1000)
+): Promise<SignatureVerification> {
+  const timestamp = Number(signature.timestamp);
+  if (!Number.isFinite(timestamp) || !signature.token || !/^[0-9a-f]{64}$/i.test(signature.signature)) {
+    return { ok: false, reason: 'malformed' };
+  }
+  if (Math.abs(nowSeconds - timestamp) > SIGNATURE_MAX_AGE_SECONDS) {
+    return { ok: false, reason: 'stale' };
+  }
+  const expected = await computeMailgunSignature(signingKey, signature.timestamp, signature.token);
+  return timingSafeEqual(expected, signature.signature.toLowerCase()) ? { ok: true } : { ok: false, reason: 'mismatch' };
+}
@@ -0,0 +1,234 @@
+/**
+ * Bağımlılıksız, küçük PDF üretici (PDF 1.4)
+ * Yalnızca tekliflerin ihtiyaç duyduğu kadarı: A4 sayfa, metin, çizgi ve dolu dikdörtgen.
+ * Fontlar gömülmez; her okuyucuda bulunan standart Helvetica / Helvetica-Bold kullanılır.
+ * Türkçe harfler WinAnsiEncoding'in boş kodlarına /Differences ile yerleştirilir (ğ Ğ ı İ ş Ş).
+ *
+ * Koordinatlar sayfanın sol üst köşesinden, punto cinsindendir; PDF'in alttan yukarı ekseni içeride çevrilir.
+ */
+
+export const PDF_PAGE_WIDTH = 595.28;
+export const PDF_PAGE_HEIGHT = 841.89;
+
+export type PdfFont = 'regular' | 'bold';
+/** 0-255 aralığında RGB */
+export type PdfColor = readonly [number, number, number];
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+// Standart 14 fontun AFM genişlikleri (1000 birim), ASCII 32-126
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// prettier-ignore
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/** WinAnsi'de Latin-1 dışında kalan karakterler ve Türkçe harfler için ayrılan kodlar */
+const SPECIAL_CODES: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  // /Differences ile yeniden adlandırılan, WinAnsi'de tanımsız kodlar
+  Ğ: 0x81,
+  ğ: 0x8d,
+  İ: 0x8f,
+  ı: 0x90,
+  Ş: 0x9d,
+  ş: 0x9e,
+};
+
+const TURKISH_DIFFERENCES = '[129 /Gbreve 141 /gbreve 143 /Idotaccent 144 /dotlessi 157 /Scedilla 158 /scedilla]';
+
+/** Temel harfe indirgenemeyen karakterlerin genişlikleri [regular, bold] */
+const SPECIAL_WIDTHS: Record<string, [number, number]> = {
+  ı: [278, 278],
+  '€': [556, 556],
+  '…': [1000, 1000],
+  '‘': [222, 278],
+  '’': [222, 278],
+  '“': [333, 500],
+  '”': [333, 500],
+  '•': [350, 350],
+  '–': [556, 556],
+  '—': [1000, 1000],
+  '°': [400, 400],
+  '²': [333, 333],
+  '³': [333, 333],
+  '·': [278, 278],
+  '×': [584, 584],
+  ' ': [278, 278],
+};
+
+const FALLBACK_WIDTH = 556;
+
+function glyphWidth(char: string, font: PdfFont): number {
+  const special = SPECIAL_WIDTHS[char];
+  if (special) return special[font === 'bold' ? 1 : 0];
+  // Aksanlı harfler (ç, ö, ü, Ş, İ...) temel harfle aynı genişliktedir
+  const code = char.normalize('NFD').charCodeAt(0);
+  if (code >= 32 && code <= 126) return (font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS)[code - 32];
+  return FALLBACK_WIDTH;
+}
+
+/** Metnin punto cinsinden genişliği */
+export function textWidth(text: string, size: number, font: PdfFont = 'regular'): number {
+  let units = 0;
+  for (const char of text) units += glyphWidth(char, font);
+  return (units * size) / 1000;
+}
+
+/** Metni verilen genişliğe sığacak satırlara böler; tek başına sığmayan kelime harf harf kırılır */
+export function wrapText(text: string, size: number, font: PdfFont, maxWidth: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, font) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = '';
+      let rest = word;
+      while (textWidth(rest, size, font) > maxWidth) {
+        let cut = rest.length - 1;
+        while (cut > 1 && textWidth(rest.slice(0, cut), size, font) > maxWidth) cut--;
+        lines.push(rest.slice(0, cut));
+        rest = rest.slice(cut);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+/** Metni PDF dize sözdizimine (tek baytlık WinAnsi) çevirir; karşılığı olmayan karakter '?' olur */
+function encodeText(text: string): string {
+  let out = '';
+  for (const char of text) {
+    const special = SPECIAL_CODES[char];
+    let code = special ?? char.charCodeAt(0);
+    if (special === undefined && (char.length > 1 || code < 32 || (code > 126 && code < 0xa0) || code > 0xff)) {
+      code = 0x3f;
+    }
+    if (code === 0x28 || code === 0x29 || code === 0x5c) out += '\\';
+    out += String.fromCharCode(code);
+  }
+  return out;
+}
+
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+const rgb = (color: PdfColor) => color.map((channel) => num(channel / 255)).join(' ');
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+  /** right: x sağ kenardır */
+  align?: 'left' | 'right';
+}
+
+export class PdfDocument {
+  private readonly pages: string[][] = [];
+
+  constructor(private readonly info: { title?: string; author?: string } = {}) {}
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /** Yeni sayfa açar; sonraki çizimler bu sayfaya yapılır */
+  addPage(): number {
+    this.pages.push([]);
+    return this.pages.length - 1;
+  }
+
+  /** Çizilecek sayfayı seçer (ör. sayfa numaralarını sonradan basmak için) */
+  private target(page?: number): string[] {
+    if (this.pages.length === 0) this.addPage();
+    return this.pages[page ?? this.pages.length - 1];
+  }
+
+  text(x: number, y: number, value: string, options: PdfTextOptions & { page?: number } = {}) {
+    const { size = 10, font = 'regular', color = [0, 0, 0], align = 'left', page } = options;
+    const left = align === 'right' ? x - textWidth(value, size, font) : x;
+    // y metnin taban çizgisidir
+    this.target(page).push(
+      `BT ${rgb(color)} rg /${FONT_RESOURCES[font]} ${num(size)} Tf ${num(left)} ${num(PDF_PAGE_HEIGHT - y)} Td (${encodeText(value)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: { color?: PdfColor; width?: number; page?: number } = {}) {
+    const { color = [0, 0, 0], width = 0.5, page } = options;
+    this.target(page).push(
+      `${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(PDF_PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PDF_PAGE_HEIGHT - y2)} l S`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: PdfColor) {
+    this.target().push(`${rgb(fill)} rg ${num(x)} ${num(PDF_PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`);
+  }
+
+  /** Belgeyi bayt dizisine yazar; xref tablosu nesnelerin bayt konumlarıyla kurulur */
+  toBytes(): Uint8Array {
+    if (this.pages.length === 0) this.addPage();
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body);
+
+    // 1: katalog, 2: sayfa ağacı, 3-4: fontlar, 5: bilgi; ardından her sayfa için sayfa + içerik
+    const firstPage = 6;
+    const kids = this.pages.map((_, index) => `${firstPage + index * 2} 0 R`).join(' ');
+    add('<< /Type /Catalog /Pages 2 0 R >>');
+    add(`<< /Type /Pages /Kids [${kids}] /Count ${this.pages.length} >>`);
+    for (const base of ['Helvetica', 'Helvetica-Bold']) {
+      add(
+        `<< /Type /Font /Subtype /Type1 /BaseFont /${base} /Encoding << /Type /Encoding /BaseEncoding /WinAnsiEncoding /Differences ${TURKISH_DIFFERENCES} >> >>`
+      );
+    }
+    add(`<< /Producer (${encodeText('hekamap')}) /Title (${encodeText(this.info.title ?? '')}) /Author (${encodeText(this.info.author ?? '')}) >>`);
+    for (const [index, operations] of this.pages.entries()) {
+      const content = operations.join('\n');
+      add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(PDF_PAGE_WIDTH)} ${num(PDF_PAGE_HEIGHT)}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${firstPage + index * 2 + 1} 0 R >>`
+      );
+      add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+    }
+
+    // Tüm içerik tek baytlık olduğundan dize uzunluğu bayt konumuna eşittir
+    let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+    const offsets: number[] = [];
+    for (const [index, body] of objects.entries()) {
+      offsets.push(output.length);
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    }
+    const xref = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i);
+    return bytes;
+  }
+}
@@ -0,0 +1,169 @@
+import { PdfDocument, PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH, wrapText, type PdfColor } from './pdf';
+import { format, formatNumber, getMessages } from '../../shared/i18n';
+import { formatKurus, formatQuoteDate, type QuoteRecord } from '../../shared/quotes';
+
+/**
+ * Teklif PDF'i (A4)
+ * Üst bilgi, müşteri, kalem tablosu, toplamlar ve koşullar; tablo ve koşullar sayfaya sığmazsa yeni sayfaya geçer.
+ * Metinler teklifin kaydedildiği dildedir, panelin o anki dilinde değil.
+ */
+
+const MARGIN = 48;
+const RIGHT = PDF_PAGE_WIDTH - MARGIN;
+const CONTENT_BOTTOM = PDF_PAGE_HEIGHT - 72;
+
+const EMERALD: PdfColor = [5, 150, 105];
+const INK: PdfColor = [28, 25, 23];
+const MUTED: PdfColor = [120, 113, 108];
+const RULE: PdfColor = [214, 211, 209];
+const HEADER_FILL: PdfColor = [245, 245, 244];
+const WHITE: PdfColor = [255, 255, 255];
+
+// Tablo sütunları: sayısal sütunlar sağa yaslıdır (x sağ kenar)
+const COLUMNS = {
+  index: MARGIN + 4,
+  service: MARGIN + 24,
+  serviceWidth: 226,
+  quantity: 345,
+  unit: 352,
+  unitPrice: 462,
+  amount: RIGHT - 4,
+};
+
+export function quotePdfFileName(quote: Pick<QuoteRecord, 'id'>): string {
+  return `${quote.id}.pdf`;
+}
+
+export function renderQuotePdf(quote: QuoteRecord): Uint8Array {
+  const messages = getMessages(quote.locale);
+  const m = messages.quotes;
+  const d = m.document;
+  const money = (kurus: number) => formatKurus(kurus, quote.locale);
+  const pdf = new PdfDocument({ title: `${d.title} ${quote.id}`, author: 'HEKAMAP' });
+  pdf.addPage();
+
+  // Üst bilgi
+  pdf.rect(0, 0, PDF_PAGE_WIDTH, 6, EMERALD);
+  pdf.text(MARGIN, 62, 'HEKAMAP', { size: 24, font: 'bold', color: EMERALD });
+  pdf.text(MARGIN, 78, d.tagline, { size: 9, color: MUTED });
+  pdf.text(RIGHT, 58, d.title, { size: 16, font: 'bold', color: INK, align: 'right' });
+  const meta: Array<[string, string]> = [
+    [d.number, quote.id],
+    [d.date, formatQuoteDate(quote.createdAt, quote.locale)],
+    [d.validUntil, formatQuoteDate(quote.validUntil, quote.locale)],
+  ];
+  meta.forEach(([label, value], index) => {
+    const y = 76 + index * 13;
+    pdf.text(RIGHT - 120, y, label, { size: 8.5, color: MUTED, align: 'right' });
+    pdf.text(RIGHT, y, value, { size: 8.5, font: 'bold', color: INK, align: 'right' });
+  });
+  pdf.line(MARGIN, 124, RIGHT, 124, { color: RULE });
+
+  // Müşteri ve hazırlayan
+  let y = 146;
+  pdf.text(MARGIN, y, d.preparedFor.toLocaleUpperCase(quote.locale), { size: 7.5, font: 'bold', color: MUTED });
+  const customerLines = [quote.customer.company, quote.customer.email, ...wrapText(quote.customer.address, 9, 'regular', 280)].filter(
+    Boolean
+  );
+  pdf.text(MARGIN, y + 15, quote.customer.name, { size: 11, font: 'bold', color: INK });
+  customerLines.forEach((line, index) => pdf.text(MARGIN, y + 29 + index * 12, line, { size: 9, color: INK }));
+  if (quote.createdBy) {
+    pdf.text(RIGHT, y, d.preparedBy.toLocaleUpperCase(quote.locale), { size: 7.5, font: 'bold', color: MUTED, align: 'right' });
+    pdf.text(RIGHT, y + 15, quote.createdBy.name || quote.createdBy.email, { size: 10, font: 'bold', color: INK, align: 'right' });
+    pdf.text(RIGHT, y + 29, quote.createdBy.email, { size: 9, color: INK, align: 'right' });
+  }
+  y += 29 + Math.max(customerLines.length, 1) * 12 + 18;
+
+  const tableHeader = () => {
+    pdf.rect(MARGIN, y, RIGHT - MARGIN, 20, HEADER_FILL);
+    const base = y + 13;
+    const style = { size: 8, font: 'bold' as const, color: MUTED };
+    pdf.text(COLUMNS.index, base, d.index, style);
+    pdf.text(COLUMNS.service, base, d.service, style);
+    pdf.text(COLUMNS.quantity, base, d.quantity, { ...style, align: 'right' });
+    pdf.text(COLUMNS.unit, base, d.unit, style);
+    pdf.text(COLUMNS.unitPrice, base, d.unitPrice, { ...style, align: 'right' });
+    pdf.text(COLUMNS.amount, base, d.amount, { ...style, align: 'right' });
+    y += 20;
+  };
+
+  const newPage = () => {
+    pdf.addPage();
+    y = MARGIN + 10;
+  };
+
+  // Kalemler
+  tableHeader();
+  quote.items.forEach((item, index) => {
+    const description = item.description ? wrapText(item.description, 8, 'regular', COLUMNS.serviceWidth) : [];
+    const height = 22 + description.length * 10;
+    if (y + height > CONTENT_BOTTOM) {
+      newPage();
+      tableHeader();
+    }
+    const base = y + 14;
+    pdf.text(COLUMNS.index, base, String(index + 1), { size: 9, color: MUTED });
+    pdf.text(COLUMNS.service, base, m.services[String(item.serviceId) as keyof typeof m.services], {
+      size: 9,
+      font: 'bold',
+      color: INK,
+    });
+    description.forEach((line, lineIndex) => pdf.text(COLUMNS.service, base + 11 + lineIndex * 10, line, { size: 8, color: MUTED }));
+    pdf.text(COLUMNS.quantity, base, formatNumber(item.quantity, quote.locale, 3), { size: 9, color: INK, align: 'right' });
+    pdf.text(COLUMNS.unit, base, m.units[item.unit], { size: 9, color: INK });
+    pdf.text(COLUMNS.unitPrice, base, money(item.unitPriceKurus), { size: 9, color: INK, align: 'right' });
+    pdf.text(COLUMNS.amount, base, money(quote.lineTotals[index] ?? 0), { size: 9, font: 'bold', color: INK, align: 'right' });
+    y += height;
+    pdf.line(MARGIN, y, RIGHT, y, { color: RULE });
+  });
+
+  // Toplamlar
+  if (y + 80 > CONTENT_BOTTOM) newPage();
+  y += 20;
+  const totalsLabel = COLUMNS.unitPrice;
+  pdf.text(totalsLabel, y, d.subtotal, { size: 9, color: MUTED, align: 'right' });
+  pdf.text(COLUMNS.amount, y, money(quote.subtotal), { size: 9, color: INK, align: 'right' });
+  y += 16;
+  pdf.text(totalsLabel, y, format(d.vat, { rate: quote.vatRate }), { size: 9, color: MUTED, align: 'right' });
+  pdf.text(COLUMNS.amount, y, money(quote.vat), { size: 9, color: INK, align: 'right' });
+  y += 10;
+  pdf.rect(COLUMNS.quantity - 40, y, RIGHT - COLUMNS.quantity + 40, 24, EMERALD);
+  pdf.text(totalsLabel, y + 16, d.total, { size: 10, font: 'bold', color: WHITE, align: 'right' });
+  pdf.text(COLUMNS.amount, y + 16, money(quote.total), { size: 11, font: 'bold', color: WHITE, align: 'right' });
+  y += 50;
+
+  // Geçerlilik ve koşullar
+  const validity = wrapText(format(d.validity, { date: formatQuoteDate(quote.validUntil, quote.locale) }), 9, 'regular', RIGHT - MARGIN);
+  const terms = quote.terms ? wrapText(quote.terms, 8.5, 'regular', RIGHT - MARGIN) : [];
+  if (y + 24 + validity.length * 12 > CONTENT_BOTTOM) newPage();
+  validity.forEach((line) => {
+    pdf.text(MARGIN, y, line, { size: 9, color: INK });
+    y += 12;
+  });
+  if (terms.length > 0) {
+    y += 12;
+    if (y + 30 > CONTENT_BOTTOM) newPage();
+    pdf.text(MARGIN, y, d.terms.toLocaleUpperCase(quote.locale), { size: 7.5, font: 'bold', color: MUTED });
+    y += 14;
+    for (const line of terms) {
+      if (y > CONTENT_BOTTOM) newPage();
+      pdf.text(MARGIN, y, line, { size: 8.5, color: INK });
+      y += 11.5;
+    }
+  }
+
+  // Alt bilgi: toplam sayfa sayısı ancak içerik bitince bilinir
+  for (let page = 0; page < pdf.pageCount; page++) {
+    const footer = PDF_PAGE_HEIGHT - 44;
+    pdf.line(MARGIN, footer, RIGHT, footer, { color: RULE, page });
+    pdf.text(MARGIN, footer + 14, d.contact, { size: 7.5, color: MUTED, page });
+    pdf.text(RIGHT, footer + 14, format(d.page, { page: page + 1, pages: pdf.pageCount }), {
+      size: 7.5,
+      color: MUTED,
+      align: 'right',
+      page,
+    });
+  }
+
+  return pdf.toBytes();
+}
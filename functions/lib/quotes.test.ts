@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { D1Database } from '@cloudflare/workers-types';
+import { createQuote } from './quotes';
+import type { QuoteInput } from '../../shared/quotes';
+import { SERVICE_IDS } from '../../shared/services';
+
+const input: QuoteInput = {
+  leadId: null,
+  customer: { name: 'Örnek Madencilik A.Ş.', email: 'satinalma@example.com', company: '', address: '' },
+  items: [{ serviceId: SERVICE_IDS.HARITA, description: 'Halihazır harita', quantity: 12.5, unit: 'hektar', unitPriceKurus: 450_000 }],
+  vatRate: 20,
+  validUntil: '2026-03-31',
+  terms: '',
+  locale: 'tr',
+};
+
+/** Yalnızca INSERT ... RETURNING çağrısını taklit eden D1; her denemenin sonucu sırayla verilir */
+function fakeDb(outcomes: Array<{ id: string } | Error>) {
+  const calls: unknown[][] = [];
+  const db = {
+    prepare: () => ({
+      bind: (...values: unknown[]) => ({
+        first: async () => {
+          calls.push(values);
+          const outcome = outcomes[calls.length - 1];
+          if (outcome instanceof Error) throw outcome;
+          return outcome ?? null;
+        },
+      }),
+    }),
+  };
+  return { db: db as unknown as D1Database, calls };
+}
+
+const uniqueViolation = () => new Error('D1_ERROR: UNIQUE constraint failed: quotes.year, quotes.sequence: SQLITE_CONSTRAINT');
+
+describe('createQuote', () => {
+  it('aynı numaraya takılan kayıt yeniden denenir', async () => {
+    const { db, calls } = fakeDb([uniqueViolation(), { id: 'TKL-2026-0008' }]);
+    await expect(createQuote(db, input, 'acc_1', new Date('2026-03-01T09:00:00Z'))).resolves.toBe('TKL-2026-0008');
+    expect(calls).toHaveLength(2);
+    // Her denemede aynı değerler bağlanır; sıradaki numara sorgunun içinde yeniden hesaplanır
+    expect(calls[1]).toEqual(calls[0]);
+    // Yıl, ara toplam, KDV, toplam
+    expect(calls[0][0]).toBe(2026);
+    expect(calls[0].slice(8, 11)).toEqual([5_625_000, 1_125_000, 6_750_000]);
+  });
+
+  it('üç denemeden sonra tekil indeks hatası iletilir', async () => {
+    const { db, calls } = fakeDb([uniqueViolation(), uniqueViolation(), uniqueViolation(), { id: 'TKL-2026-0009' }]);
+    await expect(createQuote(db, input, 'acc_1')).rejects.toThrow(/UNIQUE constraint failed/);
+    expect(calls).toHaveLength(3);
+  });
+
+  it('başka hatalar yeniden denenmeden iletilir', async () => {
+    const { db, calls } = fakeDb([new Error('D1_ERROR: no such table: quotes'), { id: 'TKL-2026-0001' }]);
+    await expect(createQuote(db, input, 'acc_1')).rejects.toThrow(/no such table/);
+    expect(calls).toHaveLength(1);
+  });
+
+  it('numaradaki yıl Türkiye saatine göredir', async () => {
+    const { db, calls } = fakeDb([{ id: 'TKL-2027-0001' }]);
+    // 31 Aralık 21:30 UTC, İstanbul'da 1 Ocak 00:30
+    await createQuote(db, input, 'acc_1', new Date('2026-12-31T21:30:00Z'));
+    expect(calls[0][0]).toBe(2027);
+  });
+});
@@ -0,0 +1,149 @@
+import type { D1Database } from '@cloudflare/workers-types';
+import {
+  calculateQuoteTotals,
+  quoteDayKey,
+  type QuoteInput,
+  type QuoteLineItem,
+  type QuoteRecord,
+  type QuoteStatus,
+  type VatRate,
+} from '../../shared/quotes';
+import { readLocale } from '../../shared/i18n';
+
+/**
+ * Fiyat teklifleri - D1 `quotes`
+ * Şema: migrations/0011_create_quotes.sql
+ * Toplamlar kayıtta saklanır; PDF her istendiğinde kayıttan yeniden üretilir, ayrıca dosya tutulmaz.
+ */
+
+// Aynı anda kaydedilen iki teklif aynı numarayı almaya çalışırsa biri tekil indekse takılır ve yeniden dener
+const NUMBERING_ATTEMPTS = 3;
+
+type QuoteRow = {
+  id: string;
+  lead_id: string | null;
+  status: QuoteStatus;
+  customer_name: string;
+  customer_email: string;
+  customer_company: string;
+  customer_address: string;
+  items: string;
+  vat_rate: number;
+  subtotal_kurus: number;
+  vat_kurus: number;
+  total_kurus: number;
+  valid_until: string;
+  terms: string;
+  locale: string;
+  created_at: string;
+  sent_at: string | null;
+  author_id: string | null;
+  author_name: string | null;
+  author_email: string | null;
+};
+
+const QUOTE_SELECT = `SELECT q.id, q.lead_id, q.status, q.customer_name, q.customer_email, q.customer_company, q.customer_address,
+  q.items, q.vat_rate, q.subtotal_kurus, q.vat_kurus, q.total_kurus, q.valid_until, q.terms, q.locale, q.created_at, q.sent_at,
+  a.id AS author_id, a.name AS author_name, a.email AS author_email
+  FROM quotes q LEFT JOIN accounts a ON a.id = q.created_by`;
+
+function rowToQuote(row: QuoteRow): QuoteRecord {
+  let items: QuoteLineItem[] = [];
+  try {
+    items = JSON.parse(row.items);
+  } catch {
+    console.error('[quotes] Kalemler okunamadı', row.id);
+  }
+  return {
+    id: row.id,
+    leadId: row.lead_id,
+    status: row.status,
+    customer: {
+      name: row.customer_name,
+      email: row.customer_email,
+      company: row.customer_company,
+      address: row.customer_address,
+    },
+    items,
+    vatRate: row.vat_rate as VatRate,
+    validUntil: row.valid_until,
+    terms: row.terms,
+    locale: readLocale(row.locale),
+    // Kalem tutarları saklanmaz; aynı fonksiyonla yeniden hesaplanır
+    lineTotals: calculateQuoteTotals(items, row.vat_rate).lineTotals,
+    subtotal: row.subtotal_kurus,
+    vat: row.vat_kurus,
+    total: row.total_kurus,
+    createdBy: row.author_id ? { id: row.author_id, name: row.author_name ?? '', email: row.author_email ?? '' } : null,
+    createdAt: row.created_at,
+    sentAt: row.sent_at,
+  };
+}
+
+const isUniqueViolation = (err: unknown) => /UNIQUE constraint failed/i.test((err as Error)?.message || '');
+
+/** Teklifi kaydeder ve yıl içindeki sıradaki numarayı verir: TKL-2026-0001 */
+export async function createQuote(db: D1Database, input: QuoteInput, authorId: string, now = new Date()): Promise<string> {
+  const totals = calculateQuoteTotals(input.items, input.vatRate);
+  // Numaradaki yıl Türkiye saatine göredir; 31 Aralık gecesi kesilen teklif yeni yıla kaymaz
+  const year = Number(quoteDayKey(now).slice(0, 4));
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const row = await db
+        .prepare(
+          `INSERT INTO quotes (id, year, sequence, lead_id, customer_name, customer_email, customer_company, customer_address,
+             items, vat_rate, subtotal_kurus, vat_kurus, total_kurus, valid_until, terms, locale, created_by, created_at)
+           SELECT 'TKL-' || ?1 || '-' || printf('%04d', COALESCE(MAX(sequence), 0) + 1), ?1, COALESCE(MAX(sequence), 0) + 1,
+             ?2, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10, ?11, ?12, ?13, ?14, ?15, ?16
+           FROM quotes WHERE year = ?1
+           RETURNING id`
+        )
+        .bind(
+          year,
+          input.leadId,
+          input.customer.name,
+          input.customer.email,
+          input.customer.company,
+          input.customer.address,
+          JSON.stringify(input.items),
+          input.vatRate,
+          totals.subtotal,
+          totals.vat,
+          totals.total,
+          input.validUntil,
+          input.terms,
+          input.locale,
+          authorId,
+          now.toISOString()
+        )
+        .first<{ id: string }>();
+      if (!row) throw new Error('Teklif kaydedilemedi');
+      return row.id;
+    } catch (err) {
+      if (!isUniqueViolation(err) || attempt >= NUMBERING_ATTEMPTS) throw err;
+    }
+  }
+}
+
+export async function findQuote(db: D1Database, id: string): Promise<QuoteRecord | null> {
+  const row = await db.prepare(`${QUOTE_SELECT} WHERE q.id = ?`).bind(id).first<QuoteRow>();
+  return row ? rowToQuote(row) : null;
+}
+
+/** Talebe bağlı teklifler, yeniden eskiye */
+export async function listLeadQuotes(db: D1Database, leadId: string): Promise<QuoteRecord[]> {
+  const { results } = await db
+    .prepare(`${QUOTE_SELECT} WHERE q.lead_id = ? ORDER BY q.year DESC, q.sequence DESC`)
+    .bind(leadId)
+    .all<QuoteRow>();
+  return results.map(rowToQuote);
+}
+
+/** Her gönderimde son gönderim zamanı ve Mailgun mesaj kimliği güncellenir */
+export async function markQuoteSent(db: D1Database, id: string, messageId: string | undefined, now = new Date()) {
+  await db
+    .prepare(`UPDATE quotes SET status = 'sent', sent_at = ?, message_id = ? WHERE id = ?`)
+    .bind(now.toISOString(), messageId ?? null, id)
+    .run();
+}
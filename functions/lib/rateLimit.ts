@@ -0,0 +1,73 @@
+import type { KeyValueStore } from './kv';
+
+/**
+ * Kayan pencere (sliding window log) hız sınırlayıcı
+ * Her anahtar için pencere içindeki istek zaman damgaları saklanır.
+ * KV atomik olmadığından sınır eşzamanlı isteklerde birkaç istek aşılabilir; form koruması için yeterli.
+ */
+export interface RateLimitRule {
+  /** Anahtar öneki, ör. 'contact:ip' */
+  name: string;
+  limit: number;
+  windowSeconds: number;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; retryAfter: number; rule: string };
+
+const readTimestamps = async (store: KeyValueStore, key: string): Promise<number[]> => {
+  const raw = await store.get(key);
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((t): t is number => typeof t === 'number') : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Tüm kuralları kontrol eder; hepsi izin veriyorsa isteği her pencereye kaydeder.
+ * Reddedilen istekler sayılmaz, böylece bekleyen kullanıcı süresini uzatmaz.
+ */
+export async function checkRateLimits(
+  store: KeyValueStore,
+  checks: Array<{ rule: RateLimitRule; identifier: string }>,
+  now = Date.now()
+): Promise<RateLimitResult> {
+  const windows = await Promise.all(
+    checks.map(async ({ rule, identifier }) => {
+      const key = `ratelimit:${rule.name}:${identifier}`;
+      const windowStart = now - rule.windowSeconds * 1000;
+      const timestamps = (await readTimestamps(store, key)).filter((t) => t > windowStart);
+      return { rule, key, timestamps };
+    })
+  );
+
+  for (const { rule, timestamps } of windows) {
+    if (timestamps.length >= rule.limit) {
+      // En eski kayıt pencereden çıktığında yeni istek kabul edilir
+      const oldest = Math.min(...timestamps);
+      const retryAfter = Math.max(1, Math.ceil((oldest + rule.windowSeconds * 1000 - now) / 1000));
+      return { allowed: false, retryAfter, rule: rule.name };
+    }
+  }
+
+  await Promise.all(
+    windows.map(({ rule, key, timestamps }) =>
+      store.put(key, JSON.stringify([...timestamps, now]), { expirationTtl: rule.windowSeconds })
+    )
+  );
+
+  return { allowed: true };
+}
+
+/** Cloudflare istemci IP'sini CF-Connecting-IP başlığında iletir */
+export function getClientIp(request: { headers: { get(name: string): string | null } }): string {
+  return (
+    request.headers.get('CF-Connecting-IP') ||
+    request.headers.get('X-Forwarded-For')?.split(',')[0].trim() ||
+    'unknown'
+  );
+}
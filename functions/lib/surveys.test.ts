@@ -0,0 +1,290 @@
+import { describe, expect, it } from 'vitest';
+import type { D1Database } from '@cloudflare/workers-types';
+import {
+  cancelSurveyBooking,
+  computeFreeSlots,
+  findSurveyBookingByToken,
+  holdSlot,
+  signSurveyToken,
+  verifySurveyToken,
+  type AvailabilityRange,
+} from './surveys';
+import { hmacSha256Hex } from './crypto';
+
+const SECRET = 'test-session-secret';
+const NOW = new Date('2026-05-01T09:00:00Z');
+
+const confirmedRow = {
+  id: 'KSF-7Q2M9KXD',
+  staff_id: 'acc_staff',
+  kind: 'aplikasyon',
+  status: 'confirmed',
+  starts_at: '2026-05-12T07:00:00.000Z',
+  ends_at: '2026-05-12T09:00:00.000Z',
+  hold_expires_at: null,
+  first_name: 'Ayşe',
+  last_name: 'Yılmaz',
+  email: 'ayse@example.com',
+  phone: '+90 555 000 00 00',
+  address: 'Etimesgut/Ankara',
+  notes: '',
+  lead_id: null,
+  locale: 'tr',
+  sequence: 0,
+  manage_nonce: 'N0NCE0000000000A',
+};
+
+/** Tek satırlık survey_bookings: id ile SELECT ve iptal UPDATE'i (anahtar eşleşirse) */
+function fakeDb(row: typeof confirmedRow) {
+  let current = { ...row };
+  const db = {
+    prepare: (sql: string) => ({
+      bind: (...values: unknown[]) => ({
+        first: async () => {
+          if (sql.startsWith('SELECT')) return values[0] === current.id ? current : null;
+          // cancelled_at, yeni anahtar, id, eski anahtar, şimdi
+          const [, nonce, id, previousNonce] = values as string[];
+          if (id !== current.id || previousNonce !== current.manage_nonce || current.status !== 'confirmed') return null;
+          current = { ...current, status: 'cancelled', sequence: current.sequence + 1, manage_nonce: nonce };
+          return current;
+        },
+      }),
+    }),
+  };
+  return db as unknown as D1Database;
+}
+
+describe('survey manage token', () => {
+  it('randevu numarasını ve anahtarı imzalar; değiştirilmiş anahtar reddedilir', async () => {
+    const token = await signSurveyToken(SECRET, { id: confirmedRow.id, manageNonce: confirmedRow.manage_nonce });
+    expect(token.startsWith(`${confirmedRow.id}.${confirmedRow.manage_nonce}.`)).toBe(true);
+    await expect(verifySurveyToken(SECRET, token)).resolves.toEqual({
+      bookingId: confirmedRow.id,
+      nonce: confirmedRow.manage_nonce,
+    });
+
+    const forged = token.replace(confirmedRow.manage_nonce, 'N0NCE0000000000B');
+    await expect(verifySurveyToken(SECRET, forged)).resolves.toBeNull();
+    await expect(verifySurveyToken('other-secret', token)).resolves.toBeNull();
+    await expect(verifySurveyToken(SECRET, `${token}.x`)).resolves.toBeNull();
+    await expect(verifySurveyToken(SECRET, null)).resolves.toBeNull();
+  });
+
+  it('iptal anahtarı yeniler: eski bağlantı geçersiz, yeni bağlantı çalışır', async () => {
+    const db = fakeDb(confirmedRow);
+    const before = await signSurveyToken(SECRET, { id: confirmedRow.id, manageNonce: confirmedRow.manage_nonce });
+    const booking = await findSurveyBookingByToken(db, SECRET, before);
+    expect(booking?.id).toBe(confirmedRow.id);
+
+    const cancelled = await cancelSurveyBooking(db, booking!, NOW);
+    expect(cancelled?.status).toBe('cancelled');
+    expect(cancelled?.manageNonce).not.toBe(confirmedRow.manage_nonce);
+
+    await expect(findSurveyBookingByToken(db, SECRET, before)).resolves.toBeNull();
+    await expect(findSurveyBookingByToken(db, SECRET, await signSurveyToken(SECRET, cancelled!))).resolves.toMatchObject({
+      status: 'cancelled',
+    });
+    // Aynı eski kayıtla ikinci iptal denemesi anahtara takılır
+    await expect(cancelSurveyBooking(db, booking!, NOW)).resolves.toBeNull();
+  });
+
+  it('eski biçimli belirteç yalnızca anahtarı boş kayıtta kabul edilir', async () => {
+    const legacy = `${confirmedRow.id}.${await hmacSha256Hex(SECRET, `survey:${confirmedRow.id}`)}`;
+    await expect(verifySurveyToken(SECRET, legacy)).resolves.toEqual({ bookingId: confirmedRow.id, nonce: '' });
+    await expect(findSurveyBookingByToken(fakeDb({ ...confirmedRow, manage_nonce: '' }), SECRET, legacy)).resolves.toMatchObject({
+      id: confirmedRow.id,
+    });
+    await expect(findSurveyBookingByToken(fakeDb(confirmedRow), SECRET, legacy)).resolves.toBeNull();
+  });
+});
+
+describe('computeFreeSlots', () => {
+  const range = { from: Date.parse('2026-05-04T00:00:00Z'), to: Date.parse('2026-05-05T00:00:00Z') };
+  const window = (staffId: string, startsAt: string, endsAt: string): AvailabilityRange => ({ staffId, startsAt, endsAt });
+
+  it('aralık SURVEY_SLOT_MINUTES dilimlere bölünür; sığmayan kuyruk atılır', () => {
+    const slots = computeFreeSlots([window('acc_a', '2026-05-04T07:00:00Z', '2026-05-04T12:00:00Z')], [], range);
+    expect([...slots.entries()]).toEqual([
+      ['2026-05-04T07:00:00.000Z', ['acc_a']],
+      ['2026-05-04T09:00:00.000Z', ['acc_a']],
+    ]);
+  });
+
+  it('aynı dilimde birden çok personel; dilimler saate göre sıralanır', () => {
+    const slots = computeFreeSlots(
+      [
+        window('acc_b', '2026-05-04T09:00:00Z', '2026-05-04T11:00:00Z'),
+        window('acc_a', '2026-05-04T07:00:00Z', '2026-05-04T11:00:00Z'),
+      ],
+      [],
+      range
+    );
+    expect([...slots.entries()]).toEqual([
+      ['2026-05-04T07:00:00.000Z', ['acc_a']],
+      ['2026-05-04T09:00:00.000Z', ['acc_b', 'acc_a']],
+    ]);
+  });
+
+  it('dolu personel yalnızca kendi diliminden düşer; saat dilimli yazım da eşleşir', () => {
+    const slots = computeFreeSlots(
+      [window('acc_a', '2026-05-04T07:00:00Z', '2026-05-04T11:00:00Z'), window('acc_b', '2026-05-04T07:00:00Z', '2026-05-04T09:00:00Z')],
+      [
+        { staffId: 'acc_a', startsAt: '2026-05-04T10:00:00+03:00' },
+        { staffId: 'acc_b', startsAt: '2026-05-04T07:00:00.000Z' },
+      ],
+      range
+    );
+    expect([...slots.entries()]).toEqual([['2026-05-04T09:00:00.000Z', ['acc_a']]]);
+  });
+
+  it('range sınırları dahildir, dışındaki dilimler atılır', () => {
+    const windows = [window('acc_a', '2026-05-03T22:00:00Z', '2026-05-05T04:00:00Z')];
+    const keys = [...computeFreeSlots(windows, [], range).keys()];
+    expect(keys[0]).toBe('2026-05-04T00:00:00.000Z');
+    expect(keys[keys.length - 1]).toBe('2026-05-05T00:00:00.000Z');
+    expect(keys).toHaveLength(13);
+    expect(computeFreeSlots(windows, [], { from: range.from + 1, to: range.from + 1 }).size).toBe(0);
+  });
+});
+
+type StoredBooking = { id: string; staff_id: string; starts_at: string; status: string; hold_expires_at: string | null };
+
+/**
+ * holdSlot'un kullandığı sorguları taklit eden D1: müsaitlik ve dolu dilim SELECT'leri, süresi dolanları düşüren
+ * UPDATE ve tekil indeksi (staff_id, starts_at; held/confirmed) uygulayan INSERT.
+ * beforeInsert: INSERT'ten hemen önce çalışır; eşzamanlı ikinci ziyaretçiyi taklit etmek için kullanılır.
+ */
+function fakeSurveyDb(options: {
+  windows: AvailabilityRange[];
+  bookings?: StoredBooking[];
+  beforeInsert?: (staffId: string, bookings: StoredBooking[]) => void;
+}) {
+  const bookings = [...(options.bookings ?? [])];
+  const inserts: string[] = [];
+  const active = (b: StoredBooking) => b.status === 'held' || b.status === 'confirmed';
+  const db = {
+    prepare: (sql: string) => ({
+      bind: (...values: unknown[]) => ({
+        run: async () => {
+          // UPDATE ... status = 'expired' WHERE status = 'held' AND hold_expires_at <= ?
+          const [now] = values as string[];
+          for (const b of bookings) if (b.status === 'held' && b.hold_expires_at! <= now) b.status = 'expired';
+          return { success: true };
+        },
+        all: async () => {
+          if (sql.includes('FROM survey_availability')) {
+            return {
+              results: options.windows.map((w) => ({ staff_id: w.staffId, starts_at: w.startsAt, ends_at: w.endsAt })),
+            };
+          }
+          const [from, to, now] = values as string[];
+          const taken = bookings.filter(
+            (b) =>
+              b.starts_at >= from &&
+              b.starts_at < to &&
+              (b.status === 'confirmed' || (b.status === 'held' && b.hold_expires_at! > now))
+          );
+          return { results: taken.map((b) => ({ staff_id: b.staff_id, starts_at: b.starts_at })) };
+        },
+        first: async () => {
+          const [id, staffId, kind, startsAt, endsAt, holdExpiresAt, locale, nonce] = values as string[];
+          options.beforeInsert?.(staffId, bookings);
+          inserts.push(staffId);
+          if (bookings.some((b) => active(b) && b.staff_id === staffId && b.starts_at === startsAt)) {
+            throw new Error('D1_ERROR: UNIQUE constraint failed: survey_bookings.staff_id, survey_bookings.starts_at');
+          }
+          bookings.push({ id, staff_id: staffId, starts_at: startsAt, status: 'held', hold_expires_at: holdExpiresAt });
+          return {
+            ...confirmedRow,
+            id,
+            staff_id: staffId,
+            kind,
+            status: 'held',
+            starts_at: startsAt,
+            ends_at: endsAt,
+            hold_expires_at: holdExpiresAt,
+            first_name: '',
+            last_name: '',
+            email: '',
+            phone: '',
+            address: '',
+            locale,
+            manage_nonce: nonce,
+          };
+        },
+      }),
+    }),
+  };
+  return { db: db as unknown as D1Database, bookings, inserts };
+}
+
+describe('holdSlot', () => {
+  const SLOT = '2026-05-04T07:00:00.000Z';
+  const request = { startsAt: SLOT, kind: 'aplikasyon' as const, locale: 'tr' as const, ipHash: 'ip' };
+  const windows: AvailabilityRange[] = [
+    { staffId: 'acc_a', startsAt: '2026-05-04T07:00:00Z', endsAt: '2026-05-04T11:00:00Z' },
+    { staffId: 'acc_b', startsAt: '2026-05-04T07:00:00Z', endsAt: '2026-05-04T09:00:00Z' },
+  ];
+  const heldBy = (staffId: string, expires = '2026-05-01T09:10:00.000Z'): StoredBooking => ({
+    id: `KSF-${staffId}`,
+    staff_id: staffId,
+    starts_at: SLOT,
+    status: 'held',
+    hold_expires_at: expires,
+  });
+
+  it('dilimi boş personelle tutar; tutma süresi SURVEY_HOLD_MINUTES', async () => {
+    const { db, inserts } = fakeSurveyDb({ windows });
+    const booking = await holdSlot(db, request, NOW);
+    expect(booking).toMatchObject({ staffId: 'acc_a', status: 'held', startsAt: SLOT, endsAt: '2026-05-04T09:00:00.000Z' });
+    expect(booking?.holdExpiresAt).toBe('2026-05-01T09:10:00.000Z');
+    expect(inserts).toEqual(['acc_a']);
+  });
+
+  it('eşzamanlı tutma tekil indekse takılırsa sıradaki personel denenir', async () => {
+    // Boş personel listesi okunduktan sonra başka bir ziyaretçi acc_a'yı alır
+    const { db, bookings, inserts } = fakeSurveyDb({
+      windows,
+      beforeInsert: (staffId, current) => {
+        if (staffId === 'acc_a' && !current.some((b) => b.staff_id === 'acc_a')) current.push(heldBy('acc_a'));
+      },
+    });
+    const booking = await holdSlot(db, request, NOW);
+    expect(booking?.staffId).toBe('acc_b');
+    expect(inserts).toEqual(['acc_a', 'acc_b']);
+    expect(bookings.filter((b) => b.status === 'held').map((b) => b.staff_id)).toEqual(['acc_a', 'acc_b']);
+  });
+
+  it('tüm personel eşzamanlı tutmalara takılırsa null döner', async () => {
+    const { db, inserts } = fakeSurveyDb({
+      windows,
+      beforeInsert: (staffId, current) => {
+        if (!current.some((b) => b.staff_id === staffId)) current.push(heldBy(staffId));
+      },
+    });
+    await expect(holdSlot(db, request, NOW)).resolves.toBeNull();
+    expect(inserts).toEqual(['acc_a', 'acc_b']);
+  });
+
+  it('dolu dilim için personel kalmadıysa INSERT denenmez', async () => {
+    const { db, inserts } = fakeSurveyDb({ windows, bookings: [heldBy('acc_a'), { ...heldBy('acc_b'), status: 'confirmed' }] });
+    await expect(holdSlot(db, request, NOW)).resolves.toBeNull();
+    expect(inserts).toEqual([]);
+  });
+
+  it('süresi dolan tutma dilimi bırakır', async () => {
+    const expired = heldBy('acc_a', '2026-05-01T08:59:00.000Z');
+    const { db, bookings } = fakeSurveyDb({ windows: windows.slice(0, 1), bookings: [expired] });
+    const booking = await holdSlot(db, request, NOW);
+    expect(booking?.staffId).toBe('acc_a');
+    expect(bookings.map((b) => b.status)).toEqual(['expired', 'held']);
+  });
+
+  it('en erken bildirim süresinden önceki dilim tutulmaz', async () => {
+    const { db, inserts } = fakeSurveyDb({
+      windows: [{ staffId: 'acc_a', startsAt: '2026-05-01T11:00:00Z', endsAt: '2026-05-01T13:00:00Z' }],
+    });
+    await expect(holdSlot(db, { ...request, startsAt: '2026-05-01T11:00:00.000Z' }, NOW)).resolves.toBeNull();
+    expect(inserts).toEqual([]);
+  });
+});
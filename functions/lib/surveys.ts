@@ -0,0 +1,449 @@
+import type { D1Database } from '@cloudflare/workers-types';
+import {
+  SURVEY_BOOKING_DAYS,
+  SURVEY_HOLD_MINUTES,
+  SURVEY_MIN_NOTICE_HOURS,
+  SURVEY_SLOT_MINUTES,
+  isSurveyKind,
+  type SurveyAvailabilityWindow,
+  type SurveyBookingInfo,
+  type SurveyBookingStatus,
+  type SurveyDetails,
+  type SurveyKind,
+  type SurveySlot,
+} from '../../shared/surveys';
+import { readLocale, type Locale } from '../../shared/i18n';
+import { hmacSha256Hex, randomReadableCode, timingSafeEqual } from './crypto';
+
+/**
+ * Saha keşfi randevuları - D1 `survey_availability`, `survey_bookings`
+ * Şema: migrations/0010_create_site_surveys.sql, yönetim bağlantısı anahtarı 0013_survey_manage_nonce.sql
+ * Çifte rezervasyonu kısmi tekil indeks (staff_id, starts_at) önler: aynı dilim için eşzamanlı iki
+ * tutmadan biri UNIQUE hatası alır ve sıradaki uygun personel denenir.
+ */
+const SLOT_MS = SURVEY_SLOT_MINUTES * 60 * 1000;
+
+export interface SurveyBookingRecord extends SurveyDetails {
+  id: string;
+  staffId: string;
+  kind: SurveyKind;
+  status: SurveyBookingStatus;
+  startsAt: string;
+  endsAt: string;
+  holdExpiresAt: string | null;
+  leadId: string | null;
+  locale: Locale;
+  sequence: number;
+  /** Yönetim bağlantısı belirtecine imzalanan anahtar; saat değişikliğinde ve iptalde yenilenir */
+  manageNonce: string;
+}
+
+type BookingRow = {
+  id: string;
+  staff_id: string;
+  kind: string;
+  status: SurveyBookingStatus;
+  starts_at: string;
+  ends_at: string;
+  hold_expires_at: string | null;
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone: string;
+  address: string;
+  notes: string;
+  lead_id: string | null;
+  locale: string;
+  sequence: number;
+  manage_nonce: string;
+};
+
+const BOOKING_COLUMNS = `id, staff_id, kind, status, starts_at, ends_at, hold_expires_at, first_name, last_name, email, phone,
+  address, notes, lead_id, locale, sequence, manage_nonce`;
+
+const rowToBooking = (row: BookingRow): SurveyBookingRecord => ({
+  id: row.id,
+  staffId: row.staff_id,
+  kind: isSurveyKind(row.kind) ? row.kind : 'diger',
+  status: row.status,
+  startsAt: row.starts_at,
+  endsAt: row.ends_at,
+  holdExpiresAt: row.hold_expires_at,
+  firstName: row.first_name,
+  lastName: row.last_name,
+  email: row.email,
+  phone: row.phone,
+  address: row.address,
+  notes: row.notes,
+  leadId: row.lead_id,
+  locale: readLocale(row.locale),
+  sequence: row.sequence,
+  manageNonce: row.manage_nonce,
+});
+
+const newManageNonce = () => randomReadableCode(16);
+
+export function toBookingInfo(booking: SurveyBookingRecord, now = new Date()): SurveyBookingInfo {
+  return {
+    id: booking.id,
+    kind: booking.kind,
+    status: booking.status,
+    startsAt: booking.startsAt,
+    endsAt: booking.endsAt,
+    name: `${booking.firstName} ${booking.lastName}`.trim(),
+    address: booking.address,
+    canChange: booking.status === 'confirmed' && Date.parse(booking.startsAt) > now.getTime(),
+  };
+}
+
+const isUniqueViolation = (err: unknown) => /UNIQUE constraint failed/i.test((err as Error)?.message || '');
+
+/** Randevu alınabilecek zaman aralığı: en erken bildirim süresinden SURVEY_BOOKING_DAYS sonrasına kadar */
+export function bookingRange(now = new Date()): { from: number; to: number } {
+  const from = now.getTime() + SURVEY_MIN_NOTICE_HOURS * 60 * 60 * 1000;
+  return { from, to: now.getTime() + SURVEY_BOOKING_DAYS * 24 * 60 * 60 * 1000 };
+}
+
+export interface AvailabilityRange {
+  staffId: string;
+  startsAt: string;
+  endsAt: string;
+}
+
+/**
+ * Müsaitlik aralıklarını dilimlere böler ve dolu dilimleri çıkarır.
+ * Dönen harita: dilim başlangıcı (ISO) -> o dilimde boş olan personel
+ */
+export function computeFreeSlots(
+  windows: AvailabilityRange[],
+  taken: Array<{ staffId: string; startsAt: string }>,
+  range: { from: number; to: number }
+): Map<string, string[]> {
+  const busy = new Set(taken.map((booking) => `${booking.staffId}|${new Date(booking.startsAt).toISOString()}`));
+  const slots = new Map<string, string[]>();
+  for (const window of windows) {
+    const end = Date.parse(window.endsAt);
+    for (let start = Date.parse(window.startsAt); start + SLOT_MS <= end; start += SLOT_MS) {
+      if (start < range.from || start > range.to) continue;
+      const key = new Date(start).toISOString();
+      if (busy.has(`${window.staffId}|${key}`)) continue;
+      slots.set(key, [...(slots.get(key) ?? []), window.staffId]);
+    }
+  }
+  return new Map([...slots.entries()].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+async function loadFreeSlots(db: D1Database, range: { from: number; to: number }, now: Date) {
+  const fromIso = new Date(range.from).toISOString();
+  const toIso = new Date(range.to + SLOT_MS).toISOString();
+  const [windows, taken] = await Promise.all([
+    db
+      .prepare(
+        `SELECT staff_id, starts_at, ends_at FROM survey_availability
+         WHERE ends_at > ? AND starts_at < ? ORDER BY starts_at`
+      )
+      .bind(fromIso, toIso)
+      .all<{ staff_id: string; starts_at: string; ends_at: string }>(),
+    db
+      .prepare(
+        `SELECT staff_id, starts_at FROM survey_bookings
+         WHERE starts_at >= ? AND starts_at < ?
+           AND (status = 'confirmed' OR (status = 'held' AND hold_expires_at > ?))`
+      )
+      .bind(new Date(range.from - SLOT_MS).toISOString(), toIso, now.toISOString())
+      .all<{ staff_id: string; starts_at: string }>(),
+  ]);
+  return computeFreeSlots(
+    windows.results.map((row) => ({
+      staffId: row.staff_id,
+      startsAt: row.starts_at,
+      endsAt: row.ends_at,
+    })),
+    taken.results.map((row) => ({ staffId: row.staff_id, startsAt: row.starts_at })),
+    range
+  );
+}
+
+/** Ziyaretçiye gösterilen boş dilimler; hangi personelin gideceği gösterilmez */
+export async function listAvailableSlots(db: D1Database, now = new Date()): Promise<SurveySlot[]> {
+  const slots = await loadFreeSlots(db, bookingRange(now), now);
+  return [...slots.keys()].map((startsAt) => ({ startsAt, endsAt: new Date(Date.parse(startsAt) + SLOT_MS).toISOString() }));
+}
+
+async function freeStaffAt(db: D1Database, startsAt: string, now: Date): Promise<string[]> {
+  const start = Date.parse(startsAt);
+  const range = bookingRange(now);
+  if (!Number.isFinite(start) || start < range.from || start > range.to) return [];
+  const slots = await loadFreeSlots(db, { from: start, to: start }, now);
+  return slots.get(new Date(start).toISOString()) ?? [];
+}
+
+/** Süresi dolan tutmalar dilimi bırakır (tekil indeksin dışına çıkar) */
+async function expireHolds(db: D1Database, now: Date) {
+  await db
+    .prepare(`UPDATE survey_bookings SET status = 'expired' WHERE status = 'held' AND hold_expires_at <= ?`)
+    .bind(now.toISOString())
+    .run();
+}
+
+/**
+ * Dilimi SURVEY_HOLD_MINUTES boyunca tutar. Dilimde boş personel kalmadıysa null döner.
+ * Aynı anda aynı dilimi isteyen iki ziyaretçiden ikincisi tekil indekse takılır ve sıradaki personel denenir.
+ */
+export async function holdSlot(
+  db: D1Database,
+  request: { startsAt: string; kind: SurveyKind; locale: Locale; ipHash: string },
+  now = new Date()
+): Promise<SurveyBookingRecord | null> {
+  await expireHolds(db, now);
+  const start = new Date(request.startsAt);
+  for (const staffId of await freeStaffAt(db, request.startsAt, now)) {
+    const id = `KSF-${randomReadableCode(8)}`;
+    try {
+      const row = await db
+        .prepare(
+          `INSERT INTO survey_bookings (id, staff_id, kind, starts_at, ends_at, status, hold_expires_at, locale, manage_nonce, ip_hash, created_at)
+           VALUES (?, ?, ?, ?, ?, 'held', ?, ?, ?, ?, ?)
+           RETURNING ${BOOKING_COLUMNS}`
+        )
+        .bind(
+          id,
+          staffId,
+          request.kind,
+          start.toISOString(),
+          new Date(start.getTime() + SLOT_MS).toISOString(),
+          new Date(now.getTime() + SURVEY_HOLD_MINUTES * 60 * 1000).toISOString(),
+          request.locale,
+          newManageNonce(),
+          request.ipHash,
+          now.toISOString()
+        )
+        .first<BookingRow>();
+      if (row) return rowToBooking(row);
+    } catch (err) {
+      if (!isUniqueViolation(err)) throw err;
+    }
+  }
+  return null;
+}
+
+export async function findSurveyBooking(db: D1Database, id: string): Promise<SurveyBookingRecord | null> {
+  const row = await db.prepare(`SELECT ${BOOKING_COLUMNS} FROM survey_bookings WHERE id = ?`).bind(id).first<BookingRow>();
+  return row ? rowToBooking(row) : null;
+}
+
+/**
+ * Tutulan dilimi ziyaretçi bilgileriyle onaylar; tutma süresi dolduysa null döner.
+ * leadId yalnızca aynı e-posta adresiyle bırakılmış bir talebe aitse bağlanır.
+ */
+export async function confirmSurveyBooking(
+  db: D1Database,
+  id: string,
+  details: SurveyDetails,
+  options: { leadId: string | null; locale: Locale },
+  now = new Date()
+): Promise<SurveyBookingRecord | null> {
+  const row = await db
+    .prepare(
+      `UPDATE survey_bookings
+       SET status = 'confirmed', hold_expires_at = NULL, confirmed_at = ?, first_name = ?, last_name = ?, email = ?, phone = ?,
+           address = ?, notes = ?, locale = ?,
+           lead_id = (SELECT id FROM leads WHERE id = ? AND email = ?)
+       WHERE id = ? AND status = 'held' AND hold_expires_at > ?
+       RETURNING ${BOOKING_COLUMNS}`
+    )
+    .bind(
+      now.toISOString(),
+      details.firstName,
+      details.lastName,
+      details.email,
+      details.phone,
+      details.address,
+      details.notes,
+      options.locale,
+      options.leadId,
+      details.email,
+      id,
+      now.toISOString()
+    )
+    .first<BookingRow>();
+  return row ? rowToBooking(row) : null;
+}
+
+/**
+ * Randevu saatinden önce iptal; davet sürümü artar (METHOD:CANCEL aynı UID ile gönderilir).
+ * Yönetim anahtarı yenilenir; kayıt bu arada başka bir bağlantıyla değiştiyse null döner.
+ */
+export async function cancelSurveyBooking(
+  db: D1Database,
+  booking: SurveyBookingRecord,
+  now = new Date()
+): Promise<SurveyBookingRecord | null> {
+  const row = await db
+    .prepare(
+      `UPDATE survey_bookings SET status = 'cancelled', cancelled_at = ?, sequence = sequence + 1, manage_nonce = ?
+       WHERE id = ? AND manage_nonce = ? AND status = 'confirmed' AND starts_at > ?
+       RETURNING ${BOOKING_COLUMNS}`
+    )
+    .bind(now.toISOString(), newManageNonce(), booking.id, booking.manageNonce, now.toISOString())
+    .first<BookingRow>();
+  return row ? rowToBooking(row) : null;
+}
+
+/**
+ * Onaylı randevuyu yeni dilime taşır; dilimde boş personel yoksa 'unavailable' döner.
+ * Personel değişebilir; çağıran eski personele iptal, yenisine davet gönderir. Yönetim anahtarı yenilenir.
+ */
+export async function rescheduleSurveyBooking(
+  db: D1Database,
+  booking: SurveyBookingRecord,
+  startsAt: string,
+  now = new Date()
+): Promise<SurveyBookingRecord | 'unavailable' | null> {
+  await expireHolds(db, now);
+  const start = new Date(startsAt);
+  for (const staffId of await freeStaffAt(db, startsAt, now)) {
+    try {
+      const row = await db
+        .prepare(
+          `UPDATE survey_bookings SET staff_id = ?, starts_at = ?, ends_at = ?, sequence = sequence + 1, manage_nonce = ?
+           WHERE id = ? AND manage_nonce = ? AND status = 'confirmed' AND starts_at > ?
+           RETURNING ${BOOKING_COLUMNS}`
+        )
+        .bind(
+          staffId,
+          start.toISOString(),
+          new Date(start.getTime() + SLOT_MS).toISOString(),
+          newManageNonce(),
+          booking.id,
+          booking.manageNonce,
+          now.toISOString()
+        )
+        .first<BookingRow>();
+      return row ? rowToBooking(row) : null;
+    } catch (err) {
+      if (!isUniqueViolation(err)) throw err;
+    }
+  }
+  return 'unavailable';
+}
+
+/**
+ * Yönetim bağlantısındaki belirteç: <randevu>.<anahtar>.<HMAC-SHA256(SESSION_SECRET, "survey:<randevu>:<anahtar>")>
+ * Süresi yoktur; anahtar saat değişikliğinde ve iptalde yenilendiği için önceki bağlantılar o anda geçersiz olur.
+ * 0013'ten önce gönderilen <randevu>.<HMAC("survey:<randevu>")> biçimi boş anahtar sayılır.
+ */
+export async function signSurveyToken(
+  secret: string,
+  booking: Pick<SurveyBookingRecord, 'id' | 'manageNonce'>
+): Promise<string> {
+  const signature = await hmacSha256Hex(secret, `survey:${booking.id}:${booking.manageNonce}`);
+  return `${booking.id}.${booking.manageNonce}.${signature}`;
+}
+
+export async function verifySurveyToken(secret: string, token: unknown): Promise<{ bookingId: string; nonce: string } | null> {
+  if (typeof token !== 'string') return null;
+  const parts = token.split('.');
+  if (parts.length === 2 && parts[0]) {
+    const [bookingId, signature] = parts;
+    return timingSafeEqual(await hmacSha256Hex(secret, `survey:${bookingId}`), signature) ? { bookingId, nonce: '' } : null;
+  }
+  if (parts.length !== 3 || !parts[0]) return null;
+  const [bookingId, nonce, signature] = parts;
+  const expected = await hmacSha256Hex(secret, `survey:${bookingId}:${nonce}`);
+  return timingSafeEqual(expected, signature) ? { bookingId, nonce } : null;
+}
+
+/** Belirteç geçerli ve randevunun güncel anahtarıyla imzalanmışsa randevuyu döner */
+export async function findSurveyBookingByToken(
+  db: D1Database,
+  secret: string,
+  token: unknown
+): Promise<SurveyBookingRecord | null> {
+  const verified = await verifySurveyToken(secret, token);
+  if (!verified) return null;
+  const booking = await findSurveyBooking(db, verified.bookingId);
+  return booking && booking.manageNonce === verified.nonce ? booking : null;
+}
+
+/** Personelin bugünden sonraki müsaitlik aralıkları ve içlerindeki etkin randevular */
+export async function listStaffAvailability(db: D1Database, staffId: string, now = new Date()): Promise<SurveyAvailabilityWindow[]> {
+  const nowIso = now.toISOString();
+  const [windows, bookings] = await Promise.all([
+    db
+      .prepare(`SELECT id, starts_at, ends_at FROM survey_availability WHERE staff_id = ? AND ends_at > ? ORDER BY starts_at`)
+      .bind(staffId, nowIso)
+      .all<{ id: number; starts_at: string; ends_at: string }>(),
+    db
+      .prepare(
+        `SELECT id, kind, status, starts_at, first_name, last_name FROM survey_bookings
+         WHERE staff_id = ? AND ends_at > ? AND (status = 'confirmed' OR (status = 'held' AND hold_expires_at > ?))
+         ORDER BY starts_at`
+      )
+      .bind(staffId, nowIso, nowIso)
+      .all<{ id: string; kind: string; status: SurveyBookingStatus; starts_at: string; first_name: string; last_name: string }>(),
+  ]);
+  const bookingRows = bookings.results;
+  return windows.results.map((window) => ({
+    id: window.id,
+    startsAt: window.starts_at,
+    endsAt: window.ends_at,
+    bookings: bookingRows
+      .filter((booking) => booking.starts_at >= window.starts_at && booking.starts_at < window.ends_at)
+      .map((booking) => ({
+        id: booking.id,
+        startsAt: booking.starts_at,
+        status: booking.status,
+        name: `${booking.first_name} ${booking.last_name}`.trim(),
+        kind: isSurveyKind(booking.kind) ? booking.kind : 'diger',
+      })),
+  }));
+}
+
+/** Aynı personelin çakışan aralığı varsa 'overlap' döner; dilim hizası ancak böyle korunur */
+export async function addAvailability(
+  db: D1Database,
+  staffId: string,
+  startsAt: string,
+  endsAt: string
+): Promise<{ id: number } | 'overlap'> {
+  const overlapping = await db
+    .prepare(`SELECT id FROM survey_availability WHERE staff_id = ? AND starts_at < ? AND ends_at > ? LIMIT 1`)
+    .bind(staffId, endsAt, startsAt)
+    .first<{ id: number }>();
+  if (overlapping) return 'overlap';
+  const row = await db
+    .prepare(`INSERT INTO survey_availability (staff_id, starts_at, ends_at, created_at) VALUES (?, ?, ?, ?) RETURNING id`)
+    .bind(staffId, startsAt, endsAt, new Date().toISOString())
+    .first<{ id: number }>();
+  if (!row) throw new Error('Müsaitlik kaydedilemedi');
+  return row;
+}
+
+/** İçinde etkin randevu olan aralık silinemez; önce randevu iptal edilmeli */
+export async function deleteAvailability(
+  db: D1Database,
+  staffId: string,
+  id: number,
+  now = new Date()
+): Promise<'deleted' | 'not-found' | 'has-bookings'> {
+  const window = await db
+    .prepare(`SELECT starts_at, ends_at FROM survey_availability WHERE id = ? AND staff_id = ?`)
+    .bind(id, staffId)
+    .first<{ starts_at: string; ends_at: string }>();
+  if (!window) return 'not-found';
+
+  const booked = await db
+    .prepare(
+      `SELECT id FROM survey_bookings
+       WHERE staff_id = ? AND starts_at >= ? AND starts_at < ?
+         AND (status = 'confirmed' OR (status = 'held' AND hold_expires_at > ?))
+       LIMIT 1`
+    )
+    .bind(staffId, window.starts_at, window.ends_at, now.toISOString())
+    .first();
+  if (booked) return 'has-bookings';
+
+  await db.prepare(`DELETE FROM survey_availability WHERE id = ? AND staff_id = ?`).bind(id, staffId).run();
+  return 'deleted';
+}
@@ -0,0 +1,344 @@
+import type { D1Database } from '@cloudflare/workers-types';
+import { ADMIN_PAGE_SIZE, type LeadStatus, type Paginated, type StaffMember } from '../../shared/leads';
+import type { LeadRecord } from './leads';
+import { hmacSha256Hex, randomReadableCode } from './crypto';
+
+/**
+ * CRM'e giden webhook'lar - D1 `webhook_deliveries` kuyruğu
+ * Şema: migrations/0009_create_webhook_deliveries.sql
+ *
+ * Olay önce kuyruğa yazılır, gönderim ayrıca yapılır; CRM kapalıyken talep kaybolmaz ve formun yanıtı gecikmez.
+ * Kuyruk olayı üreten isteğin waitUntil'inde ve /api/webhooks/process (cron) ile boşaltılır. Başarısız
+ * teslimat artan aralıklarla yeniden denenir, WEBHOOK_MAX_ATTEMPTS denemeden sonra ölü mektup (dead) olur.
+ *
+ * İmza: X-Hekamap-Signature: t=<unix sn>,v1=<HMAC-SHA256(CRM_WEBHOOK_SECRET, "<t>.<gövde>") hex>
+ * Alıcı zaman damgasını da kontrol etmeli (ör. ±5 dk); her denemede yeniden imzalanır.
+ * Aynı olay birden çok kez ulaşabilir; alıcı X-Hekamap-Event-Id ile tekilleştirir.
+ */
+export type WebhookEnv = {
+  DB: D1Database;
+  /** Virgül ya da boşlukla ayrılmış hedef adresler; tanımlı değilse webhook gönderilmez */
+  CRM_WEBHOOK_URLS?: string;
+  /** İmza anahtarı; adresler tanımlı olsa da anahtar yoksa imzasız olay gönderilmez */
+  CRM_WEBHOOK_SECRET?: string;
+};
+
+/** Olay şemasının sürümü; alanlar kaldırılır ya da anlamı değişirse artırılır (yeni alan eklemek uyumludur) */
+export const WEBHOOK_EVENT_VERSION = 1;
+
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+// Bir denemenin en uzun süresi. Sahiplenilen satırlar sırayla gönderildiğinden kira, partideki son satırın
+// gönderimi bitene kadar sürmeli (satır sayısı x zaman aşımı); yoksa ikinci bir işleyici aynı satırı yeniden gönderir.
+const DELIVERY_TIMEOUT_MS = 10_000;
+// İmzalama ve satır başına sonuç güncellemeleri için pay
+const CLAIM_LEASE_MARGIN_SECONDS = 60;
+const DEFAULT_BATCH_SIZE = 20;
+
+function claimLeaseSeconds(limit: number): number {
+  return Math.ceil((limit * DELIVERY_TIMEOUT_MS) / 1000) + CLAIM_LEASE_MARGIN_SECONDS;
+}
+
+export type WebhookEventType = 'lead.created' | 'lead.status_changed';
+
+export interface WebhookLead {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  subject: string;
+  message: string;
+  locale: string;
+  attachments: Array<{ name: string; size: number; type: string }>;
+  createdAt: string;
+}
+
+interface WebhookEventBase<T extends WebhookEventType, D> {
+  id: string;
+  type: T;
+  version: number;
+  createdAt: string;
+  data: D;
+}
+
+export type WebhookEvent =
+  | WebhookEventBase<'lead.created', { lead: WebhookLead & { status: LeadStatus } }>
+  | WebhookEventBase<
+      'lead.status_changed',
+      {
+        lead: { id: string; email: string };
+        previousStatus: LeadStatus;
+        status: LeadStatus;
+        changedBy: StaffMember;
+      }
+    >;
+
+const newEventMeta = () => ({ id: `EVT-${randomReadableCode(12)}`, version: WEBHOOK_EVENT_VERSION, createdAt: new Date().toISOString() });
+
+export function leadCreatedEvent(lead: LeadRecord): WebhookEvent {
+  return {
+    ...newEventMeta(),
+    type: 'lead.created',
+    data: {
+      lead: {
+        id: lead.id,
+        firstName: lead.firstName,
+        lastName: lead.lastName,
+        email: lead.email,
+        phone: lead.phone,
+        subject: lead.subject,
+        message: lead.message,
+        locale: lead.locale,
+        attachments: lead.attachments,
+        createdAt: lead.createdAt,
+        status: 'new',
+      },
+    },
+  };
+}
+
+export function leadStatusChangedEvent(
+  lead: { id: string; email: string },
+  previousStatus: LeadStatus,
+  status: LeadStatus,
+  changedBy: StaffMember
+): WebhookEvent {
+  return {
+    ...newEventMeta(),
+    type: 'lead.status_changed',
+    data: { lead: { id: lead.id, email: lead.email }, previousStatus, status, changedBy },
+  };
+}
+
+/** Yalnızca https adresleri kabul edilir; yerel sahte alıcı (scripts/mock-crm-receiver.js) için localhost istisnadır */
+export function readWebhookUrls(value: string | undefined): string[] {
+  const urls: string[] = [];
+  for (const candidate of (value || '').split(/[\s,]+/).filter(Boolean)) {
+    try {
+      const url = new URL(candidate);
+      const isLocal = url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+      if (url.protocol === 'https:' || (url.protocol === 'http:' && isLocal)) {
+        urls.push(url.toString());
+        continue;
+      }
+    } catch {
+      // aşağıda loglanır
+    }
+    console.warn('[webhooks] Geçersiz webhook adresi yok sayıldı:', candidate);
+  }
+  return [...new Set(urls)];
+}
+
+/** Olayı yapılandırılmış her adres için kuyruğa yazar; kuyruğa alınan teslimat sayısını döndürür */
+export async function enqueueWebhookEvent(env: WebhookEnv, event: WebhookEvent): Promise<number> {
+  const urls = readWebhookUrls(env.CRM_WEBHOOK_URLS);
+  if (urls.length === 0) return 0;
+  if (!env.CRM_WEBHOOK_SECRET) {
+    console.warn('[webhooks] CRM_WEBHOOK_SECRET tanımlı değil, olay gönderilmedi:', event.type, event.id);
+    return 0;
+  }
+
+  const now = new Date().toISOString();
+  const payload = JSON.stringify(event);
+  await env.DB.batch(
+    urls.map((url) =>
+      env.DB
+        .prepare(
+          `INSERT INTO webhook_deliveries (event_id, event_type, url, payload, next_attempt_at, created_at)
+           VALUES (?, ?, ?, ?, ?, ?)`
+        )
+        .bind(event.id, event.type, url, payload, now, now)
+    )
+  );
+  return urls.length;
+}
+
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  return `t=${timestamp},v1=${await hmacSha256Hex(secret, `${timestamp}.${body}`)}`;
+}
+
+/** n. başarısız denemeden sonraki bekleme: 1 dk, 4 dk, 16 dk, ~1 sa, ~4 sa, en fazla 6 sa */
+export function retryDelaySeconds(attempts: number): number {
+  return Math.min(60 * 4 ** Math.max(0, attempts - 1), 6 * 60 * 60);
+}
+
+type DeliveryRow = {
+  id: number;
+  event_id: string;
+  event_type: string;
+  url: string;
+  payload: string;
+  attempts: number;
+};
+
+async function attemptDelivery(secret: string, row: DeliveryRow): Promise<{ ok: boolean; status: number | null; error: string | null }> {
+  try {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const res = await fetch(row.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'HEKAMAP-Webhooks/1',
+        'X-Hekamap-Event': row.event_type,
+        'X-Hekamap-Event-Id': row.event_id,
+        'X-Hekamap-Delivery': String(row.id),
+        'X-Hekamap-Signature': await signWebhookPayload(secret, timestamp, row.payload),
+      },
+      body: row.payload,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    if (res.ok) return { ok: true, status: res.status, error: null };
+    const text = await res.text().catch(() => '');
+    return { ok: false, status: res.status, error: `HTTP ${res.status} ${text}`.trim() };
+  } catch (err: any) {
+    return { ok: false, status: null, error: err?.message || String(err) };
+  }
+}
+
+/**
+ * Zamanı gelmiş teslimatları gönderir. Satırlar önce kira süresiyle sahiplenilir (UPDATE ... RETURNING);
+ * kira partinin tamamını sırayla göndermeye yetecek uzunluktadır (limit x 10 sn + pay), böylece eşzamanlı
+ * çalışan iki işleyici aynı satırı göndermez. Yarıda kalan işleyicinin satırları kira bitince yeniden denenir.
+ */
+export async function processWebhookQueue(
+  env: WebhookEnv,
+  limit = DEFAULT_BATCH_SIZE
+): Promise<{ delivered: number; failed: number; dead: number }> {
+  const summary = { delivered: 0, failed: 0, dead: 0 };
+  if (!env.CRM_WEBHOOK_SECRET) return summary;
+
+  const now = new Date();
+  const { results } = await env.DB
+    .prepare(
+      `UPDATE webhook_deliveries SET next_attempt_at = ?
+       WHERE id IN (
+         SELECT id FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY next_attempt_at LIMIT ?
+       )
+       RETURNING id, event_id, event_type, url, payload, attempts`
+    )
+    .bind(new Date(now.getTime() + claimLeaseSeconds(limit) * 1000).toISOString(), now.toISOString(), limit)
+    .all<DeliveryRow>();
+
+  // Oluşturulma sırasıyla tek tek gönderilir; yeniden denenen olay sonrakilerin arkasında kalabilir, alıcı createdAt'e bakar
+  for (const row of results.sort((a, b) => a.id - b.id)) {
+    const result = await attemptDelivery(env.CRM_WEBHOOK_SECRET, row);
+    const attempts = row.attempts + 1;
+    const finishedAt = new Date();
+
+    if (result.ok) {
+      summary.delivered++;
+      await env.DB
+        .prepare(
+          `UPDATE webhook_deliveries SET status = 'delivered', attempts = ?, last_status = ?, last_error = NULL, delivered_at = ?
+           WHERE id = ?`
+        )
+        .bind(attempts, result.status, finishedAt.toISOString(), row.id)
+        .run();
+      continue;
+    }
+
+    const dead = attempts >= WEBHOOK_MAX_ATTEMPTS;
+    if (dead) {
+      summary.dead++;
+      console.error('[webhooks] Teslimat ölü mektuba taşındı:', row.id, row.event_type, row.url, result.error);
+    } else {
+      summary.failed++;
+      console.warn('[webhooks] Teslimat başarısız, yeniden denenecek:', row.id, attempts, result.error);
+    }
+    await env.DB
+      .prepare(
+        `UPDATE webhook_deliveries SET status = ?, attempts = ?, last_status = ?, last_error = ?, next_attempt_at = ?
+         WHERE id = ?`
+      )
+      .bind(
+        dead ? 'dead' : 'pending',
+        attempts,
+        result.status,
+        (result.error || '').slice(0, 1000),
+        new Date(finishedAt.getTime() + retryDelaySeconds(attempts) * 1000).toISOString(),
+        row.id
+      )
+      .run();
+  }
+  return summary;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+export interface WebhookDeliverySummary {
+  id: number;
+  eventId: string;
+  eventType: string;
+  url: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt: string;
+  lastStatus: number | null;
+  lastError: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+type DeliverySummaryRow = {
+  id: number;
+  event_id: string;
+  event_type: string;
+  url: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_status: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+};
+
+/** Personelin kuyruk ve ölü mektup görünümü, en yeni önce */
+export async function listWebhookDeliveries(
+  db: D1Database,
+  status: WebhookDeliveryStatus | null,
+  page: number
+): Promise<Paginated<WebhookDeliverySummary>> {
+  const where = status ? 'WHERE status = ?' : '';
+  const binds = status ? [status] : [];
+  const [count, rows] = await Promise.all([
+    db.prepare(`SELECT COUNT(*) AS total FROM webhook_deliveries ${where}`).bind(...binds).first<{ total: number }>(),
+    db
+      .prepare(
+        `SELECT id, event_id, event_type, url, status, attempts, next_attempt_at, last_status, last_error, created_at, delivered_at
+         FROM webhook_deliveries ${where}
+         ORDER BY id DESC
+         LIMIT ? OFFSET ?`
+      )
+      .bind(...binds, ADMIN_PAGE_SIZE, (page - 1) * ADMIN_PAGE_SIZE)
+      .all<DeliverySummaryRow>(),
+  ]);
+  return {
+    items: rows.results.map((row) => ({
+      id: row.id,
+      eventId: row.event_id,
+      eventType: row.event_type,
+      url: row.url,
+      status: row.status,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at,
+      lastStatus: row.last_status,
+      lastError: row.last_error,
+      createdAt: row.created_at,
+      deliveredAt: row.delivered_at,
+    })),
+    total: count?.total ?? 0,
+    page,
+    pageSize: ADMIN_PAGE_SIZE,
+  };
+}
+
+/** Ölü mektubu deneme sayacı sıfırlanmış olarak kuyruğa geri alır; yalnızca dead satırlar için true döner */
+export async function requeueDeadDelivery(db: D1Database, id: number): Promise<boolean> {
+  const result = await db
+    .prepare(`UPDATE webhook_deliveries SET status = 'pending', attempts = 0, next_attempt_at = ? WHERE id = ? AND status = 'dead'`)
+    .bind(new Date().toISOString(), id)
+    .run();
+  return result.meta.changes > 0;
+}
@@ -0,0 +1,21 @@
+-- İletişim formundan gelen her talep e-posta denemesinden önce buraya yazılır.
+-- email_status Mailgun sonucuna göre güncellenir: pending -> sent | failed
+CREATE TABLE IF NOT EXISTS leads (
+  id TEXT PRIMARY KEY,
+  first_name TEXT NOT NULL DEFAULT '',
+  last_name TEXT NOT NULL DEFAULT '',
+  email TEXT NOT NULL,
+  phone TEXT NOT NULL DEFAULT '',
+  subject TEXT NOT NULL DEFAULT '',
+  message TEXT NOT NULL,
+  ip_hash TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  email_status TEXT NOT NULL DEFAULT 'pending' CHECK (email_status IN ('pending', 'sent', 'failed')),
+  email_message_id TEXT,
+  email_error TEXT,
+  email_updated_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_leads_created_at ON leads (created_at);
+CREATE INDEX IF NOT EXISTS idx_leads_email ON leads (email);
+CREATE INDEX IF NOT EXISTS idx_leads_email_status ON leads (email_status);
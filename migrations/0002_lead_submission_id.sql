@@ -0,0 +1,4 @@
+-- Tarayıcının form başına ürettiği kimlik: aynı form tekrar gönderilirse yeni lead açılmaz.
+ALTER TABLE leads ADD COLUMN submission_id TEXT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_leads_submission_id ON leads (submission_id) WHERE submission_id IS NOT NULL;
@@ -0,0 +1,19 @@
+-- Mailgun webhook olayları (delivered, failed, complained, opened).
+-- message_id köşeli parantezsiz tutulur; sendMailgunEmail'in döndürdüğü kimlikle eşleşir.
+CREATE TABLE IF NOT EXISTS email_events (
+  event_id TEXT PRIMARY KEY,
+  message_id TEXT NOT NULL,
+  event TEXT NOT NULL,
+  recipient TEXT NOT NULL DEFAULT '',
+  severity TEXT,
+  reason TEXT,
+  occurred_at TEXT NOT NULL,
+  received_at TEXT NOT NULL,
+  payload TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_events_message_id ON email_events (message_id);
+
+-- Lead bildiriminin son teslim durumu (ör. delivered, failed, complained)
+ALTER TABLE leads ADD COLUMN email_delivery_event TEXT;
+ALTER TABLE leads ADD COLUMN email_delivery_updated_at TEXT;
@@ -0,0 +1,2 @@
+-- Form eklerinin meta verisi (JSON: [{ name, size, type }]). Dosyaların kendisi yalnızca e-postada iletilir.
+ALTER TABLE leads ADD COLUMN attachments TEXT NOT NULL DEFAULT '[]';
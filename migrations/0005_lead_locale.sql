@@ -0,0 +1,2 @@
+-- Formun gönderildiği dil (shared/i18n/locales.ts). Sonraki müşteri e-postaları bu dilde gönderilir.
+ALTER TABLE leads ADD COLUMN locale TEXT NOT NULL DEFAULT 'tr';
@@ -0,0 +1,38 @@
+-- Müşteri portalı: şifresiz giriş (magic link) ve oturumlar.
+-- Hesap, daha önce talep (lead) bırakmış bir e-posta adresi ilk kez giriş bağlantısı istediğinde açılır.
+CREATE TABLE IF NOT EXISTS accounts (
+  id TEXT PRIMARY KEY,
+  email TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL DEFAULT '',
+  locale TEXT NOT NULL DEFAULT 'tr',
+  created_at TEXT NOT NULL,
+  last_login_at TEXT
+);
+
+-- Tek kullanımlık giriş bağlantıları. Belirtecin kendisi değil SHA-256 özeti saklanır;
+-- used_at doluysa bağlantı kullanılmıştır.
+CREATE TABLE IF NOT EXISTS login_tokens (
+  token_hash TEXT PRIMARY KEY,
+  account_id TEXT NOT NULL REFERENCES accounts (id),
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  used_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_tokens_account_id ON login_tokens (account_id);
+
+-- Oturumlar. Çerez imzalı belirteci taşır, tabloda yalnızca özeti bulunur.
+-- revoked_at doluysa oturum çıkış ya da iptal ile kapatılmıştır.
+CREATE TABLE IF NOT EXISTS sessions (
+  id TEXT PRIMARY KEY,
+  account_id TEXT NOT NULL REFERENCES accounts (id),
+  token_hash TEXT NOT NULL UNIQUE,
+  created_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL,
+  last_seen_at TEXT NOT NULL,
+  revoked_at TEXT,
+  ip_hash TEXT NOT NULL,
+  user_agent TEXT NOT NULL DEFAULT ''
+);
+
+CREATE INDEX IF NOT EXISTS idx_sessions_account_id ON sessions (account_id);
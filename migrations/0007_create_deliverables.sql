@@ -0,0 +1,47 @@
+-- Proje teslimatları: dosyalar R2'de (DELIVERABLES binding), kayıtları burada.
+-- Personel hesabı portal girişini kullanır ve rolüyle ayrılır:
+--   wrangler d1 execute hekamap --remote --command "UPDATE accounts SET role = 'staff' WHERE email = 'halit@hekamap.com'"
+-- (hesap yoksa önce INSERT INTO accounts (id, email, role, created_at) ile açılır)
+ALTER TABLE accounts ADD COLUMN role TEXT NOT NULL DEFAULT 'client';
+
+CREATE TABLE IF NOT EXISTS projects (
+  id TEXT PRIMARY KEY,
+  account_id TEXT NOT NULL REFERENCES accounts (id),
+  name TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_projects_account_name ON projects (account_id, name);
+
+-- status: uploading (çok parçalı yükleme sürüyor, upload_id dolu) -> ready
+-- notified_at: müşteriye "yeni teslimat" e-postası gönderildiği an; boşsa bir sonraki bildirime eklenir
+CREATE TABLE IF NOT EXISTS deliverables (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL REFERENCES projects (id),
+  r2_key TEXT NOT NULL UNIQUE,
+  file_name TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  content_type TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'uploading' CHECK (status IN ('uploading', 'ready')),
+  upload_id TEXT,
+  uploaded_by TEXT NOT NULL REFERENCES accounts (id),
+  created_at TEXT NOT NULL,
+  completed_at TEXT,
+  notified_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_deliverables_project_id ON deliverables (project_id);
+
+-- Her indirme isteği (kısmi/range istekleri dahil) ayrı satırdır
+CREATE TABLE IF NOT EXISTS download_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  deliverable_id TEXT NOT NULL REFERENCES deliverables (id),
+  account_id TEXT NOT NULL,
+  downloaded_at TEXT NOT NULL,
+  range_start INTEGER,
+  bytes INTEGER NOT NULL,
+  ip_hash TEXT NOT NULL,
+  user_agent TEXT NOT NULL DEFAULT ''
+);
+
+CREATE INDEX IF NOT EXISTS idx_download_log_deliverable_id ON download_log (deliverable_id);
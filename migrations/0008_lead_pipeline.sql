@@ -0,0 +1,34 @@
+-- Yönetim paneli (/admin): talep süreci, atama, iç notlar ve denetim kaydı.
+-- status: new (yeni) -> called (arandı) -> quoted (teklif verildi) -> won (kazanıldı) | lost (kaybedildi)
+ALTER TABLE leads ADD COLUMN status TEXT NOT NULL DEFAULT 'new';
+ALTER TABLE leads ADD COLUMN status_updated_at TEXT;
+-- Talepten sorumlu mühendis (personel hesabı)
+ALTER TABLE leads ADD COLUMN assigned_to TEXT REFERENCES accounts (id);
+
+CREATE INDEX IF NOT EXISTS idx_leads_status ON leads (status);
+CREATE INDEX IF NOT EXISTS idx_leads_assigned_to ON leads (assigned_to);
+
+-- Yalnızca personelin gördüğü notlar; müşteriye gösterilmez
+CREATE TABLE IF NOT EXISTS lead_notes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  lead_id TEXT NOT NULL REFERENCES leads (id),
+  author_id TEXT NOT NULL REFERENCES accounts (id),
+  body TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_notes_lead_id ON lead_notes (lead_id);
+
+-- Denetim kaydı: her durum değişikliği ve atama kimin, ne zaman yaptığıyla birlikte yazılır.
+-- Satırlar güncellenmez ve silinmez.
+CREATE TABLE IF NOT EXISTS lead_events (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  lead_id TEXT NOT NULL REFERENCES leads (id),
+  actor_id TEXT NOT NULL REFERENCES accounts (id),
+  type TEXT NOT NULL CHECK (type IN ('status', 'assignment')),
+  from_value TEXT,
+  to_value TEXT,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_lead_events_lead_id ON lead_events (lead_id);
@@ -0,0 +1,20 @@
+-- CRM'e giden webhook teslimatları (giden kutusu / kuyruk). Her olay, yapılandırılmış her adres için bir satır.
+-- status: pending -> delivered | dead (MAX deneme sonrası ölü mektup listesi; personel yeniden kuyruğa alabilir)
+-- next_attempt_at: bir sonraki denemenin zamanı; işlenirken kısa bir kira süresi kadar ileri alınır.
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  url TEXT NOT NULL,
+  payload TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TEXT NOT NULL,
+  last_status INTEGER,
+  last_error TEXT,
+  created_at TEXT NOT NULL,
+  delivered_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_event_id ON webhook_deliveries (event_id);
@@ -0,0 +1,44 @@
+-- Saha keşfi randevuları
+-- survey_availability: personelin keşfe çıkabileceği zaman aralıkları (UTC ISO); SURVEY_SLOT_MINUTES'lik dilimlere bölünür.
+-- Aynı personelin aralıkları çakışmaz (uygulamada denetlenir); dilimler böylece hep aynı hizada kalır.
+CREATE TABLE IF NOT EXISTS survey_availability (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  staff_id TEXT NOT NULL REFERENCES accounts (id),
+  starts_at TEXT NOT NULL,
+  ends_at TEXT NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_survey_availability_range ON survey_availability (starts_at, ends_at);
+CREATE INDEX IF NOT EXISTS idx_survey_availability_staff_id ON survey_availability (staff_id);
+
+-- status: held (ziyaretçi formu dolduruyor, hold_expires_at'e kadar) -> confirmed -> cancelled
+--         süresi dolan tutmalar expired olur ve dilimi bırakır.
+-- sequence: takvim davetinin (RFC 5545 SEQUENCE) sürümü; saat değişince ve iptalde artar.
+CREATE TABLE IF NOT EXISTS survey_bookings (
+  id TEXT PRIMARY KEY,
+  staff_id TEXT NOT NULL REFERENCES accounts (id),
+  kind TEXT NOT NULL,
+  starts_at TEXT NOT NULL,
+  ends_at TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'confirmed', 'cancelled', 'expired')),
+  hold_expires_at TEXT,
+  first_name TEXT NOT NULL DEFAULT '',
+  last_name TEXT NOT NULL DEFAULT '',
+  email TEXT NOT NULL DEFAULT '',
+  phone TEXT NOT NULL DEFAULT '',
+  address TEXT NOT NULL DEFAULT '',
+  notes TEXT NOT NULL DEFAULT '',
+  lead_id TEXT REFERENCES leads (id),
+  locale TEXT NOT NULL DEFAULT 'tr',
+  sequence INTEGER NOT NULL DEFAULT 0,
+  ip_hash TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  confirmed_at TEXT,
+  cancelled_at TEXT
+);
+
+-- Çifte rezervasyon koruması: bir personelin aynı dilimde tek etkin (tutulan ya da onaylı) randevusu olabilir
+CREATE UNIQUE INDEX IF NOT EXISTS idx_survey_bookings_active_slot
+  ON survey_bookings (staff_id, starts_at) WHERE status IN ('held', 'confirmed');
+CREATE INDEX IF NOT EXISTS idx_survey_bookings_starts_at ON survey_bookings (starts_at);
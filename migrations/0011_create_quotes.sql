@@ -0,0 +1,30 @@
+-- Fiyat teklifleri. Numara yıl içinde sıralıdır (TKL-2026-0001) ve tek INSERT ... SELECT ile
+-- MAX(sequence) + 1 olarak atanır; eşzamanlı iki kayıt tekil indekse takılır, numara atlanmaz ve tekrarlanmaz.
+-- Tutarlar kuruş cinsinden tam sayıdır; items kalemlerin JSON dizisidir (shared/quotes.ts QuoteLineItem).
+-- Teklif kaydedildikten sonra değiştirilmez; düzeltme yeni numaralı teklifle yapılır.
+CREATE TABLE IF NOT EXISTS quotes (
+  id TEXT PRIMARY KEY,
+  year INTEGER NOT NULL,
+  sequence INTEGER NOT NULL,
+  lead_id TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent')),
+  customer_name TEXT NOT NULL,
+  customer_email TEXT NOT NULL,
+  customer_company TEXT NOT NULL DEFAULT '',
+  customer_address TEXT NOT NULL DEFAULT '',
+  items TEXT NOT NULL,
+  vat_rate INTEGER NOT NULL,
+  subtotal_kurus INTEGER NOT NULL,
+  vat_kurus INTEGER NOT NULL,
+  total_kurus INTEGER NOT NULL,
+  valid_until TEXT NOT NULL,
+  terms TEXT NOT NULL DEFAULT '',
+  locale TEXT NOT NULL DEFAULT 'tr',
+  created_by TEXT,
+  created_at TEXT NOT NULL,
+  sent_at TEXT,
+  message_id TEXT
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quotes_year_sequence ON quotes (year, sequence);
+CREATE INDEX IF NOT EXISTS idx_quotes_lead_id ON quotes (lead_id);
@@ -0,0 +1,9 @@
+-- sendMailgunEmail'in mükerrer gönderim kilidi. Anahtar gönderimden önce bu tabloya yazılır (talep);
+-- aynı anahtarla gelen eşzamanlı ikinci istek satırı bulur ve göndermez. Gönderim başarısız olursa satır silinir.
+-- message_id NULL ise gönderim sürüyordur; yarıda kalan talep kısa kira süresi bitince yeniden alınabilir.
+CREATE TABLE IF NOT EXISTS email_idempotency (
+  key TEXT PRIMARY KEY,
+  message_id TEXT,
+  claimed_at TEXT NOT NULL,
+  sent_at TEXT
+);
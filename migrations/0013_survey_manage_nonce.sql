@@ -0,0 +1,4 @@
+-- Saha keşfi yönetim bağlantısının anahtarı. Belirteç randevu numarasıyla birlikte bu değeri imzalar;
+-- saat değişikliğinde ve iptalde yenilenir, eski bağlantılar (sızmış olanlar dahil) böylece geçersiz olur.
+-- Mevcut kayıtlar boş anahtarla kalır: önceden gönderilmiş bağlantılar ilk değişikliğe kadar çalışır.
+ALTER TABLE survey_bookings ADD COLUMN manage_nonce TEXT NOT NULL DEFAULT '';
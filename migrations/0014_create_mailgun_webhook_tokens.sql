@@ -0,0 +1,10 @@
+-- Mailgun webhook imzalarında kullanılmış token'lar (tekrar oynatma koruması). Token, olay kaydedilmeden önce
+-- INSERT ... ON CONFLICT DO NOTHING RETURNING ile tek adımda alınır; aynı token'la eşzamanlı gelen ikinci istek
+-- satırı bulur ve reddedilir. Kayıt başarısız olursa satır silinir ki Mailgun'un yeniden denemesi kabul edilsin.
+-- İmzanın geçerlilik süresinin iki katından eski satırlar her istekte temizlenir; o imzalar zaten reddedilir.
+CREATE TABLE IF NOT EXISTS mailgun_webhook_tokens (
+  token TEXT PRIMARY KEY,
+  used_at TEXT NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_mailgun_webhook_tokens_used_at ON mailgun_webhook_tokens (used_at);
@@ -0,0 +1,507 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, ChevronLeft, ChevronRight, FileText, Paperclip, Search, X } from 'lucide-react';
+import { useI18n } from '../components/LocaleProvider';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
+import {
+  LEAD_NOTE_MAX_LENGTH,
+  LEAD_STATUSES,
+  type AdminLeadDetail,
+  type AdminLeadSummary,
+  type LeadActivity,
+  type LeadStatus,
+  type Paginated,
+  type StaffMember,
+} from '../shared/leads';
+import { formatFileSize } from '../shared/attachments';
+import { CONTACT_SUBJECTS, type ContactSubject } from '../shared/contact';
+import { format, LOCALE_TAGS, type Locale } from '../shared/i18n';
+
+const formatDate = (iso: string, locale: Locale) =>
+  new Date(iso).toLocaleString(LOCALE_TAGS[locale], { dateStyle: 'medium', timeStyle: 'short' });
+
+// Liste süzgeçleri adres çubuğunda tutulur; sayfa yenilenince ya da bağlantı paylaşılınca aynı görünüm açılır
+const FILTER_KEYS = ['status', 'subject', 'from', 'to', 'assignee', 'q'] as const;
+
+const STATUS_STYLES: Record<LeadStatus, string> = {
+  new: 'bg-sky-900/40 text-sky-300',
+  called: 'bg-amber-900/40 text-amber-300',
+  quoted: 'bg-violet-900/40 text-violet-300',
+  won: 'bg-emerald-900/40 text-emerald-300',
+  lost: 'bg-stone-800 text-stone-400',
+};
+
+const inputClass =
+  'bg-stone-800 border border-stone-700 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-emerald-500';
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, { credentials: 'same-origin', ...init });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw Object.assign(new Error(data.error || `HTTP ${res.status}`), { status: res.status });
+  return data;
+}
+
+const personName = (person: StaffMember | null) => (person ? person.name || person.email : '');
+
+const StatusBadge: React.FC<{ status: LeadStatus }> = ({ status }) => {
+  const { messages } = useI18n();
+  return (
+    <span className={`inline-block px-2 py-0.5 rounded-full text-[10px] uppercase tracking-widest font-bold ${STATUS_STYLES[status]}`}>
+      {messages.admin.statuses[status]}
+    </span>
+  );
+};
+
+/** Seçili talebin ayrıntısı: süreç, atama, iç notlar ve geçmiş */
+const LeadPanel: React.FC<{ leadId: string; staff: StaffMember[]; onChanged: () => void; onClose: () => void }> = ({
+  leadId,
+  staff,
+  onChanged,
+  onClose,
+}) => {
+  const { messages, locale, to } = useI18n();
+  const m = messages.admin;
+
+  const [lead, setLead] = useState<AdminLeadDetail | null>(null);
+  const [activity, setActivity] = useState<Paginated<LeadActivity> | null>(null);
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadLead = useCallback(async () => {
+    const data = await fetchJson<{ lead: AdminLeadDetail }>(`/api/admin/leads/${encodeURIComponent(leadId)}`);
+    setLead(data.lead);
+  }, [leadId]);
+
+  const loadActivity = useCallback(
+    async (page = 1) => {
+      const data = await fetchJson<Paginated<LeadActivity>>(`/api/admin/leads/${encodeURIComponent(leadId)}/activity?page=${page}`);
+      setActivity((previous) => (page > 1 && previous ? { ...data, items: [...previous.items, ...data.items] } : data));
+    },
+    [leadId]
+  );
+
+  useEffect(() => {
+    setLead(null);
+    setActivity(null);
+    setError(null);
+    Promise.all([loadLead(), loadActivity()]).catch(() => setError(m.loadFailed));
+  }, [loadLead, loadActivity, m]);
+
+  const update = async (change: { status: LeadStatus } | { assigneeId: string | null }) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const data = await fetchJson<{ lead: AdminLeadDetail }>(`/api/admin/leads/${encodeURIComponent(leadId)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(change),
+      });
+      setLead(data.lead);
+      onChanged();
+    } catch (err: any) {
+      if (err?.status === 409) {
+        setError(m.conflict);
+        await loadLead().catch(() => undefined);
+        onChanged();
+      } else {
+        setError(m.updateFailed);
+      }
+    } finally {
+      await loadActivity().catch(() => undefined);
+      setBusy(false);
+    }
+  };
+
+  const addNote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!note.trim()) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await fetchJson(`/api/admin/leads/${encodeURIComponent(leadId)}/notes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ body: note }),
+      });
+      setNote('');
+      await loadActivity();
+    } catch {
+      setError(m.noteFailed);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const describe = (entry: LeadActivity) => {
+    const actor = personName(entry.actor);
+    if (entry.kind === 'note') return format(m.noted, { actor });
+    if (entry.kind === 'status') {
+      return format(m.statusChanged, { actor, from: entry.from ? m.statuses[entry.from] : '—', to: m.statuses[entry.to] });
+    }
+    return entry.to ? format(m.assigned, { actor, to: personName(entry.to) }) : format(m.unassignedBy, { actor });
+  };
+
+  return (
+    <aside className="rounded-2xl bg-black/40 border border-stone-800 p-6 space-y-6 self-start">
+      <div className="flex items-start justify-between gap-4">
+        <div className="min-w-0">
+          <p className="font-mono text-emerald-400">{leadId}</p>
+          {lead && <h2 className="mt-1 font-oswald font-bold text-2xl truncate">{lead.name || lead.email}</h2>}
+        </div>
+        <button type="button" onClick={onClose} aria-label={m.close} className="text-stone-400 hover:text-white transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+
+      {error && <div className="p-3 bg-red-900/40 text-red-300 rounded-lg text-sm">{error}</div>}
+
+      {!lead ? (
+        !error && <p className="text-sm text-stone-500">{m.loading}</p>
+      ) : (
+        <>
+          <div>
+            <h3 className="text-[10px] uppercase tracking-widest text-stone-500 font-bold mb-2">{m.contact}</h3>
+            <p className="text-sm text-stone-300 break-all">
+              <a href={`mailto:${lead.email}`} className="hover:text-emerald-400">
+                {lead.email}
+              </a>
+            </p>
+            {lead.phone && (
+              <p className="text-sm text-stone-300">
+                <a href={`tel:${lead.phone}`} className="hover:text-emerald-400">
+                  {lead.phone}
+                </a>
+              </p>
+            )}
+            <p className="mt-1 text-xs text-stone-500">{formatDate(lead.createdAt, locale)}</p>
+          </div>
+
+          <div>
+            <h3 className="text-[10px] uppercase tracking-widest text-stone-500 font-bold mb-2">{m.message}</h3>
+            <p className="text-sm text-stone-300 whitespace-pre-wrap">{lead.message}</p>
+            {lead.attachments.length > 0 && (
+              <ul className="mt-3 space-y-1">
+                {lead.attachments.map((file) => (
+                  <li key={file.name} className="flex items-center gap-2 text-xs text-stone-400">
+                    <Paperclip size={12} /> {file.name} · {formatFileSize(file.size)}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-[10px] uppercase tracking-widest text-stone-500 font-bold mb-2">{m.pipeline}</h3>
+            <div className="flex flex-wrap gap-2">
+              {LEAD_STATUSES.map((status) => (
+                <button
+                  key={status}
+                  type="button"
+                  disabled={busy || status === lead.status}
+                  onClick={() => update({ status })}
+                  className={`px-3 py-2 rounded-lg text-xs font-bold border transition-colors ${
+                    status === lead.status
+                      ? 'border-emerald-500 bg-emerald-500 text-white'
+                      : 'border-stone-700 text-stone-300 hover:border-emerald-500 disabled:opacity-40'
+                  }`}
+                >
+                  {m.statuses[status]}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="block">
+            <span className="block text-[10px] uppercase tracking-widest text-stone-500 font-bold mb-2">{m.assignTo}</span>
+            <select
+              value={lead.assignee?.id ?? ''}
+              disabled={busy}
+              onChange={(e) => update({ assigneeId: e.target.value || null })}
+              className={`w-full ${inputClass}`}
+            >
+              <option value="">{m.unassigned}</option>
+              {staff.map((member) => (
+                <option key={member.id} value={member.id}>
+                  {personName(member)}
+                </option>
+              ))}
+            </select>
+          </label>
+
+          <Link
+            to={to(`/admin/teklif?talep=${encodeURIComponent(leadId)}`)}
+            className="flex items-center justify-center gap-2 w-full py-3 rounded-xl bg-emerald-600 text-white text-sm font-bold hover:bg-emerald-500 transition-colors"
+          >
+            <FileText size={16} /> {m.quote}
+          </Link>
+        </>
+      )}
+
+      <form onSubmit={addNote} className="space-y-2">
+        <label className="block">
+          <span className="block text-[10px] uppercase tracking-widest text-stone-500 font-bold mb-2">{m.note}</span>
+          <textarea
+            rows={3}
+            maxLength={LEAD_NOTE_MAX_LENGTH}
+            placeholder={m.notePlaceholder}
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            className={`w-full resize-y ${inputClass}`}
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={busy || !note.trim()}
+          className="w-full bg-white text-stone-900 font-bold py-3 rounded-xl hover:bg-emerald-500 hover:text-white transition-colors disabled:opacity-40"
+        >
+          {m.addNote}
+        </button>
+      </form>
+
+      <div>
+        <h3 className="text-[10px] uppercase tracking-widest text-stone-500 font-bold mb-2">{m.activity}</h3>
+        {activity === null ? (
+          <p className="text-sm text-stone-500">{m.loading}</p>
+        ) : activity.items.length === 0 ? (
+          <p className="text-sm text-stone-500">{m.noActivity}</p>
+        ) : (
+          <ul className="divide-y divide-stone-800 border-y border-stone-800">
+            {activity.items.map((entry) => (
+              <li key={entry.id} className="py-3">
+                <p className="text-sm text-stone-300">{describe(entry)}</p>
+                {entry.kind === 'note' && <p className="mt-1 text-sm text-stone-400 whitespace-pre-wrap">{entry.body}</p>}
+                <p className="mt-1 text-xs text-stone-500">{formatDate(entry.createdAt, locale)}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        {activity && activity.items.length < activity.total && (
+          <button
+            type="button"
+            onClick={() => loadActivity(activity.page + 1).catch(() => setError(m.loadFailed))}
+            className="mt-3 text-xs uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors"
+          >
+            {m.loadMore}
+          </button>
+        )}
+      </div>
+    </aside>
+  );
+};
+
+/** /admin: yalnızca <RequireSession role="staff"> içinde açılır; talep listesi ve süreç yönetimi */
+export const AdminPage: React.FC = () => {
+  const { messages, locale, to } = useI18n();
+  const m = messages.admin;
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const [leads, setLeads] = useState<Paginated<AdminLeadSummary> | null>(null);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState(searchParams.get('q') ?? '');
+
+  const selectedId = searchParams.get('lead');
+  // Seçili talep (lead) listenin sorgusuna dahil değildir; panel açılıp kapanırken liste yeniden yüklenmez
+  const listQuery = (() => {
+    const params = new URLSearchParams();
+    for (const key of [...FILTER_KEYS, 'page']) {
+      const value = searchParams.get(key);
+      if (value) params.set(key, value);
+    }
+    return params.toString();
+  })();
+
+  const loadLeads = useCallback(async () => {
+    try {
+      setLeads(await fetchJson<Paginated<AdminLeadSummary>>(`/api/admin/leads?${listQuery}`));
+      setError(null);
+    } catch {
+      setError(m.loadFailed);
+    }
+  }, [listQuery, m]);
+
+  useEffect(() => {
+    loadLeads();
+  }, [loadLeads]);
+
+  useEffect(() => {
+    fetchJson<{ staff: StaffMember[] }>('/api/admin/staff')
+      .then((data) => setStaff(data.staff))
+      .catch(() => undefined);
+  }, []);
+
+  /** Süzgeç değişince ilk sayfaya dönülür */
+  const setParam = (key: string, value: string | null) => {
+    setSearchParams((previous) => {
+      const next = new URLSearchParams(previous);
+      if (value) next.set(key, value);
+      else next.delete(key);
+      if (key !== 'page' && key !== 'lead') next.delete('page');
+      return next;
+    });
+  };
+
+  const clearFilters = () => {
+    setSearch('');
+    setSearchParams(selectedId ? { lead: selectedId } : {});
+  };
+
+  const subjectLabel = (subject: string) =>
+    (CONTACT_SUBJECTS as readonly string[]).includes(subject) ? messages.contactSubjects[subject as ContactSubject] : m.noSubject;
+
+  const page = leads?.page ?? 1;
+  const pageCount = leads ? Math.max(1, Math.ceil(leads.total / leads.pageSize)) : 1;
+
+  return (
+    <main className="relative bg-stone-900 text-white h-screen w-screen overflow-y-auto">
+      <div className="max-w-7xl mx-auto px-6 py-10 md:py-16">
+        <div className="flex items-center justify-between gap-4">
+          <Link to={to('/portal')} className="inline-flex items-center gap-2 text-xs uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors">
+            <ArrowLeft size={14} /> {m.backToPortal}
+          </Link>
+          <LanguageSwitcher />
+        </div>
+
+        <h1 className="mt-6 text-4xl md:text-6xl font-oswald font-bold tracking-tight">{m.title}</h1>
+
+        <div className="mt-8 grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-6 gap-3">
+          <form
+            className="relative sm:col-span-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              setParam('q', search.trim() || null);
+            }}
+          >
+            <Search size={16} className="absolute left-4 top-1/2 -translate-y-1/2 text-stone-500" />
+            <input
+              type="search"
+              placeholder={m.search}
+              aria-label={m.search}
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              className={`w-full pl-10 ${inputClass}`}
+            />
+          </form>
+          <select aria-label={m.status} value={searchParams.get('status') ?? ''} onChange={(e) => setParam('status', e.target.value)} className={inputClass}>
+            <option value="">{m.allStatuses}</option>
+            {LEAD_STATUSES.map((status) => (
+              <option key={status} value={status}>
+                {m.statuses[status]}
+              </option>
+            ))}
+          </select>
+          <select aria-label={m.subject} value={searchParams.get('subject') ?? ''} onChange={(e) => setParam('subject', e.target.value)} className={inputClass}>
+            <option value="">{m.allSubjects}</option>
+            {CONTACT_SUBJECTS.map((subject) => (
+              <option key={subject} value={subject}>
+                {messages.contactSubjects[subject]}
+              </option>
+            ))}
+            <option value="none">{m.noSubject}</option>
+          </select>
+          <select aria-label={m.assignee} value={searchParams.get('assignee') ?? ''} onChange={(e) => setParam('assignee', e.target.value)} className={inputClass}>
+            <option value="">{m.allAssignees}</option>
+            <option value="none">{m.unassigned}</option>
+            {staff.map((member) => (
+              <option key={member.id} value={member.id}>
+                {personName(member)}
+              </option>
+            ))}
+          </select>
+          <div className="grid grid-cols-2 gap-3">
+            <input type="date" aria-label={m.from} title={m.from} value={searchParams.get('from') ?? ''} onChange={(e) => setParam('from', e.target.value)} className={`px-2 ${inputClass}`} />
+            <input type="date" aria-label={m.to} title={m.to} value={searchParams.get('to') ?? ''} onChange={(e) => setParam('to', e.target.value)} className={`px-2 ${inputClass}`} />
+          </div>
+        </div>
+        {FILTER_KEYS.some((key) => searchParams.get(key)) && (
+          <button type="button" onClick={clearFilters} className="mt-3 text-xs uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors">
+            {m.clearFilters}
+          </button>
+        )}
+
+        {error && <div className="mt-6 p-3 bg-red-900/40 text-red-300 rounded-lg text-sm">{error}</div>}
+
+        <div className={`mt-8 grid grid-cols-1 gap-6 ${selectedId ? 'lg:grid-cols-[minmax(0,1fr)_420px]' : ''}`}>
+          <section className="min-w-0">
+            {leads === null ? (
+              !error && <p className="text-sm text-stone-500">{m.loading}</p>
+            ) : leads.items.length === 0 ? (
+              <p className="text-sm text-stone-500">{m.noLeads}</p>
+            ) : (
+              <div className="overflow-x-auto rounded-2xl border border-stone-800">
+                <table className="w-full text-sm">
+                  <thead className="bg-black/40 text-left text-[10px] uppercase tracking-widest text-stone-500">
+                    <tr>
+                      <th className="px-4 py-3 font-bold">{m.reference}</th>
+                      <th className="px-4 py-3 font-bold">{m.client}</th>
+                      <th className="px-4 py-3 font-bold">{m.subject}</th>
+                      <th className="px-4 py-3 font-bold">{m.status}</th>
+                      <th className="px-4 py-3 font-bold">{m.assignee}</th>
+                      <th className="px-4 py-3 font-bold">{m.date}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-stone-800">
+                    {leads.items.map((lead) => (
+                      <tr
+                        key={lead.id}
+                        onClick={() => setParam('lead', lead.id)}
+                        className={`cursor-pointer transition-colors ${lead.id === selectedId ? 'bg-emerald-900/20' : 'hover:bg-stone-800/60'}`}
+                      >
+                        <td className="px-4 py-3 font-mono text-emerald-400 whitespace-nowrap">{lead.id}</td>
+                        <td className="px-4 py-3">
+                          <p className="text-stone-300">{lead.name}</p>
+                          <p className="text-xs text-stone-500">{lead.email}</p>
+                        </td>
+                        <td className="px-4 py-3 text-stone-300">{subjectLabel(lead.subject)}</td>
+                        <td className="px-4 py-3">
+                          <StatusBadge status={lead.status} />
+                        </td>
+                        <td className="px-4 py-3 text-stone-300">{lead.assignee ? personName(lead.assignee) : <span className="text-stone-500">{m.unassigned}</span>}</td>
+                        <td className="px-4 py-3 text-xs text-stone-500 whitespace-nowrap">{formatDate(lead.createdAt, locale)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {leads && leads.total > 0 && (
+              <div className="mt-4 flex items-center justify-between gap-4 text-xs text-stone-500">
+                <span>
+                  {format(m.pageInfo, {
+                    first: (page - 1) * leads.pageSize + 1,
+                    last: (page - 1) * leads.pageSize + leads.items.length,
+                    total: leads.total,
+                  })}
+                </span>
+                <div className="flex items-center gap-4">
+                  <button
+                    type="button"
+                    disabled={page <= 1}
+                    onClick={() => setParam('page', String(page - 1))}
+                    className="inline-flex items-center gap-1 uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors disabled:opacity-40"
+                  >
+                    <ChevronLeft size={14} /> {m.previous}
+                  </button>
+                  <button
+                    type="button"
+                    disabled={page >= pageCount}
+                    onClick={() => setParam('page', String(page + 1))}
+                    className="inline-flex items-center gap-1 uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors disabled:opacity-40"
+                  >
+                    {m.next} <ChevronRight size={14} />
+                  </button>
+                </div>
+              </div>
+            )}
+          </section>
+
+          {selectedId && (
+            <LeadPanel key={selectedId} leadId={selectedId} staff={staff} onChanged={loadLeads} onClose={() => setParam('lead', null)} />
+          )}
+        </div>
+      </div>
+    </main>
+  );
+};
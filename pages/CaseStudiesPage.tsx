@@ -0,0 +1,118 @@
+import React, { useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { CaseStudyCard, useCaseStudies } from '../components/CaseStudies';
+import { useServices } from '../components/Services';
+import { useI18n } from '../components/LocaleProvider';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
+import { CLIENT_TYPES, type ClientType } from '../shared/content/caseStudies';
+import { isServiceId } from '../shared/services';
+import { formatPlural } from '../shared/i18n';
+
+const isClientType = (value: string | null): value is ClientType =>
+  value !== null && (CLIENT_TYPES as readonly string[]).includes(value);
+
+/** Referans projeler; filtreler URL'de tutulur (?hizmet=1&musteri=belediye) ve paylaşılabilir */
+export const CaseStudiesPage: React.FC = () => {
+  const { locale, messages, to } = useI18n();
+  const m = messages.caseStudies;
+  const studies = useCaseStudies();
+  const services = useServices();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const serviceParam = Number(searchParams.get('hizmet'));
+  const serviceId = isServiceId(serviceParam) ? serviceParam : null;
+  const clientParam = searchParams.get('musteri');
+  const clientType = isClientType(clientParam) ? clientParam : null;
+
+  // Yalnızca en az bir projesi olan seçenekler gösterilir
+  const availableServices = services.filter((s) => studies.some((study) => study.services.includes(s.id)));
+  const availableClients = CLIENT_TYPES.filter((type) => studies.some((study) => study.clientType === type));
+
+  const filtered = useMemo(
+    () =>
+      studies.filter(
+        (study) =>
+          (serviceId === null || study.services.includes(serviceId)) &&
+          (clientType === null || study.clientType === clientType)
+      ),
+    [studies, serviceId, clientType]
+  );
+
+  const setFilter = (key: 'hizmet' | 'musteri', value: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (value === null) next.delete(key);
+    else next.set(key, value);
+    setSearchParams(next, { replace: true });
+  };
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-full text-xs font-bold transition-colors ${
+      active ? 'bg-emerald-600 text-white' : 'bg-stone-800 text-stone-400 hover:text-white'
+    }`;
+
+  return (
+    <main className="relative bg-stone-900 text-white h-screen w-screen overflow-y-auto">
+      <div className="max-w-6xl mx-auto px-6 py-10 md:py-16">
+        <div className="flex items-center justify-between">
+          <Link to={to('/')} className="inline-flex items-center gap-2 text-xs uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors">
+            <ArrowLeft size={14} /> {messages.nav.home}
+          </Link>
+          <LanguageSwitcher />
+        </div>
+
+        <h1 className="mt-6 text-4xl md:text-6xl font-oswald font-bold tracking-tight">{m.title}</h1>
+        <p className="mt-3 text-stone-400 max-w-2xl">
+          {m.lead}
+        </p>
+
+        <div className="mt-10 space-y-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="w-28 text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.filterService}</span>
+            <button type="button" onClick={() => setFilter('hizmet', null)} className={chipClass(serviceId === null)}>
+              {m.all}
+            </button>
+            {availableServices.map((s) => (
+              <button
+                key={s.id}
+                type="button"
+                onClick={() => setFilter('hizmet', String(s.id))}
+                className={chipClass(serviceId === s.id)}
+              >
+                {s.title}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="w-28 text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.filterClient}</span>
+            <button type="button" onClick={() => setFilter('musteri', null)} className={chipClass(clientType === null)}>
+              {m.all}
+            </button>
+            {availableClients.map((type) => (
+              <button key={type} type="button" onClick={() => setFilter('musteri', type)} className={chipClass(clientType === type)}>
+                {m.clientTypes[type]}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <p className="mt-8 text-xs text-stone-500">{formatPlural(m.count, filtered.length, locale)}</p>
+
+        {filtered.length === 0 ? (
+          <div className="mt-4 p-6 rounded-2xl border border-dashed border-stone-700 text-stone-400 text-sm">
+            {m.empty}{' '}
+            <button type="button" onClick={() => setSearchParams({}, { replace: true })} className="text-emerald-400 underline">
+              {m.clearFilters}
+            </button>
+          </div>
+        ) : (
+          <div className="mt-4 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+            {filtered.map((study) => (
+              <CaseStudyCard key={study.slug} study={study} />
+            ))}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+};
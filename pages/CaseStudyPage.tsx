@@ -0,0 +1,146 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { ArrowLeft, CheckCircle, MapPin } from 'lucide-react';
+import { caseStudyPath, formatCaseLocation, formatCaseMetrics, useCaseStudies } from '../components/CaseStudies';
+import { servicePath, useServices } from '../components/Services';
+import { RichText } from '../components/RichText';
+import { ComparisonViewer } from '../components/ComparisonViewer';
+import { useI18n } from '../components/LocaleProvider';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
+import { ContactModal } from '../components/ContactModal';
+import { NotFoundPage } from './NotFoundPage';
+import { SERVICE_CONTACT_SUBJECTS, type ContactPayload } from '../shared/contact';
+import { format } from '../shared/i18n';
+
+export const CaseStudyPage: React.FC = () => {
+  const { locale, messages, to } = useI18n();
+  const m = messages.caseStudies;
+  const { slug } = useParams<{ slug: string }>();
+  const study = useCaseStudies().find((c) => c.slug === slug);
+  const services = useServices();
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  // Form ilk hizmetin konusuyla ve proje adıyla önceden doldurulur
+  const contactPrefill = useMemo<Partial<ContactPayload> | undefined>(
+    () =>
+      study && {
+        subject: SERVICE_CONTACT_SUBJECTS[study.services[0]],
+        message: format(m.similarMessage, { title: study.title }),
+      },
+    [study, m]
+  );
+
+  if (!study) {
+    return <NotFoundPage />;
+  }
+
+  const metrics = formatCaseMetrics(study.metrics, messages, locale);
+  const studyServices = services.filter((s) => study.services.includes(s.id));
+
+  return (
+    <main className="relative bg-stone-900 text-white h-screen w-screen overflow-y-auto">
+      <div className="relative h-[40vh] md:h-[50vh] bg-black">
+        <img src={study.cover} alt={study.title} className="w-full h-full object-cover opacity-60" />
+        <div className="absolute inset-0 bg-gradient-to-t from-stone-900 via-stone-900/40 to-transparent"></div>
+        <div className="absolute top-0 inset-x-0 max-w-6xl mx-auto px-6 py-10 flex items-center justify-between">
+          <Link to={to(caseStudyPath())} className="inline-flex items-center gap-2 text-xs uppercase tracking-widest text-stone-300 hover:text-emerald-400 transition-colors">
+            <ArrowLeft size={14} /> {m.back}
+          </Link>
+          <LanguageSwitcher />
+        </div>
+        <div className="absolute bottom-0 inset-x-0 max-w-6xl mx-auto px-6 pb-8">
+          <p className="flex items-center gap-1 text-xs uppercase tracking-widest text-emerald-400 font-bold">
+            <MapPin size={12} /> {formatCaseLocation(study)} · {study.year}
+          </p>
+          <h1 className="mt-2 text-3xl md:text-6xl font-oswald font-bold tracking-tight max-w-4xl">{study.title}</h1>
+        </div>
+      </div>
+
+      <div className="max-w-6xl mx-auto px-6 py-10 md:py-16 grid grid-cols-1 lg:grid-cols-[1fr_320px] gap-10">
+        <div>
+          <p className="text-lg md:text-2xl text-emerald-400 font-light">{study.summary}</p>
+          <RichText content={study.body} className="mt-6 text-stone-300 leading-relaxed space-y-4" />
+
+          {study.comparison && (
+            <section className="mt-12">
+              <h2 className="text-[10px] uppercase tracking-widest text-stone-500 font-bold mb-4">{m.comparison}</h2>
+              <ComparisonViewer
+                comparison={study.comparison}
+                className="relative h-[50vh] md:h-[60vh] rounded-2xl border border-stone-800"
+              />
+            </section>
+          )}
+
+          {study.gallery.length > 0 && (
+            <section className="mt-12">
+              <h2 className="text-[10px] uppercase tracking-widest text-stone-500 font-bold mb-4">{m.gallery}</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {study.gallery.map((src, idx) => (
+                  <figure key={src} className="rounded-xl overflow-hidden bg-black border border-stone-800">
+                    <img src={src} alt={study.captions[idx] ?? study.title} loading="lazy" className="w-full h-56 object-cover" />
+                    {study.captions[idx] && <figcaption className="p-3 text-xs text-stone-400">{study.captions[idx]}</figcaption>}
+                  </figure>
+                ))}
+              </div>
+            </section>
+          )}
+        </div>
+
+        <aside className="space-y-6">
+          <dl className="rounded-2xl bg-black/40 border border-stone-800 p-6 grid grid-cols-2 gap-4">
+            {metrics.map((metric) => (
+              <div key={metric.key}>
+                <dt className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{metric.label}</dt>
+                <dd className="text-2xl font-oswald">{metric.value}</dd>
+              </div>
+            ))}
+            <div>
+              <dt className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.client}</dt>
+              <dd className="text-sm mt-1">{m.clientTypes[study.clientType]}</dd>
+            </div>
+            <div>
+              <dt className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.location}</dt>
+              <dd className="text-sm mt-1">{formatCaseLocation(study)}</dd>
+            </div>
+          </dl>
+
+          <div>
+            <h2 className="text-[10px] uppercase tracking-widest text-stone-500 font-bold mb-3">{m.services}</h2>
+            <div className="flex flex-wrap gap-2">
+              {studyServices.map((s) => (
+                <Link
+                  key={s.id}
+                  to={to(servicePath(s.slug))}
+                  className="inline-flex items-center gap-2 px-3 py-1.5 rounded-full bg-stone-800 text-xs font-bold text-stone-300 hover:text-emerald-400 transition-colors"
+                >
+                  <s.icon size={12} /> {s.title}
+                </Link>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h2 className="text-[10px] uppercase tracking-widest text-stone-500 font-bold mb-3">{m.deliverables}</h2>
+            <ul className="space-y-2">
+              {study.deliverables.map((item) => (
+                <li key={item} className="flex items-start gap-2 text-sm text-stone-300">
+                  <CheckCircle size={14} className="text-emerald-500 mt-0.5 shrink-0" /> {item}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <button
+            type="button"
+            onClick={() => setIsModalOpen(true)}
+            className="w-full bg-white text-stone-900 font-bold py-4 rounded-xl hover:bg-emerald-500 hover:text-white transition-colors"
+          >
+            {m.requestSimilar}
+          </button>
+        </aside>
+      </div>
+
+      <ContactModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} prefill={contactPrefill} />
+    </main>
+  );
+};
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, ArrowLeftRight, Download, Crosshair, Upload } from 'lucide-react';
+import { useI18n } from '../components/LocaleProvider';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
+import { COORDINATE_SYSTEMS, findCoordinateSystem, type CoordinateSystem } from '../shared/geo/transform';
+import { POINT_CSV_MAX_ROWS } from '../shared/geo/formats/pointCsv';
+import { format, formatNumber, type Messages } from '../shared/i18n';
+
+const inputClass =
+  'w-full bg-stone-800 border border-stone-700 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-emerald-500';
+
+const CSV_ACCEPT = '.csv,.txt';
+
+const GROUPS = ['geographic', 'tm3', 'utm'] as const;
+
+function systemLabel(system: CoordinateSystem, m: Messages['coordinates']): string {
+  if (system.kind === 'utm') return format(m.systemUtm, { datum: system.datum, zone: system.zone });
+  if (system.kind === 'tm3') return format(m.systemTm3, { datum: system.datum, meridian: system.meridian });
+  return format(m.systemGeographic, { datum: system.datum });
+}
+
+/** Eksen etiketleri x, y sırasıyla: coğrafi sistemlerde boylam, enlem */
+function axisLabels(system: CoordinateSystem, m: Messages['coordinates']): [string, string] {
+  return system.kind === 'geographic' ? [m.longitude, m.latitude] : [m.easting, m.northing];
+}
+
+/** Türkçe klavyeden girilen ondalık virgülü de kabul eder */
+const parseCoordinate = (value: string) => {
+  const normalized = value.trim().replace(',', '.');
+  return /^[-+]?(\d+\.?\d*|\.\d+)$/.test(normalized) ? Number(normalized) : null;
+};
+
+/**
+ * /araclar/koordinat - koordinat dönüştürme aracı (public)
+ * Hesap /api/transform'da yapılır; toplu dönüşümde sunucunun yazdığı CSV doğrudan indirilir.
+ */
+export const CoordinateToolPage: React.FC = () => {
+  const { locale, messages, to } = useI18n();
+  const m = messages.coordinates;
+  const [fromId, setFromId] = useState('wgs84');
+  const [toId, setToId] = useState('itrf96-tm33');
+  const [x, setX] = useState('');
+  const [y, setY] = useState('');
+  const [result, setResult] = useState<{ x: number; y: number; system: CoordinateSystem } | null>(null);
+  const [busy, setBusy] = useState<'single' | 'batch' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const from = findCoordinateSystem(fromId) ?? COORDINATE_SYSTEMS[0];
+  const target = findCoordinateSystem(toId) ?? COORDINATE_SYSTEMS[0];
+  const [fromX, fromY] = axisLabels(from, m);
+  const [targetX, targetY] = axisLabels(target, m);
+  // Coğrafi sistemlerde alışılmış sıra enlem, boylam; projeksiyonlu sistemlerde sağa, yukarı
+  const xField = { label: fromX, value: x, onChange: setX };
+  const yField = { label: fromY, value: y, onChange: setY };
+  const inputFields = from.kind === 'geographic' ? [yField, xField] : [xField, yField];
+  const involvesEd50 = from.datum === 'ED50' || target.datum === 'ED50';
+
+  const reset = () => {
+    setResult(null);
+    setError(null);
+    setNotice(null);
+  };
+
+  const swap = () => {
+    setFromId(target.id);
+    setToId(from.id);
+    // Son sonuç yeni kaynak sistemdeki nokta olarak kullanılır
+    if (result) {
+      setX(String(result.x));
+      setY(String(result.y));
+    }
+    reset();
+  };
+
+  const convertPoint = async (e: React.FormEvent) => {
+    e.preventDefault();
+    reset();
+    const px = parseCoordinate(x);
+    const py = parseCoordinate(y);
+    if (px === null || py === null) {
+      setError(m.errors.invalidNumber);
+      return;
+    }
+    setBusy('single');
+    try {
+      const res = await fetch('/api/transform', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ from: from.id, to: target.id, points: [{ x: px, y: py }], locale }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || m.failed);
+      const point = data.points?.[0];
+      if (!point || point.error) throw new Error(point?.error || m.failed);
+      setResult({ x: point.x, y: point.y, system: target });
+    } catch (err: any) {
+      setError(err.message || m.failed);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const convertFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    reset();
+    setBusy('batch');
+    try {
+      const query = new URLSearchParams({ from: from.id, to: target.id, locale });
+      const res = await fetch(`/api/transform?${query}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'text/csv; charset=utf-8' },
+        body: await file.text(),
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || m.failed);
+      }
+      const rows = Number(res.headers.get('X-Transform-Rows') ?? 0);
+      const errors = Number(res.headers.get('X-Transform-Errors') ?? 0);
+
+      // Yanıt bellekte indirilir; dosya adı kaynak dosyadan ve hedef sistemden türetilir
+      const url = URL.createObjectURL(await res.blob());
+      const anchor = document.createElement('a');
+      anchor.href = url;
+      anchor.download = `${file.name.replace(/\.[^.]+$/, '')}-${target.id}.csv`;
+      anchor.click();
+      URL.revokeObjectURL(url);
+
+      setNotice(
+        errors > 0
+          ? format(m.batchErrors, { rows: formatNumber(rows, locale, 0), errors: formatNumber(errors, locale, 0) })
+          : format(m.batchDone, { rows: formatNumber(rows, locale, 0) })
+      );
+    } catch (err: any) {
+      setError(err.message || m.failed);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const systemSelect = (value: string, onChange: (id: string) => void, label: string) => (
+    <label className="block flex-1">
+      <span className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{label}</span>
+      <select
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          reset();
+        }}
+        className={`${inputClass} mt-2`}
+      >
+        {GROUPS.map((group) => (
+          <optgroup key={group} label={m.groups[group]}>
+            {COORDINATE_SYSTEMS.filter((system) => system.kind === group).map((system) => (
+              <option key={system.id} value={system.id}>
+                {systemLabel(system, m)} · EPSG:{system.epsg}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <main className="relative bg-stone-900 text-white h-screen w-screen overflow-y-auto">
+      <div className="max-w-5xl mx-auto px-6 py-10 md:py-16">
+        <div className="flex items-center justify-between">
+          <Link to={to('/')} className="inline-flex items-center gap-2 text-xs uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors">
+            <ArrowLeft size={14} /> {messages.nav.home}
+          </Link>
+          <LanguageSwitcher />
+        </div>
+
+        <h1 className="mt-6 text-4xl md:text-6xl font-oswald font-bold tracking-tight">{m.title}</h1>
+        <p className="mt-3 text-stone-400 max-w-2xl">{m.lead}</p>
+
+        <div className="mt-10 flex flex-col md:flex-row md:items-end gap-4">
+          {systemSelect(fromId, setFromId, m.from)}
+          <button
+            type="button"
+            onClick={swap}
+            title={m.swap}
+            aria-label={m.swap}
+            className="self-center md:self-auto p-3 rounded-xl bg-stone-800 text-stone-400 hover:text-emerald-400 transition-colors"
+          >
+            <ArrowLeftRight size={18} />
+          </button>
+          {systemSelect(toId, setToId, m.to)}
+        </div>
+
+        {error && <div className="mt-6 p-3 bg-red-900/40 text-red-300 rounded-lg text-sm">{error}</div>}
+        {notice && <div className="mt-6 p-3 bg-emerald-900/30 text-emerald-300 rounded-lg text-sm">{notice}</div>}
+
+        <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <form onSubmit={convertPoint} className="rounded-2xl bg-black/40 border border-stone-800 p-6 space-y-4">
+            <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.single}</p>
+            <div className="grid grid-cols-2 gap-3">
+              {inputFields.map((field) => (
+                <label key={field.label} className="block">
+                  <span className="text-xs text-stone-400">{field.label}</span>
+                  <input
+                    value={field.value}
+                    onChange={(e) => field.onChange(e.target.value)}
+                    inputMode="decimal"
+                    className={`${inputClass} mt-1 font-mono`}
+                  />
+                </label>
+              ))}
+            </div>
+            <button
+              type="submit"
+              disabled={busy !== null || !x || !y}
+              className="w-full flex items-center justify-center gap-3 bg-white text-stone-900 font-bold py-4 rounded-xl hover:bg-emerald-500 hover:text-white transition-colors disabled:opacity-40"
+            >
+              <Crosshair size={18} /> {busy === 'single' ? m.converting : m.convert}
+            </button>
+
+            {result && (
+              <div className="pt-2 animate-[fadeIn_0.3s_ease-out]">
+                <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">
+                  {m.result} · {systemLabel(result.system, m)}
+                </p>
+                <dl className="mt-3 grid grid-cols-2 gap-3">
+                  {[
+                    { label: targetX, value: result.x },
+                    { label: targetY, value: result.y },
+                  ].map((axis) => (
+                    <div key={axis.label}>
+                      <dt className="text-xs text-stone-500">{axis.label}</dt>
+                      <dd className="text-xl font-mono text-emerald-400 select-all">{axis.value}</dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            )}
+          </form>
+
+          <div className="rounded-2xl bg-black/40 border border-stone-800 p-6 space-y-4">
+            <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.batch}</p>
+            <p className="text-sm text-stone-400">{format(m.batchHint, { x: fromX, y: fromY, max: formatNumber(POINT_CSV_MAX_ROWS, locale, 0) })}</p>
+            <label
+              className={`flex flex-col items-center justify-center gap-3 h-40 rounded-xl border-2 border-dashed border-stone-700 hover:border-emerald-500 cursor-pointer text-stone-400 transition-colors ${
+                busy ? 'opacity-40 pointer-events-none' : ''
+              }`}
+            >
+              {busy === 'batch' ? <Download size={28} className="animate-pulse" /> : <Upload size={28} />}
+              <span className="text-sm font-bold">{busy === 'batch' ? m.converting : m.download}</span>
+              <span className="text-xs">{m.chooseFile}</span>
+              <input type="file" accept={CSV_ACCEPT} onChange={convertFile} className="hidden" />
+            </label>
+          </div>
+        </div>
+
+        {involvesEd50 && <p className="mt-8 text-xs text-stone-500 max-w-3xl">{m.accuracy}</p>}
+      </div>
+    </main>
+  );
+};
@@ -0,0 +1,247 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Calculator, PenTool, Upload } from 'lucide-react';
+import { useServices } from '../components/Services';
+import { useI18n } from '../components/LocaleProvider';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
+import { ContactModal } from '../components/ContactModal';
+import { BoundaryDrawer } from '../components/BoundaryDrawer';
+import { isServiceId, SERVICE_IDS, type ServiceId } from '../shared/services';
+import { SERVICE_CONTACT_SUBJECTS, type ContactPayload } from '../shared/contact';
+import type { EstimateResponse } from '../shared/estimate';
+import type { AreaGeometry, Position } from '../shared/geo/types';
+import { parseBoundaryFile, type BoundarySummary } from '../shared/geo/boundary';
+import { describeCrs } from '../shared/geo/crs';
+import { format, formatNumber, LOCALE_TAGS, type Locale } from '../shared/i18n';
+
+type Mode = 'draw' | 'upload';
+
+const BOUNDARY_ACCEPT = '.geojson,.json,.kml,.kmz,.zip';
+
+const formatTry = (value: number, locale: Locale) =>
+  value.toLocaleString(LOCALE_TAGS[locale], { style: 'currency', currency: 'TRY', maximumFractionDigits: 0 });
+
+export const EstimatorPage: React.FC = () => {
+  const { locale, messages, to } = useI18n();
+  const m = messages.estimator;
+  const servicesData = useServices();
+  const [searchParams] = useSearchParams();
+  const initialService = Number(searchParams.get('hizmet'));
+  const [serviceId, setServiceId] = useState<ServiceId>(
+    isServiceId(initialService) ? initialService : SERVICE_IDS.DRONE
+  );
+  const [mode, setMode] = useState<Mode>('draw');
+  const [vertices, setVertices] = useState<Position[]>([]);
+  const [uploaded, setUploaded] = useState<{ name: string; geometry: AreaGeometry; summary: BoundarySummary } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<EstimateResponse | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+
+  const geometry: AreaGeometry | null = useMemo(() => {
+    if (mode === 'upload') return uploaded?.geometry ?? null;
+    if (vertices.length < 3) return null;
+    return { type: 'Polygon', coordinates: [[...vertices, vertices[0]]] };
+  }, [mode, vertices, uploaded]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    setResult(null);
+
+    const parsed = await parseBoundaryFile(file.name, await file.arrayBuffer(), locale);
+    if (parsed.ok === false) {
+      setUploaded(null);
+      setError(parsed.error);
+      return;
+    }
+    setUploaded({ name: file.name, geometry: parsed.geometry, summary: parsed.summary });
+  };
+
+  const handleEstimate = async () => {
+    if (!geometry) return;
+    setLoading(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      const res = await fetch('/api/estimate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ serviceId, geometry, locale }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.error || m.failed);
+      }
+      setResult(data as EstimateResponse);
+    } catch (err: any) {
+      setError(err.message || messages.contactForm.genericError);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const service = servicesData.find((s) => s.id === serviceId);
+  const contactPrefill = useMemo<Partial<ContactPayload> | undefined>(() => {
+    if (!result) return undefined;
+    const { estimate } = result;
+    return {
+      subject: SERVICE_CONTACT_SUBJECTS[serviceId],
+      message: format(m.quoteMessage, {
+        service: `${service?.title} ${service?.subtitle}`,
+        area: formatNumber(estimate.areaHectares, locale),
+        perimeter: formatNumber(estimate.perimeterKm, locale),
+        priceMin: formatTry(estimate.price.min, locale),
+        priceMax: formatTry(estimate.price.max, locale),
+        durationMin: estimate.durationDays.min,
+        durationMax: estimate.durationDays.max,
+      }),
+    };
+  }, [result, serviceId, service, locale, m]);
+
+  return (
+    <main className="relative bg-stone-900 text-white h-screen w-screen overflow-y-auto">
+      <div className="max-w-6xl mx-auto px-6 py-10 md:py-16">
+        <div className="flex items-center justify-between">
+          <Link to={to('/')} className="inline-flex items-center gap-2 text-xs uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors">
+            <ArrowLeft size={14} /> {messages.nav.home}
+          </Link>
+          <LanguageSwitcher />
+        </div>
+
+        <h1 className="mt-6 text-4xl md:text-6xl font-oswald font-bold tracking-tight">{m.title}</h1>
+        <p className="mt-3 text-stone-400 max-w-2xl">
+          {m.lead}
+        </p>
+
+        <div className="mt-10 grid grid-cols-1 lg:grid-cols-[1.4fr_1fr] gap-8">
+          <div className="space-y-4">
+            <select
+              value={serviceId}
+              onChange={(e) => {
+                setServiceId(Number(e.target.value) as ServiceId);
+                setResult(null);
+              }}
+              className="w-full bg-stone-800 border border-stone-700 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500"
+            >
+              {servicesData.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.title} - {s.subtitle}
+                </option>
+              ))}
+            </select>
+
+            <div className="flex gap-2">
+              {([
+                { id: 'draw', label: m.drawTab, icon: PenTool },
+                { id: 'upload', label: m.uploadTab, icon: Upload },
+              ] as const).map((tab) => (
+                <button
+                  key={tab.id}
+                  type="button"
+                  onClick={() => {
+                    setMode(tab.id);
+                    setResult(null);
+                  }}
+                  className={`flex-1 flex items-center justify-center gap-2 py-3 rounded-xl text-sm font-bold transition-colors ${
+                    mode === tab.id ? 'bg-emerald-600 text-white' : 'bg-stone-800 text-stone-400 hover:text-white'
+                  }`}
+                >
+                  <tab.icon size={16} /> {tab.label}
+                </button>
+              ))}
+            </div>
+
+            {mode === 'draw' ? (
+              <BoundaryDrawer
+                vertices={vertices}
+                onChange={(next) => {
+                  setVertices(next);
+                  setResult(null);
+                }}
+              />
+            ) : (
+              <>
+                <label className="flex flex-col items-center justify-center gap-3 h-64 rounded-xl border-2 border-dashed border-stone-700 hover:border-emerald-500 cursor-pointer text-stone-400 transition-colors">
+                  <Upload size={28} />
+                  <span className="text-sm">{uploaded ? uploaded.name : m.uploadPrompt}</span>
+                  <input type="file" accept={BOUNDARY_ACCEPT} onChange={handleFile} className="hidden" />
+                </label>
+                {uploaded && (
+                  <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-xs text-stone-400 bg-stone-800/60 rounded-xl p-4">
+                    <dt className="text-stone-500">{m.crs}</dt>
+                    <dd>{describeCrs(uploaded.summary.crs, locale)}</dd>
+                    <dt className="text-stone-500">{m.polygonsVertices}</dt>
+                    <dd>
+                      {uploaded.summary.polygonCount} / {formatNumber(uploaded.summary.vertexCount, locale, 0)}
+                    </dd>
+                    <dt className="text-stone-500">{m.bbox}</dt>
+                    <dd className="font-mono">
+                      {uploaded.summary.bbox.map((v) => v.toFixed(5)).join(', ')}
+                    </dd>
+                  </dl>
+                )}
+              </>
+            )}
+          </div>
+
+          <div className="space-y-4">
+            <button
+              type="button"
+              onClick={handleEstimate}
+              disabled={!geometry || loading}
+              className="w-full flex items-center justify-center gap-3 bg-white text-stone-900 font-bold py-4 rounded-xl hover:bg-emerald-500 hover:text-white transition-colors disabled:opacity-40"
+            >
+              <Calculator size={18} /> {loading ? m.calculating : m.calculate}
+            </button>
+
+            {error && <div className="p-3 bg-red-900/40 text-red-300 rounded-lg text-sm">{error}</div>}
+
+            {result && (
+              <div className="rounded-2xl bg-black/40 border border-stone-800 p-6 space-y-5 animate-[fadeIn_0.3s_ease-out]">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.area}</p>
+                    <p className="text-2xl font-oswald">{formatNumber(result.estimate.areaHectares, locale)} ha</p>
+                    <p className="text-xs text-stone-500">{formatNumber(result.areaSquareMeters, locale, 0)} m²</p>
+                  </div>
+                  <div>
+                    <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.perimeter}</p>
+                    <p className="text-2xl font-oswald">{formatNumber(result.estimate.perimeterKm, locale)} km</p>
+                  </div>
+                </div>
+                <div>
+                  <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.price}</p>
+                  <p className="text-3xl font-oswald text-emerald-400">
+                    {formatTry(result.estimate.price.min, locale)} – {formatTry(result.estimate.price.max, locale)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.duration}</p>
+                  <p className="text-xl font-oswald">
+                    {format(m.durationValue, { min: result.estimate.durationDays.min, max: result.estimate.durationDays.max })}
+                  </p>
+                </div>
+                <p className="text-xs text-stone-500">
+                  {m.disclaimer}
+                </p>
+                <button
+                  type="button"
+                  onClick={() => setIsModalOpen(true)}
+                  className="w-full bg-stone-100 text-stone-900 font-bold py-3 rounded-xl hover:bg-emerald-500 hover:text-white transition-colors"
+                >
+                  {m.requestQuote}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <ContactModal isOpen={isModalOpen} onClose={() => setIsModalOpen(false)} prefill={contactPrefill} />
+    </main>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Loader2, Mail, MailCheck } from 'lucide-react';
+import { useI18n } from '../components/LocaleProvider';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
+import { CONTACT_LIMITS, formatRetryAfter, isValidEmail } from '../shared/contact';
+import { LOGIN_LINK_TTL_MINUTES, safeNextPath } from '../shared/auth';
+import { format } from '../shared/i18n';
+
+type Step = 'form' | 'sent' | 'verifying';
+
+/**
+ * /giris: e-posta ile giriş bağlantısı ister; e-postadaki bağlantı ?token= ile bu sayfaya döner
+ * ve belirteç POST ile doğrulanır. Başarılı girişte ?next= (yoksa /portal) adresine geçilir.
+ */
+export const LoginPage: React.FC = () => {
+  const { messages, locale, to } = useI18n();
+  const m = messages.auth;
+  const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const next = safeNextPath(searchParams.get('next'));
+
+  const [step, setStep] = useState<Step>(token ? 'verifying' : 'form');
+  const [email, setEmail] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Belirteç tek kullanımlık; StrictMode'daki ikinci efekt çalışması ikinci bir doğrulama isteği göndermemeli
+  const verifiedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!token || verifiedToken.current === token) return;
+    verifiedToken.current = token;
+    setStep('verifying');
+    fetch('/api/auth/verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'same-origin',
+      body: JSON.stringify({ token, locale }),
+    })
+      .then((res) => {
+        if (res.ok) {
+          navigate(next ?? to('/portal'), { replace: true });
+          return;
+        }
+        setError(res.status === 401 ? m.linkInvalid : res.status === 503 ? m.unavailable : m.failed);
+        setStep('form');
+        // Kullanılamayan belirteç adres çubuğunda ve geçmişte kalmasın
+        setSearchParams(next ? { next } : {}, { replace: true });
+      })
+      .catch(() => {
+        setError(m.failed);
+        setStep('form');
+      });
+  }, [token, next, navigate, to, m, locale, setSearchParams]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalized = email.trim().toLowerCase();
+    if (!isValidEmail(normalized)) {
+      setError(messages.validation.emailInvalid);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/auth/request-link', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email: normalized, locale, next }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 429) {
+        const retryAfter = Number(res.headers.get('Retry-After') || data.retryAfter) || 60;
+        throw new Error(format(m.rateLimited, { wait: formatRetryAfter(retryAfter, locale) }));
+      }
+      if (!res.ok) {
+        throw new Error(data.error || m.failed);
+      }
+      setStep('sent');
+    } catch (err: any) {
+      setError(err?.message || m.failed);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <main className="relative bg-stone-900 text-white h-screen w-screen overflow-y-auto">
+      <div className="max-w-xl mx-auto px-6 py-10 md:py-16">
+        <div className="flex items-center justify-between">
+          <Link to={to('/')} className="inline-flex items-center gap-2 text-xs uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors">
+            <ArrowLeft size={14} /> {messages.nav.home}
+          </Link>
+          <LanguageSwitcher />
+        </div>
+
+        <h1 className="mt-6 text-4xl md:text-6xl font-oswald font-bold tracking-tight">{m.title}</h1>
+
+        {step === 'verifying' && (
+          <p className="mt-8 flex items-center gap-2 text-stone-400">
+            <Loader2 size={16} className="animate-spin" /> {m.verifying}
+          </p>
+        )}
+
+        {step === 'sent' && (
+          <div className="mt-8 rounded-2xl bg-black/40 border border-stone-800 p-6 space-y-4 animate-[fadeIn_0.3s_ease-out]">
+            <MailCheck size={28} className="text-emerald-400" />
+            <p className="text-stone-300">{format(m.sent, { email: email.trim().toLowerCase(), minutes: LOGIN_LINK_TTL_MINUTES })}</p>
+            <button
+              type="button"
+              onClick={() => setStep('form')}
+              className="text-xs uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors"
+            >
+              {m.otherEmail}
+            </button>
+          </div>
+        )}
+
+        {step === 'form' && (
+          <form onSubmit={handleSubmit} noValidate className="mt-8 space-y-4">
+            <p className="text-stone-400">{m.lead}</p>
+            <input
+              type="email"
+              autoComplete="email"
+              placeholder={m.email}
+              aria-label={m.email}
+              maxLength={CONTACT_LIMITS.email}
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="w-full bg-stone-800 border border-stone-700 rounded-xl px-4 py-3 focus:outline-none focus:border-emerald-500"
+            />
+            {error && <div className="p-3 bg-red-900/40 text-red-300 rounded-lg text-sm">{error}</div>}
+            <button
+              type="submit"
+              disabled={loading}
+              className="w-full flex items-center justify-center gap-3 bg-white text-stone-900 font-bold py-4 rounded-xl hover:bg-emerald-500 hover:text-white transition-colors disabled:opacity-40"
+            >
+              <Mail size={18} /> {loading ? m.sending : m.submit}
+            </button>
+            <p className="text-xs text-stone-500">{m.noAccountHint}</p>
+          </form>
+        )}
+      </div>
+    </main>
+  );
+};
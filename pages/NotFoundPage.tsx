@@ -0,0 +1,46 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, ArrowRight } from 'lucide-react';
+import { servicePath, useServices } from '../components/Services';
+import { useI18n } from '../components/LocaleProvider';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
+
+/** Bilinmeyen adresler ve hizmet slug'ları için; ana sayfaya sessizce yönlendirmek yerine gösterilir */
+export const NotFoundPage: React.FC = () => {
+  const { messages, to } = useI18n();
+  const services = useServices();
+  return (
+    <main className="relative bg-stone-900 text-white h-screen w-screen overflow-y-auto">
+      <div className="max-w-3xl mx-auto px-6 py-10 md:py-16">
+        <div className="flex items-center justify-between">
+          <Link to={to('/')} className="inline-flex items-center gap-2 text-xs uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors">
+            <ArrowLeft size={14} /> {messages.nav.home}
+          </Link>
+          <LanguageSwitcher />
+        </div>
+
+        <p className="mt-10 text-emerald-400 font-oswald text-2xl">404</p>
+        <h1 className="mt-2 text-4xl md:text-6xl font-oswald font-bold tracking-tight">{messages.notFound.title}</h1>
+        <p className="mt-3 text-stone-400">
+          {messages.notFound.lead}
+        </p>
+
+        <ul className="mt-8 divide-y divide-stone-800 border-y border-stone-800">
+          {services.map((item) => (
+            <li key={item.id}>
+              <Link
+                to={to(servicePath(item.slug))}
+                className="group flex items-center gap-4 py-4 text-stone-300 hover:text-white transition-colors"
+              >
+                <item.icon size={18} className="text-emerald-500" />
+                <span className="font-oswald font-bold text-xl">{item.title}</span>
+                <span className="text-sm text-stone-500">{item.subtitle}</span>
+                <ArrowRight size={14} className="ml-auto opacity-0 group-hover:opacity-100 transition-opacity" />
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </main>
+  );
+};
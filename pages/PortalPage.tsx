@@ -0,0 +1,250 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, ClipboardList, Download, FileArchive, LogOut, Monitor, X } from 'lucide-react';
+import { useI18n } from '../components/LocaleProvider';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
+import { useSession } from '../components/RequireSession';
+import { DeliverableUploader } from '../components/DeliverableUploader';
+import { SurveyAvailabilityEditor } from '../components/SurveyAvailabilityEditor';
+import type { PortalRequestSummary, PortalSessionInfo } from '../shared/auth';
+import type { PortalProject } from '../shared/deliverables';
+import { formatFileSize } from '../shared/attachments';
+import { CONTACT_SUBJECTS, type ContactSubject } from '../shared/contact';
+import { format, LOCALE_TAGS, type Locale } from '../shared/i18n';
+
+const formatDate = (iso: string, locale: Locale) =>
+  new Date(iso).toLocaleString(LOCALE_TAGS[locale], { dateStyle: 'medium', timeStyle: 'short' });
+
+/** /portal: yalnızca <RequireSession> içinde açılır; teslimatlar, talepler ve oturum yönetimi */
+export const PortalPage: React.FC = () => {
+  const { messages, locale, to } = useI18n();
+  const m = messages.portal;
+  const { account, signOut } = useSession();
+
+  const [projects, setProjects] = useState<PortalProject[] | null>(null);
+  const [requests, setRequests] = useState<PortalRequestSummary[] | null>(null);
+  const [sessions, setSessions] = useState<PortalSessionInfo[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [preparing, setPreparing] = useState<string | null>(null);
+
+  const loadProjects = useCallback(async () => {
+    const res = await fetch('/api/portal/projects', { credentials: 'same-origin' });
+    if (!res.ok) throw new Error(m.loadFailed);
+    setProjects((await res.json()).projects);
+  }, [m]);
+
+  const loadSessions = useCallback(async () => {
+    const res = await fetch(`/api/auth/sessions?locale=${locale}`, { credentials: 'same-origin' });
+    if (!res.ok) throw new Error(m.loadFailed);
+    setSessions((await res.json()).sessions);
+  }, [m, locale]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      fetch('/api/portal/requests', { credentials: 'same-origin' }).then(async (res) => {
+        if (!res.ok) throw new Error(m.loadFailed);
+        const data = await res.json();
+        if (!cancelled) setRequests(data.requests);
+      }),
+      loadSessions(),
+      loadProjects(),
+    ]).catch(() => {
+      if (!cancelled) setError(m.loadFailed);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [loadSessions, loadProjects, m]);
+
+  // İmzalı bağlantı kısa ömürlü olduğundan tıklama anında istenir; Content-Disposition sayfayı değiştirmeden indirir
+  const download = async (deliverableId: string) => {
+    setError(null);
+    setPreparing(deliverableId);
+    try {
+      const res = await fetch(`/api/portal/deliverables/${encodeURIComponent(deliverableId)}/link?locale=${locale}`, {
+        method: 'POST',
+        credentials: 'same-origin',
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.url) throw new Error();
+      window.location.assign(data.url);
+    } catch {
+      setError(m.downloadFailed);
+    } finally {
+      setPreparing(null);
+    }
+  };
+
+  const revoke = async (body: { sessionId: string } | { others: true }) => {
+    setError(null);
+    try {
+      const res = await fetch(`/api/auth/sessions?locale=${locale}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'same-origin',
+        body: JSON.stringify(body),
+      });
+      if (!res.ok) throw new Error();
+      await loadSessions();
+    } catch {
+      setError(m.loadFailed);
+    }
+  };
+
+  const subjectLabel = (subject: string) =>
+    (CONTACT_SUBJECTS as readonly string[]).includes(subject) ? messages.contactSubjects[subject as ContactSubject] : m.noSubject;
+
+  return (
+    <main className="relative bg-stone-900 text-white h-screen w-screen overflow-y-auto">
+      <div className="max-w-4xl mx-auto px-6 py-10 md:py-16">
+        <div className="flex items-center justify-between gap-4">
+          <Link to={to('/')} className="inline-flex items-center gap-2 text-xs uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors">
+            <ArrowLeft size={14} /> {messages.nav.home}
+          </Link>
+          <div className="flex items-center gap-4">
+            {account.role === 'staff' && (
+              <Link
+                to={to('/admin')}
+                className="inline-flex items-center gap-2 text-xs uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors"
+              >
+                <ClipboardList size={14} /> {m.admin}
+              </Link>
+            )}
+            <LanguageSwitcher />
+            <button
+              type="button"
+              onClick={signOut}
+              className="inline-flex items-center gap-2 text-xs uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors"
+            >
+              <LogOut size={14} /> {m.logout}
+            </button>
+          </div>
+        </div>
+
+        <h1 className="mt-6 text-4xl md:text-6xl font-oswald font-bold tracking-tight">{m.title}</h1>
+        {account.name && <p className="mt-3 text-stone-300">{format(m.greeting, { name: account.name })}</p>}
+        <p className="mt-1 text-sm text-stone-500">{format(m.signedInAs, { email: account.email })}</p>
+
+        {error && <div className="mt-6 p-3 bg-red-900/40 text-red-300 rounded-lg text-sm">{error}</div>}
+
+        {account.role === 'staff' && (
+          <section className="mt-12">
+            <DeliverableUploader onUploaded={() => loadProjects().catch(() => undefined)} />
+          </section>
+        )}
+
+        {account.role === 'staff' && (
+          <section className="mt-12">
+            <SurveyAvailabilityEditor />
+          </section>
+        )}
+
+        <section className="mt-12">
+          <h2 className="text-[10px] uppercase tracking-widest text-stone-500 font-bold mb-4">{m.projects}</h2>
+          {projects === null ? (
+            <p className="text-sm text-stone-500">{m.loading}</p>
+          ) : projects.length === 0 ? (
+            <p className="text-sm text-stone-500">{m.noProjects}</p>
+          ) : (
+            <div className="space-y-6">
+              {projects.map((project) => (
+                <div key={project.id} className="rounded-2xl bg-black/40 border border-stone-800 p-6">
+                  <h3 className="font-oswald font-bold text-xl">{project.name}</h3>
+                  {project.deliverables.length === 0 ? (
+                    <p className="mt-2 text-sm text-stone-500">{m.noDeliverables}</p>
+                  ) : (
+                    <ul className="mt-4 divide-y divide-stone-800">
+                      {project.deliverables.map((file) => (
+                        <li key={file.id} className="flex items-center gap-4 py-3">
+                          <FileArchive size={18} className="shrink-0 text-emerald-500" />
+                          <div className="min-w-0">
+                            <p className="truncate text-sm text-stone-300">{file.fileName}</p>
+                            <p className="text-xs text-stone-500">
+                              {formatFileSize(file.size)} · {formatDate(file.uploadedAt, locale)}
+                            </p>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => download(file.id)}
+                            disabled={preparing !== null}
+                            className="ml-auto shrink-0 inline-flex items-center gap-2 text-xs uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors disabled:opacity-40"
+                          >
+                            <Download size={14} /> {preparing === file.id ? m.preparingDownload : m.download}
+                          </button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section className="mt-12">
+          <h2 className="text-[10px] uppercase tracking-widest text-stone-500 font-bold mb-4">{m.requests}</h2>
+          {requests === null ? (
+            <p className="text-sm text-stone-500">{m.loading}</p>
+          ) : requests.length === 0 ? (
+            <p className="text-sm text-stone-500">{m.noRequests}</p>
+          ) : (
+            <ul className="divide-y divide-stone-800 border-y border-stone-800">
+              {requests.map((request) => (
+                <li key={request.id} className="flex flex-wrap items-baseline gap-x-4 gap-y-1 py-4">
+                  <span className="font-mono text-emerald-400">{request.id}</span>
+                  <span className="text-stone-300">{subjectLabel(request.subject)}</span>
+                  <span className="ml-auto text-xs text-stone-500">{formatDate(request.createdAt, locale)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section className="mt-12">
+          <h2 className="text-[10px] uppercase tracking-widest text-stone-500 font-bold mb-2">{m.sessions}</h2>
+          <p className="text-sm text-stone-500 mb-4">{m.sessionsLead}</p>
+          {sessions === null ? (
+            <p className="text-sm text-stone-500">{m.loading}</p>
+          ) : (
+            <>
+              <ul className="divide-y divide-stone-800 border-y border-stone-800">
+                {sessions.map((session) => (
+                  <li key={session.id} className="flex items-center gap-4 py-4">
+                    <Monitor size={18} className="shrink-0 text-stone-500" />
+                    <div className="min-w-0">
+                      <p className="truncate text-sm text-stone-300" title={session.userAgent}>
+                        {session.userAgent || m.unknownDevice}
+                      </p>
+                      <p className="text-xs text-stone-500">{format(m.lastSeen, { date: formatDate(session.lastSeenAt, locale) })}</p>
+                    </div>
+                    {session.current ? (
+                      <span className="ml-auto shrink-0 text-[10px] uppercase tracking-widest text-emerald-400 font-bold">{m.thisDevice}</span>
+                    ) : (
+                      <button
+                        type="button"
+                        onClick={() => revoke({ sessionId: session.id })}
+                        className="ml-auto shrink-0 inline-flex items-center gap-1 text-xs text-stone-400 hover:text-red-300 transition-colors"
+                      >
+                        <X size={14} /> {m.revoke}
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+              {sessions.some((session) => !session.current) && (
+                <button
+                  type="button"
+                  onClick={() => revoke({ others: true })}
+                  className="mt-4 text-xs uppercase tracking-widest text-stone-400 hover:text-red-300 transition-colors"
+                >
+                  {m.revokeOthers}
+                </button>
+              )}
+            </>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+};
@@ -0,0 +1,402 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, FileText, Plus, Send, Trash2 } from 'lucide-react';
+import { useI18n } from '../components/LocaleProvider';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
+import { format, getMessages, LOCALES, readLocale, type Locale } from '../shared/i18n';
+import { ALL_SERVICE_IDS, type ServiceId } from '../shared/services';
+import type { AdminLeadDetail } from '../shared/leads';
+import {
+  DEFAULT_VAT_RATE,
+  QUOTE_LIMITS,
+  QUOTE_UNITS,
+  QUOTE_VALIDITY_DAYS,
+  VAT_RATES,
+  calculateQuoteTotals,
+  formatKurus,
+  formatQuoteDate,
+  parseLiraToKurus,
+  quoteDayKey,
+  type QuoteCustomer,
+  type QuoteLineItem,
+  type QuoteRecord,
+  type QuoteUnit,
+  type VatRate,
+} from '../shared/quotes';
+
+/** Formdaki kalem: miktar ve fiyat yazıldığı gibi tutulur, gönderirken çevrilir */
+type DraftItem = { serviceId: ServiceId; description: string; quantity: string; unit: QuoteUnit; price: string };
+
+const emptyItem = (): DraftItem => ({ serviceId: ALL_SERVICE_IDS[0], description: '', quantity: '1', unit: QUOTE_UNITS[0], price: '' });
+
+const inputClass =
+  'w-full bg-stone-800 border border-stone-700 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-emerald-500';
+
+const parseQuantity = (value: string) => {
+  const normalized = value.trim().replace(',', '.');
+  return /^\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : null;
+};
+
+const toLineItem = (item: DraftItem): QuoteLineItem | null => {
+  const quantity = parseQuantity(item.quantity);
+  const unitPriceKurus = parseLiraToKurus(item.price);
+  if (quantity === null || quantity <= 0 || unitPriceKurus === null) return null;
+  return { serviceId: item.serviceId, description: item.description.trim(), quantity, unit: item.unit, unitPriceKurus };
+};
+
+async function fetchJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetch(url, { credentials: 'same-origin', ...init });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw Object.assign(new Error(data.error || `HTTP ${res.status}`), { status: res.status });
+  return data;
+}
+
+/**
+ * /admin/teklif?talep=<talep no> - fiyat teklifi hazırlama (yalnızca personel)
+ * Toplamlar sunucuyla aynı fonksiyonla (shared/quotes) canlı hesaplanır; kayıtta sunucu yeniden hesaplar.
+ */
+export const QuotePage: React.FC = () => {
+  const { locale, messages, to } = useI18n();
+  const m = messages.quotes;
+  const [searchParams] = useSearchParams();
+  const leadId = searchParams.get('talep');
+
+  const [customer, setCustomer] = useState<QuoteCustomer>({ name: '', email: '', company: '', address: '' });
+  const [documentLocale, setDocumentLocale] = useState<Locale>(locale);
+  const [items, setItems] = useState<DraftItem[]>([emptyItem()]);
+  const [vatRate, setVatRate] = useState<VatRate>(DEFAULT_VAT_RATE);
+  const [validUntil, setValidUntil] = useState(() => quoteDayKey(new Date(), QUOTE_VALIDITY_DAYS));
+  const [terms, setTerms] = useState(() => getMessages(locale).quotes.defaultTerms);
+  const [quotes, setQuotes] = useState<QuoteRecord[] | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadQuotes = async () => {
+    if (!leadId) return setQuotes([]);
+    try {
+      const data = await fetchJson<{ quotes: QuoteRecord[] }>(`/api/admin/quotes?lead=${encodeURIComponent(leadId)}`);
+      setQuotes(data.quotes);
+    } catch {
+      setError(m.loadFailed);
+    }
+  };
+
+  // Müşteri bilgileri ve belge dili talepten gelir; personel değiştirebilir
+  useEffect(() => {
+    loadQuotes();
+    if (!leadId) return;
+    fetchJson<{ lead: AdminLeadDetail }>(`/api/admin/leads/${encodeURIComponent(leadId)}`)
+      .then(({ lead }) => {
+        setCustomer((current) => ({ ...current, name: lead.name, email: lead.email }));
+        changeDocumentLocale(readLocale(lead.locale));
+      })
+      .catch(() => setError(m.loadFailed));
+  }, [leadId]);
+
+  /** Koşullar elle değiştirilmediyse belge diliyle birlikte varsayılan metin de değişir */
+  const changeDocumentLocale = (next: Locale) => {
+    const previousDefault = getMessages(documentLocale).quotes.defaultTerms;
+    setTerms((current) => (current === previousDefault ? getMessages(next).quotes.defaultTerms : current));
+    setDocumentLocale(next);
+  };
+
+  const parsedItems = items.map(toLineItem);
+  // Hatalı kalemler önizlemede sıfır sayılır; kayıtta gönderim engellenir
+  const totals = calculateQuoteTotals(parsedItems.map((item) => item ?? { quantity: 0, unitPriceKurus: 0 }), vatRate);
+
+  const updateItem = (index: number, patch: Partial<DraftItem>) =>
+    setItems((current) => current.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setNotice(null);
+    const invalid = parsedItems.findIndex((item) => item === null);
+    if (invalid !== -1) {
+      setError(format(m.invalidItem, { row: invalid + 1 }));
+      return;
+    }
+    setBusy('save');
+    try {
+      const { quote } = await fetchJson<{ quote: QuoteRecord }>('/api/admin/quotes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ leadId, customer, items: parsedItems, vatRate, validUntil, terms, locale: documentLocale }),
+      });
+      setNotice(format(m.created, { id: quote.id }));
+      setQuotes((current) => [quote, ...(current ?? [])]);
+    } catch (err: any) {
+      setError(err.message || m.saveFailed);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleSend = async (quote: QuoteRecord) => {
+    if (!window.confirm(format(m.sendConfirm, { id: quote.id, email: quote.customer.email }))) return;
+    setBusy(quote.id);
+    setError(null);
+    setNotice(null);
+    try {
+      const data = await fetchJson<{ quote: QuoteRecord }>(`/api/admin/quotes/${encodeURIComponent(quote.id)}/send`, { method: 'POST' });
+      setQuotes((current) => current?.map((item) => (item.id === quote.id ? data.quote : item)) ?? null);
+      setNotice(format(m.sent, { id: quote.id, email: quote.customer.email }));
+    } catch {
+      setError(m.sendFailed);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const label = (text: string) => <span className="block text-[10px] uppercase tracking-widest text-stone-500 font-bold mb-2">{text}</span>;
+
+  return (
+    <main className="relative bg-stone-900 text-white h-screen w-screen overflow-y-auto">
+      <div className="max-w-5xl mx-auto px-6 py-10 md:py-16">
+        <div className="flex items-center justify-between gap-4">
+          <Link
+            to={to(leadId ? `/admin?lead=${encodeURIComponent(leadId)}` : '/admin')}
+            className="inline-flex items-center gap-2 text-xs uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors"
+          >
+            <ArrowLeft size={14} /> {m.backToLeads}
+          </Link>
+          <LanguageSwitcher />
+        </div>
+
+        <h1 className="mt-6 text-4xl md:text-6xl font-oswald font-bold tracking-tight">{m.title}</h1>
+        {leadId && <p className="mt-2 font-mono text-emerald-400">{format(m.forLead, { leadId })}</p>}
+
+        {notice && <div className="mt-8 p-3 bg-emerald-900/30 text-emerald-300 rounded-lg text-sm">{notice}</div>}
+        {error && <div className="mt-8 p-3 bg-red-900/40 text-red-300 rounded-lg text-sm">{error}</div>}
+
+        <form onSubmit={handleSubmit} noValidate className="mt-8 space-y-6">
+          <div className="rounded-2xl bg-black/40 border border-stone-800 p-6 space-y-4">
+            <h2 className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.customer}</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {(['name', 'email', 'company'] as const).map((field) => (
+                <input
+                  key={field}
+                  type={field === 'email' ? 'email' : 'text'}
+                  value={customer[field]}
+                  onChange={(e) => setCustomer({ ...customer, [field]: e.target.value })}
+                  placeholder={m[field === 'name' ? 'customerName' : field === 'email' ? 'customerEmail' : 'customerCompany']}
+                  aria-label={m[field === 'name' ? 'customerName' : field === 'email' ? 'customerEmail' : 'customerCompany']}
+                  maxLength={field === 'email' ? 254 : QUOTE_LIMITS.customerName}
+                  className={inputClass}
+                />
+              ))}
+              <select
+                value={documentLocale}
+                onChange={(e) => changeDocumentLocale(readLocale(e.target.value))}
+                aria-label={m.documentLanguage}
+                className={inputClass}
+              >
+                {LOCALES.map((option) => (
+                  <option key={option} value={option}>
+                    {m.documentLanguage}: {m.languages[option]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <textarea
+              rows={2}
+              value={customer.address}
+              onChange={(e) => setCustomer({ ...customer, address: e.target.value })}
+              placeholder={m.customerAddress}
+              aria-label={m.customerAddress}
+              maxLength={QUOTE_LIMITS.customerAddress}
+              className={`resize-y ${inputClass}`}
+            />
+          </div>
+
+          <div className="rounded-2xl bg-black/40 border border-stone-800 p-6 space-y-4">
+            <h2 className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.items}</h2>
+            {items.map((item, index) => (
+              <div key={index} className="grid grid-cols-2 md:grid-cols-[2fr_1fr_1fr_1.3fr_auto] gap-3 pb-4 border-b border-stone-800">
+                <select
+                  value={item.serviceId}
+                  onChange={(e) => updateItem(index, { serviceId: Number(e.target.value) as ServiceId })}
+                  aria-label={m.service}
+                  className={`col-span-2 md:col-span-1 ${inputClass}`}
+                >
+                  {ALL_SERVICE_IDS.map((id) => (
+                    <option key={id} value={id}>
+                      {m.services[String(id) as keyof typeof m.services]}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  inputMode="decimal"
+                  value={item.quantity}
+                  onChange={(e) => updateItem(index, { quantity: e.target.value })}
+                  placeholder={m.quantity}
+                  aria-label={m.quantity}
+                  className={inputClass}
+                />
+                <select
+                  value={item.unit}
+                  onChange={(e) => updateItem(index, { unit: e.target.value as QuoteUnit })}
+                  aria-label={m.unit}
+                  className={inputClass}
+                >
+                  {QUOTE_UNITS.map((unit) => (
+                    <option key={unit} value={unit}>
+                      {m.units[unit]}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  inputMode="decimal"
+                  value={item.price}
+                  onChange={(e) => updateItem(index, { price: e.target.value })}
+                  placeholder={m.unitPrice}
+                  aria-label={m.unitPrice}
+                  className={inputClass}
+                />
+                <button
+                  type="button"
+                  onClick={() => setItems((current) => current.filter((_, i) => i !== index))}
+                  disabled={items.length === 1}
+                  aria-label={m.removeItem}
+                  title={m.removeItem}
+                  className="p-3 rounded-lg text-stone-500 hover:text-red-400 transition-colors disabled:opacity-30 justify-self-end"
+                >
+                  <Trash2 size={16} />
+                </button>
+                <input
+                  value={item.description}
+                  onChange={(e) => updateItem(index, { description: e.target.value })}
+                  placeholder={m.description}
+                  aria-label={m.description}
+                  maxLength={QUOTE_LIMITS.description}
+                  className={`col-span-2 md:col-span-3 ${inputClass}`}
+                />
+                <p className="col-span-2 md:col-span-2 self-center text-right font-mono text-sm text-stone-300">
+                  {parsedItems[index] ? formatKurus(totals.lineTotals[index], locale) : '—'}
+                </p>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setItems((current) => [...current, emptyItem()])}
+              disabled={items.length >= QUOTE_LIMITS.items}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-stone-800 text-sm font-bold text-stone-300 hover:text-white transition-colors disabled:opacity-40"
+            >
+              <Plus size={16} /> {m.addItem}
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="rounded-2xl bg-black/40 border border-stone-800 p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <label className="block">
+                  {label(m.vatRate)}
+                  <select value={vatRate} onChange={(e) => setVatRate(Number(e.target.value) as VatRate)} className={inputClass}>
+                    {VAT_RATES.map((rate) => (
+                      <option key={rate} value={rate}>
+                        %{rate}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block">
+                  {label(m.validUntil)}
+                  <input type="date" value={validUntil} onChange={(e) => setValidUntil(e.target.value)} className={inputClass} />
+                </label>
+              </div>
+              <label className="block">
+                {label(m.terms)}
+                <textarea
+                  rows={6}
+                  value={terms}
+                  onChange={(e) => setTerms(e.target.value)}
+                  maxLength={QUOTE_LIMITS.terms}
+                  className={`resize-y ${inputClass}`}
+                />
+              </label>
+            </div>
+
+            <div className="rounded-2xl bg-black/40 border border-stone-800 p-6 flex flex-col justify-between gap-6">
+              <dl className="space-y-3 text-sm">
+                <div className="flex justify-between gap-4">
+                  <dt className="text-stone-400">{m.subtotal}</dt>
+                  <dd className="font-mono">{formatKurus(totals.subtotal, locale)}</dd>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <dt className="text-stone-400">{format(m.vat, { rate: vatRate })}</dt>
+                  <dd className="font-mono">{formatKurus(totals.vat, locale)}</dd>
+                </div>
+                <div className="flex justify-between gap-4 pt-3 border-t border-stone-800 text-lg font-bold">
+                  <dt>{m.total}</dt>
+                  <dd className="font-mono text-emerald-400">{formatKurus(totals.total, locale)}</dd>
+                </div>
+              </dl>
+              <button
+                type="submit"
+                disabled={busy !== null}
+                className="w-full bg-white text-stone-900 font-bold py-4 rounded-xl hover:bg-emerald-500 hover:text-white transition-colors disabled:opacity-40"
+              >
+                {busy === 'save' ? m.saving : m.save}
+              </button>
+            </div>
+          </div>
+        </form>
+
+        {leadId && (
+          <section className="mt-10">
+            <h2 className="text-[10px] uppercase tracking-widest text-stone-500 font-bold mb-3">{m.history}</h2>
+            {quotes === null ? (
+              <p className="text-sm text-stone-500">{m.loading}</p>
+            ) : quotes.length === 0 ? (
+              <p className="text-sm text-stone-500">{m.noQuotes}</p>
+            ) : (
+              <ul className="divide-y divide-stone-800 rounded-2xl bg-black/40 border border-stone-800 px-6">
+                {quotes.map((quote) => (
+                  <li key={quote.id} className="py-4 flex flex-wrap items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="font-mono text-emerald-400">
+                        {quote.id}
+                        <span
+                          className={`ml-3 inline-block px-2 py-0.5 rounded-full text-[10px] uppercase tracking-widest font-bold ${
+                            quote.status === 'sent' ? 'bg-emerald-900/40 text-emerald-300' : 'bg-stone-800 text-stone-400'
+                          }`}
+                        >
+                          {m.statuses[quote.status]}
+                        </span>
+                      </p>
+                      <p className="mt-1 text-sm text-stone-300">
+                        {formatKurus(quote.total, locale)} · {quote.customer.email} · {formatQuoteDate(quote.createdAt, locale)}
+                      </p>
+                      {quote.sentAt && (
+                        <p className="text-xs text-stone-500">{format(m.sentAt, { time: formatQuoteDate(quote.sentAt, locale) })}</p>
+                      )}
+                    </div>
+                    <div className="flex gap-2">
+                      <a
+                        href={`/api/admin/quotes/${encodeURIComponent(quote.id)}/pdf`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-stone-800 text-sm font-bold text-stone-300 hover:text-white transition-colors"
+                      >
+                        <FileText size={16} /> {m.viewPdf}
+                      </a>
+                      <button
+                        type="button"
+                        onClick={() => handleSend(quote)}
+                        disabled={busy !== null}
+                        className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-emerald-600 text-sm font-bold text-white hover:bg-emerald-500 transition-colors disabled:opacity-40"
+                      >
+                        <Send size={16} /> {busy === quote.id ? m.sending : quote.sentAt ? m.resend : m.send}
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+      </div>
+    </main>
+  );
+};
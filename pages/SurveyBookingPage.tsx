@@ -0,0 +1,286 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, CalendarCheck, Clock } from 'lucide-react';
+import { useI18n } from '../components/LocaleProvider';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
+import { SurveySlotPicker } from '../components/SurveySlotPicker';
+import { formatRetryAfter } from '../shared/contact';
+import { format } from '../shared/i18n';
+import {
+  SURVEY_HOLD_MINUTES,
+  SURVEY_KINDS,
+  SURVEY_LIMITS,
+  SURVEY_SLOT_MINUTES,
+  formatSurveyTime,
+  isSurveyKind,
+  validateSurveyDetails,
+  type SurveyBookingInfo,
+  type SurveyDetailField,
+  type SurveyDetails,
+  type SurveyKind,
+} from '../shared/surveys';
+
+type Hold = { token: string; bookingId: string; startsAt: string; expiresAt: string };
+
+const emptyDetails: SurveyDetails = { firstName: '', lastName: '', email: '', phone: '', address: '', notes: '' };
+
+const inputClass = (invalid: boolean) =>
+  `w-full bg-stone-800 border rounded-xl px-4 py-3 focus:outline-none transition-colors ${
+    invalid ? 'border-red-500' : 'border-stone-700 focus:border-emerald-500'
+  }`;
+
+/** 09:41 biçiminde kalan süre */
+const formatCountdown = (ms: number) => {
+  const seconds = Math.max(0, Math.ceil(ms / 1000));
+  return `${String(Math.floor(seconds / 60)).padStart(2, '0')}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+/**
+ * /kesif?tur=<keşif türü>&talep=<talep no>
+ * Dilim seç -> dilim SURVEY_HOLD_MINUTES boyunca ayrılır -> bilgiler -> onay (takvim daveti e-postayla gelir)
+ */
+export const SurveyBookingPage: React.FC = () => {
+  const { locale, messages, to } = useI18n();
+  const m = messages.surveys;
+  const [searchParams] = useSearchParams();
+  const initialKind = searchParams.get('tur');
+  const leadId = searchParams.get('talep');
+  const [kind, setKind] = useState<SurveyKind>(isSurveyKind(initialKind) ? initialKind : SURVEY_KINDS[0]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [hold, setHold] = useState<Hold | null>(null);
+  const [remaining, setRemaining] = useState(0);
+  const [details, setDetails] = useState<SurveyDetails>(emptyDetails);
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<SurveyDetailField, string>>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<{ booking: SurveyBookingInfo; emailed: boolean; email: string } | null>(null);
+
+  // Ayırma süresi sayacı; süre dolunca sunucu da dilimi bırakır
+  useEffect(() => {
+    if (!hold || result) return;
+    const tick = () => {
+      const left = Date.parse(hold.expiresAt) - Date.now();
+      setRemaining(left);
+      if (left <= 0) {
+        setHold(null);
+        setSelected(null);
+        setReloadKey((key) => key + 1);
+        setError(m.holdExpired);
+      }
+    };
+    tick();
+    const timer = window.setInterval(tick, 1000);
+    return () => window.clearInterval(timer);
+  }, [hold, result, m]);
+
+  const updateField = (field: SurveyDetailField, value: string) => {
+    setDetails({ ...details, [field]: value });
+    if (fieldErrors[field]) {
+      setFieldErrors({ ...fieldErrors, [field]: undefined });
+    }
+  };
+
+  const handleHold = async () => {
+    if (!selected) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const res = await fetch('/api/surveys/hold', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ startsAt: selected, kind, locale }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 429) {
+        const retryAfter = Number(res.headers.get('Retry-After') || data.retryAfter) || 60;
+        throw new Error(format(m.rateLimited, { wait: formatRetryAfter(retryAfter, locale) }));
+      }
+      if (res.status === 409) {
+        setSelected(null);
+        setReloadKey((key) => key + 1);
+      }
+      if (!res.ok) {
+        throw new Error(data.error || m.failed);
+      }
+      setHold({ token: data.token, bookingId: data.bookingId, startsAt: selected, expiresAt: data.expiresAt });
+    } catch (err: any) {
+      setError(err.message || m.failed);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleConfirm = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hold) return;
+    setError(null);
+
+    // Sunucu ile aynı şema: bariz hataları istek atmadan göster
+    const validation = validateSurveyDetails(details, locale);
+    if (validation.ok === false) {
+      setFieldErrors(validation.errors);
+      return;
+    }
+    setFieldErrors({});
+    setLoading(true);
+    try {
+      const res = await fetch('/api/surveys/confirm', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: hold.token, details: validation.data, leadId, locale }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 409) {
+        setHold(null);
+        setSelected(null);
+        setReloadKey((key) => key + 1);
+      }
+      if (!res.ok) {
+        if (data.fieldErrors) setFieldErrors(data.fieldErrors);
+        throw new Error(data.error || m.failed);
+      }
+      setResult({ booking: data.booking, emailed: data.emailed, email: validation.data.email });
+    } catch (err: any) {
+      setError(err.message || m.failed);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const field = (name: SurveyDetailField, label: string, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <div>
+      <input
+        {...props}
+        value={details[name]}
+        onChange={(e) => updateField(name, e.target.value)}
+        placeholder={label}
+        aria-label={label}
+        maxLength={SURVEY_LIMITS[name]}
+        className={inputClass(Boolean(fieldErrors[name]))}
+      />
+      {fieldErrors[name] && <p className="mt-1 text-xs text-red-400">{fieldErrors[name]}</p>}
+    </div>
+  );
+
+  return (
+    <main className="relative bg-stone-900 text-white h-screen w-screen overflow-y-auto">
+      <div className="max-w-4xl mx-auto px-6 py-10 md:py-16">
+        <div className="flex items-center justify-between">
+          <Link to={to('/')} className="inline-flex items-center gap-2 text-xs uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors">
+            <ArrowLeft size={14} /> {messages.nav.home}
+          </Link>
+          <LanguageSwitcher />
+        </div>
+
+        <h1 className="mt-6 text-4xl md:text-6xl font-oswald font-bold tracking-tight">{m.title}</h1>
+        <p className="mt-3 text-stone-400 max-w-2xl">{format(m.lead, { hours: SURVEY_SLOT_MINUTES / 60 })}</p>
+
+        {error && <div className="mt-8 p-3 bg-red-900/40 text-red-300 rounded-lg text-sm">{error}</div>}
+
+        {result ? (
+          <div className="mt-10 rounded-2xl bg-black/40 border border-stone-800 p-6 space-y-4 animate-[fadeIn_0.3s_ease-out]">
+            <h2 className="flex items-center gap-3 text-2xl font-oswald font-bold text-emerald-400">
+              <CalendarCheck size={24} /> {m.successTitle}
+            </h2>
+            <div>
+              <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.reference}</p>
+              <p className="text-2xl font-oswald">{result.booking.id}</p>
+            </div>
+            <p className="text-stone-300">
+              {result.emailed
+                ? format(m.success, { time: formatSurveyTime(result.booking.startsAt, locale), email: result.email })
+                : m.emailFailed}
+            </p>
+          </div>
+        ) : hold ? (
+          <form className="mt-10 space-y-4" onSubmit={handleConfirm} noValidate>
+            <div className="flex flex-wrap items-center justify-between gap-3 p-4 rounded-xl bg-emerald-900/30 text-emerald-300 text-sm">
+              <span>{format(m.held, { time: formatSurveyTime(hold.startsAt, locale), minutes: SURVEY_HOLD_MINUTES })}</span>
+              <span className="inline-flex items-center gap-2 font-mono font-bold">
+                <Clock size={14} /> {format(m.countdown, { time: formatCountdown(remaining) })}
+              </span>
+            </div>
+            {leadId && <p className="text-xs text-stone-500">{format(m.fromLead, { leadId })}</p>}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {field('firstName', m.firstName, { autoComplete: 'given-name' })}
+              {field('lastName', m.lastName, { autoComplete: 'family-name' })}
+              {field('email', m.email, { type: 'email', autoComplete: 'email' })}
+              {field('phone', m.phone, { type: 'tel', autoComplete: 'tel' })}
+            </div>
+            {field('address', m.address, { autoComplete: 'street-address' })}
+            <div>
+              <textarea
+                value={details.notes}
+                onChange={(e) => updateField('notes', e.target.value)}
+                placeholder={m.notes}
+                aria-label={m.notes}
+                maxLength={SURVEY_LIMITS.notes}
+                rows={3}
+                className={inputClass(Boolean(fieldErrors.notes))}
+              />
+              {fieldErrors.notes && <p className="mt-1 text-xs text-red-400">{fieldErrors.notes}</p>}
+            </div>
+
+            <div className="flex flex-col md:flex-row gap-3">
+              <button
+                type="submit"
+                disabled={loading}
+                className="flex-1 bg-white text-stone-900 font-bold py-4 rounded-xl hover:bg-emerald-500 hover:text-white transition-colors disabled:opacity-40"
+              >
+                {loading ? m.confirming : m.confirm}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  // Ayrılan dilim süresi dolunca kendiliğinden boşalır
+                  setHold(null);
+                  setSelected(null);
+                }}
+                className="px-6 py-4 rounded-xl bg-stone-800 text-stone-300 font-bold hover:text-white transition-colors"
+              >
+                {m.changeSlot}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <div className="mt-10 space-y-8">
+            <div>
+              <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.kindLabel}</p>
+              <div className="mt-2 flex flex-wrap gap-2">
+                {SURVEY_KINDS.map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setKind(option)}
+                    aria-pressed={kind === option}
+                    className={`px-4 py-2 rounded-xl text-sm font-bold transition-colors ${
+                      kind === option ? 'bg-emerald-600 text-white' : 'bg-stone-800 text-stone-400 hover:text-white'
+                    }`}
+                  >
+                    {m.kinds[option]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold mb-3">{m.pickSlot}</p>
+              <SurveySlotPicker selected={selected} onSelect={setSelected} reloadKey={reloadKey} />
+            </div>
+
+            <button
+              type="button"
+              onClick={handleHold}
+              disabled={!selected || loading}
+              className="w-full bg-white text-stone-900 font-bold py-4 rounded-xl hover:bg-emerald-500 hover:text-white transition-colors disabled:opacity-40"
+            >
+              {loading ? m.holding : m.hold}
+            </button>
+          </div>
+        )}
+      </div>
+    </main>
+  );
+};
@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, CalendarClock, CalendarX } from 'lucide-react';
+import { useI18n } from '../components/LocaleProvider';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
+import { SurveySlotPicker } from '../components/SurveySlotPicker';
+import { format } from '../shared/i18n';
+import { formatSurveyTime, type SurveyBookingInfo } from '../shared/surveys';
+
+/**
+ * /kesif/yonet?token= - e-postadaki imzalı bağlantıyla açılır, oturum gerekmez
+ * Randevu saatinden önce iptal ya da yeni saat seçimi yapılabilir.
+ */
+export const SurveyManagePage: React.FC = () => {
+  const { locale, messages, to } = useI18n();
+  const m = messages.surveys;
+  const [searchParams, setSearchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const [booking, setBooking] = useState<SurveyBookingInfo | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [rescheduling, setRescheduling] = useState(false);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [busy, setBusy] = useState<'cancel' | 'reschedule' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) {
+      setLoadError(m.manage.invalidLink);
+      return;
+    }
+    let cancelled = false;
+    fetch(`/api/surveys/manage?token=${encodeURIComponent(token)}`)
+      .then((res) => (res.ok ? res.json() : Promise.reject(new Error(String(res.status)))))
+      .then((data: { booking: SurveyBookingInfo }) => {
+        if (!cancelled) setBooking(data.booking);
+      })
+      .catch(() => {
+        if (!cancelled) setLoadError(m.manage.invalidLink);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [token, m]);
+
+  const post = async (action: 'cancel' | 'reschedule', payload: Record<string, unknown>) => {
+    setBusy(action);
+    setError(null);
+    setNotice(null);
+    try {
+      const res = await fetch(`/api/surveys/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token, locale, ...payload }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        if (res.status === 409) setReloadKey((key) => key + 1);
+        throw new Error(data.error || m.manage.failed);
+      }
+      // İptal ve saat değişikliği bağlantıyı yeniler; eski belirteç artık geçersiz
+      if (typeof data.token === 'string') setSearchParams({ token: data.token }, { replace: true });
+      return data.booking as SurveyBookingInfo;
+    } catch (err: any) {
+      setError(err.message || m.manage.failed);
+      return null;
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!window.confirm(m.manage.cancelConfirm)) return;
+    const updated = await post('cancel', {});
+    if (updated) {
+      setBooking(updated);
+      setRescheduling(false);
+      setNotice(m.manage.cancelled);
+    }
+  };
+
+  const handleReschedule = async () => {
+    if (!selected) return;
+    const updated = await post('reschedule', { startsAt: selected });
+    if (updated) {
+      setBooking(updated);
+      setRescheduling(false);
+      setSelected(null);
+      setNotice(format(m.manage.rescheduled, { time: formatSurveyTime(updated.startsAt, locale) }));
+    }
+  };
+
+  return (
+    <main className="relative bg-stone-900 text-white h-screen w-screen overflow-y-auto">
+      <div className="max-w-4xl mx-auto px-6 py-10 md:py-16">
+        <div className="flex items-center justify-between">
+          <Link to={to('/')} className="inline-flex items-center gap-2 text-xs uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors">
+            <ArrowLeft size={14} /> {messages.nav.home}
+          </Link>
+          <LanguageSwitcher />
+        </div>
+
+        <h1 className="mt-6 text-4xl md:text-6xl font-oswald font-bold tracking-tight">{m.manage.title}</h1>
+
+        {loadError && <div className="mt-8 p-3 bg-red-900/40 text-red-300 rounded-lg text-sm">{loadError}</div>}
+        {!loadError && !booking && <p className="mt-8 text-stone-500">{m.manage.loading}</p>}
+
+        {booking && (
+          <div className="mt-8 space-y-6">
+            {notice && <div className="p-3 bg-emerald-900/30 text-emerald-300 rounded-lg text-sm">{notice}</div>}
+            {error && <div className="p-3 bg-red-900/40 text-red-300 rounded-lg text-sm">{error}</div>}
+
+            <div className="rounded-2xl bg-black/40 border border-stone-800 p-6 grid grid-cols-1 md:grid-cols-2 gap-5">
+              <div>
+                <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.reference}</p>
+                <p className="text-xl font-oswald">{booking.id}</p>
+              </div>
+              <div>
+                <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.manage.status}</p>
+                <p className={`text-xl font-oswald ${booking.status === 'confirmed' ? 'text-emerald-400' : 'text-stone-400'}`}>
+                  {m.manage.statuses[booking.status]}
+                </p>
+              </div>
+              <div className="md:col-span-2">
+                <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.manage.when}</p>
+                <p className={`text-2xl font-oswald ${booking.status === 'cancelled' ? 'line-through text-stone-500' : ''}`}>
+                  {formatSurveyTime(booking.startsAt, locale)} – {formatSurveyTime(booking.endsAt, locale, { timeStyle: 'short' })}
+                </p>
+              </div>
+              <div>
+                <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.kindLabel}</p>
+                <p>{m.kinds[booking.kind]}</p>
+              </div>
+              <div>
+                <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.manage.address}</p>
+                <p className="text-stone-300">{booking.address}</p>
+              </div>
+            </div>
+
+            {booking.canChange ? (
+              rescheduling ? (
+                <div className="space-y-4">
+                  <SurveySlotPicker selected={selected} onSelect={setSelected} reloadKey={reloadKey} exclude={booking.startsAt} />
+                  <div className="flex flex-col md:flex-row gap-3">
+                    <button
+                      type="button"
+                      onClick={handleReschedule}
+                      disabled={!selected || busy !== null}
+                      className="flex-1 bg-white text-stone-900 font-bold py-4 rounded-xl hover:bg-emerald-500 hover:text-white transition-colors disabled:opacity-40"
+                    >
+                      {busy === 'reschedule' ? m.manage.rescheduling : m.manage.rescheduleSubmit}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setRescheduling(false);
+                        setSelected(null);
+                      }}
+                      className="px-6 py-4 rounded-xl bg-stone-800 text-stone-300 font-bold hover:text-white transition-colors"
+                    >
+                      {m.manage.keepTime}
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <div className="flex flex-col md:flex-row gap-3">
+                  <button
+                    type="button"
+                    onClick={() => setRescheduling(true)}
+                    className="flex-1 flex items-center justify-center gap-2 bg-white text-stone-900 font-bold py-4 rounded-xl hover:bg-emerald-500 hover:text-white transition-colors"
+                  >
+                    <CalendarClock size={18} /> {m.manage.reschedule}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={handleCancel}
+                    disabled={busy !== null}
+                    className="flex-1 flex items-center justify-center gap-2 py-4 rounded-xl bg-stone-800 text-red-300 font-bold hover:bg-red-900/40 transition-colors disabled:opacity-40"
+                  >
+                    <CalendarX size={18} /> {busy === 'cancel' ? m.manage.cancelling : m.manage.cancel}
+                  </button>
+                </div>
+              )
+            ) : (
+              <div className="space-y-4">
+                {!notice && <p className="text-sm text-stone-400">{m.manage.locked}</p>}
+                <Link
+                  to={to('/kesif')}
+                  className="inline-flex items-center gap-2 text-xs md:text-sm uppercase tracking-widest font-bold text-emerald-400 border-b border-emerald-400/40 pb-1 hover:border-emerald-400 transition-colors"
+                >
+                  {m.manage.bookAgain}
+                </Link>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </main>
+  );
+};
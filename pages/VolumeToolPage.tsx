@@ -0,0 +1,307 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Box, Upload } from 'lucide-react';
+import { useI18n } from '../components/LocaleProvider';
+import { LanguageSwitcher } from '../components/LanguageSwitcher';
+import { ContactModal } from '../components/ContactModal';
+import type { VolumeErrorCode, VolumeReport, VolumeWorkerRequest, VolumeWorkerResponse } from '../components/pointCloud/volume.worker';
+import { SERVICE_IDS, type ServiceId } from '../shared/services';
+import { SERVICE_CONTACT_SUBJECTS, type ContactPayload } from '../shared/contact';
+import { VOLUME_BASE_KINDS, type VolumeBaseKind } from '../shared/pointcloud/volume';
+import { format, formatNumber, type Messages } from '../shared/i18n';
+
+const POINT_FILE_ACCEPT = '.xyz,.csv,.txt,.pts,.las';
+const MAX_FILE_MB = 50;
+
+// Sayfanın sunduğu hizmetler; Hizmetler bölümündeki bağlantı ?hizmet= ile gelir
+const VOLUME_SERVICE_IDS: ServiceId[] = [SERVICE_IDS.MADENCILIK, SERVICE_IDS.DRONE];
+
+const inputClass =
+  'w-full bg-stone-800 border border-stone-700 rounded-xl px-4 py-3 text-sm focus:outline-none focus:border-emerald-500';
+
+/** Worker hata kodunun metni; LAS okuma hataları nokta bulutu görüntüleyicisiyle aynıdır */
+function describeError(code: VolumeErrorCode, messages: Messages): string {
+  if (code === 'collinear') return messages.volume.errors.collinear;
+  if (code === 'no-overlap') return messages.volume.errors.noOverlap;
+  return messages.pointCloud.errors[code];
+}
+
+const parseElevation = (value: string) => {
+  const normalized = value.trim().replace(',', '.');
+  return /^[-+]?(\d+\.?\d*|\.\d+)$/.test(normalized) ? Number(normalized) : null;
+};
+
+/**
+ * /araclar/hacim - nokta dosyasından yığın ve kazı/dolgu hacmi (public)
+ * Hesap tamamen tarayıcıda, worker içinde yapılır; sonuç ve yükseklik haritası iletişim formuna eklenebilir.
+ */
+export const VolumeToolPage: React.FC = () => {
+  const { locale, messages, to } = useI18n();
+  const m = messages.volume;
+  const [searchParams] = useSearchParams();
+  const requestedService = Number(searchParams.get('hizmet'));
+  const serviceId = VOLUME_SERVICE_IDS.find((id) => id === requestedService) ?? SERVICE_IDS.MADENCILIK;
+
+  const [surface, setSurface] = useState<File | null>(null);
+  const [reference, setReference] = useState<File | null>(null);
+  const [baseKind, setBaseKind] = useState<VolumeBaseKind>('elevation');
+  const [elevation, setElevation] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [report, setReport] = useState<VolumeReport | null>(null);
+  const [previewFile, setPreviewFile] = useState<File | null>(null);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const workerRef = useRef<Worker | null>(null);
+
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  const chooseFile = (setter: (file: File | null) => void) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setReport(null);
+    if (file.size > MAX_FILE_MB * 1024 * 1024) {
+      setError(format(m.errors.tooLarge, { max: MAX_FILE_MB }));
+      return;
+    }
+    setError(null);
+    setter(file);
+  };
+
+  const calculate = () => {
+    if (!surface) return;
+    let base: VolumeWorkerRequest['base'];
+    if (baseKind === 'surface') {
+      if (!reference) return setError(m.errors.referenceRequired);
+      base = { kind: 'surface', reference };
+    } else if (baseKind === 'plane') {
+      base = { kind: 'plane' };
+    } else {
+      const value = elevation.trim() === '' ? null : parseElevation(elevation);
+      if (value === null && elevation.trim() !== '') return setError(m.errors.invalidElevation);
+      base = { kind: 'elevation', elevation: value };
+    }
+
+    setLoading(true);
+    setError(null);
+    setReport(null);
+    // Önceki hesap sürüyorsa sonlandırılır; geç gelen yanıt yok sayılır
+    workerRef.current?.terminate();
+    const worker = new Worker(new URL('../components/pointCloud/volume.worker.ts', import.meta.url), { type: 'module' });
+    workerRef.current = worker;
+    worker.onmessage = ({ data }: MessageEvent<VolumeWorkerResponse>) => {
+      setLoading(false);
+      worker.terminate();
+      if (data.ok === false) {
+        const text = describeError(data.code, messages);
+        setError(data.surface === 'reference' ? format(m.errors.inReference, { error: text }) : text);
+        return;
+      }
+      setReport(data.report);
+    };
+    worker.onerror = () => {
+      setLoading(false);
+      setError(messages.pointCloud.errors.unknown);
+    };
+    worker.postMessage({ surface, base } satisfies VolumeWorkerRequest);
+  };
+
+  // Önizleme tuvale çizilir; aynı görüntü PNG olarak iletişim formuna eklenir
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    setPreviewFile(null);
+    if (!report || !canvas) return;
+    const { width, height, pixels } = report.preview;
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.putImageData(new ImageData(pixels, width, height), 0, 0);
+    canvas.toBlob((blob) => {
+      if (blob) setPreviewFile(new File([blob], m.previewFileName, { type: 'image/png' }));
+    }, 'image/png');
+  }, [report, m.previewFileName]);
+
+  const isSurfaceBase = report?.base === 'surface';
+  const baseDescription = useMemo(() => {
+    if (!report) return '';
+    if (report.plane) {
+      return format(m.basePlane, {
+        elevation: formatNumber(report.plane.elevation, locale, 2),
+        slope: formatNumber(report.plane.slopePercent, locale, 1),
+      });
+    }
+    if (report.elevation !== null) return format(m.baseElevation, { elevation: formatNumber(report.elevation, locale, 2) });
+    return `${m.bases.surface}: ${reference?.name ?? ''}`;
+  }, [report, reference, locale, m]);
+
+  const contactPrefill = useMemo<Partial<ContactPayload> | undefined>(() => {
+    if (!report || !surface) return undefined;
+    return {
+      subject: SERVICE_CONTACT_SUBJECTS[serviceId],
+      message: format(m.quoteMessage, {
+        file: surface.name,
+        base: baseDescription,
+        above: formatNumber(report.above, locale, 1),
+        below: formatNumber(report.below, locale, 1),
+        area: formatNumber(report.area, locale, 0),
+      }),
+    };
+  }, [report, surface, serviceId, baseDescription, locale, m]);
+
+  const fileInput = (file: File | null, onChange: (e: React.ChangeEvent<HTMLInputElement>) => void, label: string) => (
+    <label className="flex items-center gap-4 rounded-xl border-2 border-dashed border-stone-700 hover:border-emerald-500 cursor-pointer px-4 py-5 text-stone-400 transition-colors">
+      <Upload size={22} className="shrink-0" />
+      <span className="min-w-0">
+        <span className="block text-[10px] uppercase tracking-widest text-stone-500 font-bold">{label}</span>
+        <span className="block text-sm truncate">{file ? file.name : m.filePrompt}</span>
+      </span>
+      <input type="file" accept={POINT_FILE_ACCEPT} onChange={onChange} className="hidden" />
+    </label>
+  );
+
+  const stat = (label: string, value: number, unit: string, accent = false) => (
+    <div>
+      <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{label}</p>
+      <p className={`text-2xl font-oswald ${accent ? 'text-emerald-400' : ''}`}>
+        {formatNumber(value, locale, 1)} {unit}
+      </p>
+    </div>
+  );
+
+  return (
+    <main className="relative bg-stone-900 text-white h-screen w-screen overflow-y-auto">
+      <div className="max-w-6xl mx-auto px-6 py-10 md:py-16">
+        <div className="flex items-center justify-between">
+          <Link to={to('/')} className="inline-flex items-center gap-2 text-xs uppercase tracking-widest text-stone-400 hover:text-emerald-400 transition-colors">
+            <ArrowLeft size={14} /> {messages.nav.home}
+          </Link>
+          <LanguageSwitcher />
+        </div>
+
+        <h1 className="mt-6 text-4xl md:text-6xl font-oswald font-bold tracking-tight">{m.title}</h1>
+        <p className="mt-3 text-stone-400 max-w-2xl">{m.lead}</p>
+
+        <div className="mt-10 grid grid-cols-1 lg:grid-cols-[1fr_1.2fr] gap-8">
+          <div className="space-y-4">
+            {fileInput(surface, chooseFile(setSurface), m.surface)}
+            <p className="text-xs text-stone-500">{format(m.fileHint, { max: MAX_FILE_MB })}</p>
+
+            <div>
+              <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.base}</p>
+              <div className="mt-2 flex gap-2">
+                {VOLUME_BASE_KINDS.map((kind) => (
+                  <button
+                    key={kind}
+                    type="button"
+                    onClick={() => {
+                      setBaseKind(kind);
+                      setReport(null);
+                      setError(null);
+                    }}
+                    className={`flex-1 py-3 rounded-xl text-sm font-bold transition-colors ${
+                      baseKind === kind ? 'bg-emerald-600 text-white' : 'bg-stone-800 text-stone-400 hover:text-white'
+                    }`}
+                  >
+                    {m.bases[kind]}
+                  </button>
+                ))}
+              </div>
+              <p className="mt-2 text-xs text-stone-500">{m.baseHints[baseKind]}</p>
+            </div>
+
+            {baseKind === 'elevation' && (
+              <label className="block">
+                <span className="text-xs text-stone-400">{m.elevation}</span>
+                <input
+                  value={elevation}
+                  onChange={(e) => setElevation(e.target.value)}
+                  inputMode="decimal"
+                  placeholder={m.elevationPlaceholder}
+                  className={`${inputClass} mt-1 font-mono`}
+                />
+              </label>
+            )}
+            {baseKind === 'surface' && fileInput(reference, chooseFile(setReference), m.reference)}
+
+            <button
+              type="button"
+              onClick={calculate}
+              disabled={!surface || loading}
+              className="w-full flex items-center justify-center gap-3 bg-white text-stone-900 font-bold py-4 rounded-xl hover:bg-emerald-500 hover:text-white transition-colors disabled:opacity-40"
+            >
+              <Box size={18} /> {loading ? m.calculating : m.calculate}
+            </button>
+
+            {error && <div className="p-3 bg-red-900/40 text-red-300 rounded-lg text-sm">{error}</div>}
+          </div>
+
+          <div className={report ? 'space-y-4' : 'hidden'}>
+            <div className="rounded-2xl bg-black/40 border border-stone-800 p-6 space-y-5 animate-[fadeIn_0.3s_ease-out]">
+              {report && (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    {stat(isSurfaceBase ? m.fill : m.above, report.above, 'm³', true)}
+                    {stat(isSurfaceBase ? m.cut : m.below, report.below, 'm³')}
+                    {stat(m.net, report.above - report.below, 'm³')}
+                    {stat(m.area, report.area, 'm²')}
+                  </div>
+                  <div className="text-xs text-stone-400 space-y-1">
+                    <p>{baseDescription}</p>
+                    <p>
+                      {format(m.points, {
+                        points: formatNumber(report.pointCount, locale, 0),
+                        triangles: formatNumber(report.triangleCount, locale, 0),
+                      })}
+                      {report.totalPoints > report.pointCount &&
+                        ` · ${format(m.thinned, {
+                          points: formatNumber(report.pointCount, locale, 0),
+                          total: formatNumber(report.totalPoints, locale, 0),
+                        })}`}
+                    </p>
+                  </div>
+                </>
+              )}
+
+              <div>
+                <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{m.preview}</p>
+                <canvas ref={canvasRef} className="mt-2 w-full rounded-lg bg-stone-950 [image-rendering:pixelated]" />
+                {report && (
+                  <div className="mt-2 w-40 text-[10px] text-stone-400">
+                    <div className="h-2 rounded-full bg-gradient-to-r from-blue-800 via-green-500 to-red-600" />
+                    <p className="mt-1">
+                      {format(m.legend, {
+                        min: formatNumber(report.preview.range[0], locale, 2),
+                        max: formatNumber(report.preview.range[1], locale, 2),
+                      })}
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {report && (
+                <p className="text-xs text-stone-500">
+                  {report.gridCellSize !== null && `${format(m.gridNote, { cell: formatNumber(report.gridCellSize, locale, 2) })} `}
+                  {m.disclaimer}
+                </p>
+              )}
+              <button
+                type="button"
+                onClick={() => setIsModalOpen(true)}
+                className="w-full bg-stone-100 text-stone-900 font-bold py-3 rounded-xl hover:bg-emerald-500 hover:text-white transition-colors"
+              >
+                {m.requestQuote}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <ContactModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        prefill={contactPrefill}
+        prefillAttachments={previewFile ? [previewFile] : undefined}
+      />
+    </main>
+  );
+};
@@ -0,0 +1,34 @@
+import type { Plugin } from 'vite';
+import {
+  validateCaseStudyCollection,
+  validateCaseStudyLocale,
+  validateCaseStudyMeta,
+  type CaseStudyContent,
+} from '../shared/content/caseStudies';
+import { contentCollectionPlugin, loadCollection, relativePath, type LoadedCollection } from './contentCollection';
+
+/** content/referanslar/ altındaki projeleri doğrular ve `virtual:case-studies` olarak sunar (en yeni proje önce) */
+export function loadCaseStudies(contentDir: string): LoadedCollection<CaseStudyContent> {
+  const { entries, errors, files } = loadCollection(contentDir, {
+    validateMeta: validateCaseStudyMeta,
+    validateLocale: validateCaseStudyLocale,
+  });
+  const cases: CaseStudyContent[] = entries.map(({ meta, locales }) => ({ ...meta, locales }));
+
+  if (errors.length === 0) {
+    errors.push(...validateCaseStudyCollection(cases).map((e) => `${relativePath(contentDir)}: ${e}`));
+  }
+  cases.sort((a, b) => b.year - a.year || a.slug.localeCompare(b.slug));
+  return { entries: cases, errors, files };
+}
+
+export function caseStudyContent(contentDir: string): Plugin {
+  return contentCollectionPlugin({
+    name: 'hekamap:case-studies',
+    virtualId: 'virtual:case-studies',
+    exportName: 'caseStudies',
+    contentDir,
+    errorTitle: 'Referans proje içeriği geçersiz',
+    load: () => loadCaseStudies(contentDir),
+  });
+}
@@ -0,0 +1,132 @@
+import fs from 'node:fs';
+import path from 'node:path';
+import type { Plugin } from 'vite';
+import { LOCALES, type Locale } from '../shared/i18n/locales';
+import { parseFrontMatter, type FrontMatterValue } from '../shared/content/frontMatter';
+import { parseMarkdown, type RichText } from '../shared/content/richText';
+import type { SchemaResult } from '../shared/content/schema';
+
+/**
+ * İçerik koleksiyonları için ortak okuyucu
+ * Her kayıt bir dizindir: meta.json (dilden bağımsız alanlar) + her dil için <dil>.md (front-matter + Markdown).
+ * Koleksiyona özgü kurallar şema fonksiyonlarıyla verilir; hatalar dosya yoluyla birlikte toplanır.
+ */
+export interface CollectionSchema<Meta, LocaleContent> {
+  validateMeta(raw: unknown, directory: string): SchemaResult<Meta>;
+  validateLocale(data: Record<string, FrontMatterValue>, body: RichText): SchemaResult<LocaleContent>;
+}
+
+export interface CollectionEntry<Meta, LocaleContent> {
+  directory: string;
+  meta: Meta;
+  locales: Record<Locale, LocaleContent>;
+}
+
+export interface LoadedCollection<T> {
+  entries: T[];
+  errors: string[];
+  files: string[];
+}
+
+export const relativePath = (file: string) => path.relative(process.cwd(), file);
+
+export function loadCollection<Meta, LocaleContent>(
+  contentDir: string,
+  schema: CollectionSchema<Meta, LocaleContent>
+): LoadedCollection<CollectionEntry<Meta, LocaleContent>> {
+  const errors: string[] = [];
+  const files: string[] = [];
+  const entries: CollectionEntry<Meta, LocaleContent>[] = [];
+
+  const directories = fs.existsSync(contentDir)
+    ? fs.readdirSync(contentDir, { withFileTypes: true }).filter((entry) => entry.isDirectory())
+    : [];
+
+  for (const dir of directories) {
+    const dirPath = path.join(contentDir, dir.name);
+    const fileErrors = (file: string, list: string[]) =>
+      list.forEach((e) => errors.push(`${relativePath(path.join(dirPath, file))}: ${e}`));
+
+    const metaPath = path.join(dirPath, 'meta.json');
+    files.push(metaPath);
+    if (!fs.existsSync(metaPath)) {
+      fileErrors('meta.json', ['dosya bulunamadı']);
+      continue;
+    }
+    let rawMeta: unknown;
+    try {
+      rawMeta = JSON.parse(fs.readFileSync(metaPath, 'utf8'));
+    } catch (err: any) {
+      fileErrors('meta.json', [`geçersiz JSON (${err.message})`]);
+      continue;
+    }
+    const meta = schema.validateMeta(rawMeta, dir.name);
+    if (meta.ok === false) fileErrors('meta.json', meta.errors);
+
+    const locales: Partial<Record<Locale, LocaleContent>> = {};
+    for (const locale of LOCALES) {
+      const file = `${locale}.md`;
+      const filePath = path.join(dirPath, file);
+      files.push(filePath);
+      if (!fs.existsSync(filePath)) {
+        fileErrors(file, ['dosya bulunamadı (her dil için bir dosya gerekli)']);
+        continue;
+      }
+      const { data, body, errors: frontMatterErrors } = parseFrontMatter(fs.readFileSync(filePath, 'utf8'));
+      const markdownErrors: string[] = [];
+      const content = schema.validateLocale(data, parseMarkdown(body, markdownErrors));
+      fileErrors(file, [...frontMatterErrors, ...markdownErrors, ...(content.ok === false ? content.errors : [])]);
+      if (content.ok === true) locales[locale] = content.value;
+    }
+
+    if (meta.ok === true && LOCALES.every((l) => locales[l])) {
+      entries.push({ directory: dir.name, meta: meta.value, locales: locales as Record<Locale, LocaleContent> });
+    }
+  }
+
+  return { entries, errors, files };
+}
+
+interface ContentPluginOptions {
+  name: string;
+  virtualId: string;
+  /** Sanal modülün dışa aktardığı değişken adı */
+  exportName: string;
+  contentDir: string;
+  /** Derleme hatasının başlığı, ör. "Hizmet içeriği geçersiz" */
+  errorTitle: string;
+  load(): LoadedCollection<unknown>;
+}
+
+/** Koleksiyonu sanal modül olarak sunar; geçersiz içerik derlemeyi ve geliştirme sunucusunu durdurur */
+export function contentCollectionPlugin(options: ContentPluginOptions): Plugin {
+  const resolvedId = `\0${options.virtualId}`;
+  return {
+    name: options.name,
+    resolveId(id) {
+      return id === options.virtualId ? resolvedId : null;
+    },
+    load(id) {
+      if (id !== resolvedId) return null;
+      const { entries, errors, files } = options.load();
+      files.forEach((file) => this.addWatchFile(file));
+      if (errors.length > 0) {
+        this.error(`${options.errorTitle}:\n${errors.map((e) => `  - ${e}`).join('\n')}`);
+      }
+      return `export const ${options.exportName} = ${JSON.stringify(entries)};`;
+    },
+    configureServer(server) {
+      // Yeni eklenen/silinen dosyalar addWatchFile kapsamında olmadığı için dizin ayrıca izlenir
+      server.watcher.add(options.contentDir);
+      const reload = (file: string) => {
+        if (!file.startsWith(options.contentDir)) return;
+        const mod = server.moduleGraph.getModuleById(resolvedId);
+        if (mod) server.moduleGraph.invalidateModule(mod);
+        server.ws.send({ type: 'full-reload' });
+      };
+      server.watcher.on('add', reload);
+      server.watcher.on('unlink', reload);
+      server.watcher.on('change', reload);
+    },
+  };
+}
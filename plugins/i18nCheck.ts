@@ -0,0 +1,22 @@
+import type { Plugin } from 'vite';
+import { CATALOGS, DEFAULT_LOCALE, LOCALES, findCatalogMismatches } from '../shared/i18n';
+
+/**
+ * Derleme sırasında dil kataloglarını karşılaştırır.
+ * Vite tip denetimi yapmadığı için en.ts'de eksik/fazla ya da boş bir anahtar derlemeyi burada durdurur.
+ */
+export function i18nCheck(): Plugin {
+  return {
+    name: 'hekamap:i18n-check',
+    apply: 'build',
+    buildStart() {
+      const reference = CATALOGS[DEFAULT_LOCALE];
+      const problems = LOCALES.filter((locale) => locale !== DEFAULT_LOCALE).flatMap((locale) =>
+        findCatalogMismatches(reference, CATALOGS[locale]).map((key) => `  ${locale}: ${key}`)
+      );
+      if (problems.length > 0) {
+        this.error(`i18n: kataloglar ${DEFAULT_LOCALE} ile uyuşmuyor (eksik, fazla ya da boş anahtar):\n${problems.join('\n')}`);
+      }
+    },
+  };
+}
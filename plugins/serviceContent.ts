@@ -0,0 +1,37 @@
+import type { Plugin } from 'vite';
+import {
+  validateServiceCollection,
+  validateServiceLocale,
+  validateServiceMeta,
+  type ServiceContent,
+} from '../shared/content/services';
+import { contentCollectionPlugin, loadCollection, relativePath, type LoadedCollection } from './contentCollection';
+
+/**
+ * content/services/ altındaki hizmet dosyalarını okur, doğrular ve `virtual:service-content` olarak sunar.
+ * Geçersiz bir dosya derlemeyi (ve geliştirme sunucusunda sayfayı) dosya yolu + alan bazlı hatayla durdurur.
+ */
+export function loadServiceContent(contentDir: string): LoadedCollection<ServiceContent> {
+  const { entries, errors, files } = loadCollection(contentDir, {
+    validateMeta: validateServiceMeta,
+    validateLocale: validateServiceLocale,
+  });
+  const services: ServiceContent[] = entries.map(({ meta, locales }) => ({ ...meta, locales }));
+
+  if (errors.length === 0) {
+    errors.push(...validateServiceCollection(services).map((e) => `${relativePath(contentDir)}: ${e}`));
+  }
+  services.sort((a, b) => a.order - b.order);
+  return { entries: services, errors, files };
+}
+
+export function serviceContent(contentDir: string): Plugin {
+  return contentCollectionPlugin({
+    name: 'hekamap:service-content',
+    virtualId: 'virtual:service-content',
+    exportName: 'services',
+    contentDir,
+    errorTitle: 'Hizmet içeriği geçersiz',
+    load: () => loadServiceContent(contentDir),
+  });
+}
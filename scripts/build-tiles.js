@@ -0,0 +1,93 @@
+/**
+ * Büyük bir görseli (ortofoto, saha fotoğrafı, taranmış harita) XYZ karo piramidine böler.
+ * Kullanım: npm run tiles -- <kaynak> <çıktı-dizini> [--tile-size 256] [--format jpg|png] [--quality 82]
+ * Örnek:    npm run tiles -- ~/ortofoto.tif public/karolar/ornek-saha/ortofoto
+ *
+ * Çıktı: <dizin>/{z}/{x}/{y}.<format> ve görüntüleyicinin okuduğu <dizin>/tiles.json.
+ * En yüksek seviye (maxZoom) kaynağın özgün çözünürlüğüdür; her alt seviye yarı boyuttadır ve
+ * 0. seviye tek karoya sığar. Kenar karoları doldurulmaz, kalan genişlik kadar kesilir.
+ * Karşılaştırılacak iki katman aynı piksel boyutlarında (çakıştırılmış) olmalıdır.
+ *
+ * public/karolar/ornek-saha altındaki katmanlar, public/ornekler/lidar-ornek.las ile aynı sentetik
+ * sahenin çizimlerinden (ortofoto, ham drone karesi, eski harita) bu betikle üretilmiştir.
+ */
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import sharp from 'sharp';
+
+const FORMATS = ['jpg', 'png'];
+
+function parseArgs(argv) {
+  const positional = [];
+  const options = { tileSize: 256, format: 'jpg', quality: 82 };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--tile-size') options.tileSize = Number(argv[++i]);
+    else if (arg === '--format') options.format = argv[++i];
+    else if (arg === '--quality') options.quality = Number(argv[++i]);
+    else positional.push(arg);
+  }
+  const [source, outDir] = positional;
+  if (!source || !outDir) throw new Error('Kullanım: build-tiles.js <kaynak> <çıktı-dizini> [--tile-size 256] [--format jpg|png]');
+  if (!FORMATS.includes(options.format)) throw new Error(`--format şunlardan biri olmalı: ${FORMATS.join(', ')}`);
+  if (!Number.isInteger(options.tileSize) || options.tileSize < 64 || options.tileSize > 1024) {
+    throw new Error('--tile-size 64 ile 1024 arasında bir tam sayı olmalı');
+  }
+  return { source, outDir, ...options };
+}
+
+const encode = (image, { format, quality }) =>
+  format === 'png' ? image.png({ compressionLevel: 9 }) : image.jpeg({ quality, mozjpeg: true });
+
+async function main() {
+  const { source, outDir, tileSize, format, quality } = parseArgs(process.argv.slice(2));
+  // Ortofotolar varsayılan 268 MP sınırını kolayca aşar
+  // EXIF yönü uygulandıktan sonraki boyutlar için metadata() yerine çözülmüş görselin bilgisi kullanılır
+  let level = await sharp(source, { limitInputPixels: false })
+    .rotate()
+    .removeAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+  const { width, height } = level.info;
+
+  const maxZoom = Math.max(0, Math.ceil(Math.log2(Math.max(width, height) / tileSize)));
+  await rm(outDir, { recursive: true, force: true });
+
+  let tileCount = 0;
+  // Her seviye bir öncekinden küçültülür; kaynağı her seviyede yeniden çözmekten hızlıdır
+  for (let z = maxZoom; z >= 0; z--) {
+    const levelWidth = Math.ceil(width / 2 ** (maxZoom - z));
+    const levelHeight = Math.ceil(height / 2 ** (maxZoom - z));
+    if (level.info.width !== levelWidth || level.info.height !== levelHeight) {
+      level = await sharp(level.data, { raw: level.info })
+        .resize(levelWidth, levelHeight, { kernel: 'lanczos3' })
+        .raw()
+        .toBuffer({ resolveWithObject: true });
+    }
+
+    for (let x = 0; x * tileSize < levelWidth; x++) {
+      const dir = path.join(outDir, String(z), String(x));
+      await mkdir(dir, { recursive: true });
+      for (let y = 0; y * tileSize < levelHeight; y++) {
+        const region = {
+          left: x * tileSize,
+          top: y * tileSize,
+          width: Math.min(tileSize, levelWidth - x * tileSize),
+          height: Math.min(tileSize, levelHeight - y * tileSize),
+        };
+        const tile = sharp(level.data, { raw: level.info }).extract(region);
+        await encode(tile, { format, quality }).toFile(path.join(dir, `${y}.${format}`));
+        tileCount++;
+      }
+    }
+  }
+
+  const manifest = { width, height, tileSize, maxZoom, format };
+  await writeFile(path.join(outDir, 'tiles.json'), `${JSON.stringify(manifest, null, 2)}\n`);
+  console.log(`${width}x${height} px → ${maxZoom + 1} seviye, ${tileCount} karo: ${outDir}`);
+}
+
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+});
@@ -0,0 +1,193 @@
+/**
+ * Sınır dosyası okuyucusunun test dosyalarını üretir: shared/geo/fixtures/*
+ * Kullanım: node scripts/generate-geo-fixtures.js
+ *
+ * Geçerli dosyaların hepsinde aynı parsel vardır (Etimesgut'ta ~100 m x 78 m, aşağıdaki PARCEL);
+ * testler her biçimden aynı alanın okunduğunu denetler. Ayrıca kendisiyle kesişen (papyon) bir poligon,
+ * .shp içermeyen bir zip ve .prj'si UTM 36N olan projeksiyonlu bir Shapefile üretilir.
+ * ZIP'ler CRC alanı dahil eksiksiz yazılır; betik her zaman aynı baytları üretir.
+ */
+import { mkdirSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { deflateRawSync } from 'node:zlib';
+
+const OUTPUT_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../shared/geo/fixtures');
+
+// Saat yönünün tersine (GeoJSON dış halka yönü), kapalı
+const PARCEL = [
+  [32.68, 39.95],
+  [32.6812, 39.95],
+  [32.6812, 39.9507],
+  [32.68, 39.9507],
+  [32.68, 39.95],
+];
+// Köşe sırası karışık: kenarlar ortada kesişir
+const BOWTIE = [
+  [32.68, 39.95],
+  [32.6812, 39.9507],
+  [32.6812, 39.95],
+  [32.68, 39.9507],
+  [32.68, 39.95],
+];
+// Aynı parselin yaklaşık UTM 36N (metre) karşılığı; okuyucu CRS'i görüp dosyayı reddeder
+const PARCEL_UTM = [
+  [472700, 4422080],
+  [472802, 4422080],
+  [472802, 4422158],
+  [472700, 4422158],
+  [472700, 4422080],
+];
+
+const WGS84_PRJ =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+const UTM36N_PRJ =
+  'PROJCS["WGS_1984_UTM_Zone_36N",GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],' +
+  'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Transverse_Mercator"],PARAMETER["False_Easting",500000.0],' +
+  'PARAMETER["False_Northing",0.0],PARAMETER["Central_Meridian",33.0],PARAMETER["Scale_Factor",0.9996],' +
+  'PARAMETER["Latitude_Of_Origin",0.0],UNIT["Meter",1.0]]';
+
+const geojson = (ring) =>
+  `${JSON.stringify(
+    {
+      type: 'FeatureCollection',
+      features: [{ type: 'Feature', properties: { ada: 1234, parsel: 5 }, geometry: { type: 'Polygon', coordinates: [ring] } }],
+    },
+    null,
+    2
+  )}\n`;
+
+const kml = (ring) => `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>1234 ada 5 parsel</name>
+    <Placemark>
+      <name>Parsel</name>
+      <Polygon>
+        <outerBoundaryIs>
+          <LinearRing>
+            <coordinates>
+              ${ring.map(([lon, lat]) => `${lon},${lat},0`).join(' ')}
+            </coordinates>
+          </LinearRing>
+        </outerBoundaryIs>
+      </Polygon>
+    </Placemark>
+  </Document>
+</kml>
+`;
+
+/** Tek poligon kayıtlı .shp; Shapefile'da dış halka saat yönündedir, bu yüzden halka ters çevrilir */
+function shapefile(ring) {
+  const points = [...ring].reverse();
+  const xs = points.map(([x]) => x);
+  const ys = points.map(([, y]) => y);
+  const bbox = [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+
+  const contentLength = 44 + 4 + points.length * 16;
+  const buffer = Buffer.alloc(100 + 8 + contentLength);
+  buffer.writeInt32BE(9994, 0);
+  buffer.writeInt32BE(buffer.length / 2, 24);
+  buffer.writeInt32LE(1000, 28);
+  buffer.writeInt32LE(5, 32);
+  bbox.forEach((value, i) => buffer.writeDoubleLE(value, 36 + i * 8));
+
+  buffer.writeInt32BE(1, 100);
+  buffer.writeInt32BE(contentLength / 2, 104);
+  const content = 108;
+  buffer.writeInt32LE(5, content);
+  bbox.forEach((value, i) => buffer.writeDoubleLE(value, content + 4 + i * 8));
+  buffer.writeInt32LE(1, content + 36);
+  buffer.writeInt32LE(points.length, content + 40);
+  buffer.writeInt32LE(0, content + 44);
+  points.forEach(([x, y], i) => {
+    buffer.writeDoubleLE(x, content + 48 + i * 16);
+    buffer.writeDoubleLE(y, content + 56 + i * 16);
+  });
+  return buffer;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data) {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** entries: [ad, içerik]; .kml ve .shp deflate, diğerleri stored yazılır */
+function zip(entries) {
+  const locals = [];
+  const centrals = [];
+  let offset = 0;
+  for (const [name, value] of entries) {
+    const content = Buffer.from(value);
+    const nameBytes = Buffer.from(name, 'utf8');
+    const method = /\.(kml|shp)$/.test(name) ? 8 : 0;
+    const body = method === 8 ? deflateRawSync(content) : content;
+    const crc = crc32(content);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6); // UTF-8 adlar
+    local.writeUInt16LE(method, 8);
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(body.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(0x0800, 8);
+    central.writeUInt16LE(method, 10);
+    central.writeUInt32LE(crc, 16);
+    central.writeUInt32LE(body.length, 20);
+    central.writeUInt32LE(content.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBytes, body);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + body.length;
+  }
+  const centralSize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const eocd = Buffer.alloc(22);
+  eocd.writeUInt32LE(0x06054b50, 0);
+  eocd.writeUInt16LE(entries.length, 8);
+  eocd.writeUInt16LE(entries.length, 10);
+  eocd.writeUInt32LE(centralSize, 12);
+  eocd.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, ...centrals, eocd]);
+}
+
+const FIXTURES = {
+  'parcel.geojson': geojson(PARCEL),
+  'parcel.kml': kml(PARCEL),
+  'parcel.kmz': zip([['doc.kml', kml(PARCEL)]]),
+  'parcel-shp.zip': zip([
+    ['parsel/parsel.shp', shapefile(PARCEL)],
+    ['parsel/parsel.prj', WGS84_PRJ],
+  ]),
+  'bowtie.geojson': geojson(BOWTIE),
+  'no-shp.zip': zip([
+    ['parsel.dbf', Buffer.alloc(33)],
+    ['okubeni.txt', 'Shapefile katmanı bu arşive eklenmemiş.\n'],
+  ]),
+  'parcel-utm36n.zip': zip([
+    ['parsel_utm.shp', shapefile(PARCEL_UTM)],
+    ['parsel_utm.prj', UTM36N_PRJ],
+  ]),
+};
+
+mkdirSync(OUTPUT_DIR, { recursive: true });
+for (const [name, content] of Object.entries(FIXTURES)) {
+  writeFileSync(path.join(OUTPUT_DIR, name), content);
+}
+console.log(`${Object.keys(FIXTURES).length} dosya → ${path.relative(process.cwd(), OUTPUT_DIR)}`);
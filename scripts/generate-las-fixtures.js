@@ -0,0 +1,99 @@
+/**
+ * LAS okuyucusunun test dosyalarını üretir: shared/pointcloud/fixtures/*.las
+ * Kullanım: node scripts/generate-las-fixtures.js
+ *
+ * Her dosyada aynı beş nokta vardır (aşağıdaki POINTS); testler okunan değerleri bu listeyle karşılaştırır.
+ * LAS 1.2 formatları 0-3, LAS 1.4 formatları 1 (ek baytlı), 6, 7 ve 8; ayrıca noktasız ve LAZ işaretli
+ * birer dosya. Dosyalar birkaç yüz bayttır, depoya eklenir; betik her zaman aynı baytları üretir.
+ */
+import { mkdirSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const OUTPUT_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../shared/pointcloud/fixtures');
+
+// UTM 35N'de birkaç metrelik alan; sınıflar 2 zemin, 5 yüksek bitki, 6 bina
+const OFFSET = [505000, 4258000, 0];
+const SCALE = 0.001;
+const POINTS = [
+  { x: 505000.125, y: 4258000.5, z: 41.25, intensity: 1200, classification: 2 },
+  { x: 505010.0, y: 4258003.25, z: 42.0, intensity: 2400, classification: 2 },
+  { x: 505004.5, y: 4258008.0, z: 55.75, intensity: 30000, classification: 6 },
+  { x: 505007.75, y: 4258001.125, z: 48.5, intensity: 9000, classification: 5 },
+  { x: 505002.0, y: 4258006.5, z: 40.875, intensity: 65535, classification: 2 },
+];
+
+/** Nokta formatı → kayıt uzunluğu (ek bayt yok) */
+const RECORD_LENGTH = { 0: 20, 1: 28, 2: 26, 3: 34, 6: 30, 7: 36, 8: 38 };
+
+function writeLas({ minor, format, extraBytes = 0, points = POINTS, compressed = false }) {
+  const headerSize = minor >= 4 ? 375 : 227;
+  const recordLength = RECORD_LENGTH[format] + extraBytes;
+  const buffer = Buffer.alloc(headerSize + points.length * recordLength);
+  const min = [Infinity, Infinity, Infinity];
+  const max = [-Infinity, -Infinity, -Infinity];
+
+  points.forEach((p, i) => {
+    const base = headerSize + i * recordLength;
+    [p.x, p.y, p.z].forEach((value, axis) => {
+      buffer.writeInt32LE(Math.round((value - OFFSET[axis]) / SCALE), base + axis * 4);
+      min[axis] = Math.min(min[axis], value);
+      max[axis] = Math.max(max[axis], value);
+    });
+    buffer.writeUInt16LE(p.intensity, base + 12);
+    if (format >= 6) {
+      // Dönüş numarası/sayısı 14. bayt, bayraklar 15, sınıf 16
+      buffer.writeUInt8(0x11, base + 14);
+      buffer.writeUInt8(0, base + 15);
+      buffer.writeUInt8(p.classification, base + 16);
+    } else {
+      buffer.writeUInt8(0x09, base + 14);
+      // Üst bitler (sentetik, anahtar nokta, örtüşme) sınıf okunurken maskelenmeli
+      buffer.writeUInt8(p.classification | 0x80, base + 15);
+    }
+    // Kalan alanlar (tarama açısı, GPS zamanı, renk, ek baytlar) sıfırdan farklı doldurulur
+    for (let offset = format >= 6 ? 17 : 16; offset < recordLength; offset++) buffer.writeUInt8(0xa5, base + offset);
+  });
+
+  buffer.write('LASF', 0, 'ascii');
+  buffer.writeUInt8(1, 24);
+  buffer.writeUInt8(minor, 25);
+  buffer.write('HEKAMAP', 26, 'ascii');
+  buffer.write('HekaMap test dosyasi', 58, 'ascii');
+  buffer.writeUInt16LE(32, 90);
+  buffer.writeUInt16LE(2026, 92);
+  buffer.writeUInt16LE(headerSize, 94);
+  buffer.writeUInt32LE(headerSize, 96);
+  buffer.writeUInt8(format | (compressed ? 0x80 : 0), 104);
+  buffer.writeUInt16LE(recordLength, 105);
+  // 1.4'te 6+ formatlarda eski 32 bit sayı alanı 0 yazılır, gerçek sayı 247'deki 64 bit alandadır
+  buffer.writeUInt32LE(minor >= 4 && format >= 6 ? 0 : points.length, 107);
+  [SCALE, SCALE, SCALE].forEach((value, i) => buffer.writeDoubleLE(value, 131 + i * 8));
+  OFFSET.forEach((value, i) => buffer.writeDoubleLE(value, 155 + i * 8));
+  [0, 1, 2].forEach((axis) => {
+    buffer.writeDoubleLE(points.length ? max[axis] : 0, 179 + axis * 16);
+    buffer.writeDoubleLE(points.length ? min[axis] : 0, 187 + axis * 16);
+  });
+  if (minor >= 4) buffer.writeBigUInt64LE(BigInt(points.length), 247);
+  return buffer;
+}
+
+const FIXTURES = {
+  'las12-format0.las': { minor: 2, format: 0 },
+  'las12-format1.las': { minor: 2, format: 1 },
+  'las12-format2.las': { minor: 2, format: 2 },
+  'las12-format3.las': { minor: 2, format: 3 },
+  'las14-format1-extra.las': { minor: 4, format: 1, extraBytes: 4 },
+  'las14-format6.las': { minor: 4, format: 6 },
+  'las14-format7.las': { minor: 4, format: 7 },
+  'las14-format8.las': { minor: 4, format: 8 },
+  'las12-empty.las': { minor: 2, format: 0, points: [] },
+  'laz12-format3.las': { minor: 2, format: 3, compressed: true },
+};
+
+mkdirSync(OUTPUT_DIR, { recursive: true });
+for (const [name, options] of Object.entries(FIXTURES)) {
+  writeFileSync(path.join(OUTPUT_DIR, name), writeLas(options));
+}
+writeFileSync(path.join(OUTPUT_DIR, 'points.json'), `${JSON.stringify({ scale: SCALE, points: POINTS }, null, 2)}\n`);
+console.log(`${Object.keys(FIXTURES).length} dosya → ${path.relative(process.cwd(), OUTPUT_DIR)}`);
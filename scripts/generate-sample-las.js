@@ -0,0 +1,175 @@
+/**
+ * LiDAR hizmet sayfasındaki örnek nokta bulutunu üretir: public/ornekler/lidar-ornek.las
+ * Kullanım: node scripts/generate-sample-las.js
+ *
+ * Gerçek müşteri verisi paylaşılamadığından sahne sentetiktir: eğimli arazi, binalar, ağaçlar,
+ * yol ve gölet. LAS 1.2, nokta formatı 0, ASPRS sınıfları (2 zemin, 3/5 bitki, 6 bina, 9 su, 11 yol).
+ * Sabit tohumlu rastgele sayı üreteci kullanılır; aynı betik her zaman aynı dosyayı üretir.
+ */
+import { mkdirSync, writeFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const OUTPUT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../public/ornekler/lidar-ornek.las');
+
+// UTM 35N'de (EPSG:32635) İzmir çevresinde 220 x 160 m'lik bir alan
+const ORIGIN = [505000, 4258000];
+const WIDTH = 220;
+const HEIGHT = 160;
+const SPACING = 0.65;
+const SCALE = 0.01;
+
+let seed = 20240611;
+const random = () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+const jitter = (amount) => (random() - 0.5) * amount;
+
+const terrain = (x, y) => 42 + 6 * Math.sin(x / 55) + 4 * Math.cos(y / 40) + 0.02 * x + 1.5 * Math.sin((x + y) / 17);
+
+const BUILDINGS = [
+  { x: 30, y: 95, w: 34, d: 22, height: 12, gable: false },
+  { x: 78, y: 100, w: 26, d: 18, height: 9, gable: true },
+  { x: 120, y: 92, w: 44, d: 28, height: 18, gable: false },
+  { x: 40, y: 30, w: 22, d: 30, height: 7, gable: true },
+  { x: 150, y: 25, w: 30, d: 20, height: 10, gable: true },
+].map((b) => ({ ...b, base: terrain(b.x + b.w / 2, b.y + b.d / 2) }));
+
+const TREES = [];
+while (TREES.length < 70) {
+  const tree = { x: random() * WIDTH, y: random() * HEIGHT, r: 2.5 + random() * 3, h: 7 + random() * 9 };
+  const onBuilding = BUILDINGS.some((b) => tree.x > b.x - 4 && tree.x < b.x + b.w + 4 && tree.y > b.y - 4 && tree.y < b.y + b.d + 4);
+  const onRoad = Math.abs(tree.y - 65) < 9;
+  const onPond = Math.hypot(tree.x - 185, tree.y - 125) < 26;
+  if (!onBuilding && !onRoad && !onPond) TREES.push(tree);
+}
+
+const points = [];
+const add = (x, y, z, intensity, classification, returnNumber = 1, returnCount = 1) =>
+  points.push({
+    x,
+    y,
+    z,
+    intensity: Math.max(0, Math.min(65535, Math.round(intensity))),
+    classification,
+    returnNumber,
+    returnCount,
+  });
+
+const roofHeight = (b, x, y) => {
+  if (!b.gable) return b.base + b.height;
+  // Beşik çatı: mahya uzun kenar boyunca
+  const ridge = Math.abs(y - (b.y + b.d / 2)) / (b.d / 2);
+  return b.base + b.height + 3 * (1 - ridge);
+};
+
+// Uçuş hattı sırası: satır satır (LAS okuyucusundaki sabit adımlı seyreltme bu sırayı varsayar)
+for (let gy = 0; gy < HEIGHT; gy += SPACING) {
+  for (let gx = 0; gx < WIDTH; gx += SPACING) {
+    const x = gx + jitter(SPACING);
+    const y = gy + jitter(SPACING);
+    const ground = terrain(x, y);
+
+    const building = BUILDINGS.find((b) => x >= b.x && x <= b.x + b.w && y >= b.y && y <= b.y + b.d);
+    if (building) {
+      add(x, y, roofHeight(building, x, y) + jitter(0.04), 30000 + jitter(6000), 6);
+      continue;
+    }
+
+    const tree = TREES.find((t) => Math.hypot(x - t.x, y - t.y) < t.r);
+    if (tree) {
+      const falloff = 1 - (Math.hypot(x - tree.x, y - tree.y) / tree.r) ** 2;
+      const crown = terrain(tree.x, tree.y) + tree.h - tree.r * (1 - Math.sqrt(falloff));
+      // Tepe örtüsünden sızan ışın zeminden ikinci dönüş verir
+      const returnCount = random() < 0.35 ? 2 : 1;
+      add(x, y, crown + jitter(0.8), 14000 + jitter(8000), 5, 1, returnCount);
+      if (returnCount === 2) add(x, y, ground + jitter(0.05), 9000 + jitter(4000), 2, 2, 2);
+      continue;
+    }
+
+    if (Math.hypot(x - 185, y - 125) < 22 + 3 * Math.sin(Math.atan2(y - 125, x - 185) * 3)) {
+      // Su yüzeyi lazeri çoğunlukla yansıtmaz; az ve düşük yoğunluklu nokta
+      if (random() < 0.2) add(x, y, 38.2 + jitter(0.03), 1500 + jitter(1000), 9);
+      continue;
+    }
+
+    const roadOffset = Math.abs(y - 65 - 4 * Math.sin(x / 45));
+    if (roadOffset < 4) {
+      const marking = roadOffset < 0.12 && Math.floor(x / 3) % 2 === 0;
+      add(x, y, ground - 0.15 + jitter(0.02), marking ? 52000 : 9000 + jitter(2000), 11);
+      continue;
+    }
+
+    const shrub = Math.sin(x / 6) * Math.cos(y / 7) > 0.75;
+    if (shrub && random() < 0.6) {
+      add(x, y, ground + 0.3 + random() * 0.6, 19000 + jitter(5000), 3);
+    } else {
+      add(x, y, ground + jitter(0.05), 21000 + jitter(5000), 2);
+    }
+  }
+
+  // Bina cepheleri: tarama hattı cepheyi eğik gördüğü için seyrek dikey noktalar
+  for (const b of BUILDINGS) {
+    if (gy < b.y || gy > b.y + b.d) continue;
+    for (let z = b.base; z < b.base + b.height; z += 1.2) {
+      for (const x of [b.x, b.x + b.w]) {
+        if (random() < 0.5) add(x + jitter(0.05), gy + jitter(SPACING), z, 24000 + jitter(4000), 6);
+      }
+    }
+  }
+}
+
+const HEADER_SIZE = 227;
+const RECORD_LENGTH = 20;
+const buffer = Buffer.alloc(HEADER_SIZE + points.length * RECORD_LENGTH);
+const min = [Infinity, Infinity, Infinity];
+const max = [-Infinity, -Infinity, -Infinity];
+const returns = [0, 0, 0, 0, 0];
+
+points.forEach((p, i) => {
+  const ints = [Math.round(p.x / SCALE), Math.round(p.y / SCALE), Math.round(p.z / SCALE)];
+  const base = HEADER_SIZE + i * RECORD_LENGTH;
+  ints.forEach((value, axis) => {
+    buffer.writeInt32LE(value, base + axis * 4);
+    // Sınırlar dosyadaki (ölçeklenmiş) değerlerden hesaplanır
+    const coord = value * SCALE + (ORIGIN[axis] ?? 0);
+    min[axis] = Math.min(min[axis], coord);
+    max[axis] = Math.max(max[axis], coord);
+  });
+  buffer.writeUInt16LE(p.intensity, base + 12);
+  // Dönüş numarası bit 0-2, toplam dönüş sayısı bit 3-5
+  buffer.writeUInt8(p.returnNumber | (p.returnCount << 3), base + 14);
+  buffer.writeUInt8(p.classification, base + 15);
+  buffer.writeInt8(0, base + 16);
+  buffer.writeUInt8(0, base + 17);
+  buffer.writeUInt16LE(1, base + 18);
+  returns[p.returnNumber - 1]++;
+});
+
+buffer.write('LASF', 0, 'ascii');
+buffer.writeUInt8(1, 24);
+buffer.writeUInt8(2, 25);
+buffer.write('HEKAMAP', 26, 'ascii');
+buffer.write('HekaMap ornek veri ureteci', 58, 'ascii');
+buffer.writeUInt16LE(163, 90);
+buffer.writeUInt16LE(2024, 92);
+buffer.writeUInt16LE(HEADER_SIZE, 94);
+buffer.writeUInt32LE(HEADER_SIZE, 96);
+buffer.writeUInt32LE(0, 100);
+buffer.writeUInt8(0, 104);
+buffer.writeUInt16LE(RECORD_LENGTH, 105);
+buffer.writeUInt32LE(points.length, 107);
+returns.forEach((count, i) => buffer.writeUInt32LE(count, 111 + i * 4));
+[SCALE, SCALE, SCALE].forEach((value, i) => buffer.writeDoubleLE(value, 131 + i * 8));
+[ORIGIN[0], ORIGIN[1], 0].forEach((value, i) => buffer.writeDoubleLE(value, 155 + i * 8));
+[0, 1, 2].forEach((axis) => {
+  buffer.writeDoubleLE(max[axis], 179 + axis * 16);
+  buffer.writeDoubleLE(min[axis], 187 + axis * 16);
+});
+
+mkdirSync(path.dirname(OUTPUT), { recursive: true });
+writeFileSync(OUTPUT, buffer);
+console.log(`${points.length} nokta → ${path.relative(process.cwd(), OUTPUT)} (${(buffer.length / 1e6).toFixed(1)} MB)`);
@@ -0,0 +1,82 @@
+/**
+ * CRM webhook'larını yerelde denemek için sahte alıcı
+ * Kullanım: CRM_WEBHOOK_SECRET=<anahtar> node scripts/mock-crm-receiver.js [--port 4100] [--fail 3] [--fail-rate 0.5]
+ *
+ * .dev.vars: CRM_WEBHOOK_URLS=http://localhost:4100/hooks/crm ve aynı CRM_WEBHOOK_SECRET
+ * İmza ve zaman damgası doğrulanır, olay konsola yazılır. --fail n ilk n isteği 503 ile reddeder,
+ * --fail-rate her isteği verilen olasılıkla reddeder; yeniden deneme ve ölü mektup akışı böyle sınanır.
+ * Kuyruğu beklemeden işletmek için: curl -X POST -H "Authorization: Bearer <WEBHOOK_CRON_TOKEN>" http://localhost:8788/api/webhooks/process
+ */
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 && args[index + 1] !== undefined ? Number(args[index + 1]) : fallback;
+};
+
+const PORT = option('port', 4100);
+const FAIL_FIRST = option('fail', 0);
+const FAIL_RATE = option('fail-rate', 0);
+// Gönderen tarafla aynı tolerans: eski imzalı istek tekrar oynatılamaz
+const TOLERANCE_SECONDS = 5 * 60;
+
+const secret = process.env.CRM_WEBHOOK_SECRET;
+if (!secret) {
+  console.error('CRM_WEBHOOK_SECRET ortam değişkeni gerekli');
+  process.exit(1);
+}
+
+/** X-Hekamap-Signature: t=<unix sn>,v1=<hex> ; imzalanan metin "<t>.<ham gövde>" */
+function verifySignature(header, body) {
+  const parts = Object.fromEntries((header || '').split(',').map((part) => part.trim().split('=')));
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !/^[0-9a-f]{64}$/.test(parts.v1 || '')) return 'imza başlığı hatalı';
+  if (Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS) return 'zaman damgası çok eski';
+  const expected = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest();
+  return timingSafeEqual(expected, Buffer.from(parts.v1, 'hex')) ? null : 'imza uyuşmuyor';
+}
+
+const seenEvents = new Set();
+let received = 0;
+
+const server = createServer((req, res) => {
+  if (req.method !== 'POST') {
+    res.writeHead(405).end();
+    return;
+  }
+
+  const chunks = [];
+  req.on('data', (chunk) => chunks.push(chunk));
+  req.on('end', () => {
+    received++;
+    const body = Buffer.concat(chunks).toString('utf8');
+    const delivery = req.headers['x-hekamap-delivery'];
+    const eventId = req.headers['x-hekamap-event-id'];
+
+    const signatureError = verifySignature(req.headers['x-hekamap-signature'], body);
+    if (signatureError) {
+      console.warn(`✗ #${delivery} reddedildi: ${signatureError}`);
+      res.writeHead(401, { 'Content-Type': 'text/plain' }).end(signatureError);
+      return;
+    }
+
+    if (received <= FAIL_FIRST || Math.random() < FAIL_RATE) {
+      console.warn(`↻ #${delivery} ${req.headers['x-hekamap-event']} için hata simüle edildi (503)`);
+      res.writeHead(503, { 'Content-Type': 'text/plain' }).end('simulated outage');
+      return;
+    }
+
+    const event = JSON.parse(body);
+    const duplicate = seenEvents.has(eventId);
+    seenEvents.add(eventId);
+    console.log(`✓ #${delivery} ${event.type} v${event.version} ${event.id}${duplicate ? ' (tekrar, yok sayıldı)' : ''}`);
+    if (!duplicate) console.log(JSON.stringify(event.data, null, 2));
+    res.writeHead(200, { 'Content-Type': 'application/json' }).end('{"ok":true}');
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Sahte CRM alıcısı http://localhost:${PORT} adresinde dinliyor`);
+});
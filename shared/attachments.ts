@@ -0,0 +1,99 @@
+import { DEFAULT_LOCALE, format, getMessages, type Locale } from './i18n';
+
+/**
+ * İletişim formu ekleri için kurallar
+ * ContactModal dosya seçiminde, contact-support.ts multipart gövdeyi okurken aynı kontrolleri yapar.
+ * Hata mesajları ziyaretçinin diline göre üretilir (shared/i18n).
+ * Mailgun mesaj başına 25 MB sınırı koyar; toplam sınır bunun altında tutulur.
+ */
+export const ATTACHMENT_LIMITS = {
+  maxFiles: 3,
+  maxFileBytes: 10 * 1024 * 1024,
+  maxTotalBytes: 20 * 1024 * 1024,
+} as const;
+
+/**
+ * Uzantı -> kabul edilen MIME tipleri.
+ * KML/KMZ/GeoJSON/DXF için tarayıcılar çoğu zaman boş ya da application/octet-stream gönderir, bu yüzden
+ * kontrol uzantı üzerinden yapılır ve MIME yalnızca bilinen yanlış tipleri elemek için kullanılır.
+ */
+export const ALLOWED_ATTACHMENT_TYPES = {
+  kml: ['application/vnd.google-earth.kml+xml', 'application/xml', 'text/xml'],
+  kmz: ['application/vnd.google-earth.kmz', 'application/zip', 'application/x-zip-compressed'],
+  geojson: ['application/geo+json', 'application/json'],
+  zip: ['application/zip', 'application/x-zip-compressed'],
+  dxf: ['image/vnd.dxf', 'application/dxf', 'application/x-dxf', 'image/x-dxf'],
+  pdf: ['application/pdf'],
+  jpg: ['image/jpeg'],
+  jpeg: ['image/jpeg'],
+  png: ['image/png'],
+  webp: ['image/webp'],
+} as const satisfies Record<string, readonly string[]>;
+
+export type AttachmentExtension = keyof typeof ALLOWED_ATTACHMENT_TYPES;
+
+// Uzantıdan bağımsız her zaman kabul edilen genel tipler
+const GENERIC_MIME_TYPES = ['', 'application/octet-stream'];
+
+// Hata mesajlarında listelenen türler (her iki dilde aynı)
+const ALLOWED_TYPES_LABEL = 'KML, KMZ, GeoJSON, Shapefile (ZIP), DXF, PDF, JPG, PNG, WEBP';
+
+/** <input type="file" accept="..."> değeri */
+export const ATTACHMENT_ACCEPT = Object.keys(ALLOWED_ATTACHMENT_TYPES)
+  .map((ext) => `.${ext}`)
+  .join(',');
+
+export interface AttachmentInfo {
+  name: string;
+  size: number;
+  type: string;
+}
+
+export function getFileExtension(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot === -1 ? '' : name.slice(dot + 1).toLowerCase();
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+/** Tek dosyayı kontrol eder; sorun yoksa null döndürür */
+export function validateAttachment(file: AttachmentInfo, locale: Locale = DEFAULT_LOCALE): string | null {
+  const m = getMessages(locale).attachments;
+  const ext = getFileExtension(file.name);
+  const allowedMimes = (ALLOWED_ATTACHMENT_TYPES as Record<string, readonly string[]>)[ext];
+  if (!allowedMimes) {
+    return format(m.unsupportedType, { name: file.name, types: ALLOWED_TYPES_LABEL });
+  }
+  if (!GENERIC_MIME_TYPES.includes(file.type) && !allowedMimes.includes(file.type)) {
+    return format(m.typeMismatch, { name: file.name });
+  }
+  if (file.size === 0) {
+    return format(m.empty, { name: file.name });
+  }
+  if (file.size > ATTACHMENT_LIMITS.maxFileBytes) {
+    return format(m.tooLarge, { name: file.name, max: formatFileSize(ATTACHMENT_LIMITS.maxFileBytes) });
+  }
+  return null;
+}
+
+/** Dosya listesinin tamamını kontrol eder; ilk hatayı döndürür */
+export function validateAttachments(files: AttachmentInfo[], locale: Locale = DEFAULT_LOCALE): string | null {
+  const m = getMessages(locale).attachments;
+  if (files.length > ATTACHMENT_LIMITS.maxFiles) {
+    return format(m.tooMany, { max: ATTACHMENT_LIMITS.maxFiles });
+  }
+  for (const file of files) {
+    const error = validateAttachment(file, locale);
+    if (error) return error;
+  }
+  const total = files.reduce((sum, f) => sum + f.size, 0);
+  if (total > ATTACHMENT_LIMITS.maxTotalBytes) {
+    return format(m.totalTooLarge, { max: formatFileSize(ATTACHMENT_LIMITS.maxTotalBytes) });
+  }
+  return null;
+}
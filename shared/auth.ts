@@ -0,0 +1,47 @@
+/**
+ * Müşteri portalı: şifresiz (magic link) giriş
+ * LoginPage/PortalPage (tarayıcı) ve functions/api/auth/* aynı tipleri ve süreleri kullanır.
+ * Oturum çerezi HttpOnly olduğundan tarayıcı oturumu yalnızca /api/auth/session yanıtından öğrenir.
+ */
+
+/** Giriş bağlantısının geçerlilik süresi; e-postadaki nota da yazılır */
+export const LOGIN_LINK_TTL_MINUTES = 15;
+export const SESSION_TTL_DAYS = 30;
+
+/** staff: portalda teslimat yükleyebilen HEKAMAP personeli */
+export const ACCOUNT_ROLES = ['client', 'staff'] as const;
+export type AccountRole = (typeof ACCOUNT_ROLES)[number];
+
+export interface PortalAccount {
+  id: string;
+  email: string;
+  name: string;
+  role: AccountRole;
+}
+
+/** Hesabın açık oturumları; id çerezdeki anahtar değildir, yalnızca iptal için kullanılır */
+export interface PortalSessionInfo {
+  id: string;
+  createdAt: string;
+  lastSeenAt: string;
+  userAgent: string;
+  current: boolean;
+}
+
+/** Portalda listelenen, hesabın e-posta adresiyle bırakılmış talepler */
+export interface PortalRequestSummary {
+  id: string;
+  subject: string;
+  createdAt: string;
+}
+
+/**
+ * Girişten sonra dönülecek yol. Açık yönlendirmeye karşı yalnızca site içi mutlak yollar kabul edilir
+ * ("//evil.example" ve "/\evil.example" tarayıcıda başka siteye gider).
+ */
+export function safeNextPath(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.startsWith('/') || value.startsWith('//') || value.includes('\\')) {
+    return null;
+  }
+  return value.length <= 200 ? value : null;
+}
@@ -0,0 +1,189 @@
+import { SERVICE_IDS, type ServiceId } from './services';
+import { DEFAULT_LOCALE, format, formatPlural, getMessages, type Locale } from './i18n';
+
+/**
+ * İletişim formu şeması
+ * ContactModal (tarayıcı) ve functions/api/contact-support.ts (Pages Function) aynı kuralları kullanır.
+ * Hata mesajları ziyaretçinin diline göre shared/i18n kataloglarından üretilir.
+ */
+
+// ContactModal'daki <select> seçenekleri ile birebir aynı olmalı
+export const CONTACT_SUBJECTS = ['Lidar Hizmeti', 'Drone Fotogrametri', 'Genel Danışmanlık'] as const;
+
+export type ContactSubject = (typeof CONTACT_SUBJECTS)[number];
+
+/** Hizmet sayfalarından açılan formlarda konu alanının ön seçimi */
+export const SERVICE_CONTACT_SUBJECTS: Record<ServiceId, ContactSubject> = {
+  [SERVICE_IDS.LIDAR]: 'Lidar Hizmeti',
+  [SERVICE_IDS.DRONE]: 'Drone Fotogrametri',
+  [SERVICE_IDS.HARITA]: 'Genel Danışmanlık',
+  [SERVICE_IDS.ORMANCILIK]: 'Genel Danışmanlık',
+  [SERVICE_IDS.MADENCILIK]: 'Genel Danışmanlık',
+};
+
+/** Hizmet bazında taahhüt edilen ilk dönüş süresi, iş günü (onay e-postasında listelenir) */
+export const CONTACT_RESPONSE_DAYS: Record<ContactSubject, number> = {
+  'Lidar Hizmeti': 2,
+  'Drone Fotogrametri': 1,
+  'Genel Danışmanlık': 3,
+};
+
+export const CONTACT_LIMITS = {
+  firstName: 60,
+  lastName: 60,
+  email: 254,
+  phone: 25,
+  messageMin: 10,
+  message: 5000,
+} as const;
+
+export interface ContactPayload {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  subject: ContactSubject | '';
+  message: string;
+}
+
+export type ContactField = keyof ContactPayload;
+
+// 'attachments' dosya eklerine ait hatayı taşır (bkz. shared/attachments.ts)
+export type ContactFieldErrors = Partial<Record<ContactField | 'attachments', string>>;
+
+export type ContactValidationResult =
+  | { ok: true; data: ContactPayload }
+  | { ok: false; errors: ContactFieldErrors };
+
+/** Sunucunun 400 yanıtında döndürdüğü gövde */
+export interface ContactErrorResponse {
+  ok: false;
+  error: string;
+  fieldErrors?: ContactFieldErrors;
+}
+
+// RFC 5322'nin pratik alt kümesi: yerel kısım@alan.tld
+const EMAIL_PATTERN = /^[A-Za-z0-9.!#$%&'*+/=?^_`{|}~-]+@[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?(?:\.[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?)+$/;
+
+// Türkiye numaraları: +90 / 0090 / 0 önekli ya da öneksiz 10 hane.
+// Alan kodu 2-5 ile başlar (sabit hat 2xx-4xx, mobil 5xx).
+const TR_PHONE_PATTERN = /^(?:\+90|0090|0)?[2-5]\d{9}$/;
+
+/** Boşluk, tire, nokta ve parantezleri atarak numarayı karşılaştırılabilir hale getirir */
+export function normalizePhone(phone: string): string {
+  return phone.replace(/[\s\-().]/g, '');
+}
+
+export function isValidEmail(email: string): boolean {
+  return email.length <= CONTACT_LIMITS.email && EMAIL_PATTERN.test(email);
+}
+
+export function isValidTurkishPhone(phone: string): boolean {
+  return TR_PHONE_PATTERN.test(normalizePhone(phone));
+}
+
+const asTrimmedString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Ham gövdeyi doğrular ve temizlenmiş payload döndürür.
+ * Tanınmayan alanlar sessizce atılır.
+ */
+export function validateContactPayload(input: unknown, locale: Locale = DEFAULT_LOCALE): ContactValidationResult {
+  const m = getMessages(locale).validation;
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+
+  const data: ContactPayload = {
+    firstName: asTrimmedString(raw.firstName),
+    lastName: asTrimmedString(raw.lastName),
+    email: asTrimmedString(raw.email).toLowerCase(),
+    phone: asTrimmedString(raw.phone),
+    subject: asTrimmedString(raw.subject) as ContactPayload['subject'],
+    message: asTrimmedString(raw.message),
+  };
+
+  const errors: ContactFieldErrors = {};
+
+  if (data.firstName.length > CONTACT_LIMITS.firstName) {
+    errors.firstName = format(m.firstNameTooLong, { max: CONTACT_LIMITS.firstName });
+  }
+  if (data.lastName.length > CONTACT_LIMITS.lastName) {
+    errors.lastName = format(m.lastNameTooLong, { max: CONTACT_LIMITS.lastName });
+  }
+
+  if (!data.email) {
+    errors.email = m.emailRequired;
+  } else if (!isValidEmail(data.email)) {
+    errors.email = m.emailInvalid;
+  }
+
+  if (data.phone) {
+    if (data.phone.length > CONTACT_LIMITS.phone || !isValidTurkishPhone(data.phone)) {
+      errors.phone = m.phoneInvalid;
+    }
+  }
+
+  if (data.subject && !(CONTACT_SUBJECTS as readonly string[]).includes(data.subject)) {
+    errors.subject = m.subjectInvalid;
+  }
+
+  if (!data.message) {
+    errors.message = m.messageRequired;
+  } else if (data.message.length < CONTACT_LIMITS.messageMin) {
+    errors.message = format(m.messageTooShort, { min: CONTACT_LIMITS.messageMin });
+  } else if (data.message.length > CONTACT_LIMITS.message) {
+    errors.message = format(m.messageTooLong, { max: CONTACT_LIMITS.message });
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { ok: false, errors };
+  }
+  return { ok: true, data };
+}
+
+/**
+ * Form açıldığında tarayıcıda üretilen gönderim kimliği.
+ * Aynı formun tekrar gönderilmesi (ör. ağ hatası sonrası) sunucuda mükerrer lead ve e-posta üretmez.
+ */
+const SUBMISSION_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+export function readSubmissionId(input: unknown): string | null {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  return typeof raw.submissionId === 'string' && SUBMISSION_ID_PATTERN.test(raw.submissionId)
+    ? raw.submissionId
+    : null;
+}
+
+/**
+ * Spam koruması
+ * Honeypot alanı gerçek kullanıcıya görünmez; doluysa gönderim bot kabul edilir.
+ * startedAt formun açıldığı an (ms); bundan kısa sürede gönderilen formlar reddedilir.
+ */
+export const HONEYPOT_FIELD = 'website';
+export const MIN_FILL_TIME_MS = 3000;
+
+export interface ContactSpamSignals {
+  honeypot: string;
+  startedAt: number | null;
+}
+
+export function readSpamSignals(input: unknown): ContactSpamSignals {
+  const raw = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  // Multipart gövdede sayılar string olarak gelir
+  const startedAtValue = typeof raw.startedAt === 'string' ? Number(raw.startedAt) : raw.startedAt;
+  const startedAt = typeof startedAtValue === 'number' && Number.isFinite(startedAtValue) ? startedAtValue : null;
+  return { honeypot: asTrimmedString(raw[HONEYPOT_FIELD]), startedAt };
+}
+
+/** Bot şüphesi varsa nedenini, yoksa null döndürür */
+export function detectSpam(signals: ContactSpamSignals, now = Date.now()): 'honeypot' | 'too-fast' | null {
+  if (signals.honeypot) return 'honeypot';
+  if (signals.startedAt === null || now - signals.startedAt < MIN_FILL_TIME_MS) return 'too-fast';
+  return null;
+}
+
+/** 429 yanıtındaki bekleme süresini kullanıcıya okunur şekilde anlatır */
+export function formatRetryAfter(seconds: number, locale: Locale = DEFAULT_LOCALE): string {
+  const { time } = getMessages(locale);
+  if (seconds < 60) return formatPlural(time.seconds, Math.max(1, Math.ceil(seconds)), locale);
+  return formatPlural(time.minutes, Math.ceil(seconds / 60), locale);
+}
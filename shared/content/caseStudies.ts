@@ -0,0 +1,226 @@
+import { SERVICE_IDS, type ServiceId } from '../services';
+import type { Locale } from '../i18n/locales';
+import type { FrontMatterValue } from './frontMatter';
+import type { RichText } from './richText';
+import type { ServiceKey } from './services';
+import { validateComparison, type ImageComparison } from './comparison';
+import {
+  asRecord,
+  ASSET_PATTERN,
+  findDuplicates,
+  isNonEmptyString,
+  oneOf,
+  SLUG_PATTERN,
+  type SchemaResult,
+} from './schema';
+
+/**
+ * Referans proje (case study) şeması
+ * Kaynak: content/referanslar/<slug>/meta.json + <dil>.md; plugins/caseStudyContent.ts ile
+ * `virtual:case-studies` modülüne derlenir. Yapı hizmet koleksiyonuyla aynıdır (bkz. ./services.ts).
+ */
+export const CLIENT_TYPES = ['maden', 'belediye', 'kamu', 'enerji', 'insaat', 'ozel'] as const;
+export type ClientType = (typeof CLIENT_TYPES)[number];
+
+/** Proje ölçekleri; en az biri verilmelidir, görünen etiketler i18n kataloğundadır */
+export interface CaseStudyMetrics {
+  areaHectares?: number;
+  pointsCaptured?: number;
+  accuracyCm?: number;
+}
+
+export interface CaseStudyLocation {
+  province: string;
+  district?: string;
+  /** [boylam, enlem] - GeoJSON sırası */
+  coordinates: [number, number];
+}
+
+export interface CaseStudyLocaleContent {
+  title: string;
+  /** İndeks kartında görünen kısa özet */
+  summary: string;
+  deliverables: string[];
+  /** Galerideki görsellerle aynı sırada alt yazılar; verilmezse başlık kullanılır */
+  captions: string[];
+  body: RichText;
+}
+
+export interface CaseStudyContent {
+  slug: string;
+  year: number;
+  clientType: ClientType;
+  services: ServiceId[];
+  location: CaseStudyLocation;
+  metrics: CaseStudyMetrics;
+  cover: string;
+  gallery: string[];
+  /** Proje sayfasında galeri üstünde gösterilen önce/sonra karşılaştırması */
+  comparison: ImageComparison | null;
+  locales: Record<Locale, CaseStudyLocaleContent>;
+}
+
+export type CaseStudyMeta = Omit<CaseStudyContent, 'locales'>;
+
+const META_KEYS = ['slug', 'year', 'clientType', 'services', 'location', 'metrics', 'cover', 'gallery', 'comparison'];
+const METRIC_KEYS: (keyof CaseStudyMetrics)[] = ['areaHectares', 'pointsCaptured', 'accuracyCm'];
+
+// Türkiye ve çevresi; yanlışlıkla yer değiştirmiş enlem/boylamı yakalamak için yeterli
+const TURKEY_BBOX = { minLon: 25, maxLon: 45, minLat: 35, maxLat: 43 };
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0;
+
+export function validateCaseStudyMeta(raw: unknown, directory: string): SchemaResult<CaseStudyMeta> {
+  const errors: string[] = [];
+  const meta = asRecord(raw);
+
+  for (const key of Object.keys(meta)) {
+    if (!META_KEYS.includes(key)) errors.push(`bilinmeyen alan "${key}"`);
+  }
+
+  if (!isNonEmptyString(meta.slug) || !SLUG_PATTERN.test(meta.slug)) {
+    errors.push('slug küçük harf, rakam ve tireden oluşmalı (ör. "soma-acik-ocak")');
+  } else if (meta.slug !== directory) {
+    errors.push(`slug ("${meta.slug}") dizin adıyla ("${directory}") aynı olmalı`);
+  }
+  const currentYear = new Date().getFullYear();
+  if (!Number.isInteger(meta.year) || (meta.year as number) < 2000 || (meta.year as number) > currentYear) {
+    errors.push(`year 2000-${currentYear} aralığında bir yıl olmalı`);
+  }
+  if (!oneOf(CLIENT_TYPES, meta.clientType)) {
+    errors.push(`clientType şunlardan biri olmalı: ${CLIENT_TYPES.join(', ')}`);
+  }
+
+  const serviceKeys = Object.keys(SERVICE_IDS) as ServiceKey[];
+  if (!Array.isArray(meta.services) || meta.services.length === 0) {
+    errors.push('services en az bir hizmet içeren bir liste olmalı (ör. ["LIDAR"])');
+  } else {
+    meta.services.forEach((key, idx) => {
+      if (!oneOf(serviceKeys, key)) errors.push(`services[${idx}] şunlardan biri olmalı: ${serviceKeys.join(', ')}`);
+    });
+    if (new Set(meta.services).size !== meta.services.length) errors.push('services aynı hizmeti iki kez içeriyor');
+  }
+
+  const location = asRecord(meta.location);
+  if (!isNonEmptyString(location.province)) errors.push('location.province zorunlu (ör. "Manisa")');
+  if (location.district !== undefined && !isNonEmptyString(location.district)) {
+    errors.push('location.district verilirse boş olamaz');
+  }
+  const coords = location.coordinates;
+  if (
+    !Array.isArray(coords) ||
+    coords.length !== 2 ||
+    !(coords[0] >= TURKEY_BBOX.minLon && coords[0] <= TURKEY_BBOX.maxLon) ||
+    !(coords[1] >= TURKEY_BBOX.minLat && coords[1] <= TURKEY_BBOX.maxLat)
+  ) {
+    errors.push('location.coordinates Türkiye içinde [boylam, enlem] olmalı (ör. [27.61, 39.19])');
+  }
+
+  const metrics = asRecord(meta.metrics);
+  for (const key of Object.keys(metrics)) {
+    if (!METRIC_KEYS.includes(key as keyof CaseStudyMetrics)) errors.push(`metrics içinde bilinmeyen alan "${key}"`);
+    else if (!isPositiveNumber(metrics[key])) errors.push(`metrics.${key} pozitif bir sayı olmalı`);
+  }
+  if (!METRIC_KEYS.some((key) => metrics[key] !== undefined)) {
+    errors.push(`metrics en az birini içermeli: ${METRIC_KEYS.join(', ')}`);
+  }
+
+  if (!isNonEmptyString(meta.cover) || !ASSET_PATTERN.test(meta.cover)) {
+    errors.push('cover bir görsel yolu olmalı (ör. "/assets/referanslar/soma-kapak.jpg")');
+  }
+  const gallery = meta.gallery ?? [];
+  if (!Array.isArray(gallery)) {
+    errors.push('gallery görsel yollarından oluşan bir liste olmalı');
+  } else {
+    gallery.forEach((src, idx) => {
+      if (!isNonEmptyString(src) || !ASSET_PATTERN.test(src)) errors.push(`gallery[${idx}] bir görsel yolu olmalı`);
+    });
+  }
+  const comparison = meta.comparison === undefined ? null : validateComparison(meta.comparison);
+  if (comparison?.ok === false) errors.push(...comparison.errors);
+
+  if (errors.length) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      slug: meta.slug as string,
+      year: meta.year as number,
+      clientType: meta.clientType as ClientType,
+      services: (meta.services as ServiceKey[]).map((key) => SERVICE_IDS[key]),
+      location: {
+        province: location.province as string,
+        ...(location.district ? { district: location.district as string } : {}),
+        coordinates: coords as [number, number],
+      },
+      metrics: Object.fromEntries(METRIC_KEYS.filter((k) => metrics[k] !== undefined).map((k) => [k, metrics[k]])),
+      cover: meta.cover as string,
+      gallery: gallery as string[],
+      comparison: comparison?.ok ? comparison.value : null,
+    },
+  };
+}
+
+const LOCALE_KEYS = ['title', 'summary', 'deliverables', 'captions'];
+const LIMITS = { title: 80, summary: 220, item: 120 };
+
+const validateList = (value: FrontMatterValue | undefined, key: string, errors: string[]) => {
+  if (!Array.isArray(value)) return;
+  value.forEach((item, idx) => {
+    if (!isNonEmptyString(item)) errors.push(`${key}[${idx}] boş olamaz`);
+    else if (item.length > LIMITS.item) errors.push(`${key}[${idx}] en fazla ${LIMITS.item} karakter olabilir`);
+  });
+};
+
+export function validateCaseStudyLocale(
+  data: Record<string, FrontMatterValue>,
+  body: RichText
+): SchemaResult<CaseStudyLocaleContent> {
+  const errors: string[] = [];
+
+  for (const key of Object.keys(data)) {
+    if (!LOCALE_KEYS.includes(key)) errors.push(`bilinmeyen alan "${key}"`);
+  }
+  for (const key of ['title', 'summary'] as const) {
+    const value = data[key];
+    if (!isNonEmptyString(value)) errors.push(`${key} zorunlu bir metin`);
+    else if (value.length > LIMITS[key]) errors.push(`${key} en fazla ${LIMITS[key]} karakter olabilir (${value.length})`);
+  }
+  if (!Array.isArray(data.deliverables) || data.deliverables.length === 0) {
+    errors.push('deliverables en az bir "- öğe" içeren bir liste olmalı');
+  }
+  validateList(data.deliverables, 'deliverables', errors);
+  if (data.captions !== undefined && !Array.isArray(data.captions)) {
+    errors.push('captions "- öğe" satırlarından oluşan bir liste olmalı');
+  }
+  validateList(data.captions, 'captions', errors);
+  if (body.length === 0) errors.push('Markdown gövdesi (proje anlatımı) boş olamaz');
+
+  if (errors.length) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      title: data.title as string,
+      summary: data.summary as string,
+      deliverables: data.deliverables as string[],
+      captions: (data.captions as string[] | undefined) ?? [],
+      body,
+    },
+  };
+}
+
+/** Koleksiyon düzeyi kurallar: benzersiz slug ve galeri/alt yazı sayılarının dillerde tutarlılığı */
+export function validateCaseStudyCollection(cases: CaseStudyContent[]): string[] {
+  const errors: string[] = [];
+  findDuplicates(cases, (c) => c.slug).forEach((slug) => errors.push(`slug "${slug}" birden fazla projede kullanılmış`));
+  for (const study of cases) {
+    for (const [locale, content] of Object.entries(study.locales)) {
+      if (content.captions.length > 0 && content.captions.length !== study.gallery.length) {
+        errors.push(
+          `${study.slug}/${locale}.md: captions sayısı (${content.captions.length}) galerideki görsel sayısıyla (${study.gallery.length}) aynı olmalı`
+        );
+      }
+    }
+  }
+  return errors;
+}
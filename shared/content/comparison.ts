@@ -0,0 +1,61 @@
+import { asRecord, isNonEmptyString, oneOf, type SchemaResult } from './schema';
+
+/**
+ * Önce/sonra karşılaştırması: aynı alanın çakıştırılmış iki karo piramidi (public/karolar altında).
+ * Hizmet ve referans meta.json dosyalarında isteğe bağlı `comparison` alanı olarak kullanılır;
+ * katman adları içerikten değil katalogdan (comparison.layers) gelir.
+ */
+export const COMPARISON_LAYER_KINDS = ['photo', 'orthophoto', 'map', 'historicMap'] as const;
+export type ComparisonLayerKind = (typeof COMPARISON_LAYER_KINDS)[number];
+
+export interface ComparisonLayer {
+  /** Karo piramidinin kök dizini, ör. "/karolar/ornek-saha/ortofoto" (içinde tiles.json bulunur) */
+  tiles: string;
+  kind: ComparisonLayerKind;
+  year: number | null;
+}
+
+export interface ImageComparison {
+  before: ComparisonLayer;
+  after: ComparisonLayer;
+}
+
+const TILES_PATTERN = /^\/karolar(\/[a-z0-9]+(?:-[a-z0-9]+)*)+$/;
+const LAYER_KEYS = ['tiles', 'kind', 'year'];
+
+function validateLayer(raw: unknown, field: string, errors: string[]): ComparisonLayer {
+  const layer = asRecord(raw);
+  for (const key of Object.keys(layer)) {
+    if (!LAYER_KEYS.includes(key)) errors.push(`${field}: bilinmeyen alan "${key}"`);
+  }
+  if (!isNonEmptyString(layer.tiles) || !TILES_PATTERN.test(layer.tiles)) {
+    errors.push(`${field}.tiles /karolar altında, sonunda "/" olmayan bir dizin olmalı (ör. "/karolar/saha/ortofoto")`);
+  }
+  if (!oneOf(COMPARISON_LAYER_KINDS, layer.kind)) {
+    errors.push(`${field}.kind şunlardan biri olmalı: ${COMPARISON_LAYER_KINDS.join(', ')}`);
+  }
+  if (layer.year !== undefined && (!Number.isInteger(layer.year) || (layer.year as number) < 1900)) {
+    errors.push(`${field}.year verilirse 1900 veya sonrası bir yıl olmalı`);
+  }
+  return {
+    tiles: layer.tiles as string,
+    kind: layer.kind as ComparisonLayerKind,
+    year: (layer.year as number | undefined) ?? null,
+  };
+}
+
+export function validateComparison(raw: unknown): SchemaResult<ImageComparison> {
+  const errors: string[] = [];
+  const comparison = asRecord(raw);
+  for (const key of Object.keys(comparison)) {
+    if (key !== 'before' && key !== 'after') errors.push(`comparison: bilinmeyen alan "${key}"`);
+  }
+  const before = validateLayer(comparison.before, 'comparison.before', errors);
+  const after = validateLayer(comparison.after, 'comparison.after', errors);
+  if (!errors.length && before.tiles === after.tiles) {
+    errors.push('comparison.before ve comparison.after farklı piramitler olmalı');
+  }
+
+  if (errors.length) return { ok: false, errors };
+  return { ok: true, value: { before, after } };
+}
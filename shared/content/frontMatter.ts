@@ -0,0 +1,71 @@
+/**
+ * İçerik dosyaları için front-matter okuyucu
+ * Tam YAML değil; editörlerin ihtiyaç duyduğu alt küme: `anahtar: değer` ve `- öğe` listeleri.
+ * Tanınmayan satırlar sessizce atlanmaz, satır numarasıyla hata olarak döner.
+ */
+export type FrontMatterValue = string | number | boolean | string[];
+
+export interface FrontMatterResult {
+  data: Record<string, FrontMatterValue>;
+  body: string;
+  errors: string[];
+}
+
+const unquote = (value: string) => {
+  const quoted = /^(["'])(.*)\1$/.exec(value);
+  return quoted ? quoted[2] : value;
+};
+
+function parseScalar(raw: string): FrontMatterValue {
+  const value = raw.trim();
+  if (/^(["']).*\1$/.test(value)) return unquote(value);
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return value;
+}
+
+export function parseFrontMatter(source: string): FrontMatterResult {
+  const text = source.replace(/^\uFEFF/, '');
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?/.exec(text);
+  if (!match) {
+    return { data: {}, body: text, errors: ['Dosya --- ile başlayan bir front-matter bloğu içermiyor'] };
+  }
+
+  const data: Record<string, FrontMatterValue> = {};
+  const errors: string[] = [];
+  let listKey: string | null = null;
+
+  match[1].split(/\r?\n/).forEach((line, idx) => {
+    const lineNo = idx + 2;
+    if (!line.trim() || line.trim().startsWith('#')) return;
+
+    const item = /^\s+-\s+(.*)$/.exec(line) ?? /^-\s+(.*)$/.exec(line);
+    if (item) {
+      if (!listKey) {
+        errors.push(`Satır ${lineNo}: liste öğesi bir anahtarın altında olmalı`);
+        return;
+      }
+      (data[listKey] as string[]).push(unquote(item[1].trim()));
+      return;
+    }
+
+    const pair = /^([A-Za-z][\w-]*):(?:\s+(.*))?$/.exec(line);
+    if (!pair) {
+      errors.push(`Satır ${lineNo}: "anahtar: değer" biçiminde değil`);
+      return;
+    }
+    const [, key, rawValue] = pair;
+    if (key in data) {
+      errors.push(`Satır ${lineNo}: "${key}" birden fazla kez tanımlanmış`);
+    }
+    if (rawValue === undefined || rawValue.trim() === '') {
+      data[key] = [];
+      listKey = key;
+    } else {
+      data[key] = parseScalar(rawValue);
+      listKey = null;
+    }
+  });
+
+  return { data, body: text.slice(match[0].length), errors };
+}
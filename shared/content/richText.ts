@@ -0,0 +1,98 @@
+/**
+ * İçerik dosyalarındaki Markdown'ın desteklenen alt kümesi
+ * Derleme sırasında bu yapıya çevrilir ve components/RichText.tsx ile render edilir;
+ * dangerouslySetInnerHTML kullanılmaz, ham HTML düz metin olarak kalır.
+ *
+ * Desteklenenler: paragraf, ## / ### başlık, "- " listeler, **kalın**, *italik*, [bağlantı](https://...)
+ */
+export interface RichTextSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  href?: string;
+}
+
+export type RichTextBlock =
+  | { type: 'paragraph'; children: RichTextSpan[] }
+  | { type: 'heading'; level: 2 | 3; children: RichTextSpan[] }
+  | { type: 'list'; items: RichTextSpan[][] };
+
+export type RichText = RichTextBlock[];
+
+const INLINE_PATTERN = /\*\*(.+?)\*\*|\*(.+?)\*|_(.+?)_|\[([^\]]+)\]\(([^)\s]+)\)/g;
+const SAFE_HREF = /^(https?:\/\/|mailto:|\/)/;
+
+export function parseInline(text: string, errors: string[] = []): RichTextSpan[] {
+  const spans: RichTextSpan[] = [];
+  let last = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) spans.push({ text: text.slice(last, index) });
+    const [, bold, italic, italicAlt, linkText, href] = match;
+    if (bold !== undefined) spans.push({ text: bold, bold: true });
+    else if (italic !== undefined || italicAlt !== undefined) spans.push({ text: italic ?? italicAlt, italic: true });
+    else if (SAFE_HREF.test(href)) spans.push({ text: linkText, href });
+    else {
+      errors.push(`Geçersiz bağlantı adresi: ${href} (https://, mailto: ya da / ile başlamalı)`);
+      spans.push({ text: linkText });
+    }
+    last = index + match[0].length;
+  }
+  if (last < text.length) spans.push({ text: text.slice(last) });
+  return spans;
+}
+
+/** Markdown gövdesini bloklara çevirir; desteklenmeyen sözdizimi için errors'a satır bazlı mesaj ekler */
+export function parseMarkdown(source: string, errors: string[] = []): RichText {
+  const blocks: RichText = [];
+  let paragraph: string[] = [];
+  let list: string[] | null = null;
+
+  const flush = () => {
+    if (paragraph.length) {
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join(' '), errors) });
+      paragraph = [];
+    }
+    if (list) {
+      blocks.push({ type: 'list', items: list.map((item) => parseInline(item, errors)) });
+      list = null;
+    }
+  };
+
+  source.split(/\r?\n/).forEach((rawLine, idx) => {
+    const line = rawLine.trim();
+    if (!line) {
+      flush();
+      return;
+    }
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    if (heading) {
+      flush();
+      const level = heading[1].length;
+      if (level !== 2 && level !== 3) {
+        errors.push(`Satır ${idx + 1}: yalnızca ## ve ### başlıkları kullanılabilir`);
+        return;
+      }
+      blocks.push({ type: 'heading', level, children: parseInline(heading[2], errors) });
+      return;
+    }
+    const item = /^[-*]\s+(.*)$/.exec(line);
+    if (item) {
+      if (paragraph.length) flush();
+      (list ??= []).push(item[1]);
+      return;
+    }
+    if (list) flush();
+    paragraph.push(line);
+  });
+  flush();
+  return blocks;
+}
+
+/** Düz metin özeti (ör. meta açıklaması, e-posta) */
+export function richTextToPlain(content: RichText): string {
+  const spans = (children: RichTextSpan[]) => children.map((s) => s.text).join('');
+  return content
+    .map((block) => (block.type === 'list' ? block.items.map((i) => `- ${spans(i)}`).join('\n') : spans(block.children)))
+    .join('\n\n');
+}
@@ -0,0 +1,23 @@
+/** İçerik koleksiyonu şemalarında ortak doğrulama yardımcıları */
+export type SchemaResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+export const ASSET_PATTERN = /^(\/[^\s]+|https:\/\/[^\s]+)\.(png|jpe?g|webp|avif|svg)$/i;
+export const VIDEO_PATTERN = /^(\/[^\s]+|https:\/\/[^\s]+)\.(mp4|webm)$/i;
+// Nokta bulutları worker içinde aynı kökenden indirilir; LAZ okunamadığı için yalnızca .las
+export const POINT_CLOUD_PATTERN = /^\/[^\s]+\.las$/i;
+
+export const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+export const oneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+export const asRecord = (value: unknown): Record<string, unknown> =>
+  (value && typeof value === 'object' && !Array.isArray(value) ? value : {}) as Record<string, unknown>;
+
+/** Birden fazla kayıtta geçen değerleri döner (slug, sıra vb. benzersizlik kontrolleri için) */
+export function findDuplicates<T>(items: T[], pick: (item: T) => unknown): unknown[] {
+  const counts = new Map<unknown, number>();
+  items.forEach((item) => counts.set(pick(item), (counts.get(pick(item)) ?? 0) + 1));
+  return [...counts].filter(([, count]) => count > 1).map(([value]) => value);
+}
@@ -0,0 +1,188 @@
+import { SERVICE_IDS, type ServiceId } from '../services';
+import type { Locale } from '../i18n/locales';
+import type { FrontMatterValue } from './frontMatter';
+import type { RichText } from './richText';
+import { validateComparison, type ImageComparison } from './comparison';
+import {
+  asRecord,
+  ASSET_PATTERN,
+  findDuplicates,
+  isNonEmptyString,
+  oneOf,
+  POINT_CLOUD_PATTERN,
+  SLUG_PATTERN,
+  VIDEO_PATTERN,
+  type SchemaResult,
+} from './schema';
+
+/**
+ * Hizmet içerik şeması
+ * Kaynak: content/services/<slug>/meta.json (dilden bağımsız) + <dil>.md (front-matter + Markdown gövde).
+ * plugins/serviceContent.ts derleme sırasında dosyaları bu kurallarla doğrular ve
+ * `virtual:service-content` modülü olarak bileşenlere verir.
+ */
+export const SERVICE_ICON_NAMES = ['scan', 'plane', 'map', 'leaf', 'pickaxe'] as const;
+export type ServiceIconName = (typeof SERVICE_ICON_NAMES)[number];
+
+// Tailwind sınıfları bileşende sabit tutulur; içerik yalnızca renk adını seçer
+export const SERVICE_ACCENTS = ['emerald', 'sky', 'amber', 'green', 'stone'] as const;
+export type ServiceAccent = (typeof SERVICE_ACCENTS)[number];
+
+export type ServiceKey = keyof typeof SERVICE_IDS;
+
+export interface ServiceLocaleContent {
+  title: string;
+  subtitle: string;
+  /** Kartlarda ve detayın girişinde görünen tek cümlelik özet */
+  desc: string;
+  features: string[];
+  /** Markdown gövdesi */
+  fullDesc: RichText;
+}
+
+export interface ServiceContent {
+  id: ServiceId;
+  slug: string;
+  order: number;
+  icon: ServiceIconName;
+  images: { card: string; detail: string };
+  video: string | null;
+  /** Detay görünümünde görselin yerine gösterilen örnek LAS dosyası (public/ altından) */
+  pointCloud: string | null;
+  /** Detay görünümünde görselin yerine gösterilen önce/sonra karşılaştırması */
+  comparison: ImageComparison | null;
+  accent: ServiceAccent;
+  locales: Record<Locale, ServiceLocaleContent>;
+}
+
+export type ServiceMeta = Omit<ServiceContent, 'locales'>;
+
+const META_KEYS = ['serviceKey', 'slug', 'order', 'icon', 'images', 'video', 'pointCloud', 'comparison', 'accent'];
+
+/** meta.json içeriğini doğrular; dizin adı slug ile aynı olmalıdır */
+export function validateServiceMeta(raw: unknown, directory: string): SchemaResult<ServiceMeta> {
+  const errors: string[] = [];
+  const meta = asRecord(raw);
+
+  for (const key of Object.keys(meta)) {
+    if (!META_KEYS.includes(key)) errors.push(`bilinmeyen alan "${key}"`);
+  }
+
+  if (!oneOf(Object.keys(SERVICE_IDS) as ServiceKey[], meta.serviceKey)) {
+    errors.push(`serviceKey şunlardan biri olmalı: ${Object.keys(SERVICE_IDS).join(', ')}`);
+  }
+  if (!isNonEmptyString(meta.slug) || !SLUG_PATTERN.test(meta.slug)) {
+    errors.push('slug küçük harf, rakam ve tireden oluşmalı (ör. "madencilik")');
+  } else if (meta.slug !== directory) {
+    errors.push(`slug ("${meta.slug}") dizin adıyla ("${directory}") aynı olmalı`);
+  }
+  if (!Number.isInteger(meta.order) || (meta.order as number) < 1) {
+    errors.push('order 1 veya daha büyük bir tam sayı olmalı');
+  }
+  if (!oneOf(SERVICE_ICON_NAMES, meta.icon)) {
+    errors.push(`icon şunlardan biri olmalı: ${SERVICE_ICON_NAMES.join(', ')}`);
+  }
+  if (!oneOf(SERVICE_ACCENTS, meta.accent)) {
+    errors.push(`accent şunlardan biri olmalı: ${SERVICE_ACCENTS.join(', ')}`);
+  }
+
+  const images = asRecord(meta.images);
+  if (!isNonEmptyString(images.card) || !ASSET_PATTERN.test(images.card)) {
+    errors.push('images.card bir görsel yolu olmalı (ör. "/assets/maden.png")');
+  }
+  if (images.detail !== undefined && (!isNonEmptyString(images.detail) || !ASSET_PATTERN.test(images.detail))) {
+    errors.push('images.detail verilirse bir görsel yolu olmalı');
+  }
+  // Boş string yerine alanın hiç yazılmaması beklenir
+  if (meta.video !== undefined && (!isNonEmptyString(meta.video) || !VIDEO_PATTERN.test(meta.video))) {
+    errors.push('video verilirse .mp4/.webm adresi olmalı; video yoksa alanı tamamen kaldırın');
+  }
+  if (meta.pointCloud !== undefined && (!isNonEmptyString(meta.pointCloud) || !POINT_CLOUD_PATTERN.test(meta.pointCloud))) {
+    errors.push('pointCloud verilirse public/ altındaki bir .las dosyasının yolu olmalı (ör. "/ornekler/lidar-ornek.las")');
+  }
+  const comparison = meta.comparison === undefined ? null : validateComparison(meta.comparison);
+  if (comparison?.ok === false) errors.push(...comparison.errors);
+  if (comparison?.ok && meta.pointCloud !== undefined) {
+    errors.push('pointCloud ve comparison aynı medya alanını kullanır; yalnızca biri verilebilir');
+  }
+
+  if (errors.length) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      id: SERVICE_IDS[meta.serviceKey as ServiceKey],
+      slug: meta.slug as string,
+      order: meta.order as number,
+      icon: meta.icon as ServiceIconName,
+      images: { card: images.card as string, detail: (images.detail as string | undefined) ?? (images.card as string) },
+      video: (meta.video as string | undefined) ?? null,
+      pointCloud: (meta.pointCloud as string | undefined) ?? null,
+      comparison: comparison?.ok ? comparison.value : null,
+      accent: meta.accent as ServiceAccent,
+    },
+  };
+}
+
+const LOCALE_KEYS = ['title', 'subtitle', 'desc', 'features'];
+const LIMITS = { title: 24, subtitle: 40, desc: 160, feature: 60, maxFeatures: 8 };
+
+/** <dil>.md front-matter'ını ve ayrıştırılmış gövdesini doğrular */
+export function validateServiceLocale(
+  data: Record<string, FrontMatterValue>,
+  fullDesc: RichText
+): SchemaResult<ServiceLocaleContent> {
+  const errors: string[] = [];
+
+  for (const key of Object.keys(data)) {
+    if (!LOCALE_KEYS.includes(key)) errors.push(`bilinmeyen alan "${key}"`);
+  }
+  for (const key of ['title', 'subtitle', 'desc'] as const) {
+    const value = data[key];
+    if (!isNonEmptyString(value)) {
+      errors.push(`${key} zorunlu bir metin`);
+    } else if (value.length > LIMITS[key]) {
+      errors.push(`${key} en fazla ${LIMITS[key]} karakter olabilir (${value.length})`);
+    }
+  }
+
+  const features = data.features;
+  if (!Array.isArray(features) || features.length === 0) {
+    errors.push('features en az bir "- öğe" içeren bir liste olmalı');
+  } else {
+    if (features.length > LIMITS.maxFeatures) errors.push(`features en fazla ${LIMITS.maxFeatures} öğe içerebilir`);
+    features.forEach((feature, idx) => {
+      if (!isNonEmptyString(feature)) errors.push(`features[${idx}] boş olamaz`);
+      else if (feature.length > LIMITS.feature) errors.push(`features[${idx}] en fazla ${LIMITS.feature} karakter olabilir`);
+    });
+  }
+
+  if (fullDesc.length === 0) {
+    errors.push('Markdown gövdesi (ayrıntılı açıklama) boş olamaz');
+  }
+
+  if (errors.length) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      title: data.title as string,
+      subtitle: data.subtitle as string,
+      desc: data.desc as string,
+      features: features as string[],
+      fullDesc,
+    },
+  };
+}
+
+/** Koleksiyon düzeyindeki kurallar: benzersiz slug/order/serviceKey ve her hizmetin içeriği olması */
+export function validateServiceCollection(services: ServiceContent[]): string[] {
+  const errors: string[] = [];
+  const seen = (field: 'slug' | 'order' | 'id') => findDuplicates(services, (s) => s[field]);
+  seen('slug').forEach((slug) => errors.push(`slug "${slug}" birden fazla hizmette kullanılmış`));
+  seen('order').forEach((order) => errors.push(`order ${order} birden fazla hizmette kullanılmış`));
+  seen('id').forEach((id) => errors.push(`serviceKey (id ${id}) birden fazla hizmette kullanılmış`));
+
+  for (const [key, id] of Object.entries(SERVICE_IDS)) {
+    if (!services.some((s) => s.id === id)) errors.push(`${key} hizmeti için içerik yok`);
+  }
+  return errors;
+}
@@ -0,0 +1,39 @@
+/**
+ * Proje teslimatları (LAS, GeoTIFF, DWG...) - R2'de saklanır, portalda listelenir
+ * PortalPage/DeliverableUploader (tarayıcı) ve functions/api/{portal,staff,download}/* aynı tipleri kullanır.
+ */
+
+/**
+ * Personel yüklemeleri R2 çok parçalı yüklemesiyle parça parça gönderilir; Workers istek gövdesi
+ * sınırına (100 MB) takılmadan çok GB'lık nokta bulutları yüklenebilir. R2 son parça dışındaki
+ * tüm parçaların aynı boyutta olmasını ister.
+ */
+export const DELIVERABLE_PART_SIZE = 50 * 1024 * 1024;
+// R2 en fazla 10.000 parça kabul eder
+export const DELIVERABLE_MAX_BYTES = DELIVERABLE_PART_SIZE * 10_000;
+
+/** İmzalı indirme bağlantısının geçerlilik süresi; yarıda kalan indirme bu süre içinde sürdürülebilir */
+export const DOWNLOAD_LINK_TTL_HOURS = 6;
+
+export interface PortalDeliverable {
+  id: string;
+  fileName: string;
+  size: number;
+  uploadedAt: string;
+}
+
+export interface PortalProject {
+  id: string;
+  name: string;
+  createdAt: string;
+  deliverables: PortalDeliverable[];
+}
+
+/** Dosya adı R2 anahtarında ve Content-Disposition'da kullanılır; yol ve kontrol karakterleri atılır */
+export function sanitizeFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? '';
+  const cleaned = base.replace(/[\u0000-\u001f\u007f"]/g, '').trim().slice(0, 200);
+  return cleaned && cleaned !== '.' && cleaned !== '..' ? cleaned : 'dosya';
+}
+
+export const partCount = (size: number) => Math.max(1, Math.ceil(size / DELIVERABLE_PART_SIZE));
@@ -0,0 +1,113 @@
+import { SERVICE_IDS, type ServiceId } from './services';
+
+/**
+ * Alan bazlı fiyat ve süre tahmini
+ * Tablo servicesData ile aynı hizmet kimlikleriyle anahtarlanır; Record tipi her hizmet için
+ * bir satır bulunmasını derleme zamanında garanti eder.
+ * Fiyatlar KDV hariç TL'dir ve yalnızca ön bilgi amaçlıdır; kesin teklif saha incelemesi sonrası verilir.
+ */
+export interface Range {
+  min: number;
+  max: number;
+}
+
+export interface ServiceRate {
+  label: string;
+  /** Hektar başı fiyat aralığı (TL) */
+  perHectare: Range;
+  /** Sınır uzunluğuna bağlı işler için km başı ek ücret (TL) */
+  perPerimeterKm?: Range;
+  /** Küçük işlerde uygulanan taban ücret (TL) */
+  minimumCharge: number;
+  /** Sahada günlük işlenebilen alan (hektar) */
+  hectaresPerDay: Range;
+  /** Ekip/ekipman hazırlığı ve ofis işleme için sabit gün */
+  fixedDays: Range;
+  /** Bu hizmet için makul üst alan sınırı (hektar); aşılırsa tahmin verilmez */
+  maxHectares: number;
+}
+
+export const SERVICE_RATES: Record<ServiceId, ServiceRate> = {
+  [SERVICE_IDS.LIDAR]: {
+    label: 'LIDAR - 3D Lazer Tarama',
+    perHectare: { min: 450, max: 900 },
+    minimumCharge: 25_000,
+    hectaresPerDay: { min: 150, max: 400 },
+    fixedDays: { min: 3, max: 6 },
+    maxHectares: 50_000,
+  },
+  [SERVICE_IDS.DRONE]: {
+    label: 'DRONE - Fotogrametri',
+    perHectare: { min: 120, max: 300 },
+    minimumCharge: 12_000,
+    // servicesData: "Günde 500+ Hektar"
+    hectaresPerDay: { min: 300, max: 500 },
+    fixedDays: { min: 2, max: 4 },
+    maxHectares: 50_000,
+  },
+  [SERVICE_IDS.HARITA]: {
+    label: 'HARİTA - Mühendislik',
+    perHectare: { min: 600, max: 1_500 },
+    perPerimeterKm: { min: 4_000, max: 8_000 },
+    minimumCharge: 8_000,
+    hectaresPerDay: { min: 10, max: 40 },
+    fixedDays: { min: 5, max: 15 },
+    maxHectares: 2_000,
+  },
+  [SERVICE_IDS.ORMANCILIK]: {
+    label: 'ORMANCILIK - Çalışmaları',
+    perHectare: { min: 250, max: 600 },
+    minimumCharge: 30_000,
+    hectaresPerDay: { min: 200, max: 500 },
+    fixedDays: { min: 5, max: 10 },
+    maxHectares: 100_000,
+  },
+  [SERVICE_IDS.MADENCILIK]: {
+    label: 'MADENCİLİK - Çalışmaları',
+    perHectare: { min: 350, max: 800 },
+    minimumCharge: 20_000,
+    hectaresPerDay: { min: 100, max: 300 },
+    fixedDays: { min: 2, max: 5 },
+    maxHectares: 20_000,
+  },
+};
+
+export interface Estimate {
+  serviceId: ServiceId;
+  areaHectares: number;
+  perimeterKm: number;
+  price: Range;
+  durationDays: Range;
+  currency: 'TRY';
+}
+
+// Tahminler yuvarlak rakamlarla verilir; kuruş hassasiyeti yanıltıcı olur
+const roundTo = (value: number, step: number) => Math.ceil(value / step) * step;
+
+export function computeEstimate(serviceId: ServiceId, areaHectares: number, perimeterKm: number): Estimate {
+  const rate = SERVICE_RATES[serviceId];
+  const perimeterCost = (bound: keyof Range) => (rate.perPerimeterKm ? rate.perPerimeterKm[bound] * perimeterKm : 0);
+  const priceFor = (bound: keyof Range) =>
+    roundTo(Math.max(rate.minimumCharge, rate.perHectare[bound] * areaHectares + perimeterCost(bound)), 500);
+
+  // Yavaş senaryo (min hektar/gün) en uzun süreyi verir
+  const daysFor = (bound: keyof Range) =>
+    rate.fixedDays[bound] + Math.ceil(areaHectares / rate.hectaresPerDay[bound === 'min' ? 'max' : 'min']);
+
+  return {
+    serviceId,
+    areaHectares,
+    perimeterKm,
+    price: { min: priceFor('min'), max: priceFor('max') },
+    durationDays: { min: daysFor('min'), max: daysFor('max') },
+    currency: 'TRY',
+  };
+}
+
+/** /api/estimate yanıtı */
+export interface EstimateResponse {
+  ok: true;
+  areaSquareMeters: number;
+  perimeterMeters: number;
+  estimate: Estimate;
+}
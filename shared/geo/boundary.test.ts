@@ -0,0 +1,107 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { parseBoundaryFile, type BoundaryResult } from './boundary';
+
+// Dosyalar scripts/generate-geo-fixtures.js ile üretilir; geçerli olanların hepsinde aynı parsel vardır
+const fixture = (name: string) => new Uint8Array(readFileSync(new URL(`./fixtures/${name}`, import.meta.url)));
+
+const parse = (name: string, locale: 'tr' | 'en' = 'tr') => parseBoundaryFile(name, fixture(name), locale);
+const text = (value: string) => new TextEncoder().encode(value);
+
+function errorOf(result: BoundaryResult): string | null {
+  return result.ok === false ? result.error : null;
+}
+
+describe('parseBoundaryFile', () => {
+  it.each([
+    ['parcel.geojson', 'geojson'],
+    ['parcel.kml', 'kml'],
+    ['parcel.kmz', 'kmz'],
+    ['parcel-shp.zip', 'shapefile'],
+  ])('%s: aynı parsel okunur', async (name, format) => {
+    const result = await parse(name);
+    if (result.ok === false) throw new Error(result.error);
+    expect(result.summary.format).toBe(format);
+    expect(result.summary.crs.wgs84Compatible).toBe(true);
+    expect(result.summary.polygonCount).toBe(1);
+    expect(result.summary.vertexCount).toBe(4);
+    // ~102 m x 78 m
+    expect(result.summary.areaSquareMeters).toBeGreaterThan(7900);
+    expect(result.summary.areaSquareMeters).toBeLessThan(8050);
+    expect(result.summary.perimeterMeters).toBeGreaterThan(355);
+    expect(result.summary.perimeterMeters).toBeLessThan(362);
+    const [minLon, minLat, maxLon, maxLat] = result.summary.bbox;
+    expect([minLon, minLat, maxLon, maxLat]).toEqual([32.68, 39.95, 32.6812, 39.9507]);
+  });
+
+  it('Shapefile dış halkası (saat yönü) GeoJSON ile aynı alanı verir', async () => {
+    const [geojson, shp] = await Promise.all([parse('parcel.geojson'), parse('parcel-shp.zip')]);
+    if (geojson.ok === false || shp.ok === false) throw new Error('okunamadı');
+    expect(shp.summary.areaSquareMeters).toBeCloseTo(geojson.summary.areaSquareMeters, 6);
+    expect(shp.summary.crs.name).toBe('GCS WGS 1984');
+  });
+
+  it('kendisiyle kesişen (papyon) sınır reddedilir', async () => {
+    expect(errorOf(await parse('bowtie.geojson'))).toBe('Sınır kendisiyle kesişiyor; köşe sırasını kontrol edin');
+    expect(errorOf(await parse('bowtie.geojson', 'en'))).toBe('The boundary intersects itself; check the vertex order');
+  });
+
+  it('MultiPolygon içinde kesişen poligonun sırası bildirilir', async () => {
+    const bowtie = JSON.parse(new TextDecoder().decode(fixture('bowtie.geojson'))).features[0].geometry.coordinates;
+    const parcel = JSON.parse(new TextDecoder().decode(fixture('parcel.geojson'))).features[0].geometry.coordinates;
+    const multi = text(JSON.stringify({ type: 'MultiPolygon', coordinates: [parcel, bowtie] }));
+    expect(errorOf(await parseBoundaryFile('iki.geojson', multi, 'en'))).toBe(
+      'The boundary of polygon 2 intersects itself; check the vertex order'
+    );
+  });
+
+  it('.shp içermeyen zip reddedilir', async () => {
+    expect(errorOf(await parse('no-shp.zip'))).toBe('Arşivde KML, Shapefile (.shp) ya da GeoJSON bulunamadı');
+    expect(errorOf(await parse('no-shp.zip', 'en'))).toBe('No KML, Shapefile (.shp) or GeoJSON found in the archive');
+  });
+
+  it('.prj dosyası projeksiyonlu olan Shapefile CRS adıyla reddedilir', async () => {
+    expect(errorOf(await parse('parcel-utm36n.zip'))).toBe(
+      'Koordinat sistemi WGS 1984 UTM Zone 36N olarak tespit edildi. Lütfen dosyayı WGS84 (EPSG:4326) olarak dışa aktarın.'
+    );
+    expect(errorOf(await parse('parcel-utm36n.zip', 'en'))).toBe(
+      'The coordinate system was detected as WGS 1984 UTM Zone 36N. Please export the file as WGS84 (EPSG:4326).'
+    );
+  });
+
+  it('GeoJSON crs üyesindeki projeksiyonlu EPSG kodu reddedilir', async () => {
+    const projected = text(
+      JSON.stringify({
+        type: 'Feature',
+        crs: { type: 'name', properties: { name: 'urn:ogc:def:crs:EPSG::5254' } },
+        geometry: { type: 'Polygon', coordinates: [[[472700, 4422080], [472802, 4422080], [472802, 4422158], [472700, 4422080]]] },
+      })
+    );
+    expect(errorOf(await parseBoundaryFile('tm33.geojson', projected, 'en'))).toBe(
+      'The coordinate system was detected as EPSG:5254. Please export the file as WGS84 (EPSG:4326).'
+    );
+  });
+
+  it.each([
+    ['poligonsuz FeatureCollection', { type: 'FeatureCollection', features: [{ type: 'Feature', geometry: null }] }, 'noPolygon'],
+    ['yalnızca nokta', { type: 'Point', coordinates: [32.68, 39.95] }, 'noPolygon'],
+    ['halkasız poligon', { type: 'Polygon', coordinates: [] }, 'emptyPolygon'],
+    // ~850 m uzunluğunda, 0,1 mm genişliğinde şerit: kesişme yok, alan 1 m²'nin altında
+    ['çökmüş üçgen', { type: 'Polygon', coordinates: [[[32.68, 39.95], [32.69, 39.95], [32.68, 39.9500000009], [32.68, 39.95]]] }, 'zeroArea'],
+  ])('boş geometri reddedilir: %s', async (_name, geometry, key) => {
+    const messages = {
+      noPolygon: 'No polygon found in the file (the boundary must be a closed area)',
+      emptyPolygon: 'A polygon must contain at least one ring',
+      zeroArea: 'The boundary has no area (all points may lie on one line)',
+    };
+    const error = errorOf(await parseBoundaryFile('bos.geojson', text(JSON.stringify(geometry)), 'en'));
+    expect(error).toBe(messages[key as keyof typeof messages]);
+  });
+
+  it('bozuk GeoJSON, KML ve ZIP kendi hatalarıyla reddedilir', async () => {
+    expect(errorOf(await parseBoundaryFile('a.geojson', text('{ "type": '), 'en'))).toBe('The file is not valid GeoJSON');
+    expect(errorOf(await parseBoundaryFile('a.kml', text('<?xml version="1.0"?><gpx/>'), 'en'))).toBe('The file is not valid KML');
+    const truncatedZip = fixture('parcel.kmz').subarray(0, 40);
+    expect(errorOf(await parseBoundaryFile('a.kmz', truncatedZip, 'en'))).toBe('The archive could not be read (not a valid ZIP)');
+  });
+});
@@ -0,0 +1,174 @@
+import { describeCrs, type DetectedCrs } from './crs';
+import { geodesicArea, geodesicPerimeter } from './geodesy';
+import { countVertices, parseAreaGeometry } from './validate';
+import { findSelfIntersection } from './topology';
+import { isZip, readZipEntries, ZipError, type ZipErrorCode } from './zip';
+import { readGeoJson, type BoundaryReadError, type RawBoundary } from './formats/geojson';
+import { readKml } from './formats/kml';
+import { readShapefile } from './formats/shapefile';
+import type { AreaGeometry, BBox } from './types';
+import { DEFAULT_LOCALE, format, getMessages, type Locale, type Messages } from '../i18n';
+
+/**
+ * Sınır dosyası okuma giriş noktası
+ * GeoJSON, KML, KMZ ve zip'lenmiş Shapefile dosyalarını tek bir normalize geometriye çevirir.
+ * Tarayıcıda (fiyat tahmini sayfası) ve Pages Functions'ta (iletişim formu ekleri) aynı kod çalışır.
+ * Okuyucular hata kodu döner; metin burada istenen dilde seçilir.
+ */
+export type BoundaryFormat = 'geojson' | 'kml' | 'kmz' | 'shapefile';
+
+export interface BoundarySummary {
+  format: BoundaryFormat;
+  crs: DetectedCrs;
+  polygonCount: number;
+  vertexCount: number;
+  bbox: BBox;
+  areaSquareMeters: number;
+  perimeterMeters: number;
+}
+
+export type BoundaryResult =
+  | { ok: true; geometry: AreaGeometry; summary: BoundarySummary }
+  | { ok: false; error: string };
+
+/** Sınır dosyası olarak okunabilecek uzantılar */
+export const BOUNDARY_EXTENSIONS = ['geojson', 'json', 'kml', 'kmz', 'zip'] as const;
+
+// Bu değerin altındaki alanlar (m²) boş/çökmüş geometri kabul edilir
+const MIN_AREA_SQUARE_METERS = 1;
+
+export function isBoundaryFileName(name: string): boolean {
+  const ext = name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+  return (BOUNDARY_EXTENSIONS as readonly string[]).includes(ext);
+}
+
+export function computeBBox(geometry: AreaGeometry): BBox {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  const bbox: BBox = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const rings of polygons) {
+    for (const [lon, lat] of rings[0]) {
+      bbox[0] = Math.min(bbox[0], lon);
+      bbox[1] = Math.min(bbox[1], lat);
+      bbox[2] = Math.max(bbox[2], lon);
+      bbox[3] = Math.max(bbox[3], lat);
+    }
+  }
+  return bbox;
+}
+
+const ZIP_ERRORS: Record<ZipErrorCode, keyof Messages['estimator']['errors']> = {
+  invalid: 'archiveInvalid',
+  corrupt: 'archiveCorrupt',
+  encrypted: 'archiveEncrypted',
+  tooLarge: 'archiveEntryTooLarge',
+  unreadable: 'archiveEntryUnreadable',
+  sizeMismatch: 'archiveEntryCorrupt',
+  unsupportedMethod: 'archiveUnsupportedMethod',
+};
+
+const decodeText = (data: Uint8Array) => new TextDecoder().decode(data);
+
+type RawRead = { raw: RawBoundary | BoundaryReadError; format: BoundaryFormat };
+
+async function readArchive(data: Uint8Array, kmz: boolean): Promise<RawRead> {
+  const entries = readZipEntries(data);
+  const find = (ext: string) => entries.find((e) => e.name.toLowerCase().endsWith(ext) && !e.name.startsWith('__MACOSX'));
+
+  // KMZ'de ana belge genellikle doc.kml'dir; yoksa ilk .kml kullanılır
+  const kml = entries.find((e) => e.name.toLowerCase() === 'doc.kml') ?? find('.kml');
+  if (kml && (kmz || !find('.shp'))) {
+    return { raw: readKml(decodeText(await kml.read())), format: 'kmz' };
+  }
+
+  const shp = find('.shp');
+  if (shp) {
+    const prj = find('.prj');
+    return {
+      raw: readShapefile(await shp.read(), prj ? decodeText(await prj.read()) : null),
+      format: 'shapefile',
+    };
+  }
+
+  const geojson = find('.geojson') ?? find('.json');
+  if (geojson) {
+    return { raw: readGeoJson(decodeText(await geojson.read())), format: 'geojson' };
+  }
+  return { raw: 'archiveNoBoundary', format: kmz ? 'kmz' : 'shapefile' };
+}
+
+async function readRaw(name: string, data: Uint8Array): Promise<RawRead> {
+  const ext = name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+  if (isZip(data)) {
+    return readArchive(data, ext === 'kmz');
+  }
+  const text = decodeText(data);
+  if (ext === 'kml' || /^\s*<\?xml|^\s*<kml/i.test(text)) {
+    return { raw: readKml(text), format: 'kml' };
+  }
+  return { raw: readGeoJson(text), format: 'geojson' };
+}
+
+export async function parseBoundaryFile(
+  name: string,
+  buffer: ArrayBuffer | Uint8Array,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<BoundaryResult> {
+  const m = getMessages(locale).estimator.errors;
+  const data = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+
+  let read: RawRead;
+  try {
+    read = await readRaw(name, data);
+  } catch (err) {
+    return {
+      ok: false,
+      error: err instanceof ZipError ? format(m[ZIP_ERRORS[err.code]], { name: err.entryName }) : m.fileUnreadable,
+    };
+  }
+  const { raw, format: fileFormat } = read;
+  if (typeof raw === 'string') return { ok: false, error: m[raw] };
+
+  if (raw.polygons.length === 0) {
+    return { ok: false, error: m.noPolygon };
+  }
+  if (!raw.crs.wgs84Compatible) {
+    return { ok: false, error: format(m.crsNotWgs84, { crs: describeCrs(raw.crs, locale) }) };
+  }
+
+  const parsed = parseAreaGeometry(
+    raw.polygons.length === 1
+      ? { type: 'Polygon', coordinates: raw.polygons[0] }
+      : { type: 'MultiPolygon', coordinates: raw.polygons },
+    locale
+  );
+  if (parsed.ok === false) return parsed;
+  const { geometry } = parsed;
+
+  const invalidPolygon = findSelfIntersection(geometry);
+  if (invalidPolygon !== -1) {
+    return {
+      ok: false,
+      error:
+        geometry.type === 'Polygon' ? m.selfIntersection : format(m.polygonSelfIntersection, { index: invalidPolygon + 1 }),
+    };
+  }
+
+  const areaSquareMeters = geodesicArea(geometry);
+  if (!(areaSquareMeters >= MIN_AREA_SQUARE_METERS)) {
+    return { ok: false, error: m.zeroArea };
+  }
+
+  return {
+    ok: true,
+    geometry,
+    summary: {
+      format: fileFormat,
+      crs: raw.crs,
+      polygonCount: geometry.type === 'Polygon' ? 1 : geometry.coordinates.length,
+      vertexCount: countVertices(geometry),
+      bbox: computeBBox(geometry),
+      areaSquareMeters,
+      perimeterMeters: geodesicPerimeter(geometry),
+    },
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Harita işaretçileri için ekran uzayında kümeleme
+ * Nokta sayısı düşük (onlarca proje) olduğundan açgözlü yaklaşım yeterli: her nokta, merkezi yarıçap
+ * içinde kalan ilk kümeye katılır ve küme merkezi üyelerin ortalamasına kayar. Girdi sırası sabit
+ * olduğu sürece aynı yakınlaştırma düzeyinde aynı kümeler üretilir.
+ */
+export interface ClusterPoint<T> {
+  x: number;
+  y: number;
+  item: T;
+}
+
+export interface Cluster<T> {
+  x: number;
+  y: number;
+  items: T[];
+}
+
+export function clusterPoints<T>(points: ClusterPoint<T>[], radius: number): Cluster<T>[] {
+  const clusters: (Cluster<T> & { sumX: number; sumY: number })[] = [];
+  const radiusSq = radius * radius;
+
+  for (const point of points) {
+    const target = clusters.find((c) => (c.x - point.x) ** 2 + (c.y - point.y) ** 2 <= radiusSq);
+    if (target) {
+      target.items.push(point.item);
+      target.sumX += point.x;
+      target.sumY += point.y;
+      target.x = target.sumX / target.items.length;
+      target.y = target.sumY / target.items.length;
+    } else {
+      clusters.push({ x: point.x, y: point.y, items: [point.item], sumX: point.x, sumY: point.y });
+    }
+  }
+
+  return clusters.map(({ x, y, items }) => ({ x, y, items }));
+}
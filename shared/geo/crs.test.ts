@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { describeCrs, detectCrsFromGeoJson, detectCrsFromWkt, WGS84_CRS } from './crs';
+
+const ITRF96_TM33 =
+  'PROJCS["ITRF96 / TM33",GEOGCS["ITRF96",DATUM["International_Terrestrial_Reference_Frame_1996",' +
+  'SPHEROID["GRS 1980",6378137,298.257222101,AUTHORITY["EPSG","7019"]],AUTHORITY["EPSG","6654"]],' +
+  'PRIMEM["Greenwich",0],UNIT["degree",0.0174532925199433],AUTHORITY["EPSG","8998"]],' +
+  'PROJECTION["Transverse_Mercator"],PARAMETER["central_meridian",33],PARAMETER["scale_factor",1],' +
+  'UNIT["metre",1],AUTHORITY["EPSG","5254"]]';
+const ED50 =
+  'GEOGCS["ED50",DATUM["European_Datum_1950",SPHEROID["International 1924",6378388,297]],PRIMEM["Greenwich",0],' +
+  'UNIT["degree",0.0174532925199433],AUTHORITY["EPSG","4230"]]';
+
+describe('detectCrsFromWkt', () => {
+  it('ESRI ve OGC biçiminde WGS84 uyumlu coğrafi sistemler', () => {
+    expect(
+      detectCrsFromWkt('GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]]]')
+    ).toEqual({ name: 'GCS WGS 1984', epsg: undefined, kind: 'geographic', wgs84Compatible: true });
+    expect(detectCrsFromWkt('GEOGCS["TUREF",DATUM["Turkish_National_Reference_Frame"]]').wgs84Compatible).toBe(true);
+  });
+
+  it('projeksiyonlu sistem adı ve sondaki EPSG kodu', () => {
+    expect(detectCrsFromWkt(ITRF96_TM33)).toEqual({ name: 'ITRF96 / TM33', epsg: 5254, kind: 'projected', wgs84Compatible: false });
+  });
+
+  it('ED50 dönüşüm gerektirir', () => {
+    expect(detectCrsFromWkt(ED50)).toEqual({ name: 'ED50', epsg: 4230, kind: 'geographic', wgs84Compatible: false });
+  });
+});
+
+describe('detectCrsFromGeoJson', () => {
+  it.each([
+    ['crs üyesi yok', { type: 'Polygon' }],
+    ['CRS84', { crs: { properties: { name: 'urn:ogc:def:crs:OGC:1.3:CRS84' } } }],
+    ['ad metin değil', { crs: { properties: { name: 4326 } } }],
+    ['nesne değil', 'FeatureCollection'],
+  ])('%s: WGS84', (_name, json) => {
+    expect(detectCrsFromGeoJson(json)).toEqual(WGS84_CRS);
+  });
+
+  it.each([
+    ['EPSG:4326', { name: 'WGS 84', epsg: 4326, kind: 'geographic', wgs84Compatible: true }],
+    ['urn:ogc:def:crs:EPSG::4258', { name: 'EPSG:4258', epsg: 4258, kind: 'geographic', wgs84Compatible: true }],
+    ['EPSG:4230', { name: 'ED50', epsg: 4230, kind: 'geographic', wgs84Compatible: false }],
+    ['EPSG:32636', { name: 'EPSG:32636', epsg: 32636, kind: 'projected', wgs84Compatible: false }],
+    ['yerel sistem', { name: 'yerel sistem', kind: 'projected', wgs84Compatible: false }],
+  ])('%s', (name, expected) => {
+    expect(detectCrsFromGeoJson({ crs: { type: 'name', properties: { name } } })).toEqual(expected);
+  });
+});
+
+describe('describeCrs', () => {
+  it('adı olmayan sistemler istenen dilde açıklanır, EPSG kodu korunur', () => {
+    const assumed = { name: '', kind: 'geographic' as const, wgs84Compatible: true, assumed: true };
+    expect(describeCrs(assumed, 'tr')).toBe('Bilinmiyor (.prj yok, WGS84 varsayıldı)');
+    expect(describeCrs(assumed, 'en')).toBe('Unknown (no .prj, WGS84 assumed)');
+    expect(describeCrs(detectCrsFromWkt('GEOGCS[DATUM["D_Unknown"],AUTHORITY["EPSG","4807"]]'), 'en')).toBe(
+      'Unknown geographic system (EPSG:4807)'
+    );
+    expect(describeCrs(detectCrsFromWkt(ED50))).toBe('ED50 (EPSG:4230)');
+  });
+});
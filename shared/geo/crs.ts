@@ -0,0 +1,79 @@
+import { DEFAULT_LOCALE, getMessages, type Locale } from '../i18n';
+
+/**
+ * Koordinat referans sistemi (CRS) tespiti
+ * Sınır dosyalarının WGS84 coğrafi koordinatta olup olmadığını belirlemek için kullanılır.
+ * ITRF96 (TUSAGA-Aktif) ile WGS84 arasındaki fark metre altıdır; ikisi de uyumlu kabul edilir.
+ */
+export interface DetectedCrs {
+  /** Dosyadaki ad; boşsa sistem adlandırılamadı, describeCrs istenen dilde açıklama yazar */
+  name: string;
+  epsg?: number;
+  kind: 'geographic' | 'projected';
+  /** Koordinatlar dönüşüm yapılmadan WGS84 olarak kullanılabilir mi */
+  wgs84Compatible: boolean;
+  /** .prj olmadığı için WGS84 varsayıldı */
+  assumed?: boolean;
+}
+
+export const WGS84_CRS: DetectedCrs = { name: 'WGS 84', epsg: 4326, kind: 'geographic', wgs84Compatible: true };
+
+// WGS84 ile metre altı uyumlu coğrafi sistemler
+const WGS84_COMPATIBLE_GEOGRAPHIC = new Set([4326, 4258, 5252, 7789, 9053]);
+// Dönüşüm gerektiren, bilinen coğrafi sistemler
+const OTHER_GEOGRAPHIC: Record<number, string> = { 4230: 'ED50', 4267: 'NAD27' };
+
+const WGS84_DATUM_PATTERN = /WGS[\s_]*(19)?84|ITRF[\s_]*96|TUREF|GRS[\s_]*(19)?80|ETRS[\s_]*(19)?89/i;
+
+/** .prj dosyasındaki ESRI/OGC WKT metninden CRS çıkarır */
+export function detectCrsFromWkt(wkt: string): DetectedCrs {
+  const text = wkt.trim();
+  const nameOf = (keyword: string) => text.match(new RegExp(`${keyword}\\s*\\[\\s*"([^"]+)"`, 'i'))?.[1];
+  const authority = text.match(/AUTHORITY\s*\[\s*"EPSG"\s*,\s*"?(\d+)"?\s*\]\s*\]\s*$/i);
+  const epsg = authority ? Number(authority[1]) : undefined;
+
+  const projected = nameOf('PROJCS');
+  if (projected) {
+    return { name: projected.replace(/_/g, ' '), epsg, kind: 'projected', wgs84Compatible: false };
+  }
+
+  const geographic = nameOf('GEOGCS') || '';
+  const datum = nameOf('DATUM') || '';
+  return {
+    name: geographic.replace(/_/g, ' '),
+    epsg,
+    kind: 'geographic',
+    wgs84Compatible: WGS84_DATUM_PATTERN.test(`${geographic} ${datum}`),
+  };
+}
+
+/**
+ * GeoJSON "crs" üyesinden (RFC 7946 öncesi) CRS çıkarır.
+ * Üye yoksa standart gereği WGS84 kabul edilir.
+ */
+const member = (value: unknown, key: string): unknown =>
+  typeof value === 'object' && value !== null ? (value as Record<string, unknown>)[key] : undefined;
+
+export function detectCrsFromGeoJson(json: unknown): DetectedCrs {
+  const name = member(member(member(json, 'crs'), 'properties'), 'name');
+  if (typeof name !== 'string') return WGS84_CRS;
+  if (/CRS84$/i.test(name)) return WGS84_CRS;
+
+  const epsg = Number(name.match(/EPSG:{1,2}(\d+)/i)?.[1]);
+  if (!Number.isFinite(epsg)) {
+    return { name, kind: 'projected', wgs84Compatible: false };
+  }
+  if (WGS84_COMPATIBLE_GEOGRAPHIC.has(epsg)) {
+    return { ...WGS84_CRS, epsg, name: epsg === 4326 ? WGS84_CRS.name : `EPSG:${epsg}` };
+  }
+  if (OTHER_GEOGRAPHIC[epsg]) {
+    return { name: OTHER_GEOGRAPHIC[epsg], epsg, kind: 'geographic', wgs84Compatible: false };
+  }
+  return { name: `EPSG:${epsg}`, epsg, kind: 'projected', wgs84Compatible: false };
+}
+
+export function describeCrs(crs: DetectedCrs, locale: Locale = DEFAULT_LOCALE): string {
+  const m = getMessages(locale).estimator;
+  const name = crs.name || (crs.assumed ? m.crsAssumedWgs84 : m.crsUnknownGeographic);
+  return crs.epsg && !name.includes(String(crs.epsg)) ? `${name} (EPSG:${crs.epsg})` : name;
+}
@@ -0,0 +1,48 @@
+import { detectCrsFromGeoJson, type DetectedCrs } from '../crs';
+
+/**
+ * GeoJSON okuyucu
+ * Geometri, Feature, FeatureCollection ve GeometryCollection içindeki tüm poligonlar toplanır.
+ */
+export interface RawBoundary {
+  /** GeoJSON Polygon koordinat dizileri; doğrulama boundary.ts içinde yapılır */
+  polygons: unknown[];
+  crs: DetectedCrs;
+}
+
+/** Okuyucuların hata kodları; shared/i18n estimator.errors altındaki anahtarlarla aynıdır */
+export type BoundaryReadError =
+  | 'invalidGeoJson'
+  | 'invalidKml'
+  | 'shpUnreadable'
+  | 'shpNotPolygon'
+  | 'shpTruncated'
+  | 'shpMixedTypes'
+  | 'archiveNoBoundary';
+
+/** GeoJSON nesnesinin okunan üyeleri; değerler kullanılmadan önce ayrıca denetlenir */
+type GeoJsonNode = { type?: unknown; features?: unknown; geometry?: unknown; geometries?: unknown; coordinates?: unknown };
+
+const isGeoJsonNode = (value: unknown): value is GeoJsonNode => typeof value === 'object' && value !== null;
+
+export function readGeoJson(text: string): RawBoundary | BoundaryReadError {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return 'invalidGeoJson';
+  }
+
+  const polygons: unknown[] = [];
+  const collect = (node: unknown) => {
+    if (!isGeoJsonNode(node)) return;
+    if (node.type === 'FeatureCollection' && Array.isArray(node.features)) node.features.forEach(collect);
+    else if (node.type === 'Feature') collect(node.geometry);
+    else if (node.type === 'GeometryCollection' && Array.isArray(node.geometries)) node.geometries.forEach(collect);
+    else if (node.type === 'Polygon') polygons.push(node.coordinates);
+    else if (node.type === 'MultiPolygon' && Array.isArray(node.coordinates)) polygons.push(...node.coordinates);
+  };
+  collect(json);
+
+  return { polygons, crs: detectCrsFromGeoJson(json) };
+}
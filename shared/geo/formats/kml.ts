@@ -0,0 +1,41 @@
+import { WGS84_CRS } from '../crs';
+import type { LinearRing, Position } from '../types';
+import type { BoundaryReadError, RawBoundary } from './geojson';
+
+/**
+ * KML okuyucu
+ * DOM'a bağımlı değildir (Pages Functions'ta DOMParser yok); <Polygon> blokları düzenli ifadeyle okunur.
+ * KML her zaman WGS84 boylam/enlem kullanır.
+ */
+
+/** <coordinates> içeriği: "boylam,enlem[,yükseklik]" grupları boşlukla ayrılır */
+function parseCoordinates(text: string): LinearRing {
+  return text
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple) => {
+      const [lon, lat] = tuple.split(',').map(Number);
+      return [lon, lat] as Position;
+    });
+}
+
+const extractRings = (xml: string, boundaryTag: string): LinearRing[] => {
+  const pattern = new RegExp(
+    `<(?:\\w+:)?${boundaryTag}[^>]*>[\\s\\S]*?<(?:\\w+:)?coordinates[^>]*>([\\s\\S]*?)</(?:\\w+:)?coordinates>`,
+    'g'
+  );
+  return Array.from(xml.matchAll(pattern), (m) => parseCoordinates(m[1]));
+};
+
+export function readKml(text: string): RawBoundary | BoundaryReadError {
+  if (!/<(?:\w+:)?kml[\s>]/i.test(text)) {
+    return 'invalidKml';
+  }
+  const polygons = Array.from(text.matchAll(/<(?:\w+:)?Polygon[^>]*>([\s\S]*?)<\/(?:\w+:)?Polygon>/g), (m) => [
+    ...extractRings(m[1], 'outerBoundaryIs').slice(0, 1),
+    ...extractRings(m[1], 'innerBoundaryIs'),
+  ]).filter((rings) => rings.length > 0);
+
+  return { polygons, crs: WGS84_CRS };
+}
@@ -0,0 +1,113 @@
+/**
+ * Nokta listesi CSV okuyucu/yazıcı (koordinat dönüştürme)
+ * Satır biçimi: [nokta adı,] x, y [, diğer sütunlar...]; diğer sütunlar (ör. kot, kod) çıktıya aynen taşınır.
+ * Ayraç ilk satırdan seçilir (; sekme ,). Noktalı virgül ya da sekmeyle ayrılmış dosyalarda
+ * Excel'in Türkçe çıktısındaki ondalık virgül kabul edilir ve çıktı da aynı biçimde yazılır.
+ */
+
+export const POINT_CSV_MAX_ROWS = 5000;
+
+export type PointCsvRow =
+  | { line: number; id: string; x: number; y: number; extra: string[] }
+  | { line: number; id: string; error: 'invalid-number'; extra: string[] };
+
+export interface PointCsv {
+  delimiter: string;
+  decimalComma: boolean;
+  /** İlk satır sayısal değilse başlık kabul edilir */
+  header: string[] | null;
+  rows: PointCsvRow[];
+}
+
+export type PointCsvError = 'empty' | 'too-many-rows';
+
+/** Tırnaklı alanları destekleyen tek satır ayrıştırıcı ("a;b";c) */
+function splitLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      quoted = true;
+      field = '';
+    } else if (char === delimiter) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+}
+
+const parseNumber = (value: string, decimalComma: boolean): number | null => {
+  const normalized = decimalComma ? value.replace(',', '.') : value;
+  return /^[-+]?(\d+\.?\d*|\.\d+)$/.test(normalized) ? Number(normalized) : null;
+};
+
+export function readPointCsv(text: string): PointCsv | PointCsvError {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const first = lines.find((line) => line.trim() !== '');
+  if (!first) return 'empty';
+
+  const delimiter = first.includes(';') ? ';' : first.includes('\t') ? '\t' : ',';
+  const decimalComma = delimiter !== ',';
+  const coordinateColumns = (fields: string[]) => (fields.length >= 3 ? 1 : 0);
+
+  let header: string[] | null = null;
+  const rows: PointCsvRow[] = [];
+  for (const [index, line] of lines.entries()) {
+    if (line.trim() === '') continue;
+    const fields = splitLine(line, delimiter);
+    const offset = coordinateColumns(fields);
+    const x = parseNumber(fields[offset] ?? '', decimalComma);
+    const y = parseNumber(fields[offset + 1] ?? '', decimalComma);
+    if (header === null && rows.length === 0 && (x === null || y === null)) {
+      header = fields;
+      continue;
+    }
+    if (rows.length >= POINT_CSV_MAX_ROWS) return 'too-many-rows';
+    const id = offset === 1 ? fields[0] : String(rows.length + 1);
+    const extra = fields.slice(offset + 2);
+    rows.push(x === null || y === null ? { line: index + 1, id, error: 'invalid-number', extra } : { line: index + 1, id, x, y, extra });
+  }
+  if (rows.length === 0) return 'empty';
+  return { delimiter, decimalComma, header, rows };
+}
+
+const quoteField = (value: string, delimiter: string) =>
+  value.includes(delimiter) || value.includes('"') || /[\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Satırları CSV'ye yazar; sayılar verilen ondalık basamakla, okunan dosyanın ayraç ve ondalık biçimiyle.
+ * Notu olan (dönüştürülemeyen) satır varsa sona noteHeader başlıklı bir sütun eklenir.
+ */
+export function writePointCsv(
+  rows: Array<{ id: string; x?: number; y?: number; extra: string[]; note?: string }>,
+  options: { delimiter: string; decimalComma: boolean; decimals: number; header: string[]; noteHeader: string }
+): string {
+  const formatNumber = (value: number | undefined) => {
+    if (value === undefined) return '';
+    const text = value.toFixed(options.decimals);
+    return options.decimalComma ? text.replace('.', ',') : text;
+  };
+  const hasNotes = rows.some((row) => row.note);
+  const lines = [hasNotes ? [...options.header, options.noteHeader] : options.header];
+  for (const row of rows) {
+    const fields = [row.id, formatNumber(row.x), formatNumber(row.y), ...row.extra];
+    if (hasNotes) fields.push(row.note ?? '');
+    lines.push(fields);
+  }
+  return lines.map((fields) => fields.map((field) => quoteField(field, options.delimiter)).join(options.delimiter)).join('\r\n') + '\r\n';
+}
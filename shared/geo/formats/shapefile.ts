@@ -0,0 +1,94 @@
+import { detectCrsFromWkt, type DetectedCrs } from '../crs';
+import type { LinearRing, Position } from '../types';
+import type { BoundaryReadError, RawBoundary } from './geojson';
+
+/**
+ * ESRI Shapefile (.shp) poligon okuyucu
+ * Desteklenen tipler: Polygon (5), PolygonZ (15), PolygonM (25); Z/M değerleri atılır.
+ * Shapefile'da dış halkalar saat yönünde, delikler saat yönünün tersinedir; delikler içinde
+ * bulundukları dış halkaya atanır. Öznitelikler (.dbf) alan hesabı için gerekmediğinden okunmaz.
+ */
+const SHP_FILE_CODE = 9994;
+const POLYGON_TYPES = new Set([5, 15, 25]);
+
+/** Düzlemsel işaretli alan; negatif değer saat yönü demektir */
+const planarSignedArea = (ring: LinearRing) => {
+  let sum = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    sum += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return sum / 2;
+};
+
+const ringContains = (ring: LinearRing, [x, y]: Position) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+function readShpRings(data: Uint8Array): LinearRing[][] | BoundaryReadError {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data.length < 100 || view.getInt32(0, false) !== SHP_FILE_CODE) {
+    return 'shpUnreadable';
+  }
+  const shapeType = view.getInt32(32, true);
+  if (!POLYGON_TYPES.has(shapeType)) {
+    return 'shpNotPolygon';
+  }
+
+  const polygons: LinearRing[][] = [];
+  let offset = 100;
+  while (offset + 8 <= data.length) {
+    const contentLength = view.getInt32(offset + 4, false) * 2;
+    const content = offset + 8;
+    offset = content + contentLength;
+    if (offset > data.length) return 'shpTruncated';
+
+    const recordType = view.getInt32(content, true);
+    if (recordType === 0) continue; // null shape
+    if (!POLYGON_TYPES.has(recordType)) return 'shpMixedTypes';
+
+    const numParts = view.getInt32(content + 36, true);
+    const numPoints = view.getInt32(content + 40, true);
+    const partsStart = content + 44;
+    const pointsStart = partsStart + numParts * 4;
+    const parts = Array.from({ length: numParts }, (_, i) => view.getInt32(partsStart + i * 4, true));
+
+    const rings: LinearRing[] = parts.map((start, i) => {
+      const end = i + 1 < numParts ? parts[i + 1] : numPoints;
+      const ring: LinearRing = [];
+      for (let p = start; p < end; p++) {
+        const at = pointsStart + p * 16;
+        ring.push([view.getFloat64(at, true), view.getFloat64(at + 8, true)]);
+      }
+      return ring;
+    });
+
+    const outers = rings.filter((r) => planarSignedArea(r) < 0).map((r) => [r]);
+    const holes = rings.filter((r) => planarSignedArea(r) >= 0);
+    // Yönü hatalı yazılmış dosyalarda hiç dış halka yoksa tüm halkalar dış kabul edilir
+    if (outers.length === 0) {
+      polygons.push(...holes.map((r) => [r]));
+      continue;
+    }
+    for (const hole of holes) {
+      const owner = outers.find(([outer]) => ringContains(outer, hole[0])) ?? outers[0];
+      owner.push(hole);
+    }
+    polygons.push(...outers);
+  }
+  return polygons;
+}
+
+export function readShapefile(shp: Uint8Array, prj: string | null): RawBoundary | BoundaryReadError {
+  const polygons = readShpRings(shp);
+  if (typeof polygons === 'string') return polygons;
+
+  // .prj yoksa CRS bilinmez; koordinatlar derece aralığındaysa WGS84 varsayılır, değilse doğrulama reddeder
+  const crs: DetectedCrs = prj ? detectCrsFromWkt(prj) : { name: '', kind: 'geographic', wgs84Compatible: true, assumed: true };
+  return { polygons, crs };
+}
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { WGS84, geodesicArea, geodesicDistance, geodesicPerimeter, ringSignedArea } from './geodesy';
+import { findCoordinateSystem, transformPoint } from './transform';
+import type { LinearRing, Position } from './types';
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const e2 = WGS84.f * (2 - WGS84.f);
+const e = Math.sqrt(e2);
+
+/** İki paralel ve iki meridyenle sınırlı elipsoidal dörtgenin kesin alanı (m²) */
+function quadArea(lat1: number, lat2: number, dLon: number): number {
+  const f = (lat: number) => {
+    const s = Math.sin(toRad(lat));
+    return s / (1 - e2 * s * s) + (1 / (2 * e)) * Math.log((1 + e * s) / (1 - e * s));
+  };
+  return ((WGS84.a ** 2 * (1 - e2)) / 2) * toRad(dLon) * (f(lat2) - f(lat1));
+}
+
+/** Paralel kenarları sık noktalanmış dörtgen; halka kenarları büyük daire olduğundan paralel ancak böyle izlenir */
+function quadRing(lon1: number, lat1: number, lon2: number, lat2: number, steps = 2000): LinearRing {
+  const ring: Position[] = [];
+  for (let i = 0; i <= steps; i++) ring.push([lon1 + ((lon2 - lon1) * i) / steps, lat1]);
+  for (let i = 0; i <= steps; i++) ring.push([lon2 - ((lon2 - lon1) * i) / steps, lat2]);
+  ring.push([lon1, lat1]);
+  return ring;
+}
+
+describe('geodesicArea, kapalı form', () => {
+  it.each([
+    [39, 40, 1],
+    [36, 42, 6],
+    [41, 41.01, 0.01],
+  ])('%s°-%s°K arası %s° genişlikte dörtgen', (lat1, lat2, dLon) => {
+    const area = geodesicArea({ type: 'Polygon', coordinates: [quadRing(32, lat1, 32 + dLon, lat2)] });
+    expect(Math.abs(area / quadArea(lat1, lat2, dLon) - 1)).toBeLessThan(1e-6);
+  });
+
+  it('kapalı form kendi içinde doğru: tüm elipsoid 510.065.621,7 km², 39°-40°K 1°×1° dörtgen 9.549,5 km²', () => {
+    expect(quadArea(-90, 90, 360) / 1e6).toBeCloseTo(510_065_621.7, 0);
+    expect(quadArea(39, 40, 1) / 1e6).toBeCloseTo(9549.52, 2);
+  });
+
+  it('halka yönünden bağımsızdır; delikler çıkarılır, çoklu poligon toplanır', () => {
+    const outer = quadRing(32, 39, 32.01, 39.01, 10);
+    const hole = quadRing(32.004, 39.004, 32.006, 39.006, 10);
+    const outerArea = geodesicArea({ type: 'Polygon', coordinates: [outer] });
+    expect(geodesicArea({ type: 'Polygon', coordinates: [[...outer].reverse()] })).toBeCloseTo(outerArea, 3);
+    expect(Math.sign(ringSignedArea(outer))).toBe(-Math.sign(ringSignedArea([...outer].reverse())));
+
+    const holeArea = geodesicArea({ type: 'Polygon', coordinates: [hole] });
+    expect(geodesicArea({ type: 'Polygon', coordinates: [outer, hole] })).toBeCloseTo(outerArea - holeArea, 3);
+    expect(geodesicArea({ type: 'MultiPolygon', coordinates: [[outer], [hole]] })).toBeCloseTo(outerArea + holeArea, 3);
+  });
+});
+
+/**
+ * Tapu alanı ITRF96 3° TM düzleminde (ölçek 1) köşe koordinatlarından hesaplanır. Düzlem alanı
+ * elipsoidal alandan parsel ağırlık merkezindeki ölçek faktörünün karesi kadar büyüktür:
+ * k ≈ 1 + (E - 500000)² / (2R²). Parseller örnektir; kadastro paftalarındaki köşe listeleri biçimindedir.
+ */
+const scaleFactor = (corners: Array<[number, number]>) => {
+  const centroidEasting = corners.reduce((sum, [x]) => sum + x, 0) / corners.length;
+  return 1 + (centroidEasting - 500000) ** 2 / (2 * 6_371_000 ** 2);
+};
+
+const PARCELS: Array<{ name: string; system: string; corners: Array<[number, number]> }> = [
+  {
+    name: 'Ankara, Gölbaşı tarla (5 köşe)',
+    system: 'itrf96-tm33',
+    corners: [
+      [484512.37, 4398210.84],
+      [484731.92, 4398188.15],
+      [484766.03, 4398402.67],
+      [484620.48, 4398497.3],
+      [484498.11, 4398391.56],
+    ],
+  },
+  {
+    name: 'İzmir, Torbalı bahçe (4 köşe)',
+    system: 'itrf96-tm27',
+    corners: [
+      [531204.66, 4226480.12],
+      [531387.4, 4226512.77],
+      [531352.91, 4226698.05],
+      [531170.25, 4226661.3],
+    ],
+  },
+  {
+    name: 'Erzurum, Pasinler mera (7 köşe, dilim kenarına yakın)',
+    system: 'itrf96-tm42',
+    corners: [
+      [389402.5, 4424010.2],
+      [390655.8, 4423950.6],
+      [391120.3, 4424620.9],
+      [390880.1, 4425390.4],
+      [390104.7, 4425712.8],
+      [389512.9, 4425301.5],
+      [389215.6, 4424702.3],
+    ],
+  },
+];
+
+describe.each(PARCELS)('geodesicArea, $name', ({ system, corners }) => {
+  const from = findCoordinateSystem(system)!;
+  const wgs84 = findCoordinateSystem('wgs84')!;
+  const ring: LinearRing = [...corners, corners[0]].map(([x, y]) => {
+    const result = transformPoint({ x, y }, from, wgs84);
+    if (result.ok === false) throw new Error(result.error);
+    return [result.point.x, result.point.y];
+  });
+
+  it('TM3 tapu alanının ölçek düzeltilmiş değeriyle 1/10.000 içinde uyuşur', () => {
+    let planar = 0;
+    for (let i = 0; i < corners.length; i++) {
+      const [x1, y1] = corners[i];
+      const [x2, y2] = corners[(i + 1) % corners.length];
+      planar += x1 * y2 - x2 * y1;
+    }
+    planar = Math.abs(planar) / 2;
+    const k = scaleFactor(corners);
+    const area = geodesicArea({ type: 'Polygon', coordinates: [ring] });
+    expect(Math.abs(area / (planar / (k * k)) - 1)).toBeLessThan(1e-4);
+  });
+
+  it('çevre düzlem kenar uzunluklarıyla 1/10.000 içinde uyuşur', () => {
+    let planar = 0;
+    for (let i = 0; i < corners.length; i++) {
+      const [x1, y1] = corners[i];
+      const [x2, y2] = corners[(i + 1) % corners.length];
+      planar += Math.hypot(x2 - x1, y2 - y1);
+    }
+    const k = scaleFactor(corners);
+    expect(Math.abs(geodesicPerimeter({ type: 'Polygon', coordinates: [ring] }) / (planar / k) - 1)).toBeLessThan(1e-4);
+  });
+});
+
+describe('geodesicDistance', () => {
+  it("Vincenty'nin örnek hattı: Flinders Peak - Buninyong 54.972,271 m", () => {
+    const dms = (d: number, m: number, s: number) => Math.sign(d) * (Math.abs(d) + m / 60 + s / 3600);
+    const flinders: Position = [dms(144, 25, 29.5244), dms(-37, 57, 3.7203)];
+    const buninyong: Position = [dms(143, 55, 35.3839), dms(-37, 39, 10.1561)];
+    expect(geodesicDistance(flinders, buninyong)).toBeCloseTo(54972.271, 2);
+  });
+
+  it('aynı noktada sıfır, meridyen boyunca 1° ≈ 111 km', () => {
+    expect(geodesicDistance([32, 39], [32, 39])).toBe(0);
+    expect(geodesicDistance([32, 39], [32, 40]) / 1000).toBeCloseTo(111.05, 1);
+  });
+});
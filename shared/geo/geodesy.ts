@@ -0,0 +1,139 @@
+import type { AreaGeometry, LinearRing, Position } from './types';
+
+/**
+ * WGS84 elipsoidi üzerinde alan ve uzunluk hesapları
+ *
+ * Alan: enlemler otalik (authalic) enleme çevrilir ve eşdeğer alanlı kürede kenar başına kesin küresel
+ * fazlalık toplanır. Eşalan dönüşümü sayesinde Türkiye enlemlerinde (36°-42°) parsel ölçeğinde fark
+ * elipsoidal jeodezik poligon alanından ihmal edilebilir düzeydedir (< %0.01).
+ * Uzunluk: Vincenty ters çözümü.
+ */
+export const WGS84 = {
+  a: 6378137,
+  f: 1 / 298.257223563,
+} as const;
+
+const b = WGS84.a * (1 - WGS84.f);
+const e2 = WGS84.f * (2 - WGS84.f);
+const e = Math.sqrt(e2);
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+// q(φ): otalik enlem ve otalik yarıçap için yardımcı fonksiyon
+const qOf = (sinPhi: number) =>
+  (1 - e2) * (sinPhi / (1 - e2 * sinPhi * sinPhi) - (1 / (2 * e)) * Math.log((1 - e * sinPhi) / (1 + e * sinPhi)));
+
+const qPole = qOf(1);
+
+/** Elipsoidle aynı yüzey alanına sahip kürenin yarıçapı (≈ 6371007.18 m) */
+export const AUTHALIC_RADIUS = WGS84.a * Math.sqrt(qPole / 2);
+
+/** Coğrafi enlemi (derece) otalik enleme (radyan) çevirir */
+export function authalicLatitude(latDeg: number): number {
+  const ratio = qOf(Math.sin(toRad(latDeg))) / qPole;
+  return Math.asin(Math.max(-1, Math.min(1, ratio)));
+}
+
+/**
+ * Halka alanı (m²), işaretli: saat yönünün tersi pozitif.
+ * Kenar başına küresel fazlalık: E = 2·atan2(tan(Δλ/2)·(tan(β1/2)+tan(β2/2)), 1+tan(β1/2)·tan(β2/2))
+ */
+export function ringSignedArea(ring: LinearRing): number {
+  let excess = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [lon1, lat1] = ring[i];
+    const [lon2, lat2] = ring[i + 1];
+    let dLon = toRad(lon2 - lon1);
+    // Antimeridyen geçişinde kısa yol
+    if (dLon > Math.PI) dLon -= 2 * Math.PI;
+    if (dLon < -Math.PI) dLon += 2 * Math.PI;
+    const t1 = Math.tan(authalicLatitude(lat1) / 2);
+    const t2 = Math.tan(authalicLatitude(lat2) / 2);
+    excess += 2 * Math.atan2(Math.tan(dLon / 2) * (t1 + t2), 1 + t1 * t2);
+  }
+  return excess * AUTHALIC_RADIUS * AUTHALIC_RADIUS;
+}
+
+/** Poligon/multipoligon alanı (m²); delikler çıkarılır, halka yönünden bağımsızdır */
+export function geodesicArea(geometry: AreaGeometry): number {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.reduce((total, rings) => {
+    const [outer, ...holes] = rings;
+    const holeArea = holes.reduce((sum, hole) => sum + Math.abs(ringSignedArea(hole)), 0);
+    return total + Math.abs(ringSignedArea(outer)) - holeArea;
+  }, 0);
+}
+
+/**
+ * İki nokta arası jeodezik mesafe (m), Vincenty ters çözümü.
+ * Neredeyse antipodal noktalarda yakınsamazsa küresel mesafeye düşer (Türkiye ölçeğinde oluşmaz).
+ */
+export function geodesicDistance(from: Position, to: Position): number {
+  const [lon1, lat1] = from;
+  const [lon2, lat2] = to;
+  if (lon1 === lon2 && lat1 === lat2) return 0;
+
+  const f = WGS84.f;
+  const L = toRad(lon2 - lon1);
+  const U1 = Math.atan((1 - f) * Math.tan(toRad(lat1)));
+  const U2 = Math.atan((1 - f) * Math.tan(toRad(lat2)));
+  const sinU1 = Math.sin(U1);
+  const cosU1 = Math.cos(U1);
+  const sinU2 = Math.sin(U2);
+  const cosU2 = Math.cos(U2);
+
+  let lambda = L;
+  for (let iter = 0; iter < 200; iter++) {
+    const sinLambda = Math.sin(lambda);
+    const cosLambda = Math.cos(lambda);
+    const sinSigma = Math.sqrt(
+      (cosU2 * sinLambda) ** 2 + (cosU1 * sinU2 - sinU1 * cosU2 * cosLambda) ** 2
+    );
+    if (sinSigma === 0) return 0;
+    const cosSigma = sinU1 * sinU2 + cosU1 * cosU2 * cosLambda;
+    const sigma = Math.atan2(sinSigma, cosSigma);
+    const sinAlpha = (cosU1 * cosU2 * sinLambda) / sinSigma;
+    const cos2Alpha = 1 - sinAlpha * sinAlpha;
+    const cos2SigmaM = cos2Alpha === 0 ? 0 : cosSigma - (2 * sinU1 * sinU2) / cos2Alpha;
+    const C = (f / 16) * cos2Alpha * (4 + f * (4 - 3 * cos2Alpha));
+    const lambdaPrev = lambda;
+    lambda =
+      L +
+      (1 - C) * f * sinAlpha * (sigma + C * sinSigma * (cos2SigmaM + C * cosSigma * (-1 + 2 * cos2SigmaM ** 2)));
+
+    if (Math.abs(lambda - lambdaPrev) < 1e-12) {
+      const uSq = (cos2Alpha * (WGS84.a ** 2 - b ** 2)) / b ** 2;
+      const A = 1 + (uSq / 16384) * (4096 + uSq * (-768 + uSq * (320 - 175 * uSq)));
+      const B = (uSq / 1024) * (256 + uSq * (-128 + uSq * (74 - 47 * uSq)));
+      const deltaSigma =
+        B *
+        sinSigma *
+        (cos2SigmaM +
+          (B / 4) *
+            (cosSigma * (-1 + 2 * cos2SigmaM ** 2) -
+              (B / 6) * cos2SigmaM * (-3 + 4 * sinSigma ** 2) * (-3 + 4 * cos2SigmaM ** 2)));
+      return b * A * (sigma - deltaSigma);
+    }
+  }
+
+  // Yakınsama yoksa haversine
+  const dLat = toRad(lat2 - lat1);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(L / 2) ** 2;
+  return 2 * AUTHALIC_RADIUS * Math.asin(Math.sqrt(h));
+}
+
+export function ringLength(ring: LinearRing): number {
+  let length = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    length += geodesicDistance(ring[i], ring[i + 1]);
+  }
+  return length;
+}
+
+/** Tüm halkaların (delikler dahil) toplam çevre uzunluğu (m) */
+export function geodesicPerimeter(geometry: AreaGeometry): number {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.reduce((total, rings) => total + rings.reduce((sum, ring) => sum + ringLength(ring), 0), 0);
+}
+
+export const SQUARE_METERS_PER_HECTARE = 10_000;
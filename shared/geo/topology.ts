@@ -0,0 +1,117 @@
+import type { AreaGeometry, LinearRing, Position } from './types';
+
+/**
+ * Basit (simple) geometri kontrolü
+ * Bir poligonun halkaları ne kendileriyle ne de birbirleriyle kesişmemelidir (OGC Simple Features).
+ * Segmentler x eksenine göre sıralanıp süpürülür; tipik sınır dosyalarında O(n log n) çalışır.
+ */
+interface Segment {
+  a: Position;
+  b: Position;
+  ring: number;
+  index: number;
+  ringSize: number;
+  minX: number;
+  maxX: number;
+  minY: number;
+  maxY: number;
+}
+
+const EPSILON = 1e-12;
+
+const orient = (p: Position, q: Position, r: Position) => {
+  const v = (q[0] - p[0]) * (r[1] - p[1]) - (q[1] - p[1]) * (r[0] - p[0]);
+  return Math.abs(v) < EPSILON ? 0 : v > 0 ? 1 : -1;
+};
+
+const onSegment = (p: Position, q: Position, r: Position) =>
+  Math.min(p[0], r[0]) - EPSILON <= q[0] &&
+  q[0] <= Math.max(p[0], r[0]) + EPSILON &&
+  Math.min(p[1], r[1]) - EPSILON <= q[1] &&
+  q[1] <= Math.max(p[1], r[1]) + EPSILON;
+
+export function segmentsIntersect(p1: Position, p2: Position, q1: Position, q2: Position): boolean {
+  const o1 = orient(p1, p2, q1);
+  const o2 = orient(p1, p2, q2);
+  const o3 = orient(q1, q2, p1);
+  const o4 = orient(q1, q2, p2);
+  if (o1 !== o2 && o3 !== o4) return true;
+  if (o1 === 0 && onSegment(p1, q1, p2)) return true;
+  if (o2 === 0 && onSegment(p1, q2, p2)) return true;
+  if (o3 === 0 && onSegment(q1, p1, q2)) return true;
+  if (o4 === 0 && onSegment(q1, p2, q2)) return true;
+  return false;
+}
+
+/** Aynı halkada ardışık segmentler ortak köşeyi paylaşır; bu kesişim sayılmaz */
+const areAdjacent = (s: Segment, t: Segment) =>
+  s.ring === t.ring &&
+  (Math.abs(s.index - t.index) === 1 || Math.abs(s.index - t.index) === s.ringSize - 1);
+
+/** Ardışık segmentler ortak köşeden aynı yöne geri dönüyorsa (diken) üst üste biner */
+function adjacentOverlap(s: Segment, t: Segment): boolean {
+  const [first, second] = (s.index + 1) % s.ringSize === t.index ? [s, t] : [t, s];
+  const p = first.b;
+  const a = first.a;
+  const b = second.b;
+  if (orient(a, p, b) !== 0) return false;
+  return (a[0] - p[0]) * (b[0] - p[0]) + (a[1] - p[1]) * (b[1] - p[1]) > 0;
+}
+
+function polygonIsSimple(rings: LinearRing[]): boolean {
+  const segments: Segment[] = [];
+  rings.forEach((ring, ringIndex) => {
+    const ringSize = ring.length - 1;
+    for (let i = 0; i < ringSize; i++) {
+      const a = ring[i];
+      const b = ring[i + 1];
+      segments.push({
+        a,
+        b,
+        ring: ringIndex,
+        index: i,
+        ringSize,
+        minX: Math.min(a[0], b[0]),
+        maxX: Math.max(a[0], b[0]),
+        minY: Math.min(a[1], b[1]),
+        maxY: Math.max(a[1], b[1]),
+      });
+    }
+  });
+  segments.sort((s, t) => s.minX - t.minX);
+
+  for (let i = 0; i < segments.length; i++) {
+    const s = segments[i];
+    for (let j = i + 1; j < segments.length && segments[j].minX <= s.maxX; j++) {
+      const t = segments[j];
+      if (t.maxY < s.minY || t.minY > s.maxY) continue;
+      if (areAdjacent(s, t) ? adjacentOverlap(s, t) : segmentsIntersect(s.a, s.b, t.a, t.b)) return false;
+    }
+  }
+  return true;
+}
+
+/** İlk kendisiyle kesişen poligonun sırası (0 tabanlı) ya da -1 */
+export function findSelfIntersection(geometry: AreaGeometry): number {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.findIndex((rings) => !polygonIsSimple(rings));
+}
+
+/** Işın atma (ray casting); halka üzerindeki noktalar için sonuç tanımsızdır */
+function pointInRing([x, y]: Position, ring: LinearRing): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+/** Nokta poligonun dış halkası içinde ve deliklerinin dışındaysa true */
+export function pointInGeometry(point: Position, geometry: AreaGeometry): boolean {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.some(
+    ([outer, ...holes]) => pointInRing(point, outer) && !holes.some((hole) => pointInRing(point, hole))
+  );
+}
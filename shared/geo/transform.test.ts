@@ -0,0 +1,196 @@
+import { describe, expect, it } from 'vitest';
+import {
+  COORDINATE_SYSTEMS,
+  ED50_TO_WGS84_TURKEY,
+  INTERNATIONAL_1924,
+  WGS84_ELLIPSOID,
+  applyHelmert,
+  findCoordinateSystem,
+  geocentricToGeographic,
+  geographicToGeocentric,
+  projectTransverseMercator,
+  transformPoint,
+  unprojectTransverseMercator,
+  type PlanarPoint,
+  type TransverseMercator,
+} from './transform';
+
+// Projeksiyonlu sistemlerde 1 cm; coğrafi sistemlerde 1e-7° (~1 cm)
+const METRE_TOLERANCE = 0.01;
+const DEGREE_TOLERANCE = 1e-7;
+
+const dms = (d: number, m: number, s: number) => d + m / 60 + s / 3600;
+
+const system = (id: string) => {
+  const found = findCoordinateSystem(id);
+  if (!found) throw new Error(`Bilinmeyen sistem: ${id}`);
+  return found;
+};
+
+function convert(point: PlanarPoint, from: string, to: string): PlanarPoint {
+  const result = transformPoint(point, system(from), system(to));
+  if (result.ok === false) throw new Error(result.error);
+  return result.point;
+}
+
+/** Mutlak toleransla karşılaştırma; kılavuzdaki değerler santimetreye yuvarlanmıştır */
+function expectNear(actual: PlanarPoint, expected: readonly [number, number], tolerance: number) {
+  expect(Math.abs(actual.x - expected[0])).toBeLessThan(tolerance);
+  expect(Math.abs(actual.y - expected[1])).toBeLessThan(tolerance);
+}
+
+describe('EPSG Guidance Note 7-2 örnekleri', () => {
+  it('Transverse Mercator (yöntem 9807): OSGB 1936 / British National Grid', () => {
+    const projection: TransverseMercator = {
+      ellipsoid: { a: 6377563.396, f: 1 / 299.3249646 },
+      centralMeridian: -2,
+      latitudeOfOrigin: 49,
+      scaleFactor: 0.9996012717,
+      falseEasting: 400000,
+      falseNorthing: -100000,
+    };
+    const { easting, northing } = projectTransverseMercator(50.5, 0.5, projection);
+    expectNear({ x: easting, y: northing }, [577274.99, 69740.5], METRE_TOLERANCE);
+
+    const { lat, lon } = unprojectTransverseMercator(577274.99, 69740.5, projection);
+    expect(Math.abs(lat - 50.5)).toBeLessThan(DEGREE_TOLERANCE);
+    expect(Math.abs(lon - 0.5)).toBeLessThan(DEGREE_TOLERANCE);
+  });
+
+  it('coğrafi <-> yer merkezli (yöntem 9602): WGS 84', () => {
+    const lat = dms(53, 48, 33.82);
+    const lon = dms(2, 7, 46.38);
+    const geocentric = geographicToGeocentric(lat, lon, 73, WGS84_ELLIPSOID);
+    expect(geocentric.x).toBeCloseTo(3771793.968, 3);
+    expect(geocentric.y).toBeCloseTo(140253.342, 3);
+    expect(geocentric.z).toBeCloseTo(5124304.349, 3);
+
+    const geographic = geocentricToGeographic(geocentric, WGS84_ELLIPSOID);
+    expect(Math.abs(geographic.lat - lat)).toBeLessThan(1e-10);
+    expect(Math.abs(geographic.lon - lon)).toBeLessThan(1e-10);
+    expect(geographic.h).toBeCloseTo(73, 4);
+  });
+
+  // Aynı dönüşüm iki yöntemde ters işaretli rz ile yayımlanır; sonuç aynı olmalıdır
+  it.each([
+    ['Position Vector (yöntem 9606)', { method: 'position-vector', rz: 0.554 }],
+    ['Coordinate Frame (yöntem 9607)', { method: 'coordinate-frame', rz: -0.554 }],
+  ] as const)('Helmert, %s: WGS 72 -> WGS 84', (_name, { method, rz }) => {
+    const shifted = applyHelmert(
+      { x: 3657660.66, y: 255768.55, z: 5201382.11 },
+      { method, tx: 0, ty: 0, tz: 4.5, rx: 0, ry: 0, rz, ds: 0.219 }
+    );
+    expect(Math.abs(shifted.x - 3657660.78)).toBeLessThan(METRE_TOLERANCE);
+    expect(Math.abs(shifted.y - 255778.43)).toBeLessThan(METRE_TOLERANCE);
+    expect(Math.abs(shifted.z - 5201387.75)).toBeLessThan(METRE_TOLERANCE);
+  });
+});
+
+describe('ED50 -> WGS 84 Türkiye (EPSG:1784)', () => {
+  // EPSG veri tabanı v10.098: EPSG:1784, yöntem 9606 (Position Vector), doğruluk 2 m
+  it('parametreler ve dönüklük kuralı EPSG kaydıyla aynıdır', () => {
+    expect(ED50_TO_WGS84_TURKEY).toEqual({
+      method: 'position-vector',
+      tx: -84.1,
+      ty: -101.8,
+      tz: -129.7,
+      rx: 0,
+      ry: 0,
+      rz: 0.468,
+      ds: 1.05,
+    });
+  });
+
+  it('kural ters seçilirse Ankara ~20 m kayar (işaret hatası testlerden kaçamaz)', () => {
+    const ed50 = geographicToGeocentric(39.92, 32.85, 0, INTERNATIONAL_1924);
+    const right = applyHelmert(ed50, ED50_TO_WGS84_TURKEY);
+    const wrong = applyHelmert(ed50, { ...ED50_TO_WGS84_TURKEY, method: 'coordinate-frame' });
+    const shift = Math.hypot(right.x - wrong.x, right.y - wrong.y, right.z - wrong.z);
+    expect(shift).toBeGreaterThan(15);
+    expect(shift).toBeLessThan(25);
+  });
+
+  it('ters yön yer merkezli koordinatta milimetre altında geri döner', () => {
+    const ed50 = geographicToGeocentric(39.92, 32.85, 0, INTERNATIONAL_1924);
+    const back = applyHelmert(applyHelmert(ed50, ED50_TO_WGS84_TURKEY), ED50_TO_WGS84_TURKEY, true);
+    expect(Math.abs(back.x - ed50.x)).toBeLessThan(0.001);
+    expect(Math.abs(back.y - ed50.y)).toBeLessThan(0.001);
+    expect(Math.abs(back.z - ed50.z)).toBeLessThan(0.001);
+  });
+});
+
+/**
+ * Türkiye noktalarında PROJ ile karşılaştırma; beklenen değerler proj4js (etmerc) ile aynı EPSG tanımlarıyla hesaplandı:
+ * ED50 +ellps=intl +towgs84=-84.1,-101.8,-129.7,0,0,0.468,1.05, ITRF96 +ellps=GRS80.
+ * Parametreler aynı olduğundan bu noktalar projeksiyonu ve dönüşüm zincirini denetler, parametrelerin kendisini değil;
+ * dönüklük kuralı yukarıdaki yayımlanmış 9606/9607 örnekleri ve EPSG kaydıyla sabitlenir.
+ */
+const CONTROL_POINTS = [
+  {
+    name: 'Ankara',
+    wgs84: [32.85411, 39.92077],
+    ed50: [32.854446616, 39.921748045],
+    utm: ['wgs84-utm36', 487532.49, 4418973.71],
+    ed50Utm: ['ed50-utm36', 487560.872, 4419157.867],
+    tm3: ['itrf96-tm33', 487527.501, 4420742.007],
+    ed50Tm3: ['ed50-tm33', 487555.894, 4420926.237],
+  },
+  {
+    name: 'İstanbul',
+    wgs84: [28.9784, 41.0082],
+    ed50: [28.978844253, 41.009169765],
+    utm: ['wgs84-utm35', 666370.505, 4541552.487],
+    ed50Utm: ['ed50-utm35', 666412.99, 4541740.209],
+    tm3: ['itrf96-tm30', 414057.506, 4541986.711],
+    ed50Tm3: ['ed50-tm30', 414092.234, 4542173.154],
+  },
+  {
+    name: 'Van',
+    wgs84: [43.38, 38.5],
+    ed50: [43.380056015, 38.500981077],
+    utm: ['wgs84-utm38', 358735.166, 4262536.827],
+    ed50Utm: ['ed50-utm38', 358735.632, 4262716.925],
+    tm3: ['itrf96-tm42', 620383.864, 4263901.218],
+    ed50Tm3: ['ed50-tm42', 620392.517, 4264081.529],
+  },
+] as const;
+
+describe.each(CONTROL_POINTS)('transformPoint, $name', (point) => {
+  const wgs84 = { x: point.wgs84[0], y: point.wgs84[1] };
+
+  it.each([point.utm, point.tm3, point.ed50Utm, point.ed50Tm3])('wgs84 -> %s', (target, easting, northing) => {
+    expectNear(convert(wgs84, 'wgs84', target), [easting, northing], METRE_TOLERANCE);
+  });
+
+  it('wgs84 -> ed50 coğrafi', () => {
+    expectNear(convert(wgs84, 'wgs84', 'ed50'), [point.ed50[0], point.ed50[1]], DEGREE_TOLERANCE);
+  });
+
+  it('ED50 ve ITRF96 projeksiyonları arasında doğrudan dönüşüm', () => {
+    const [, easting, northing] = point.ed50Tm3;
+    expectNear(convert({ x: easting, y: northing }, point.ed50Tm3[0], point.tm3[0]), [point.tm3[1], point.tm3[2]], METRE_TOLERANCE);
+  });
+
+  it.each([point.utm[0], point.tm3[0], point.ed50Utm[0], point.ed50Tm3[0], 'ed50', 'itrf96'])('gidiş-dönüş wgs84 -> %s -> wgs84', (target) => {
+    expectNear(convert(convert(wgs84, 'wgs84', target), target, 'wgs84'), point.wgs84, 1e-8);
+  });
+});
+
+describe('transformPoint, aralık denetimi', () => {
+  it('Türkiye dışı ya da eksenleri karışmış noktalar reddedilir', () => {
+    const wgs84 = system('wgs84');
+    const tm33 = system('itrf96-tm33');
+    // Paris; ardından eksenleri yer değiştirmiş projeksiyonlu nokta
+    expect(transformPoint({ x: 2.35, y: 48.85 }, wgs84, tm33)).toEqual({ ok: false, error: 'out-of-range' });
+    expect(transformPoint({ x: 4420742, y: 487527 }, tm33, wgs84)).toEqual({ ok: false, error: 'out-of-range' });
+    expect(transformPoint({ x: NaN, y: 40 }, wgs84, tm33)).toEqual({ ok: false, error: 'out-of-range' });
+  });
+
+  it('sistem kimlikleri benzersiz, EPSG kodları beklenen aralıklarda', () => {
+    expect(new Set(COORDINATE_SYSTEMS.map((s) => s.id)).size).toBe(COORDINATE_SYSTEMS.length);
+    expect(system('itrf96-tm27').epsg).toBe(5253);
+    expect(system('itrf96-tm45').epsg).toBe(5259);
+    expect(system('ed50-tm27').epsg).toBe(2319);
+    expect(system('ed50-utm36').epsg).toBe(23036);
+  });
+});
@@ -0,0 +1,358 @@
+/**
+ * Türkiye'de kullanılan koordinat sistemleri arasında dönüşüm
+ * WGS84 / ITRF96 coğrafi, UTM 35-38 (WGS84 ve ED50), 3° TM dilimleri 27-45 (ITRF96 ve ED50).
+ *
+ * Projeksiyon: Krüger serileriyle (n⁶ mertebesi) Transverse Mercator; dilim orta meridyeninden
+ * 1000 km uzakta bile milimetre altı doğruluk verir, UTM ve 3° TM aynı formülü farklı ölçek/meridyenle kullanır.
+ * Datum: ED50 <-> WGS84 yer merkezli (geocentric) 7 parametreli Helmert dönüşümüyle; ITRF96 ile WGS84
+ * arasındaki fark metre altı olduğundan (bkz. crs.ts) ikisi aynı datum kabul edilir.
+ * Yükseklikler dönüştürülmez; Helmert elipsoid yüzeyinde (h = 0) uygulanır, yatay etkisi milimetre düzeyindedir.
+ *
+ * /araclar/koordinat sayfası ve functions/api/transform.ts aynı modülü kullanır.
+ */
+
+export interface Ellipsoid {
+  a: number;
+  f: number;
+}
+
+export const GRS80: Ellipsoid = { a: 6378137, f: 1 / 298.257222101 };
+export const WGS84_ELLIPSOID: Ellipsoid = { a: 6378137, f: 1 / 298.257223563 };
+/** Uluslararası 1924 (Hayford), ED50 */
+export const INTERNATIONAL_1924: Ellipsoid = { a: 6378388, f: 1 / 297 };
+
+export type Datum = 'WGS84' | 'ITRF96' | 'ED50';
+
+const DATUM_ELLIPSOIDS: Record<Datum, Ellipsoid> = {
+  WGS84: WGS84_ELLIPSOID,
+  ITRF96: GRS80,
+  ED50: INTERNATIONAL_1924,
+};
+
+/**
+ * 7 parametreli Helmert; ötelemeler metre, dönüklükler açı saniyesi, ölçek ppm.
+ * Dönüklük işaretinin anlamı yayımlayan kuruma göre değişir: Position Vector (EPSG yöntem 9606, PROJ +towgs84)
+ * ile Coordinate Frame (EPSG yöntem 9607) aynı dönüşümü ters işaretli dönüklüklerle yazar.
+ * Kuralı yanlış seçmek Türkiye'de rz = 0,468″ için ~20 m kaydırır; bu yüzden parametreyle birlikte saklanır.
+ */
+export type HelmertMethod = 'position-vector' | 'coordinate-frame';
+
+export interface HelmertParameters {
+  method: HelmertMethod;
+  tx: number;
+  ty: number;
+  tz: number;
+  rx: number;
+  ry: number;
+  rz: number;
+  ds: number;
+}
+
+/**
+ * ED50 -> WGS84, Türkiye karaları (EPSG:1784, "ED50 to WGS 84 (30)", yöntem 9606 Position Vector)
+ * Yayımlanmış doğruluk ~2 m; eski paftalardan alınan koordinatlar için yeterlidir, kadastro aplikasyonu için değildir.
+ */
+export const ED50_TO_WGS84_TURKEY: HelmertParameters = {
+  method: 'position-vector',
+  tx: -84.1,
+  ty: -101.8,
+  tz: -129.7,
+  rx: 0,
+  ry: 0,
+  rz: 0.468,
+  ds: 1.05,
+};
+
+export interface Geocentric {
+  x: number;
+  y: number;
+  z: number;
+}
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+const toDeg = (rad: number) => (rad * 180) / Math.PI;
+const ARC_SECOND = Math.PI / (180 * 3600);
+
+/** Coğrafi (derece, h metre) -> yer merkezli kartezyen */
+export function geographicToGeocentric(lat: number, lon: number, h: number, ellipsoid: Ellipsoid): Geocentric {
+  const e2 = ellipsoid.f * (2 - ellipsoid.f);
+  const phi = toRad(lat);
+  const lambda = toRad(lon);
+  const sinPhi = Math.sin(phi);
+  const nu = ellipsoid.a / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+  return {
+    x: (nu + h) * Math.cos(phi) * Math.cos(lambda),
+    y: (nu + h) * Math.cos(phi) * Math.sin(lambda),
+    z: ((1 - e2) * nu + h) * sinPhi,
+  };
+}
+
+/** Yer merkezli kartezyen -> coğrafi; enlem ardışık yaklaşımla (Türkiye enlemlerinde birkaç adımda yakınsar) */
+export function geocentricToGeographic(point: Geocentric, ellipsoid: Ellipsoid): { lat: number; lon: number; h: number } {
+  const e2 = ellipsoid.f * (2 - ellipsoid.f);
+  const p = Math.hypot(point.x, point.y);
+  let phi = Math.atan2(point.z, p * (1 - e2));
+  let nu = ellipsoid.a;
+  for (let i = 0; i < 10; i++) {
+    const sinPhi = Math.sin(phi);
+    nu = ellipsoid.a / Math.sqrt(1 - e2 * sinPhi * sinPhi);
+    const next = Math.atan2(point.z + e2 * nu * sinPhi, p);
+    if (Math.abs(next - phi) < 1e-14) {
+      phi = next;
+      break;
+    }
+    phi = next;
+  }
+  return { lat: toDeg(phi), lon: toDeg(Math.atan2(point.y, point.x)), h: p / Math.cos(phi) - nu };
+}
+
+/**
+ * Helmert dönüşümü, Position Vector biçiminde uygulanır (Coordinate Frame dönüklükleri işaret çevrilerek)
+ * inverse: ters yön (parametrelerin işareti çevrilir, dönüklükler küçük olduğundan mm altı fark)
+ */
+export function applyHelmert(point: Geocentric, params: HelmertParameters, inverse = false): Geocentric {
+  const sign = inverse ? -1 : 1;
+  const rotationSign = params.method === 'coordinate-frame' ? -sign : sign;
+  const scale = 1 + (sign * params.ds) / 1e6;
+  const rx = rotationSign * params.rx * ARC_SECOND;
+  const ry = rotationSign * params.ry * ARC_SECOND;
+  const rz = rotationSign * params.rz * ARC_SECOND;
+  return {
+    x: sign * params.tx + scale * (point.x - rz * point.y + ry * point.z),
+    y: sign * params.ty + scale * (rz * point.x + point.y - rx * point.z),
+    z: sign * params.tz + scale * (-ry * point.x + rx * point.y + point.z),
+  };
+}
+
+export interface TransverseMercator {
+  ellipsoid: Ellipsoid;
+  centralMeridian: number;
+  scaleFactor: number;
+  falseEasting: number;
+  falseNorthing: number;
+  /** Başlangıç enlemi; UTM ve 3° TM'de ekvator (0) */
+  latitudeOfOrigin?: number;
+}
+
+interface KruegerSeries {
+  n: number;
+  e: number;
+  /** Dikdörtgen (rectifying) yarıçap */
+  A: number;
+  alpha: number[];
+  beta: number[];
+}
+
+const seriesCache = new Map<Ellipsoid, KruegerSeries>();
+
+function kruegerSeries(ellipsoid: Ellipsoid): KruegerSeries {
+  const cached = seriesCache.get(ellipsoid);
+  if (cached) return cached;
+  const n = ellipsoid.f / (2 - ellipsoid.f);
+  const n2 = n * n;
+  const n3 = n2 * n;
+  const n4 = n3 * n;
+  const n5 = n4 * n;
+  const n6 = n5 * n;
+  const series: KruegerSeries = {
+    n,
+    e: Math.sqrt(ellipsoid.f * (2 - ellipsoid.f)),
+    A: (ellipsoid.a / (1 + n)) * (1 + n2 / 4 + n4 / 64 + n6 / 256),
+    alpha: [
+      n / 2 - (2 * n2) / 3 + (5 * n3) / 16 + (41 * n4) / 180 - (127 * n5) / 288 + (7891 * n6) / 37800,
+      (13 * n2) / 48 - (3 * n3) / 5 + (557 * n4) / 1440 + (281 * n5) / 630 - (1983433 * n6) / 1935360,
+      (61 * n3) / 240 - (103 * n4) / 140 + (15061 * n5) / 26880 + (167603 * n6) / 181440,
+      (49561 * n4) / 161280 - (179 * n5) / 168 + (6601661 * n6) / 7257600,
+      (34729 * n5) / 80640 - (3418889 * n6) / 1995840,
+      (212378941 * n6) / 319334400,
+    ],
+    beta: [
+      n / 2 - (2 * n2) / 3 + (37 * n3) / 96 - n4 / 360 - (81 * n5) / 512 + (96199 * n6) / 604800,
+      n2 / 48 + n3 / 15 - (437 * n4) / 1440 + (46 * n5) / 105 - (1118711 * n6) / 3870720,
+      (17 * n3) / 480 - (37 * n4) / 840 - (209 * n5) / 4480 + (5569 * n6) / 90720,
+      (4397 * n4) / 161280 - (11 * n5) / 504 - (830251 * n6) / 7257600,
+      (4583 * n5) / 161280 - (108847 * n6) / 3991680,
+      (20648693 * n6) / 638668800,
+    ],
+  };
+  seriesCache.set(ellipsoid, series);
+  return series;
+}
+
+/** Konform enlemin tanjantı: τ' = τ·√(1+σ²) − σ·√(1+τ²) */
+function conformalTangent(tau: number, e: number): number {
+  const sigma = Math.sinh(e * Math.atanh((e * tau) / Math.sqrt(1 + tau * tau)));
+  return tau * Math.sqrt(1 + sigma * sigma) - sigma * Math.sqrt(1 + tau * tau);
+}
+
+/** Ekvatordan itibaren ölçeklenmemiş meridyen yayı (ξ, λ = λ0 için) */
+function projectedNorthingAtMeridian(lat: number, series: KruegerSeries): number {
+  const xi = Math.atan(conformalTangent(Math.tan(toRad(lat)), series.e));
+  return series.A * (xi + series.alpha.reduce((sum, a, j) => sum + a * Math.sin(2 * (j + 1) * xi), 0));
+}
+
+/** Coğrafi (derece) -> projeksiyon düzlemi (metre) */
+export function projectTransverseMercator(lat: number, lon: number, projection: TransverseMercator): { easting: number; northing: number } {
+  const series = kruegerSeries(projection.ellipsoid);
+  const lambda = toRad(lon - projection.centralMeridian);
+  const tauPrime = conformalTangent(Math.tan(toRad(lat)), series.e);
+  const xiPrime = Math.atan2(tauPrime, Math.cos(lambda));
+  const etaPrime = Math.asinh(Math.sin(lambda) / Math.hypot(tauPrime, Math.cos(lambda)));
+
+  let xi = xiPrime;
+  let eta = etaPrime;
+  series.alpha.forEach((a, j) => {
+    const k = 2 * (j + 1);
+    xi += a * Math.sin(k * xiPrime) * Math.cosh(k * etaPrime);
+    eta += a * Math.cos(k * xiPrime) * Math.sinh(k * etaPrime);
+  });
+
+  const k0 = projection.scaleFactor;
+  const origin = projection.latitudeOfOrigin ? projectedNorthingAtMeridian(projection.latitudeOfOrigin, series) : 0;
+  return {
+    easting: projection.falseEasting + k0 * series.A * eta,
+    northing: projection.falseNorthing + k0 * (series.A * xi - origin),
+  };
+}
+
+/** Projeksiyon düzlemi (metre) -> coğrafi (derece) */
+export function unprojectTransverseMercator(easting: number, northing: number, projection: TransverseMercator): { lat: number; lon: number } {
+  const series = kruegerSeries(projection.ellipsoid);
+  const k0 = projection.scaleFactor;
+  const origin = projection.latitudeOfOrigin ? projectedNorthingAtMeridian(projection.latitudeOfOrigin, series) : 0;
+  const xi = ((northing - projection.falseNorthing) / k0 + origin) / series.A;
+  const eta = (easting - projection.falseEasting) / (k0 * series.A);
+
+  let xiPrime = xi;
+  let etaPrime = eta;
+  series.beta.forEach((b, j) => {
+    const k = 2 * (j + 1);
+    xiPrime -= b * Math.sin(k * xi) * Math.cosh(k * eta);
+    etaPrime -= b * Math.cos(k * xi) * Math.sinh(k * eta);
+  });
+
+  const tauPrime = Math.sin(xiPrime) / Math.hypot(Math.sinh(etaPrime), Math.cos(xiPrime));
+  const lambda = Math.atan2(Math.sinh(etaPrime), Math.cos(xiPrime));
+
+  // τ' -> τ, Newton yöntemi (Karney 2011, denklem 19-21)
+  const e2 = series.e * series.e;
+  let tau = tauPrime;
+  for (let i = 0; i < 10; i++) {
+    const current = conformalTangent(tau, series.e);
+    const step =
+      ((tauPrime - current) / Math.sqrt(1 + current * current)) * ((1 + (1 - e2) * tau * tau) / ((1 - e2) * Math.sqrt(1 + tau * tau)));
+    tau += step;
+    if (Math.abs(step) < 1e-14) break;
+  }
+
+  return { lat: toDeg(Math.atan(tau)), lon: projection.centralMeridian + toDeg(lambda) };
+}
+
+export const UTM_ZONES = [35, 36, 37, 38] as const;
+export type UtmZone = (typeof UTM_ZONES)[number];
+
+/** 3° TM dilim orta meridyenleri (Türkiye: 27°-45°) */
+export const TM3_MERIDIANS = [27, 30, 33, 36, 39, 42, 45] as const;
+export type Tm3Meridian = (typeof TM3_MERIDIANS)[number];
+
+export type CoordinateSystem =
+  | { id: string; epsg: number; datum: Datum; kind: 'geographic' }
+  | { id: string; epsg: number; datum: Datum; kind: 'utm'; zone: UtmZone }
+  | { id: string; epsg: number; datum: Datum; kind: 'tm3'; meridian: Tm3Meridian };
+
+/** Desteklenen sistemler; id API'de ve CSV dosya adlarında kullanılır */
+export const COORDINATE_SYSTEMS: CoordinateSystem[] = [
+  { id: 'wgs84', epsg: 4326, datum: 'WGS84', kind: 'geographic' },
+  { id: 'itrf96', epsg: 5252, datum: 'ITRF96', kind: 'geographic' },
+  { id: 'ed50', epsg: 4230, datum: 'ED50', kind: 'geographic' },
+  ...TM3_MERIDIANS.map((meridian, index): CoordinateSystem => ({
+    id: `itrf96-tm${meridian}`,
+    epsg: 5253 + index,
+    datum: 'ITRF96',
+    kind: 'tm3',
+    meridian,
+  })),
+  ...UTM_ZONES.map((zone): CoordinateSystem => ({ id: `wgs84-utm${zone}`, epsg: 32600 + zone, datum: 'WGS84', kind: 'utm', zone })),
+  ...UTM_ZONES.map((zone): CoordinateSystem => ({ id: `ed50-utm${zone}`, epsg: 23000 + zone, datum: 'ED50', kind: 'utm', zone })),
+  ...TM3_MERIDIANS.map((meridian, index): CoordinateSystem => ({
+    id: `ed50-tm${meridian}`,
+    epsg: 2319 + index,
+    datum: 'ED50',
+    kind: 'tm3',
+    meridian,
+  })),
+];
+
+export function findCoordinateSystem(id: unknown): CoordinateSystem | undefined {
+  return COORDINATE_SYSTEMS.find((system) => system.id === id);
+}
+
+export function projectionOf(system: CoordinateSystem): TransverseMercator | null {
+  if (system.kind === 'geographic') return null;
+  return {
+    ellipsoid: DATUM_ELLIPSOIDS[system.datum],
+    centralMeridian: system.kind === 'utm' ? system.zone * 6 - 183 : system.meridian,
+    scaleFactor: system.kind === 'utm' ? 0.9996 : 1,
+    falseEasting: 500000,
+    falseNorthing: 0,
+  };
+}
+
+/**
+ * Nokta: coğrafi sistemlerde x = boylam, y = enlem (derece; GeoJSON sırası),
+ * projeksiyonlu sistemlerde x = sağa (Y, easting), y = yukarı (X, northing) metre.
+ */
+export interface PlanarPoint {
+  x: number;
+  y: number;
+}
+
+// Türkiye ve çevresi; dışındaki değerler büyük olasılıkla eksen ya da sistem karışıklığıdır
+const GEOGRAPHIC_BOUNDS = { minLat: 30, maxLat: 46, minLon: 20, maxLon: 50 };
+const PROJECTED_BOUNDS = { minEasting: 0, maxEasting: 1_000_000, minNorthing: 3_300_000, maxNorthing: 5_200_000 };
+
+export type TransformError = 'out-of-range';
+
+export type TransformResult = { ok: true; point: PlanarPoint } | { ok: false; error: TransformError };
+
+const isDatumShared = (from: Datum, to: Datum) => from === to || (from !== 'ED50' && to !== 'ED50');
+
+/** Bir noktayı kaynak sistemden hedef sisteme dönüştürür */
+export function transformPoint(point: PlanarPoint, from: CoordinateSystem, to: CoordinateSystem): TransformResult {
+  if (!Number.isFinite(point.x) || !Number.isFinite(point.y)) return { ok: false, error: 'out-of-range' };
+
+  // 1. Kaynak datumda coğrafi koordinat
+  let lat: number;
+  let lon: number;
+  const sourceProjection = projectionOf(from);
+  if (sourceProjection) {
+    const b = PROJECTED_BOUNDS;
+    if (point.x < b.minEasting || point.x > b.maxEasting || point.y < b.minNorthing || point.y > b.maxNorthing) {
+      return { ok: false, error: 'out-of-range' };
+    }
+    ({ lat, lon } = unprojectTransverseMercator(point.x, point.y, sourceProjection));
+  } else {
+    lat = point.y;
+    lon = point.x;
+  }
+  const g = GEOGRAPHIC_BOUNDS;
+  if (lat < g.minLat || lat > g.maxLat || lon < g.minLon || lon > g.maxLon) return { ok: false, error: 'out-of-range' };
+
+  // 2. Datum değişimi yer merkezli koordinatta
+  if (!isDatumShared(from.datum, to.datum)) {
+    const geocentric = geographicToGeocentric(lat, lon, 0, DATUM_ELLIPSOIDS[from.datum]);
+    const shifted = applyHelmert(geocentric, ED50_TO_WGS84_TURKEY, to.datum === 'ED50');
+    ({ lat, lon } = geocentricToGeographic(shifted, DATUM_ELLIPSOIDS[to.datum]));
+  }
+
+  // 3. Hedef projeksiyon
+  const targetProjection = projectionOf(to);
+  if (!targetProjection) return { ok: true, point: { x: lon, y: lat } };
+  const { easting, northing } = projectTransverseMercator(lat, lon, targetProjection);
+  return { ok: true, point: { x: easting, y: northing } };
+}
+
+/** Sonuçların yazım hassasiyeti: coğrafi 1e-9° (~0,1 mm), projeksiyonlu 1 mm */
+export function coordinateDecimals(system: CoordinateSystem): number {
+  return system.kind === 'geographic' ? 9 : 3;
+}
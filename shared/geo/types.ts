@@ -0,0 +1,24 @@
+/**
+ * GeoJSON uyumlu geometri tipleri (RFC 7946)
+ * Koordinat sırası [boylam, enlem], derece; WGS84.
+ */
+export type Position = [number, number];
+
+/** Kapalı halka: ilk ve son nokta aynıdır */
+export type LinearRing = Position[];
+
+export interface PolygonGeometry {
+  type: 'Polygon';
+  /** İlk halka dış sınır, sonrakiler delikler */
+  coordinates: LinearRing[];
+}
+
+export interface MultiPolygonGeometry {
+  type: 'MultiPolygon';
+  coordinates: LinearRing[][];
+}
+
+export type AreaGeometry = PolygonGeometry | MultiPolygonGeometry;
+
+/** [minBoylam, minEnlem, maxBoylam, maxEnlem] */
+export type BBox = [number, number, number, number];
@@ -0,0 +1,92 @@
+import type { AreaGeometry, LinearRing, Position } from './types';
+import { DEFAULT_LOCALE, format, getMessages, type Locale, type Messages } from '../i18n';
+
+/**
+ * GeoJSON Polygon/MultiPolygon yapısal doğrulaması
+ * Hem tarayıcıda (dosya yükleme) hem /api/estimate içinde kullanılır; hatalar istenen dilde döner.
+ */
+export type GeometryResult = { ok: true; geometry: AreaGeometry } | { ok: false; error: string };
+
+/** Kötü niyetli büyük gövdelere karşı üst sınır */
+export const MAX_VERTICES = 20_000;
+
+const isPosition = (value: unknown): value is Position =>
+  Array.isArray(value) &&
+  value.length >= 2 &&
+  typeof value[0] === 'number' &&
+  typeof value[1] === 'number' &&
+  Number.isFinite(value[0]) &&
+  Number.isFinite(value[1]);
+
+type GeometryMessages = Messages['estimator']['errors'];
+
+function normalizeRing(value: unknown, m: GeometryMessages): LinearRing | string {
+  if (!Array.isArray(value) || !value.every(isPosition)) {
+    return m.coordinateFormat;
+  }
+  // Yükseklik gibi ek boyutlar atılır
+  const ring = value.map((p) => [p[0], p[1]] as Position);
+  for (const [lon, lat] of ring) {
+    if (lon < -180 || lon > 180 || lat < -90 || lat > 90) {
+      return m.coordinateRange;
+    }
+  }
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  if (first && last && (first[0] !== last[0] || first[1] !== last[1])) {
+    ring.push([first[0], first[1]]);
+  }
+  if (ring.length < 4) {
+    return m.tooFewVertices;
+  }
+  return ring;
+}
+
+function normalizePolygon(value: unknown, m: GeometryMessages): LinearRing[] | string {
+  if (!Array.isArray(value) || value.length === 0) {
+    return m.emptyPolygon;
+  }
+  const rings: LinearRing[] = [];
+  for (const ringValue of value) {
+    const ring = normalizeRing(ringValue, m);
+    if (typeof ring === 'string') return ring;
+    rings.push(ring);
+  }
+  return rings;
+}
+
+export function parseAreaGeometry(input: unknown, locale: Locale = DEFAULT_LOCALE): GeometryResult {
+  const m = getMessages(locale).estimator.errors;
+  const value = (input && typeof input === 'object' ? input : {}) as { type?: unknown; coordinates?: unknown };
+
+  let geometry: AreaGeometry;
+  if (value.type === 'Polygon') {
+    const polygon = normalizePolygon(value.coordinates, m);
+    if (typeof polygon === 'string') return { ok: false, error: polygon };
+    geometry = { type: 'Polygon', coordinates: polygon };
+  } else if (value.type === 'MultiPolygon') {
+    if (!Array.isArray(value.coordinates) || value.coordinates.length === 0) {
+      return { ok: false, error: m.emptyMultiPolygon };
+    }
+    const polygons: LinearRing[][] = [];
+    for (const polygonValue of value.coordinates) {
+      const polygon = normalizePolygon(polygonValue, m);
+      if (typeof polygon === 'string') return { ok: false, error: polygon };
+      polygons.push(polygon);
+    }
+    geometry = { type: 'MultiPolygon', coordinates: polygons };
+  } else {
+    return { ok: false, error: m.unsupportedGeometry };
+  }
+
+  if (countVertices(geometry) > MAX_VERTICES) {
+    return { ok: false, error: format(m.tooManyVertices, { max: MAX_VERTICES }) };
+  }
+  return { ok: true, geometry };
+}
+
+export function countVertices(geometry: AreaGeometry): number {
+  const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+  // Kapanış noktası ayrı köşe sayılmaz
+  return polygons.reduce((sum, rings) => sum + rings.reduce((s, ring) => s + ring.length - 1, 0), 0);
+}
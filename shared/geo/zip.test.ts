@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_UNCOMPRESSED_BYTES, readZipEntries, ZipError } from './zip';
+
+interface TestEntry {
+  name: string;
+  content: Uint8Array;
+  method: 0 | 8;
+  /** Merkezi dizine yazılacak açık boyut; verilmezse gerçek boyut */
+  declaredSize?: number;
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/** CRC alanları sıfır bırakılır; okuyucu CRC denetlemez */
+async function buildZip(entries: TestEntry[]): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const body = entry.method === 8 ? await deflateRaw(entry.content) : entry.content;
+    const declared = entry.declaredSize ?? entry.content.length;
+
+    const local = new Uint8Array(30 + name.length + body.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, entry.method, true);
+    lv.setUint32(18, body.length, true);
+    lv.setUint32(22, declared, true);
+    lv.setUint16(26, name.length, true);
+    local.set(name, 30);
+    local.set(body, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(10, entry.method, true);
+    cv.setUint32(20, body.length, true);
+    cv.setUint32(24, declared, true);
+    cv.setUint16(28, name.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((sum, c) => sum + c.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, entries.length, true);
+  ev.setUint16(10, entries.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, eocd];
+  const zip = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let at = 0;
+  for (const part of parts) {
+    zip.set(part, at);
+    at += part.length;
+  }
+  return zip;
+}
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+describe('readZipEntries', () => {
+  it('stored ve deflate girdileri açılır', async () => {
+    const kml = text('<kml><Document/></kml>'.repeat(50));
+    const zip = await buildZip([
+      { name: 'doc.kml', content: kml, method: 8 },
+      { name: 'parsel.prj', content: text('GEOGCS["WGS 84"]'), method: 0 },
+    ]);
+    const [doc, prj] = readZipEntries(zip);
+    expect(doc.name).toBe('doc.kml');
+    expect(doc.compressedSize).toBeLessThan(kml.length);
+    await expect(doc.read()).resolves.toEqual(kml);
+    await expect(prj.read()).resolves.toEqual(text('GEOGCS["WGS 84"]'));
+  });
+
+  it('beyan edilenden büyük açılan girdi sınırda kesilir', async () => {
+    // 4 MB sıfır birkaç KB'a sıkışır; merkezi dizin 1 KB beyan eder
+    const zip = await buildZip([{ name: 'bomba.shp', content: new Uint8Array(4 * 1024 * 1024), method: 8, declaredSize: 1024 }]);
+    const [entry] = readZipEntries(zip);
+    expect(entry.compressedSize).toBeLessThan(64 * 1024);
+    await expect(entry.read()).rejects.toThrow(ZipError);
+    await expect(entry.read()).rejects.toMatchObject({ code: 'tooLarge', entryName: 'bomba.shp' });
+  });
+
+  it('beyan edilenden küçük çıktı bozuk sayılır', async () => {
+    const deflated = await buildZip([{ name: 'a.kml', content: text('<kml/>'), method: 8, declaredSize: 100 }]);
+    await expect(readZipEntries(deflated)[0].read()).rejects.toMatchObject({ code: 'sizeMismatch' });
+    const stored = await buildZip([{ name: 'a.kml', content: text('<kml/>'), method: 0, declaredSize: 100 }]);
+    await expect(readZipEntries(stored)[0].read()).rejects.toMatchObject({ code: 'sizeMismatch' });
+  });
+
+  it('üst sınırı aşan beyan açılmadan reddedilir', async () => {
+    const zip = await buildZip([{ name: 'büyük.shp', content: text('x'), method: 0, declaredSize: MAX_UNCOMPRESSED_BYTES + 1 }]);
+    await expect(readZipEntries(zip)[0].read()).rejects.toMatchObject({ code: 'tooLarge' });
+  });
+
+  it('ZIP olmayan veri ZipError verir', () => {
+    expect(() => readZipEntries(text('PK değil, düz metin'))).toThrow(expect.objectContaining({ code: 'invalid' }));
+  });
+});
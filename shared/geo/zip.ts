@@ -0,0 +1,132 @@
+/**
+ * Minimal ZIP okuyucu (KMZ ve zip'lenmiş Shapefile için)
+ * Yalnızca "stored" (0) ve "deflate" (8) yöntemlerini destekler; deflate açma işlemi tarayıcı ve
+ * Workers'ta yerleşik olan DecompressionStream('deflate-raw') ile yapılır.
+ * ZIP64 ve şifreli arşivler desteklenmez.
+ */
+export interface ZipEntry {
+  name: string;
+  compressedSize: number;
+  uncompressedSize: number;
+  read(): Promise<Uint8Array>;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+// Açılmış içerik için üst sınır (zip bombasına karşı)
+export const MAX_UNCOMPRESSED_BYTES = 100 * 1024 * 1024;
+
+/** Metinler shared/i18n estimator.errors altındadır; eşleme boundary.ts içinde yapılır */
+export type ZipErrorCode = 'invalid' | 'corrupt' | 'encrypted' | 'tooLarge' | 'unreadable' | 'sizeMismatch' | 'unsupportedMethod';
+
+export class ZipError extends Error {
+  constructor(
+    readonly code: ZipErrorCode,
+    /** Hatanın ait olduğu arşiv girdisi; arşivin tamamıyla ilgili hatalarda boş */
+    readonly entryName = ''
+  ) {
+    super(entryName ? `ZIP ${code}: ${entryName}` : `ZIP ${code}`);
+  }
+}
+
+export function isZip(data: Uint8Array): boolean {
+  return data.length >= 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 0x03 && data[3] === 0x04;
+}
+
+/**
+ * Arşivin beyan ettiği boyuta güvenilmez: çıktı okunurken sayılır, sınır aşılınca akış iptal edilir.
+ * Küçük boyut beyan edip gigabaytlarca açılan girdi böylece belleği dolduramaz.
+ */
+async function inflateRaw(data: Uint8Array, limit: number, name: string): Promise<Uint8Array> {
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    let result: ReadableStreamReadResult<Uint8Array>;
+    try {
+      result = await reader.read();
+    } catch {
+      throw new ZipError('unreadable', name);
+    }
+    if (result.done) break;
+    total += result.value.length;
+    if (total > limit) {
+      await reader.cancel().catch(() => undefined);
+      throw new ZipError('tooLarge', name);
+    }
+    chunks.push(result.value);
+  }
+
+  const output = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+export function readZipEntries(data: Uint8Array): ZipEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // End of central directory kaydı sondan geriye doğru aranır (yorum alanı en fazla 64 KB)
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === EOCD_SIGNATURE) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    throw new ZipError('invalid');
+  }
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+
+  for (let n = 0; n < entryCount; n++) {
+    if (offset + 46 > data.length || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_SIGNATURE) {
+      throw new ZipError('corrupt');
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const uncompressedSize = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (name.endsWith('/')) continue;
+
+    entries.push({
+      name,
+      compressedSize,
+      uncompressedSize,
+      async read() {
+        if (flags & 0x1) throw new ZipError('encrypted', name);
+        if (uncompressedSize > MAX_UNCOMPRESSED_BYTES) throw new ZipError('tooLarge', name);
+        if (view.getUint32(localHeaderOffset, true) !== LOCAL_HEADER_SIGNATURE) {
+          throw new ZipError('unreadable', name);
+        }
+        const start =
+          localHeaderOffset + 30 + view.getUint16(localHeaderOffset + 26, true) + view.getUint16(localHeaderOffset + 28, true);
+        const raw = data.subarray(start, start + compressedSize);
+        let content: Uint8Array;
+        if (method === 0) content = raw;
+        else if (method === 8) content = await inflateRaw(raw, uncompressedSize, name);
+        else throw new ZipError('unsupportedMethod', name);
+        // Beyan edilen boyutla uyuşmayan çıktı bozuk ya da kurcalanmış arşiv demektir
+        if (content.length !== uncompressedSize) throw new ZipError('sizeMismatch', name);
+        return content;
+      },
+    });
+  }
+
+  return entries;
+}
@@ -0,0 +1,65 @@
+import { DEFAULT_LOCALE, LOCALE_TAGS, type Locale } from './locales';
+import { tr, type Messages } from './messages/tr';
+import { en } from './messages/en';
+
+/**
+ * i18n çekirdeği
+ * Bileşenler (LocaleProvider üzerinden), Pages Functions ve e-posta şablonları aynı katalogları kullanır.
+ */
+export const CATALOGS: Record<Locale, Messages> = { tr, en };
+
+export function getMessages(locale: Locale = DEFAULT_LOCALE): Messages {
+  return CATALOGS[locale] ?? CATALOGS[DEFAULT_LOCALE];
+}
+
+export type MessageParams = Record<string, string | number>;
+
+/** '{ad}' yer tutucularını doldurur; bilinmeyen yer tutucular olduğu gibi bırakılır */
+export function format(template: string, params: MessageParams = {}): string {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => (key in params ? String(params[key]) : match));
+}
+
+export interface PluralMessage {
+  one: string;
+  other: string;
+}
+
+export function formatPlural(message: PluralMessage, count: number, locale: Locale): string {
+  const rule = new Intl.PluralRules(LOCALE_TAGS[locale]).select(count);
+  return format(rule === 'one' ? message.one : message.other, { count });
+}
+
+export function formatNumber(value: number, locale: Locale, digits = 2): string {
+  return value.toLocaleString(LOCALE_TAGS[locale], { maximumFractionDigits: digits });
+}
+
+/**
+ * İki katalog arasındaki şekil farklarını bulur ('services.items.lidar.title' gibi yollar).
+ * Diziler yaprak kabul edilir (ör. özellik listeleri dile göre farklı uzunlukta olabilir).
+ * Derleme sırasında plugins/i18nCheck.ts tarafından çalıştırılır.
+ */
+export function findCatalogMismatches(reference: unknown, candidate: unknown, path = ''): string[] {
+  const isBranch = (value: unknown) => typeof value === 'object' && value !== null && !Array.isArray(value);
+  if (!isBranch(reference) || !isBranch(candidate)) {
+    const kind = (value: unknown) => (Array.isArray(value) ? 'array' : typeof value);
+    // Boş metin çevrilmemiş anahtar sayılır
+    return kind(reference) === kind(candidate) && candidate !== '' ? [] : [path];
+  }
+
+  const ref = reference as Record<string, unknown>;
+  const cand = candidate as Record<string, unknown>;
+  const keys = new Set([...Object.keys(ref), ...Object.keys(cand)]);
+  const mismatches: string[] = [];
+  for (const key of keys) {
+    const childPath = path ? `${path}.${key}` : key;
+    if (!(key in ref) || !(key in cand)) {
+      mismatches.push(childPath);
+    } else {
+      mismatches.push(...findCatalogMismatches(ref[key], cand[key], childPath));
+    }
+  }
+  return mismatches;
+}
+
+export type { Messages };
+export * from './locales';
@@ -0,0 +1,39 @@
+/**
+ * Desteklenen diller
+ * Türkçe varsayılandır ve önek almaz (/hizmetler/lidar); diğer diller yol öneki kullanır (/en/hizmetler/lidar).
+ */
+export const LOCALES = ['tr', 'en'] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = 'tr';
+
+/** Intl (sayı/para biçimi) ve hreflang için BCP 47 etiketleri */
+export const LOCALE_TAGS: Record<Locale, string> = {
+  tr: 'tr-TR',
+  en: 'en-GB',
+};
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+/** Gövdeden gelen değeri okur; tanınmayan değerler varsayılan dile düşer */
+export function readLocale(value: unknown): Locale {
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+/** Yolun dil önekini çözer: '/en/fiyat-tahmini' -> { locale: 'en', path: '/fiyat-tahmini' } */
+export function splitLocalePath(pathname: string): { locale: Locale; path: string } {
+  const match = /^\/([a-z]{2})(?=\/|$)/.exec(pathname);
+  if (match && isLocale(match[1]) && match[1] !== DEFAULT_LOCALE) {
+    return { locale: match[1], path: pathname.slice(match[0].length) || '/' };
+  }
+  return { locale: DEFAULT_LOCALE, path: pathname || '/' };
+}
+
+/** Dilsiz yolu verilen dilin önekiyle birleştirir */
+export function localizePath(path: string, locale: Locale): string {
+  if (locale === DEFAULT_LOCALE) return path;
+  return path === '/' ? `/${locale}` : `/${locale}${path}`;
+}
@@ -0,0 +1,830 @@
+import type { Messages } from './tr';
+
+/** English message catalog; must mirror the shape of tr.ts */
+export const en: Messages = {
+  meta: {
+    title: 'HEKAMAP | Positioning the Future',
+    languageName: 'English',
+  },
+  nav: {
+    hero: 'Home',
+    services: 'Services',
+    projects: 'Projects',
+    detail: 'Detail',
+    contact: 'Contact',
+    caseStudies: 'Case studies',
+    portal: 'Client login',
+    home: 'Home',
+    language: 'Language',
+  },
+  hero: {
+    tagline: 'We see the unseen and measure the unmeasurable.',
+    scroll: 'Scroll',
+  },
+  services: {
+    explore: 'Explore',
+    close: 'Close',
+    estimateCta: 'Get a price estimate for your site',
+    surveyCta: 'Book a site survey',
+    coordinateCta: 'Convert your coordinates',
+    volumeCta: 'Try the volume calculator',
+  },
+  pointCloud: {
+    label: 'Sample LiDAR point cloud',
+    loading: 'Loading point cloud...',
+    modes: { elevation: 'Elevation', intensity: 'Intensity', classification: 'Class' },
+    budget: 'Point budget',
+    budgetOption: '{count} points',
+    pointsShown: '{shown} / {total} points',
+    openFile: 'Open your own LAS file',
+    resetView: 'Reset view',
+    info: 'File info',
+    sampleNote: 'The sample data is synthetic. Files you open are processed only in your browser and never uploaded.',
+    hint: 'Drag: rotate · Shift + drag or two fingers: pan · Ctrl + wheel or pinch: zoom',
+    wheelHint: 'Hold Ctrl (Mac: ⌘) while scrolling to zoom',
+    noWebgl: 'Your browser does not support WebGL, so the point cloud cannot be displayed.',
+    lowHigh: { low: 'Low', high: 'High' },
+    header: {
+      file: 'File',
+      version: 'LAS version',
+      pointFormat: 'Point format',
+      points: 'Point count',
+      scale: 'Scale (x, y, z)',
+      offset: 'Offset (x, y, z)',
+      min: 'Minimum (x, y, z)',
+      max: 'Maximum (x, y, z)',
+      software: 'Generating software',
+    },
+    errors: {
+      signature: 'This is not a LAS file.',
+      version: 'This LAS version is not supported (1.0–1.4 are supported).',
+      compressed:
+        'LAZ (compressed) files cannot be opened yet. Export the file as LAS with LAStools (las2las) or CloudCompare and try again.',
+      format: 'The point format in this file does not match its LAS version.',
+      truncated: 'The file looks incomplete; download it again and retry.',
+      empty: 'No points were found in the file.',
+      fetch: 'The sample data could not be downloaded.',
+      unknown: 'The file could not be read.',
+    },
+    classes: {
+      '0': 'Never classified',
+      '1': 'Unclassified',
+      '2': 'Ground',
+      '3': 'Low vegetation',
+      '4': 'Medium vegetation',
+      '5': 'High vegetation',
+      '6': 'Building',
+      '7': 'Noise',
+      '9': 'Water',
+      '10': 'Rail',
+      '11': 'Road surface',
+      '13': 'Wire guard',
+      '14': 'Transmission wire',
+      '15': 'Transmission tower',
+      '17': 'Bridge deck',
+      '18': 'High noise',
+    },
+    otherClass: 'Class {code}',
+  },
+  comparison: {
+    label: 'Comparison of {before} and {after}',
+    layers: { photo: 'Raw drone image', orthophoto: 'Orthophoto', map: 'Map', historicMap: 'Historic map' },
+    layerWithYear: '{layer} · {year}',
+    divider: 'Comparison divider',
+    zoomIn: 'Zoom in',
+    zoomOut: 'Zoom out',
+    reset: 'Show all',
+    wheelHint: 'Hold Ctrl (Mac: ⌘) while scrolling to zoom',
+    loading: 'Loading imagery...',
+    loadFailed: 'Imagery could not be loaded',
+  },
+  caseStudies: {
+    title: 'CASE STUDIES',
+    lead: 'From mine sites to municipalities: the scope, scale and deliverables of projects we have completed.',
+    filterService: 'Service',
+    filterClient: 'Client type',
+    all: 'All',
+    count: { one: '{count} project', other: '{count} projects' },
+    empty: 'No projects match these filters.',
+    clearFilters: 'Clear filters',
+    viewProject: 'View project',
+    back: 'All case studies',
+    related: 'Projects delivered with this service',
+    viewAll: 'All case studies',
+    client: 'Client',
+    location: 'Location',
+    year: 'Year',
+    services: 'Services',
+    deliverables: 'Deliverables',
+    gallery: 'Gallery',
+    comparison: 'Before / after',
+    requestSimilar: 'REQUEST A QUOTE FOR A SIMILAR PROJECT',
+    similarMessage: 'I would like a quote for work similar to the "{title}" project.\nProject area / location: ',
+    clientTypes: {
+      maden: 'Mining operator',
+      belediye: 'Municipality',
+      kamu: 'Public agency',
+      enerji: 'Energy',
+      insaat: 'Construction',
+      ozel: 'Private sector',
+    },
+    metrics: {
+      areaHectares: 'Area',
+      pointsCaptured: 'Points captured',
+      accuracyCm: 'Accuracy',
+    },
+    metricValues: {
+      areaHectares: '{value} ha',
+      pointsCaptured: '{value}',
+      accuracyCm: '±{value} cm',
+    },
+  },
+  projectMap: {
+    eyebrow: 'Project Map',
+    titleLine1: 'WHERE',
+    titleLine2: "WE'VE WORKED",
+    lead: 'Locations of projects we have completed. Markers are coloured by service type; nearby projects separate as you zoom in.',
+    legend: 'Services',
+    loading: 'Loading map...',
+    loadFailed: 'The map could not be loaded',
+    zoomIn: 'Zoom in',
+    zoomOut: 'Zoom out',
+    reset: 'All of Türkiye',
+    wheelHint: 'Hold Ctrl (Mac: ⌘) while scrolling to zoom',
+    selectHint: 'Click a marker to see the project; clicking a group zooms in.',
+    cluster: { one: '{count} project', other: '{count} projects' },
+    mapLabel: 'Map of Türkiye with completed projects',
+  },
+  contact: {
+    eyebrow: 'Get in Touch',
+    titleLine1: "LET'S MAP",
+    titleLine2: 'YOUR PROJECT',
+    titleLine3: 'TOGETHER',
+    lead: 'We provide advanced mapping and engineering support for projects that push the limits.',
+    emailLabel: 'Email',
+    phoneLabel: 'Phone',
+    ctaTitle: 'TAKE THE FIRST STEP',
+    ctaText: 'Our professional engineering team is eager to analyse your project.',
+    ctaButton: "Let's Get Started",
+    serviceArea: 'Service Area: All of Türkiye',
+    footerTagline: 'Mapping & Technology Solutions',
+  },
+  sideControls: {
+    whatsapp: 'Contact via WhatsApp',
+  },
+  contactForm: {
+    title: 'Get in Touch',
+    lead: 'Leave your details and our engineers will review your project and get back to you.',
+    honeypot: 'Website',
+    firstName: 'First name',
+    lastName: 'Last name',
+    email: 'Email address',
+    phone: 'Phone number',
+    subjectPlaceholder: 'Select a subject',
+    message: 'Project details',
+    attach: 'Attach files (KML/KMZ, GeoJSON, Shapefile zip, DXF, PDF, images) · up to {maxFiles} files, {maxSize}',
+    removeFile: 'Remove {name}',
+    submit: 'SEND',
+    submitting: 'SENDING...',
+    successWithReference: 'Your message has been received. Your reference number is {leadId}. We will get back to you shortly.',
+    success: 'Your message has been sent. We will get back to you shortly.',
+    rateLimited: 'Too many submissions in a short time. Please try again in {wait}.',
+    failed: 'Sending failed',
+    genericError: 'Something went wrong',
+    surveyCta: 'Book a site survey appointment',
+  },
+  contactSubjects: {
+    'Lidar Hizmeti': 'LiDAR Services',
+    'Drone Fotogrametri': 'Drone Photogrammetry',
+    'Genel Danışmanlık': 'General Consulting',
+  },
+  validation: {
+    firstNameTooLong: 'First name can be at most {max} characters',
+    lastNameTooLong: 'Last name can be at most {max} characters',
+    emailRequired: 'Email address is required',
+    emailInvalid: 'Enter a valid email address',
+    phoneInvalid: 'Enter a valid Turkish phone number (e.g. +90 532 123 45 67)',
+    subjectInvalid: 'Choose a subject from the list',
+    messageRequired: 'Project details are required',
+    messageTooShort: 'Please write a description of at least {min} characters',
+    messageTooLong: 'Message can be at most {max} characters',
+    invalidBody: 'Invalid request body',
+    checkFields: 'Please check the form fields',
+    rateLimited: 'Too many submissions',
+    saveFailed: 'Your request could not be saved, please try again later',
+  },
+  attachments: {
+    unsupportedType: '"{name}" is not a supported file type. Allowed: {types}',
+    typeMismatch: 'The content of "{name}" does not match its extension',
+    empty: '"{name}" is empty',
+    tooLarge: '"{name}" is too large (max {max})',
+    tooMany: 'You can attach at most {max} files',
+    totalTooLarge: 'Attachments can total at most {max}',
+  },
+  time: {
+    seconds: { one: '{count} second', other: '{count} seconds' },
+    minutes: { one: '{count} minute', other: '{count} minutes' },
+  },
+  auth: {
+    title: 'CLIENT LOGIN',
+    lead: 'Enter the email address you used when contacting us. No password needed; we will send you a single-use login link.',
+    email: 'Email address',
+    submit: 'Send login link',
+    sending: 'Sending...',
+    sent: 'If {email} belongs to a client account, you will receive a login link within a few minutes. The link is valid for {minutes} minutes and can only be used once.',
+    otherEmail: 'Use a different address',
+    noAccountHint: 'The portal is open to clients who have already contacted us. If you have not, please use the contact form first.',
+    verifying: 'Verifying your login link...',
+    linkInvalid: 'This login link is invalid, has expired or has already been used. You can request a new one.',
+    rateLimited: 'Too many login links were requested. Please try again in {wait}.',
+    unavailable: 'Client login is currently unavailable, please try again later.',
+    failed: 'Something went wrong, please try again.',
+    forbidden: 'This page is only available to HEKAMAP staff.',
+    notSignedIn: 'You are not signed in',
+    sessionInvalid: 'Invalid session',
+    sessionNotFound: 'Session not found',
+  },
+  portal: {
+    title: 'CLIENT PORTAL',
+    greeting: 'Welcome, {name}',
+    signedInAs: 'Signed in as {email}',
+    logout: 'Log out',
+    loading: 'Loading...',
+    loadFailed: 'Could not load your portal.',
+    requests: 'Your requests',
+    noRequests: 'No requests were found for this address.',
+    noSubject: 'No subject',
+    projects: 'Your projects',
+    noProjects: 'No files have been delivered yet. We will email you when deliverables are ready.',
+    noDeliverables: 'No files in this project yet.',
+    download: 'Download',
+    preparingDownload: 'Preparing...',
+    downloadFailed: 'Could not create a download link.',
+    fileNotFound: 'File not found',
+    downloadUnavailable: 'Downloads are currently unavailable',
+    downloadExpired: 'This download link has expired; get a new one from the portal',
+    downloadInvalid: 'Invalid download link',
+    sessions: 'Active sessions',
+    sessionsLead: 'If you see a device you do not recognise, end its session.',
+    thisDevice: 'This device',
+    unknownDevice: 'Unknown device',
+    lastSeen: 'Last active: {date}',
+    revoke: 'End session',
+    revokeOthers: 'End all other sessions',
+    admin: 'Lead management',
+  },
+  deliverableUpload: {
+    title: 'Upload deliverables',
+    lead: 'Files are added to the project in the client portal. An account is created for addresses that do not have one.',
+    clientEmail: 'Client email address',
+    projectName: 'Project name',
+    files: 'Choose files (LAS, GeoTIFF, DWG...)',
+    notify: 'Email the client when the upload finishes',
+    submit: 'Upload',
+    uploading: 'Uploading {name} · {percent}%',
+    done: '{count} file(s) uploaded.',
+    notified: 'The client has been notified.',
+    notifyFailed: 'Files were uploaded but the notification email could not be sent.',
+    cancel: 'Cancel',
+    cancelled: 'Upload cancelled.',
+    tooLarge: '"{name}" is too large (max {max})',
+    projectNameRequired: 'Project name is required',
+    failed: 'Upload failed: {error}',
+    errors: {
+      storageUnavailable: 'File storage is not configured',
+      clientEmailInvalid: 'Enter a valid client email address',
+      projectNameLength: 'Project name must be 1-{max} characters',
+      fileRequired: 'File name and size are required',
+      fileTooLarge: 'File is too large',
+      startFailed: 'The upload could not be started',
+      notFound: 'Upload not found',
+      notInProgress: 'No upload in progress was found',
+      invalidPart: 'Invalid part number',
+      partLength: 'Part {part} must be {bytes} bytes',
+      partFailed: 'The part could not be uploaded',
+      partsMissing: 'The part list is incomplete',
+      sizeMismatch: 'Uploaded size ({actual}) does not match the expected size ({expected})',
+      completeFailed: 'The upload could not be completed',
+    },
+  },
+  admin: {
+    title: 'LEAD MANAGEMENT',
+    backToPortal: 'Back to portal',
+    loading: 'Loading...',
+    loadFailed: 'Could not load leads.',
+    statuses: {
+      new: 'New',
+      called: 'Called',
+      quoted: 'Quoted',
+      won: 'Won',
+      lost: 'Lost',
+    },
+    allStatuses: 'All statuses',
+    allSubjects: 'All services',
+    noSubject: 'No subject',
+    allAssignees: 'All assignees',
+    unassigned: 'Unassigned',
+    from: 'From date',
+    to: 'To date',
+    search: 'Reference, name, email or phone',
+    clearFilters: 'Clear filters',
+    reference: 'Reference',
+    client: 'Client',
+    subject: 'Service',
+    status: 'Status',
+    assignee: 'Assignee',
+    date: 'Date',
+    noLeads: 'No leads match these filters.',
+    pageInfo: '{first}–{last} of {total} leads',
+    previous: 'Previous',
+    next: 'Next',
+    close: 'Close',
+    contact: 'Contact',
+    message: 'Message',
+    attachments: 'Attachments',
+    pipeline: 'Pipeline',
+    assignTo: 'Assigned engineer',
+    updateFailed: 'Could not save the change.',
+    conflict: 'Someone else updated this lead in the meantime; the latest version has been loaded.',
+    note: 'Internal note',
+    notePlaceholder: 'Add a note only staff can see',
+    addNote: 'Add note',
+    noteFailed: 'Could not add the note.',
+    activity: 'History',
+    noActivity: 'Nothing recorded yet.',
+    loadMore: 'Show more',
+    statusChanged: '{actor}: {from} → {to}',
+    assigned: '{actor} assigned the lead to {to}',
+    unassignedBy: '{actor} removed the assignee',
+    noted: '{actor} added a note',
+    quote: 'Prepare a quote',
+  },
+  surveys: {
+    title: 'SITE SURVEY',
+    lead: 'Pick a time for our team to inspect your site in person. A visit takes about {hours} hours; all times are Turkey time.',
+    calendarSummary: 'HEKAMAP site survey',
+    kindLabel: 'Survey type',
+    kinds: {
+      aplikasyon: 'Boundary staking',
+      'sinir-tespiti': 'Boundary determination',
+      topografik: 'Topographic survey',
+      diger: 'Other',
+    },
+    pickSlot: 'Pick a time',
+    loadingSlots: 'Loading available times...',
+    slotsFailed: 'Available times could not be loaded.',
+    noSlots: 'No free times are left for the next {days} days. You can reach us through the contact form.',
+    hold: 'Reserve this time',
+    holding: 'Reserving...',
+    slotTaken: 'This time was just taken; please pick another one.',
+    held: '{time} is reserved for you. Please send your details within {minutes} minutes.',
+    countdown: 'Time left: {time}',
+    holdExpired: 'Your reservation expired. Please pick the time again.',
+    changeSlot: 'Pick another time',
+    firstName: 'First name',
+    lastName: 'Last name',
+    email: 'Email address',
+    phone: 'Phone number',
+    address: 'Site address (province, district, neighbourhood, parcel)',
+    notes: 'Note for the team (optional)',
+    fromLead: 'Will be linked to your request ({leadId})',
+    confirm: 'CONFIRM APPOINTMENT',
+    confirming: 'CONFIRMING...',
+    failed: 'The appointment could not be created, please try again.',
+    rateLimited: 'Too many attempts. Please try again in {wait}.',
+    successTitle: 'Your appointment is booked',
+    success: 'Your site survey on {time} is confirmed. We sent the calendar invite and a link to manage the appointment to {email}.',
+    emailFailed: 'Your appointment is confirmed but the email could not be sent. Please note your appointment number; our team will call you.',
+    reference: 'Appointment number',
+    nameRequired: 'First and last name are required',
+    phoneRequired: 'A phone number is required so our team can reach you on site',
+    addressRequired: 'The site address is required',
+    tooLong: 'Must be at most {max} characters',
+    manage: {
+      title: 'YOUR APPOINTMENT',
+      loading: 'Loading appointment...',
+      invalidLink: 'The appointment link is invalid or incomplete.',
+      status: 'Status',
+      when: 'Date and time',
+      keepTime: 'Keep current time',
+      address: 'Address',
+      statuses: {
+        held: 'Awaiting confirmation',
+        confirmed: 'Confirmed',
+        cancelled: 'Cancelled',
+        expired: 'Expired',
+      },
+      cancel: 'Cancel appointment',
+      cancelConfirm: 'Are you sure you want to cancel the appointment?',
+      cancelling: 'Cancelling...',
+      cancelled: 'Your appointment was cancelled. We emailed you an update to remove it from your calendar.',
+      reschedule: 'Change time',
+      rescheduleSubmit: 'Confirm new time',
+      rescheduling: 'Updating...',
+      rescheduled: 'Your appointment was moved to {time}; the updated invite was emailed to you.',
+      locked: 'Past or cancelled appointments cannot be changed.',
+      failed: 'The action could not be completed, please try again.',
+      bookAgain: 'Book a new appointment',
+    },
+    availability: {
+      title: 'Survey availability',
+      lead: 'Add the time ranges in which clients can book a site survey. Ranges are split into {minutes}-minute slots.',
+      date: 'Day',
+      from: 'From',
+      to: 'To',
+      add: 'Add range',
+      remove: 'Delete range',
+      empty: 'No ranges added for the coming days.',
+      overlap: 'This range overlaps an existing one.',
+      hasBookings: 'A range with appointments in it cannot be deleted.',
+      invalid: 'Enter a valid day and a time range of at least {minutes} minutes.',
+      failed: 'The change could not be saved.',
+      held: 'reserved',
+    },
+  },
+  quotes: {
+    title: 'QUOTATION',
+    backToLeads: 'Back to leads',
+    forLead: 'Lead {leadId}',
+    loading: 'Loading...',
+    loadFailed: 'Quotes could not be loaded.',
+    customer: 'Customer',
+    customerName: 'Full name',
+    customerEmail: 'Email',
+    customerCompany: 'Company (optional)',
+    customerAddress: 'Address (optional)',
+    documentLanguage: 'Document language',
+    languages: { tr: 'Turkish', en: 'English' },
+    items: 'Line items',
+    service: 'Service',
+    description: 'Description (optional)',
+    quantity: 'Quantity',
+    unit: 'Unit',
+    unitPrice: 'Unit price (TL, excl. VAT)',
+    addItem: 'Add line item',
+    removeItem: 'Remove line item',
+    vatRate: 'VAT rate',
+    validUntil: 'Valid until',
+    terms: 'Terms',
+    subtotal: 'Subtotal',
+    vat: 'VAT ({rate}%)',
+    total: 'Total',
+    save: 'Create quote',
+    saving: 'Saving...',
+    saveFailed: 'The quote could not be saved.',
+    invalidItem: 'Line {row}: check the quantity and unit price (e.g. 12.5 and 1250.00)',
+    created: 'Quote {id} created.',
+    history: 'Quotes',
+    noQuotes: 'No quotes for this lead yet.',
+    statuses: { draft: 'Draft', sent: 'Sent' },
+    sentAt: 'Last sent: {time}',
+    viewPdf: 'PDF',
+    send: 'Send by email',
+    resend: 'Send again',
+    sending: 'Sending...',
+    sendConfirm: 'Send quote {id} to {email}?',
+    sent: 'Quote {id} was sent to {email}.',
+    sendFailed: 'The quote could not be sent.',
+    units: {
+      hektar: 'hectare',
+      'nokta-m2': 'points/m²',
+      parsel: 'parcel',
+      gun: 'day',
+    },
+    services: {
+      '1': 'LIDAR – 3D Laser Scanning',
+      '2': 'DRONE – Photogrammetry',
+      '3': 'MAPPING – Engineering Surveys',
+      '4': 'FORESTRY – Surveys',
+      '5': 'MINING – Surveys',
+    },
+    defaultTerms:
+      'Prices exclude VAT; VAT is shown separately.\nThe start date is agreed together after the order is confirmed.\n50% of the fee is payable on order confirmation and the remainder on delivery.\nSite access permits and any required official correspondence are provided by the customer.',
+    document: {
+      title: 'QUOTATION',
+      tagline: 'LIDAR · Photogrammetry · Surveying',
+      number: 'Quote no',
+      date: 'Date',
+      validUntil: 'Valid until',
+      preparedFor: 'Prepared for',
+      preparedBy: 'Prepared by',
+      index: '#',
+      service: 'Service / description',
+      quantity: 'Qty',
+      unit: 'Unit',
+      unitPrice: 'Unit price',
+      amount: 'Amount',
+      subtotal: 'Subtotal',
+      vat: 'VAT ({rate}%)',
+      total: 'Total',
+      terms: 'Terms',
+      validity: 'This quote is valid until {date}. Amounts are in Turkish lira.',
+      page: 'Page {page}/{pages}',
+      contact: 'HEKAMAP · halit@hekamap.com · hekamap.com',
+    },
+  },
+  errorBoundary: {
+    title: 'Something went wrong',
+    unknown: 'Unknown error',
+    reload: 'Reload Page',
+  },
+  notFound: {
+    title: 'PAGE NOT FOUND',
+    lead: 'The page you are looking for may have moved or never existed. Take a look at our services instead:',
+  },
+  estimator: {
+    title: 'PRICE ESTIMATE',
+    lead: 'Draw your project area or upload a boundary file; we compute the geodesic area and give a price and duration range for the selected service.',
+    drawTab: 'Draw area',
+    uploadTab: 'Upload file',
+    uploadPrompt: 'Choose a GeoJSON, KML/KMZ or Shapefile (.zip)',
+    crs: 'Coordinate system',
+    crsUnknownGeographic: 'Unknown geographic system',
+    crsAssumedWgs84: 'Unknown (no .prj, WGS84 assumed)',
+    polygonsVertices: 'Polygons / vertices',
+    bbox: 'Bounding box',
+    calculate: 'CALCULATE ESTIMATE',
+    calculating: 'CALCULATING...',
+    failed: 'The estimate could not be calculated',
+    area: 'Area',
+    perimeter: 'Perimeter',
+    price: 'Estimated price (excl. VAT)',
+    duration: 'Estimated duration',
+    durationValue: '{min}–{max} business days',
+    disclaimer:
+      'This range is indicative only. Our team prepares a firm quote based on site conditions, access and delivery format.',
+    requestQuote: 'REQUEST A FIRM QUOTE',
+    quoteMessage:
+      'I received a price estimate for {service}.\nArea: {area} ha, perimeter: {perimeter} km\nEstimated price: {priceMin} - {priceMax}\nEstimated duration: {durationMin}-{durationMax} days',
+    errors: {
+      invalidService: 'Invalid service',
+      selfIntersection: 'The boundary intersects itself; check the vertex order',
+      noArea: 'The area could not be calculated; the boundary is empty or all points lie on one line',
+      tooLarge: 'For areas of this size ({area} ha) please contact us directly',
+      coordinateFormat: 'Coordinates must be given as [longitude, latitude]',
+      coordinateRange: 'Coordinates are outside the WGS84 degree range (they may be projected coordinates)',
+      tooFewVertices: 'An area needs at least 3 vertices',
+      emptyPolygon: 'A polygon must contain at least one ring',
+      emptyMultiPolygon: 'A MultiPolygon cannot be empty',
+      unsupportedGeometry: 'Only Polygon and MultiPolygon geometries are supported',
+      tooManyVertices: 'The geometry can contain at most {max} vertices',
+      fileUnreadable: 'The file could not be read',
+      invalidGeoJson: 'The file is not valid GeoJSON',
+      invalidKml: 'The file is not valid KML',
+      shpUnreadable: 'The .shp file could not be read',
+      shpNotPolygon: 'The Shapefile is not a polygon layer (a point or line layer may have been uploaded)',
+      shpTruncated: 'The .shp file is incomplete or corrupt',
+      shpMixedTypes: 'The .shp file contains mixed geometry types',
+      archiveInvalid: 'The archive could not be read (not a valid ZIP)',
+      archiveCorrupt: "The archive's directory is corrupt",
+      archiveNoBoundary: 'No KML, Shapefile (.shp) or GeoJSON found in the archive',
+      archiveEncrypted: '"{name}" is encrypted; upload an unencrypted archive',
+      archiveEntryTooLarge: '"{name}" is too large',
+      archiveEntryUnreadable: '"{name}" could not be read',
+      archiveEntryCorrupt: '"{name}" is corrupt (size mismatch)',
+      archiveUnsupportedMethod: '"{name}" uses an unsupported compression method',
+      noPolygon: 'No polygon found in the file (the boundary must be a closed area)',
+      crsNotWgs84: 'The coordinate system was detected as {crs}. Please export the file as WGS84 (EPSG:4326).',
+      polygonSelfIntersection: 'The boundary of polygon {index} intersects itself; check the vertex order',
+      zeroArea: 'The boundary has no area (all points may lie on one line)',
+    },
+  },
+  boundaryDrawer: {
+    latitude: 'Latitude',
+    longitude: 'Longitude',
+    extent: 'View width',
+    locate: 'Go to my location',
+    undo: 'Undo last point',
+    clear: 'Clear',
+    grid: 'Grid spacing: {size} m',
+    hint: 'Click the corner points in order to draw your area. The boundary is closed automatically.',
+  },
+  coordinates: {
+    title: 'COORDINATE TRANSFORMATION',
+    lead: 'Convert single points or whole CSV files between WGS84, ITRF96 3° TM, UTM and ED50. Heights are not transformed.',
+    from: 'Source system',
+    to: 'Target system',
+    swap: 'Swap systems',
+    groups: {
+      geographic: 'Geographic',
+      tm3: '3° TM',
+      utm: 'UTM',
+    },
+    systemGeographic: '{datum} geographic (latitude, longitude)',
+    systemUtm: '{datum} / UTM {zone}N',
+    systemTm3: '{datum} / 3° TM, central meridian {meridian}°',
+    latitude: 'Latitude (°)',
+    longitude: 'Longitude (°)',
+    easting: 'Easting (Y, m)',
+    northing: 'Northing (X, m)',
+    single: 'Single point',
+    batch: 'Batch conversion from CSV',
+    convert: 'CONVERT',
+    converting: 'CONVERTING...',
+    result: 'Result',
+    batchHint:
+      'One point per row: name, {x}, {y}. Columns may be separated by commas, semicolons or tabs; extra columns such as height are copied to the output. Up to {max} rows.',
+    chooseFile: 'Choose a CSV file',
+    download: 'CONVERT AND DOWNLOAD',
+    batchDone: '{rows} points converted, file downloaded.',
+    batchErrors: '{errors} of {rows} points could not be converted; the reasons are in the last column of the downloaded file.',
+    accuracy:
+      'ED50 is converted with the published 7-parameter Helmert transformation for Turkey (EPSG:1784), accurate to about 2 metres. Cadastral and stake-out work needs regional parameters; get in touch with us.',
+    failed: 'The conversion failed, please try again',
+    errors: {
+      outOfRange: 'The coordinate is outside Turkey; check the source system and the axis order',
+      invalidNumber: 'The coordinate could not be read as a number',
+      invalidSystem: 'Invalid coordinate system',
+      empty: 'No points were found in the file',
+      tooManyRows: 'Up to {max} points can be converted at once',
+      tooLarge: 'The file is too large',
+    },
+    csv: {
+      id: 'point',
+      latitude: 'latitude',
+      longitude: 'longitude',
+      easting: 'easting_y',
+      northing: 'northing_x',
+      note: 'error',
+    },
+  },
+  volume: {
+    title: 'VOLUME CALCULATOR',
+    lead: 'Upload a point file and we will build a Delaunay triangulated network (TIN) and compute the stockpile or cut/fill volume against the base you choose. Files are processed only in your browser and never uploaded.',
+    surface: 'Surface',
+    reference: 'Reference surface',
+    filePrompt: 'Choose an XYZ, CSV or LAS file',
+    fileHint:
+      'One x, y, z per row (optionally preceded by a point name). Coordinates must be projected and in metres (e.g. UTM, 3° TM). Files can be up to {max} MB; dense files are thinned at even intervals.',
+    base: 'Base',
+    bases: {
+      elevation: 'Fixed elevation',
+      plane: 'Best-fit plane',
+      surface: 'Second surface',
+    },
+    baseHints: {
+      elevation: 'A horizontal plane under the stockpile. Leave it empty to use the lowest point.',
+      plane: 'The best-fit plane through the edge points of the surface; for stockpiles on sloping ground.',
+      surface: 'The difference between two surveys: fill where the surface is above the reference, cut where it is below.',
+    },
+    elevation: 'Base elevation (m)',
+    elevationPlaceholder: 'Lowest point',
+    calculate: 'CALCULATE VOLUME',
+    calculating: 'CALCULATING...',
+    above: 'Volume above base',
+    below: 'Volume below base',
+    fill: 'Fill',
+    cut: 'Cut',
+    net: 'Net volume',
+    area: 'Plan area',
+    points: '{points} points, {triangles} triangles',
+    thinned: '{points} of {total} points used',
+    baseElevation: 'Base elevation {elevation} m',
+    basePlane: 'Base plane: mean elevation {elevation} m, slope {slope}%',
+    preview: 'Height map (relative to base)',
+    legend: '{min} m – {max} m',
+    gridNote: 'The volume between the two surfaces was computed on a {cell} m grid.',
+    disclaimer:
+      'Results are only as reliable as the density and accuracy of the uploaded points. For a certified volume report our team surveys the site.',
+    requestQuote: 'ADD THE RESULT TO YOUR REQUEST',
+    quoteMessage:
+      'I ran a preliminary calculation with the volume calculator.\nFile: {file}\nBase: {base}\nAbove base: {above} m³, below base: {below} m³\nPlan area: {area} m²\nThe height map is attached.',
+    previewFileName: 'volume-height-map.png',
+    errors: {
+      collinear: 'The points do not form a surface; they all lie on one line.',
+      noOverlap: 'The two surfaces do not overlap; check that they use the same coordinate system.',
+      tooLarge: 'Files can be up to {max} MB.',
+      invalidElevation: 'Enter a valid base elevation.',
+      referenceRequired: 'Choose the reference surface file.',
+      inReference: 'Reference surface: {error}',
+    },
+  },
+  email: {
+    footer: 'This email was sent from the HekaMap website.',
+    fallbackSubject: 'General',
+    leadNotification: {
+      subject: 'Contact Form: {subject} [{leadId}]',
+      heading: 'New Project Request',
+      firstName: 'First name',
+      lastName: 'Last name',
+      email: 'Email',
+      phone: 'Phone',
+      subjectLabel: 'Subject',
+      reference: 'Reference',
+      language: 'Language',
+      message: 'Message',
+      attachments: 'Attachments ({count})',
+      boundaries: 'Boundary files',
+      boundaryError: '{name}: could not be read - {error}',
+      boundaryArea: '{name}: {area} ha',
+      boundaryPerimeter: 'perimeter {perimeter} km',
+      boundaryShape: '{polygons} polygons, {vertices} vertices',
+      boundaryBBox: 'bbox {bbox}',
+    },
+    customerAcknowledgment: {
+      subject: 'We received your request [{leadId}]',
+      preheader: 'Your reference number: {leadId}',
+      heading: 'Your request has reached us',
+      greeting: 'Hello {name},',
+      greetingFallback: 'there',
+      intro: 'Your project request has been recorded. Our engineers will review it and get back to you.',
+      reference: 'Your reference number',
+      subjectLabel: 'Subject',
+      message: 'Your message',
+      responseTimes: 'Expected response times',
+      responseTime: { one: 'within {count} business day', other: 'within {count} business days' },
+      replyNote: 'You can reply to this email to send us additional information about your request.',
+    },
+    accountCreated: {
+      subject: 'Your HEKAMAP account has been created',
+      preheader: 'Click the link to activate your account',
+      heading: 'Your account has been created',
+      greeting: 'Hello {name},',
+      greetingAnonymous: 'Hello,',
+      intro: 'Welcome to the HEKAMAP client area. Use the link below to activate your account.',
+      button: 'Activate Account',
+      note: 'The link is valid for {minutes} minutes. If you did not start this, you can ignore this email.',
+    },
+    passwordReset: {
+      subject: 'HEKAMAP password reset',
+      preheader: 'Click the link to reset your password',
+      heading: 'Password reset request',
+      intro: 'We received a request to reset the password for your account. Use the link below to choose a new password.',
+      button: 'Reset My Password',
+      note: 'The link is valid for {minutes} minutes. If you did not request this, you can ignore this email; your password will not change.',
+    },
+    magicLink: {
+      subject: 'Your HEKAMAP client portal login link',
+      preheader: 'Click the link to log in to the portal',
+      heading: 'Client portal login',
+      greeting: 'Hello {name},',
+      greetingAnonymous: 'Hello,',
+      intro: 'Use the link below to log in to the client portal. No password needed.',
+      button: 'Log In to Portal',
+      note: 'The link is valid for {minutes} minutes and can only be used once. If you did not request it, you can ignore this email.',
+    },
+    deliverablesReady: {
+      subject: '{project}: new deliverables are ready',
+      preheader: 'New files were added to your project {project}',
+      heading: 'New deliverables',
+      greeting: 'Hello {name},',
+      greetingAnonymous: 'Hello,',
+      intro: 'The following files for your project {project} have been uploaded to the client portal.',
+      files: 'Files',
+      button: 'View in Portal',
+      note: 'You can log in to the portal without a password using a login link sent to your email address. Download links are created in the portal and are valid for {hours} hours.',
+    },
+    surveyAppointment: {
+      greeting: 'Hello {name},',
+      when: 'Appointment',
+      reference: 'Appointment number',
+      kind: 'Survey type',
+      address: 'Address',
+      client: 'Client',
+      email: 'Email',
+      phone: 'Phone',
+      lead: 'Request',
+      notes: "Client's note",
+      manage: 'Manage Appointment',
+      calendarNote: 'Use the attached invite to add the appointment to your calendar. Times are Turkey time ({zone}).',
+      cancelNote: 'The attached file removes the event from your calendar.',
+      confirmed: {
+        subject: 'Your site survey is confirmed [{id}]',
+        staffSubject: 'New site survey: {when} [{id}]',
+        preheader: '{when}',
+        heading: 'Your appointment is confirmed',
+        intro: 'Your site survey has been booked. Our team will be at the address at the given time.',
+        staffIntro: 'A new site survey has been assigned to you.',
+      },
+      rescheduled: {
+        subject: 'Your site survey has a new time [{id}]',
+        staffSubject: 'Site survey moved: {when} [{id}]',
+        preheader: 'New time: {when}',
+        heading: 'Appointment time updated',
+        intro: 'Your site survey has been moved to a new time.',
+        staffIntro: 'The time of a site survey assigned to you has changed.',
+      },
+      cancelled: {
+        subject: 'Your site survey was cancelled [{id}]',
+        staffSubject: 'Site survey cancelled: {when} [{id}]',
+        preheader: 'Cancelled appointment: {when}',
+        heading: 'Appointment cancelled',
+        intro: 'Your site survey has been cancelled. You can book a new appointment on our website.',
+        staffIntro: 'The site survey below is no longer on your calendar.',
+      },
+    },
+    quoteDocument: {
+      subject: 'HEKAMAP quotation [{id}]',
+      preheader: 'Total {total}, valid until {date}',
+      heading: 'Your quotation',
+      greeting: 'Hello {name},',
+      intro: 'Please find the quotation we prepared for your request in the attached PDF.',
+      total: 'Total (incl. {rate}% VAT)',
+      reference: 'Quote number',
+      validUntil: 'Valid until',
+      services: 'Scope',
+      signature: 'If you have any questions, simply reply to this email. Kind regards, {name}',
+      note: 'To accept the quote, just reply to this email; quoting the quote number helps us process it faster.',
+    },
+  },
+};
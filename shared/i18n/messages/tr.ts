@@ -0,0 +1,836 @@
+/**
+ * Türkçe ileti kataloğu (kaynak dil)
+ * Messages tipi bu nesneden türetilir; en.ts aynı şekli karşılamak zorundadır.
+ * Yer tutucular {ad} biçimindedir ve format() ile doldurulur.
+ */
+export const tr = {
+  meta: {
+    title: 'HEKAMAP | Geleceği Konumlandırıyoruz',
+    languageName: 'Türkçe',
+  },
+  nav: {
+    hero: 'Giriş',
+    services: 'Hizmetler',
+    projects: 'Projeler',
+    detail: 'Detay',
+    contact: 'İletişim',
+    caseStudies: 'Referanslar',
+    portal: 'Müşteri girişi',
+    home: 'Ana sayfa',
+    language: 'Dil',
+  },
+  hero: {
+    tagline: 'Görünmeyeni görüyor, ölçülemeyeni ölçüyoruz.',
+    scroll: 'Kaydırın',
+  },
+  services: {
+    explore: 'İncele',
+    close: 'Kapat',
+    estimateCta: 'Alanınız için fiyat tahmini alın',
+    surveyCta: 'Saha keşfi randevusu alın',
+    coordinateCta: 'Koordinatlarınızı dönüştürün',
+    volumeCta: 'Hacim hesaplayıcıyı deneyin',
+  },
+  pointCloud: {
+    label: 'Örnek LiDAR nokta bulutu',
+    loading: 'Nokta bulutu yükleniyor...',
+    modes: { elevation: 'Yükseklik', intensity: 'Yoğunluk', classification: 'Sınıf' },
+    budget: 'Nokta bütçesi',
+    budgetOption: '{count} nokta',
+    pointsShown: '{shown} / {total} nokta',
+    openFile: 'Kendi LAS dosyanızı açın',
+    resetView: 'Görünümü sıfırla',
+    info: 'Dosya bilgisi',
+    sampleNote: 'Örnek veri sentetiktir. Açtığınız dosyalar yalnızca tarayıcınızda işlenir, sunucuya yüklenmez.',
+    hint: 'Sürükle: döndür · Shift + sürükle veya iki parmak: kaydır · Ctrl + tekerlek veya kıstır: yakınlaştır',
+    wheelHint: 'Yakınlaştırmak için Ctrl (Mac: ⌘) tuşuna basılı tutarak kaydırın',
+    noWebgl: 'Tarayıcınız WebGL desteklemediği için nokta bulutu gösterilemiyor.',
+    lowHigh: { low: 'Düşük', high: 'Yüksek' },
+    header: {
+      file: 'Dosya',
+      version: 'LAS sürümü',
+      pointFormat: 'Nokta formatı',
+      points: 'Nokta sayısı',
+      scale: 'Ölçek (x, y, z)',
+      offset: 'Öteleme (x, y, z)',
+      min: 'En küçük (x, y, z)',
+      max: 'En büyük (x, y, z)',
+      software: 'Üreten yazılım',
+    },
+    errors: {
+      signature: 'Bu dosya bir LAS dosyası değil.',
+      version: 'Bu LAS sürümü desteklenmiyor (1.0–1.4 desteklenir).',
+      compressed:
+        'LAZ (sıkıştırılmış) dosyalar henüz açılamıyor. Dosyayı LAStools (las2las) veya CloudCompare ile LAS olarak dışa aktarıp tekrar deneyin.',
+      format: 'Dosyadaki nokta formatı bu LAS sürümüyle uyumsuz.',
+      truncated: 'Dosya eksik görünüyor; yeniden indirip tekrar deneyin.',
+      empty: 'Dosyada nokta bulunamadı.',
+      fetch: 'Örnek veri indirilemedi.',
+      unknown: 'Dosya okunamadı.',
+    },
+    classes: {
+      '0': 'Hiç sınıflandırılmamış',
+      '1': 'Sınıflandırılmamış',
+      '2': 'Zemin',
+      '3': 'Alçak bitki örtüsü',
+      '4': 'Orta bitki örtüsü',
+      '5': 'Yüksek bitki örtüsü',
+      '6': 'Bina',
+      '7': 'Gürültü',
+      '9': 'Su',
+      '10': 'Demiryolu',
+      '11': 'Yol yüzeyi',
+      '13': 'Koruma teli',
+      '14': 'İletim hattı',
+      '15': 'İletim kulesi',
+      '17': 'Köprü',
+      '18': 'Yüksek gürültü',
+    },
+    otherClass: 'Sınıf {code}',
+  },
+  comparison: {
+    label: '{before} ile {after} karşılaştırması',
+    layers: { photo: 'Ham drone görüntüsü', orthophoto: 'Ortofoto', map: 'Harita', historicMap: 'Eski harita' },
+    layerWithYear: '{layer} · {year}',
+    divider: 'Karşılaştırma çizgisi',
+    zoomIn: 'Yakınlaştır',
+    zoomOut: 'Uzaklaştır',
+    reset: 'Tümünü göster',
+    wheelHint: 'Yakınlaştırmak için Ctrl (Mac: ⌘) tuşuna basılı tutarak kaydırın',
+    loading: 'Görüntüler yükleniyor...',
+    loadFailed: 'Görüntüler yüklenemedi',
+  },
+  caseStudies: {
+    title: 'REFERANS PROJELER',
+    lead: 'Maden sahalarından belediyelere, tamamladığımız projelerin kapsamı, ölçeği ve teslim ettiğimiz ürünler.',
+    filterService: 'Hizmet',
+    filterClient: 'Müşteri türü',
+    all: 'Tümü',
+    count: { one: '{count} proje', other: '{count} proje' },
+    empty: 'Bu filtrelere uyan proje bulunamadı.',
+    clearFilters: 'Filtreleri temizle',
+    viewProject: 'Projeyi incele',
+    back: 'Tüm referanslar',
+    related: 'Bu hizmetle yaptığımız projeler',
+    viewAll: 'Tüm referanslar',
+    client: 'Müşteri',
+    location: 'Konum',
+    year: 'Yıl',
+    services: 'Hizmetler',
+    deliverables: 'Teslim edilenler',
+    gallery: 'Galeri',
+    comparison: 'Önce / Sonra',
+    requestSimilar: 'BENZER BİR PROJE İÇİN TEKLİF İSTE',
+    similarMessage: '"{title}" projesine benzer bir çalışma için teklif almak istiyorum.\nProje alanı / konumu: ',
+    clientTypes: {
+      maden: 'Maden işletmesi',
+      belediye: 'Belediye',
+      kamu: 'Kamu kurumu',
+      enerji: 'Enerji',
+      insaat: 'İnşaat',
+      ozel: 'Özel sektör',
+    },
+    metrics: {
+      areaHectares: 'Alan',
+      pointsCaptured: 'Toplanan nokta',
+      accuracyCm: 'Doğruluk',
+    },
+    metricValues: {
+      areaHectares: '{value} ha',
+      pointsCaptured: '{value}',
+      accuracyCm: '±{value} cm',
+    },
+  },
+  projectMap: {
+    eyebrow: 'Referans Haritası',
+    titleLine1: 'NEREDE',
+    titleLine2: 'ÇALIŞTIK',
+    lead: 'Tamamladığımız projelerin konumları. İşaretçiler hizmet türüne göre renklendirilmiştir; yakın projeler yakınlaştırdıkça ayrılır.',
+    legend: 'Hizmetler',
+    loading: 'Harita yükleniyor...',
+    loadFailed: 'Harita yüklenemedi',
+    zoomIn: 'Yakınlaştır',
+    zoomOut: 'Uzaklaştır',
+    reset: 'Tüm Türkiye',
+    wheelHint: 'Yakınlaştırmak için Ctrl (Mac: ⌘) tuşuna basılı tutarak kaydırın',
+    selectHint: 'Bir projeyi görmek için işaretçiye tıklayın; gruplar tıklandığında yakınlaşır.',
+    cluster: { one: '{count} proje', other: '{count} proje' },
+    mapLabel: 'Tamamlanan projelerin Türkiye haritası',
+  },
+  contact: {
+    eyebrow: 'İletişime Geçin',
+    titleLine1: 'PROJENİZİ',
+    titleLine2: 'BİRLİKTE',
+    titleLine3: 'ÇİZELİM',
+    lead: 'Sınırları zorlayan projeleriniz için ileri teknoloji haritalama ve mühendislik desteği sağlıyoruz.',
+    emailLabel: 'E-Posta',
+    phoneLabel: 'Telefon',
+    ctaTitle: 'İLK ADIMI ATIN',
+    ctaText: 'Profesyonel mühendislik kadromuz projenizi analiz etmek için sabırsızlanıyor.',
+    ctaButton: 'Hemen Başlayalım',
+    serviceArea: 'Hizmet Bölgesi: Tüm Türkiye',
+    footerTagline: 'Harita & Teknoloji Çözümleri',
+  },
+  sideControls: {
+    whatsapp: 'WhatsApp İletişim',
+  },
+  contactForm: {
+    title: 'İletişime Geçin',
+    lead: 'Detayları bırakın, mühendislerimiz projenizi inceleyip size dönüş yapsın.',
+    honeypot: 'Web sitesi',
+    firstName: 'Adınız',
+    lastName: 'Soyadınız',
+    email: 'E-Posta Adresi',
+    phone: 'Telefon No',
+    subjectPlaceholder: 'Konu Seçiniz',
+    message: 'Proje Detayları',
+    attach: 'Dosya ekle (KML/KMZ, GeoJSON, Shapefile zip, DXF, PDF, görsel) · en fazla {maxFiles} dosya, {maxSize}',
+    removeFile: '{name} dosyasını kaldır',
+    submit: 'GÖNDER',
+    submitting: 'GÖNDERİLİYOR...',
+    successWithReference: 'Mesajınız alındı. Referans numaranız: {leadId}. En kısa sürede size dönüş yapacağız.',
+    success: 'Mesajınız gönderildi. En kısa sürede size dönüş yapacağız.',
+    rateLimited: 'Kısa süre içinde çok fazla gönderim yapıldı. Lütfen {wait} sonra tekrar deneyin.',
+    failed: 'Gönderim başarısız',
+    genericError: 'Bir hata oluştu',
+    surveyCta: 'Saha keşfi için randevu alın',
+  },
+  // Değerler sunucuya ve veritabanına Türkçe gider; burada yalnızca görünen etiketleri çevrilir
+  contactSubjects: {
+    'Lidar Hizmeti': 'Lidar Hizmeti',
+    'Drone Fotogrametri': 'Drone Fotogrametri',
+    'Genel Danışmanlık': 'Genel Danışmanlık',
+  },
+  validation: {
+    firstNameTooLong: 'Ad en fazla {max} karakter olabilir',
+    lastNameTooLong: 'Soyad en fazla {max} karakter olabilir',
+    emailRequired: 'E-posta adresi zorunludur',
+    emailInvalid: 'Geçerli bir e-posta adresi girin',
+    phoneInvalid: 'Geçerli bir telefon numarası girin (ör. 0532 123 45 67)',
+    subjectInvalid: 'Listeden bir konu seçin',
+    messageRequired: 'Proje detayları zorunludur',
+    messageTooShort: 'Lütfen en az {min} karakterlik bir açıklama yazın',
+    messageTooLong: 'Mesaj en fazla {max} karakter olabilir',
+    invalidBody: 'Geçersiz istek gövdesi',
+    checkFields: 'Lütfen form alanlarını kontrol edin',
+    rateLimited: 'Çok fazla gönderim yapıldı',
+    saveFailed: 'Talebiniz kaydedilemedi, lütfen daha sonra tekrar deneyin',
+  },
+  attachments: {
+    unsupportedType: '"{name}" desteklenmeyen bir dosya türü. İzin verilenler: {types}',
+    typeMismatch: '"{name}" dosyasının içeriği uzantısıyla uyuşmuyor',
+    empty: '"{name}" boş bir dosya',
+    tooLarge: '"{name}" çok büyük (en fazla {max})',
+    tooMany: 'En fazla {max} dosya ekleyebilirsiniz',
+    totalTooLarge: 'Eklerin toplam boyutu en fazla {max} olabilir',
+  },
+  time: {
+    seconds: { one: '{count} saniye', other: '{count} saniye' },
+    minutes: { one: '{count} dakika', other: '{count} dakika' },
+  },
+  auth: {
+    title: 'MÜŞTERİ GİRİŞİ',
+    lead: 'Talep bırakırken kullandığınız e-posta adresini girin. Şifre gerekmez; size tek kullanımlık bir giriş bağlantısı gönderelim.',
+    email: 'E-posta adresi',
+    submit: 'Giriş bağlantısı gönder',
+    sending: 'Gönderiliyor...',
+    sent: '{email} bir müşteri hesabına aitse birkaç dakika içinde giriş bağlantısı alacaksınız. Bağlantı {minutes} dakika geçerlidir ve yalnızca bir kez kullanılabilir.',
+    otherEmail: 'Başka bir adres kullan',
+    noAccountHint: 'Portal, daha önce talep bırakmış müşterilerimize açıktır. Henüz talep bırakmadıysanız iletişim formunu kullanın.',
+    verifying: 'Giriş bağlantısı doğrulanıyor...',
+    linkInvalid: 'Bu giriş bağlantısı geçersiz, süresi dolmuş ya da daha önce kullanılmış. Yeni bir bağlantı isteyebilirsiniz.',
+    rateLimited: 'Çok fazla giriş bağlantısı istendi. Lütfen {wait} sonra tekrar deneyin.',
+    unavailable: 'Müşteri girişi şu anda kullanılamıyor, lütfen daha sonra tekrar deneyin.',
+    failed: 'İşlem tamamlanamadı, lütfen tekrar deneyin.',
+    forbidden: 'Bu sayfa yalnızca HEKAMAP personeline açıktır.',
+    notSignedIn: 'Oturum açılmamış',
+    sessionInvalid: 'Geçersiz oturum',
+    sessionNotFound: 'Oturum bulunamadı',
+  },
+  portal: {
+    title: 'MÜŞTERİ PORTALI',
+    greeting: 'Hoş geldiniz, {name}',
+    signedInAs: '{email} olarak giriş yapıldı',
+    logout: 'Çıkış yap',
+    loading: 'Yükleniyor...',
+    loadFailed: 'Portal bilgileri yüklenemedi.',
+    requests: 'Talepleriniz',
+    noRequests: 'Bu adresle bırakılmış talep bulunamadı.',
+    noSubject: 'Konu belirtilmemiş',
+    projects: 'Projeleriniz',
+    noProjects: 'Henüz teslim edilmiş dosya yok. Teslimatlar hazır olduğunda e-posta ile haber vereceğiz.',
+    noDeliverables: 'Bu projede henüz dosya yok.',
+    download: 'İndir',
+    preparingDownload: 'Hazırlanıyor...',
+    downloadFailed: 'İndirme bağlantısı oluşturulamadı.',
+    fileNotFound: 'Dosya bulunamadı',
+    downloadUnavailable: 'İndirme şu anda kullanılamıyor',
+    downloadExpired: 'İndirme bağlantısının süresi doldu; portaldan yeni bağlantı alın',
+    downloadInvalid: 'Geçersiz indirme bağlantısı',
+    sessions: 'Açık oturumlar',
+    sessionsLead: 'Tanımadığınız bir cihaz görürseniz oturumunu kapatın.',
+    thisDevice: 'Bu cihaz',
+    unknownDevice: 'Bilinmeyen cihaz',
+    lastSeen: 'Son etkinlik: {date}',
+    revoke: 'Oturumu kapat',
+    revokeOthers: 'Diğer tüm oturumları kapat',
+    admin: 'Talep yönetimi',
+  },
+  deliverableUpload: {
+    title: 'Teslimat yükle',
+    lead: 'Dosyalar müşterinin portalındaki projeye eklenir. Hesabı olmayan adres için hesap açılır.',
+    clientEmail: 'Müşteri e-posta adresi',
+    projectName: 'Proje adı',
+    files: 'Dosya seçin (LAS, GeoTIFF, DWG...)',
+    notify: 'Yükleme bitince müşteriye e-posta gönder',
+    submit: 'Yükle',
+    uploading: '{name} yükleniyor · {percent}%',
+    done: '{count} dosya yüklendi.',
+    notified: 'Müşteriye bildirim gönderildi.',
+    notifyFailed: 'Dosyalar yüklendi ancak bildirim e-postası gönderilemedi.',
+    cancel: 'Vazgeç',
+    cancelled: 'Yükleme iptal edildi.',
+    tooLarge: '"{name}" çok büyük (en fazla {max})',
+    projectNameRequired: 'Proje adı zorunludur',
+    failed: 'Yükleme başarısız: {error}',
+    errors: {
+      storageUnavailable: 'Dosya deposu yapılandırılmamış',
+      clientEmailInvalid: 'Geçerli bir müşteri e-posta adresi girin',
+      projectNameLength: 'Proje adı 1-{max} karakter olmalı',
+      fileRequired: 'Dosya adı ve boyutu zorunludur',
+      fileTooLarge: 'Dosya çok büyük',
+      startFailed: 'Yükleme başlatılamadı',
+      notFound: 'Yükleme bulunamadı',
+      notInProgress: 'Süren bir yükleme bulunamadı',
+      invalidPart: 'Geçersiz parça numarası',
+      partLength: 'Parça {part} {bytes} bayt olmalı',
+      partFailed: 'Parça yüklenemedi',
+      partsMissing: 'Parça listesi eksik',
+      sizeMismatch: 'Yüklenen boyut ({actual}) beklenenle ({expected}) uyuşmuyor',
+      completeFailed: 'Yükleme tamamlanamadı',
+    },
+  },
+  admin: {
+    title: 'TALEP YÖNETİMİ',
+    backToPortal: 'Portala dön',
+    loading: 'Yükleniyor...',
+    loadFailed: 'Talepler yüklenemedi.',
+    statuses: {
+      new: 'Yeni',
+      called: 'Arandı',
+      quoted: 'Teklif verildi',
+      won: 'Kazanıldı',
+      lost: 'Kaybedildi',
+    },
+    allStatuses: 'Tüm durumlar',
+    allSubjects: 'Tüm hizmetler',
+    noSubject: 'Konu belirtilmemiş',
+    allAssignees: 'Tüm sorumlular',
+    unassigned: 'Atanmamış',
+    from: 'Başlangıç tarihi',
+    to: 'Bitiş tarihi',
+    search: 'Referans, ad, e-posta ya da telefon',
+    clearFilters: 'Süzgeçleri temizle',
+    reference: 'Referans',
+    client: 'Müşteri',
+    subject: 'Hizmet',
+    status: 'Durum',
+    assignee: 'Sorumlu',
+    date: 'Tarih',
+    noLeads: 'Süzgeçlere uyan talep yok.',
+    pageInfo: '{total} talepten {first}–{last}',
+    previous: 'Önceki',
+    next: 'Sonraki',
+    close: 'Kapat',
+    contact: 'İletişim',
+    message: 'Mesaj',
+    attachments: 'Ekler',
+    pipeline: 'Süreç',
+    assignTo: 'Sorumlu mühendis',
+    updateFailed: 'Değişiklik kaydedilemedi.',
+    conflict: 'Talep bu arada başka biri tarafından güncellendi; son hali yüklendi.',
+    note: 'İç not',
+    notePlaceholder: 'Yalnızca personelin göreceği bir not ekleyin',
+    addNote: 'Notu ekle',
+    noteFailed: 'Not eklenemedi.',
+    activity: 'Geçmiş',
+    noActivity: 'Henüz kayıt yok.',
+    loadMore: 'Daha fazla göster',
+    statusChanged: '{actor}: {from} → {to}',
+    assigned: '{actor} talebi {to} adlı kişiye atadı',
+    unassignedBy: '{actor} atamayı kaldırdı',
+    noted: '{actor} not ekledi',
+    quote: 'Fiyat teklifi hazırla',
+  },
+  surveys: {
+    title: 'SAHA KEŞFİ',
+    lead: 'Ekibimizin arazinizi yerinde incelemesi için uygun bir saat seçin. Ziyaret yaklaşık {hours} saat sürer; saatler Türkiye saatidir.',
+    calendarSummary: 'HEKAMAP saha keşfi',
+    kindLabel: 'Keşif türü',
+    kinds: {
+      aplikasyon: 'Aplikasyon',
+      'sinir-tespiti': 'Sınır tespiti',
+      topografik: 'Topografik alım',
+      diger: 'Diğer',
+    },
+    pickSlot: 'Saat seçin',
+    loadingSlots: 'Uygun saatler yükleniyor...',
+    slotsFailed: 'Uygun saatler yüklenemedi.',
+    noSlots: 'Önümüzdeki {days} gün için boş saat kalmadı. İletişim formundan bize ulaşabilirsiniz.',
+    hold: 'Bu saati ayır',
+    holding: 'Ayrılıyor...',
+    slotTaken: 'Bu saat az önce doldu; lütfen başka bir saat seçin.',
+    held: '{time} sizin için ayrıldı. Bilgilerinizi {minutes} dakika içinde gönderin.',
+    countdown: 'Kalan süre: {time}',
+    holdExpired: 'Ayırma süresi doldu. Lütfen saati yeniden seçin.',
+    changeSlot: 'Başka saat seç',
+    firstName: 'Adınız',
+    lastName: 'Soyadınız',
+    email: 'E-Posta Adresi',
+    phone: 'Telefon No',
+    address: 'Keşif adresi (il, ilçe, mahalle, ada/parsel)',
+    notes: 'Ekibe not (isteğe bağlı)',
+    fromLead: 'Talebiniz ({leadId}) ile ilişkilendirilecek',
+    confirm: 'RANDEVUYU ONAYLA',
+    confirming: 'ONAYLANIYOR...',
+    failed: 'Randevu oluşturulamadı, lütfen tekrar deneyin.',
+    rateLimited: 'Çok fazla deneme yapıldı. Lütfen {wait} sonra tekrar deneyin.',
+    successTitle: 'Randevunuz alındı',
+    success: '{time} için keşif randevunuz onaylandı. Takvim davetini ve randevu yönetim bağlantısını {email} adresine gönderdik.',
+    emailFailed: 'Randevunuz onaylandı ancak e-posta gönderilemedi. Randevu numaranızı not edin; ekibimiz sizi arayacak.',
+    reference: 'Randevu numarası',
+    nameRequired: 'Ad ve soyad zorunludur',
+    phoneRequired: 'Ekibimizin size arazide ulaşabilmesi için telefon zorunludur',
+    addressRequired: 'Keşif adresi zorunludur',
+    tooLong: 'En fazla {max} karakter olabilir',
+    manage: {
+      title: 'RANDEVUNUZ',
+      loading: 'Randevu yükleniyor...',
+      invalidLink: 'Randevu bağlantısı geçersiz ya da eksik.',
+      status: 'Durum',
+      when: 'Tarih ve saat',
+      keepTime: 'Vazgeç',
+      address: 'Adres',
+      statuses: {
+        held: 'Onay bekliyor',
+        confirmed: 'Onaylandı',
+        cancelled: 'İptal edildi',
+        expired: 'Süresi doldu',
+      },
+      cancel: 'Randevuyu iptal et',
+      cancelConfirm: 'Randevuyu iptal etmek istediğinize emin misiniz?',
+      cancelling: 'İptal ediliyor...',
+      cancelled: 'Randevunuz iptal edildi. Takviminizden kaldırılması için e-posta gönderdik.',
+      reschedule: 'Saati değiştir',
+      rescheduleSubmit: 'Yeni saati onayla',
+      rescheduling: 'Güncelleniyor...',
+      rescheduled: 'Randevunuz {time} olarak güncellendi; güncel davet e-postayla gönderildi.',
+      locked: 'Geçmiş ya da iptal edilmiş randevular değiştirilemez.',
+      failed: 'İşlem tamamlanamadı, lütfen tekrar deneyin.',
+      bookAgain: 'Yeni randevu al',
+    },
+    availability: {
+      title: 'Keşif müsaitliği',
+      lead: 'Müşterilerin keşif randevusu alabileceği saat aralıklarını ekleyin. Aralıklar {minutes} dakikalık dilimlere bölünür.',
+      date: 'Gün',
+      from: 'Başlangıç',
+      to: 'Bitiş',
+      add: 'Aralık ekle',
+      remove: 'Aralığı sil',
+      empty: 'Önümüzdeki günler için eklenmiş aralık yok.',
+      overlap: 'Bu aralık mevcut bir aralıkla çakışıyor.',
+      hasBookings: 'İçinde randevu olan aralık silinemez.',
+      invalid: 'Geçerli bir gün ve en az {minutes} dakikalık bir saat aralığı girin.',
+      failed: 'Değişiklik kaydedilemedi.',
+      held: 'ayrıldı',
+    },
+  },
+  quotes: {
+    title: 'FİYAT TEKLİFİ',
+    backToLeads: 'Taleplere dön',
+    forLead: 'Talep {leadId}',
+    loading: 'Yükleniyor...',
+    loadFailed: 'Teklifler yüklenemedi.',
+    customer: 'Müşteri',
+    customerName: 'Ad soyad',
+    customerEmail: 'E-posta',
+    customerCompany: 'Firma (isteğe bağlı)',
+    customerAddress: 'Adres (isteğe bağlı)',
+    documentLanguage: 'Belge dili',
+    languages: { tr: 'Türkçe', en: 'İngilizce' },
+    items: 'Kalemler',
+    service: 'Hizmet',
+    description: 'Açıklama (isteğe bağlı)',
+    quantity: 'Miktar',
+    unit: 'Birim',
+    unitPrice: 'Birim fiyat (TL, KDV hariç)',
+    addItem: 'Kalem ekle',
+    removeItem: 'Kalemi kaldır',
+    vatRate: 'KDV oranı',
+    validUntil: 'Geçerlilik tarihi',
+    terms: 'Koşullar',
+    subtotal: 'Ara toplam',
+    vat: 'KDV (%{rate})',
+    total: 'Genel toplam',
+    save: 'Teklifi oluştur',
+    saving: 'Kaydediliyor...',
+    saveFailed: 'Teklif kaydedilemedi.',
+    invalidItem: '{row}. kalem: miktar ve birim fiyatı kontrol edin (ör. 12,5 ve 1.250,00)',
+    created: '{id} numaralı teklif oluşturuldu.',
+    history: 'Teklifler',
+    noQuotes: 'Bu talep için henüz teklif yok.',
+    statuses: { draft: 'Taslak', sent: 'Gönderildi' },
+    sentAt: 'Son gönderim: {time}',
+    viewPdf: 'PDF',
+    send: 'E-postayla gönder',
+    resend: 'Yeniden gönder',
+    sending: 'Gönderiliyor...',
+    sendConfirm: '{id} numaralı teklif {email} adresine gönderilsin mi?',
+    sent: '{id} numaralı teklif {email} adresine gönderildi.',
+    sendFailed: 'Teklif gönderilemedi.',
+    units: {
+      hektar: 'hektar',
+      'nokta-m2': 'nokta/m²',
+      parsel: 'parsel',
+      gun: 'gün',
+    },
+    // shared/services SERVICE_IDS ile aynı anahtarlar; PDF Functions'ta üretildiği için servicesData'ya bağlı değildir
+    services: {
+      '1': 'LIDAR – 3D Lazer Tarama',
+      '2': 'DRONE – Fotogrametri',
+      '3': 'HARİTA – Mühendislik',
+      '4': 'ORMANCILIK – Çalışmaları',
+      '5': 'MADENCİLİK – Çalışmaları',
+    },
+    defaultTerms:
+      'Fiyatlara KDV dahil değildir; KDV ayrıca gösterilmiştir.\nİşe başlama tarihi sipariş onayından sonra birlikte belirlenir.\nBedelin %50\'si sipariş onayında, kalanı teslimatta ödenir.\nSahaya erişim izinleri ve gerekli resmi yazışmalar müşteri tarafından sağlanır.',
+    document: {
+      title: 'FİYAT TEKLİFİ',
+      tagline: 'LIDAR · Fotogrametri · Harita Mühendisliği',
+      number: 'Teklif no',
+      date: 'Tarih',
+      validUntil: 'Geçerlilik',
+      preparedFor: 'Sayın',
+      preparedBy: 'Hazırlayan',
+      index: '#',
+      service: 'Hizmet / açıklama',
+      quantity: 'Miktar',
+      unit: 'Birim',
+      unitPrice: 'Birim fiyat',
+      amount: 'Tutar',
+      subtotal: 'Ara toplam',
+      vat: 'KDV (%{rate})',
+      total: 'Genel toplam',
+      terms: 'Koşullar',
+      validity: 'Bu teklif {date} tarihine kadar geçerlidir. Tutarlar Türk lirası cinsindendir.',
+      page: 'Sayfa {page}/{pages}',
+      contact: 'HEKAMAP · halit@hekamap.com · hekamap.com',
+    },
+  },
+  errorBoundary: {
+    title: 'Bir hata oluştu',
+    unknown: 'Bilinmeyen hata',
+    reload: 'Sayfayı Yenile',
+  },
+  notFound: {
+    title: 'SAYFA BULUNAMADI',
+    lead: 'Aradığınız sayfa taşınmış ya da hiç var olmamış olabilir. Hizmetlerimizden birine göz atabilirsiniz:',
+  },
+  estimator: {
+    title: 'FİYAT TAHMİNİ',
+    lead: 'Proje alanınızı çizin ya da sınır dosyanızı yükleyin; jeodezik alanı hesaplayıp seçtiğiniz hizmet için fiyat ve süre aralığı verelim.',
+    drawTab: 'Alan çiz',
+    uploadTab: 'Dosya yükle',
+    uploadPrompt: 'GeoJSON, KML/KMZ veya Shapefile (.zip) seçin',
+    crs: 'Koordinat sistemi',
+    crsUnknownGeographic: 'Bilinmeyen coğrafi sistem',
+    crsAssumedWgs84: 'Bilinmiyor (.prj yok, WGS84 varsayıldı)',
+    polygonsVertices: 'Poligon / köşe',
+    bbox: 'Sınır kutusu',
+    calculate: 'TAHMİN HESAPLA',
+    calculating: 'HESAPLANIYOR...',
+    failed: 'Tahmin hesaplanamadı',
+    area: 'Alan',
+    perimeter: 'Çevre',
+    price: 'Tahmini fiyat (KDV hariç)',
+    duration: 'Tahmini süre',
+    durationValue: '{min}–{max} iş günü',
+    disclaimer:
+      'Bu aralık ön bilgi amaçlıdır. Arazi koşulları, erişim ve teslim formatına göre kesin teklif ekibimiz tarafından hazırlanır.',
+    requestQuote: 'KESİN TEKLİF İSTE',
+    quoteMessage:
+      '{service} için fiyat tahmini aldım.\nAlan: {area} ha, çevre: {perimeter} km\nTahmini fiyat: {priceMin} - {priceMax}\nTahmini süre: {durationMin}-{durationMax} gün',
+    errors: {
+      invalidService: 'Geçersiz hizmet',
+      selfIntersection: 'Sınır kendisiyle kesişiyor; köşe sırasını kontrol edin',
+      noArea: 'Alan hesaplanamadı; sınır boş ya da tüm noktalar aynı çizgi üzerinde',
+      tooLarge: 'Bu büyüklükteki alanlar ({area} ha) için lütfen bizimle doğrudan iletişime geçin',
+      coordinateFormat: 'Koordinatlar [boylam, enlem] biçiminde olmalıdır',
+      coordinateRange: 'Koordinatlar WGS84 derece aralığının dışında (projeksiyonlu koordinat olabilir)',
+      tooFewVertices: 'Bir alan en az 3 köşe noktasından oluşmalıdır',
+      emptyPolygon: 'Poligon en az bir halka içermelidir',
+      emptyMultiPolygon: 'MultiPolygon boş olamaz',
+      unsupportedGeometry: 'Yalnızca Polygon ve MultiPolygon geometrileri desteklenir',
+      tooManyVertices: 'Geometri en fazla {max} köşe noktası içerebilir',
+      fileUnreadable: 'Dosya okunamadı',
+      invalidGeoJson: 'Dosya geçerli bir GeoJSON değil',
+      invalidKml: 'Dosya geçerli bir KML değil',
+      shpUnreadable: '.shp dosyası okunamadı',
+      shpNotPolygon: 'Shapefile poligon türünde değil (nokta/çizgi katmanı yüklenmiş olabilir)',
+      shpTruncated: '.shp dosyası eksik ya da bozuk',
+      shpMixedTypes: '.shp dosyası karışık geometri tipleri içeriyor',
+      archiveInvalid: 'Arşiv okunamadı (geçerli bir ZIP değil)',
+      archiveCorrupt: 'Arşivin içerik dizini bozuk',
+      archiveNoBoundary: 'Arşivde KML, Shapefile (.shp) ya da GeoJSON bulunamadı',
+      archiveEncrypted: '"{name}" şifreli; şifresiz arşiv yükleyin',
+      archiveEntryTooLarge: '"{name}" çok büyük',
+      archiveEntryUnreadable: '"{name}" okunamadı',
+      archiveEntryCorrupt: '"{name}" bozuk (boyut uyuşmuyor)',
+      archiveUnsupportedMethod: '"{name}" desteklenmeyen sıkıştırma yöntemi kullanıyor',
+      noPolygon: 'Dosyada poligon bulunamadı (sınır kapalı bir alan olmalıdır)',
+      crsNotWgs84: 'Koordinat sistemi {crs} olarak tespit edildi. Lütfen dosyayı WGS84 (EPSG:4326) olarak dışa aktarın.',
+      polygonSelfIntersection: '{index}. poligonun sınırı kendisiyle kesişiyor; köşe sırasını kontrol edin',
+      zeroArea: 'Sınırın alanı yok (tüm noktalar aynı çizgi üzerinde olabilir)',
+    },
+  },
+  boundaryDrawer: {
+    latitude: 'Enlem',
+    longitude: 'Boylam',
+    extent: 'Görünüm genişliği',
+    locate: 'Konumuma git',
+    undo: 'Son noktayı geri al',
+    clear: 'Temizle',
+    grid: 'Izgara aralığı: {size} m',
+    hint: 'Köşe noktalarını sırayla tıklayarak alanınızı çizin. Sınır otomatik olarak kapatılır.',
+  },
+  coordinates: {
+    title: 'KOORDİNAT DÖNÜŞÜMÜ',
+    lead: 'WGS84, ITRF96 3° TM, UTM ve ED50 arasında tek nokta ya da CSV dosyasıyla toplu dönüşüm yapın. Yükseklikler dönüştürülmez.',
+    from: 'Kaynak sistem',
+    to: 'Hedef sistem',
+    swap: 'Sistemleri değiştir',
+    groups: {
+      geographic: 'Coğrafi',
+      tm3: '3° TM',
+      utm: 'UTM',
+    },
+    systemGeographic: '{datum} coğrafi (enlem, boylam)',
+    systemUtm: '{datum} / UTM {zone}N',
+    systemTm3: '{datum} / 3° TM, DOM {meridian}°',
+    latitude: 'Enlem (°)',
+    longitude: 'Boylam (°)',
+    easting: 'Sağa (Y, m)',
+    northing: 'Yukarı (X, m)',
+    single: 'Tek nokta',
+    batch: 'CSV ile toplu dönüşüm',
+    convert: 'DÖNÜŞTÜR',
+    converting: 'DÖNÜŞTÜRÜLÜYOR...',
+    result: 'Sonuç',
+    batchHint:
+      'Her satır: nokta adı, {x}, {y}. Sütunlar virgül, noktalı virgül ya da sekmeyle ayrılabilir; kot gibi ek sütunlar çıktıya aynen taşınır. En fazla {max} satır.',
+    chooseFile: 'CSV dosyası seçin',
+    download: 'DÖNÜŞTÜR VE İNDİR',
+    batchDone: '{rows} nokta dönüştürüldü, dosya indirildi.',
+    batchErrors: '{rows} noktadan {errors} tanesi dönüştürülemedi; nedenleri indirilen dosyanın son sütunundadır.',
+    accuracy:
+      'ED50 dönüşümü Türkiye için yayımlanmış 7 parametreli Helmert dönüşümüyle (EPSG:1784) yapılır ve doğruluğu yaklaşık 2 metredir. Kadastro ve aplikasyon işleri için bölgesel parametreler gerekir; bizimle iletişime geçin.',
+    failed: 'Dönüşüm yapılamadı, lütfen tekrar deneyin',
+    errors: {
+      outOfRange: 'Koordinat Türkiye kapsamı dışında; kaynak sistemi ve eksen sırasını kontrol edin',
+      invalidNumber: 'Koordinat sayı olarak okunamadı',
+      invalidSystem: 'Geçersiz koordinat sistemi',
+      empty: 'Dosyada nokta bulunamadı',
+      tooManyRows: 'Tek seferde en fazla {max} nokta dönüştürülebilir',
+      tooLarge: 'Dosya çok büyük',
+    },
+    csv: {
+      id: 'nokta',
+      latitude: 'enlem',
+      longitude: 'boylam',
+      easting: 'saga_y',
+      northing: 'yukari_x',
+      note: 'hata',
+    },
+  },
+  volume: {
+    title: 'HACİM HESABI',
+    lead: 'Nokta dosyanızı yükleyin; Delaunay üçgen ağı (TIN) kurup seçtiğiniz tabana göre yığın ya da kazı/dolgu hacmini hesaplayalım. Dosyalar yalnızca tarayıcınızda işlenir, sunucuya yüklenmez.',
+    surface: 'Yüzey',
+    reference: 'Referans yüzey',
+    filePrompt: 'XYZ, CSV veya LAS dosyası seçin',
+    fileHint:
+      'Satır başına x, y, z (isteğe bağlı olarak önce nokta adı). Koordinatlar metre cinsinden ve projeksiyonlu olmalıdır (ör. UTM, 3° TM). Dosya en fazla {max} MB olabilir; çok noktalı dosyalar eşit aralıklarla seyreltilir.',
+    base: 'Taban',
+    bases: {
+      elevation: 'Sabit kot',
+      plane: 'En uygun düzlem',
+      surface: 'İkinci yüzey',
+    },
+    baseHints: {
+      elevation: 'Yığının oturduğu yatay düzlem. Boş bırakırsanız en düşük nokta kullanılır.',
+      plane: 'Yüzeyin kenar noktalarından geçen en uygun düzlem; eğimli zemindeki yığınlar için.',
+      surface: 'İki ölçüm arasındaki fark: yüzey referanstan yüksekse dolgu, alçaksa kazı.',
+    },
+    elevation: 'Taban kotu (m)',
+    elevationPlaceholder: 'En düşük nokta',
+    calculate: 'HACİM HESAPLA',
+    calculating: 'HESAPLANIYOR...',
+    above: 'Taban üstü hacim',
+    below: 'Taban altı hacim',
+    fill: 'Dolgu',
+    cut: 'Kazı',
+    net: 'Net hacim',
+    area: 'Yatay alan',
+    points: '{points} nokta, {triangles} üçgen',
+    thinned: '{total} noktadan {points} tanesi kullanıldı',
+    baseElevation: 'Taban kotu {elevation} m',
+    basePlane: 'Taban düzlemi: ortalama kot {elevation} m, eğim %{slope}',
+    preview: 'Yükseklik haritası (tabana göre)',
+    legend: '{min} m – {max} m',
+    gridNote: 'İki yüzey arasındaki hacim {cell} m aralıklı ızgarayla hesaplandı.',
+    disclaimer:
+      'Sonuçlar yüklenen noktaların yoğunluğu ve doğruluğu kadar güvenilirdir. Kesin hacim raporu için ekibimiz ölçümü yerinde yapar.',
+    requestQuote: 'SONUCU TALEBİNİZE EKLEYİN',
+    quoteMessage:
+      'Hacim hesaplayıcıyla ön hesap yaptım.\nDosya: {file}\nTaban: {base}\nTaban üstü: {above} m³, taban altı: {below} m³\nYatay alan: {area} m²\nYükseklik haritası ektedir.',
+    previewFileName: 'hacim-yukseklik-haritasi.png',
+    errors: {
+      collinear: 'Noktalar bir yüzey oluşturmuyor; tümü aynı doğru üzerinde.',
+      noOverlap: 'İki yüzey örtüşmüyor; aynı koordinat sisteminde olduklarını kontrol edin.',
+      tooLarge: 'Dosya en fazla {max} MB olabilir.',
+      invalidElevation: 'Geçerli bir taban kotu girin.',
+      referenceRequired: 'Referans yüzey dosyasını seçin.',
+      inReference: 'Referans yüzey: {error}',
+    },
+  },
+  email: {
+    footer: 'Bu e-posta HekaMap web sitesinden gönderilmiştir.',
+    fallbackSubject: 'Genel',
+    leadNotification: {
+      subject: 'İletişim Formu: {subject} [{leadId}]',
+      heading: 'Yeni Proje Talebi',
+      firstName: 'Ad',
+      lastName: 'Soyad',
+      email: 'E-posta',
+      phone: 'Telefon',
+      subjectLabel: 'Konu',
+      reference: 'Referans',
+      language: 'Dil',
+      message: 'Mesaj',
+      attachments: 'Ekler ({count})',
+      boundaries: 'Sınır dosyaları',
+      boundaryError: '{name}: okunamadı - {error}',
+      boundaryArea: '{name}: {area} ha',
+      boundaryPerimeter: 'çevre {perimeter} km',
+      boundaryShape: '{polygons} poligon, {vertices} köşe',
+      boundaryBBox: 'kutu {bbox}',
+    },
+    customerAcknowledgment: {
+      subject: 'Talebiniz alındı [{leadId}]',
+      preheader: 'Referans numaranız: {leadId}',
+      heading: 'Talebiniz bize ulaştı',
+      greeting: 'Merhaba {name},',
+      greetingFallback: 'değerli ziyaretçimiz',
+      intro: 'Proje talebiniz kaydedildi. Mühendislerimiz inceleyip size dönüş yapacak.',
+      reference: 'Referans numaranız',
+      subjectLabel: 'Konu',
+      message: 'Mesajınız',
+      responseTimes: 'Tahmini dönüş süreleri',
+      responseTime: { one: '{count} iş günü içinde', other: '{count} iş günü içinde' },
+      replyNote: 'Bu e-postayı yanıtlayarak talebinize ek bilgi gönderebilirsiniz.',
+    },
+    accountCreated: {
+      subject: 'HEKAMAP hesabınız oluşturuldu',
+      preheader: 'Hesabınızı etkinleştirmek için bağlantıya tıklayın',
+      heading: 'Hesabınız oluşturuldu',
+      greeting: 'Merhaba {name},',
+      greetingAnonymous: 'Merhaba,',
+      intro: 'HEKAMAP müşteri alanına hoş geldiniz. Hesabınızı etkinleştirmek için aşağıdaki bağlantıyı kullanın.',
+      button: 'Hesabı Etkinleştir',
+      note: 'Bağlantı {minutes} dakika geçerlidir. Bu işlemi siz başlatmadıysanız e-postayı yok sayabilirsiniz.',
+    },
+    passwordReset: {
+      subject: 'HEKAMAP şifre yenileme',
+      preheader: 'Şifrenizi yenilemek için bağlantıya tıklayın',
+      heading: 'Şifre yenileme talebi',
+      intro: 'Hesabınız için şifre yenileme talebi aldık. Yeni şifrenizi belirlemek için aşağıdaki bağlantıyı kullanın.',
+      button: 'Şifremi Yenile',
+      note: 'Bağlantı {minutes} dakika geçerlidir. Talep size ait değilse e-postayı yok sayabilirsiniz; şifreniz değişmeyecektir.',
+    },
+    magicLink: {
+      subject: 'HEKAMAP müşteri portalı giriş bağlantınız',
+      preheader: 'Portala giriş yapmak için bağlantıya tıklayın',
+      heading: 'Müşteri portalına giriş',
+      greeting: 'Merhaba {name},',
+      greetingAnonymous: 'Merhaba,',
+      intro: 'Müşteri portalına giriş yapmak için aşağıdaki bağlantıyı kullanın. Şifre gerekmez.',
+      button: 'Portala Giriş Yap',
+      note: 'Bağlantı {minutes} dakika geçerlidir ve yalnızca bir kez kullanılabilir. Giriş talebi size ait değilse e-postayı yok sayabilirsiniz.',
+    },
+    deliverablesReady: {
+      subject: '{project}: yeni teslimat dosyaları hazır',
+      preheader: '{project} projenize yeni dosyalar eklendi',
+      heading: 'Yeni teslimat',
+      greeting: 'Merhaba {name},',
+      greetingAnonymous: 'Merhaba,',
+      intro: '{project} projeniz için aşağıdaki dosyalar müşteri portalına yüklendi.',
+      files: 'Dosyalar',
+      button: 'Portalda Görüntüle',
+      note: 'Portala şifresiz, e-posta adresinize gelen giriş bağlantısıyla girebilirsiniz. İndirme bağlantıları portalda oluşturulur ve {hours} saat geçerlidir.',
+    },
+    surveyAppointment: {
+      greeting: 'Merhaba {name},',
+      when: 'Randevu',
+      reference: 'Randevu numarası',
+      kind: 'Keşif türü',
+      address: 'Adres',
+      client: 'Müşteri',
+      email: 'E-posta',
+      phone: 'Telefon',
+      lead: 'Talep',
+      notes: 'Müşterinin notu',
+      manage: 'Randevuyu Yönet',
+      calendarNote: 'Ekteki davet dosyasıyla randevuyu takviminize ekleyebilirsiniz. Saatler Türkiye saatidir ({zone}).',
+      cancelNote: 'Ekteki dosya etkinliği takviminizden kaldırır.',
+      confirmed: {
+        subject: 'Saha keşfi randevunuz onaylandı [{id}]',
+        staffSubject: 'Yeni saha keşfi: {when} [{id}]',
+        preheader: '{when}',
+        heading: 'Randevunuz onaylandı',
+        intro: 'Saha keşfi randevunuz oluşturuldu. Ekibimiz belirtilen saatte adreste olacak.',
+        staffIntro: 'Size yeni bir saha keşfi randevusu atandı.',
+      },
+      rescheduled: {
+        subject: 'Saha keşfi randevunuzun saati değişti [{id}]',
+        staffSubject: 'Saha keşfi saati değişti: {when} [{id}]',
+        preheader: 'Yeni saat: {when}',
+        heading: 'Randevu saati güncellendi',
+        intro: 'Saha keşfi randevunuz yeni saate taşındı.',
+        staffIntro: 'Size atanan saha keşfinin saati değişti.',
+      },
+      cancelled: {
+        subject: 'Saha keşfi randevunuz iptal edildi [{id}]',
+        staffSubject: 'Saha keşfi iptal edildi: {when} [{id}]',
+        preheader: 'İptal edilen randevu: {when}',
+        heading: 'Randevu iptal edildi',
+        intro: 'Saha keşfi randevunuz iptal edildi. Yeni bir randevu almak için web sitemizi ziyaret edebilirsiniz.',
+        staffIntro: 'Aşağıdaki saha keşfi artık takviminizde değil.',
+      },
+    },
+    quoteDocument: {
+      subject: 'HEKAMAP fiyat teklifi [{id}]',
+      preheader: 'Toplam {total}, {date} tarihine kadar geçerli',
+      heading: 'Fiyat teklifiniz',
+      greeting: 'Merhaba {name},',
+      intro: 'Talebiniz için hazırladığımız fiyat teklifi ekteki PDF belgesindedir.',
+      total: 'Genel toplam (KDV %{rate} dahil)',
+      reference: 'Teklif numarası',
+      validUntil: 'Geçerlilik',
+      services: 'Kapsam',
+      signature: 'Sorularınız için bu e-postayı yanıtlayabilirsiniz. Saygılarımızla, {name}',
+      note: 'Teklifi onaylamak için e-postayı yanıtlamanız yeterlidir; teklif numarasını belirtmeniz işlemleri hızlandırır.',
+    },
+  },
+};
+
+export type Messages = typeof tr;
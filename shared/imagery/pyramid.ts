@@ -0,0 +1,83 @@
+/**
+ * XYZ karo piramidi (scripts/build-tiles.js çıktısı)
+ * Seviye z'de görsel 2^(maxZoom - z) kat küçültülmüştür; maxZoom özgün çözünürlüktür.
+ * Karolar <taban>/{z}/{x}/{y}.<format> adresindedir, kenar karoları kalan genişlik kadardır.
+ */
+export interface TilePyramid {
+  width: number;
+  height: number;
+  tileSize: number;
+  maxZoom: number;
+  format: 'jpg' | 'png';
+}
+
+export interface TileRef {
+  z: number;
+  x: number;
+  y: number;
+  /** Karonun kapladığı alan, özgün görsel pikseli cinsinden */
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/** Görsel piksel dikdörtgeni */
+export interface ImageRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+const isPositiveInt = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+/** tiles.json içeriğini doğrular; beklenmeyen dosyada null döner */
+export function parseTilePyramid(raw: unknown): TilePyramid | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const { width, height, tileSize, maxZoom, format } = raw as Record<string, unknown>;
+  if (!isPositiveInt(width) || !isPositiveInt(height) || !isPositiveInt(tileSize)) return null;
+  if (!Number.isInteger(maxZoom) || (maxZoom as number) < 0 || (format !== 'jpg' && format !== 'png')) return null;
+  return { width, height, tileSize, maxZoom: maxZoom as number, format };
+}
+
+/**
+ * Ekranda bir görsel pikseline düşen cihaz pikseli sayısına göre çizilecek seviye.
+ * Bir alt seviye hafif büyütülerek kullanılabildiğinde (eşik 0.2) indirilecek karo sayısı dörtte birine iner.
+ */
+export function pyramidLevel(pyramid: TilePyramid, devicePixelsPerImagePixel: number): number {
+  const z = pyramid.maxZoom + Math.ceil(Math.log2(devicePixelsPerImagePixel) - 0.2);
+  return Math.min(pyramid.maxZoom, Math.max(0, z));
+}
+
+/** Verilen görsel alanıyla kesişen z seviyesi karoları */
+export function visibleTiles(pyramid: TilePyramid, z: number, rect: ImageRect): TileRef[] {
+  const span = pyramid.tileSize * 2 ** (pyramid.maxZoom - z);
+  const columns = Math.ceil(pyramid.width / span);
+  const rows = Math.ceil(pyramid.height / span);
+  const x0 = Math.max(0, Math.floor(rect.left / span));
+  const x1 = Math.min(columns - 1, Math.floor(rect.right / span));
+  const y0 = Math.max(0, Math.floor(rect.top / span));
+  const y1 = Math.min(rows - 1, Math.floor(rect.bottom / span));
+
+  const tiles: TileRef[] = [];
+  for (let x = x0; x <= x1; x++) {
+    for (let y = y0; y <= y1; y++) {
+      const left = x * span;
+      const top = y * span;
+      tiles.push({
+        z,
+        x,
+        y,
+        left,
+        top,
+        width: Math.min(span, pyramid.width - left),
+        height: Math.min(span, pyramid.height - top),
+      });
+    }
+  }
+  return tiles;
+}
+
+export const tileUrl = (base: string, pyramid: TilePyramid, tile: TileRef) =>
+  `${base}/${tile.z}/${tile.x}/${tile.y}.${pyramid.format}`;
@@ -0,0 +1,76 @@
+/**
+ * Talep yönetimi (/admin) - personelin talepleri süreç boyunca takip ettiği panel
+ * AdminPage (tarayıcı) ve functions/api/admin/* aynı tipleri kullanır.
+ */
+import type { AttachmentInfo } from './attachments';
+
+/** Süreç sırası: yeni -> arandı -> teklif verildi -> kazanıldı | kaybedildi */
+export const LEAD_STATUSES = ['new', 'called', 'quoted', 'won', 'lost'] as const;
+export type LeadStatus = (typeof LEAD_STATUSES)[number];
+
+export function isLeadStatus(value: unknown): value is LeadStatus {
+  return typeof value === 'string' && (LEAD_STATUSES as readonly string[]).includes(value);
+}
+
+/** Liste uçlarının sayfa boyu; istemci değiştiremez */
+export const ADMIN_PAGE_SIZE = 25;
+
+export const LEAD_NOTE_MAX_LENGTH = 2000;
+
+/** Sayfalı liste yanıtı; page 1'den başlar */
+export interface Paginated<T> {
+  items: T[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export interface StaffMember {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export interface AdminLeadSummary {
+  id: string;
+  name: string;
+  email: string;
+  subject: string;
+  status: LeadStatus;
+  assignee: StaffMember | null;
+  createdAt: string;
+}
+
+export interface AdminLeadDetail extends AdminLeadSummary {
+  phone: string;
+  message: string;
+  attachments: AttachmentInfo[];
+  locale: string;
+  statusUpdatedAt: string | null;
+}
+
+/** Liste süzgeçleri; tarihler Türkiye saatiyle YYYY-MM-DD, assignee 'none' atanmamışları getirir */
+export interface AdminLeadFilters {
+  status?: LeadStatus;
+  subject?: string;
+  from?: string;
+  to?: string;
+  assignee?: string;
+  q?: string;
+}
+
+/**
+ * Talep geçmişi: notlar ve denetim kayıtları tek zaman akışında.
+ * Atama kayıtlarında from/to personel hesabının kimliğidir, ad ayrıca gönderilir.
+ */
+export type LeadActivity =
+  | { id: string; kind: 'note'; actor: StaffMember; body: string; createdAt: string }
+  | { id: string; kind: 'status'; actor: StaffMember; from: LeadStatus | null; to: LeadStatus; createdAt: string }
+  | {
+      id: string;
+      kind: 'assignment';
+      actor: StaffMember;
+      from: StaffMember | null;
+      to: StaffMember | null;
+      createdAt: string;
+    };
@@ -0,0 +1,113 @@
+import type { LasPointSample } from './las';
+
+/** Nokta bulutu renklendirme kipleri; görüntüleyici her değişimde yalnızca renk tamponunu yeniler */
+export const COLOR_MODES = ['elevation', 'intensity', 'classification'] as const;
+export type ColorMode = (typeof COLOR_MODES)[number];
+
+type Rgb = [number, number, number];
+
+// Alçaktan yükseğe: mavi → camgöbeği → yeşil → sarı → kırmızı
+const ELEVATION_RAMP: Rgb[] = [
+  [30, 64, 175],
+  [14, 165, 233],
+  [34, 197, 94],
+  [250, 204, 21],
+  [220, 38, 38],
+];
+
+/** ASPRS standart sınıfları; listede olmayan kodlar UNKNOWN_CLASS rengini alır */
+export const CLASSIFICATION_COLORS: Record<number, Rgb> = {
+  0: [168, 162, 158],
+  1: [214, 211, 209],
+  2: [161, 98, 7],
+  3: [190, 242, 100],
+  4: [74, 222, 128],
+  5: [21, 128, 61],
+  6: [239, 68, 68],
+  7: [217, 70, 239],
+  9: [59, 130, 246],
+  10: [249, 115, 22],
+  11: [113, 113, 122],
+  13: [234, 179, 8],
+  14: [250, 204, 21],
+  15: [244, 114, 182],
+  17: [168, 85, 247],
+  18: [236, 72, 153],
+};
+const UNKNOWN_CLASS: Rgb = [120, 113, 108];
+
+const rampColor = (t: number): Rgb => {
+  const scaled = Math.min(1, Math.max(0, t)) * (ELEVATION_RAMP.length - 1);
+  const i = Math.min(ELEVATION_RAMP.length - 2, Math.floor(scaled));
+  const f = scaled - i;
+  const [a, b] = [ELEVATION_RAMP[i], ELEVATION_RAMP[i + 1]];
+  return [a[0] + (b[0] - a[0]) * f, a[1] + (b[1] - a[1]) * f, a[2] + (b[2] - a[2]) * f];
+};
+
+/**
+ * Değerlerin alt/üst yüzdelik dilimlerini döner. Yoğunlukta birkaç parlak yansıma (tabela, plaka)
+ * tüm aralığı kaplayıp sahneyi karartmasın diye renk aralığı uç değerler atılarak seçilir.
+ */
+function percentileRange(values: ArrayLike<number>, low: number, high: number): [number, number] {
+  const sorted = Float64Array.from(values).sort();
+  const pick = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * (sorted.length - 1)))];
+  const range: [number, number] = [pick(low), pick(high)];
+  return range[1] > range[0] ? range : [range[0], range[0] + 1];
+}
+
+/** WebGL'e normalize edilmiş UNSIGNED_BYTE olarak verilen rgb dizisi */
+export function colorizePoints(sample: LasPointSample, mode: ColorMode): Uint8Array {
+  const colors = new Uint8Array(sample.count * 3);
+  const set = (i: number, [r, g, b]: Rgb) => {
+    colors[i * 3] = r;
+    colors[i * 3 + 1] = g;
+    colors[i * 3 + 2] = b;
+  };
+
+  if (mode === 'classification') {
+    for (let i = 0; i < sample.count; i++) set(i, CLASSIFICATION_COLORS[sample.classification[i]] ?? UNKNOWN_CLASS);
+    return colors;
+  }
+
+  if (mode === 'intensity') {
+    const [min, max] = percentileRange(sample.intensity, 0.02, 0.98);
+    for (let i = 0; i < sample.count; i++) {
+      const v = Math.round(Math.min(1, Math.max(0, (sample.intensity[i] - min) / (max - min))) * 255);
+      set(i, [v, v, v]);
+    }
+    return colors;
+  }
+
+  const heights = new Float32Array(sample.count);
+  for (let i = 0; i < sample.count; i++) heights[i] = sample.positions[i * 3 + 2];
+  const [min, max] = percentileRange(heights, 0.01, 0.99);
+  for (let i = 0; i < sample.count; i++) set(i, rampColor((heights[i] - min) / (max - min)));
+  return colors;
+}
+
+/** Örnekte geçen sınıf kodları, artan sırada (lejant için) */
+export function presentClasses(sample: LasPointSample): number[] {
+  const seen = new Set<number>();
+  for (let i = 0; i < sample.count; i++) seen.add(sample.classification[i]);
+  return [...seen].sort((a, b) => a - b);
+}
+
+/**
+ * Yükseklik ızgarasını RGBA piksellere çevirir (satır 0 üstte); NaN hücreler saydamdır.
+ * Renk aralığı yükseklikteki gibi uç değerler atılarak seçilir ve lejant için döndürülür.
+ */
+export function heightMapPixels(heights: Float32Array): { pixels: Uint8ClampedArray; range: [number, number] } {
+  const pixels = new Uint8ClampedArray(heights.length * 4);
+  const finite = heights.filter((value) => !Number.isNaN(value));
+  if (finite.length === 0) return { pixels, range: [0, 0] };
+  const [min, max] = percentileRange(finite, 0.01, 0.99);
+  for (let i = 0; i < heights.length; i++) {
+    if (Number.isNaN(heights[i])) continue;
+    const [r, g, b] = rampColor((heights[i] - min) / (max - min));
+    pixels[i * 4] = r;
+    pixels[i * 4 + 1] = g;
+    pixels[i * 4 + 2] = b;
+    pixels[i * 4 + 3] = 255;
+  }
+  return { pixels, range: [min, max] };
+}
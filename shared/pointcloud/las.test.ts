@@ -0,0 +1,111 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { LasError, readLasHeader, readLasPoints, type LasErrorCode } from './las';
+import expected from './fixtures/points.json';
+
+// Dosyalar scripts/generate-las-fixtures.js ile üretilir; hepsinde points.json'daki beş nokta vardır
+function fixture(name: string): ArrayBuffer {
+  const file = readFileSync(new URL(`./fixtures/${name}`, import.meta.url));
+  return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
+}
+
+function patched(name: string, patch: (view: DataView) => void): ArrayBuffer {
+  const buffer = fixture(name);
+  patch(new DataView(buffer));
+  return buffer;
+}
+
+function errorCode(read: () => unknown): LasErrorCode | null {
+  try {
+    read();
+  } catch (err) {
+    if (err instanceof LasError) return err.code;
+    throw err;
+  }
+  return null;
+}
+
+const readAll = (buffer: ArrayBuffer) => readLasPoints(buffer, readLasHeader(buffer), Infinity);
+
+describe.each([
+  ['las12-format0.las', '1.2', 0, 20],
+  ['las12-format1.las', '1.2', 1, 28],
+  ['las12-format2.las', '1.2', 2, 26],
+  ['las12-format3.las', '1.2', 3, 34],
+  ['las14-format1-extra.las', '1.4', 1, 32],
+  ['las14-format6.las', '1.4', 6, 30],
+  ['las14-format7.las', '1.4', 7, 36],
+  ['las14-format8.las', '1.4', 8, 38],
+])('%s', (name, version, pointFormat, pointRecordLength) => {
+  it('başlık alanları okunur', () => {
+    const header = readLasHeader(fixture(name));
+    expect(header).toMatchObject({
+      version,
+      pointFormat,
+      pointRecordLength,
+      pointCount: expected.points.length,
+      systemIdentifier: 'HEKAMAP',
+      generatingSoftware: 'HekaMap test dosyasi',
+      createdOn: { year: 2026, dayOfYear: 32 },
+      scale: [0.001, 0.001, 0.001],
+      offset: [505000, 4258000, 0],
+    });
+    expect(header.min).toEqual([505000.125, 4258000.5, 40.875]);
+    expect(header.max).toEqual([505010, 4258008, 55.75]);
+  });
+
+  it('konum, yoğunluk ve sınıf okunur', () => {
+    const sample = readAll(fixture(name));
+    expect(sample.count).toBe(expected.points.length);
+    expected.points.forEach((point, i) => {
+      expect(sample.positions[i * 3] + sample.origin[0]).toBeCloseTo(point.x, 3);
+      expect(sample.positions[i * 3 + 1] + sample.origin[1]).toBeCloseTo(point.y, 3);
+      expect(sample.positions[i * 3 + 2] + sample.origin[2]).toBeCloseTo(point.z, 3);
+      expect(sample.intensity[i]).toBe(point.intensity);
+      expect(sample.classification[i]).toBe(point.classification);
+    });
+    expect(sample.zRange).toEqual([40.875, 55.75]);
+  });
+});
+
+describe('readLasPoints, seyreltme', () => {
+  it('bütçe kadar noktayı eşit aralıklarla alır', () => {
+    const sample = readLasPoints(fixture('las12-format0.las'), readLasHeader(fixture('las12-format0.las')), 2);
+    expect(sample.count).toBe(2);
+    // Adım 2,5: 0. ve 2. nokta
+    expect(Array.from(sample.intensity)).toEqual([expected.points[0].intensity, expected.points[2].intensity]);
+  });
+});
+
+describe('LAS hataları', () => {
+  it('signature: LASF imzası yok', () => {
+    const buffer = patched('las12-format0.las', (view) => view.setUint8(0, 'X'.charCodeAt(0)));
+    expect(errorCode(() => readLasHeader(buffer))).toBe('signature');
+  });
+
+  it('version: 2.0 ve 1.5 desteklenmez', () => {
+    expect(errorCode(() => readLasHeader(patched('las12-format0.las', (view) => view.setUint8(24, 2))))).toBe('version');
+    expect(errorCode(() => readLasHeader(patched('las14-format6.las', (view) => view.setUint8(25, 5))))).toBe('version');
+  });
+
+  it('compressed: LAZ işaretli nokta formatı', () => {
+    expect(errorCode(() => readLasHeader(fixture('laz12-format3.las')))).toBe('compressed');
+  });
+
+  it('format: sürümde olmayan format ya da kısa kayıt', () => {
+    expect(errorCode(() => readLasHeader(patched('las12-format0.las', (view) => view.setUint8(104, 6))))).toBe('format');
+    expect(errorCode(() => readLasHeader(patched('las12-format3.las', (view) => view.setUint16(105, 30, true))))).toBe('format');
+  });
+
+  it('truncated: başlıktan ya da nokta verisinden kısa dosya', () => {
+    expect(errorCode(() => readLasHeader(fixture('las12-format0.las').slice(0, 200)))).toBe('truncated');
+    expect(errorCode(() => readAll(fixture('las12-format0.las').slice(0, 227 + 4 * 20 + 10)))).toBe('truncated');
+    expect(errorCode(() => readAll(fixture('las14-format6.las').slice(0, 400)))).toBe('truncated');
+  });
+
+  it('empty: noktasız dosya', () => {
+    const buffer = fixture('las12-empty.las');
+    expect(readLasHeader(buffer).pointCount).toBe(0);
+    expect(errorCode(() => readAll(buffer))).toBe('empty');
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * ASPRS LAS 1.0–1.4 okuyucu (tarayıcı ve worker içinde çalışır, bağımlılığı yoktur)
+ * Yalnızca görüntüleme için gereken alanlar okunur: başlık, konum, yoğunluk ve sınıf.
+ * LAZ (LASzip) sıkıştırması tanınır ama çözülmez; aritmetik kodlayıcıyı taşımak ayrı bir
+ * kütüphane gerektirir, bu yüzden kullanıcıdan dosyayı LAS olarak dışa aktarması istenir.
+ */
+export type Vec3 = [number, number, number];
+
+export type LasErrorCode = 'signature' | 'version' | 'compressed' | 'format' | 'truncated' | 'empty';
+
+export class LasError extends Error {
+  constructor(
+    readonly code: LasErrorCode,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+export interface LasHeader {
+  /** "1.2" gibi */
+  version: string;
+  systemIdentifier: string;
+  generatingSoftware: string;
+  /** Dosyada yoksa (gün/yıl 0) null */
+  createdOn: { year: number; dayOfYear: number } | null;
+  pointFormat: number;
+  pointRecordLength: number;
+  pointCount: number;
+  pointDataOffset: number;
+  scale: Vec3;
+  offset: Vec3;
+  min: Vec3;
+  max: Vec3;
+}
+
+export interface LasPointSample {
+  header: LasHeader;
+  /** Okunan (seyreltilmiş) nokta sayısı */
+  count: number;
+  /**
+   * x,y,z dizisi; `origin` çıkarılmış metre değerleri. Projeksiyon koordinatları (ör. UTM'de
+   * 4 milyon metre) Float32'de santimetre hassasiyetini kaybeder, bu yüzden merkeze göre tutulur.
+   */
+  positions: Float32Array;
+  origin: Vec3;
+  intensity: Uint16Array;
+  /** ASPRS sınıf kodları (2 zemin, 6 bina ...) */
+  classification: Uint8Array;
+  /** Okunan noktaların gerçek z aralığı; başlıktaki sınırlar bazı yazılımlarda güncellenmez */
+  zRange: [number, number];
+}
+
+/** Nokta formatı → zorunlu kayıt uzunluğu (bayt); fazlası "extra bytes" olarak atlanır */
+const MIN_RECORD_LENGTH = [20, 28, 26, 34, 57, 63, 30, 36, 38, 59, 67];
+/** Sürüm alt numarası → desteklenen en yüksek nokta formatı */
+const MAX_FORMAT_BY_MINOR = [1, 1, 3, 5, 10];
+const LEGACY_HEADER_SIZE = 227;
+const LAS14_HEADER_SIZE = 375;
+
+const readString = (view: DataView, offset: number, length: number) => {
+  let text = '';
+  for (let i = 0; i < length; i++) {
+    const code = view.getUint8(offset + i);
+    if (code === 0) break;
+    text += String.fromCharCode(code);
+  }
+  return text.trim();
+};
+
+const readVec3 = (view: DataView, offset: number, stride = 8): Vec3 => [
+  view.getFloat64(offset, true),
+  view.getFloat64(offset + stride, true),
+  view.getFloat64(offset + stride * 2, true),
+];
+
+export function readLasHeader(buffer: ArrayBuffer): LasHeader {
+  if (buffer.byteLength < LEGACY_HEADER_SIZE) {
+    throw new LasError('truncated', 'Dosya LAS başlığından kısa');
+  }
+  const view = new DataView(buffer);
+  if (readString(view, 0, 4) !== 'LASF') {
+    throw new LasError('signature', 'LAS imzası (LASF) bulunamadı');
+  }
+
+  const major = view.getUint8(24);
+  const minor = view.getUint8(25);
+  if (major !== 1 || minor >= MAX_FORMAT_BY_MINOR.length) {
+    throw new LasError('version', `Desteklenmeyen LAS sürümü ${major}.${minor}`);
+  }
+
+  const headerSize = view.getUint16(94, true);
+  const formatByte = view.getUint8(104);
+  // LASzip sıkıştırılmış dosyalarda format numarasının üst iki bitini işaretler
+  if (formatByte & 0xc0) {
+    throw new LasError('compressed', 'LAZ (sıkıştırılmış) dosyalar desteklenmiyor');
+  }
+  const pointFormat = formatByte & 0x3f;
+  const pointRecordLength = view.getUint16(105, true);
+  if (pointFormat > MAX_FORMAT_BY_MINOR[minor] || pointRecordLength < MIN_RECORD_LENGTH[pointFormat]) {
+    throw new LasError('format', `LAS ${major}.${minor} için geçersiz nokta formatı ${pointFormat}`);
+  }
+
+  // 1.4'te 64 bit sayı esastır; eski alan 4 milyarı aşan veya 6+ formatlı dosyalarda 0 yazılır
+  let pointCount = view.getUint32(107, true);
+  if (minor >= 4 && headerSize >= LAS14_HEADER_SIZE && buffer.byteLength >= LAS14_HEADER_SIZE) {
+    pointCount = Number(view.getBigUint64(247, true)) || pointCount;
+  }
+
+  const year = view.getUint16(92, true);
+  const dayOfYear = view.getUint16(90, true);
+  // Sınırlar dosyada max x, min x, max y, min y ... sırasıyla yazılır
+  const max = readVec3(view, 179, 16);
+  const min = readVec3(view, 187, 16);
+
+  return {
+    version: `${major}.${minor}`,
+    systemIdentifier: readString(view, 26, 32),
+    generatingSoftware: readString(view, 58, 32),
+    createdOn: year > 0 ? { year, dayOfYear } : null,
+    pointFormat,
+    pointRecordLength,
+    pointCount,
+    pointDataOffset: view.getUint32(96, true),
+    scale: readVec3(view, 131),
+    offset: readVec3(view, 155),
+    min,
+    max,
+  };
+}
+
+/**
+ * Noktaları en fazla `budget` adet olacak şekilde eşit aralıklarla okur.
+ * Tarama sırası uçuş hattını izlediğinden sabit adımlı seyreltme alanı dengeli örnekler;
+ * aynı dosya ve bütçe her zaman aynı noktaları verir.
+ */
+export function readLasPoints(buffer: ArrayBuffer, header: LasHeader, budget: number): LasPointSample {
+  const { pointCount, pointDataOffset, pointRecordLength, pointFormat, scale, offset } = header;
+  if (pointCount === 0) {
+    throw new LasError('empty', 'Dosyada nokta yok');
+  }
+  if (pointDataOffset + pointCount * pointRecordLength > buffer.byteLength) {
+    throw new LasError('truncated', 'Nokta verisi başlıktaki sayıdan kısa; dosya eksik indirilmiş olabilir');
+  }
+
+  const count = Math.min(pointCount, Math.max(1, Math.floor(budget)));
+  const step = pointCount / count;
+  const view = new DataView(buffer);
+  const origin: Vec3 = [
+    (header.min[0] + header.max[0]) / 2,
+    (header.min[1] + header.max[1]) / 2,
+    (header.min[2] + header.max[2]) / 2,
+  ];
+
+  const positions = new Float32Array(count * 3);
+  const intensity = new Uint16Array(count);
+  const classification = new Uint8Array(count);
+  // 0-5 formatlarında sınıf 15. baytın alt 5 bitidir (üst bitler bayrak); 6+ formatlarda 16. bayt
+  const extended = pointFormat >= 6;
+  let zMin = Infinity;
+  let zMax = -Infinity;
+
+  for (let i = 0; i < count; i++) {
+    const base = pointDataOffset + Math.floor(i * step) * pointRecordLength;
+    const z = view.getInt32(base + 8, true) * scale[2] + offset[2];
+    positions[i * 3] = view.getInt32(base, true) * scale[0] + offset[0] - origin[0];
+    positions[i * 3 + 1] = view.getInt32(base + 4, true) * scale[1] + offset[1] - origin[1];
+    positions[i * 3 + 2] = z - origin[2];
+    intensity[i] = view.getUint16(base + 12, true);
+    classification[i] = extended ? view.getUint8(base + 16) : view.getUint8(base + 15) & 0x1f;
+    if (z < zMin) zMin = z;
+    if (z > zMax) zMax = z;
+  }
+
+  return { header, count, positions, origin, intensity, classification, zRange: [zMin, zMax] };
+}
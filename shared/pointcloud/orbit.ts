@@ -0,0 +1,92 @@
+import type { Vec3 } from './las';
+
+/**
+ * Yörünge (orbit) kamerası: hedef nokta çevresinde yatay açı (yaw), yükseklik açısı (pitch) ve uzaklık.
+ * LAS eksenleri kullanılır (x doğu, y kuzey, z yukarı); yaw 0'da kamera güneyden kuzeye bakar.
+ * Matrisler WebGL'in beklediği sütun öncelikli Float32Array'lerdir.
+ */
+export interface OrbitState {
+  target: Vec3;
+  yaw: number;
+  pitch: number;
+  distance: number;
+}
+
+const FIELD_OF_VIEW = Math.PI / 4;
+const MIN_PITCH = (5 * Math.PI) / 180;
+const MAX_PITCH = (89 * Math.PI) / 180;
+
+/** Bulutun tamamını gören başlangıç görünümü; `radius` sınır kutusunun yarı köşegeni */
+export const fitOrbit = (radius: number): OrbitState => ({
+  target: [0, 0, 0],
+  yaw: -Math.PI / 6,
+  pitch: Math.PI / 5,
+  distance: (radius / Math.tan(FIELD_OF_VIEW / 2)) * 0.8,
+});
+
+export const rotateOrbit = (state: OrbitState, dYaw: number, dPitch: number): OrbitState => ({
+  ...state,
+  yaw: state.yaw + dYaw,
+  pitch: Math.min(MAX_PITCH, Math.max(MIN_PITCH, state.pitch + dPitch)),
+});
+
+export const zoomOrbit = (state: OrbitState, factor: number, radius: number): OrbitState => ({
+  ...state,
+  distance: Math.min(radius * 8, Math.max(radius * 0.05, state.distance * factor)),
+});
+
+/** Ekran piksellerini hedefin bulunduğu derinlikte yer düzlemine taşır (harita gibi kaydırma) */
+export function panOrbit(state: OrbitState, dx: number, dy: number, viewportHeight: number): OrbitState {
+  const metersPerPixel = (2 * state.distance * Math.tan(FIELD_OF_VIEW / 2)) / viewportHeight;
+  const [sin, cos] = [Math.sin(state.yaw), Math.cos(state.yaw)];
+  const [tx, ty, tz] = state.target;
+  // Dikey sürükleme bakış yönünde ilerletir; yatay bakışta sıçramaması için eğim etkisi sınırlanır
+  const forward = (dy * metersPerPixel) / Math.max(0.3, Math.sin(state.pitch));
+  return {
+    ...state,
+    target: [tx - cos * dx * metersPerPixel - sin * forward, ty - sin * dx * metersPerPixel + cos * forward, tz],
+  };
+}
+
+export const orbitEye = ({ target, yaw, pitch, distance }: OrbitState): Vec3 => [
+  target[0] + distance * Math.cos(pitch) * Math.sin(yaw),
+  target[1] - distance * Math.cos(pitch) * Math.cos(yaw),
+  target[2] + distance * Math.sin(pitch),
+];
+
+const normalize = ([x, y, z]: Vec3): Vec3 => {
+  const length = Math.hypot(x, y, z) || 1;
+  return [x / length, y / length, z / length];
+};
+
+const cross = (a: Vec3, b: Vec3): Vec3 => [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+
+const dot = (a: Vec3, b: Vec3) => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+
+/** Perspektif × görünüm matrisi; yakın/uzak düzlemler uzaklığa göre seçilir ki derinlik hassasiyeti korunsun */
+export function orbitMatrix(state: OrbitState, aspect: number, radius: number): Float32Array {
+  const eye = orbitEye(state);
+  const forward = normalize([state.target[0] - eye[0], state.target[1] - eye[1], state.target[2] - eye[2]]);
+  const side = normalize(cross(forward, [0, 0, 1]));
+  const up = cross(side, forward);
+
+  const near = Math.max(0.01, state.distance - radius * 3, state.distance * 0.01);
+  const far = state.distance + radius * 3;
+  const f = 1 / Math.tan(FIELD_OF_VIEW / 2);
+  const [a, b] = [(far + near) / (near - far), (2 * far * near) / (near - far)];
+
+  // view satırları: side, up, -forward; öteleme -dot(eksen, eye)
+  const view = [
+    [side[0], side[1], side[2], -dot(side, eye)],
+    [up[0], up[1], up[2], -dot(up, eye)],
+    [-forward[0], -forward[1], -forward[2], dot(forward, eye)],
+  ];
+  const out = new Float32Array(16);
+  for (let col = 0; col < 4; col++) {
+    out[col * 4] = (f / aspect) * view[0][col];
+    out[col * 4 + 1] = f * view[1][col];
+    out[col * 4 + 2] = a * view[2][col] + (col === 3 ? b : 0);
+    out[col * 4 + 3] = -view[2][col];
+  }
+  return out;
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { buildTin, delaunay, gridFor, rasterizeTin, tinBounds, triangleArea } from './tin';
+
+/** Tekrarlanabilir sözde rastgele sayılar (LCG) */
+function random(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state * 1664525 + 1013904223) >>> 0;
+    return state / 2 ** 32;
+  };
+}
+
+/** UTM büyüklüğünde ötelenmiş rastgele x,y noktaları */
+function randomCoords(n: number, seed: number): Float64Array {
+  const next = random(seed);
+  const coords = new Float64Array(n * 2);
+  for (let i = 0; i < n; i++) {
+    coords[2 * i] = 500_000 + next() * 200;
+    coords[2 * i + 1] = 4_400_000 + next() * 100;
+  }
+  return coords;
+}
+
+function circumcircle(coords: Float64Array, a: number, b: number, c: number) {
+  const [ax, ay, bx, by, cx, cy] = [a, b, c].flatMap((i) => [coords[2 * i], coords[2 * i + 1]]);
+  const dx = bx - ax;
+  const dy = by - ay;
+  const ex = cx - ax;
+  const ey = cy - ay;
+  const d = 2 * (dx * ey - dy * ex);
+  const x = (ey * (dx * dx + dy * dy) - dy * (ex * ex + ey * ey)) / d;
+  const y = (dx * (ex * ex + ey * ey) - ex * (dx * dx + dy * dy)) / d;
+  return { x: ax + x, y: ay + y, r: Math.hypot(x, y) };
+}
+
+describe('delaunay', () => {
+  it('hiçbir üçgenin çevrel çemberi başka nokta içermez', () => {
+    const coords = randomCoords(400, 7);
+    const { triangles } = delaunay(coords);
+    let violations = 0;
+    for (let t = 0; t < triangles.length; t += 3) {
+      const { x, y, r } = circumcircle(coords, triangles[t], triangles[t + 1], triangles[t + 2]);
+      for (let i = 0; i < coords.length / 2; i++) {
+        if (Math.hypot(coords[2 * i] - x, coords[2 * i + 1] - y) < r - 1e-6) violations++;
+      }
+    }
+    expect(triangles.length).toBeGreaterThan(0);
+    expect(violations).toBe(0);
+  });
+
+  it('üçgen sayısı 2n - h - 2, alanlar zarfın alanına eşit', () => {
+    const coords = randomCoords(1000, 11);
+    const { triangles, hull } = delaunay(coords);
+    expect(triangles.length / 3).toBe(2 * 1000 - hull.length - 2);
+
+    const positions = new Float64Array(1000 * 3);
+    for (let i = 0; i < 1000; i++) {
+      positions[3 * i] = coords[2 * i];
+      positions[3 * i + 1] = coords[2 * i + 1];
+    }
+    let area = 0;
+    for (let t = 0; t < triangles.length; t += 3) area += triangleArea(positions, triangles[t], triangles[t + 1], triangles[t + 2]);
+    let hullArea = 0;
+    for (let k = 0; k < hull.length; k++) {
+      const i = hull[k];
+      const j = hull[(k + 1) % hull.length];
+      hullArea += (coords[2 * i] - 500_000) * (coords[2 * j + 1] - 4_400_000) - (coords[2 * j] - 500_000) * (coords[2 * i + 1] - 4_400_000);
+    }
+    expect(area).toBeCloseTo(Math.abs(hullArea) / 2, 6);
+  });
+
+  it('tekrar noktalar atlanır', () => {
+    const coords = new Float64Array([0, 0, 10, 0, 0, 10, 10, 10, 10, 10, 0, 0]);
+    const { triangles, hull } = delaunay(coords);
+    expect(triangles.length / 3).toBe(2);
+    expect(hull.length).toBe(4);
+  });
+
+  it('aynı doğru üzerindeki noktalarda üçgen yoktur', () => {
+    expect(delaunay(new Float64Array([0, 0, 1, 1, 2, 2, 3, 3])).triangles.length).toBe(0);
+    expect(buildTin({ count: 3, positions: new Float64Array([0, 0, 0, 1, 0, 0, 2, 0, 0]) })).toBeNull();
+  });
+});
+
+describe('rasterizeTin', () => {
+  it('doğrusal yüzeyi hücre merkezlerinde aynen örnekler, zarf dışı NaN kalır', () => {
+    // z = 2x + 3y, köşeleri (0,0), (10,0), (0,10) olan üçgen
+    const tin = buildTin({ count: 3, positions: new Float64Array([0, 0, 0, 10, 0, 20, 0, 10, 30]) })!;
+    const grid = gridFor(tinBounds(tin), 10);
+    expect(grid).toMatchObject({ width: 10, height: 10, cellSize: 1 });
+    const heights = rasterizeTin(tin, grid);
+    // Satır 0 kuzey kenarı: (9.5, 9.5) üçgen dışında, (0.5, 0.5) içinde
+    expect(heights[0 * 10 + 9]).toBeNaN();
+    expect(heights[9 * 10 + 0]).toBeCloseTo(2 * 0.5 + 3 * 0.5, 5);
+    expect(heights[5 * 10 + 3]).toBeCloseTo(2 * 3.5 + 3 * 4.5, 5);
+  });
+});
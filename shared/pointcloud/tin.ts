@@ -0,0 +1,415 @@
+/**
+ * Düzensiz üçgen ağı (TIN)
+ * Delaunay üçgenlemesi dışbükey zarf üzerinden süpürme yöntemiyle yapılır (Delaunator'daki algoritma):
+ * noktalar tohum üçgenin çevrel çemberinin merkezine uzaklığa göre sıralanır, her nokta zarfın
+ * görünen kenarlarına bağlanır ve Delaunay koşulunu bozan kenarlar çevrilir. Beklenen süre O(n log n).
+ * Koordinatlar mutlak metre değerleridir (ör. UTM); hesaplar farklar üzerinden yapıldığından
+ * büyük koordinatlarda hassasiyet kaybı olmaz.
+ */
+
+export interface PointSet {
+  count: number;
+  /** x,y,z dizisi (metre) */
+  positions: Float64Array;
+}
+
+export interface Tin {
+  points: PointSet;
+  /** Üçgen köşe indisleri, üçer üçer */
+  triangles: Uint32Array;
+  /** Dışbükey zarf köşeleri sırayla */
+  hull: Uint32Array;
+}
+
+const EPSILON = 2 ** -52;
+
+// Kenar çevirme yığını; yalnızca aşırı dejenere girdide dolabilir
+const EDGE_STACK = new Uint32Array(512);
+
+/** true ise p, q, r saat yönünün tersine dizilidir (r, pq doğrusunun solunda) */
+const orient = (px: number, py: number, qx: number, qy: number, rx: number, ry: number) =>
+  (qy - py) * (rx - qx) - (qx - px) * (ry - qy) < 0;
+
+/** p, abc üçgeninin çevrel çemberinin içinde mi */
+function inCircle(ax: number, ay: number, bx: number, by: number, cx: number, cy: number, px: number, py: number): boolean {
+  const dx = ax - px;
+  const dy = ay - py;
+  const ex = bx - px;
+  const ey = by - py;
+  const fx = cx - px;
+  const fy = cy - py;
+  const ap = dx * dx + dy * dy;
+  const bp = ex * ex + ey * ey;
+  const cp = fx * fx + fy * fy;
+  return dx * (ey * cp - bp * fy) - dy * (ex * cp - bp * fx) + ap * (ex * fy - ey * fx) < 0;
+}
+
+/** Çevrel çemberin merkezinin a'ya göre konumu; yarıçapın karesi x² + y² */
+function circumOffset(ax: number, ay: number, bx: number, by: number, cx: number, cy: number): { x: number; y: number } {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const ex = cx - ax;
+  const ey = cy - ay;
+  const bl = dx * dx + dy * dy;
+  const cl = ex * ex + ey * ey;
+  const d = 0.5 / (dx * ey - dy * ex);
+  return { x: (ey * bl - dy * cl) * d, y: (dx * cl - ex * bl) * d };
+}
+
+/** Açıyla aynı sırayı veren, trigonometri gerektirmeyen [0, 1) değeri */
+const pseudoAngle = (dx: number, dy: number) => {
+  const p = dx / (Math.abs(dx) + Math.abs(dy));
+  return (dy > 0 ? 3 - p : 1 + p) / 4;
+};
+
+/**
+ * x,y çiftlerinin Delaunay üçgenlemesi. Tüm noktalar aynı doğru üzerindeyse üçgen dizisi boştur.
+ * Aynı konumdaki tekrar noktalar atlanır.
+ */
+export function delaunay(coords: Float64Array): { triangles: Uint32Array; hull: Uint32Array } {
+  const n = coords.length >> 1;
+  const maxTriangles = Math.max(2 * n - 5, 0);
+  const triangles = new Uint32Array(maxTriangles * 3);
+  const halfedges = new Int32Array(maxTriangles * 3);
+  const hashSize = Math.ceil(Math.sqrt(n));
+  const hullPrev = new Uint32Array(n);
+  const hullNext = new Uint32Array(n);
+  const hullTri = new Uint32Array(n);
+  const hullHash = new Int32Array(hashSize).fill(-1);
+  const empty = { triangles: new Uint32Array(0), hull: new Uint32Array(0) };
+  if (n < 3) return empty;
+
+  let minX = Infinity;
+  let minY = Infinity;
+  let maxX = -Infinity;
+  let maxY = -Infinity;
+  for (let i = 0; i < n; i++) {
+    const x = coords[2 * i];
+    const y = coords[2 * i + 1];
+    if (x < minX) minX = x;
+    if (y < minY) minY = y;
+    if (x > maxX) maxX = x;
+    if (y > maxY) maxY = y;
+  }
+  const squaredDistance = (i: number, x: number, y: number) => (coords[2 * i] - x) ** 2 + (coords[2 * i + 1] - y) ** 2;
+
+  // Tohum üçgen: merkeze en yakın nokta, ona en yakın nokta ve en küçük çevrel çemberi veren üçüncü nokta
+  let i0 = 0;
+  let i1 = 0;
+  let i2 = 0;
+  let minDistance = Infinity;
+  for (let i = 0; i < n; i++) {
+    const d = squaredDistance(i, (minX + maxX) / 2, (minY + maxY) / 2);
+    if (d < minDistance) {
+      i0 = i;
+      minDistance = d;
+    }
+  }
+  const i0x = coords[2 * i0];
+  const i0y = coords[2 * i0 + 1];
+  minDistance = Infinity;
+  for (let i = 0; i < n; i++) {
+    if (i === i0) continue;
+    const d = squaredDistance(i, i0x, i0y);
+    if (d < minDistance && d > 0) {
+      i1 = i;
+      minDistance = d;
+    }
+  }
+  let i1x = coords[2 * i1];
+  let i1y = coords[2 * i1 + 1];
+  let minRadius = Infinity;
+  for (let i = 0; i < n; i++) {
+    if (i === i0 || i === i1) continue;
+    const { x, y } = circumOffset(i0x, i0y, i1x, i1y, coords[2 * i], coords[2 * i + 1]);
+    const r = x * x + y * y;
+    if (r < minRadius) {
+      i2 = i;
+      minRadius = r;
+    }
+  }
+  if (!Number.isFinite(minRadius)) return empty;
+  let i2x = coords[2 * i2];
+  let i2y = coords[2 * i2 + 1];
+
+  // Tohum üçgenin yönü sabitlenir; zarf yürüyüşleri bu yöne göredir
+  if (orient(i0x, i0y, i1x, i1y, i2x, i2y)) {
+    [i1, i2] = [i2, i1];
+    [i1x, i2x] = [i2x, i1x];
+    [i1y, i2y] = [i2y, i1y];
+  }
+  const offset = circumOffset(i0x, i0y, i1x, i1y, i2x, i2y);
+  const cx = i0x + offset.x;
+  const cy = i0y + offset.y;
+
+  const distances = new Float64Array(n);
+  for (let i = 0; i < n; i++) distances[i] = squaredDistance(i, cx, cy);
+  const ids = new Uint32Array(n);
+  for (let i = 0; i < n; i++) ids[i] = i;
+  ids.sort((a, b) => distances[a] - distances[b]);
+
+  const hashKey = (x: number, y: number) => Math.floor(pseudoAngle(x - cx, y - cy) * hashSize) % hashSize;
+
+  let hullStart = i0;
+  let hullSize = 3;
+  hullNext[i0] = hullPrev[i2] = i1;
+  hullNext[i1] = hullPrev[i0] = i2;
+  hullNext[i2] = hullPrev[i1] = i0;
+  hullTri[i0] = 0;
+  hullTri[i1] = 1;
+  hullTri[i2] = 2;
+  hullHash[hashKey(i0x, i0y)] = i0;
+  hullHash[hashKey(i1x, i1y)] = i1;
+  hullHash[hashKey(i2x, i2y)] = i2;
+
+  let trianglesLength = 0;
+  const link = (a: number, b: number) => {
+    halfedges[a] = b;
+    if (b !== -1) halfedges[b] = a;
+  };
+  const addTriangle = (a: number, b: number, c: number, ab: number, bc: number, ca: number) => {
+    const t = trianglesLength;
+    triangles[t] = a;
+    triangles[t + 1] = b;
+    triangles[t + 2] = c;
+    link(t, ab);
+    link(t + 1, bc);
+    link(t + 2, ca);
+    trianglesLength += 3;
+    return t;
+  };
+
+  // a kenarından başlayarak Delaunay koşulunu bozan kenarları çevirir
+  const legalize = (start: number) => {
+    let a = start;
+    let depth = 0;
+    let ar = 0;
+    for (;;) {
+      const b = halfedges[a];
+      const a0 = a - (a % 3);
+      ar = a0 + ((a + 2) % 3);
+      if (b === -1) {
+        if (depth === 0) break;
+        a = EDGE_STACK[--depth];
+        continue;
+      }
+      const b0 = b - (b % 3);
+      const al = a0 + ((a + 1) % 3);
+      const bl = b0 + ((b + 2) % 3);
+      const p0 = triangles[ar];
+      const pr = triangles[a];
+      const pl = triangles[al];
+      const p1 = triangles[bl];
+      const illegal = inCircle(
+        coords[2 * p0],
+        coords[2 * p0 + 1],
+        coords[2 * pr],
+        coords[2 * pr + 1],
+        coords[2 * pl],
+        coords[2 * pl + 1],
+        coords[2 * p1],
+        coords[2 * p1 + 1]
+      );
+      if (!illegal) {
+        if (depth === 0) break;
+        a = EDGE_STACK[--depth];
+        continue;
+      }
+      triangles[a] = p1;
+      triangles[b] = p0;
+      const hbl = halfedges[bl];
+      // Zarfın öbür ucundaki kenar çevrildiyse zarfın üçgen referansı düzeltilir
+      if (hbl === -1) {
+        let e = hullStart;
+        do {
+          if (hullTri[e] === bl) {
+            hullTri[e] = a;
+            break;
+          }
+          e = hullPrev[e];
+        } while (e !== hullStart);
+      }
+      link(a, hbl);
+      link(b, halfedges[ar]);
+      link(ar, bl);
+      const br = b0 + ((b + 1) % 3);
+      if (depth < EDGE_STACK.length) EDGE_STACK[depth++] = br;
+    }
+    return ar;
+  };
+
+  addTriangle(i0, i1, i2, -1, -1, -1);
+
+  let previousX = NaN;
+  let previousY = NaN;
+  for (let k = 0; k < n; k++) {
+    const i = ids[k];
+    const x = coords[2 * i];
+    const y = coords[2 * i + 1];
+    // Sıralı dizide tekrar noktalar art arda gelir
+    if (Math.abs(x - previousX) <= EPSILON && Math.abs(y - previousY) <= EPSILON) continue;
+    previousX = x;
+    previousY = y;
+    if (i === i0 || i === i1 || i === i2) continue;
+
+    // Açı karma tablosuyla noktadan görünen bir zarf kenarı bulunur
+    let start = 0;
+    for (let j = 0, key = hashKey(x, y); j < hashSize; j++) {
+      start = hullHash[(key + j) % hashSize];
+      if (start !== -1 && start !== hullNext[start]) break;
+    }
+    start = hullPrev[start];
+    let e = start;
+    let q = hullNext[e];
+    while (!orient(x, y, coords[2 * e], coords[2 * e + 1], coords[2 * q], coords[2 * q + 1])) {
+      e = q;
+      if (e === start) {
+        e = -1;
+        break;
+      }
+      q = hullNext[e];
+    }
+    // Görünen kenar yoksa nokta zarf üzerinde, neredeyse tekrar bir noktadır
+    if (e === -1) continue;
+
+    let t = addTriangle(e, i, hullNext[e], -1, -1, hullTri[e]);
+    hullTri[i] = legalize(t + 2);
+    hullTri[e] = t;
+    hullSize++;
+
+    // Zarf boyunca ileri ve geri yürüyerek görünen diğer kenarlar da bağlanır
+    let next = hullNext[e];
+    q = hullNext[next];
+    while (orient(x, y, coords[2 * next], coords[2 * next + 1], coords[2 * q], coords[2 * q + 1])) {
+      t = addTriangle(next, i, q, hullTri[i], -1, hullTri[next]);
+      hullTri[i] = legalize(t + 2);
+      hullNext[next] = next;
+      hullSize--;
+      next = q;
+      q = hullNext[next];
+    }
+    if (e === start) {
+      q = hullPrev[e];
+      while (orient(x, y, coords[2 * q], coords[2 * q + 1], coords[2 * e], coords[2 * e + 1])) {
+        t = addTriangle(q, i, e, -1, hullTri[e], hullTri[q]);
+        legalize(t + 2);
+        hullTri[q] = t;
+        hullNext[e] = e;
+        hullSize--;
+        e = q;
+        q = hullPrev[e];
+      }
+    }
+
+    hullStart = hullPrev[i] = e;
+    hullNext[e] = hullPrev[next] = i;
+    hullNext[i] = next;
+    hullHash[hashKey(x, y)] = i;
+    hullHash[hashKey(coords[2 * e], coords[2 * e + 1])] = e;
+  }
+
+  const hull = new Uint32Array(hullSize);
+  for (let i = 0, e = hullStart; i < hullSize; i++) {
+    hull[i] = e;
+    e = hullNext[e];
+  }
+  return { triangles: triangles.slice(0, trianglesLength), hull };
+}
+
+/** Noktalardan TIN kurar; üç noktadan azsa ya da noktalar aynı doğru üzerindeyse null */
+export function buildTin(points: PointSet): Tin | null {
+  const coords = new Float64Array(points.count * 2);
+  for (let i = 0; i < points.count; i++) {
+    coords[2 * i] = points.positions[3 * i];
+    coords[2 * i + 1] = points.positions[3 * i + 1];
+  }
+  const { triangles, hull } = delaunay(coords);
+  return triangles.length === 0 ? null : { points, triangles, hull };
+}
+
+/** Üçgenin yatay izdüşüm alanı (m², işaretsiz) */
+export function triangleArea(positions: Float64Array, a: number, b: number, c: number): number {
+  const ax = positions[3 * a];
+  const ay = positions[3 * a + 1];
+  return Math.abs((positions[3 * b] - ax) * (positions[3 * c + 1] - ay) - (positions[3 * c] - ax) * (positions[3 * b + 1] - ay)) / 2;
+}
+
+/** Düzenli ızgara; hücre (col, row) merkezi (minX + (col + 0.5) * cellSize, maxY - (row + 0.5) * cellSize) */
+export interface Grid {
+  minX: number;
+  maxY: number;
+  cellSize: number;
+  width: number;
+  height: number;
+}
+
+/** Verilen sınırları uzun kenarda en fazla maxCells hücreyle kaplayan ızgara */
+export function gridFor(bounds: { minX: number; minY: number; maxX: number; maxY: number }, maxCells: number): Grid {
+  const spanX = bounds.maxX - bounds.minX;
+  const spanY = bounds.maxY - bounds.minY;
+  const cellSize = Math.max(spanX, spanY) / maxCells || 1;
+  return {
+    minX: bounds.minX,
+    maxY: bounds.maxY,
+    cellSize,
+    width: Math.max(1, Math.ceil(spanX / cellSize)),
+    height: Math.max(1, Math.ceil(spanY / cellSize)),
+  };
+}
+
+export function tinBounds(tin: Tin): { minX: number; minY: number; maxX: number; maxY: number } {
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  for (const i of tin.hull) {
+    const x = tin.points.positions[3 * i];
+    const y = tin.points.positions[3 * i + 1];
+    bounds.minX = Math.min(bounds.minX, x);
+    bounds.minY = Math.min(bounds.minY, y);
+    bounds.maxX = Math.max(bounds.maxX, x);
+    bounds.maxY = Math.max(bounds.maxY, y);
+  }
+  return bounds;
+}
+
+/**
+ * TIN'i ızgaraya örnekler: her hücre merkezindeki yükseklik, içinde bulunduğu üçgenden doğrusal
+ * enterpolasyonla bulunur. TIN dışındaki hücreler NaN kalır. Satır 0 kuzey kenarıdır (görüntü sırası).
+ */
+export function rasterizeTin(tin: Tin, grid: Grid): Float32Array {
+  const values = new Float32Array(grid.width * grid.height).fill(NaN);
+  const { positions } = tin.points;
+  const { triangles } = tin;
+  for (let t = 0; t < triangles.length; t += 3) {
+    const a = triangles[t];
+    const b = triangles[t + 1];
+    const c = triangles[t + 2];
+    const ax = positions[3 * a];
+    const ay = positions[3 * a + 1];
+    const az = positions[3 * a + 2];
+    const bx = positions[3 * b] - ax;
+    const by = positions[3 * b + 1] - ay;
+    const bz = positions[3 * b + 2] - az;
+    const cx = positions[3 * c] - ax;
+    const cy = positions[3 * c + 1] - ay;
+    const cz = positions[3 * c + 2] - az;
+    const det = bx * cy - cx * by;
+    if (det === 0) continue;
+
+    const colMin = Math.max(0, Math.ceil((ax + Math.min(0, bx, cx) - grid.minX) / grid.cellSize - 0.5));
+    const colMax = Math.min(grid.width - 1, Math.floor((ax + Math.max(0, bx, cx) - grid.minX) / grid.cellSize - 0.5));
+    const rowMin = Math.max(0, Math.ceil((grid.maxY - (ay + Math.max(0, by, cy))) / grid.cellSize - 0.5));
+    const rowMax = Math.min(grid.height - 1, Math.floor((grid.maxY - (ay + Math.min(0, by, cy))) / grid.cellSize - 0.5));
+    // Komşu üçgenlerin ortak kenarındaki hücreler boşta kalmasın diye küçük bir tolerans
+    const tolerance = -1e-9;
+    for (let row = rowMin; row <= rowMax; row++) {
+      const py = grid.maxY - (row + 0.5) * grid.cellSize - ay;
+      for (let col = colMin; col <= colMax; col++) {
+        const px = grid.minX + (col + 0.5) * grid.cellSize - ax;
+        const u = (px * cy - cx * py) / det;
+        const v = (bx * py - px * by) / det;
+        if (u < tolerance || v < tolerance || u + v > 1 - tolerance) continue;
+        values[row * grid.width + col] = az + u * bz + v * cz;
+      }
+    }
+  }
+  return values;
+}
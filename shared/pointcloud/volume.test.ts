@@ -0,0 +1,144 @@
+import { describe, expect, it } from 'vitest';
+import { buildTin, type Tin } from './tin';
+import { computeVolume, fitPlane, planeHeight, planeSlopePercent, type Plane } from './volume';
+
+// Hesaplar mutlak koordinatla yapıldığından noktalar UTM büyüklüğünde ötelenir
+const E0 = 487_000;
+const N0 = 4_420_000;
+
+function tinOf(points: [number, number, number][]): Tin {
+  const tin = buildTin({ count: points.length, positions: new Float64Array(points.flat()) });
+  if (!tin) throw new Error('TIN kurulamadı');
+  return tin;
+}
+
+/** r yarıçaplı n köşeli çember halkası ve ortada h yüksekliğinde tepe; zemin verilen düzlem */
+function cone(r: number, h: number, n: number, ground: (x: number, y: number) => number = () => 0) {
+  const points: [number, number, number][] = [[E0, N0, ground(E0, N0) + h]];
+  for (let k = 0; k < n; k++) {
+    const x = E0 + r * Math.cos((2 * Math.PI * k) / n);
+    const y = N0 + r * Math.sin((2 * Math.PI * k) / n);
+    points.push([x, y, ground(x, y)]);
+  }
+  return points;
+}
+
+/** Kenarları 0..width, 0..depth olan düzenli nokta ızgarası */
+function lattice(width: number, depth: number, step: number, z: (x: number, y: number) => number) {
+  const points: [number, number, number][] = [];
+  for (let x = 0; x <= width; x += step) {
+    for (let y = 0; y <= depth; y += step) points.push([E0 + x, N0 + y, z(E0 + x, N0 + y)]);
+  }
+  return points;
+}
+
+/** n köşeli düzgün çokgen alanı */
+const polygonArea = (r: number, n: number) => (n / 2) * r * r * Math.sin((2 * Math.PI) / n);
+
+describe('computeVolume, yatay taban', () => {
+  it('koni: çokgen tabanlı piramit hacmi kesin, πr²h/3 değerine yakınsar', () => {
+    const [r, h, n] = [25, 8, 1000];
+    const result = computeVolume(tinOf(cone(r, h, n, () => 100)), { kind: 'elevation', elevation: 100 })!;
+    expect(result.above).toBeCloseTo((polygonArea(r, n) * h) / 3, 6);
+    expect(result.above / ((Math.PI * r * r * h) / 3)).toBeCloseTo(1, 4);
+    expect(result.below).toBeCloseTo(0, 9);
+    expect(result.area).toBeCloseTo(polygonArea(r, n), 6);
+    expect(result.gridCellSize).toBeNull();
+  });
+
+  it('koni tabanı kesen düzlem: üstte benzer küçük koni, altta kalan kesik koni', () => {
+    const [r, h, n] = [25, 8, 720];
+    const result = computeVolume(tinOf(cone(r, h, n, () => 100)), { kind: 'elevation', elevation: 104 })!;
+    const whole = (polygonArea(r, n) * h) / 3;
+    expect(result.above).toBeCloseTo(whole / 8, 6);
+    // Taban üstündeki ama yüzey altındaki hacim: silindir eksi koninin taban altında kalan kısmı
+    expect(result.below).toBeCloseTo(polygonArea(r, n) * 4 - (whole - whole / 8), 6);
+  });
+
+  it('kutu: 30×20 m düz yüzey 4 m yukarıda 2400 m³, alan 600 m²', () => {
+    const tin = tinOf(lattice(30, 20, 5, () => 54));
+    const result = computeVolume(tin, { kind: 'elevation', elevation: 50 })!;
+    expect(result.above).toBeCloseTo(2400, 6);
+    expect(result.below).toBeCloseTo(0, 9);
+    expect(result.area).toBeCloseTo(600, 6);
+    expect(computeVolume(tin, { kind: 'elevation', elevation: 56 })!.below).toBeCloseTo(1200, 6);
+  });
+
+  it('kesik piramit: h/3 (A1 + A2 + √(A1·A2))', () => {
+    // 40×40 taban, ortada 20×20 üst yüz, 6 m yükseklik
+    const points: [number, number, number][] = [];
+    for (const [x, y] of [[0, 0], [40, 0], [40, 40], [0, 40]]) points.push([E0 + x, N0 + y, 0]);
+    for (const [x, y] of [[10, 10], [30, 10], [30, 30], [10, 30]]) points.push([E0 + x, N0 + y, 6]);
+    const result = computeVolume(tinOf(points), { kind: 'elevation', elevation: 0 })!;
+    expect(result.above).toBeCloseTo((6 / 3) * (1600 + 400 + Math.sqrt(1600 * 400)), 6);
+  });
+});
+
+describe('computeVolume, en uygun düzlem tabanı', () => {
+  const ground = (x: number, y: number) => 120 + 0.05 * (x - E0) - 0.02 * (y - N0);
+
+  it('eğimli zeminde zarf noktalarından düzlem bulunur ve yığın hacmi kesin çıkar', () => {
+    const [r, h, n] = [20, 6, 360];
+    // Yığının çevresindeki zemin noktaları; halkanın içinde kalanlar alınmaz
+    const surrounding = lattice(100, 100, 10, ground)
+      .map(([x, y]): [number, number, number] => [x - 50, y - 50, ground(x - 50, y - 50)])
+      .filter(([x, y]) => Math.hypot(x - E0, y - N0) > r + 5);
+    const tin = tinOf([...cone(r, h, n, ground), ...surrounding]);
+    const result = computeVolume(tin, { kind: 'plane' })!;
+    expect(result.plane).not.toBeNull();
+    expect(result.plane!.slopeX).toBeCloseTo(0.05, 9);
+    expect(result.plane!.slopeY).toBeCloseTo(-0.02, 9);
+    expect(planeSlopePercent(result.plane!)).toBeCloseTo(Math.hypot(5, 2), 6);
+    expect(planeHeight(result.plane!, E0, N0)).toBeCloseTo(120, 6);
+    // Eğik zemin üzerindeki koni kesme ile aynı hacimdedir
+    expect(result.above).toBeCloseTo((polygonArea(r, n) * h) / 3, 5);
+    expect(result.below).toBeCloseTo(0, 6);
+  });
+
+  it('düzlem en küçük kareler çözümüdür; aynı doğrudaki noktalarda null', () => {
+    // Gürültüsüz düzlemde kesin, simetrik ±1 m gürültüde değişmez
+    const positions = new Float64Array([0, 0, 1, 10, 0, 3, 0, 10, 2, 10, 10, 4, 5, 5, 2.5]);
+    const plane = fitPlane({ count: 5, positions }, [0, 1, 2, 3, 4]) as Plane;
+    expect(plane.slopeX).toBeCloseTo(0.2, 12);
+    expect(plane.slopeY).toBeCloseTo(0.1, 12);
+    const noisy = new Float64Array([0, 0, 2, 10, 0, 2, 0, 10, 1, 10, 10, 5]);
+    const fitted = fitPlane({ count: 4, positions: noisy }, [0, 1, 2, 3])!;
+    expect(fitted.z0).toBeCloseTo(2.5, 12);
+    expect(fitted.slopeX).toBeCloseTo(0.2, 12);
+    expect(fitted.slopeY).toBeCloseTo(0.1, 12);
+    expect(fitPlane({ count: 3, positions: new Float64Array([0, 0, 0, 1, 1, 1, 2, 2, 5]) }, [0, 1, 2])).toBeNull();
+  });
+});
+
+describe('computeVolume, iki yüzey (ızgara yöntemi)', () => {
+  const reference = tinOf(lattice(100, 100, 10, () => 10));
+
+  it('eğik yüzeyde kazı ve dolgu eşit: her biri 0.1 · 50² / 2 · 100 = 12500 m³', () => {
+    const surface = tinOf(lattice(100, 100, 10, (x) => 10 + 0.1 * (x - E0 - 50)));
+    const result = computeVolume(surface, { kind: 'surface', reference })!;
+    expect(result.gridCellSize).toBeCloseTo(0.1, 9);
+    expect(result.above / 12500).toBeCloseTo(1, 4);
+    expect(result.below / 12500).toBeCloseTo(1, 4);
+    expect(result.area / 10000).toBeCloseTo(1, 6);
+    expect(result.plane).toBeNull();
+  });
+
+  it('yalnızca ortak alan hesaba girer; örtüşme yoksa null', () => {
+    const shifted = tinOf(lattice(100, 100, 10, () => 12).map(([x, y, z]): [number, number, number] => [x + 50, y, z]));
+    const result = computeVolume(shifted, { kind: 'surface', reference })!;
+    expect(result.area / 5000).toBeCloseTo(1, 6);
+    expect(result.above / 10000).toBeCloseTo(1, 4);
+
+    const apart = tinOf(lattice(100, 100, 10, () => 12).map(([x, y, z]): [number, number, number] => [x + 500, y, z]));
+    expect(computeVolume(apart, { kind: 'surface', reference })).toBeNull();
+  });
+
+  it('koni düz referansa göre kesin hacme hücre boyutu mertebesinde yakınsar', () => {
+    const [r, h, n] = [25, 8, 720];
+    const flat = tinOf([...cone(r + 5, 0, 8, () => 100), ...cone(r, 0, n, () => 100).slice(1)]);
+    const result = computeVolume(tinOf(cone(r, h, n, () => 100)), { kind: 'surface', reference: flat })!;
+    const exact = (polygonArea(r, n) * h) / 3;
+    expect(Math.abs(result.above - exact) / exact).toBeLessThan(0.005);
+    expect(result.below).toBeLessThan(0.01 * exact);
+  });
+});
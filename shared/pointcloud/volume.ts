@@ -0,0 +1,180 @@
+import { gridFor, rasterizeTin, tinBounds, triangleArea, type Grid, type PointSet, type Tin } from './tin';
+
+/**
+ * Hacim hesabı (yığın, kazı/dolgu)
+ * Yatay düzlem ve eğik düzlem tabanlarında hacim TIN üzerinden kesin hesaplanır: her üçgenin altındaki
+ * prizma, yüzeyin tabanı kestiği doğru boyunca bölünür. İki yüzey arasında ise iki TIN ortak
+ * bir ızgaraya örneklenir ve hücre farkları toplanır (ızgara yöntemi); hata hücre boyutuyla küçülür.
+ */
+
+export const VOLUME_BASE_KINDS = ['elevation', 'plane', 'surface'] as const;
+export type VolumeBaseKind = (typeof VOLUME_BASE_KINDS)[number];
+
+export type VolumeBase =
+  /** Sabit kotlu yatay düzlem */
+  | { kind: 'elevation'; elevation: number }
+  /** Yüzeyin kenar (zarf) noktalarından en küçük kareler düzlemi; yığının oturduğu zemini temsil eder */
+  | { kind: 'plane' }
+  /** İkinci yüzey (ör. önceki ölçüm ya da proje kotu) */
+  | { kind: 'surface'; reference: Tin };
+
+/** z = z0 + slopeX * (x - x0) + slopeY * (y - y0) */
+export interface Plane {
+  x0: number;
+  y0: number;
+  z0: number;
+  slopeX: number;
+  slopeY: number;
+}
+
+export interface VolumeResult {
+  /** Yüzeyin tabandan yukarıda kalan hacmi (yığın / dolgu), m³ */
+  above: number;
+  /** Yüzeyin tabandan aşağıda kalan hacmi (kazı), m³ */
+  below: number;
+  /** Hesaba giren yatay alan, m²; iki yüzeyde ortak alan */
+  area: number;
+  /** Düzlem tabanlarda kullanılan düzlem */
+  plane: Plane | null;
+  /** İki yüzey arasındaki hesabın ızgara aralığı, m; düzlem tabanlarda hesap kesin olduğundan null */
+  gridCellSize: number | null;
+  /** Önizleme ızgarası: hücre başına yüzeyin tabana göre yüksekliği, kapsam dışı NaN */
+  preview: { grid: Grid; heights: Float32Array };
+}
+
+// Önizleme uzun kenarda bu kadar pikseldir; iki yüzey farkı daha sık bir ızgarada hesaplanır
+const PREVIEW_CELLS = 400;
+const SURFACE_GRID_CELLS = 1000;
+
+export const planeHeight = (plane: Plane, x: number, y: number) =>
+  plane.z0 + plane.slopeX * (x - plane.x0) + plane.slopeY * (y - plane.y0);
+
+/** Düzlemin en büyük eğimi, yüzde */
+export const planeSlopePercent = (plane: Plane) => Math.hypot(plane.slopeX, plane.slopeY) * 100;
+
+/** Seçilen noktalardan en küçük kareler düzlemi; noktalar aynı doğru üzerindeyse null */
+export function fitPlane(points: PointSet, indices: ArrayLike<number>): Plane | null {
+  const { positions } = points;
+  const n = indices.length;
+  if (n < 3) return null;
+  let x0 = 0;
+  let y0 = 0;
+  let z0 = 0;
+  for (let k = 0; k < n; k++) {
+    const i = indices[k];
+    x0 += positions[3 * i] / n;
+    y0 += positions[3 * i + 1] / n;
+    z0 += positions[3 * i + 2] / n;
+  }
+  // Ağırlık merkezine göre normal denklemler: [sxx sxy; sxy syy] [a; b] = [sxz; syz]
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  let sxz = 0;
+  let syz = 0;
+  for (let k = 0; k < n; k++) {
+    const i = indices[k];
+    const dx = positions[3 * i] - x0;
+    const dy = positions[3 * i + 1] - y0;
+    const dz = positions[3 * i + 2] - z0;
+    sxx += dx * dx;
+    sxy += dx * dy;
+    syy += dy * dy;
+    sxz += dx * dz;
+    syz += dy * dz;
+  }
+  const det = sxx * syy - sxy * sxy;
+  if (det <= 1e-12 * (sxx * syy || 1)) return null;
+  return { x0, y0, z0, slopeX: (sxz * syy - syz * sxy) / det, slopeY: (syz * sxx - sxz * sxy) / det };
+}
+
+/**
+ * Köşe yükseklikleri (tabana göre) a, b, c olan doğrusal yüzeyin üçgen üzerindeki pozitif kısmının hacmi.
+ * Tek pozitif köşede pozitif bölge köşedeki küçük üçgendir; iki pozitif köşede toplamdan negatif köşedeki
+ * küçük üçgenin (negatif) hacmi çıkarılır.
+ */
+function positiveVolume(area: number, a: number, b: number, c: number): number {
+  [a, b, c] = [a, b, c].sort((p, q) => q - p);
+  if (c >= 0) return (area * (a + b + c)) / 3;
+  if (a <= 0) return 0;
+  if (b <= 0) return (area * a ** 3) / (3 * (a - b) * (a - c));
+  return (area * (a + b + c)) / 3 + (area * (-c) ** 3) / (3 * (a - c) * (b - c));
+}
+
+/** TIN ile düzlem arasındaki hacimler (kesin) */
+export function volumeAgainstPlane(tin: Tin, plane: Plane): { above: number; below: number; area: number } {
+  const { positions } = tin.points;
+  const { triangles } = tin;
+  const height = (i: number) => positions[3 * i + 2] - planeHeight(plane, positions[3 * i], positions[3 * i + 1]);
+  let above = 0;
+  let below = 0;
+  let area = 0;
+  for (let t = 0; t < triangles.length; t += 3) {
+    const [a, b, c] = [triangles[t], triangles[t + 1], triangles[t + 2]];
+    const triangle = triangleArea(positions, a, b, c);
+    const [ha, hb, hc] = [height(a), height(b), height(c)];
+    const positive = positiveVolume(triangle, ha, hb, hc);
+    above += positive;
+    below += positive - (triangle * (ha + hb + hc)) / 3;
+    area += triangle;
+  }
+  return { above, below, area };
+}
+
+/** Tabanın düzlemi; yatay tabanda eğim sıfırdır */
+export function basePlane(tin: Tin, base: Exclude<VolumeBase, { kind: 'surface' }>): Plane | null {
+  if (base.kind === 'plane') return fitPlane(tin.points, tin.hull);
+  const { minX, minY, maxX, maxY } = tinBounds(tin);
+  return { x0: (minX + maxX) / 2, y0: (minY + maxY) / 2, z0: base.elevation, slopeX: 0, slopeY: 0 };
+}
+
+/** İki TIN'in ortak ızgarada yükseklik farkı (surface - reference); ortak olmayan hücreler NaN */
+function differenceRaster(surface: Tin, reference: Tin, maxCells: number): { grid: Grid; heights: Float32Array } | null {
+  const a = tinBounds(surface);
+  const b = tinBounds(reference);
+  const overlap = {
+    minX: Math.max(a.minX, b.minX),
+    minY: Math.max(a.minY, b.minY),
+    maxX: Math.min(a.maxX, b.maxX),
+    maxY: Math.min(a.maxY, b.maxY),
+  };
+  if (overlap.minX >= overlap.maxX || overlap.minY >= overlap.maxY) return null;
+  const grid = gridFor(overlap, maxCells);
+  const heights = rasterizeTin(surface, grid);
+  const referenceHeights = rasterizeTin(reference, grid);
+  for (let i = 0; i < heights.length; i++) heights[i] -= referenceHeights[i];
+  return { grid, heights };
+}
+
+/** Yüzeyin seçilen tabana göre hacmi; iki yüzey örtüşmüyorsa ya da düzlem kurulamıyorsa null */
+export function computeVolume(surface: Tin, base: VolumeBase): VolumeResult | null {
+  if (base.kind === 'surface') {
+    const difference = differenceRaster(surface, base.reference, SURFACE_GRID_CELLS);
+    const preview = differenceRaster(surface, base.reference, PREVIEW_CELLS);
+    if (!difference || !preview) return null;
+    const cellArea = difference.grid.cellSize ** 2;
+    let above = 0;
+    let below = 0;
+    let cells = 0;
+    for (const height of difference.heights) {
+      if (Number.isNaN(height)) continue;
+      cells++;
+      if (height > 0) above += height * cellArea;
+      else below -= height * cellArea;
+    }
+    if (cells === 0) return null;
+    return { above, below, area: cells * cellArea, plane: null, gridCellSize: difference.grid.cellSize, preview };
+  }
+
+  const plane = basePlane(surface, base);
+  if (!plane) return null;
+  const grid = gridFor(tinBounds(surface), PREVIEW_CELLS);
+  const heights = rasterizeTin(surface, grid);
+  for (let row = 0; row < grid.height; row++) {
+    const y = grid.maxY - (row + 0.5) * grid.cellSize;
+    for (let col = 0; col < grid.width; col++) {
+      heights[row * grid.width + col] -= planeHeight(plane, grid.minX + (col + 0.5) * grid.cellSize, y);
+    }
+  }
+  return { ...volumeAgainstPlane(surface, plane), plane, gridCellSize: null, preview: { grid, heights } };
+}
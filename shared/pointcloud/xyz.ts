@@ -0,0 +1,55 @@
+import type { PointSet } from './tin';
+
+/**
+ * XYZ / CSV nokta dosyası okuyucu
+ * Satır biçimi: x y z ya da nokta adı, x, y, z; sonraki sütunlar (renk, sınıf...) yok sayılır.
+ * Ayraç boşluk, sekme, virgül ya da noktalı virgül olabilir; noktalı virgüllü dosyalarda ondalık virgül kabul edilir.
+ * Başlık ve # ile başlayan yorum satırları atlanır.
+ */
+
+export type XyzErrorCode = 'empty';
+
+export interface XyzPoints extends PointSet {
+  /** Sayı okunamadığı için atlanan satırlar (başlık hariç) */
+  skipped: number;
+}
+
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/** Noktaları en fazla `budget` adet olacak şekilde eşit aralıklarla seyreltir (LAS okuyucudaki gibi) */
+export function readXyzPoints(text: string, budget: number): XyzPoints | XyzErrorCode {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const values: number[] = [];
+  let skipped = 0;
+  let sawData = false;
+
+  for (const raw of lines) {
+    const line = raw.trim();
+    if (line === '' || line.startsWith('#') || line.startsWith('//')) continue;
+    const semicolon = line.includes(';');
+    const fields = (semicolon ? line.split(';') : line.split(/[\s,]+/)).map((field) => field.trim());
+    // Adı olan satırda ilk sütun sayı değildir
+    const first = NUMBER.test(semicolon ? fields[0].replace(',', '.') : fields[0]) ? 0 : 1;
+    const coordinates = fields.slice(first, first + 3).map((field) => (semicolon ? field.replace(',', '.') : field));
+    if (coordinates.length < 3 || !coordinates.every((field) => NUMBER.test(field))) {
+      // İlk veri satırından önce gelen sayısal olmayan satır başlıktır
+      if (sawData) skipped++;
+      continue;
+    }
+    sawData = true;
+    values.push(Number(coordinates[0]), Number(coordinates[1]), Number(coordinates[2]));
+  }
+
+  const total = values.length / 3;
+  if (total === 0) return 'empty';
+  const count = Math.min(total, Math.max(1, Math.floor(budget)));
+  const step = total / count;
+  const positions = new Float64Array(count * 3);
+  for (let i = 0; i < count; i++) {
+    const source = Math.floor(i * step) * 3;
+    positions[i * 3] = values[source];
+    positions[i * 3 + 1] = values[source + 1];
+    positions[i * 3 + 2] = values[source + 2];
+  }
+  return { count, positions, skipped };
+}
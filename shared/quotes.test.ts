@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { QUOTE_LIMITS, VAT_RATES, calculateQuoteTotals, lineTotalKurus, roundHalfAwayFromZero, validateQuoteInput } from './quotes';
+import { SERVICE_IDS } from './services';
+
+describe('roundHalfAwayFromZero', () => {
+  it('yarım kuruşu sıfırdan uzağa yuvarlar', () => {
+    expect(roundHalfAwayFromZero(0.5)).toBe(1);
+    expect(roundHalfAwayFromZero(2.5)).toBe(3);
+    expect(roundHalfAwayFromZero(-0.5)).toBe(-1);
+    expect(roundHalfAwayFromZero(-2.5)).toBe(-3);
+    expect(roundHalfAwayFromZero(2.4999)).toBe(2);
+    expect(roundHalfAwayFromZero(0)).toBe(0);
+  });
+});
+
+describe('lineTotalKurus', () => {
+  it('yarım kuruşu yukarı yuvarlar', () => {
+    expect(lineTotalKurus({ quantity: 0.5, unitPriceKurus: 1 })).toBe(1);
+    expect(lineTotalKurus({ quantity: 2.5, unitPriceKurus: 1 })).toBe(3);
+    expect(lineTotalKurus({ quantity: 0.25, unitPriceKurus: 2 })).toBe(1);
+    expect(lineTotalKurus({ quantity: 0.249, unitPriceKurus: 2 })).toBe(0);
+  });
+
+  it('kesirli miktarlarda ikili gösterim hatası yuvarlamayı bozmaz', () => {
+    // 0.1 * 3 = 0.30000000000000004; 1.005 * 100 = 100.49999999999999
+    expect(lineTotalKurus({ quantity: 0.1 * 3, unitPriceKurus: 1000 })).toBe(300);
+    expect(lineTotalKurus({ quantity: 0.1, unitPriceKurus: 3 })).toBe(0);
+    expect(lineTotalKurus({ quantity: 0.1, unitPriceKurus: 5 })).toBe(1);
+    expect(lineTotalKurus({ quantity: 1.005, unitPriceKurus: 100 })).toBe(101);
+    expect(lineTotalKurus({ quantity: 12.375, unitPriceKurus: 1_250_050 })).toBe(15_469_369);
+  });
+
+  it('büyük çarpımlarda hassasiyet kaybolmaz', () => {
+    const item = { quantity: QUOTE_LIMITS.maxQuantity, unitPriceKurus: QUOTE_LIMITS.maxUnitPriceKurus - 1 };
+    expect(lineTotalKurus(item)).toBe(Number(BigInt(QUOTE_LIMITS.maxQuantity) * BigInt(QUOTE_LIMITS.maxUnitPriceKurus - 1)));
+  });
+});
+
+describe('calculateQuoteTotals', () => {
+  const items = [
+    { quantity: 12.5, unitPriceKurus: 450_000 },
+    { quantity: 3, unitPriceKurus: 1_999 },
+    { quantity: 0.333, unitPriceKurus: 1_001 },
+  ];
+  // 5.625.000 + 5.997 + 333,333 -> 333
+  const subtotal = 5_631_330;
+
+  it.each([
+    [20, 1_126_266],
+    [10, 563_133],
+    [1, 56_313],
+    [0, 0],
+  ])('KDV %%%i ara toplam üzerinden bir kez hesaplanır', (rate, vat) => {
+    const totals = calculateQuoteTotals(items, rate);
+    expect(totals.lineTotals).toEqual([5_625_000, 5_997, 333]);
+    expect(totals.subtotal).toBe(subtotal);
+    expect(totals.vat).toBe(vat);
+    expect(totals.total).toBe(subtotal + vat);
+  });
+
+  it('tüm oranlar listede; KDV yarım kuruşu yukarı yuvarlanır', () => {
+    expect([...VAT_RATES]).toEqual([20, 10, 1, 0]);
+    // 12.345 kuruş: %10 -> 1234,5; %1 -> 123,45; %20 -> 2469
+    const subtotalItem = [{ quantity: 1, unitPriceKurus: 12_345 }];
+    expect(calculateQuoteTotals(subtotalItem, 10).vat).toBe(1_235);
+    expect(calculateQuoteTotals(subtotalItem, 1).vat).toBe(123);
+    expect(calculateQuoteTotals(subtotalItem, 20).vat).toBe(2_469);
+    expect(calculateQuoteTotals([{ quantity: 1, unitPriceKurus: 50 }], 1).vat).toBe(1);
+  });
+
+  it('kalem kalem yuvarlanan KDV ile fark oluşan durumda ara toplam esas alınır', () => {
+    // Kalem başına %10 KDV: 0,5 + 0,5 -> 1 + 1 = 2; ara toplamda 10 * %10 = 1
+    const totals = calculateQuoteTotals(
+      [
+        { quantity: 1, unitPriceKurus: 5 },
+        { quantity: 1, unitPriceKurus: 5 },
+      ],
+      10
+    );
+    expect(totals.vat).toBe(1);
+  });
+});
+
+describe('validateQuoteInput', () => {
+  const today = '2026-03-01';
+  const input = (items: Array<{ quantity: number; unitPriceKurus: number }>) => ({
+    customer: { name: 'Örnek Madencilik A.Ş.', email: 'satinalma@example.com' },
+    items: items.map((item) => ({ ...item, serviceId: SERVICE_IDS.HARITA, unit: 'hektar', description: 'Halihazır harita' })),
+    vatRate: 20,
+    validUntil: '2026-03-31',
+  });
+
+  it('ara toplam sınırına kadar kabul eder; KDV dahil toplam güvenli tam sayı kalır', () => {
+    const atLimit = QUOTE_LIMITS.maxSubtotalKurus / QUOTE_LIMITS.maxUnitPriceKurus;
+    const result = validateQuoteInput(input([{ quantity: atLimit, unitPriceKurus: QUOTE_LIMITS.maxUnitPriceKurus }]), today);
+    expect(result.ok).toBe(true);
+    if (result.ok === false) return;
+    const totals = calculateQuoteTotals(result.data.items, result.data.vatRate);
+    expect(totals.subtotal).toBe(QUOTE_LIMITS.maxSubtotalKurus);
+    expect(Number.isSafeInteger(totals.total)).toBe(true);
+    expect(totals.vat).toBe(QUOTE_LIMITS.maxSubtotalKurus / 5);
+  });
+
+  it('sınırı bir kuruş aşan ara toplamı reddeder', () => {
+    const atLimit = QUOTE_LIMITS.maxSubtotalKurus / QUOTE_LIMITS.maxUnitPriceKurus;
+    const result = validateQuoteInput(
+      input([
+        { quantity: atLimit, unitPriceKurus: QUOTE_LIMITS.maxUnitPriceKurus },
+        { quantity: 1, unitPriceKurus: 1 },
+      ]),
+      today
+    );
+    expect(result).toEqual({ ok: false, error: 'Teklif toplamı çok büyük' });
+  });
+
+  it('miktarı üç ondalığa yuvarlar, sınır dışı miktar ve fiyatı reddeder', () => {
+    const result = validateQuoteInput(input([{ quantity: 0.1 * 3, unitPriceKurus: 100 }]), today);
+    expect(result.ok && result.data.items[0].quantity).toBe(0.3);
+    expect(validateQuoteInput(input([{ quantity: 0, unitPriceKurus: 100 }]), today).ok).toBe(false);
+    expect(validateQuoteInput(input([{ quantity: QUOTE_LIMITS.maxQuantity + 1, unitPriceKurus: 100 }]), today).ok).toBe(false);
+    expect(validateQuoteInput(input([{ quantity: 1, unitPriceKurus: 10.5 }]), today).ok).toBe(false);
+    expect(validateQuoteInput(input([{ quantity: 1, unitPriceKurus: QUOTE_LIMITS.maxUnitPriceKurus + 1 }]), today).ok).toBe(false);
+  });
+
+  it('desteklenmeyen KDV oranını reddeder', () => {
+    expect(validateQuoteInput({ ...input([{ quantity: 1, unitPriceKurus: 100 }]), vatRate: 18 }, today)).toEqual({
+      ok: false,
+      error: 'Geçersiz KDV oranı',
+    });
+  });
+});
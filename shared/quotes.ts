@@ -0,0 +1,222 @@
+/**
+ * Fiyat teklifleri - kalemler, KDV ve toplamlar
+ * QuotePage (tarayıcı) önizlemede, functions/api/admin/quotes* kayıt ve PDF'te aynı hesabı kullanır;
+ * ekranda görünen toplam ile PDF'teki toplam birbirinden kopamaz.
+ * Tutarlar kuruş cinsinden tam sayıdır; kayan nokta hatası toplamlara taşınmaz.
+ */
+import { isValidEmail } from './contact';
+import { isServiceId, type ServiceId } from './services';
+import { LOCALE_TAGS, type Locale } from './i18n';
+
+export const QUOTE_UNITS = ['hektar', 'nokta-m2', 'parsel', 'gun'] as const;
+export type QuoteUnit = (typeof QUOTE_UNITS)[number];
+
+export function isQuoteUnit(value: unknown): value is QuoteUnit {
+  return typeof value === 'string' && (QUOTE_UNITS as readonly string[]).includes(value);
+}
+
+/** Türkiye'de uygulanan KDV oranları (%); mühendislik hizmetleri genel orana tabidir */
+export const VAT_RATES = [20, 10, 1, 0] as const;
+export type VatRate = (typeof VAT_RATES)[number];
+export const DEFAULT_VAT_RATE: VatRate = 20;
+
+export function isVatRate(value: unknown): value is VatRate {
+  return typeof value === 'number' && (VAT_RATES as readonly number[]).includes(value);
+}
+
+/** Teklifin varsayılan geçerlilik süresi */
+export const QUOTE_VALIDITY_DAYS = 30;
+
+/** Teklif tarihleri ve numaradaki yıl Türkiye saatine göredir */
+export const QUOTE_TIME_ZONE = 'Europe/Istanbul';
+
+export const QUOTE_LIMITS = {
+  items: 30,
+  description: 300,
+  terms: 3000,
+  customerName: 120,
+  customerAddress: 300,
+  /** Miktar en fazla 3 ondalık basamakla tutulur (ör. 12,375 hektar) */
+  quantityDecimals: 3,
+  maxQuantity: 10_000_000,
+  /** Birim fiyat üst sınırı (kuruş): 100 milyon TL */
+  maxUnitPriceKurus: 10_000_000_000,
+  /** Ara toplam üst sınırı (kuruş): 1 trilyon TL; KDV çarpımı güvenli tam sayı aralığında kalır */
+  maxSubtotalKurus: 100_000_000_000_000,
+} as const;
+
+export interface QuoteLineItem {
+  serviceId: ServiceId;
+  description: string;
+  quantity: number;
+  unit: QuoteUnit;
+  /** KDV hariç birim fiyat, kuruş */
+  unitPriceKurus: number;
+}
+
+export interface QuoteCustomer {
+  name: string;
+  email: string;
+  company: string;
+  address: string;
+}
+
+export interface QuoteInput {
+  leadId: string | null;
+  customer: QuoteCustomer;
+  items: QuoteLineItem[];
+  vatRate: VatRate;
+  /** YYYY-MM-DD, Türkiye saatiyle o günün sonuna kadar geçerli */
+  validUntil: string;
+  terms: string;
+  locale: Locale;
+}
+
+export interface QuoteTotals {
+  /** Kalem tutarları (kuruş), items ile aynı sırada */
+  lineTotals: number[];
+  subtotal: number;
+  vat: number;
+  total: number;
+}
+
+export type QuoteStatus = 'draft' | 'sent';
+
+export interface QuoteRecord extends QuoteInput, QuoteTotals {
+  /** Sıralı teklif numarası: TKL-2026-0007 */
+  id: string;
+  status: QuoteStatus;
+  createdBy: { id: string; name: string; email: string } | null;
+  createdAt: string;
+  sentAt: string | null;
+}
+
+/** Kuruşa yuvarlama: yarım kuruş sıfırdan uzağa yuvarlanır (Vergi Usul Kanunu uygulamasıyla aynı) */
+export function roundHalfAwayFromZero(value: number): number {
+  return Math.sign(value) * Math.round(Math.abs(value));
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const QUANTITY_SCALE = 10 ** QUOTE_LIMITS.quantityDecimals;
+
+/**
+ * Kalem tutarı = miktar × birim fiyat, kuruşa yarım yukarı yuvarlanmış.
+ * Miktar binde bire ölçeklenip BigInt ile çarpılır; 0,1 × 3 gibi ikili gösterim hataları ve
+ * büyük çarpımların hassasiyet kaybı yuvarlamayı bozmaz. Miktar ve fiyat negatif olamaz.
+ */
+export function lineTotalKurus(item: Pick<QuoteLineItem, 'quantity' | 'unitPriceKurus'>): number {
+  const product = BigInt(Math.round(item.quantity * QUANTITY_SCALE)) * BigInt(item.unitPriceKurus);
+  const scale = BigInt(QUANTITY_SCALE);
+  return Number((product * BigInt(2) + scale) / (scale * BigInt(2)));
+}
+
+/**
+ * Toplamlar: KDV kalem kalem değil, ara toplam üzerinden bir kez hesaplanır ve kuruşa yuvarlanır;
+ * faturadaki KDV satırıyla aynı sonucu verir.
+ */
+export function calculateQuoteTotals(items: Array<Pick<QuoteLineItem, 'quantity' | 'unitPriceKurus'>>, vatRate: number): QuoteTotals {
+  const lineTotals = items.map(lineTotalKurus);
+  const subtotal = lineTotals.reduce((sum, value) => sum + value, 0);
+  const vat = roundHalfAwayFromZero((subtotal * vatRate) / 100);
+  return { lineTotals, subtotal, vat, total: subtotal + vat };
+}
+
+/**
+ * 1234567 kuruş -> "12.345,67 TL" (tr) / "12,345.67 TL" (en)
+ * ₺ simgesi yerine TL yazılır: PDF'in standart fontlarında ₺ glifi yoktur, ekran ile belge aynı görünür.
+ */
+export function formatKurus(kurus: number, locale: Locale): string {
+  const amount = (kurus / 100).toLocaleString(LOCALE_TAGS[locale], { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${amount} TL`;
+}
+
+/** Teklif tarihleri Türkiye saatiyle gösterilir; YYYY-MM-DD ya da ISO zaman damgası kabul eder */
+export function formatQuoteDate(value: string, locale: Locale): string {
+  const date = new Date(DATE_PATTERN.test(value) ? `${value}T12:00:00+03:00` : value);
+  return date.toLocaleDateString(LOCALE_TAGS[locale], { dateStyle: 'long', timeZone: QUOTE_TIME_ZONE });
+}
+
+/** Türkiye saatiyle gün (YYYY-MM-DD), isteğe bağlı gün eklenerek; geçerlilik tarihi bununla karşılaştırılır */
+export function quoteDayKey(date: Date, addDays = 0): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: QUOTE_TIME_ZONE, year: 'numeric', month: '2-digit', day: '2-digit' }).format(
+    new Date(date.getTime() + addDays * 24 * 60 * 60 * 1000)
+  );
+}
+
+/** Formdaki "1.250,50", "1250,5" ya da "1250.50" gibi TL değerini kuruşa çevirir; geçersizse null */
+export function parseLiraToKurus(value: string): number | null {
+  let normalized = value.replace(/\s/g, '');
+  if (normalized.includes(',')) {
+    // Türkçe yazım: nokta binlik, virgül ondalık ayracı
+    normalized = normalized.replace(/\./g, '').replace(',', '.');
+  } else if (/^\d{1,3}(\.\d{3})+$/.test(normalized)) {
+    normalized = normalized.replace(/\./g, '');
+  }
+  const match = /^(\d+)(?:\.(\d{1,2}))?$/.exec(normalized);
+  if (!match) return null;
+  return Number(match[1]) * 100 + Number((match[2] ?? '').padEnd(2, '0'));
+}
+
+const readString = (value: unknown, max: number) => (typeof value === 'string' ? value.trim().slice(0, max) : '');
+
+export type QuoteValidation = { ok: true; data: Omit<QuoteInput, 'leadId' | 'locale'> } | { ok: false; error: string };
+
+/**
+ * Teklif gövdesinin doğrulaması; hata mesajları yalnızca personele gösterildiği için Türkçedir
+ * (diğer admin uçlarıyla aynı).
+ */
+export function validateQuoteInput(input: unknown, today: string): QuoteValidation {
+  const data = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const customerInput = (data.customer && typeof data.customer === 'object' ? data.customer : {}) as Record<string, unknown>;
+  const customer: QuoteCustomer = {
+    name: readString(customerInput.name, QUOTE_LIMITS.customerName),
+    email: readString(customerInput.email, 254).toLowerCase(),
+    company: readString(customerInput.company, QUOTE_LIMITS.customerName),
+    address: readString(customerInput.address, QUOTE_LIMITS.customerAddress),
+  };
+  if (!customer.name) return { ok: false, error: 'Müşteri adı zorunludur' };
+  if (!isValidEmail(customer.email)) return { ok: false, error: 'Geçerli bir müşteri e-postası girin' };
+
+  if (!Array.isArray(data.items) || data.items.length === 0) return { ok: false, error: 'En az bir kalem ekleyin' };
+  if (data.items.length > QUOTE_LIMITS.items) return { ok: false, error: `En fazla ${QUOTE_LIMITS.items} kalem eklenebilir` };
+
+  const items: QuoteLineItem[] = [];
+  for (const [index, raw] of data.items.entries()) {
+    const item = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const row = index + 1;
+    if (!isServiceId(item.serviceId)) return { ok: false, error: `${row}. kalem: hizmet seçin` };
+    if (!isQuoteUnit(item.unit)) return { ok: false, error: `${row}. kalem: birim seçin` };
+    const quantity = item.quantity;
+    if (typeof quantity !== 'number' || !Number.isFinite(quantity) || quantity <= 0 || quantity > QUOTE_LIMITS.maxQuantity) {
+      return { ok: false, error: `${row}. kalem: geçerli bir miktar girin` };
+    }
+    const unitPriceKurus = item.unitPriceKurus;
+    if (!Number.isInteger(unitPriceKurus) || (unitPriceKurus as number) < 0 || (unitPriceKurus as number) > QUOTE_LIMITS.maxUnitPriceKurus) {
+      return { ok: false, error: `${row}. kalem: geçerli bir birim fiyat girin` };
+    }
+    items.push({
+      serviceId: item.serviceId,
+      description: readString(item.description, QUOTE_LIMITS.description),
+      quantity: Math.round(quantity * QUANTITY_SCALE) / QUANTITY_SCALE,
+      unit: item.unit,
+      unitPriceKurus: unitPriceKurus as number,
+    });
+  }
+
+  if (calculateQuoteTotals(items, 0).subtotal > QUOTE_LIMITS.maxSubtotalKurus) {
+    return { ok: false, error: 'Teklif toplamı çok büyük' };
+  }
+
+  if (!isVatRate(data.vatRate)) return { ok: false, error: 'Geçersiz KDV oranı' };
+  const validUntil = typeof data.validUntil === 'string' ? data.validUntil : '';
+  if (!DATE_PATTERN.test(validUntil) || Number.isNaN(Date.parse(validUntil))) {
+    return { ok: false, error: 'Geçerlilik tarihi hatalı' };
+  }
+  if (validUntil < today) return { ok: false, error: 'Geçerlilik tarihi geçmişte olamaz' };
+
+  return {
+    ok: true,
+    data: { customer, items, vatRate: data.vatRate, validUntil, terms: readString(data.terms, QUOTE_LIMITS.terms) },
+  };
+}
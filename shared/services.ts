@@ -0,0 +1,20 @@
+/**
+ * Hizmet kimlikleri
+ * components/Services.tsx içindeki servicesData bu sabitleri kullanır; fiyat tablosu gibi
+ * UI'dan bağımsız modüller (Pages Functions dahil) hizmetlere bu kimliklerle bağlanır.
+ */
+export const SERVICE_IDS = {
+  LIDAR: 1,
+  DRONE: 2,
+  HARITA: 3,
+  ORMANCILIK: 4,
+  MADENCILIK: 5,
+} as const;
+
+export type ServiceId = (typeof SERVICE_IDS)[keyof typeof SERVICE_IDS];
+
+export const ALL_SERVICE_IDS = Object.values(SERVICE_IDS) as ServiceId[];
+
+export function isServiceId(value: unknown): value is ServiceId {
+  return typeof value === 'number' && (ALL_SERVICE_IDS as number[]).includes(value);
+}
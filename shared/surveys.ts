@@ -0,0 +1,151 @@
+/**
+ * Saha keşfi randevuları (aplikasyon, sınır tespiti...) - ilk görüşmeden sonraki adım
+ * SurveyBookingPage/SurveyManagePage (tarayıcı) ve functions/api/surveys/* aynı kuralları kullanır.
+ * Saatler veritabanında UTC ISO olarak tutulur, arayüzde ve e-postada Türkiye saatiyle gösterilir.
+ */
+import { isValidEmail, isValidTurkishPhone } from './contact';
+import { SERVICE_IDS, type ServiceId } from './services';
+import { DEFAULT_LOCALE, LOCALE_TAGS, format, getMessages, type Locale } from './i18n';
+
+export const SURVEY_TIME_ZONE = 'Europe/Istanbul';
+
+/** Bir keşif ziyaretinin süresi; personelin müsaitlik aralıkları bu uzunlukta dilimlere bölünür */
+export const SURVEY_SLOT_MINUTES = 120;
+/** Ziyaretçi bilgilerini doldururken dilim bu süre boyunca başkasına verilmez */
+export const SURVEY_HOLD_MINUTES = 10;
+/** En erken bu kadar sonrası için randevu alınabilir; ekip arazi planını yapabilsin */
+export const SURVEY_MIN_NOTICE_HOURS = 24;
+export const SURVEY_BOOKING_DAYS = 21;
+
+export const SURVEY_KINDS = ['aplikasyon', 'sinir-tespiti', 'topografik', 'diger'] as const;
+export type SurveyKind = (typeof SURVEY_KINDS)[number];
+
+export function isSurveyKind(value: unknown): value is SurveyKind {
+  return typeof value === 'string' && (SURVEY_KINDS as readonly string[]).includes(value);
+}
+
+/** Hizmet detayında "keşif randevusu" bağlantısı gösterilen hizmetler */
+export const SITE_SURVEY_SERVICE_IDS: ServiceId[] = [SERVICE_IDS.HARITA];
+
+export const SURVEY_LIMITS = {
+  firstName: 60,
+  lastName: 60,
+  email: 254,
+  phone: 25,
+  address: 300,
+  notes: 1000,
+} as const;
+
+export interface SurveySlot {
+  startsAt: string;
+  endsAt: string;
+}
+
+export type SurveyBookingStatus = 'held' | 'confirmed' | 'cancelled' | 'expired';
+
+/** Yönetim bağlantısıyla açılan randevu özeti */
+export interface SurveyBookingInfo {
+  id: string;
+  kind: SurveyKind;
+  status: SurveyBookingStatus;
+  startsAt: string;
+  endsAt: string;
+  name: string;
+  address: string;
+  /** İptal ve yeni saat seçimi yalnızca randevu saatinden önce yapılabilir */
+  canChange: boolean;
+}
+
+/** Personelin müsaitlik aralığı ve içine düşen randevular */
+export interface SurveyAvailabilityWindow {
+  id: number;
+  startsAt: string;
+  endsAt: string;
+  bookings: Array<{ id: string; startsAt: string; status: SurveyBookingStatus; name: string; kind: SurveyKind }>;
+}
+
+export interface SurveyDetails {
+  firstName: string;
+  lastName: string;
+  email: string;
+  phone: string;
+  address: string;
+  notes: string;
+}
+
+export type SurveyDetailField = keyof SurveyDetails;
+
+export type SurveyDetailsValidation =
+  | { ok: true; data: SurveyDetails }
+  | { ok: false; errors: Partial<Record<SurveyDetailField, string>> };
+
+const readString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+/** Randevu formunun doğrulaması; ad, e-posta ve telefon kuralları iletişim formuyla aynıdır */
+export function validateSurveyDetails(input: unknown, locale: Locale = DEFAULT_LOCALE): SurveyDetailsValidation {
+  const messages = getMessages(locale);
+  const m = messages.validation;
+  const data = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const details: SurveyDetails = {
+    firstName: readString(data.firstName),
+    lastName: readString(data.lastName),
+    email: readString(data.email).toLowerCase(),
+    phone: readString(data.phone),
+    address: readString(data.address),
+    notes: readString(data.notes),
+  };
+
+  const errors: Partial<Record<SurveyDetailField, string>> = {};
+  const s = messages.surveys;
+
+  if (!details.firstName) {
+    errors.firstName = s.nameRequired;
+  } else if (details.firstName.length > SURVEY_LIMITS.firstName) {
+    errors.firstName = format(m.firstNameTooLong, { max: SURVEY_LIMITS.firstName });
+  }
+  if (!details.lastName) {
+    errors.lastName = s.nameRequired;
+  } else if (details.lastName.length > SURVEY_LIMITS.lastName) {
+    errors.lastName = format(m.lastNameTooLong, { max: SURVEY_LIMITS.lastName });
+  }
+
+  if (!details.email) {
+    errors.email = m.emailRequired;
+  } else if (!isValidEmail(details.email)) {
+    errors.email = m.emailInvalid;
+  }
+
+  // Ekip arazide müşteriye ulaşabilmeli; iletişim formunun aksine telefon zorunludur
+  if (!details.phone) {
+    errors.phone = s.phoneRequired;
+  } else if (details.phone.length > SURVEY_LIMITS.phone || !isValidTurkishPhone(details.phone)) {
+    errors.phone = m.phoneInvalid;
+  }
+
+  if (!details.address) {
+    errors.address = s.addressRequired;
+  } else if (details.address.length > SURVEY_LIMITS.address) {
+    errors.address = format(s.tooLong, { max: SURVEY_LIMITS.address });
+  }
+  if (details.notes.length > SURVEY_LIMITS.notes) {
+    errors.notes = format(s.tooLong, { max: SURVEY_LIMITS.notes });
+  }
+
+  return Object.keys(errors).length ? { ok: false, errors } : { ok: true, data: details };
+}
+
+/** Türkiye saatiyle gün anahtarı (YYYY-MM-DD); dilimler arayüzde günlere göre gruplanır */
+export function surveyDayKey(iso: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone: SURVEY_TIME_ZONE, year: 'numeric', month: '2-digit', day: '2-digit' }).format(
+    new Date(iso)
+  );
+}
+
+/** Randevu saati her yerde Türkiye saatiyle yazılır; ziyaretçinin tarayıcı saat dilimi farklı olabilir */
+export function formatSurveyTime(
+  iso: string,
+  locale: Locale,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'full', timeStyle: 'short' }
+): string {
+  return new Intl.DateTimeFormat(LOCALE_TAGS[locale], { ...options, timeZone: SURVEY_TIME_ZONE }).format(new Date(iso));
+}
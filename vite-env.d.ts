@@ -8,3 +8,13 @@ interface ImportMetaEnv {
   readonly VITE_APP_URL?: string;
 }
 
+
+/** plugins/serviceContent.ts tarafından content/services/ dosyalarından üretilir */
+declare module 'virtual:service-content' {
+  export const services: import('./shared/content/services').ServiceContent[];
+}
+
+/** plugins/caseStudyContent.ts tarafından content/referanslar/ dosyalarından üretilir */
+declare module 'virtual:case-studies' {
+  export const caseStudies: import('./shared/content/caseStudies').CaseStudyContent[];
+}
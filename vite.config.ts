@@ -1,6 +1,9 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { i18nCheck } from './plugins/i18nCheck';
+import { serviceContent } from './plugins/serviceContent';
+import { caseStudyContent } from './plugins/caseStudyContent';
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +12,12 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        i18nCheck(),
+        serviceContent(path.resolve(__dirname, 'content/services')),
+        caseStudyContent(path.resolve(__dirname, 'content/referanslar')),
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Testler saf modülleri (shared/, functions/lib/) Node ortamında çalıştırır; Vite eklentileri yüklenmez
+export default defineConfig({
+  test: {
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', 'dist/**'],
+    environment: 'node',
+  },
+});